@@ -1,13 +1,22 @@
 /**
  * AI-powered documentation generator for community nodes.
  *
- * Uses a local LLM (Qwen or compatible) via OpenAI-compatible API
- * to generate structured documentation summaries from README content.
+ * Uses a local LLM (Qwen or compatible) via OpenAI-compatible API by default
+ * to generate structured documentation summaries from README content. Any
+ * LLM provider from src/llm can be passed instead, including the offline
+ * heuristic provider.
  */
 
-import OpenAI from 'openai';
 import { z } from 'zod';
 import { logger } from '../utils/logger';
+import {
+  DEFAULT_LOCAL_MODEL,
+  LLMProvider,
+  OpenAICompatibleProvider,
+  StructuredOutputMode,
+  createLLMProvider,
+  getLLMProviderConfigFromEnv
+} from '../llm';
 
 /**
  * Schema for AI-generated documentation summary
@@ -57,16 +66,38 @@ export interface DocumentationGeneratorConfig {
   timeout?: number;
   /** Max tokens for response (default: 2000) */
   maxTokens?: number;
+  /** How JSON output is requested (default: prompt) */
+  structuredOutput?: StructuredOutputMode;
+  /** Use this provider instead of creating one from baseUrl/model/apiKey */
+  provider?: LLMProvider;
 }
 
 /**
  * Default configuration
  */
-const DEFAULT_CONFIG: Required<Omit<DocumentationGeneratorConfig, 'baseUrl'>> = {
-  model: 'qwen3-4b-thinking-2507',
+const DEFAULT_CONFIG: Required<Omit<DocumentationGeneratorConfig, 'baseUrl' | 'provider'>> = {
+  model: DEFAULT_LOCAL_MODEL,
   apiKey: 'not-needed',
   timeout: 60000,
   maxTokens: 2000,
+  structuredOutput: 'prompt',
+};
+
+/**
+ * JSON schema of DocumentationSummarySchema for structured output
+ */
+const DOCUMENTATION_SUMMARY_JSON_SCHEMA = {
+  type: 'object',
+  properties: {
+    purpose: { type: 'string' },
+    capabilities: { type: 'array', items: { type: 'string' }, maxItems: 10 },
+    authentication: { type: 'string' },
+    commonUseCases: { type: 'array', items: { type: 'string' }, maxItems: 5 },
+    limitations: { type: 'array', items: { type: 'string' }, maxItems: 5 },
+    relatedNodes: { type: 'array', items: { type: 'string' }, maxItems: 5 },
+  },
+  required: ['purpose', 'capabilities', 'authentication', 'commonUseCases', 'limitations', 'relatedNodes'],
+  additionalProperties: false,
 };
 
 /**
@@ -74,7 +105,7 @@ const DEFAULT_CONFIG: Required<Omit<DocumentationGeneratorConfig, 'baseUrl'>> =
  * using a local LLM via OpenAI-compatible API.
  */
 export class DocumentationGenerator {
-  private client: OpenAI;
+  private provider: LLMProvider;
   private model: string;
   private maxTokens: number;
   private timeout: number;
@@ -82,12 +113,14 @@ export class DocumentationGenerator {
   constructor(config: DocumentationGeneratorConfig) {
     const fullConfig = { ...DEFAULT_CONFIG, ...config };
 
-    this.client = new OpenAI({
-      baseURL: config.baseUrl,
+    this.provider = config.provider ?? new OpenAICompatibleProvider({
+      baseUrl: config.baseUrl,
       apiKey: fullConfig.apiKey,
+      model: fullConfig.model,
       timeout: fullConfig.timeout,
+      structuredOutput: fullConfig.structuredOutput,
     });
-    this.model = fullConfig.model;
+    this.model = this.provider.model;
     this.maxTokens = fullConfig.maxTokens;
     this.timeout = fullConfig.timeout;
   }
@@ -97,35 +130,18 @@ export class DocumentationGenerator {
    */
   async generateSummary(input: DocumentationInput): Promise<DocumentationResult> {
     try {
-      const prompt = this.buildPrompt(input);
-
-      const completion = await this.client.chat.completions.create({
-        model: this.model,
-        max_tokens: this.maxTokens,
+      const parsed = await this.provider.generateJson<DocumentationSummary>({
+        schemaName: 'documentation_summary',
+        jsonSchema: DOCUMENTATION_SUMMARY_JSON_SCHEMA,
+        system: this.getSystemPrompt(),
+        prompt: this.buildPrompt(input),
+        maxTokens: this.maxTokens,
         temperature: 0.3, // Lower temperature for more consistent output
-        messages: [
-          {
-            role: 'system',
-            content: this.getSystemPrompt(),
-          },
-          {
-            role: 'user',
-            content: prompt,
-          },
-        ],
+        heuristic: () => generateHeuristicSummary(input),
       });
 
-      const content = completion.choices[0]?.message?.content;
-      if (!content) {
-        throw new Error('No content in LLM response');
-      }
-
-      // Extract JSON from response (handle markdown code blocks)
-      const jsonContent = this.extractJson(content);
-      const parsed = JSON.parse(jsonContent);
-
       // Truncate arrays to fit schema limits before validation
-      const truncated = this.truncateArrayFields(parsed);
+      const truncated = this.truncateArrayFields(parsed as Record<string, unknown>);
 
       // Validate with Zod
       const validated = DocumentationSummarySchema.parse(truncated);
@@ -238,26 +254,6 @@ Guidelines:
 - Respond with valid JSON only, no additional text`;
   }
 
-  /**
-   * Extract JSON from LLM response (handles markdown code blocks)
-   */
-  private extractJson(content: string): string {
-    // Try to extract from markdown code block
-    const jsonBlockMatch = content.match(/```(?:json)?\s*([\s\S]*?)```/);
-    if (jsonBlockMatch) {
-      return jsonBlockMatch[1].trim();
-    }
-
-    // Try to find JSON object directly
-    const jsonMatch = content.match(/\{[\s\S]*\}/);
-    if (jsonMatch) {
-      return jsonMatch[0];
-    }
-
-    // Return as-is if no extraction needed
-    return content.trim();
-  }
-
   /**
    * Truncate array fields to fit schema limits
    * Ensures LLM responses with extra items still validate
@@ -318,27 +314,7 @@ Guidelines:
    * Test connection to the LLM server
    */
   async testConnection(): Promise<{ success: boolean; message: string }> {
-    try {
-      const completion = await this.client.chat.completions.create({
-        model: this.model,
-        max_tokens: 10,
-        messages: [
-          {
-            role: 'user',
-            content: 'Hello',
-          },
-        ],
-      });
-
-      if (completion.choices[0]?.message?.content) {
-        return { success: true, message: `Connected to ${this.model}` };
-      }
-
-      return { success: false, message: 'No response from LLM' };
-    } catch (error) {
-      const message = error instanceof Error ? error.message : 'Unknown error';
-      return { success: false, message: `Connection failed: ${message}` };
-    }
+    return this.provider.testConnection();
   }
 
   private sleep(ms: number): Promise<void> {
@@ -346,17 +322,69 @@ Guidelines:
   }
 }
 
+/**
+ * Derive a documentation summary from the README without a model
+ * (heuristic provider)
+ */
+export function generateHeuristicSummary(input: DocumentationInput): DocumentationSummary {
+  const lines = input.readme.split('\n');
+
+  // First prose paragraph after the title
+  const paragraph = lines
+    .map((line) => line.trim())
+    .find((line) => line && !/^(#|!\[|\[!|<|```|[-*|>])/.test(line));
+  const purpose = input.description || paragraph?.replace(/\s+/g, ' ').slice(0, 300) || `Community node: ${input.displayName}`;
+
+  // Bullets below operation/feature headings
+  const capabilities: string[] = [];
+  const limitations: string[] = [];
+  let section: 'capabilities' | 'limitations' | null = null;
+  for (const line of lines) {
+    const heading = line.match(/^#{1,6}\s+(.*)/);
+    if (heading) {
+      section = /operation|feature|action|resource|capabilit|usage/i.test(heading[1]) ? 'capabilities'
+        : /limitation|known issue|caveat|not supported/i.test(heading[1]) ? 'limitations'
+        : null;
+      continue;
+    }
+    const bullet = line.match(/^\s*[-*+]\s+(.*)/);
+    if (section && bullet) {
+      const text = bullet[1].replace(/\*\*|`|\[([^\]]*)\]\([^)]*\)/g, '$1').trim();
+      if (text) (section === 'capabilities' ? capabilities : limitations).push(text);
+    }
+  }
+
+  const readme = input.readme.toLowerCase();
+  const authentication = /oauth\s*2?/.test(readme) ? 'OAuth2'
+    : /api[\s_-]?(key|token)/.test(readme) ? 'API key required'
+    : /access token|bearer/.test(readme) ? 'Access token required'
+    : /username|password|basic auth/.test(readme) ? 'Username and password'
+    : 'See README for authentication details';
+
+  const relatedNodes = [...new Set(input.readme.match(/n8n-nodes-base\.[A-Za-z0-9]+/g) || [])];
+
+  return {
+    purpose,
+    capabilities: capabilities.slice(0, 10),
+    authentication,
+    commonUseCases: [],
+    limitations: limitations.slice(0, 5),
+    relatedNodes: relatedNodes.slice(0, 5),
+  };
+}
+
 /**
  * Create a documentation generator with environment variable configuration
+ * (N8N_MCP_LLM_PROVIDER selects the provider, default openai-compatible)
  */
 export function createDocumentationGenerator(): DocumentationGenerator {
-  const baseUrl = process.env.N8N_MCP_LLM_BASE_URL || 'http://localhost:1234/v1';
-  const model = process.env.N8N_MCP_LLM_MODEL || 'qwen3-4b-thinking-2507';
-  const timeout = parseInt(process.env.N8N_MCP_LLM_TIMEOUT || '60000', 10);
+  const config = getLLMProviderConfigFromEnv('openai-compatible');
+  const timeout = config.timeout ?? 60000;
 
   return new DocumentationGenerator({
-    baseUrl,
-    model,
+    baseUrl: config.baseUrl || 'http://localhost:1234/v1',
+    model: config.model,
     timeout,
+    provider: createLLMProvider({ ...config, timeout }),
   });
 }
@@ -2,6 +2,7 @@ import { promises as fs } from 'fs';
 import * as fsSync from 'fs';
 import path from 'path';
 import { logger } from '../utils/logger';
+import { DatabaseOperation, databaseOperation, timeDatabaseQuery } from '../utils/prometheus-metrics';
 
 /**
  * Unified database interface that abstracts better-sqlite3 and sql.js
@@ -192,7 +193,7 @@ class BetterSQLiteAdapter implements DatabaseAdapter {
   
   prepare(sql: string): PreparedStatement {
     const stmt = this.db.prepare(sql);
-    return new BetterSQLiteStatement(stmt);
+    return new BetterSQLiteStatement(stmt, databaseOperation(sql));
   }
   
   exec(sql: string): void {
@@ -271,7 +272,7 @@ class SQLJSAdapter implements DatabaseAdapter {
   prepare(sql: string): PreparedStatement {
     const stmt = this.db.prepare(sql);
     // Don't schedule save on prepare - only on actual writes (via SQLJSStatement.run())
-    return new SQLJSStatement(stmt, () => this.scheduleSave());
+    return new SQLJSStatement(stmt, () => this.scheduleSave(), databaseOperation(sql));
   }
   
   exec(sql: string): void {
@@ -374,18 +375,18 @@ class SQLJSAdapter implements DatabaseAdapter {
  * Statement wrapper for better-sqlite3
  */
 class BetterSQLiteStatement implements PreparedStatement {
-  constructor(private stmt: any) {}
+  constructor(private stmt: any, private operation: DatabaseOperation) {}
   
   run(...params: any[]): RunResult {
-    return this.stmt.run(...params);
+    return timeDatabaseQuery(this.operation, () => this.stmt.run(...params));
   }
   
   get(...params: any[]): any {
-    return this.stmt.get(...params);
+    return timeDatabaseQuery(this.operation, () => this.stmt.get(...params));
   }
   
   all(...params: any[]): any[] {
-    return this.stmt.all(...params);
+    return timeDatabaseQuery(this.operation, () => this.stmt.all(...params));
   }
   
   iterate(...params: any[]): IterableIterator<any> {
@@ -423,9 +424,21 @@ class BetterSQLiteStatement implements PreparedStatement {
 class SQLJSStatement implements PreparedStatement {
   private boundParams: any = null;
   
-  constructor(private stmt: any, private onModify: () => void) {}
+  constructor(private stmt: any, private onModify: () => void, private operation: DatabaseOperation) {}
   
   run(...params: any[]): RunResult {
+    return timeDatabaseQuery(this.operation, () => this.runStatement(params));
+  }
+  
+  get(...params: any[]): any {
+    return timeDatabaseQuery(this.operation, () => this.getRow(params));
+  }
+  
+  all(...params: any[]): any[] {
+    return timeDatabaseQuery(this.operation, () => this.allRows(params));
+  }
+  
+  private runStatement(params: any[]): RunResult {
     try {
       if (params.length > 0) {
         this.bindParams(params);
@@ -448,7 +461,7 @@ class SQLJSStatement implements PreparedStatement {
     }
   }
   
-  get(...params: any[]): any {
+  private getRow(params: any[]): any {
     try {
       if (params.length > 0) {
         this.bindParams(params);
@@ -471,7 +484,7 @@ class SQLJSStatement implements PreparedStatement {
     }
   }
   
-  all(...params: any[]): any[] {
+  private allRows(params: any[]): any[] {
     try {
       if (params.length > 0) {
         this.bindParams(params);
@@ -19,6 +19,7 @@ export interface CommunityNodeFields {
 
 export class NodeRepository {
   private db: DatabaseAdapter;
+  private workflowRevisionTableReady = false;
   
   constructor(dbOrService: DatabaseAdapter | SQLiteStorageService) {
     if (dbOrService instanceof SQLiteStorageService) {
@@ -363,6 +364,9 @@ export class NodeRepository {
       npmVersion: row.npm_version || null,
       npmDownloads: row.npm_downloads || 0,
       communityFetchedAt: row.community_fetched_at || null,
+      // Private node fields
+      isPrivate: Number(row.is_private) === 1,
+      privateSource: row.private_source || null,
       // AI documentation fields
       npmReadme: row.npm_readme || null,
       aiDocumentationSummary: row.ai_documentation_summary
@@ -668,6 +672,72 @@ export class NodeRepository {
     return result.changes;
   }
 
+  // ========================================
+  // Private Node Methods
+  // ========================================
+
+  /**
+   * Add the private node columns and their index to databases created before
+   * they existed. Does nothing while the nodes table does not exist, so it can
+   * run before schema.sql is applied to an existing file - the schema indexes
+   * is_private and fails on databases without the column.
+   */
+  ensurePrivateNodeColumns(): void {
+    const columns = this.getNodeColumns();
+    if (columns.size === 0) return;
+    if (!columns.has('is_private')) {
+      this.db.exec('ALTER TABLE nodes ADD COLUMN is_private INTEGER DEFAULT 0');
+    }
+    if (!columns.has('private_source')) {
+      this.db.exec('ALTER TABLE nodes ADD COLUMN private_source TEXT');
+    }
+    this.db.exec('CREATE INDEX IF NOT EXISTS idx_private ON nodes(is_private)');
+  }
+
+  /**
+   * Whether the private node columns exist - read-only databases built before
+   * private node support cannot be migrated
+   */
+  hasPrivateNodeColumns(): boolean {
+    return this.getNodeColumns().has('is_private');
+  }
+
+  private getNodeColumns(): Set<string> {
+    return new Set(
+      (this.db.prepare('PRAGMA table_info(nodes)').all() as Array<{ name: string }>).map(c => c.name)
+    );
+  }
+
+  /**
+   * Save a node from a private package, recording where it was indexed from
+   */
+  savePrivateNode(node: ParsedNode, source: string): void {
+    this.saveNode(node);
+    this.db.prepare(
+      'UPDATE nodes SET is_private = 1, private_source = ? WHERE node_type = ?'
+    ).run(source, node.nodeType);
+  }
+
+  /**
+   * Get private nodes, optionally of one package
+   */
+  getPrivateNodes(packageName?: string): any[] {
+    const rows = packageName
+      ? this.db.prepare('SELECT * FROM nodes WHERE is_private = 1 AND package_name = ? ORDER BY display_name').all(packageName)
+      : this.db.prepare('SELECT * FROM nodes WHERE is_private = 1 ORDER BY package_name, display_name').all();
+    return (rows as any[]).map(row => this.parseNodeRow(row));
+  }
+
+  /**
+   * Delete the private nodes of a package (before re-indexing it) or all of them
+   */
+  deletePrivateNodes(packageName?: string): number {
+    const result = packageName
+      ? this.db.prepare('DELETE FROM nodes WHERE is_private = 1 AND package_name = ?').run(packageName)
+      : this.db.prepare('DELETE FROM nodes WHERE is_private = 1').run();
+    return result.changes;
+  }
+
   // ========================================
   // AI Documentation Methods
   // ========================================
@@ -807,6 +877,30 @@ export class NodeRepository {
     );
   }
 
+  /**
+   * Replace the stored versions of a node with the ones it was parsed with.
+   * Only VersionedNodeType nodes have versions; Tool variants share the
+   * versions of their base node and get none.
+   */
+  replaceNodeVersions(node: ParsedNode): void {
+    this.db.prepare('DELETE FROM node_versions WHERE node_type = ?').run(node.nodeType);
+    if (node.isToolVariant || !node.versions || node.versions.length === 0) return;
+
+    const maxVersion = Math.max(...node.versions.map(version => Number(version.version)));
+    for (const version of node.versions) {
+      this.saveNodeVersion({
+        nodeType: node.nodeType,
+        version: version.version,
+        packageName: node.packageName,
+        displayName: node.displayName,
+        description: node.description,
+        category: node.category,
+        isCurrentMax: Number(version.version) === maxVersion,
+        propertiesSchema: version.properties
+      });
+    }
+  }
+
   /**
    * Get all available versions for a specific node type
    */
@@ -1114,6 +1208,27 @@ export class NodeRepository {
     return this.parseWorkflowVersionRow(row);
   }
 
+  /**
+   * Get the backups created by one bulk operation (one per workflow)
+   */
+  getWorkflowVersionsByBulkOperation(bulkOperationId: string): any[] {
+    const rows = this.db.prepare(`
+      SELECT * FROM workflow_versions
+      WHERE json_extract(metadata, '$.bulkOperationId') = ?
+      ORDER BY workflow_id, version_number DESC
+    `).all(bulkOperationId) as any[];
+    return rows.map(row => this.parseWorkflowVersionRow(row));
+  }
+
+  /**
+   * Replace the metadata of a workflow version
+   */
+  updateWorkflowVersionMetadata(versionId: number, metadata: Record<string, unknown>): void {
+    this.db.prepare(`
+      UPDATE workflow_versions SET metadata = ? WHERE id = ?
+    `).run(JSON.stringify(metadata), versionId);
+  }
+
   /**
    * Delete a specific workflow version
    */
@@ -1247,4 +1362,69 @@ export class NodeRepository {
       createdAt: row.created_at
     };
   }
+
+  // ========================================
+  // Workflow Revision Snapshots
+  // ========================================
+
+  /**
+   * Store the workflow as it was at one n8n revision, keeping only the most
+   * recent keepCount revisions of the workflow
+   */
+  saveWorkflowRevision(workflowId: string, snapshot: any, keepCount: number): void {
+    this.ensureWorkflowRevisionTable();
+    this.db.prepare(`
+      INSERT OR REPLACE INTO workflow_revisions (workflow_id, version_id, updated_at, workflow_snapshot)
+      VALUES (?, ?, ?, ?)
+    `).run(workflowId, snapshot.versionId ?? null, snapshot.updatedAt ?? null, JSON.stringify(snapshot));
+
+    this.db.prepare(`
+      DELETE FROM workflow_revisions
+      WHERE workflow_id = ? AND id NOT IN (
+        SELECT id FROM workflow_revisions WHERE workflow_id = ? ORDER BY id DESC LIMIT ?
+      )
+    `).run(workflowId, workflowId, keepCount);
+  }
+
+  /**
+   * Get the stored snapshot of a workflow revision, matched by n8n versionId,
+   * or by updatedAt when no versionId is given
+   */
+  getWorkflowRevision(workflowId: string, revision: { versionId?: string; updatedAt?: string }): any | null {
+    this.ensureWorkflowRevisionTable();
+    const row = (revision.versionId
+      ? this.db.prepare(`
+          SELECT workflow_snapshot FROM workflow_revisions
+          WHERE workflow_id = ? AND version_id = ?
+          ORDER BY id DESC LIMIT 1
+        `).get(workflowId, revision.versionId)
+      : this.db.prepare(`
+          SELECT workflow_snapshot FROM workflow_revisions
+          WHERE workflow_id = ? AND updated_at = ?
+          ORDER BY id DESC LIMIT 1
+        `).get(workflowId, revision.updatedAt)) as any;
+
+    if (!row) return null;
+    return this.safeJsonParse(row.workflow_snapshot, null);
+  }
+
+  /**
+   * Databases built before revision snapshots existed lack the table
+   */
+  private ensureWorkflowRevisionTable(): void {
+    if (this.workflowRevisionTableReady) return;
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS workflow_revisions (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        workflow_id TEXT NOT NULL,
+        version_id TEXT,
+        updated_at TEXT,
+        workflow_snapshot TEXT NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE(workflow_id, version_id, updated_at)
+      );
+      CREATE INDEX IF NOT EXISTS idx_workflow_revisions_workflow_id ON workflow_revisions(workflow_id);
+    `);
+    this.workflowRevisionTableReady = true;
+  }
 }
\ No newline at end of file
@@ -29,6 +29,9 @@ CREATE TABLE IF NOT EXISTS nodes (
   npm_version TEXT,                   -- npm package version
   npm_downloads INTEGER DEFAULT 0,    -- Weekly/monthly download count
   community_fetched_at DATETIME,      -- When the community node was last synced
+  -- Private node fields
+  is_private INTEGER DEFAULT 0,       -- 1 if indexed from a local package directory or tarball
+  private_source TEXT,                -- Directory or tarball the private node was indexed from
   -- AI-enhanced documentation fields
   npm_readme TEXT,                    -- Raw README markdown from npm registry
   ai_documentation_summary TEXT,      -- AI-generated structured summary (JSON)
@@ -47,6 +50,8 @@ CREATE INDEX IF NOT EXISTS idx_community ON nodes(is_community);
 CREATE INDEX IF NOT EXISTS idx_verified ON nodes(is_verified);
 CREATE INDEX IF NOT EXISTS idx_npm_downloads ON nodes(npm_downloads);
 CREATE INDEX IF NOT EXISTS idx_npm_package ON nodes(npm_package_name);
+-- Private node index
+CREATE INDEX IF NOT EXISTS idx_private ON nodes(is_private);
 
 -- FTS5 full-text search index for nodes
 CREATE VIRTUAL TABLE IF NOT EXISTS nodes_fts USING fts5(
@@ -66,20 +71,20 @@ BEGIN
   VALUES (new.rowid, new.node_type, new.display_name, new.description, new.documentation, new.operations);
 END;
 
+-- nodes_fts is an external content table: removed rows must be passed to the
+-- 'delete' command with their old values, the content row no longer exists
 CREATE TRIGGER IF NOT EXISTS nodes_fts_update AFTER UPDATE ON nodes
 BEGIN
-  UPDATE nodes_fts
-  SET node_type = new.node_type,
-      display_name = new.display_name,
-      description = new.description,
-      documentation = new.documentation,
-      operations = new.operations
-  WHERE rowid = new.rowid;
+  INSERT INTO nodes_fts(nodes_fts, rowid, node_type, display_name, description, documentation, operations)
+  VALUES ('delete', old.rowid, old.node_type, old.display_name, old.description, old.documentation, old.operations);
+  INSERT INTO nodes_fts(rowid, node_type, display_name, description, documentation, operations)
+  VALUES (new.rowid, new.node_type, new.display_name, new.description, new.documentation, new.operations);
 END;
 
 CREATE TRIGGER IF NOT EXISTS nodes_fts_delete AFTER DELETE ON nodes
 BEGIN
-  DELETE FROM nodes_fts WHERE rowid = old.rowid;
+  INSERT INTO nodes_fts(nodes_fts, rowid, node_type, display_name, description, documentation, operations)
+  VALUES ('delete', old.rowid, old.node_type, old.display_name, old.description, old.documentation, old.operations);
 END;
 
 -- Templates table for n8n workflow templates
@@ -165,6 +170,48 @@ FROM template_node_configs
 WHERE rank <= 5  -- Top 5 per node type
 ORDER BY node_type, rank;
 
+-- Node class fingerprints for incremental rebuilds (npm run rebuild:incremental)
+-- A node is re-parsed only when its description hash changes
+CREATE TABLE IF NOT EXISTS node_fingerprints (
+  node_key TEXT PRIMARY KEY,         -- packageName/nodeName from the package's n8n.nodes
+  package_name TEXT NOT NULL,
+  package_version TEXT,              -- Installed package version at the last rebuild
+  description_hash TEXT NOT NULL,    -- SHA-256 of the node's descriptions
+  node_types TEXT NOT NULL,          -- JSON array: stored node types (base + Tool variant)
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Sentence embeddings for semantic search (search_nodes / search_templates with searchMode 'semantic')
+-- Precomputed at rebuild time; source_hash detects rows whose text or model changed since
+CREATE TABLE IF NOT EXISTS node_embeddings (
+  node_type TEXT PRIMARY KEY,
+  model TEXT NOT NULL,               -- Embedding model id (see embedding-model.ts)
+  source_hash TEXT NOT NULL,         -- SHA-256 of the model id and the embedded text
+  vector BLOB NOT NULL               -- Float32 vector, L2-normalized
+);
+
+CREATE TABLE IF NOT EXISTS template_embeddings (
+  template_id INTEGER PRIMARY KEY,
+  model TEXT NOT NULL,
+  source_hash TEXT NOT NULL,
+  vector BLOB NOT NULL
+);
+
+-- Per-template metadata generation jobs (npm run fetch:templates -- --metadata-only)
+-- Resumable: interrupted 'running' jobs are reset to 'pending' on the next run
+CREATE TABLE IF NOT EXISTS metadata_jobs (
+  template_id INTEGER PRIMARY KEY,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK(status IN ('pending', 'running', 'completed', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  last_error TEXT,
+  next_attempt_at INTEGER,           -- Epoch ms of the next retry (exponential backoff)
+  provider TEXT,                     -- LLM provider that generated the metadata
+  model TEXT,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_metadata_jobs_status ON metadata_jobs(status, next_attempt_at);
+
 -- Note: Template FTS5 tables are created conditionally at runtime if FTS5 is supported
 -- See template-repository.ts initializeFTS5() method
 -- Node FTS5 table (nodes_fts) is created above during schema initialization
@@ -256,4 +303,19 @@ CREATE TABLE IF NOT EXISTS workflow_versions (
 -- Indexes for workflow version queries
 CREATE INDEX IF NOT EXISTS idx_workflow_versions_workflow_id ON workflow_versions(workflow_id);
 CREATE INDEX IF NOT EXISTS idx_workflow_versions_created_at ON workflow_versions(created_at);
-CREATE INDEX IF NOT EXISTS idx_workflow_versions_trigger ON workflow_versions(trigger);
\ No newline at end of file
+CREATE INDEX IF NOT EXISTS idx_workflow_versions_trigger ON workflow_versions(trigger);
+
+-- Snapshots of workflow revisions returned by n8n_get_workflow and by updates,
+-- used as merge bases when an update is made against a revision that has
+-- changed since (e.g. edited in the n8n UI)
+CREATE TABLE IF NOT EXISTS workflow_revisions (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  workflow_id TEXT NOT NULL,              -- n8n workflow ID
+  version_id TEXT,                        -- n8n versionId of the revision
+  updated_at TEXT,                        -- n8n updatedAt of the revision
+  workflow_snapshot TEXT NOT NULL,        -- Full workflow JSON at this revision
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE(workflow_id, version_id, updated_at)
+);
+
+CREATE INDEX IF NOT EXISTS idx_workflow_revisions_workflow_id ON workflow_revisions(workflow_id);
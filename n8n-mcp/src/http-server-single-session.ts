@@ -16,6 +16,8 @@ import { readFileSync } from 'fs';
 import dotenv from 'dotenv';
 import { getStartupBaseUrl, formatEndpointUrls, detectBaseUrl } from './utils/url-detector';
 import { PROJECT_VERSION } from './utils/version';
+import { metricsRegistry, PROMETHEUS_CONTENT_TYPE } from './utils/prometheus-metrics';
+import { setHttpMode } from './utils/server-mode';
 import { v4 as uuidv4 } from 'uuid';
 import { createHash } from 'crypto';
 import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
@@ -108,12 +110,17 @@ export class SingleSessionHTTPServer {
   private expressServer: any;
   private sessionTimeout = 30 * 60 * 1000; // 30 minutes
   private authToken: string | null = null;
+  private metricsToken: string | null = null;  // /metrics is only served when set
   private cleanupTimer: NodeJS.Timeout | null = null;
   
   constructor() {
+    // Remote clients: also for N8NMCPEngine, which does not set MCP_MODE
+    setHttpMode(true);
     // Validate environment on construction
     this.validateEnvironment();
     // No longer pre-create session - will be created per initialize request following SDK pattern
+
+    this.registerSessionMetrics();
     
     // Start periodic session cleanup
     this.startSessionCleanup();
@@ -433,6 +440,47 @@ export class SingleSessionHTTPServer {
         console.warn('Update via Railway dashboard environment variables\n');
       }
     }
+
+    this.metricsToken = this.loadMetricsToken();
+    if (this.metricsToken && this.metricsToken === this.authToken) {
+      logger.warn('METRICS_TOKEN is the same as AUTH_TOKEN - use a separate token so scrapers cannot call MCP tools');
+    }
+  }
+
+  /**
+   * Load the /metrics token from METRICS_TOKEN or METRICS_TOKEN_FILE.
+   * Independent of AUTH_TOKEN and of the telemetry opt-in.
+   */
+  private loadMetricsToken(): string | null {
+    if (process.env.METRICS_TOKEN) {
+      return process.env.METRICS_TOKEN.trim() || null;
+    }
+
+    if (process.env.METRICS_TOKEN_FILE) {
+      try {
+        const token = readFileSync(process.env.METRICS_TOKEN_FILE, 'utf-8').trim();
+        logger.info(`Loaded METRICS_TOKEN from file: ${process.env.METRICS_TOKEN_FILE}`);
+        return token || null;
+      } catch (error) {
+        logger.error(`Failed to read METRICS_TOKEN_FILE: ${process.env.METRICS_TOKEN_FILE}`, error);
+        return null;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Expose session counts on /metrics. Registering again replaces the
+   * collector, so only the latest server instance is reported.
+   */
+  private registerSessionMetrics(): void {
+    metricsRegistry.collect('n8n_mcp_active_sessions', 'Active MCP sessions', 'gauge', () => [
+      { labels: {}, value: this.getActiveSessionCount() },
+    ]);
+    metricsRegistry.collect('n8n_mcp_max_sessions', 'Maximum concurrent MCP sessions', 'gauge', () => [
+      { labels: {}, value: MAX_SESSIONS },
+    ]);
   }
   
 
@@ -813,7 +861,14 @@ export class SingleSessionHTTPServer {
             url: endpoints.mcp,
             method: 'GET/POST',
             description: 'MCP endpoint - GET for info, POST for JSON-RPC'
-          }
+          },
+          ...(this.metricsToken && {
+            metrics: {
+              url: `${baseUrl}/metrics`,
+              method: 'GET',
+              description: 'Prometheus metrics (requires METRICS_TOKEN)'
+            }
+          })
         },
         authentication: {
           type: 'Bearer Token',
@@ -862,6 +917,31 @@ export class SingleSessionHTTPServer {
         timestamp: new Date().toISOString()
       });
     });
+
+    // Prometheus metrics endpoint - only registered when METRICS_TOKEN is set
+    if (this.metricsToken) {
+      app.get('/metrics', (req, res) => {
+        const authHeader = req.headers.authorization;
+        const token = authHeader?.startsWith('Bearer ') ? authHeader.slice(7).trim() : '';
+
+        // SECURITY: Use timing-safe comparison, as for /mcp
+        if (!token || !AuthManager.timingSafeCompare(token, this.metricsToken!)) {
+          logger.warn('Metrics authentication failed', {
+            ip: req.ip,
+            userAgent: req.get('user-agent'),
+            reason: authHeader ? 'invalid_token' : 'no_auth_header'
+          });
+          res.status(401).json({
+            error: 'Unauthorized',
+            message: 'A valid metrics token is required'
+          });
+          return;
+        }
+
+        res.setHeader('Content-Type', PROMETHEUS_CONTENT_TYPE);
+        res.send(metricsRegistry.render());
+      });
+    }
     
     // Test endpoint for manual testing without auth
     app.post('/mcp/test', jsonParser, async (req: express.Request, res: express.Response): Promise<void> => {
@@ -18,6 +18,7 @@ import { N8NDocumentationMCPServer } from './mcp/server';
 import { logger } from './utils/logger';
 import { AuthManager } from './utils/auth';
 import { PROJECT_VERSION } from './utils/version';
+import { setHttpMode } from './utils/server-mode';
 import { isN8nApiConfigured } from './config/n8n-api';
 import dotenv from 'dotenv';
 import { readFileSync } from 'fs';
@@ -192,6 +193,7 @@ export async function startFixedHTTPServer() {
   });
   
   // Create a single persistent MCP server instance
+  setHttpMode(true);
   const mcpServer = new N8NDocumentationMCPServer();
   logger.info('Created persistent MCP server instance');
 
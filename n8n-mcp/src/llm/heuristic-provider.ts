@@ -0,0 +1,31 @@
+/**
+ * Provider that calls no model: each request carries a deterministic
+ * heuristic (see StructuredOutputRequest.heuristic), so metadata and docs can
+ * be generated fully offline.
+ */
+
+import { LLMCapabilities, LLMProvider, LLMUsage, StructuredOutputRequest } from './llm-provider';
+
+export class HeuristicProvider implements LLMProvider {
+  readonly id = 'heuristic' as const;
+  readonly model = 'heuristic';
+
+  async detectCapabilities(): Promise<LLMCapabilities> {
+    return { structuredOutput: 'json_schema', batchApi: false };
+  }
+
+  async generateJson<T = unknown>(request: StructuredOutputRequest<T>): Promise<unknown> {
+    if (!request.heuristic) {
+      throw new Error(`The heuristic provider cannot generate ${request.schemaName}`);
+    }
+    return request.heuristic();
+  }
+
+  getUsage(): LLMUsage {
+    return { requests: 0, promptTokens: 0, completionTokens: 0 };
+  }
+
+  async testConnection(): Promise<{ success: boolean; message: string }> {
+    return { success: true, message: 'Using heuristic provider (offline, no model)' };
+  }
+}
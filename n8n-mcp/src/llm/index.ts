@@ -0,0 +1,92 @@
+/**
+ * LLM providers - see llm-provider.ts
+ */
+
+import { HeuristicProvider } from './heuristic-provider';
+import { LLMProvider, LLMProviderConfig, LLMProviderId, StructuredOutputMode } from './llm-provider';
+import { OpenAICompatibleProvider } from './openai-compatible-provider';
+
+export * from './llm-provider';
+export { HeuristicProvider } from './heuristic-provider';
+export { OpenAICompatibleProvider } from './openai-compatible-provider';
+export type { OpenAICompatibleProviderConfig } from './openai-compatible-provider';
+
+export const DEFAULT_OPENAI_MODEL = 'gpt-4o-mini';
+export const DEFAULT_LOCAL_MODEL = 'qwen3-4b-thinking-2507';
+export const DEFAULT_LOCAL_BASE_URL = 'http://localhost:1234/v1';
+
+const PROVIDER_IDS: LLMProviderId[] = ['openai', 'openai-compatible', 'heuristic'];
+const STRUCTURED_OUTPUT_MODES: StructuredOutputMode[] = ['auto', 'json_schema', 'json_object', 'prompt'];
+
+/**
+ * Create a provider; openai-compatible detects structured output support unless configured
+ */
+export function createLLMProvider(config: LLMProviderConfig): LLMProvider {
+  switch (config.provider) {
+    case 'heuristic':
+      return new HeuristicProvider();
+    case 'openai':
+      return new OpenAICompatibleProvider({
+        id: 'openai',
+        baseUrl: config.baseUrl,
+        apiKey: config.apiKey,
+        model: config.model || DEFAULT_OPENAI_MODEL,
+        timeout: config.timeout,
+        structuredOutput: config.structuredOutput ?? 'json_schema'
+      });
+    case 'openai-compatible':
+      return new OpenAICompatibleProvider({
+        id: 'openai-compatible',
+        baseUrl: config.baseUrl || DEFAULT_LOCAL_BASE_URL,
+        apiKey: config.apiKey,
+        model: config.model || DEFAULT_LOCAL_MODEL,
+        timeout: config.timeout,
+        structuredOutput: config.structuredOutput ?? 'auto'
+      });
+    default:
+      throw new Error(`Unknown LLM provider "${config.provider}". Use one of: ${PROVIDER_IDS.join(', ')}`);
+  }
+}
+
+/**
+ * Read the provider configuration from the environment.
+ *
+ * N8N_MCP_LLM_PROVIDER selects the provider; without it `fallback` is used.
+ * openai reads OPENAI_API_KEY / OPENAI_MODEL / OPENAI_BASE_URL, openai-compatible
+ * reads N8N_MCP_LLM_BASE_URL / N8N_MCP_LLM_MODEL / N8N_MCP_LLM_API_KEY.
+ * Both read N8N_MCP_LLM_TIMEOUT and N8N_MCP_LLM_STRUCTURED_OUTPUT.
+ */
+export function getLLMProviderConfigFromEnv(fallback: LLMProviderId): LLMProviderConfig {
+  const provider = (process.env.N8N_MCP_LLM_PROVIDER || fallback) as LLMProviderId;
+  if (!PROVIDER_IDS.includes(provider)) {
+    throw new Error(`Invalid N8N_MCP_LLM_PROVIDER "${provider}". Use one of: ${PROVIDER_IDS.join(', ')}`);
+  }
+
+  const structuredOutput = process.env.N8N_MCP_LLM_STRUCTURED_OUTPUT as StructuredOutputMode | undefined;
+  if (structuredOutput && !STRUCTURED_OUTPUT_MODES.includes(structuredOutput)) {
+    throw new Error(`Invalid N8N_MCP_LLM_STRUCTURED_OUTPUT "${structuredOutput}". Use one of: ${STRUCTURED_OUTPUT_MODES.join(', ')}`);
+  }
+  const timeout = process.env.N8N_MCP_LLM_TIMEOUT ? parseInt(process.env.N8N_MCP_LLM_TIMEOUT, 10) : undefined;
+
+  if (provider === 'openai') {
+    return {
+      provider,
+      apiKey: process.env.OPENAI_API_KEY,
+      model: process.env.OPENAI_MODEL,
+      baseUrl: process.env.OPENAI_BASE_URL,
+      timeout,
+      structuredOutput
+    };
+  }
+  if (provider === 'openai-compatible') {
+    return {
+      provider,
+      baseUrl: process.env.N8N_MCP_LLM_BASE_URL,
+      apiKey: process.env.N8N_MCP_LLM_API_KEY,
+      model: process.env.N8N_MCP_LLM_MODEL,
+      timeout,
+      structuredOutput
+    };
+  }
+  return { provider };
+}
@@ -0,0 +1,141 @@
+/**
+ * LLM provider abstraction for template metadata and community node docs.
+ *
+ * Providers:
+ * - openai: the OpenAI API (supports the Batch API for template metadata)
+ * - openai-compatible: any server speaking the chat completions API
+ *   (llama.cpp, vLLM, Ollama, LM Studio, other vendors)
+ * - heuristic: no model at all; output is derived deterministically from the
+ *   request's input, so generation works fully offline
+ *
+ * Create providers with createLLMProvider() from ./index.
+ */
+
+export type LLMProviderId = 'openai' | 'openai-compatible' | 'heuristic';
+
+/**
+ * How JSON output is requested from the model:
+ * - json_schema: response_format with a strict JSON schema
+ * - json_object: response_format JSON mode, schema described in the prompt
+ * - prompt: schema described in the prompt only, JSON extracted from the reply
+ * - auto: detect the best mode the server supports
+ */
+export type StructuredOutputMode = 'auto' | 'json_schema' | 'json_object' | 'prompt';
+
+export interface LLMCapabilities {
+  structuredOutput: Exclude<StructuredOutputMode, 'auto'>;
+  /** OpenAI Batch API (files + batches endpoints) */
+  batchApi: boolean;
+}
+
+export interface StructuredOutputRequest<T = unknown> {
+  /** Schema name, e.g. template_metadata */
+  schemaName: string;
+  /** JSON schema of the expected object */
+  jsonSchema: Record<string, unknown>;
+  system: string;
+  prompt: string;
+  maxTokens?: number;
+  temperature?: number;
+  /** Deterministic result for providers that do not call a model */
+  heuristic?: () => T;
+}
+
+export interface LLMUsage {
+  requests: number;
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface LLMProvider {
+  readonly id: LLMProviderId;
+  readonly model: string;
+  /** Detect (and cache) what the provider supports */
+  detectCapabilities(): Promise<LLMCapabilities>;
+  /** Generate an object matching the request's schema (validate the result with zod) */
+  generateJson<T = unknown>(request: StructuredOutputRequest<T>): Promise<unknown>;
+  /** Token usage since the provider was created */
+  getUsage(): LLMUsage;
+  testConnection(): Promise<{ success: boolean; message: string }>;
+}
+
+export interface LLMProviderConfig {
+  provider: LLMProviderId;
+  model?: string;
+  /** Server URL for openai-compatible (e.g. http://localhost:11434/v1); optional for openai */
+  baseUrl?: string;
+  apiKey?: string;
+  timeout?: number;
+  structuredOutput?: StructuredOutputMode;
+}
+
+/**
+ * OpenAI list prices in USD per 1M tokens (input, output), matched by model prefix
+ */
+const MODEL_PRICING: Record<string, [number, number]> = {
+  'gpt-4o-mini': [0.15, 0.6],
+  'gpt-4o': [2.5, 10],
+  'gpt-4.1-nano': [0.1, 0.4],
+  'gpt-4.1-mini': [0.4, 1.6],
+  'gpt-4.1': [2, 8],
+  'gpt-5-nano': [0.05, 0.4],
+  'gpt-5-mini': [0.25, 2],
+  'gpt-5': [1.25, 10]
+};
+
+/**
+ * Cost of the usage in USD; 0 for the heuristic provider and local servers,
+ * null when the model's price is unknown
+ */
+export function estimateCostUsd(providerId: LLMProviderId, model: string, usage: Omit<LLMUsage, 'requests'>): number | null {
+  if (providerId !== 'openai') return 0;
+
+  const prefix = Object.keys(MODEL_PRICING)
+    .sort((a, b) => b.length - a.length)
+    .find(key => model.startsWith(key));
+  if (!prefix) return null;
+
+  const [input, output] = MODEL_PRICING[prefix];
+  return (usage.promptTokens * input + usage.completionTokens * output) / 1_000_000;
+}
+
+/**
+ * Extract a JSON object from a model reply (markdown code blocks, reasoning
+ * blocks of thinking models, text around the object)
+ */
+export function extractJson(content: string): string {
+  const withoutReasoning = content.replace(/<think>[\s\S]*?<\/think>/g, '');
+
+  // Try to extract from markdown code block
+  const jsonBlockMatch = withoutReasoning.match(/```(?:json)?\s*([\s\S]*?)```/);
+  if (jsonBlockMatch) {
+    return jsonBlockMatch[1].trim();
+  }
+
+  // Try to find JSON object directly
+  const jsonMatch = withoutReasoning.match(/\{[\s\S]*\}/);
+  if (jsonMatch) {
+    return jsonMatch[0];
+  }
+
+  // Return as-is if no extraction needed
+  return withoutReasoning.trim();
+}
+
+/**
+ * Truncate array fields to the maxItems of their schema, models without
+ * structured output often return a few items too many
+ */
+export function truncateToSchema(value: unknown, jsonSchema: Record<string, unknown>): unknown {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return value;
+
+  const properties = (jsonSchema.properties || {}) as Record<string, { maxItems?: number }>;
+  const result: Record<string, unknown> = { ...(value as Record<string, unknown>) };
+  for (const [field, schema] of Object.entries(properties)) {
+    const current = result[field];
+    if (Array.isArray(current) && schema.maxItems !== undefined && current.length > schema.maxItems) {
+      result[field] = current.slice(0, schema.maxItems);
+    }
+  }
+  return result;
+}
@@ -0,0 +1,203 @@
+/**
+ * Provider for the OpenAI API and OpenAI-compatible servers (llama.cpp,
+ * vLLM, Ollama, LM Studio, other vendors).
+ *
+ * Structured output support differs per server and model. With
+ * structuredOutput 'auto' the provider probes json_schema, then json_object,
+ * and falls back to describing the schema in the prompt. A server that
+ * rejects the mode in use later on is downgraded the same way.
+ */
+
+import OpenAI from 'openai';
+import { logger } from '../utils/logger';
+import {
+  LLMCapabilities,
+  LLMProvider,
+  LLMUsage,
+  StructuredOutputMode,
+  StructuredOutputRequest,
+  extractJson,
+  truncateToSchema
+} from './llm-provider';
+
+export interface OpenAICompatibleProviderConfig {
+  id?: 'openai' | 'openai-compatible';
+  /** Server URL; omit for the OpenAI API */
+  baseUrl?: string;
+  /** Defaults to OPENAI_API_KEY for openai, 'not-needed' for local servers */
+  apiKey?: string;
+  model: string;
+  /** Request timeout in ms (default: 60000) */
+  timeout?: number;
+  /** Default: auto */
+  structuredOutput?: StructuredOutputMode;
+}
+
+type ResolvedMode = LLMCapabilities['structuredOutput'];
+
+const FALLBACK_ORDER: ResolvedMode[] = ['json_schema', 'json_object', 'prompt'];
+
+const PROBE_REQUEST: StructuredOutputRequest = {
+  schemaName: 'capability_probe',
+  jsonSchema: {
+    type: 'object',
+    properties: { ok: { type: 'boolean' } },
+    required: ['ok'],
+    additionalProperties: false
+  },
+  system: 'You are a JSON API.',
+  prompt: 'Return {"ok": true}.',
+  maxTokens: 200
+};
+
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly id: 'openai' | 'openai-compatible';
+  readonly model: string;
+  private client: OpenAI;
+  private baseUrl?: string;
+  private structuredOutput: StructuredOutputMode;
+  private capabilities: LLMCapabilities | null = null;
+  private usage: LLMUsage = { requests: 0, promptTokens: 0, completionTokens: 0 };
+
+  constructor(config: OpenAICompatibleProviderConfig) {
+    this.id = config.id ?? 'openai-compatible';
+    this.model = config.model;
+    this.baseUrl = config.baseUrl;
+    this.structuredOutput = config.structuredOutput ?? 'auto';
+    this.client = new OpenAI({
+      baseURL: config.baseUrl,
+      apiKey: config.apiKey ?? (this.id === 'openai' ? process.env.OPENAI_API_KEY : 'not-needed'),
+      timeout: config.timeout ?? 60000
+    });
+  }
+
+  async detectCapabilities(): Promise<LLMCapabilities> {
+    if (this.capabilities) return this.capabilities;
+
+    const batchApi = this.id === 'openai' && !this.baseUrl;
+    if (this.structuredOutput !== 'auto') {
+      this.capabilities = { structuredOutput: this.structuredOutput, batchApi };
+      return this.capabilities;
+    }
+
+    for (const mode of ['json_schema', 'json_object'] as const) {
+      try {
+        const parsed = JSON.parse(extractJson(await this.complete(mode, PROBE_REQUEST)));
+        if (typeof parsed?.ok === 'boolean') {
+          logger.info(`LLM ${this.model} supports ${mode} structured output`);
+          this.capabilities = { structuredOutput: mode, batchApi };
+          return this.capabilities;
+        }
+      } catch (error) {
+        // Servers that are down fail every mode - report that instead of guessing
+        if (!isUnsupportedModeError(error) && !(error instanceof SyntaxError)) throw error;
+        logger.debug(`LLM ${this.model} does not support ${mode}`, error);
+      }
+    }
+
+    logger.info(`LLM ${this.model} has no structured output support, describing the schema in the prompt`);
+    this.capabilities = { structuredOutput: 'prompt', batchApi };
+    return this.capabilities;
+  }
+
+  async generateJson<T = unknown>(request: StructuredOutputRequest<T>): Promise<unknown> {
+    const capabilities = await this.detectCapabilities();
+
+    let content: string;
+    try {
+      content = await this.complete(capabilities.structuredOutput, request);
+    } catch (error) {
+      const next = FALLBACK_ORDER[FALLBACK_ORDER.indexOf(capabilities.structuredOutput) + 1];
+      if (!next || !isUnsupportedModeError(error)) throw error;
+
+      logger.warn(`LLM ${this.model} rejected ${capabilities.structuredOutput}, falling back to ${next}`);
+      capabilities.structuredOutput = next;
+      return this.generateJson(request);
+    }
+
+    return truncateToSchema(JSON.parse(extractJson(content)), request.jsonSchema);
+  }
+
+  getUsage(): LLMUsage {
+    return { ...this.usage };
+  }
+
+  async testConnection(): Promise<{ success: boolean; message: string }> {
+    try {
+      const completion = await this.client.chat.completions.create({
+        model: this.model,
+        ...this.tokenLimit(10),
+        messages: [
+          {
+            role: 'user',
+            content: 'Hello',
+          },
+        ],
+      });
+
+      if (completion.choices[0]?.message?.content) {
+        return { success: true, message: `Connected to ${this.model}` };
+      }
+
+      return { success: false, message: 'No response from LLM' };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      return { success: false, message: `Connection failed: ${message}` };
+    }
+  }
+
+  /**
+   * Run one chat completion in the given mode and return the reply text
+   */
+  private async complete(mode: ResolvedMode, request: StructuredOutputRequest<any>): Promise<string> {
+    const system = mode === 'json_schema'
+      ? request.system
+      : `${request.system}\n\nRespond with a single JSON object matching this JSON schema, no other text:\n${JSON.stringify(request.jsonSchema)}`;
+
+    const params: OpenAI.Chat.ChatCompletionCreateParamsNonStreaming = {
+      model: this.model,
+      ...this.tokenLimit(request.maxTokens ?? 2000),
+      ...(request.temperature !== undefined ? { temperature: request.temperature } : {}),
+      messages: [
+        { role: 'system', content: system },
+        { role: 'user', content: request.prompt }
+      ]
+    };
+    if (mode === 'json_schema') {
+      params.response_format = {
+        type: 'json_schema',
+        json_schema: { name: request.schemaName, strict: true, schema: request.jsonSchema }
+      };
+    } else if (mode === 'json_object') {
+      params.response_format = { type: 'json_object' };
+    }
+
+    const completion = await this.client.chat.completions.create(params);
+    this.usage.requests++;
+    this.usage.promptTokens += completion.usage?.prompt_tokens ?? 0;
+    this.usage.completionTokens += completion.usage?.completion_tokens ?? 0;
+
+    const content = completion.choices[0]?.message?.content;
+    if (!content) {
+      throw new Error('No content in LLM response');
+    }
+    return content;
+  }
+
+  /**
+   * OpenAI's newer models only accept max_completion_tokens, most local servers only max_tokens
+   */
+  private tokenLimit(tokens: number): { max_tokens: number } | { max_completion_tokens: number } {
+    return this.id === 'openai' ? { max_completion_tokens: tokens } : { max_tokens: tokens };
+  }
+}
+
+/**
+ * Whether a request failed because the server does not support the response_format in use
+ */
+function isUnsupportedModeError(error: unknown): boolean {
+  const status = (error as { status?: number })?.status;
+  const message = error instanceof Error ? error.message : String(error);
+  const mentionsFormat = /response_format|json_schema|json_object|structured|grammar|not supported|unsupported/i.test(message);
+  return mentionsFormat && (status === undefined || [400, 404, 422, 501].includes(status));
+}
@@ -1,3 +1,4 @@
+import fs from 'fs';
 import path from 'path';
 
 export interface LoadedNode {
@@ -6,7 +7,19 @@ export interface LoadedNode {
   NodeClass: any;
 }
 
+/**
+ * Output sink for loader progress. Defaults to the console (rebuild scripts);
+ * the MCP server passes its logger so stdio output stays clean.
+ */
+export interface NodeLoaderOutput {
+  log(message: string): void;
+  warn(message: string): void;
+  error(message: string, ...details: unknown[]): void;
+}
+
 export class N8nNodeLoader {
+  constructor(private readonly output: NodeLoaderOutput = console) {}
+
   private readonly CORE_PACKAGES = [
     { name: 'n8n-nodes-base', path: 'n8n-nodes-base' },
     { name: '@n8n/n8n-nodes-langchain', path: '@n8n/n8n-nodes-langchain' }
@@ -17,20 +30,40 @@ export class N8nNodeLoader {
     
     for (const pkg of this.CORE_PACKAGES) {
       try {
-        console.log(`\n📦 Loading package: ${pkg.name} from ${pkg.path}`);
+        this.output.log(`\n📦 Loading package: ${pkg.name} from ${pkg.path}`);
         // Use the path property to locate the package
         const packageJson = require(`${pkg.path}/package.json`);
-        console.log(`  Found ${Object.keys(packageJson.n8n?.nodes || {}).length} nodes in package.json`);
+        this.output.log(`  Found ${Object.keys(packageJson.n8n?.nodes || {}).length} nodes in package.json`);
         const nodes = await this.loadPackageNodes(pkg.name, pkg.path, packageJson);
         results.push(...nodes);
       } catch (error) {
-        console.error(`Failed to load ${pkg.name}:`, error);
+        this.output.error(`Failed to load ${pkg.name}:`, error);
       }
     }
     
     return results;
   }
 
+  /**
+   * Load the nodes of a package from a local directory (private packages).
+   * Cached modules of the directory are dropped so re-indexing picks up changes.
+   */
+  async loadPackageFromDirectory(packageDir: string): Promise<LoadedNode[]> {
+    const root = path.resolve(packageDir);
+    for (const cached of Object.keys(require.cache)) {
+      if (cached.startsWith(root + path.sep)) {
+        delete require.cache[cached];
+      }
+    }
+
+    const packageJson = JSON.parse(fs.readFileSync(path.join(root, 'package.json'), 'utf-8'));
+    if (!packageJson.name) {
+      throw new Error(`package.json in ${root} has no name`);
+    }
+    this.output.log(`\n📦 Loading private package: ${packageJson.name} from ${root}`);
+    return this.loadPackageNodes(packageJson.name, root, packageJson);
+  }
+
   private async loadPackageNodes(packageName: string, packagePath: string, packageJson: any): Promise<LoadedNode[]> {
     const n8nConfig = packageJson.n8n || {};
     const nodes: LoadedNode[] = [];
@@ -53,12 +86,12 @@ export class N8nNodeLoader {
           const NodeClass = nodeModule.default || nodeModule[nodeName] || Object.values(nodeModule)[0];
           if (NodeClass) {
             nodes.push({ packageName, nodeName, NodeClass });
-            console.log(`  ✓ Loaded ${nodeName} from ${packageName}`);
+            this.output.log(`  ✓ Loaded ${nodeName} from ${packageName}`);
           } else {
-            console.warn(`  ⚠ No valid export found for ${nodeName} in ${packageName}`);
+            this.output.warn(`  ⚠ No valid export found for ${nodeName} in ${packageName}`);
           }
         } catch (error) {
-          console.error(`  ✗ Failed to load node from ${packageName}/${nodePath}:`, (error as Error).message);
+          this.output.error(`  ✗ Failed to load node from ${packageName}/${nodePath}:`, (error as Error).message);
         }
       }
     } else {
@@ -72,12 +105,12 @@ export class N8nNodeLoader {
           const NodeClass = nodeModule.default || nodeModule[nodeName] || Object.values(nodeModule)[0];
           if (NodeClass) {
             nodes.push({ packageName, nodeName, NodeClass });
-            console.log(`  ✓ Loaded ${nodeName} from ${packageName}`);
+            this.output.log(`  ✓ Loaded ${nodeName} from ${packageName}`);
           } else {
-            console.warn(`  ⚠ No valid export found for ${nodeName} in ${packageName}`);
+            this.output.warn(`  ⚠ No valid export found for ${nodeName} in ${packageName}`);
           }
         } catch (error) {
-          console.error(`  ✗ Failed to load node ${nodeName} from ${packageName}:`, (error as Error).message);
+          this.output.error(`  ✗ Failed to load node ${nodeName} from ${packageName}:`, (error as Error).message);
         }
       }
     }
@@ -0,0 +1,454 @@
+/**
+ * MCP Handler for Bulk Workflow Updates
+ * Applies one diff operation set or an autofix to every workflow matching a
+ * selector. Each changed workflow is backed up first; the backups share a
+ * bulk operation ID so the whole run can be rolled back at once. Rollback
+ * skips workflows edited after the run unless forced.
+ */
+
+import { randomUUID } from 'crypto';
+import { z } from 'zod';
+import { McpToolResponse, Workflow, WorkflowNode } from '../types/n8n-api';
+import { WorkflowDiffOperation } from '../types/workflow-diff';
+import { N8nApiClient } from '../services/n8n-api-client';
+import { getN8nApiClient, generateAutofixPlan } from './handlers-n8n-manager';
+import { handleUpdatePartialWorkflow } from './handlers-workflow-diff';
+import { N8nApiError, getUserFriendlyErrorMessage } from '../utils/n8n-errors';
+import { logger } from '../utils/logger';
+import { InstanceContext } from '../types/instance-context';
+import { NodeRepository } from '../database/node-repository';
+import { WorkflowVersioningService, WorkflowVersion } from '../services/workflow-versioning-service';
+import { fetchAllWorkflows } from '../services/workflow-dependency-graph';
+import { tagNames } from '../services/workflow-transfer';
+import { NodeTypeNormalizer } from '../utils/node-type-normalizer';
+import type { FixType } from '../services/workflow-auto-fixer';
+
+/** Operation nodeName that targets every node of selector.nodeType */
+export const ALL_MATCHING_NODES = '*';
+
+const selectorSchema = z.object({
+  ids: z.array(z.string()).optional(),
+  tags: z.array(z.string()).optional(),
+  namePattern: z.string().optional(),
+  nodeType: z.string().optional(),
+  active: z.boolean().optional()
+}).refine(
+  selector => Object.values(selector).some(value => value !== undefined),
+  { message: 'selector needs at least one of ids, tags, namePattern, nodeType or active' }
+);
+
+const bulkUpdateSchema = z.object({
+  action: z.enum(['apply', 'rollback']).optional().default('apply'),
+  selector: selectorSchema.optional(),
+  // Checked per workflow by n8n_update_partial_workflow
+  operations: z.array(z.record(z.unknown())).min(1).optional(),
+  autofix: z.object({
+    fixTypes: z.array(z.enum([
+      'expression-format',
+      'typeversion-correction',
+      'error-output-config',
+      'node-type-correction',
+      'webhook-missing-path',
+      'typeversion-upgrade',
+      'version-migration'
+    ])).optional(),
+    confidenceThreshold: z.enum(['high', 'medium', 'low']).optional().default('medium'),
+    maxFixes: z.number().optional().default(50)
+  }).optional(),
+  dryRun: z.boolean().optional().default(true),
+  concurrency: z.number().int().min(1).max(10).optional().default(3),
+  continueOnError: z.boolean().optional(),
+  createBackup: z.boolean().optional().default(true),
+  bulkOperationId: z.string().optional(),
+  // Rollback only: restore workflows even if they were edited after the run
+  force: z.boolean().optional().default(false)
+}).superRefine((input, ctx) => {
+  if (input.action === 'rollback') {
+    if (!input.bulkOperationId) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['bulkOperationId'], message: 'bulkOperationId is required for action=rollback' });
+    }
+    return;
+  }
+  if (!input.selector) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['selector'], message: 'selector is required for action=apply' });
+  }
+  if ((input.operations === undefined) === (input.autofix === undefined)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['operations'], message: 'Provide exactly one of operations or autofix' });
+  }
+  const usesWildcard = input.operations?.some(op => op.nodeName === ALL_MATCHING_NODES);
+  if (usesWildcard && !input.selector?.nodeType) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['selector', 'nodeType'],
+      message: `nodeName "${ALL_MATCHING_NODES}" needs selector.nodeType`
+    });
+  }
+});
+
+type BulkUpdateInput = z.infer<typeof bulkUpdateSchema>;
+export type WorkflowSelector = z.infer<typeof selectorSchema>;
+
+export type BulkWorkflowStatus = 'updated' | 'would_update' | 'unchanged' | 'failed';
+
+export interface BulkWorkflowResult {
+  workflowId: string;
+  name: string;
+  status: BulkWorkflowStatus;
+  operations?: number;
+  fixes?: number;
+  backupVersionId?: number;
+  error?: string;
+  details?: unknown;
+}
+
+export interface BulkRollbackResult {
+  workflowId: string;
+  name: string;
+  versionId: number;
+  status: 'restored' | 'would_restore' | 'conflict' | 'failed';
+  message?: string;
+  /** Revision of the workflow in n8n, for conflicts */
+  current?: { versionId?: string; updatedAt?: string };
+}
+
+/** Revision of a workflow right after the bulk update, stored with its backup */
+interface AppliedRevision {
+  versionId?: string;
+  updatedAt?: string;
+}
+
+export async function handleBulkUpdateWorkflows(
+  args: unknown,
+  repository: NodeRepository,
+  context?: InstanceContext
+): Promise<McpToolResponse> {
+  try {
+    const input = bulkUpdateSchema.parse(args);
+
+    const client = getN8nApiClient(context);
+    if (!client) {
+      return {
+        success: false,
+        error: 'n8n API not configured. Please set N8N_API_URL and N8N_API_KEY environment variables.'
+      };
+    }
+
+    if (input.action === 'rollback') {
+      return await rollbackBulkOperation(input, client, repository);
+    }
+
+    const selector = input.selector!;
+    const workflows = await selectWorkflows(client, selector);
+    const bulkOperationId = randomUUID();
+    const versioningService = new WorkflowVersioningService(repository, client);
+
+    const results = await runWithConcurrency(workflows, input.concurrency, workflow =>
+      updateWorkflow(workflow, input, bulkOperationId, repository, versioningService, context)
+    );
+
+    const count = (status: BulkWorkflowStatus) => results.filter(result => result.status === status).length;
+    const summary = {
+      matched: workflows.length,
+      updated: count('updated'),
+      wouldUpdate: count('would_update'),
+      unchanged: count('unchanged'),
+      failed: count('failed')
+    };
+    const backedUp = results.some(result => result.backupVersionId !== undefined);
+
+    logger.info('Bulk workflow update finished', { bulkOperationId, dryRun: input.dryRun, ...summary });
+
+    return {
+      success: true,
+      data: {
+        // Only a run that created backups can be rolled back
+        bulkOperationId: backedUp ? bulkOperationId : undefined,
+        dryRun: input.dryRun,
+        summary,
+        results
+      },
+      message: input.dryRun
+        ? `Dry run: ${summary.wouldUpdate} of ${summary.matched} matching workflows would change, ${summary.failed} would fail. Set dryRun=false to apply.`
+        : `Updated ${summary.updated} of ${summary.matched} matching workflows (${summary.failed} failed).` +
+          (backedUp ? ` Roll back with action="rollback", bulkOperationId="${bulkOperationId}".` : '')
+    };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return {
+        success: false,
+        error: 'Invalid input',
+        details: { errors: error.errors }
+      };
+    }
+
+    if (error instanceof N8nApiError) {
+      return {
+        success: false,
+        error: getUserFriendlyErrorMessage(error),
+        code: error.code
+      };
+    }
+
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred'
+    };
+  }
+}
+
+/**
+ * Whether a workflow matches every criterion of the selector.
+ * Tags must all be present, namePattern is a case-insensitive glob (*).
+ */
+export function matchesSelector(workflow: Workflow, selector: WorkflowSelector): boolean {
+  if (selector.ids && !selector.ids.includes(workflow.id ?? '')) return false;
+  if (selector.active !== undefined && (workflow.active ?? false) !== selector.active) return false;
+  if (selector.namePattern && !globToRegExp(selector.namePattern).test(workflow.name)) return false;
+
+  if (selector.tags && selector.tags.length > 0) {
+    const names = new Set(tagNames(workflow.tags).map(name => name.toLowerCase()));
+    if (!selector.tags.every(tag => names.has(tag.toLowerCase()))) return false;
+  }
+
+  if (selector.nodeType && findNodesOfType(workflow, selector.nodeType).length === 0) return false;
+  return true;
+}
+
+/**
+ * Replace operations whose nodeName is "*" with one copy per node of the
+ * given type in the workflow; other operations are kept as they are
+ */
+export function expandOperations(
+  operations: Array<Record<string, unknown>>,
+  workflow: Workflow,
+  nodeType?: string
+): WorkflowDiffOperation[] {
+  const nodes = nodeType ? findNodesOfType(workflow, nodeType) : [];
+  return operations.flatMap(operation => {
+    if (operation.nodeName !== ALL_MATCHING_NODES) return [operation];
+    return nodes.map(node => ({ ...operation, nodeName: node.name }));
+  }) as unknown as WorkflowDiffOperation[];
+}
+
+async function selectWorkflows(client: N8nApiClient, selector: WorkflowSelector): Promise<Workflow[]> {
+  let candidates: Workflow[];
+  if (selector.ids) {
+    candidates = [];
+    for (const id of selector.ids) {
+      candidates.push(await client.getWorkflow(id));
+    }
+  } else {
+    // Narrow the listing server-side where the API can; the rest is matched here
+    candidates = await fetchAllWorkflows(client, {
+      active: selector.active,
+      tags: selector.tags && selector.tags.length > 0 ? selector.tags.join(',') : undefined
+    });
+  }
+  return candidates.filter(workflow => !workflow.isArchived && matchesSelector(workflow, selector));
+}
+
+async function updateWorkflow(
+  workflow: Workflow,
+  input: BulkUpdateInput,
+  bulkOperationId: string,
+  repository: NodeRepository,
+  versioningService: WorkflowVersioningService,
+  context?: InstanceContext
+): Promise<BulkWorkflowResult> {
+  const result: BulkWorkflowResult = { workflowId: workflow.id!, name: workflow.name, status: 'unchanged' };
+
+  try {
+    let operations: WorkflowDiffOperation[];
+    let fixTypes: FixType[] | undefined;
+    if (input.autofix) {
+      const { fixResult } = await generateAutofixPlan(workflow, repository, {
+        applyFixes: !input.dryRun,
+        fixTypes: input.autofix.fixTypes,
+        confidenceThreshold: input.autofix.confidenceThreshold,
+        maxFixes: input.autofix.maxFixes
+      });
+      operations = fixResult.operations;
+      fixTypes = [...new Set(fixResult.fixes.map(fix => fix.type))];
+      result.fixes = fixResult.fixes.length;
+    } else {
+      operations = expandOperations(input.operations!, workflow, input.selector?.nodeType);
+    }
+
+    if (operations.length === 0) {
+      return result;
+    }
+    result.operations = operations.length;
+
+    let backupVersionId: number | undefined;
+    const metadata = { bulkOperationId, reason: 'Backup before bulk update' };
+    if (!input.dryRun && input.createBackup) {
+      const backup = await versioningService.createBackup(workflow.id!, workflow, {
+        trigger: input.autofix ? 'autofix' : 'partial_update',
+        operations,
+        fixTypes,
+        metadata
+      });
+      backupVersionId = backup.versionId;
+    }
+
+    const update = await handleUpdatePartialWorkflow(
+      {
+        id: workflow.id,
+        operations,
+        validateOnly: input.dryRun,
+        continueOnError: input.continueOnError,
+        // The bulk backup above replaces the per-update backup
+        createBackup: false
+      },
+      repository,
+      context
+    );
+
+    if (!update.success) {
+      // Nothing changed, so there is nothing to roll back for this workflow
+      if (backupVersionId !== undefined) {
+        repository.deleteWorkflowVersion(backupVersionId);
+      }
+      return { ...result, status: 'failed', error: update.error, details: update.details };
+    }
+
+    // Rollback compares against this revision to detect later edits
+    if (backupVersionId !== undefined) {
+      const { versionId, updatedAt } = (update.data ?? {}) as AppliedRevision;
+      const appliedRevision: AppliedRevision = { versionId, updatedAt };
+      repository.updateWorkflowVersionMetadata(backupVersionId, { ...metadata, appliedRevision });
+    }
+
+    return { ...result, status: input.dryRun ? 'would_update' : 'updated', backupVersionId };
+  } catch (error) {
+    return {
+      ...result,
+      status: 'failed',
+      error: error instanceof N8nApiError
+        ? getUserFriendlyErrorMessage(error)
+        : error instanceof Error ? error.message : String(error)
+    };
+  }
+}
+
+async function rollbackBulkOperation(
+  input: BulkUpdateInput,
+  client: N8nApiClient,
+  repository: NodeRepository
+): Promise<McpToolResponse> {
+  const bulkOperationId = input.bulkOperationId!;
+  const versions = repository.getWorkflowVersionsByBulkOperation(bulkOperationId) as WorkflowVersion[];
+  if (versions.length === 0) {
+    return {
+      success: false,
+      error: `No backups found for bulk operation ${bulkOperationId}. It made no changes, or its backups were pruned or deleted.`
+    };
+  }
+
+  const versioningService = new WorkflowVersioningService(repository, client);
+  const results = await runWithConcurrency(versions, input.concurrency, async (version): Promise<BulkRollbackResult> => {
+    const result = { workflowId: version.workflowId, name: version.workflowName, versionId: version.id };
+
+    // Restoring over edits made after the run would silently discard them
+    if (!input.force) {
+      let current: Workflow;
+      try {
+        current = await client.getWorkflow(version.workflowId);
+      } catch (error) {
+        return {
+          ...result,
+          status: 'failed',
+          message: error instanceof N8nApiError
+            ? getUserFriendlyErrorMessage(error)
+            : error instanceof Error ? error.message : String(error)
+        };
+      }
+      const drift = describeDrift(version.metadata?.appliedRevision, current);
+      if (drift) {
+        return {
+          ...result,
+          status: 'conflict',
+          message: `${drift}; not restored. Use force=true to overwrite.`,
+          current: { versionId: current.versionId, updatedAt: current.updatedAt }
+        };
+      }
+    }
+
+    if (input.dryRun) {
+      return { ...result, status: 'would_restore' };
+    }
+    // The snapshot was valid enough to run before the update, so skip re-validation
+    const restore = await versioningService.restoreVersion(version.workflowId, version.id, false);
+    return { ...result, status: restore.success ? 'restored' : 'failed', message: restore.message };
+  });
+
+  const count = (status: BulkRollbackResult['status']) => results.filter(result => result.status === status).length;
+  const restored = count('restored');
+  const conflicts = count('conflict');
+  const failed = count('failed');
+  const conflictNote = conflicts > 0
+    ? ` ${conflicts} workflow(s) changed after the bulk update and were skipped - pass force=true to restore them anyway.`
+    : '';
+
+  return {
+    success: true,
+    data: {
+      bulkOperationId,
+      dryRun: input.dryRun,
+      summary: { workflows: results.length, restored, conflicts, failed },
+      results
+    },
+    message: input.dryRun
+      ? `Dry run: ${count('would_restore')} of ${results.length} workflows would be restored.${conflictNote} Set dryRun=false to roll back.`
+      : `Restored ${restored} of ${results.length} workflows (${failed} failed).${conflictNote}`
+  };
+}
+
+/**
+ * Why the workflow no longer is in the state the bulk update left it in,
+ * or undefined if it still is. Compared by n8n versionId where both sides
+ * have one, by updatedAt otherwise.
+ */
+function describeDrift(applied: AppliedRevision | undefined, current: Workflow): string | undefined {
+  if (!applied || (!applied.versionId && !applied.updatedAt)) {
+    return 'The state after the bulk update was not recorded, so later edits cannot be ruled out';
+  }
+  if (applied.versionId && current.versionId) {
+    return applied.versionId === current.versionId
+      ? undefined
+      : `Workflow was edited after the bulk update (versionId ${applied.versionId} -> ${current.versionId})`;
+  }
+  return applied.updatedAt === current.updatedAt
+    ? undefined
+    : `Workflow was edited after the bulk update (updatedAt ${applied.updatedAt} -> ${current.updatedAt})`;
+}
+
+/**
+ * Run the task for every item with at most `concurrency` in flight,
+ * keeping results in item order
+ */
+async function runWithConcurrency<T, R>(items: T[], concurrency: number, task: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await task(items[index]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, worker));
+  return results;
+}
+
+function findNodesOfType(workflow: Workflow, nodeType: string): WorkflowNode[] {
+  const wanted = NodeTypeNormalizer.normalizeToFullForm(nodeType);
+  return (workflow.nodes ?? []).filter(node => NodeTypeNormalizer.normalizeToFullForm(node.type) === wanted);
+}
+
+function globToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${source}$`, 'i');
+}
@@ -4,13 +4,17 @@ import {
   Workflow,
   WorkflowNode,
   WorkflowConnection,
+  Credential,
+  Tag,
+  SourceControlStatus,
   ExecutionStatus,
   WebhookRequest,
   McpToolResponse,
   ExecutionFilterOptions,
-  ExecutionMode
+  ExecutionMode,
+  ProgressReporter
 } from '../types/n8n-api';
-import type { TriggerType, TestWorkflowInput } from '../triggers/types';
+import type { TriggerType, TriggerResponse, TestWorkflowInput } from '../triggers/types';
 import {
   validateWorkflowStructure,
   hasWebhookTrigger,
@@ -25,14 +29,22 @@ import {
 } from '../utils/n8n-errors';
 import { logger } from '../utils/logger';
 import { z } from 'zod';
-import { WorkflowValidator } from '../services/workflow-validator';
+import { WorkflowValidator, WorkflowValidationResult } from '../services/workflow-validator';
 import { EnhancedConfigValidator } from '../services/enhanced-config-validator';
+import { ConfigValidator } from '../services/config-validator';
 import { NodeRepository } from '../database/node-repository';
 import { InstanceContext, validateInstanceContext } from '../types/instance-context';
 import { NodeTypeNormalizer } from '../utils/node-type-normalizer';
-import { WorkflowAutoFixer, AutoFixConfig } from '../services/workflow-auto-fixer';
+import { WorkflowAutoFixer, AutoFixConfig, AutoFixResult } from '../services/workflow-auto-fixer';
 import { ExpressionFormatValidator, ExpressionFormatIssue } from '../services/expression-format-validator';
 import { WorkflowVersioningService } from '../services/workflow-versioning-service';
+import {
+  ExpectedRevision,
+  MergeConflict,
+  mergeWorkflows,
+  hasExpectedRevision,
+  isStaleRevision
+} from '../services/workflow-merge';
 import { handleUpdatePartialWorkflow } from './handlers-workflow-diff';
 import { telemetry } from '../telemetry';
 import { TemplateService } from '../templates/template-service';
@@ -45,6 +57,35 @@ import {
   getCacheStatistics
 } from '../utils/cache-utils';
 import { processExecution } from '../services/execution-processor';
+import { rerunFromNode } from '../services/execution-rerun';
+import { isSimulationEnabled, SIMULATION_DISABLED_MESSAGE } from '../services/workflow-simulator';
+import { listExecutionIds, waitForExecution, ExecutionWaitResult } from '../services/execution-waiter';
+import {
+  MAX_PIN_DATA_BYTES,
+  PinItemsResult,
+  checkPinTarget,
+  findUnsavedPinData,
+  normalizePinItems,
+  pinDataSize,
+  pinItemsFromExecution,
+  samplePinItems,
+  summarizePinData
+} from '../services/workflow-pin-data';
+import { exportWorkflow, fetchAllCredentials, importWorkflows } from '../services/workflow-transfer';
+import {
+  buildDependencyGraph,
+  fetchAllWorkflows,
+  getWorkflowImpact,
+  isCallableWorkflow,
+  toMermaid
+} from '../services/workflow-dependency-graph';
+import {
+  AUDIT_RULE_IDS,
+  AuditRuleId,
+  runInstanceAudit,
+  toAuditMarkdown,
+  toAuditSarif
+} from '../services/instance-audit';
 import { checkNpmVersion, formatVersionMessage } from '../utils/npm-version-checker';
 
 // ========================================================================
@@ -393,6 +434,8 @@ const updateWorkflowSchema = z.object({
   settings: z.any().optional(),
   createBackup: z.boolean().optional(),
   intent: z.string().optional(),
+  expectedVersionId: z.string().optional(),
+  expectedUpdatedAt: z.string().optional(),
 });
 
 const listWorkflowsSchema = z.object({
@@ -411,6 +454,7 @@ const validateWorkflowSchema = z.object({
     validateConnections: z.boolean().optional(),
     validateExpressions: z.boolean().optional(),
     profile: z.enum(['minimal', 'runtime', 'ai-friendly', 'strict']).optional(),
+    useExecutionData: z.boolean().optional(),
   }).optional(),
 });
 
@@ -433,8 +477,8 @@ const autofixWorkflowSchema = z.object({
 // Schema for n8n_test_workflow tool
 const testWorkflowSchema = z.object({
   workflowId: z.string(),
-  triggerType: z.enum(['webhook', 'form', 'chat']).optional(),
-  httpMethod: z.enum(['GET', 'POST', 'PUT', 'DELETE']).optional(),
+  triggerType: z.enum(['webhook', 'form', 'chat', 'schedule', 'manual', 'executeWorkflow']).optional(),
+  httpMethod: z.enum(['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'HEAD']).optional(),
   webhookPath: z.string().optional(),
   message: z.string().optional(),
   sessionId: z.string().optional(),
@@ -442,6 +486,9 @@ const testWorkflowSchema = z.object({
   headers: z.record(z.string()).optional(),
   timeout: z.number().optional(),
   waitForResponse: z.boolean().optional(),
+  keepWrapper: z.boolean().optional(),
+  waitForCompletion: z.boolean().optional(),
+  completionTimeout: z.number().optional(),
 });
 
 const listExecutionsSchema = z.object({
@@ -454,9 +501,13 @@ const listExecutionsSchema = z.object({
 });
 
 const workflowVersionsSchema = z.object({
-  mode: z.enum(['list', 'get', 'rollback', 'delete', 'prune', 'truncate']),
+  mode: z.enum(['list', 'get', 'rollback', 'delete', 'prune', 'truncate', 'compare']),
   workflowId: z.string().optional(),
   versionId: z.number().optional(),
+  compareToVersionId: z.number().optional(),
+  compareToLive: z.boolean().optional(),
+  reverse: z.boolean().optional(),
+  format: z.enum(['markdown', 'semantic', 'json_patch', 'operations', 'all']).optional(),
   limit: z.number().default(10).optional(),
   validateBefore: z.boolean().default(true).optional(),
   deleteAll: z.boolean().default(false).optional(),
@@ -464,6 +515,43 @@ const workflowVersionsSchema = z.object({
   confirmTruncate: z.boolean().default(false).optional(),
 });
 
+const credentialsSchema = z.object({
+  action: z.enum(['list', 'get', 'create', 'update', 'delete', 'schema', 'requirements']),
+  id: z.string().optional(),
+  name: z.string().optional(),
+  type: z.string().optional(),
+  data: z.record(z.unknown()).optional(),
+  workflowId: z.string().optional(),
+  limit: z.number().min(1).max(100).optional(),
+  cursor: z.string().optional(),
+});
+
+const tagsSchema = z.object({
+  action: z.enum(['list', 'create', 'update', 'delete', 'assign', 'unassign']),
+  id: z.string().optional(),
+  name: z.string().optional(),
+  tags: z.array(z.string()).optional(),
+  workflowIds: z.array(z.string()).optional(),
+  createMissing: z.boolean().optional().default(true),
+  limit: z.number().min(1).max(100).optional(),
+  cursor: z.string().optional(),
+});
+
+const variablesSchema = z.object({
+  action: z.enum(['list', 'create', 'update', 'delete']),
+  id: z.string().optional(),
+  key: z.string().optional(),
+  value: z.string().optional(),
+});
+
+const sourceControlSchema = z.object({
+  action: z.enum(['status', 'pull', 'push']),
+  dryRun: z.boolean().optional().default(false),
+  force: z.boolean().optional().default(false),
+  message: z.string().optional(),
+  fileNames: z.array(z.string()).optional(),
+});
+
 // Workflow Management Handlers
 
 export async function handleCreateWorkflow(args: unknown, context?: InstanceContext): Promise<McpToolResponse> {
@@ -551,12 +639,17 @@ export async function handleCreateWorkflow(args: unknown, context?: InstanceCont
   }
 }
 
-export async function handleGetWorkflow(args: unknown, context?: InstanceContext): Promise<McpToolResponse> {
+export async function handleGetWorkflow(
+  args: unknown,
+  repository: NodeRepository,
+  context?: InstanceContext
+): Promise<McpToolResponse> {
   try {
     const client = ensureApiConfigured(context);
     const { id } = z.object({ id: z.string() }).parse(args);
     
     const workflow = await client.getWorkflow(id);
+    await recordWorkflowRevision(repository, workflow);
     
     return {
       success: true,
@@ -586,12 +679,17 @@ export async function handleGetWorkflow(args: unknown, context?: InstanceContext
   }
 }
 
-export async function handleGetWorkflowDetails(args: unknown, context?: InstanceContext): Promise<McpToolResponse> {
+export async function handleGetWorkflowDetails(
+  args: unknown,
+  repository: NodeRepository,
+  context?: InstanceContext
+): Promise<McpToolResponse> {
   try {
     const client = ensureApiConfigured(context);
     const { id } = z.object({ id: z.string() }).parse(args);
     
     const workflow = await client.getWorkflow(id);
+    await recordWorkflowRevision(repository, workflow);
     
     // Get recent executions for this workflow
     const executions = await client.listExecutions({
@@ -693,12 +791,17 @@ export async function handleGetWorkflowStructure(args: unknown, context?: Instan
   }
 }
 
-export async function handleGetWorkflowMinimal(args: unknown, context?: InstanceContext): Promise<McpToolResponse> {
+export async function handleGetWorkflowMinimal(
+  args: unknown,
+  repository: NodeRepository,
+  context?: InstanceContext
+): Promise<McpToolResponse> {
   try {
     const client = ensureApiConfigured(context);
     const { id } = z.object({ id: z.string() }).parse(args);
     
     const workflow = await client.getWorkflow(id);
+    await recordWorkflowRevision(repository, workflow);
     
     return {
       success: true,
@@ -749,15 +852,34 @@ export async function handleUpdateWorkflow(
   try {
     const client = ensureApiConfigured(context);
     const input = updateWorkflowSchema.parse(args);
-    const { id, createBackup, intent, ...updateData } = input;
+    const { id, createBackup, intent, expectedVersionId, expectedUpdatedAt, ...updateData } = input;
     userIntent = intent || 'Full workflow update';
+    const expected: ExpectedRevision = { versionId: expectedVersionId, updatedAt: expectedUpdatedAt };
+    let mergedFrom: MergeBase | null = null;
 
     // If nodes/connections are being updated, validate the structure
-    if (updateData.nodes || updateData.connections) {
+    if (updateData.nodes || updateData.connections || hasExpectedRevision(expected)) {
       // Always fetch current workflow for validation (need all fields like name)
       const current = await client.getWorkflow(id);
       workflowBefore = JSON.parse(JSON.stringify(current));
 
+      // Edited against an older revision: merge with the changes made since then
+      if (hasExpectedRevision(expected) && isStaleRevision(current, expected)) {
+        const baseLookup = await findMergeBase(repository, client, id, expected, current);
+        if ('response' in baseLookup) {
+          return baseLookup.response;
+        }
+
+        const base = baseLookup.base.workflowSnapshot;
+        const merge = mergeWorkflows(base, { ...base, ...updateData }, current);
+        if (merge.hasConflicts) {
+          return buildMergeConflictResponse(id, current, baseLookup.base, merge.conflicts);
+        }
+
+        Object.assign(updateData, merge.merged);
+        mergedFrom = baseLookup.base;
+      }
+
       // Create backup before modifying workflow (default: true)
       if (createBackup !== false) {
         try {
@@ -799,6 +921,10 @@ export async function handleUpdateWorkflow(
 
     // Update workflow
     const workflow = await client.updateWorkflow(id, updateData);
+    await recordWorkflowRevision(repository, workflow);
+    const mergeMessage = mergedFrom
+      ? ` Merged with changes made since ${describeMergeBase(mergedFrom)} (no conflicts).`
+      : '';
 
     // Track successful mutation
     if (workflowBefore) {
@@ -822,9 +948,12 @@ export async function handleUpdateWorkflow(
         id: workflow.id,
         name: workflow.name,
         active: workflow.active,
-        nodeCount: workflow.nodes?.length || 0
+        nodeCount: workflow.nodes?.length || 0,
+        versionId: workflow.versionId,
+        updatedAt: workflow.updatedAt,
+        ...(mergedFrom ? { merged: true } : {})
       },
-      message: `Workflow "${workflow.name}" updated successfully. Use n8n_get_workflow with mode 'structure' to verify current state.`
+      message: `Workflow "${workflow.name}" updated successfully.${mergeMessage} Use n8n_get_workflow with mode 'structure' to verify current state.`
     };
   } catch (error) {
     // Track failed mutation
@@ -868,6 +997,101 @@ export async function handleUpdateWorkflow(
   }
 }
 
+/**
+ * Revision an update made against a stale revision is merged from: a stored
+ * backup, or a snapshot recorded when the workflow was read or updated
+ */
+export interface MergeBase {
+  workflowSnapshot: any;
+  versionNumber?: number;
+}
+
+/**
+ * Record a workflow revision handed to the caller as a possible merge base.
+ * Non-blocking: without it a later stale update is refused instead of merged.
+ */
+export async function recordWorkflowRevision(repository: NodeRepository, workflow: Workflow): Promise<void> {
+  if (!workflow.id) return;
+  try {
+    await new WorkflowVersioningService(repository).recordRevision(workflow.id, workflow);
+  } catch (error) {
+    logger.warn('Failed to record workflow revision', {
+      workflowId: workflow.id,
+      error: error instanceof Error ? error.message : String(error)
+    });
+  }
+}
+
+/**
+ * Describe a merge base for update messages
+ */
+export function describeMergeBase(base: MergeBase): string {
+  if (base.versionNumber !== undefined) {
+    return `version ${base.versionNumber}`;
+  }
+  return `revision ${base.workflowSnapshot?.versionId ?? base.workflowSnapshot?.updatedAt}`;
+}
+
+/**
+ * Find the stored revision to use as merge base for an update made against a
+ * stale revision. Returns a conflict response if that revision was never recorded.
+ */
+export async function findMergeBase(
+  repository: NodeRepository,
+  client: N8nApiClient,
+  workflowId: string,
+  expected: ExpectedRevision,
+  current: Workflow
+): Promise<{ base: MergeBase } | { response: McpToolResponse }> {
+  const versioningService = new WorkflowVersioningService(repository, client);
+  const version = await versioningService.findVersionByRevision(workflowId, expected);
+  if (version) {
+    return { base: version };
+  }
+
+  const snapshot = await versioningService.findRecordedRevision(workflowId, expected);
+  if (snapshot) {
+    return { base: { workflowSnapshot: snapshot } };
+  }
+
+  return {
+    response: {
+      success: false,
+      error: `Workflow ${workflowId} was modified since the revision you edited, and that revision was not recorded, so the changes cannot be merged`,
+      code: 'WORKFLOW_CONFLICT',
+      details: {
+        reason: 'base_unavailable',
+        expected,
+        current: { versionId: current.versionId, updatedAt: current.updatedAt },
+        hint: 'Fetch the workflow again with n8n_get_workflow, re-apply your changes and pass the new versionId'
+      }
+    }
+  };
+}
+
+/**
+ * Conflict response for a three-way merge that could not be completed
+ */
+export function buildMergeConflictResponse(
+  workflowId: string,
+  current: Workflow,
+  base: MergeBase,
+  conflicts: MergeConflict[]
+): McpToolResponse {
+  return {
+    success: false,
+    error: `Workflow ${workflowId} was modified since the revision you edited and ${conflicts.length} change(s) conflict. Nothing was saved.`,
+    code: 'WORKFLOW_CONFLICT',
+    details: {
+      reason: 'merge_conflict',
+      conflicts,
+      base: { versionNumber: base.versionNumber, versionId: base.workflowSnapshot?.versionId },
+      current: { versionId: current.versionId, updatedAt: current.updatedAt },
+      hint: 'Resolve the conflicts against the current workflow (n8n_get_workflow) and retry with its versionId'
+    }
+  };
+}
+
 /**
  * Track workflow mutation for telemetry (full workflow updates)
  */
@@ -881,21 +1105,86 @@ async function trackWorkflowMutationForFullUpdate(data: any): Promise<void> {
   }
 }
 
+// Workflows listed without nodes (older n8n) fetched one by one before the delete check gives up
+const DELETE_CHECK_MAX_DETAIL_FETCHES = 50;
+
+/**
+ * Workflows that call the given workflow (Execute Workflow, workflow tools,
+ * error workflow setting), or the reason they could not be determined
+ */
+async function findCallingWorkflows(
+  client: N8nApiClient,
+  workflowId: string
+): Promise<{ dependents: Array<{ id: string; name: string }>; error?: string }> {
+  try {
+    // Only workflows with an Execute Workflow/Error Trigger can be called - skip the instance scan otherwise
+    if (!isCallableWorkflow(await client.getWorkflow(workflowId))) {
+      return { dependents: [] };
+    }
+    const workflows = await fetchAllWorkflows(client, {}, { maxDetailFetches: DELETE_CHECK_MAX_DETAIL_FETCHES });
+    const graph = buildDependencyGraph(workflows);
+    const callers = getWorkflowImpact(graph, workflowId)?.callers ?? [];
+    return { dependents: callers.filter(caller => caller.id !== workflowId) };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    logger.debug('Could not check workflow dependents before delete', { workflowId, error: message });
+    return { dependents: [], error: message };
+  }
+}
+
 export async function handleDeleteWorkflow(args: unknown, context?: InstanceContext): Promise<McpToolResponse> {
   try {
     const client = ensureApiConfigured(context);
-    const { id } = z.object({ id: z.string() }).parse(args);
+    const { id, checkDependents } = z.object({
+      id: z.string(),
+      checkDependents: z.enum(['warn', 'refuse', 'off']).optional().default('warn')
+    }).parse(args);
+
+    // The check lists every workflow of the instance when the target can be called, so it can be turned off
+    const check = checkDependents === 'off' ? undefined : await findCallingWorkflows(client, id);
+    const dependents = check?.dependents ?? [];
+    const names = dependents.map(workflow => `"${workflow.name}"`).join(', ');
+
+    if (checkDependents === 'refuse' && (dependents.length > 0 || check?.error)) {
+      return dependents.length > 0
+        ? {
+          success: false,
+          error: `Workflow ${id} was not deleted: ${dependents.length} workflow(s) call it and would fail: ${names}.`,
+          code: 'WORKFLOW_HAS_DEPENDENTS',
+          details: {
+            dependentWorkflows: dependents,
+            hint: 'Update the calling workflows first, or retry with checkDependents: "warn" to delete anyway'
+          }
+        }
+        : {
+          success: false,
+          error: `Workflow ${id} was not deleted: could not check which workflows call it (${check!.error}).`,
+          code: 'DEPENDENTS_CHECK_FAILED',
+          details: { hint: 'Retry, or use checkDependents: "warn" to delete without the check' }
+        };
+    }
 
     const deleted = await client.deleteWorkflow(id);
 
+    const warnings: string[] = [];
+    if (dependents.length > 0) {
+      warnings.push(`${dependents.length} workflow(s) still call it and will fail: ${names}.`);
+    }
+    if (check?.error) {
+      warnings.push(`Could not check whether other workflows call it: ${check.error}.`);
+    }
+
     return {
       success: true,
       data: {
         id: deleted?.id || id,
         name: deleted?.name,
-        deleted: true
+        deleted: true,
+        ...(dependents.length > 0 ? { dependentWorkflows: dependents } : {}),
+        ...(check?.error ? { dependentsCheckError: check.error } : {})
       },
-      message: `Workflow "${deleted?.name || id}" deleted successfully.`
+      message: `Workflow "${deleted?.name || id}" deleted successfully.` +
+        (warnings.length > 0 ? ` Warning: ${warnings.join(' ')}` : '')
     };
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -988,6 +1277,30 @@ export async function handleListWorkflows(args: unknown, context?: InstanceConte
   }
 }
 
+/**
+ * Run data of the most recent successful execution, if any
+ */
+async function getLastSuccessfulRunData(
+  client: N8nApiClient,
+  workflowId: string
+): Promise<Record<string, unknown> | undefined> {
+  try {
+    const executions = await client.listExecutions({
+      workflowId,
+      status: ExecutionStatus.SUCCESS,
+      limit: 1,
+      includeData: true
+    });
+    return executions.data[0]?.data?.resultData?.runData;
+  } catch (error) {
+    logger.debug('Could not load execution data for data-shape validation', {
+      workflowId,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    return undefined;
+  }
+}
+
 export async function handleValidateWorkflow(
   args: unknown,
   repository: NodeRepository,
@@ -998,7 +1311,7 @@ export async function handleValidateWorkflow(
     const input = validateWorkflowSchema.parse(args);
     
     // First, fetch the workflow from n8n
-    const workflowResponse = await handleGetWorkflow({ id: input.id }, context);
+    const workflowResponse = await handleGetWorkflow({ id: input.id }, repository, context);
     
     if (!workflowResponse.success) {
       return workflowResponse; // Return the error from fetching
@@ -1008,9 +1321,15 @@ export async function handleValidateWorkflow(
     
     // Create validator instance using the provided repository
     const validator = new WorkflowValidator(repository, EnhancedConfigValidator);
-    
+
+    // Output of the last successful execution tells which fields each node produces
+    const { useExecutionData = true, ...validationOptions } = input.options || {};
+    const runData = useExecutionData && workflow.id
+      ? await getLastSuccessfulRunData(client, workflow.id)
+      : undefined;
+
     // Run validation
-    const validationResult = await validator.validateWorkflow(workflow, input.options);
+    const validationResult = await validator.validateWorkflow(workflow, { ...validationOptions, runData });
     
     // Format the response (same format as the regular validate_workflow tool)
     const response: WorkflowValidationResponse = {
@@ -1084,6 +1403,57 @@ export async function handleValidateWorkflow(
   }
 }
 
+/**
+ * Validate a workflow and generate the auto-fixes for its issues
+ * (shared by n8n_autofix_workflow and bulk autofix)
+ */
+export async function generateAutofixPlan(
+  workflow: Workflow,
+  repository: NodeRepository,
+  config: Partial<AutoFixConfig>
+): Promise<{ validationResult: WorkflowValidationResult; fixResult: AutoFixResult }> {
+  // Create validator instance using the provided repository
+  const validator = new WorkflowValidator(repository, EnhancedConfigValidator);
+
+  // Run validation to identify issues
+  const validationResult = await validator.validateWorkflow(workflow, {
+    validateNodes: true,
+    validateConnections: true,
+    validateExpressions: true,
+    profile: 'ai-friendly'
+  });
+
+  // Check for expression format issues
+  const allFormatIssues: ExpressionFormatIssue[] = [];
+  for (const node of workflow.nodes) {
+    const formatContext = {
+      nodeType: node.type,
+      nodeName: node.name,
+      nodeId: node.id
+    };
+
+    const nodeFormatIssues = ExpressionFormatValidator.validateNodeParameters(
+      node.parameters,
+      formatContext
+    );
+
+    // Add node information to each format issue
+    const enrichedIssues = nodeFormatIssues.map(issue => ({
+      ...issue,
+      nodeName: node.name,
+      nodeId: node.id
+    }));
+
+    allFormatIssues.push(...enrichedIssues);
+  }
+
+  // Generate fixes using WorkflowAutoFixer
+  const autoFixer = new WorkflowAutoFixer(repository);
+  const fixResult = await autoFixer.generateFixes(workflow, validationResult, allFormatIssues, config);
+
+  return { validationResult, fixResult };
+}
+
 export async function handleAutofixWorkflow(
   args: unknown,
   repository: NodeRepository,
@@ -1094,7 +1464,7 @@ export async function handleAutofixWorkflow(
     const input = autofixWorkflowSchema.parse(args);
 
     // First, fetch the workflow from n8n
-    const workflowResponse = await handleGetWorkflow({ id: input.id }, context);
+    const workflowResponse = await handleGetWorkflow({ id: input.id }, repository, context);
 
     if (!workflowResponse.success) {
       return workflowResponse; // Return the error from fetching
@@ -1102,55 +1472,13 @@ export async function handleAutofixWorkflow(
 
     const workflow = workflowResponse.data as Workflow;
 
-    // Create validator instance using the provided repository
-    const validator = new WorkflowValidator(repository, EnhancedConfigValidator);
-
-    // Run validation to identify issues
-    const validationResult = await validator.validateWorkflow(workflow, {
-      validateNodes: true,
-      validateConnections: true,
-      validateExpressions: true,
-      profile: 'ai-friendly'
+    const { validationResult, fixResult } = await generateAutofixPlan(workflow, repository, {
+      applyFixes: input.applyFixes,
+      fixTypes: input.fixTypes,
+      confidenceThreshold: input.confidenceThreshold,
+      maxFixes: input.maxFixes
     });
 
-    // Check for expression format issues
-    const allFormatIssues: ExpressionFormatIssue[] = [];
-    for (const node of workflow.nodes) {
-      const formatContext = {
-        nodeType: node.type,
-        nodeName: node.name,
-        nodeId: node.id
-      };
-
-      const nodeFormatIssues = ExpressionFormatValidator.validateNodeParameters(
-        node.parameters,
-        formatContext
-      );
-
-      // Add node information to each format issue
-      const enrichedIssues = nodeFormatIssues.map(issue => ({
-        ...issue,
-        nodeName: node.name,
-        nodeId: node.id
-      }));
-
-      allFormatIssues.push(...enrichedIssues);
-    }
-
-    // Generate fixes using WorkflowAutoFixer
-    const autoFixer = new WorkflowAutoFixer(repository);
-    const fixResult = await autoFixer.generateFixes(
-      workflow,
-      validationResult,
-      allFormatIssues,
-      {
-        applyFixes: input.applyFixes,
-        fixTypes: input.fixTypes,
-        confidenceThreshold: input.confidenceThreshold,
-        maxFixes: input.maxFixes
-      }
-    );
-
     // If no fixes available
     if (fixResult.fixes.length === 0) {
       return {
@@ -1260,16 +1588,27 @@ export async function handleAutofixWorkflow(
  * Handler for n8n_test_workflow tool
  * Triggers workflow execution via auto-detected or specified trigger type
  */
-export async function handleTestWorkflow(args: unknown, context?: InstanceContext): Promise<McpToolResponse> {
+// Interval of progress notifications while the trigger request is pending
+const TRIGGER_PROGRESS_INTERVAL_MS = 5000;
+
+export async function handleTestWorkflow(
+  args: unknown,
+  context?: InstanceContext,
+  reportProgress?: ProgressReporter
+): Promise<McpToolResponse> {
   try {
     const client = ensureApiConfigured(context);
     const input = testWorkflowSchema.parse(args);
+    const startTime = Date.now();
+    const progress = (message: string, total?: number) => reportProgress?.(Date.now() - startTime, total, message);
 
     // Import trigger system (lazy to avoid circular deps)
     const {
       detectTriggerFromWorkflow,
       ensureRegistryInitialized,
       TriggerRegistry,
+      removeWrapperWorkflow,
+      removeWrapperWorkflowWhenFinished,
     } = await import('../triggers');
 
     // Ensure registry is initialized
@@ -1297,7 +1636,7 @@ export async function handleTestWorkflow(args: unknown, context?: InstanceContex
           details: {
             workflowId: input.workflowId,
             reason: detection.reason,
-            hint: 'Only workflows with webhook, form, or chat triggers can be executed via the API. Add one of these trigger nodes to your workflow.',
+            hint: 'Only workflows with webhook, form, chat, execute workflow, schedule, or manual triggers can be executed via the API. Add one of these trigger nodes to your workflow.',
           },
         };
       }
@@ -1315,7 +1654,7 @@ export async function handleTestWorkflow(args: unknown, context?: InstanceContex
             detectedTrigger: detection.trigger?.type || 'none',
             hint: detection.detected
               ? `Workflow has a ${detection.trigger?.type} trigger. Either use that type or omit triggerType for auto-detection.`
-              : 'Workflow has no externally-triggerable triggers (webhook, form, or chat).',
+              : 'Workflow has no externally-triggerable triggers (webhook, form, chat, execute workflow, schedule, or manual).',
           },
         };
       }
@@ -1357,6 +1696,13 @@ export async function handleTestWorkflow(args: unknown, context?: InstanceContex
       };
     }
 
+    // Schedule/manual triggers run a copy, so their execution belongs to the wrapper workflow.
+    // The wrapper is kept until the wait is over - deleting it deletes the execution.
+    const runsWrapperCopy = triggerType === 'schedule' || triggerType === 'manual';
+    const knownExecutionIds = input.waitForCompletion && !runsWrapperCopy
+      ? await listExecutionIds(client, input.workflowId)
+      : new Set<string>();
+
     // Build trigger-specific input
     const triggerInput = {
       workflowId: input.workflowId,
@@ -1370,23 +1716,103 @@ export async function handleTestWorkflow(args: unknown, context?: InstanceContex
       headers: input.headers,
       timeout: input.timeout,
       waitForResponse: input.waitForResponse,
+      keepWrapper: input.keepWrapper || (input.waitForCompletion && runsWrapperCopy), // For schedule/manual/executeWorkflow triggers
     };
 
-    // Execute the trigger
-    const response = await handler.execute(triggerInput as any, workflow, triggerInfo);
+    // Execute the trigger, reporting progress while the request is pending
+    progress(`Triggering workflow via ${triggerType}`);
+    const heartbeat = reportProgress
+      ? setInterval(() => progress(`Waiting for the ${triggerType} trigger response`), TRIGGER_PROGRESS_INTERVAL_MS)
+      : undefined;
+    // Local clock - the waiter allows for skew against the startedAt times n8n reports
+    const triggeredAt = Date.now();
+    let response;
+    try {
+      response = await handler.execute(triggerInput as any, workflow, triggerInfo);
+    } finally {
+      clearInterval(heartbeat);
+    }
+
+    const executionWorkflowId = runsWrapperCopy ? response.metadata.wrapperWorkflowId : input.workflowId;
+    let completion: ExecutionWaitResult | undefined;
+    try {
+      if (input.waitForCompletion && response.success && executionWorkflowId) {
+        const waitOffset = Date.now() - startTime;
+        completion = await waitForExecution(client, {
+          workflowId: executionWorkflowId,
+          knownExecutionIds,
+          executionId: response.executionId,
+          triggeredAt,
+          timeout: input.completionTimeout,
+          onProgress: wait => progress(wait.message, waitOffset + wait.timeoutMs),
+        });
+      }
+    } finally {
+      // Remove the (already deactivated) wrapper kept for the wait. An execution still
+      // running after the timeout would be deleted with it, so the wrapper goes once it finished
+      if (input.waitForCompletion && runsWrapperCopy && !input.keepWrapper && executionWorkflowId) {
+        if (completion?.outcome === 'timeout') {
+          void removeWrapperWorkflowWhenFinished(client, executionWorkflowId);
+          response.metadata.wrapperRemovalScheduled = true;
+        } else {
+          response.metadata.wrapperRemoved = await removeWrapperWorkflow(client, executionWorkflowId);
+        }
+      }
+    }
+
+    const executionNote = runsWrapperCopy ? wrapperExecutionNote(response.metadata) : undefined;
 
+    if (!completion) {
+      return {
+        success: response.success,
+        data: response.data,
+        message: response.success
+          ? `Workflow triggered successfully via ${triggerType}`
+          : response.error,
+        executionId: response.executionId,
+        workflowId: input.workflowId,
+        details: {
+          triggerType,
+          metadata: response.metadata,
+          ...(response.details || {}),
+          ...(executionNote ? { executionNote } : {}),
+        },
+      };
+    }
+
+    const execution = completion.execution;
+    const executionFailed = execution?.status === ExecutionStatus.ERROR;
     return {
-      success: response.success,
+      success: completion.outcome !== 'timeout' && !executionFailed,
       data: response.data,
-      message: response.success
-        ? `Workflow triggered successfully via ${triggerType}`
-        : response.error,
-      executionId: response.executionId,
+      message: testWorkflowCompletionMessage(triggerType, completion),
+      ...(executionFailed ? { error: 'Workflow execution failed' } : {}),
+      executionId: completion.executionId,
       workflowId: input.workflowId,
       details: {
         triggerType,
         metadata: response.metadata,
         ...(response.details || {}),
+        completion: {
+          outcome: completion.outcome,
+          correlation: completion.correlation,
+          status: execution?.status,
+          elapsedMs: completion.elapsedMs,
+          polls: completion.polls,
+          // Summary of the run data, as n8n_executions returns it with mode="summary"
+          execution: execution && completion.outcome !== 'timeout'
+            ? processExecution(execution, { mode: 'summary' }, workflow)
+            : undefined,
+        },
+        ...(executionNote ? { executionNote } : {}),
+        ...(completion.correlation === 'inferred'
+          ? { correlationNote: `Several new executions of workflow ${executionWorkflowId} started after the trigger; execution ${completion.executionId} is the oldest of them and may belong to a concurrent run` }
+          : {}),
+        ...(completion.outcome === 'timeout' && !executionNote
+          ? { hint: completion.executionId
+              ? `Check the execution later with n8n_executions({action: "get", id: "${completion.executionId}"})`
+              : `No new execution of workflow ${executionWorkflowId} appeared. Check n8n_executions({action: "list", workflowId: "${executionWorkflowId}"})` }
+          : {}),
       },
     };
   } catch (error) {
@@ -1414,6 +1840,34 @@ export async function handleTestWorkflow(args: unknown, context?: InstanceContex
   }
 }
 
+/**
+ * Schedule/manual runs belong to the wrapper workflow, and deleting the
+ * wrapper deletes them - the returned execution ID then points at nothing
+ */
+function wrapperExecutionNote(metadata: TriggerResponse['metadata']): string | undefined {
+  if (metadata.wrapperRemoved) {
+    return `The execution ran in wrapper workflow ${metadata.wrapperWorkflowId} and was deleted with it, so n8n_executions cannot find it. Use keepWrapper=true to keep it`;
+  }
+  if (metadata.wrapperRemovalScheduled) {
+    return `The execution runs in wrapper workflow ${metadata.wrapperWorkflowId} and is deleted with it once it finished. Use keepWrapper=true to keep it for n8n_executions`;
+  }
+  return undefined;
+}
+
+function testWorkflowCompletionMessage(triggerType: TriggerType, completion: ExecutionWaitResult): string {
+  const seconds = Math.round(completion.elapsedMs / 1000);
+  switch (completion.outcome) {
+    case 'finished':
+      return `Workflow triggered via ${triggerType}; execution ${completion.executionId} finished with status ${completion.execution?.status}`;
+    case 'waiting':
+      return `Workflow triggered via ${triggerType}; execution ${completion.executionId} is waiting (Wait node or form)`;
+    default:
+      return completion.executionId
+        ? `Workflow triggered via ${triggerType}; execution ${completion.executionId} did not finish within ${seconds}s`
+        : `Workflow triggered via ${triggerType}; no execution appeared within ${seconds}s`;
+  }
+}
+
 export async function handleGetExecution(args: unknown, context?: InstanceContext): Promise<McpToolResponse> {
   try {
     const client = ensureApiConfigured(context);
@@ -1627,68 +2081,1003 @@ export async function handleDeleteExecution(args: unknown, context?: InstanceCon
   }
 }
 
-// System Tools Handlers
-
-export async function handleHealthCheck(context?: InstanceContext): Promise<McpToolResponse> {
-  const startTime = Date.now();
+const retryExecutionSchema = z.object({
+  id: z.string(),
+  loadWorkflow: z.boolean().optional().default(false)
+});
 
+export async function handleRetryExecution(args: unknown, context?: InstanceContext): Promise<McpToolResponse> {
   try {
     const client = ensureApiConfigured(context);
-    const health = await client.healthCheck();
+    const { id, loadWorkflow } = retryExecutionSchema.parse(args);
 
-    // Get MCP version from package.json
-    const packageJson = require('../../package.json');
-    const mcpVersion = packageJson.version;
-    const supportedN8nVersion = packageJson.dependencies?.n8n?.replace(/[^0-9.]/g, '');
-
-    // Check npm for latest version (async, non-blocking)
-    const versionCheck = await checkNpmVersion();
-
-    // Get cache metrics for performance monitoring
-    const cacheMetricsData = getInstanceCacheMetrics();
-
-    // Calculate response time
-    const responseTime = Date.now() - startTime;
+    const execution = await client.retryExecution(id, loadWorkflow);
 
-    // Build response data
-    const responseData: HealthCheckResponseData = {
-      status: health.status,
-      instanceId: health.instanceId,
-      n8nVersion: health.n8nVersion,
-      features: health.features,
-      apiUrl: getN8nApiConfig()?.baseUrl,
-      mcpVersion,
-      supportedN8nVersion,
-      versionCheck: {
-        current: versionCheck.currentVersion,
-        latest: versionCheck.latestVersion,
-        upToDate: !versionCheck.isOutdated,
-        message: formatVersionMessage(versionCheck),
-        ...(versionCheck.updateCommand ? { updateCommand: versionCheck.updateCommand } : {})
+    return {
+      success: true,
+      data: {
+        id: execution.id,
+        retryOf: id,
+        workflowId: execution.workflowId,
+        status: execution.status,
+        finished: execution.finished,
+        mode: execution.mode,
+        startedAt: execution.startedAt,
+        stoppedAt: execution.stoppedAt,
+        usedCurrentWorkflow: loadWorkflow
       },
-      performance: {
-        responseTimeMs: responseTime,
-        cacheHitRate: (cacheMetricsData.hits + cacheMetricsData.misses) > 0
-          ? ((cacheMetricsData.hits / (cacheMetricsData.hits + cacheMetricsData.misses)) * 100).toFixed(2) + '%'
-          : 'N/A',
-        cachedInstances: cacheMetricsData.size
-      }
+      message: `Execution ${id} retried as execution ${execution.id} (${execution.status})`
     };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return {
+        success: false,
+        error: 'Invalid input',
+        details: { errors: error.errors }
+      };
+    }
 
-    // Add next steps guidance based on telemetry insights
-    responseData.nextSteps = [
-      '• Create workflow: n8n_create_workflow',
-      '• List workflows: n8n_list_workflows',
-      '• Search nodes: search_nodes',
-      '• Browse templates: search_templates'
-    ];
-
-    // Add update warning if outdated
-    if (versionCheck.isOutdated && versionCheck.latestVersion) {
-      responseData.updateWarning = `⚠️  n8n-mcp v${versionCheck.latestVersion} is available (you have v${versionCheck.currentVersion}). Update recommended.`;
+    if (error instanceof N8nApiError) {
+      return {
+        success: false,
+        error: getUserFriendlyErrorMessage(error),
+        code: error.code
+      };
     }
 
-    // Track result in telemetry
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred'
+    };
+  }
+}
+
+const rerunExecutionSchema = z.object({
+  id: z.string(),
+  fromNode: z.string().optional(),
+  // Patched workflow to replay instead of the saved one
+  workflow: z.object({
+    nodes: z.array(z.any()),
+    connections: z.record(z.any())
+  }).passthrough().optional(),
+  fixtures: z.record(z.array(z.unknown())).optional(),
+  includePinData: z.boolean().optional().default(false)
+});
+
+/**
+ * Replay a failed execution offline from the failed node, with the recorded
+ * upstream outputs as pinned data
+ */
+export async function handleRerunExecution(args: unknown, context?: InstanceContext): Promise<McpToolResponse> {
+  try {
+    const client = ensureApiConfigured(context);
+    const input = rerunExecutionSchema.parse(args);
+
+    // The replay runs the workflow's Code nodes and expressions on this server
+    if (!isSimulationEnabled()) {
+      return { success: false, error: SIMULATION_DISABLED_MESSAGE };
+    }
+
+    const execution = await client.getExecution(input.id, true);
+    const workflow = (input.workflow ?? await client.getWorkflow(execution.workflowId)) as Workflow;
+
+    const { plan, verdict, simulation } = rerunFromNode(execution, workflow, {
+      fromNode: input.fromNode,
+      fixtures: input.fixtures
+    });
+    const { pinData, ...planSummary } = plan;
+
+    const messages: Record<typeof verdict, string> = {
+      passed: `Node "${plan.fromNode}" ran without errors on the data of execution ${input.id}`,
+      failed: `Node "${plan.fromNode}" still fails on the data of execution ${input.id}`,
+      not_reached: `The replay did not reach node "${plan.fromNode}" - check the branches taken`,
+      not_verifiable: `The fix to node "${plan.fromNode}" was NOT verified: ${simulation.nodes[plan.fromNode]?.nodeType} calls an external service, so the replay stubs it instead of running it. Use action=retry with loadWorkflow=true to verify the fix on n8n`
+    };
+    // Downstream nodes the replay passed data through without running them
+    const stubbedNodes = Object.entries(simulation.nodes)
+      .filter(([, node]) => node.stubbed === 'passthrough' && node.runs.length > 0)
+      .map(([name]) => name);
+
+    return {
+      success: true,
+      data: {
+        ...planSummary,
+        verdict,
+        verified: verdict === 'passed' || verdict === 'failed',
+        ...(stubbedNodes.length > 0
+          ? { stubbedNodes, limitation: 'Nodes that call external services (HTTP Request, Slack, databases, ...) are stubbed in the replay and never run, so fixes to them cannot be verified by rerun - only by action=retry on n8n' }
+          : {}),
+        fromNodeResult: simulation.nodes[plan.fromNode],
+        simulation: {
+          success: simulation.success,
+          executionOrder: simulation.executionOrder,
+          branches: simulation.branches,
+          notExecuted: simulation.notExecuted,
+          warnings: simulation.warnings,
+          error: simulation.error
+        },
+        ...(input.includePinData ? { pinData } : {})
+      },
+      message: messages[verdict]
+    };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return {
+        success: false,
+        error: 'Invalid input',
+        details: { errors: error.errors }
+      };
+    }
+
+    if (error instanceof N8nApiError) {
+      return {
+        success: false,
+        error: getUserFriendlyErrorMessage(error),
+        code: error.code
+      };
+    }
+
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred'
+    };
+  }
+}
+
+// Credential Management Handlers
+
+/**
+ * Credential metadata safe to return to the client (never includes secret data)
+ */
+interface CredentialSummary {
+  id?: string;
+  name: string;
+  type: string;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+/**
+ * Credential requirement of a single workflow node
+ */
+interface NodeCredentialRequirement {
+  nodeName: string;
+  nodeType: string;
+  credentialType: string;
+  required: boolean;
+  assigned: boolean;
+  assignedCredential?: { id?: string; name?: string };
+}
+
+/**
+ * Strip everything except metadata from a credential.
+ * The n8n API does not echo secrets today, but we never rely on that.
+ */
+function sanitizeCredential(credential: Credential): CredentialSummary {
+  return {
+    id: credential.id,
+    name: credential.name,
+    type: credential.type,
+    createdAt: credential.createdAt,
+    updatedAt: credential.updatedAt
+  };
+}
+
+/**
+ * List credentials of one type. The n8n API cannot filter by type, so pages of
+ * `limit` credentials are read and filtered until at least `limit` matched or
+ * the list ends. Whole pages are returned, so the cursor never skips a match.
+ */
+async function listCredentialsOfType(
+  client: N8nApiClient,
+  type: string,
+  limit: number,
+  cursor?: string
+): Promise<{ credentials: Credential[]; nextCursor?: string | null }> {
+  const credentials: Credential[] = [];
+  let nextCursor: string | null | undefined = cursor;
+  do {
+    const response = await client.listCredentials({ limit, cursor: nextCursor ?? undefined });
+    credentials.push(...response.data.filter(credential => credential.type === type));
+    nextCursor = response.nextCursor;
+  } while (nextCursor && credentials.length < limit);
+
+  return { credentials, nextCursor };
+}
+
+/**
+ * Collect credential types required by workflow nodes using `credentials_required`
+ * from the nodes table. Credentials hidden by displayOptions (e.g. an unused
+ * authentication method) are skipped.
+ */
+function collectCredentialRequirements(
+  workflow: Workflow,
+  repository: NodeRepository
+): { requirements: NodeCredentialRequirement[]; unknownNodeTypes: string[] } {
+  const requirements: NodeCredentialRequirement[] = [];
+  const unknownNodeTypes = new Set<string>();
+
+  for (const node of workflow.nodes || []) {
+    if (node.disabled) continue;
+
+    const nodeInfo = repository.getNode(node.type);
+    if (!nodeInfo) {
+      unknownNodeTypes.add(node.type);
+      continue;
+    }
+
+    const credentialDefs: any[] = Array.isArray(nodeInfo.credentials) ? nodeInfo.credentials : [];
+    if (credentialDefs.length === 0) continue;
+
+    // Defaults matter for displayOptions (e.g. authentication defaults to a specific method)
+    const effectiveParams = {
+      ...repository.getNodePropertyDefaults(node.type),
+      ...(node.parameters || {})
+    };
+
+    for (const def of credentialDefs) {
+      if (!def?.name || !ConfigValidator.isPropertyVisible(def, effectiveParams)) continue;
+
+      const assigned = node.credentials?.[def.name] as { id?: string; name?: string } | undefined;
+      requirements.push({
+        nodeName: node.name,
+        nodeType: node.type,
+        credentialType: def.name,
+        required: def.required === true,
+        assigned: !!assigned,
+        ...(assigned ? { assignedCredential: { id: assigned.id, name: assigned.name } } : {})
+      });
+    }
+  }
+
+  return { requirements, unknownNodeTypes: Array.from(unknownNodeTypes) };
+}
+
+/**
+ * Handler for n8n_credentials tool
+ * Credential CRUD, schema lookup, and workflow credential requirements
+ */
+export async function handleCredentials(
+  args: unknown,
+  repository: NodeRepository,
+  context?: InstanceContext
+): Promise<McpToolResponse> {
+  try {
+    const client = ensureApiConfigured(context);
+    const input = credentialsSchema.parse(args);
+
+    switch (input.action) {
+      case 'list': {
+        let response: { credentials: Credential[]; nextCursor?: string | null };
+        if (input.type) {
+          response = await listCredentialsOfType(client, input.type, input.limit || 100, input.cursor);
+        } else {
+          const page = await client.listCredentials({ limit: input.limit || 100, cursor: input.cursor });
+          response = { credentials: page.data, nextCursor: page.nextCursor };
+        }
+        const credentials = response.credentials.map(sanitizeCredential);
+
+        return {
+          success: true,
+          data: {
+            credentials,
+            returned: credentials.length,
+            nextCursor: response.nextCursor,
+            hasMore: !!response.nextCursor,
+            ...(response.nextCursor ? {
+              _note: "More credentials available. Use cursor to get next page."
+            } : {})
+          }
+        };
+      }
+
+      case 'get': {
+        if (!input.id) {
+          return { success: false, error: 'id is required for action=get' };
+        }
+        const credential = await client.getCredential(input.id);
+        return {
+          success: true,
+          data: sanitizeCredential(credential)
+        };
+      }
+
+      case 'schema': {
+        if (!input.type) {
+          return { success: false, error: 'type is required for action=schema (e.g. "slackApi")' };
+        }
+        const schema = await client.getCredentialSchema(input.type);
+        const required = new Set(schema.required || []);
+        const fields = Object.entries(schema.properties || {}).map(([fieldName, def]) => ({
+          name: fieldName,
+          type: def.type,
+          required: required.has(fieldName),
+          ...(def.enum ? { options: def.enum } : {})
+        }));
+
+        return {
+          success: true,
+          data: {
+            credentialType: input.type,
+            fields,
+            requiredFields: Array.from(required),
+            schema
+          }
+        };
+      }
+
+      case 'create': {
+        if (!input.name || !input.type || !input.data) {
+          return {
+            success: false,
+            error: 'name, type and data are required for action=create',
+            details: {
+              hint: 'Use action="schema" with the credential type to see which data fields are expected'
+            }
+          };
+        }
+
+        // Check required fields up front when the schema is available
+        try {
+          const schema = await client.getCredentialSchema(input.type);
+          const missingFields = (schema.required || []).filter(field => !(field in input.data!));
+          if (missingFields.length > 0) {
+            return {
+              success: false,
+              error: `Missing required credential fields: ${missingFields.join(', ')}`,
+              details: { credentialType: input.type, missingFields }
+            };
+          }
+        } catch (schemaError) {
+          logger.debug('Credential schema unavailable, skipping pre-validation', {
+            credentialType: input.type,
+            error: schemaError instanceof Error ? schemaError.message : 'Unknown error'
+          });
+        }
+
+        const created = await client.createCredential({
+          name: input.name,
+          type: input.type,
+          data: input.data
+        });
+
+        return {
+          success: true,
+          data: sanitizeCredential({ ...created, name: created.name || input.name, type: created.type || input.type }),
+          message: `Credential "${created.name || input.name}" created with ID: ${created.id}. Secret data is stored in n8n and never returned.`
+        };
+      }
+
+      case 'update': {
+        if (!input.id) {
+          return { success: false, error: 'id is required for action=update' };
+        }
+        if (!input.name && !input.data) {
+          return { success: false, error: 'Provide name and/or data to update' };
+        }
+
+        const updates: Partial<Credential> = {};
+        if (input.name) updates.name = input.name;
+        if (input.type) updates.type = input.type;
+        if (input.data) updates.data = input.data;
+
+        const updated = await client.updateCredential(input.id, updates);
+
+        return {
+          success: true,
+          data: sanitizeCredential(updated),
+          message: `Credential ${input.id} updated successfully`
+        };
+      }
+
+      case 'delete': {
+        if (!input.id) {
+          return { success: false, error: 'id is required for action=delete' };
+        }
+        await client.deleteCredential(input.id);
+        return {
+          success: true,
+          message: `Credential ${input.id} deleted successfully`
+        };
+      }
+
+      case 'requirements': {
+        if (!input.workflowId) {
+          return { success: false, error: 'workflowId is required for action=requirements' };
+        }
+
+        const workflow = await client.getWorkflow(input.workflowId);
+        const { requirements, unknownNodeTypes } = collectCredentialRequirements(workflow, repository);
+
+        // Match against existing credentials when the instance allows listing them
+        let availableByType: Map<string, CredentialSummary[]> | null = null;
+        try {
+          const credentials = await fetchAllCredentials(client);
+          availableByType = new Map();
+          for (const credential of credentials) {
+            const list = availableByType.get(credential.type) || [];
+            list.push(sanitizeCredential(credential));
+            availableByType.set(credential.type, list);
+          }
+        } catch (listError) {
+          logger.debug('Could not list credentials for requirement matching', {
+            error: listError instanceof Error ? listError.message : 'Unknown error'
+          });
+        }
+
+        const credentialTypes = Array.from(new Set(requirements.map(r => r.credentialType))).map(type => ({
+          credentialType: type,
+          nodes: requirements.filter(r => r.credentialType === type).map(r => r.nodeName),
+          ...(availableByType ? { availableCredentials: availableByType.get(type) || [] } : {})
+        }));
+        const missing = requirements.filter(r => r.required && !r.assigned);
+
+        return {
+          success: true,
+          data: {
+            workflowId: workflow.id,
+            workflowName: workflow.name,
+            requirements,
+            credentialTypes,
+            missing,
+            ...(unknownNodeTypes.length > 0 ? { unknownNodeTypes } : {}),
+            summary: {
+              nodesNeedingCredentials: new Set(requirements.map(r => r.nodeName)).size,
+              credentialTypes: credentialTypes.length,
+              missingAssignments: missing.length
+            }
+          },
+          message: missing.length > 0
+            ? `${missing.length} node credential(s) not assigned. Create them with action="create" and assign via n8n_update_partial_workflow (updateNode with credentials).`
+            : 'All required credentials are assigned'
+        };
+      }
+
+      default:
+        return {
+          success: false,
+          error: `Unknown action: ${input.action}`
+        };
+    }
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return {
+        success: false,
+        error: 'Invalid input',
+        details: { errors: error.errors }
+      };
+    }
+
+    if (error instanceof N8nApiError) {
+      return {
+        success: false,
+        error: getUserFriendlyErrorMessage(error),
+        code: error.code
+      };
+    }
+
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred'
+    };
+  }
+}
+
+// Tag, Variable and Source Control Handlers
+
+/**
+ * Fetch all tags, following pagination cursors
+ */
+async function listAllTags(client: N8nApiClient): Promise<Tag[]> {
+  const tags: Tag[] = [];
+  let cursor: string | undefined;
+  do {
+    const response = await client.listTags({ limit: 100, cursor });
+    tags.push(...response.data);
+    cursor = response.nextCursor || undefined;
+  } while (cursor);
+  return tags;
+}
+
+/**
+ * Resolve tag references (IDs or names, case-insensitive) to existing tags,
+ * optionally creating tags that don't exist yet
+ */
+async function resolveTagReferences(
+  client: N8nApiClient,
+  refs: string[],
+  createMissing: boolean
+): Promise<{ resolved: Tag[]; created: Tag[]; missing: string[] }> {
+  const existing = await listAllTags(client);
+  const resolved: Tag[] = [];
+  const created: Tag[] = [];
+  const missing: string[] = [];
+
+  for (const ref of refs) {
+    const match = existing.find(tag => tag.id === ref) ||
+      existing.find(tag => tag.name.toLowerCase() === ref.toLowerCase());
+    if (match) {
+      resolved.push(match);
+    } else if (createMissing) {
+      const tag = await client.createTag({ name: ref });
+      existing.push(tag);
+      created.push(tag);
+      resolved.push(tag);
+    } else {
+      missing.push(ref);
+    }
+  }
+
+  return { resolved, created, missing };
+}
+
+/**
+ * Handler for n8n_tags tool
+ * Tag CRUD plus bulk assignment of tags to workflows
+ */
+export async function handleTags(args: unknown, context?: InstanceContext): Promise<McpToolResponse> {
+  try {
+    const client = ensureApiConfigured(context);
+    const input = tagsSchema.parse(args);
+
+    switch (input.action) {
+      case 'list': {
+        const response = await client.listTags({ limit: input.limit || 100, cursor: input.cursor });
+        return {
+          success: true,
+          data: {
+            tags: response.data,
+            returned: response.data.length,
+            nextCursor: response.nextCursor,
+            hasMore: !!response.nextCursor
+          }
+        };
+      }
+
+      case 'create': {
+        if (!input.name) {
+          return { success: false, error: 'name is required for action=create' };
+        }
+        const tag = await client.createTag({ name: input.name });
+        return {
+          success: true,
+          data: tag,
+          message: `Tag "${tag.name}" created with ID: ${tag.id}`
+        };
+      }
+
+      case 'update': {
+        if (!input.id || !input.name) {
+          return { success: false, error: 'id and name are required for action=update' };
+        }
+        const tag = await client.updateTag(input.id, { name: input.name });
+        return {
+          success: true,
+          data: tag,
+          message: `Tag ${input.id} renamed to "${tag.name}"`
+        };
+      }
+
+      case 'delete': {
+        if (!input.id) {
+          return { success: false, error: 'id is required for action=delete' };
+        }
+        await client.deleteTag(input.id);
+        return {
+          success: true,
+          message: `Tag ${input.id} deleted successfully`
+        };
+      }
+
+      case 'assign':
+      case 'unassign': {
+        if (!input.tags?.length || !input.workflowIds?.length) {
+          return { success: false, error: `tags and workflowIds are required for action=${input.action}` };
+        }
+
+        const isAssign = input.action === 'assign';
+        const { resolved, created, missing } = await resolveTagReferences(
+          client,
+          input.tags,
+          isAssign && input.createMissing
+        );
+
+        if (isAssign && missing.length > 0) {
+          return {
+            success: false,
+            error: `Tags not found: ${missing.join(', ')}`,
+            details: { missing, hint: 'Set createMissing=true to create them automatically' }
+          };
+        }
+
+        const targetIds = new Set(resolved.map(tag => tag.id!));
+        const results: Array<{ workflowId: string; success: boolean; changed?: boolean; tags?: string[]; error?: string }> = [];
+
+        for (const workflowId of input.workflowIds) {
+          try {
+            const currentIds = (await client.getWorkflowTags(workflowId)).map(tag => tag.id!);
+            const nextIds = isAssign
+              ? Array.from(new Set([...currentIds, ...targetIds]))
+              : currentIds.filter(id => !targetIds.has(id));
+
+            if (nextIds.length === currentIds.length && nextIds.every(id => currentIds.includes(id))) {
+              results.push({ workflowId, success: true, changed: false });
+              continue;
+            }
+
+            const updated = await client.updateWorkflowTags(workflowId, nextIds);
+            results.push({ workflowId, success: true, changed: true, tags: updated.map(tag => tag.name) });
+          } catch (error) {
+            results.push({
+              workflowId,
+              success: false,
+              error: error instanceof N8nApiError ? getUserFriendlyErrorMessage(error) : (error instanceof Error ? error.message : 'Unknown error')
+            });
+          }
+        }
+
+        const failed = results.filter(r => !r.success).length;
+        const changed = results.filter(r => r.changed).length;
+
+        return {
+          success: failed === 0,
+          data: {
+            tags: resolved.map(tag => ({ id: tag.id, name: tag.name })),
+            ...(created.length > 0 ? { createdTags: created.map(tag => tag.name) } : {}),
+            ...(missing.length > 0 ? { unknownTags: missing } : {}),
+            results,
+            summary: { total: results.length, changed, unchanged: results.length - changed - failed, failed }
+          },
+          ...(failed > 0 ? { error: `${failed} of ${results.length} workflow(s) could not be updated` } : {}),
+          message: `${isAssign ? 'Tagged' : 'Untagged'} ${changed} workflow(s)${failed > 0 ? `, ${failed} failed` : ''}`
+        };
+      }
+
+      default:
+        return {
+          success: false,
+          error: `Unknown action: ${input.action}`
+        };
+    }
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return {
+        success: false,
+        error: 'Invalid input',
+        details: { errors: error.errors }
+      };
+    }
+
+    if (error instanceof N8nApiError) {
+      return {
+        success: false,
+        error: getUserFriendlyErrorMessage(error),
+        code: error.code
+      };
+    }
+
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred'
+    };
+  }
+}
+
+/**
+ * Handler for n8n_variables tool
+ * Instance variables available in expressions as $vars.<key>
+ */
+export async function handleVariables(args: unknown, context?: InstanceContext): Promise<McpToolResponse> {
+  try {
+    const client = ensureApiConfigured(context);
+    const input = variablesSchema.parse(args);
+
+    switch (input.action) {
+      case 'list': {
+        const variables = await client.getVariables();
+        return {
+          success: true,
+          data: {
+            variables,
+            returned: variables.length
+          }
+        };
+      }
+
+      case 'create': {
+        if (!input.key || input.value === undefined) {
+          return { success: false, error: 'key and value are required for action=create' };
+        }
+        const variable = await client.createVariable({ key: input.key, value: input.value });
+        return {
+          success: true,
+          data: variable,
+          message: `Variable "${input.key}" created. Reference it in expressions as {{ $vars.${input.key} }}`
+        };
+      }
+
+      case 'update': {
+        if (!input.id) {
+          return { success: false, error: 'id is required for action=update' };
+        }
+        if (!input.key && input.value === undefined) {
+          return { success: false, error: 'Provide key and/or value to update' };
+        }
+        const updates: { key?: string; value?: string } = {};
+        if (input.key) updates.key = input.key;
+        if (input.value !== undefined) updates.value = input.value;
+
+        const variable = await client.updateVariable(input.id, updates);
+        return {
+          success: true,
+          data: variable,
+          message: `Variable ${input.id} updated successfully`
+        };
+      }
+
+      case 'delete': {
+        if (!input.id) {
+          return { success: false, error: 'id is required for action=delete' };
+        }
+        await client.deleteVariable(input.id);
+        return {
+          success: true,
+          message: `Variable ${input.id} deleted successfully`
+        };
+      }
+
+      default:
+        return {
+          success: false,
+          error: `Unknown action: ${input.action}`
+        };
+    }
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return {
+        success: false,
+        error: 'Invalid input',
+        details: { errors: error.errors }
+      };
+    }
+
+    if (error instanceof N8nApiError) {
+      return {
+        success: false,
+        error: getUserFriendlyErrorMessage(error),
+        code: error.code
+      };
+    }
+
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred'
+    };
+  }
+}
+
+/**
+ * Reduce a source control status to the fields relevant for a pull/push decision
+ */
+function summarizeSourceControlStatus(status: SourceControlStatus) {
+  return {
+    branch: status.current,
+    tracking: status.tracking,
+    ahead: status.ahead,
+    behind: status.behind,
+    created: status.created || [],
+    modified: status.modified || [],
+    deleted: status.deleted || [],
+    renamed: status.renamed || [],
+    notAdded: status.notAdded || [],
+    conflicted: status.conflicted || []
+  };
+}
+
+/**
+ * Handler for n8n_source_control tool
+ * Status, pull and push for git-backed environments, with dry-run previews
+ */
+export async function handleSourceControl(args: unknown, context?: InstanceContext): Promise<McpToolResponse> {
+  try {
+    const client = ensureApiConfigured(context);
+    const input = sourceControlSchema.parse(args);
+
+    switch (input.action) {
+      case 'status': {
+        const status = await client.getSourceControlStatus();
+        return {
+          success: true,
+          data: summarizeSourceControlStatus(status)
+        };
+      }
+
+      case 'pull': {
+        if (input.dryRun) {
+          const status = summarizeSourceControlStatus(await client.getSourceControlStatus());
+          const localChanges = [...status.created, ...status.modified, ...status.deleted];
+          return {
+            success: true,
+            data: {
+              dryRun: true,
+              wouldPull: status.behind > 0,
+              incomingCommits: status.behind,
+              conflicts: status.conflicted,
+              localChanges,
+              ...(input.force && localChanges.length > 0 ? { overwrittenByForce: localChanges } : {}),
+              status
+            },
+            message: status.behind === 0
+              ? 'Already up to date - nothing to pull'
+              : status.conflicted.length > 0 && !input.force
+                ? `${status.behind} incoming commit(s) with ${status.conflicted.length} conflict(s). Resolve or pull with force=true (overwrites local changes).`
+                : `${status.behind} incoming commit(s) would be pulled`
+          };
+        }
+
+        const result = await client.pullSourceControl(input.force);
+        const hasConflicts = result.pullResult === 'conflict' || result.mergeConflicts;
+
+        return {
+          success: result.pullResult === 'success',
+          data: result,
+          ...(result.pullResult !== 'success' ? {
+            error: hasConflicts
+              ? `Pull stopped due to conflicts: ${(result.conflicts || []).join(', ')}`
+              : 'Pull failed'
+          } : {}),
+          ...(hasConflicts ? { details: { hint: 'Inspect with action="status" or retry with force=true to overwrite local changes' } } : {}),
+          message: result.pullResult === 'success'
+            ? `Pulled ${(result.files || []).length} file(s) from source control`
+            : undefined
+        };
+      }
+
+      case 'push': {
+        if (input.dryRun) {
+          const status = summarizeSourceControlStatus(await client.getSourceControlStatus());
+          const changedFiles = Array.from(new Set([
+            ...status.created,
+            ...status.modified,
+            ...status.deleted,
+            ...status.notAdded,
+            ...status.renamed.map(r => r.to)
+          ]));
+          const files = input.fileNames
+            ? changedFiles.filter(file => input.fileNames!.includes(file))
+            : changedFiles;
+          const unknownFiles = (input.fileNames || []).filter(file => !changedFiles.includes(file));
+
+          return {
+            success: true,
+            data: {
+              dryRun: true,
+              wouldPush: files.length > 0,
+              files,
+              ...(unknownFiles.length > 0 ? { unchangedOrUnknownFiles: unknownFiles } : {}),
+              behind: status.behind,
+              conflicts: status.conflicted,
+              status
+            },
+            message: files.length === 0
+              ? 'Nothing to push'
+              : status.behind > 0
+                ? `${files.length} file(s) would be pushed, but the branch is ${status.behind} commit(s) behind - pull first`
+                : `${files.length} file(s) would be pushed`
+          };
+        }
+
+        if (!input.message) {
+          return { success: false, error: 'message (commit message) is required for action=push' };
+        }
+
+        const result = await client.pushSourceControl(input.message, input.fileNames);
+        return {
+          success: result.pushResult === 'success',
+          data: result,
+          ...(result.pushResult !== 'success' ? {
+            error: result.pushResult === 'conflict'
+              ? `Push rejected due to conflicts: ${(result.conflicts || []).join(', ')}`
+              : 'Push failed'
+          } : {}),
+          message: result.pushResult === 'success'
+            ? `Pushed ${(result.files || []).length} file(s) to source control`
+            : undefined
+        };
+      }
+
+      default:
+        return {
+          success: false,
+          error: `Unknown action: ${input.action}`
+        };
+    }
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return {
+        success: false,
+        error: 'Invalid input',
+        details: { errors: error.errors }
+      };
+    }
+
+    if (error instanceof N8nApiError) {
+      return {
+        success: false,
+        error: getUserFriendlyErrorMessage(error),
+        code: error.code
+      };
+    }
+
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred'
+    };
+  }
+}
+
+// System Tools Handlers
+
+export async function handleHealthCheck(context?: InstanceContext): Promise<McpToolResponse> {
+  const startTime = Date.now();
+
+  try {
+    const client = ensureApiConfigured(context);
+    const health = await client.healthCheck();
+
+    // Get MCP version from package.json
+    const packageJson = require('../../package.json');
+    const mcpVersion = packageJson.version;
+    const supportedN8nVersion = packageJson.dependencies?.n8n?.replace(/[^0-9.]/g, '');
+
+    // Check npm for latest version (async, non-blocking)
+    const versionCheck = await checkNpmVersion();
+
+    // Get cache metrics for performance monitoring
+    const cacheMetricsData = getInstanceCacheMetrics();
+
+    // Calculate response time
+    const responseTime = Date.now() - startTime;
+
+    // Build response data
+    const responseData: HealthCheckResponseData = {
+      status: health.status,
+      instanceId: health.instanceId,
+      n8nVersion: health.n8nVersion,
+      features: health.features,
+      apiUrl: getN8nApiConfig()?.baseUrl,
+      mcpVersion,
+      supportedN8nVersion,
+      versionCheck: {
+        current: versionCheck.currentVersion,
+        latest: versionCheck.latestVersion,
+        upToDate: !versionCheck.isOutdated,
+        message: formatVersionMessage(versionCheck),
+        ...(versionCheck.updateCommand ? { updateCommand: versionCheck.updateCommand } : {})
+      },
+      performance: {
+        responseTimeMs: responseTime,
+        cacheHitRate: (cacheMetricsData.hits + cacheMetricsData.misses) > 0
+          ? ((cacheMetricsData.hits / (cacheMetricsData.hits + cacheMetricsData.misses)) * 100).toFixed(2) + '%'
+          : 'N/A',
+        cachedInstances: cacheMetricsData.size
+      }
+    };
+
+    // Add next steps guidance based on telemetry insights
+    responseData.nextSteps = [
+      '• Create workflow: n8n_create_workflow',
+      '• List workflows: n8n_list_workflows',
+      '• Search nodes: search_nodes',
+      '• Browse templates: search_templates'
+    ];
+
+    // Add update warning if outdated
+    if (versionCheck.isOutdated && versionCheck.latestVersion) {
+      responseData.updateWarning = `⚠️  n8n-mcp v${versionCheck.latestVersion} is available (you have v${versionCheck.currentVersion}). Update recommended.`;
+    }
+
+    // Track result in telemetry
     telemetry.trackEvent('health_check_completed', {
       success: true,
       responseTimeMs: responseTime,
@@ -1956,8 +3345,8 @@ export async function handleDiagnostic(request: any, context?: InstanceContext):
   }
 
   // Check which tools are available
-  const documentationTools = 7; // Base documentation tools (after v2.26.0 consolidation)
-  const managementTools = apiConfigured ? 13 : 0; // Management tools requiring API (includes n8n_deploy_template)
+  const documentationTools = 10; // Base documentation tools (after v2.26.0 consolidation, plus simulate_workflow, run_workflow_tests and index_private_nodes)
+  const managementTools = apiConfigured ? 23 : 0; // Management tools requiring API (includes n8n_deploy_template, n8n_credentials, tags/variables/source control, import/export, dependencies, bulk updates, audit, pinned data)
   const totalTools = documentationTools + managementTools;
 
   // Check npm version
@@ -2178,7 +3567,7 @@ export async function handleWorkflowVersions(
 ): Promise<McpToolResponse> {
   try {
     const input = workflowVersionsSchema.parse(args);
-    const client = context ? getN8nApiClient(context) : null;
+    const client = getN8nApiClient(context);
     const versioningService = new WorkflowVersioningService(repository, client || undefined);
 
     switch (input.mode) {
@@ -2318,6 +3707,44 @@ export async function handleWorkflowVersions(
         };
       }
 
+      case 'compare': {
+        if (!input.versionId) {
+          return {
+            success: false,
+            error: 'versionId is required for compare mode'
+          };
+        }
+
+        if (!input.compareToLive && input.compareToVersionId === undefined) {
+          return {
+            success: false,
+            error: 'compare mode requires compareToVersionId or compareToLive=true'
+          };
+        }
+
+        if (input.compareToLive && !client) {
+          return {
+            success: false,
+            error: 'n8n API not configured. Cannot compare with the live workflow without API access.'
+          };
+        }
+
+        const comparison = await versioningService.compareVersionWith(input.versionId, {
+          compareToVersionId: input.compareToVersionId,
+          compareToLive: input.compareToLive,
+          reverse: input.reverse,
+          format: input.format
+        });
+
+        return {
+          success: true,
+          data: comparison,
+          message: comparison.hasChanges
+            ? `${comparison.base.label} → ${comparison.target.label}: ${comparison.summary.addedNodes} added, ${comparison.summary.removedNodes} removed, ${comparison.summary.modifiedNodes} modified node(s)`
+            : `No differences between ${comparison.base.label} and ${comparison.target.label}`
+        };
+      }
+
       case 'truncate': {
         if (!input.confirmTruncate) {
           return {
@@ -2591,6 +4018,441 @@ export async function handleDeployTemplate(
   }
 }
 
+// ========================================================================
+// Workflow Import/Export Handlers
+// ========================================================================
+
+const exportWorkflowSchema = z.object({
+  id: z.string(),
+  format: z.enum(['json', 'yaml', 'bundle']).optional().default('json'),
+  stripSecrets: z.boolean().optional().default(true)
+});
+
+const importWorkflowSchema = z.object({
+  content: z.string().optional(),
+  workflow: z.record(z.unknown()).optional(),
+  mode: z.enum(['create', 'upsert']).optional().default('create'),
+  dryRun: z.boolean().optional().default(false),
+  matchCredentialsByType: z.boolean().optional().default(false)
+}).refine(input => (input.content !== undefined) !== (input.workflow !== undefined), {
+  message: 'Provide either content or workflow'
+});
+
+/**
+ * Handler for n8n_export_workflow tool
+ * Exports a workflow as n8n JSON, YAML or a bundle with its sub-workflows
+ */
+export async function handleExportWorkflow(args: unknown, context?: InstanceContext): Promise<McpToolResponse> {
+  try {
+    const client = ensureApiConfigured(context);
+    const input = exportWorkflowSchema.parse(args);
+
+    const result = await exportWorkflow(client, input.id, {
+      format: input.format,
+      stripSecrets: input.stripSecrets
+    });
+
+    const notes: string[] = [];
+    if (result.secretsStripped > 0) {
+      notes.push(`${result.secretsStripped} embedded secret(s) were replaced with placeholders - set them again after import`);
+    }
+    if (result.credentials.length > 0) {
+      notes.push('Credentials are exported as references only and are remapped by type and name on import');
+    }
+
+    return {
+      success: true,
+      data: result,
+      message: `Exported ${result.workflows.length} workflow(s) as ${result.format}. ${notes.join('. ')}`.trim()
+    };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return {
+        success: false,
+        error: 'Invalid input',
+        details: { errors: error.errors }
+      };
+    }
+
+    if (error instanceof N8nApiError) {
+      return {
+        success: false,
+        error: getUserFriendlyErrorMessage(error),
+        code: error.code
+      };
+    }
+
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred'
+    };
+  }
+}
+
+/**
+ * Handler for n8n_import_workflow tool
+ * Imports a workflow or bundle, remapping credentials, sub-workflows and webhook IDs
+ */
+export async function handleImportWorkflow(args: unknown, context?: InstanceContext): Promise<McpToolResponse> {
+  try {
+    const client = ensureApiConfigured(context);
+    const input = importWorkflowSchema.parse(args);
+
+    const result = await importWorkflows(client, (input.content ?? input.workflow)!, {
+      mode: input.mode,
+      dryRun: input.dryRun,
+      matchCredentialsByType: input.matchCredentialsByType
+    });
+
+    const missing = result.credentials.filter(credential => credential.status === 'missing').length;
+    const summary = result.workflows.map(workflow => `${workflow.name} (${workflow.action})`).join(', ');
+
+    return {
+      success: true,
+      data: result,
+      message: `${result.dryRun ? 'Dry run: would import' : 'Imported'} ${summary}.` +
+        (missing > 0 ? ` ${missing} credential(s) have no match on this instance and must be configured in n8n.` : '')
+    };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return {
+        success: false,
+        error: 'Invalid input',
+        details: { errors: error.errors }
+      };
+    }
+
+    if (error instanceof N8nApiError) {
+      return {
+        success: false,
+        error: getUserFriendlyErrorMessage(error),
+        code: error.code,
+        details: error.details as Record<string, unknown> | undefined
+      };
+    }
+
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred'
+    };
+  }
+}
+
+// ========================================================================
+// Workflow Dependency Handler
+// ========================================================================
+
+const workflowDependenciesSchema = z.object({
+  workflowId: z.string().optional(),
+  format: z.enum(['json', 'mermaid']).optional().default('json')
+});
+
+/**
+ * Handler for n8n_workflow_dependencies tool
+ * Scans all workflows for cross-workflow calls and reports the graph or the
+ * impact set of one workflow
+ */
+export async function handleWorkflowDependencies(args: unknown, context?: InstanceContext): Promise<McpToolResponse> {
+  try {
+    const client = ensureApiConfigured(context);
+    const input = workflowDependenciesSchema.parse(args || {});
+
+    const graph = buildDependencyGraph(await fetchAllWorkflows(client));
+
+    if (input.workflowId) {
+      const impact = getWorkflowImpact(graph, input.workflowId);
+      if (!impact) {
+        return {
+          success: false,
+          error: `Workflow ${input.workflowId} not found`
+        };
+      }
+
+      const related = [input.workflowId, ...impact.dependents.map(w => w.id), ...impact.dependencies.map(w => w.id)];
+      return {
+        success: true,
+        data: {
+          ...impact,
+          unresolved: graph.unresolved.filter(ref => related.includes(ref.workflowId)),
+          ...(input.format === 'mermaid' ? { mermaid: toMermaid(graph, related) } : {})
+        },
+        message: `"${impact.workflow.name}" is called by ${impact.callers.length} workflow(s) ` +
+          `(${impact.dependents.length} affected transitively) and calls ${impact.callees.length} workflow(s).`
+      };
+    }
+
+    const summary = {
+      workflows: graph.workflows.filter(node => !node.missing).length,
+      dependencies: graph.edges.length,
+      subWorkflows: graph.workflows.filter(node => node.isSubWorkflow).length,
+      orphans: graph.orphans.length,
+      missing: graph.missing.length,
+      unresolved: graph.unresolved.length
+    };
+
+    return {
+      success: true,
+      data: input.format === 'mermaid'
+        ? { summary, mermaid: toMermaid(graph), orphans: graph.orphans, missing: graph.missing, unresolved: graph.unresolved }
+        : { summary, ...graph },
+      message: `${summary.workflows} workflows, ${summary.dependencies} cross-workflow dependencies, ` +
+        `${summary.orphans} orphaned sub-workflow(s), ${summary.missing} missing target(s).` +
+        (summary.unresolved > 0 ? ` ${summary.unresolved} call(s) pick their workflow at runtime and are not in the graph.` : '')
+    };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return {
+        success: false,
+        error: 'Invalid input',
+        details: { errors: error.errors }
+      };
+    }
+
+    if (error instanceof N8nApiError) {
+      return {
+        success: false,
+        error: getUserFriendlyErrorMessage(error),
+        code: error.code
+      };
+    }
+
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred'
+    };
+  }
+}
+
+// ========================================================================
+// Instance Audit Handler
+// ========================================================================
+
+const auditInstanceSchema = z.object({
+  format: z.enum(['json', 'markdown', 'sarif']).optional().default('json'),
+  rules: z.array(z.enum(AUDIT_RULE_IDS as [AuditRuleId, ...AuditRuleId[]])).min(1).optional(),
+  recentFailureDays: z.number().int().min(1).max(90).optional().default(7),
+  ownerTagPrefix: z.string().min(1).optional().default('owner:'),
+  maxFindings: z.number().int().min(1).max(5000).optional().default(500)
+});
+
+/**
+ * Handler for n8n_audit_instance tool
+ * Lints every workflow of the instance and returns a ranked hygiene report
+ */
+export async function handleAuditInstance(
+  args: unknown,
+  repository: NodeRepository,
+  context?: InstanceContext
+): Promise<McpToolResponse> {
+  try {
+    const client = ensureApiConfigured(context);
+    const input = auditInstanceSchema.parse(args || {});
+
+    const report = await runInstanceAudit(client, repository, {
+      rules: input.rules,
+      recentFailureDays: input.recentFailureDays,
+      ownerTagPrefix: input.ownerTagPrefix,
+      maxFindings: input.maxFindings
+    });
+
+    const { summary } = report;
+    const data = input.format === 'markdown'
+      ? { summary, markdown: toAuditMarkdown(report) }
+      : input.format === 'sarif'
+        ? { summary, sarif: toAuditSarif(report) }
+        : report;
+
+    return {
+      success: true,
+      data,
+      message: `Audited ${summary.workflows} workflows: health score ${summary.healthScore}/100, ` +
+        `${summary.bySeverity.error} errors, ${summary.bySeverity.warning} warnings, ${summary.bySeverity.info} infos.` +
+        (report.truncated > 0 ? ` ${report.truncated} findings not listed (raise maxFindings to see them).` : '')
+    };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return {
+        success: false,
+        error: 'Invalid input',
+        details: { errors: error.errors }
+      };
+    }
+
+    if (error instanceof N8nApiError) {
+      return {
+        success: false,
+        error: getUserFriendlyErrorMessage(error),
+        code: error.code
+      };
+    }
+
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred'
+    };
+  }
+}
+
+// ========================================================================
+// Pinned Data Handler
+// ========================================================================
+
+const pinDataSchema = z.object({
+  action: z.enum(['list', 'pin', 'unpin']),
+  workflowId: z.string().optional(),
+  // Workflow JSON to edit locally instead of a workflow on the instance
+  workflow: z.object({
+    nodes: z.array(z.any()),
+    connections: z.record(z.any())
+  }).passthrough().optional(),
+  nodeName: z.string().optional(),
+  source: z.enum(['json', 'execution', 'schema']).optional().default('json'),
+  items: z.unknown().optional(),
+  executionId: z.string().optional(),
+  sourceNodeName: z.string().optional(),
+  runIndex: z.number().int().min(0).optional(),
+  outputIndex: z.number().int().min(0).optional().default(0),
+  sampleCount: z.number().int().min(1).max(100).optional().default(1),
+  includeItems: z.boolean().optional().default(false)
+}).refine(input => (input.workflowId !== undefined) !== (input.workflow !== undefined), {
+  message: 'Provide either workflowId or workflow'
+});
+
+/**
+ * Handler for n8n_pin_data tool
+ * Lists, pins and unpins the pinned output data of workflow nodes
+ */
+export async function handlePinData(args: unknown, context?: InstanceContext): Promise<McpToolResponse> {
+  try {
+    const input = pinDataSchema.parse(args);
+    const client = input.workflowId !== undefined || input.source === 'execution' ? ensureApiConfigured(context) : undefined;
+    const workflow = (input.workflow ?? await client!.getWorkflow(input.workflowId!)) as Workflow;
+    const pinData: Record<string, unknown> = { ...(workflow.pinData ?? {}) };
+
+    if (input.action === 'list') {
+      const nodes = summarizePinData(workflow, input.includeItems)
+        .filter(node => input.nodeName === undefined || node.nodeName === input.nodeName);
+      return {
+        success: true,
+        data: { workflowId: workflow.id, nodes, sizeBytes: pinDataSize(pinData) },
+        message: `${nodes.length} node(s) with pinned data`
+      };
+    }
+
+    let warnings: string[] = [];
+    let message: string;
+    if (input.action === 'pin') {
+      if (!input.nodeName) {
+        return { success: false, error: 'nodeName is required for action=pin' };
+      }
+      const targetError = checkPinTarget(workflow, input.nodeName);
+      if (targetError) {
+        return { success: false, error: targetError };
+      }
+
+      let pinned: PinItemsResult;
+      switch (input.source) {
+        case 'execution': {
+          if (!input.executionId) {
+            return { success: false, error: 'executionId is required for source=execution' };
+          }
+          const execution = await client!.getExecution(input.executionId, true);
+          pinned = pinItemsFromExecution(execution, input.sourceNodeName ?? input.nodeName, input.runIndex, input.outputIndex);
+          break;
+        }
+        case 'schema':
+          pinned = samplePinItems(workflow, input.nodeName, input.sampleCount);
+          break;
+        default:
+          if (input.items === undefined) {
+            return { success: false, error: 'items is required for source=json' };
+          }
+          pinned = normalizePinItems(input.items);
+      }
+      if (pinned.errors.length > 0) {
+        return {
+          success: false,
+          error: 'Pinned data is not in n8n item format',
+          details: { errors: pinned.errors }
+        };
+      }
+
+      pinData[input.nodeName] = pinned.items;
+      warnings = pinned.warnings;
+      message = `Pinned ${pinned.items.length} item(s) to node "${input.nodeName}"`;
+    } else {
+      if (input.nodeName !== undefined && !(input.nodeName in pinData)) {
+        return { success: false, error: `Node "${input.nodeName}" has no pinned data` };
+      }
+      const removed = input.nodeName !== undefined ? [input.nodeName] : Object.keys(pinData);
+      for (const nodeName of removed) {
+        delete pinData[nodeName];
+      }
+      message = `Unpinned ${removed.length} node(s)`;
+    }
+
+    const sizeBytes = pinDataSize(pinData);
+    if (sizeBytes > MAX_PIN_DATA_BYTES) {
+      return {
+        success: false,
+        error: `Pinned data would be ${sizeBytes} bytes, more than the ${MAX_PIN_DATA_BYTES} bytes n8n accepts per workflow`
+      };
+    }
+
+    const nodes = summarizePinData({ ...workflow, pinData });
+    if (input.workflow) {
+      return {
+        success: true,
+        data: { workflow: { ...input.workflow, pinData }, nodes, sizeBytes, warnings },
+        message: `${message} in the given workflow JSON`
+      };
+    }
+
+    const saved = await client!.updateWorkflow(input.workflowId!, workflow, { pinData });
+    const unsaved = findUnsavedPinData(pinData, saved?.pinData);
+    if (unsaved.length > 0) {
+      return {
+        success: false,
+        error: `n8n did not save the pinned data of ${unsaved.length} node(s): ${unsaved.join(', ')}. ` +
+          'This n8n version probably ignores pinData in workflow updates through the public API.',
+        code: 'PIN_DATA_NOT_SAVED',
+        details: {
+          workflowId: input.workflowId,
+          nodes: unsaved,
+          hint: 'Pin the data in the n8n editor, or pass the workflow JSON as workflow and use the returned pinData with simulate_workflow'
+        }
+      };
+    }
+
+    return {
+      success: true,
+      data: { workflowId: input.workflowId, nodes, sizeBytes, warnings },
+      message: `${message} and saved workflow ${input.workflowId}`
+    };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return {
+        success: false,
+        error: 'Invalid input',
+        details: { errors: error.errors }
+      };
+    }
+
+    if (error instanceof N8nApiError) {
+      return {
+        success: false,
+        error: getUserFriendlyErrorMessage(error),
+        code: error.code
+      };
+    }
+
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred'
+    };
+  }
+}
+
 /**
  * Backward-compatible webhook trigger handler
  *
@@ -2600,7 +4462,7 @@ export async function handleDeployTemplate(
 export async function handleTriggerWebhookWorkflow(args: unknown, context?: InstanceContext): Promise<McpToolResponse> {
   const triggerWebhookSchema = z.object({
     webhookUrl: z.string().url(),
-    httpMethod: z.enum(['GET', 'POST', 'PUT', 'DELETE']).optional(),
+    httpMethod: z.enum(['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'HEAD']).optional(),
     data: z.record(z.unknown()).optional(),
     headers: z.record(z.string()).optional(),
     waitForResponse: z.boolean().optional(),
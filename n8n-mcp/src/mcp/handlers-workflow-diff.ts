@@ -7,13 +7,21 @@ import { z } from 'zod';
 import { McpToolResponse } from '../types/n8n-api';
 import { WorkflowDiffRequest, WorkflowDiffOperation } from '../types/workflow-diff';
 import { WorkflowDiffEngine } from '../services/workflow-diff-engine';
-import { getN8nApiClient } from './handlers-n8n-manager';
+import {
+  getN8nApiClient,
+  findMergeBase,
+  buildMergeConflictResponse,
+  describeMergeBase,
+  recordWorkflowRevision,
+  MergeBase
+} from './handlers-n8n-manager';
 import { N8nApiError, getUserFriendlyErrorMessage } from '../utils/n8n-errors';
 import { logger } from '../utils/logger';
 import { InstanceContext } from '../types/instance-context';
 import { validateWorkflowStructure } from '../services/n8n-validation';
 import { NodeRepository } from '../database/node-repository';
 import { WorkflowVersioningService } from '../services/workflow-versioning-service';
+import { mergeWorkflows, hasExpectedRevision, isStaleRevision } from '../services/workflow-merge';
 import { WorkflowValidator } from '../services/workflow-validator';
 import { EnhancedConfigValidator } from '../services/enhanced-config-validator';
 
@@ -61,6 +69,7 @@ const workflowDiffSchema = z.object({
     connections: z.any().optional(),
     // Metadata operations
     settings: z.any().optional(),
+    replace: z.boolean().optional(),
     name: z.string().optional(),
     tag: z.string().optional(),
   })),
@@ -68,6 +77,8 @@ const workflowDiffSchema = z.object({
   continueOnError: z.boolean().optional(),
   createBackup: z.boolean().optional(),
   intent: z.string().optional(),
+  expectedVersionId: z.string().optional(),
+  expectedUpdatedAt: z.string().optional(),
 });
 
 export async function handleUpdatePartialWorkflow(
@@ -139,6 +150,18 @@ export async function handleUpdatePartialWorkflow(
       throw error;
     }
 
+    // Operations written against an older revision are applied to that revision
+    // and then merged with the changes made since (optimistic concurrency)
+    const expected = { versionId: input.expectedVersionId, updatedAt: input.expectedUpdatedAt };
+    let mergeBase: MergeBase | null = null;
+    if (hasExpectedRevision(expected) && isStaleRevision(workflow, expected)) {
+      const baseLookup = await findMergeBase(repository, client, input.id, expected, workflow);
+      if ('response' in baseLookup) {
+        return baseLookup.response;
+      }
+      mergeBase = baseLookup.base;
+    }
+
     // Create backup before modifying workflow (default: true)
     if (input.createBackup !== false && !input.validateOnly) {
       try {
@@ -166,7 +189,10 @@ export async function handleUpdatePartialWorkflow(
     // Apply diff operations
     const diffEngine = new WorkflowDiffEngine();
     const diffRequest = input as WorkflowDiffRequest;
-    const diffResult = await diffEngine.applyDiff(workflow, diffRequest);
+    const diffResult = await diffEngine.applyDiff(
+      mergeBase ? JSON.parse(JSON.stringify(mergeBase.workflowSnapshot)) : workflow,
+      diffRequest
+    );
 
     // Check if this is a complete failure or partial success in continueOnError mode
     if (!diffResult.success) {
@@ -190,6 +216,14 @@ export async function handleUpdatePartialWorkflow(
       }
     }
     
+    if (mergeBase && diffResult.workflow) {
+      const merge = mergeWorkflows(mergeBase.workflowSnapshot, diffResult.workflow, workflow);
+      if (merge.hasConflicts) {
+        return buildMergeConflictResponse(input.id, workflow, mergeBase, merge.conflicts);
+      }
+      diffResult.workflow = { ...workflow, ...merge.merged };
+    }
+
     // If validateOnly, return validation result
     if (input.validateOnly) {
       return {
@@ -343,6 +377,8 @@ export async function handleUpdatePartialWorkflow(
         }
       }
 
+      await recordWorkflowRevision(repository, finalWorkflow);
+
       // Track successful mutation
       if (workflowBefore && !input.validateOnly) {
         trackWorkflowMutation({
@@ -368,9 +404,12 @@ export async function handleUpdatePartialWorkflow(
           name: finalWorkflow.name,
           active: finalWorkflow.active,
           nodeCount: finalWorkflow.nodes?.length || 0,
-          operationsApplied: diffResult.operationsApplied
+          operationsApplied: diffResult.operationsApplied,
+          versionId: finalWorkflow.versionId,
+          updatedAt: finalWorkflow.updatedAt,
+          ...(mergeBase ? { merged: true } : {})
         },
-        message: `Workflow "${finalWorkflow.name}" updated successfully. Applied ${diffResult.operationsApplied} operations.${activationMessage} Use n8n_get_workflow with mode 'structure' to verify current state.`,
+        message: `Workflow "${finalWorkflow.name}" updated successfully. Applied ${diffResult.operationsApplied} operations.${mergeBase ? ` Merged with changes made since ${describeMergeBase(mergeBase)} (no conflicts).` : ''}${activationMessage} Use n8n_get_workflow with mode 'structure' to verify current state.`,
         details: {
           applied: diffResult.applied,
           failed: diffResult.failed,
@@ -100,6 +100,18 @@ Learn more: https://github.com/czlonkowski/n8n-mcp/blob/main/PRIVACY.md
     }
   }
 
+  // Handle workflow test command: n8n-mcp test [paths...] [--junit <file>]
+  if (args.length > 0 && args[0] === 'test') {
+    const { runWorkflowTestCommand } = await import('../scripts/workflow-test-command');
+    process.exit(runWorkflowTestCommand(args.slice(1)));
+  }
+
+  // Handle workflow transfer commands: n8n-mcp export <id> / n8n-mcp import <file>
+  if (args.length > 0 && (args[0] === 'export' || args[0] === 'import')) {
+    const { runWorkflowTransferCommand } = await import('../scripts/workflow-transfer-command');
+    process.exit(await runWorkflowTransferCommand(args[0], args.slice(1)));
+  }
+
   const mode = process.env.MCP_MODE || 'stdio';
 
     // Checkpoint: Telemetry initializing (fire-and-forget, no await)
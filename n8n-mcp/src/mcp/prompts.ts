@@ -0,0 +1,241 @@
+/**
+ * MCP Prompts for n8n-mcp
+ *
+ * Parameterized recipes that expand into a message sequence walking the model
+ * through the right tool calls in the right order. Distilled from the
+ * ai_agents_guide and the n8n workflow-pattern skills.
+ */
+
+export interface PromptArgumentDefinition {
+  name: string;
+  description: string;
+  required?: boolean;
+}
+
+export interface PromptMessage {
+  role: 'user' | 'assistant';
+  content: { type: 'text'; text: string };
+}
+
+export interface PromptDefinition {
+  name: string;
+  title: string;
+  description: string;
+  arguments: PromptArgumentDefinition[];
+  /** Prompt relies on n8n management tools (N8N_API_URL / N8N_API_KEY) */
+  requiresApi: boolean;
+  build: (args: Record<string, string>) => PromptMessage[];
+}
+
+function toolCall(name: string, args: Record<string, unknown>): string {
+  return `${name}(${JSON.stringify(args)})`;
+}
+
+function steps(list: string[]): string {
+  return list.map((step, i) => `${i + 1}. ${step}`).join('\n');
+}
+
+function user(text: string): PromptMessage {
+  return { role: 'user', content: { type: 'text', text } };
+}
+
+function assistant(text: string): PromptMessage {
+  return { role: 'assistant', content: { type: 'text', text } };
+}
+
+export const n8nPrompts: PromptDefinition[] = [
+  {
+    name: 'build_webhook_workflow',
+    title: 'Build Webhook → Transform → Respond Workflow',
+    description: 'Build a workflow that receives an HTTP request, transforms the payload and returns a custom response',
+    arguments: [
+      { name: 'purpose', description: 'What the webhook should do, e.g. "accept contact form submissions and store them in Airtable"', required: true },
+      { name: 'path', description: 'Webhook path (default: derived from the purpose)' },
+      { name: 'httpMethod', description: 'HTTP method: GET, POST, PUT or DELETE (default: POST)' }
+    ],
+    requiresApi: false,
+    build: (args) => {
+      const method = (args.httpMethod || 'POST').toUpperCase();
+      return [
+        user(`Build an n8n workflow: ${args.purpose}
+
+It must be triggered by a ${method} webhook${args.path ? ` at path "${args.path}"` : ''}, transform the incoming data and respond to the caller with a custom response.`),
+        assistant(`I'll follow the Webhook → Validate → Transform → Action → Respond pattern:
+
+${steps([
+  `Look for a template first: ${toolCall('search_templates', { query: args.purpose, limit: 5 })}`,
+  `Check the trigger and response nodes: ${toolCall('get_node', { nodeType: 'nodes-base.webhook' })} and ${toolCall('get_node', { nodeType: 'nodes-base.respondToWebhook' })}`,
+  `Find nodes for the action: ${toolCall('search_nodes', { query: args.purpose, includeExamples: true })}`,
+  `Validate each node config before building: ${toolCall('validate_node', { nodeType: '<nodeType>', config: {}, mode: 'minimal' })}`,
+  `Assemble the workflow with Webhook (httpMethod: "${method}", responseMode: "responseNode") → IF (required fields) → Set (field mapping) → action node(s) → Respond to Webhook, then ${toolCall('validate_workflow', { workflow: '<workflow>' })}`,
+  `If the n8n API is configured, deploy with ${toolCall('n8n_create_workflow', { name: '<name>', nodes: [], connections: {} })}, run ${toolCall('n8n_validate_workflow', { id: '<id>' })} and test with ${toolCall('n8n_test_workflow', { workflowId: '<id>', triggerType: 'webhook', httpMethod: method, data: {} })}`
+])}
+
+Remember: webhook payload fields live under $json.body (e.g. {{ $json.body.email }}), not $json.`),
+        user('Go ahead, starting with step 1. Report what you found before building.')
+      ];
+    }
+  },
+  {
+    name: 'build_ai_agent_workflow',
+    title: 'Build AI Agent Workflow',
+    description: 'Build a Chat Trigger → AI Agent workflow with a language model, memory and tools',
+    arguments: [
+      { name: 'goal', description: 'What the agent should do, e.g. "answer questions about our Notion knowledge base"', required: true },
+      { name: 'tools', description: 'Comma-separated capabilities the agent needs, e.g. "web search, send Slack message"' },
+      { name: 'model', description: 'Preferred language model provider, e.g. "OpenAI", "Anthropic" (default: OpenAI)' }
+    ],
+    requiresApi: false,
+    build: (args) => [
+      user(`Build an n8n AI Agent workflow: ${args.goal}${args.tools ? `\n\nThe agent needs these tools: ${args.tools}` : ''}${args.model ? `\nUse a ${args.model} chat model.` : ''}`),
+      assistant(`I'll build it following the AI agents guide:
+
+${steps([
+  `Read the guide: ${toolCall('tools_documentation', { topic: 'ai_agents_guide' })}`,
+  `Look for a template: ${toolCall('search_templates', { query: args.goal, limit: 5 })}`,
+  `Check the agent and model nodes: ${toolCall('get_node', { nodeType: 'nodes-langchain.agent' })} and ${toolCall('search_nodes', { query: `${args.model || 'OpenAI'} chat model` })}`,
+  args.tools
+    ? `Find a tool node per capability (${args.tools}): ${toolCall('search_nodes', { query: '<capability>', includeExamples: true })}, preferring "...Tool" variants`
+    : `Decide which tools the agent needs and find them with ${toolCall('search_nodes', { query: '<capability>', includeExamples: true })}`,
+  'Assemble Chat Trigger → AI Agent (main), connect the model via ai_languageModel, Window Buffer Memory via ai_memory and each tool via ai_tool; give every tool a toolDescription of 15+ characters and the agent a systemMessage',
+  `Validate: ${toolCall('validate_workflow', { workflow: '<workflow>' })} and fix every error`,
+  `If the n8n API is configured, deploy with ${toolCall('n8n_create_workflow', { name: '<name>', nodes: [], connections: {} })}, check credentials with ${toolCall('n8n_credentials', { action: 'requirements', workflowId: '<id>' })} and test with ${toolCall('n8n_test_workflow', { workflowId: '<id>', triggerType: 'chat', message: 'Hello' })}`
+])}
+
+Connect the language model before anything else - an AI Agent without ai_languageModel fails validation.`),
+      user('Go ahead, starting with step 1.')
+    ]
+  },
+  {
+    name: 'debug_failed_execution',
+    title: 'Debug Failed Execution',
+    description: 'Find the root cause of a failed execution and propose (or apply) a fix',
+    arguments: [
+      { name: 'executionId', description: 'ID of the failed execution', required: true },
+      { name: 'applyFix', description: '"true" to apply the fix after confirming it (default: only propose)' }
+    ],
+    requiresApi: true,
+    build: (args) => [
+      user(`Execution ${args.executionId} failed. Find the root cause and ${args.applyFix === 'true' ? 'fix the workflow' : 'propose a fix'}.`),
+      assistant(`I'll debug it step by step:
+
+${steps([
+  `Get the error context: ${toolCall('n8n_executions', { action: 'get', id: args.executionId, mode: 'error' })}`,
+  `Load the workflow from the execution's workflowId: ${toolCall('n8n_get_workflow', { id: '<workflowId>', mode: 'full' })}`,
+  `Inspect the failing node's configuration: ${toolCall('get_node', { nodeType: '<failing node type>', detail: 'standard' })}`,
+  `Check for structural problems: ${toolCall('n8n_validate_workflow', { id: '<workflowId>' })}`,
+  'Compare the upstream sample data with the expressions and parameters of the failing node to pinpoint the cause',
+  args.applyFix === 'true'
+    ? `Apply the smallest possible fix: ${toolCall('n8n_update_partial_workflow', { id: '<workflowId>', operations: [{ type: 'updateNode', nodeName: '<node>', updates: {} }] })}, then re-validate`
+    : `Describe the fix as n8n_update_partial_workflow operations without applying them`
+])}
+
+Credentials, missing fields in upstream data and expression syntax are the most common causes - check those first.`),
+      user('Start with step 1.')
+    ]
+  },
+  {
+    name: 'migrate_workflow_node_versions',
+    title: 'Migrate Workflow to Latest Node Versions',
+    description: 'Upgrade outdated node typeVersions in a workflow, reviewing breaking changes before applying',
+    arguments: [
+      { name: 'workflowId', description: 'Workflow to migrate', required: true }
+    ],
+    requiresApi: true,
+    build: (args) => [
+      user(`Migrate workflow ${args.workflowId} to the latest node versions without breaking it.`),
+      assistant(`I'll migrate it safely:
+
+${steps([
+  `Load the workflow: ${toolCall('n8n_get_workflow', { id: args.workflowId, mode: 'full' })}`,
+  `For each node, check versions and breaking changes: ${toolCall('get_node', { nodeType: '<nodeType>', mode: 'compare', fromVersion: '<current typeVersion>' })}`,
+  `Preview upgrades: ${toolCall('n8n_autofix_workflow', { id: args.workflowId, applyFixes: false, fixTypes: ['typeversion-upgrade', 'version-migration'] })}`,
+  'Summarize each proposed upgrade with its breaking changes and any manual follow-up, and wait for confirmation',
+  `Apply: ${toolCall('n8n_autofix_workflow', { id: args.workflowId, applyFixes: true, fixTypes: ['typeversion-upgrade', 'version-migration'] })} (a backup version is saved automatically)`,
+  `Re-validate: ${toolCall('n8n_validate_workflow', { id: args.workflowId })}; if something broke, roll back with ${toolCall('n8n_workflow_versions', { mode: 'rollback', workflowId: args.workflowId })}`
+])}`),
+      user('Start with step 1 and stop for my confirmation after step 4.')
+    ]
+  },
+  {
+    name: 'deploy_template_for_task',
+    title: 'Find and Deploy a Template',
+    description: 'Find the best template for a task, deploy it and wire up credentials',
+    arguments: [
+      { name: 'task', description: 'What the workflow should do, e.g. "sync new Stripe customers to HubSpot"', required: true }
+    ],
+    requiresApi: true,
+    build: (args) => [
+      user(`Find a ready-made template for: ${args.task}. Deploy the best match to my n8n instance and tell me what's left to configure.`),
+      assistant(`Here's the plan:
+
+${steps([
+  `Search templates: ${toolCall('search_templates', { query: args.task, limit: 10 })}`,
+  `Compare the top candidates: ${toolCall('get_template', { templateId: '<id>', mode: 'structure' })}`,
+  'Pick the closest match and explain why',
+  `Deploy it: ${toolCall('n8n_deploy_template', { templateId: '<id>' })}`,
+  `List credentials to set up: ${toolCall('n8n_credentials', { action: 'requirements', workflowId: '<new workflow id>' })}`,
+  `Validate: ${toolCall('n8n_validate_workflow', { id: '<new workflow id>' })}`
+])}`),
+      user('Start with step 1.')
+    ]
+  },
+  {
+    name: 'setup_workflow_credentials',
+    title: 'Set Up Workflow Credentials',
+    description: 'Find missing credentials in a workflow, reuse or create them and assign them to nodes',
+    arguments: [
+      { name: 'workflowId', description: 'Workflow to set up', required: true }
+    ],
+    requiresApi: true,
+    build: (args) => [
+      user(`Make sure every node in workflow ${args.workflowId} has the credentials it needs.`),
+      assistant(`I'll go through it like this:
+
+${steps([
+  `Find what's missing: ${toolCall('n8n_credentials', { action: 'requirements', workflowId: args.workflowId })}`,
+  'For each missing credential type, offer to reuse one of availableCredentials',
+  `Otherwise look up its fields: ${toolCall('n8n_credentials', { action: 'schema', type: '<credentialType>' })} and ask me for the values`,
+  `Create it: ${toolCall('n8n_credentials', { action: 'create', name: '<name>', type: '<credentialType>', data: {} })}`,
+  `Assign it: ${toolCall('n8n_update_partial_workflow', { id: args.workflowId, operations: [{ type: 'updateNode', nodeName: '<node>', updates: { credentials: { '<credentialType>': { id: '<id>', name: '<name>' } } } }] })}`,
+  `Confirm nothing is missing: ${toolCall('n8n_credentials', { action: 'requirements', workflowId: args.workflowId })}`
+])}
+
+I will never echo secret values back.`),
+      user('Start with step 1.')
+    ]
+  }
+];
+
+/**
+ * List prompts available for the current configuration
+ * @param includeApiPrompts - Include prompts that need n8n management tools
+ */
+export function listPrompts(includeApiPrompts: boolean) {
+  return n8nPrompts
+    .filter(prompt => includeApiPrompts || !prompt.requiresApi)
+    .map(({ name, title, description, arguments: args }) => ({ name, title, description, arguments: args }));
+}
+
+/**
+ * Expand a prompt with its arguments
+ * @throws Error if the prompt is unknown or a required argument is missing
+ */
+export function getPrompt(name: string, args: Record<string, string> = {}) {
+  const prompt = n8nPrompts.find(p => p.name === name);
+  if (!prompt) {
+    throw new Error(`Unknown prompt: ${name}. Available prompts: ${n8nPrompts.map(p => p.name).join(', ')}`);
+  }
+
+  const missing = prompt.arguments
+    .filter(arg => arg.required && !args[arg.name]?.trim())
+    .map(arg => arg.name);
+  if (missing.length > 0) {
+    throw new Error(`Missing required argument(s) for prompt ${name}: ${missing.join(', ')}`);
+  }
+
+  return {
+    description: prompt.description,
+    messages: prompt.build(args)
+  };
+}
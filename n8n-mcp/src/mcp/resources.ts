@@ -0,0 +1,239 @@
+import { logger } from '../utils/logger';
+
+/**
+ * MCP Resources for n8n-mcp
+ *
+ * Nodes, templates and workflows are addressable as resources so MCP clients
+ * can attach them as context without a tool call:
+ * - n8n-node://nodes-base.slack   Node documentation (markdown)
+ * - n8n-template://1234           Template workflow (JSON)
+ * - n8n-workflow://<id>           Workflow from the connected n8n instance (JSON)
+ */
+
+export const NODE_RESOURCE_SCHEME = 'n8n-node';
+export const TEMPLATE_RESOURCE_SCHEME = 'n8n-template';
+export const WORKFLOW_RESOURCE_SCHEME = 'n8n-workflow';
+
+export type ParsedResourceUri =
+  | { kind: 'node'; nodeType: string }
+  | { kind: 'template'; templateId: number }
+  | { kind: 'workflow'; workflowId: string };
+
+export interface ResourceTemplateDefinition {
+  uriTemplate: string;
+  name: string;
+  title: string;
+  description: string;
+  mimeType: string;
+}
+
+export const resourceTemplates: ResourceTemplateDefinition[] = [
+  {
+    uriTemplate: `${NODE_RESOURCE_SCHEME}://{nodeType}`,
+    name: 'n8n-node',
+    title: 'n8n Node Documentation',
+    description: 'Documentation for an n8n node, e.g. n8n-node://nodes-base.slack',
+    mimeType: 'text/markdown'
+  },
+  {
+    uriTemplate: `${TEMPLATE_RESOURCE_SCHEME}://{templateId}`,
+    name: 'n8n-template',
+    title: 'n8n Workflow Template',
+    description: 'Complete workflow JSON of an n8n.io template, e.g. n8n-template://1234',
+    mimeType: 'application/json'
+  },
+  {
+    uriTemplate: `${WORKFLOW_RESOURCE_SCHEME}://{workflowId}`,
+    name: 'n8n-workflow',
+    title: 'n8n Workflow',
+    description: 'Workflow from the connected n8n instance (requires N8N_API_URL). Supports subscriptions.',
+    mimeType: 'application/json'
+  }
+];
+
+export function buildNodeResourceUri(nodeType: string): string {
+  return `${NODE_RESOURCE_SCHEME}://${nodeType}`;
+}
+
+export function buildTemplateResourceUri(templateId: number): string {
+  return `${TEMPLATE_RESOURCE_SCHEME}://${templateId}`;
+}
+
+export function buildWorkflowResourceUri(workflowId: string): string {
+  return `${WORKFLOW_RESOURCE_SCHEME}://${encodeURIComponent(workflowId)}`;
+}
+
+/**
+ * Parse a resource URI into its kind and identifier
+ * @throws Error when the scheme is unknown or the identifier is missing/invalid
+ */
+export function parseResourceUri(uri: string): ParsedResourceUri {
+  const match = /^([a-z0-9-]+):\/\/(.+)$/i.exec(uri.trim());
+  if (!match) {
+    throw new Error(`Invalid resource URI: ${uri}`);
+  }
+
+  const [, scheme, rawId] = match;
+  const id = decodeURIComponent(rawId.replace(/\/+$/, ''));
+
+  switch (scheme.toLowerCase()) {
+    case NODE_RESOURCE_SCHEME:
+      return { kind: 'node', nodeType: id };
+
+    case TEMPLATE_RESOURCE_SCHEME: {
+      if (!/^\d+$/.test(id)) {
+        throw new Error(`Invalid template ID in resource URI: ${uri}`);
+      }
+      return { kind: 'template', templateId: parseInt(id, 10) };
+    }
+
+    case WORKFLOW_RESOURCE_SCHEME:
+      return { kind: 'workflow', workflowId: id };
+
+    default:
+      throw new Error(`Unknown resource scheme "${scheme}". Supported: ${NODE_RESOURCE_SCHEME}://, ${TEMPLATE_RESOURCE_SCHEME}://, ${WORKFLOW_RESOURCE_SCHEME}://`);
+  }
+}
+
+/**
+ * Fingerprint of a workflow used to detect changes between polls
+ */
+export interface WorkflowRevision {
+  versionId?: string;
+  updatedAt?: string;
+}
+
+export interface WorkflowSubscriptionOptions {
+  /** Fetch the current revision of a workflow; return null if it no longer exists */
+  fetchRevision: (workflowId: string) => Promise<WorkflowRevision | null>;
+  /** Called with the resource URI whenever a subscribed workflow changed */
+  onChange: (uri: string) => Promise<void>;
+  /** Poll interval in milliseconds (default: 30000) */
+  pollIntervalMs?: number;
+}
+
+/**
+ * Tracks workflow resource subscriptions and notifies when a tracked workflow changes.
+ *
+ * Changes made through this server are reported immediately via markChanged();
+ * changes made elsewhere (n8n UI, other clients) are picked up by polling
+ * versionId/updatedAt. Polling only runs while at least one subscription exists.
+ */
+export class WorkflowSubscriptionManager {
+  private subscriptions = new Map<string, string | null>();
+  private pollTimer: NodeJS.Timeout | null = null;
+  private polling = false;
+  private readonly pollIntervalMs: number;
+
+  constructor(private readonly options: WorkflowSubscriptionOptions) {
+    const interval = options.pollIntervalMs ?? 30000;
+    this.pollIntervalMs = Number.isFinite(interval) ? interval : 30000;
+  }
+
+  async subscribe(workflowId: string): Promise<void> {
+    if (!this.subscriptions.has(workflowId)) {
+      this.subscriptions.set(workflowId, await this.currentFingerprint(workflowId));
+    }
+    this.ensurePolling();
+  }
+
+  unsubscribe(workflowId: string): void {
+    this.subscriptions.delete(workflowId);
+    if (this.subscriptions.size === 0) {
+      this.stopPolling();
+    }
+  }
+
+  isSubscribed(workflowId: string): boolean {
+    return this.subscriptions.has(workflowId);
+  }
+
+  get size(): number {
+    return this.subscriptions.size;
+  }
+
+  /**
+   * Report a change made through this server (e.g. a workflow update tool call)
+   */
+  async markChanged(workflowId: string): Promise<void> {
+    if (!this.subscriptions.has(workflowId)) return;
+
+    this.subscriptions.set(workflowId, await this.currentFingerprint(workflowId));
+    await this.notify(workflowId);
+  }
+
+  /**
+   * Check all subscribed workflows once and notify for those that changed
+   */
+  async poll(): Promise<void> {
+    if (this.polling) return;
+    this.polling = true;
+
+    try {
+      for (const [workflowId, previous] of Array.from(this.subscriptions.entries())) {
+        const current = await this.currentFingerprint(workflowId);
+        // Skip if unsubscribed while fetching
+        if (!this.subscriptions.has(workflowId)) continue;
+
+        if (current !== previous) {
+          this.subscriptions.set(workflowId, current);
+          await this.notify(workflowId);
+        }
+      }
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  destroy(): void {
+    this.stopPolling();
+    this.subscriptions.clear();
+  }
+
+  private async currentFingerprint(workflowId: string): Promise<string | null> {
+    try {
+      const revision = await this.options.fetchRevision(workflowId);
+      if (!revision) return null;
+      return `${revision.versionId || ''}:${revision.updatedAt || ''}`;
+    } catch (error) {
+      logger.debug('Failed to fetch workflow revision for subscription', {
+        workflowId,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      // Keep the previous fingerprint so transient errors don't trigger notifications
+      return this.subscriptions.get(workflowId) ?? null;
+    }
+  }
+
+  private async notify(workflowId: string): Promise<void> {
+    try {
+      await this.options.onChange(buildWorkflowResourceUri(workflowId));
+    } catch (error) {
+      logger.warn('Failed to send resource update notification', {
+        workflowId,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  private ensurePolling(): void {
+    if (this.pollTimer || this.pollIntervalMs <= 0) return;
+
+    this.pollTimer = setInterval(() => {
+      this.poll().catch(error => {
+        logger.warn('Workflow subscription poll failed', {
+          error: error instanceof Error ? error.message : String(error)
+        });
+      });
+    }, this.pollIntervalMs);
+    // Don't keep the process alive just for polling
+    this.pollTimer.unref?.();
+  }
+
+  private stopPolling(): void {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+  }
+}
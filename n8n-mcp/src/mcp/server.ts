@@ -4,6 +4,15 @@ import {
   CallToolRequestSchema, 
   ListToolsRequestSchema,
   InitializeRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+  ListPromptsRequestSchema,
+  GetPromptRequestSchema,
+  McpError,
+  ErrorCode,
 } from '@modelcontextprotocol/sdk/types.js';
 import { existsSync, promises as fs } from 'fs';
 import path from 'path';
@@ -23,11 +32,35 @@ import { TypeStructureService } from '../services/type-structure-service';
 import { SimpleCache } from '../utils/simple-cache';
 import { TemplateService } from '../templates/template-service';
 import { WorkflowValidator } from '../services/workflow-validator';
+import { isSimulationEnabled, simulateWorkflow, SimulationResult, SIMULATION_DISABLED_MESSAGE } from '../services/workflow-simulator';
+import { isHttpMode } from '../utils/server-mode';
+import {
+  runWorkflowTestFiles,
+  runWorkflowTestSuite,
+  summarizeWorkflowTests,
+  toJUnitXml,
+  validateWorkflowTestSuite,
+  WorkflowTestReport
+} from '../services/workflow-test-runner';
+import { PrivateNodeIndexer, getConfiguredPrivateNodePaths } from '../services/private-node-indexer';
+import { SemanticSearchService } from '../services/semantic-search-service';
+import { EmbeddingModelUnavailableError } from '../services/embedding-model';
 import { isN8nApiConfigured } from '../config/n8n-api';
+import { N8nNotFoundError } from '../utils/n8n-errors';
 import * as n8nHandlers from './handlers-n8n-manager';
 import { handleUpdatePartialWorkflow } from './handlers-workflow-diff';
+import { handleBulkUpdateWorkflows } from './handlers-bulk-workflows';
 import { getToolDocumentation, getToolsOverview } from './tools-documentation';
+import {
+  resourceTemplates,
+  parseResourceUri,
+  buildNodeResourceUri,
+  buildWorkflowResourceUri,
+  WorkflowSubscriptionManager
+} from './resources';
+import { listPrompts, getPrompt } from './prompts';
 import { PROJECT_VERSION } from '../utils/version';
+import { recordToolCall } from '../utils/prometheus-metrics';
 import { getNodeTypeAlternatives, getWorkflowNodeType } from '../utils/node-utils';
 import { NodeTypeNormalizer } from '../utils/node-type-normalizer';
 import { ToolValidation, Validator, ValidationError } from '../utils/validation-schemas';
@@ -37,6 +70,7 @@ import {
   STANDARD_PROTOCOL_VERSION
 } from '../utils/protocol-version';
 import { InstanceContext } from '../types/instance-context';
+import { ProgressReporter } from '../types/n8n-api';
 import { telemetry } from '../telemetry';
 import { EarlyErrorLogger } from '../telemetry/early-error-logger';
 import { STARTUP_CHECKPOINTS } from '../telemetry/startup-checkpoints';
@@ -137,11 +171,35 @@ interface VersionComparisonInfo {
 
 type NodeInfoResponse = NodeMinimalInfo | NodeStandardInfo | NodeFullInfo | VersionHistoryInfo | VersionComparisonInfo;
 
+interface ToolExecutionOptions {
+  // Set when the client sent a progress token with the tool call
+  reportProgress?: ProgressReporter;
+}
+
+// Tools that run workflow code - listed in HTTP mode only with ENABLE_HTTP_SIMULATION=true
+const SIMULATION_TOOLS = new Set(['simulate_workflow', 'run_workflow_tests']);
+
+// Tool names used as metric labels - other names are counted as 'unknown'
+const KNOWN_TOOL_NAMES = new Set([...n8nDocumentationToolsFinal, ...n8nManagementTools].map(tool => tool.name));
+
+/**
+ * Error type of a tool result that reports failure instead of throwing,
+ * e.g. { success: false, code: 'NOT_FOUND' } from the n8n management handlers
+ */
+function toolResultErrorType(result: unknown): string | undefined {
+  if (typeof result !== 'object' || result === null || (result as any).success !== false) {
+    return undefined;
+  }
+  const code = (result as any).code;
+  return typeof code === 'string' && code ? code : 'tool_error';
+}
+
 export class N8NDocumentationMCPServer {
   private server: Server;
   private db: DatabaseAdapter | null = null;
   private repository: NodeRepository | null = null;
   private templateService: TemplateService | null = null;
+  private semanticSearch: SemanticSearchService | null = null;
   private initialized: Promise<void>;
   private cache = new SimpleCache();
   private clientInfo: any = null;
@@ -150,6 +208,7 @@ export class N8NDocumentationMCPServer {
   private previousToolTimestamp: number = Date.now();
   private earlyLogger: EarlyErrorLogger | null = null;
   private disabledToolsCache: Set<string> | null = null;
+  private workflowSubscriptions: WorkflowSubscriptionManager;
 
   constructor(instanceContext?: InstanceContext, earlyLogger?: EarlyErrorLogger) {
     this.instanceContext = instanceContext;
@@ -231,10 +290,28 @@ export class N8NDocumentationMCPServer {
       {
         capabilities: {
           tools: {},
+          resources: { subscribe: true },
+          prompts: {},
         },
       }
     );
 
+    this.workflowSubscriptions = new WorkflowSubscriptionManager({
+      fetchRevision: async (workflowId) => {
+        const client = n8nHandlers.getN8nApiClient(this.instanceContext);
+        if (!client) return null;
+        try {
+          const workflow = await client.getWorkflow(workflowId);
+          return { versionId: workflow.versionId, updatedAt: workflow.updatedAt };
+        } catch (error) {
+          if (error instanceof N8nNotFoundError) return null;
+          throw error;
+        }
+      },
+      onChange: (uri) => this.server.sendResourceUpdated({ uri }),
+      pollIntervalMs: parseInt(process.env.WORKFLOW_SUBSCRIPTION_POLL_INTERVAL_MS || '30000', 10)
+    });
+
     this.setupHandlers();
   }
 
@@ -254,6 +331,7 @@ export class N8NDocumentationMCPServer {
 
       // Use destroy() not clear() - also stops the cleanup timer
       this.cache.destroy();
+      this.workflowSubscriptions.destroy();
 
       // Close database connection before nullifying reference
       if (this.db) {
@@ -270,6 +348,7 @@ export class N8NDocumentationMCPServer {
       this.db = null;
       this.repository = null;
       this.templateService = null;
+      this.semanticSearch = null;
       this.earlyLogger = null;
     } catch (error) {
       // Log but don't throw - cleanup should be best-effort
@@ -298,9 +377,18 @@ export class N8NDocumentationMCPServer {
       this.repository = new NodeRepository(this.db);
       logger.debug('Node repository initialized');
 
+      // Databases built before private node support lack its columns
+      try {
+        this.repository.ensurePrivateNodeColumns();
+      } catch (error) {
+        logger.debug('Could not add private node columns (read-only database?)', error);
+      }
+
       this.templateService = new TemplateService(this.db);
       logger.debug('Template service initialized');
 
+      this.semanticSearch = new SemanticSearchService(this.db);
+
       // Initialize similarity services for enhanced validation
       EnhancedConfigValidator.initializeSimilarityServices(this.repository);
       logger.debug('Similarity services initialized');
@@ -528,6 +616,8 @@ export class N8NDocumentationMCPServer {
         protocolVersion: negotiationResult.version,
         capabilities: {
           tools: {},
+          resources: { subscribe: true },
+          prompts: {},
         },
         serverInfo: {
           name: 'n8n-documentation-mcp',
@@ -546,7 +636,7 @@ export class N8NDocumentationMCPServer {
 
       // Filter documentation tools based on disabled list
       const enabledDocTools = n8nDocumentationToolsFinal.filter(
-        tool => !disabledTools.has(tool.name)
+        tool => !disabledTools.has(tool.name) && (isSimulationEnabled() || !SIMULATION_TOOLS.has(tool.name))
       );
 
       // Combine documentation tools with management tools if API is configured
@@ -614,8 +704,23 @@ export class N8NDocumentationMCPServer {
     });
 
     // Handle tool execution
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    this.server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
       const { name, arguments: args } = request.params;
+
+      // Progress notifications are only sent for calls that ask for them with a progress token.
+      // On HTTP transport they are streamed on the tool call's response stream.
+      const progressToken = request.params._meta?.progressToken;
+      const reportProgress: ProgressReporter | undefined = progressToken === undefined
+        ? undefined
+        : (progress, total, message) => {
+            extra.sendNotification({
+              method: 'notifications/progress',
+              params: { progressToken, progress, total, message },
+            }).catch(error => logger.debug('Failed to send progress notification', {
+              toolName: name,
+              error: error instanceof Error ? error.message : String(error),
+            }));
+          };
       
       // Enhanced logging for debugging tool calls
       logger.info('Tool call received - DETAILED DEBUG', {
@@ -679,13 +784,18 @@ export class N8NDocumentationMCPServer {
         }
       }
       
+      const metricsToolName = KNOWN_TOOL_NAMES.has(name) ? name : 'unknown';
+      const startTime = Date.now();
       try {
         logger.debug(`Executing tool: ${name}`, { args: processedArgs });
-        const startTime = Date.now();
-        const result = await this.executeTool(name, processedArgs);
+        const result = await this.executeTool(name, processedArgs, { reportProgress });
         const duration = Date.now() - startTime;
         logger.debug(`Tool ${name} executed successfully`);
 
+        recordToolCall(metricsToolName, duration, toolResultErrorType(result));
+
+        this.notifyWorkflowResourceChanges(name, processedArgs, result);
+
         // Track tool usage and sequence
         telemetry.trackToolUsage(name, true, duration);
 
@@ -745,6 +855,12 @@ export class N8NDocumentationMCPServer {
         logger.error(`Error executing tool ${name}`, error);
         const errorMessage = error instanceof Error ? error.message : 'Unknown error';
 
+        recordToolCall(
+          metricsToolName,
+          Date.now() - startTime,
+          error instanceof Error ? error.constructor.name : 'UnknownError'
+        );
+
         // Track tool error
         telemetry.trackToolUsage(name, false);
         telemetry.trackError(
@@ -791,6 +907,243 @@ export class N8NDocumentationMCPServer {
         };
       }
     });
+
+    this.setupResourceHandlers();
+    this.setupPromptHandlers();
+  }
+
+  /**
+   * Resource handlers (resources/list, resources/read, resources/templates/list, subscriptions)
+   */
+  private setupResourceHandlers(): void {
+    this.server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+      return { resourceTemplates };
+    });
+
+    this.server.setRequestHandler(ListResourcesRequestSchema, async (request) => {
+      return this.listResources(request.params?.cursor);
+    });
+
+    this.server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+      return this.readResource(request.params.uri);
+    });
+
+    this.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+      const parsed = this.parseResourceUriOrThrow(request.params.uri);
+      if (parsed.kind !== 'workflow') {
+        throw new McpError(ErrorCode.InvalidParams, `Subscriptions are only supported for workflow resources (${request.params.uri} is static)`);
+      }
+      if (!n8nHandlers.getN8nApiClient(this.instanceContext)) {
+        throw new McpError(ErrorCode.InvalidParams, 'Workflow subscriptions require n8n API configuration (N8N_API_URL and N8N_API_KEY)');
+      }
+
+      await this.workflowSubscriptions.subscribe(parsed.workflowId);
+      logger.debug(`Subscribed to workflow resource ${parsed.workflowId}`);
+      return {};
+    });
+
+    this.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+      const parsed = this.parseResourceUriOrThrow(request.params.uri);
+      if (parsed.kind === 'workflow') {
+        this.workflowSubscriptions.unsubscribe(parsed.workflowId);
+      }
+      return {};
+    });
+  }
+
+  /**
+   * Whether n8n management tools are offered (same rules as tool listing)
+   */
+  private isManagementApiAvailable(): boolean {
+    return isN8nApiConfigured() ||
+      !!(this.instanceContext?.n8nApiUrl && this.instanceContext?.n8nApiKey) ||
+      process.env.ENABLE_MULTI_TENANT === 'true';
+  }
+
+  /**
+   * Prompt handlers (prompts/list, prompts/get)
+   * Prompts that drive n8n management tools are only listed when the API is available.
+   */
+  private setupPromptHandlers(): void {
+    this.server.setRequestHandler(ListPromptsRequestSchema, async () => {
+      return { prompts: listPrompts(this.isManagementApiAvailable()) };
+    });
+
+    this.server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+      try {
+        return getPrompt(request.params.name, request.params.arguments || {});
+      } catch (error) {
+        throw new McpError(ErrorCode.InvalidParams, error instanceof Error ? error.message : String(error));
+      }
+    });
+  }
+
+  private static readonly RESOURCE_PAGE_SIZE = 100;
+
+  /**
+   * List node resources (paginated) and, on the first page, workflows of the connected instance.
+   * Templates are only addressable through the n8n-template:// resource template.
+   */
+  private async listResources(cursor?: string): Promise<any> {
+    await this.ensureInitialized();
+    if (!this.db) throw new Error('Database not initialized');
+
+    const offset = cursor ? parseInt(cursor, 10) : 0;
+    if (isNaN(offset) || offset < 0) {
+      throw new McpError(ErrorCode.InvalidParams, `Invalid cursor: ${cursor}`);
+    }
+
+    const pageSize = N8NDocumentationMCPServer.RESOURCE_PAGE_SIZE;
+    const nodes = this.db.prepare(`
+      SELECT node_type, display_name, description
+      FROM nodes
+      ORDER BY node_type
+      LIMIT ? OFFSET ?
+    `).all(pageSize + 1, offset) as NodeRow[];
+
+    const resources: any[] = [];
+
+    if (offset === 0) {
+      const client = n8nHandlers.getN8nApiClient(this.instanceContext);
+      if (client) {
+        try {
+          const workflows = await client.listWorkflows({ limit: 100 });
+          for (const workflow of workflows.data) {
+            if (!workflow.id) continue;
+            resources.push({
+              uri: buildWorkflowResourceUri(workflow.id),
+              name: `workflow-${workflow.id}`,
+              title: workflow.name,
+              description: `n8n workflow "${workflow.name}"${workflow.active ? ' (active)' : ''}`,
+              mimeType: 'application/json'
+            });
+          }
+        } catch (error) {
+          logger.debug('Could not list workflows for resources/list', {
+            error: error instanceof Error ? error.message : String(error)
+          });
+        }
+      }
+    }
+
+    for (const node of nodes.slice(0, pageSize)) {
+      resources.push({
+        uri: buildNodeResourceUri(node.node_type),
+        name: node.node_type,
+        title: node.display_name,
+        description: node.description || undefined,
+        mimeType: 'text/markdown'
+      });
+    }
+
+    return {
+      resources,
+      ...(nodes.length > pageSize ? { nextCursor: String(offset + pageSize) } : {})
+    };
+  }
+
+  private async readResource(uri: string): Promise<any> {
+    const parsed = this.parseResourceUriOrThrow(uri);
+
+    switch (parsed.kind) {
+      case 'node': {
+        let doc: any;
+        try {
+          doc = await this.getNodeDocumentation(parsed.nodeType);
+        } catch (error) {
+          throw new McpError(ErrorCode.InvalidParams, `Resource not found: ${uri}`);
+        }
+        return {
+          contents: [{ uri, mimeType: 'text/markdown', text: doc.documentation }]
+        };
+      }
+
+      case 'template': {
+        const result = await this.getTemplate(parsed.templateId, 'full');
+        if (result.error) {
+          throw new McpError(ErrorCode.InvalidParams, `Resource not found: ${uri}`);
+        }
+        return {
+          contents: [{ uri, mimeType: 'application/json', text: JSON.stringify(result.template, null, 2) }]
+        };
+      }
+
+      case 'workflow': {
+        const client = n8nHandlers.getN8nApiClient(this.instanceContext);
+        if (!client) {
+          throw new McpError(ErrorCode.InvalidParams, 'Workflow resources require n8n API configuration (N8N_API_URL and N8N_API_KEY)');
+        }
+        let workflow: any;
+        try {
+          workflow = await client.getWorkflow(parsed.workflowId);
+        } catch (error) {
+          throw new McpError(ErrorCode.InvalidParams, `Resource not found: ${uri} (${error instanceof Error ? error.message : String(error)})`);
+        }
+        return {
+          contents: [{ uri, mimeType: 'application/json', text: JSON.stringify(workflow, null, 2) }]
+        };
+      }
+    }
+  }
+
+  private parseResourceUriOrThrow(uri: string) {
+    try {
+      return parseResourceUri(uri);
+    } catch (error) {
+      throw new McpError(ErrorCode.InvalidParams, error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  /**
+   * Notify subscribers about workflows changed by a successful tool call
+   */
+  private notifyWorkflowResourceChanges(toolName: string, args: any, result: any): void {
+    if (this.workflowSubscriptions.size === 0 || !args || result?.success === false) return;
+
+    let workflowIds: string[] = [];
+    switch (toolName) {
+      case 'n8n_update_full_workflow':
+      case 'n8n_update_partial_workflow':
+      case 'n8n_delete_workflow':
+      case 'n8n_autofix_workflow':
+        workflowIds = args.id ? [args.id] : [];
+        break;
+      case 'n8n_workflow_versions':
+        workflowIds = args.mode === 'rollback' && args.workflowId ? [args.workflowId] : [];
+        break;
+      case 'n8n_tags':
+        workflowIds = (args.action === 'assign' || args.action === 'unassign') && Array.isArray(args.workflowIds)
+          ? args.workflowIds
+          : [];
+        break;
+      case 'n8n_pin_data':
+        workflowIds = args.action !== 'list' && args.workflowId ? [args.workflowId] : [];
+        break;
+      case 'n8n_import_workflow':
+        // Created workflows have no subscribers yet
+        workflowIds = args.mode === 'upsert' && !result?.data?.dryRun && Array.isArray(result?.data?.workflows)
+          ? result.data.workflows
+              .filter((workflow: any) => workflow.action === 'updated' && workflow.id)
+              .map((workflow: any) => workflow.id)
+          : [];
+        break;
+      case 'n8n_bulk_update_workflows':
+        workflowIds = Array.isArray(result?.data?.results)
+          ? result.data.results
+              .filter((entry: any) => entry.status === 'updated' || entry.status === 'restored')
+              .map((entry: any) => entry.workflowId)
+          : [];
+        break;
+    }
+
+    for (const workflowId of workflowIds) {
+      this.workflowSubscriptions.markChanged(String(workflowId)).catch(error => {
+        logger.debug('Failed to notify workflow resource change', {
+          workflowId,
+          error: error instanceof Error ? error.message : String(error)
+        });
+      });
+    }
   }
 
   /**
@@ -891,6 +1244,7 @@ export class N8NDocumentationMCPServer {
           validationResult = ToolValidation.validateNodeOperation(args);
           break;
         case 'validate_workflow':
+        case 'simulate_workflow':
           validationResult = ToolValidation.validateWorkflow(args);
           break;
       case 'search_nodes':
@@ -912,6 +1266,31 @@ export class N8NDocumentationMCPServer {
           ? { valid: true, errors: [] }
           : { valid: false, errors: [{ field: 'action', message: 'action is required' }] };
         break;
+      case 'n8n_credentials':
+      case 'n8n_tags':
+      case 'n8n_variables':
+      case 'n8n_source_control':
+      case 'n8n_pin_data':
+        // Requires action parameter, remaining fields validated in handler based on action
+        validationResult = args.action
+          ? { valid: true, errors: [] }
+          : { valid: false, errors: [{ field: 'action', message: 'action is required' }] };
+        break;
+      case 'n8n_export_workflow':
+        validationResult = ToolValidation.validateWorkflowId(args);
+        break;
+      case 'n8n_import_workflow':
+        // Requires content or workflow, format checked in handler
+        validationResult = args.content !== undefined || args.workflow !== undefined
+          ? { valid: true, errors: [] }
+          : { valid: false, errors: [{ field: 'content', message: 'content or workflow is required' }] };
+        break;
+      case 'n8n_bulk_update_workflows':
+        // Rollback needs only bulkOperationId, remaining fields validated in handler
+        validationResult = args.selector !== undefined || args.action === 'rollback'
+          ? { valid: true, errors: [] }
+          : { valid: false, errors: [{ field: 'selector', message: 'selector is required' }] };
+        break;
       case 'n8n_deploy_template':
         // Requires templateId parameter
         validationResult = args.templateId !== undefined
@@ -1043,7 +1422,7 @@ export class N8NDocumentationMCPServer {
     return true;
   }
 
-  async executeTool(name: string, args: any): Promise<any> {
+  async executeTool(name: string, args: any, options: ToolExecutionOptions = {}): Promise<any> {
     // Ensure args is an object and validate it
     args = args || {};
 
@@ -1077,6 +1456,7 @@ export class N8NDocumentationMCPServer {
         const limit = args.limit !== undefined ? Number(args.limit) || 20 : 20;
         return this.searchNodes(args.query, limit, {
           mode: args.mode,
+          searchMode: args.searchMode,
           includeExamples: args.includeExamples,
           source: args.source
         });
@@ -1182,6 +1562,11 @@ export class N8NDocumentationMCPServer {
               requiredService: args.requiredService,
               targetAudience: args.targetAudience
             }, searchLimit, searchOffset);
+          case 'semantic':
+            if (!args.query) {
+              throw new Error('query is required for searchMode=semantic');
+            }
+            return this.searchTemplatesSemantic(args.query, searchLimit, searchOffset, args.fields as string[] | undefined);
           case 'keyword':
           default:
             if (!args.query) {
@@ -1194,6 +1579,13 @@ export class N8NDocumentationMCPServer {
       case 'validate_workflow':
         this.validateToolParams(name, args, ['workflow']);
         return this.validateWorkflow(args.workflow, args.options);
+      case 'simulate_workflow':
+        this.validateToolParams(name, args, ['workflow']);
+        return this.simulateWorkflow(args);
+      case 'run_workflow_tests':
+        return this.runWorkflowTests(args);
+      case 'index_private_nodes':
+        return this.indexPrivateNodes(args);
 
       // n8n Management Tools (if API is configured)
       case 'n8n_create_workflow':
@@ -1204,14 +1596,14 @@ export class N8NDocumentationMCPServer {
         const workflowMode = args.mode || 'full';
         switch (workflowMode) {
           case 'details':
-            return n8nHandlers.handleGetWorkflowDetails(args, this.instanceContext);
+            return n8nHandlers.handleGetWorkflowDetails(args, this.repository!, this.instanceContext);
           case 'structure':
             return n8nHandlers.handleGetWorkflowStructure(args, this.instanceContext);
           case 'minimal':
-            return n8nHandlers.handleGetWorkflowMinimal(args, this.instanceContext);
+            return n8nHandlers.handleGetWorkflowMinimal(args, this.repository!, this.instanceContext);
           case 'full':
           default:
-            return n8nHandlers.handleGetWorkflow(args, this.instanceContext);
+            return n8nHandlers.handleGetWorkflow(args, this.repository!, this.instanceContext);
         }
       }
       case 'n8n_update_full_workflow':
@@ -1238,7 +1630,7 @@ export class N8NDocumentationMCPServer {
         return n8nHandlers.handleAutofixWorkflow(args, this.repository, this.instanceContext);
       case 'n8n_test_workflow':
         this.validateToolParams(name, args, ['workflowId']);
-        return n8nHandlers.handleTestWorkflow(args, this.instanceContext);
+        return n8nHandlers.handleTestWorkflow(args, this.instanceContext, options.reportProgress);
       case 'n8n_executions': {
         this.validateToolParams(name, args, ['action']);
         const execAction = args.action;
@@ -1255,10 +1647,34 @@ export class N8NDocumentationMCPServer {
               throw new Error('id is required for action=delete');
             }
             return n8nHandlers.handleDeleteExecution(args, this.instanceContext);
+          case 'retry':
+            if (!args.id) {
+              throw new Error('id is required for action=retry');
+            }
+            return n8nHandlers.handleRetryExecution(args, this.instanceContext);
+          case 'rerun':
+            if (!args.id) {
+              throw new Error('id is required for action=rerun');
+            }
+            return n8nHandlers.handleRerunExecution(args, this.instanceContext);
           default:
-            throw new Error(`Unknown action: ${execAction}. Valid actions: get, list, delete`);
+            throw new Error(`Unknown action: ${execAction}. Valid actions: get, list, delete, retry, rerun`);
         }
       }
+      case 'n8n_credentials':
+        this.validateToolParams(name, args, ['action']);
+        await this.ensureInitialized();
+        if (!this.repository) throw new Error('Repository not initialized');
+        return n8nHandlers.handleCredentials(args, this.repository, this.instanceContext);
+      case 'n8n_tags':
+        this.validateToolParams(name, args, ['action']);
+        return n8nHandlers.handleTags(args, this.instanceContext);
+      case 'n8n_variables':
+        this.validateToolParams(name, args, ['action']);
+        return n8nHandlers.handleVariables(args, this.instanceContext);
+      case 'n8n_source_control':
+        this.validateToolParams(name, args, ['action']);
+        return n8nHandlers.handleSourceControl(args, this.instanceContext);
       case 'n8n_health_check':
         // No required parameters - supports mode='status' (default) or mode='diagnostic'
         if (args.mode === 'diagnostic') {
@@ -1276,6 +1692,29 @@ export class N8NDocumentationMCPServer {
         if (!this.repository) throw new Error('Repository not initialized');
         return n8nHandlers.handleDeployTemplate(args, this.templateService, this.repository, this.instanceContext);
 
+      case 'n8n_export_workflow':
+        this.validateToolParams(name, args, ['id']);
+        return n8nHandlers.handleExportWorkflow(args, this.instanceContext);
+      case 'n8n_import_workflow':
+        this.validateToolParams(name, args, []);
+        return n8nHandlers.handleImportWorkflow(args, this.instanceContext);
+      case 'n8n_workflow_dependencies':
+        // No required parameters
+        return n8nHandlers.handleWorkflowDependencies(args, this.instanceContext);
+      case 'n8n_bulk_update_workflows':
+        this.validateToolParams(name, args, []);
+        await this.ensureInitialized();
+        if (!this.repository) throw new Error('Repository not initialized');
+        return handleBulkUpdateWorkflows(args, this.repository, this.instanceContext);
+      case 'n8n_audit_instance':
+        // No required parameters
+        await this.ensureInitialized();
+        if (!this.repository) throw new Error('Repository not initialized');
+        return n8nHandlers.handleAuditInstance(args, this.repository, this.instanceContext);
+      case 'n8n_pin_data':
+        this.validateToolParams(name, args, ['action']);
+        return n8nHandlers.handlePinData(args, this.instanceContext);
+
       default:
         throw new Error(`Unknown tool: ${name}`);
     }
@@ -1427,9 +1866,10 @@ export class N8NDocumentationMCPServer {
     limit: number = 20,
     options?: {
       mode?: 'OR' | 'AND' | 'FUZZY';
+      searchMode?: 'keyword' | 'semantic';
       includeSource?: boolean;
       includeExamples?: boolean;
-      source?: 'all' | 'core' | 'community' | 'verified';
+      source?: 'all' | 'core' | 'community' | 'verified' | 'private';
     }
   ): Promise<any> {
     await this.ensureInitialized();
@@ -1445,6 +1885,17 @@ export class N8NDocumentationMCPServer {
         .replace(/@n8n\/n8n-nodes-langchain\./g, 'nodes-langchain.');
     }
     
+    let semanticUnavailable: string | undefined;
+    if (options?.searchMode === 'semantic') {
+      try {
+        return await this.searchNodesSemantic(normalizedQuery, limit, options);
+      } catch (error) {
+        if (!(error instanceof EmbeddingModelUnavailableError)) throw error;
+        // Semantic search is opt-in - answer with keyword results and say why
+        semanticUnavailable = error.message;
+      }
+    }
+
     const searchMode = options?.mode || 'OR';
     
     // Check if FTS5 table exists
@@ -1453,15 +1904,21 @@ export class N8NDocumentationMCPServer {
       WHERE type='table' AND name='nodes_fts'
     `).get();
     
+    let result: any;
     if (ftsExists) {
       // Use FTS5 search with normalized query
       logger.debug(`Using FTS5 search with includeExamples=${options?.includeExamples}`);
-      return this.searchNodesFTS(normalizedQuery, limit, searchMode, options);
+      result = await this.searchNodesFTS(normalizedQuery, limit, searchMode, options);
     } else {
       // Fallback to LIKE search with normalized query
       logger.debug('Using LIKE search (no FTS5)');
-      return this.searchNodesLIKE(normalizedQuery, limit, options);
+      result = await this.searchNodesLIKE(normalizedQuery, limit, options);
+    }
+
+    if (semanticUnavailable) {
+      result.semanticSearch = { available: false, reason: semanticUnavailable };
     }
+    return result;
   }
 
   private async searchNodesFTS(
@@ -1471,7 +1928,7 @@ export class N8NDocumentationMCPServer {
     options?: {
       includeSource?: boolean;
       includeExamples?: boolean;
-      source?: 'all' | 'core' | 'community' | 'verified';
+      source?: 'all' | 'core' | 'community' | 'verified' | 'private';
     }
   ): Promise<any> {
     if (!this.db) throw new Error('Database not initialized');
@@ -1515,9 +1972,11 @@ export class N8NDocumentationMCPServer {
       // Build source filter SQL
       let sourceFilter = '';
       const sourceValue = options?.source || 'all';
+      // Databases built before private node support have no private nodes
+      const hasPrivateColumns = this.repository?.hasPrivateNodeColumns() ?? false;
       switch (sourceValue) {
         case 'core':
-          sourceFilter = 'AND n.is_community = 0';
+          sourceFilter = hasPrivateColumns ? 'AND n.is_community = 0 AND n.is_private = 0' : 'AND n.is_community = 0';
           break;
         case 'community':
           sourceFilter = 'AND n.is_community = 1';
@@ -1525,6 +1984,9 @@ export class N8NDocumentationMCPServer {
         case 'verified':
           sourceFilter = 'AND n.is_community = 1 AND n.is_verified = 1';
           break;
+        case 'private':
+          sourceFilter = hasPrivateColumns ? 'AND n.is_private = 1' : 'AND 0';
+          break;
         // 'all' - no filter
       }
 
@@ -1603,6 +2065,10 @@ export class N8NDocumentationMCPServer {
             }
           }
 
+          if ((node as any).is_private === 1) {
+            nodeResult.isPrivate = true;
+          }
+
           return nodeResult;
         }),
         totalCount: scoredNodes.length
@@ -1616,26 +2082,7 @@ export class N8NDocumentationMCPServer {
       // Add examples if requested
       if (options && options.includeExamples) {
         try {
-          for (const nodeResult of result.results) {
-            const examples = this.db!.prepare(`
-              SELECT
-                parameters_json,
-                template_name,
-                template_views
-              FROM template_node_configs
-              WHERE node_type = ?
-              ORDER BY rank
-              LIMIT 2
-            `).all(nodeResult.workflowNodeType) as any[];
-
-            if (examples.length > 0) {
-              nodeResult.examples = examples.map((ex: any) => ({
-                configuration: JSON.parse(ex.parameters_json),
-                template: ex.template_name,
-                views: ex.template_views
-              }));
-            }
-          }
+          this.addNodeExamples(result.results);
         } catch (error: any) {
           logger.error(`Failed to add examples:`, error);
         }
@@ -1670,6 +2117,101 @@ export class N8NDocumentationMCPServer {
     }
   }
   
+  /**
+   * Hybrid search: BM25 keyword scores combined with vector similarity.
+   * Throws EmbeddingModelUnavailableError when no embedding model is set up.
+   */
+  private async searchNodesSemantic(
+    query: string,
+    limit: number,
+    options?: {
+      includeExamples?: boolean;
+      source?: 'all' | 'core' | 'community' | 'verified' | 'private';
+    }
+  ): Promise<any> {
+    if (!this.semanticSearch) throw new Error('Semantic search not initialized');
+
+    const cleanedQuery = query.trim();
+    if (!cleanedQuery) {
+      return { query, results: [], totalCount: 0, searchMode: 'semantic' };
+    }
+
+    const matches = await this.semanticSearch.searchNodes(cleanedQuery, { limit, source: options?.source });
+
+    const result: any = {
+      query,
+      searchMode: 'semantic',
+      results: matches.map(({ node, score }) => {
+        const nodeResult: any = {
+          nodeType: node.node_type,
+          workflowNodeType: getWorkflowNodeType(node.package_name, node.node_type),
+          displayName: node.display_name,
+          description: node.description,
+          category: node.category,
+          package: node.package_name,
+          score
+        };
+
+        // Add community metadata if this is a community node
+        if (node.is_community === 1) {
+          nodeResult.isCommunity = true;
+          nodeResult.isVerified = node.is_verified === 1;
+          if (node.author_name) {
+            nodeResult.authorName = node.author_name;
+          }
+          if (node.npm_downloads) {
+            nodeResult.npmDownloads = node.npm_downloads;
+          }
+        }
+
+        if (node.is_private === 1) {
+          nodeResult.isPrivate = true;
+        }
+
+        return nodeResult;
+      }),
+      totalCount: matches.length
+    };
+
+    if (options?.includeExamples) {
+      try {
+        this.addNodeExamples(result.results);
+      } catch (error: any) {
+        logger.error(`Failed to add examples:`, error);
+      }
+    }
+
+    telemetry.trackSearchQuery(query, matches.length, 'SEMANTIC');
+
+    return result;
+  }
+
+  /**
+   * Attach the top 2 template configurations to each search result
+   */
+  private addNodeExamples(results: Array<{ workflowNodeType: string; examples?: any[] }>): void {
+    for (const nodeResult of results) {
+      const examples = this.db!.prepare(`
+        SELECT
+          parameters_json,
+          template_name,
+          template_views
+        FROM template_node_configs
+        WHERE node_type = ?
+        ORDER BY rank
+        LIMIT 2
+      `).all(nodeResult.workflowNodeType) as any[];
+
+      if (examples.length > 0) {
+        nodeResult.examples = examples.map((ex: any) => ({
+          configuration: JSON.parse(ex.parameters_json),
+          template: ex.template_name,
+          views: ex.template_views
+        }));
+      }
+    }
+  }
+
   private async searchNodesFuzzy(query: string, limit: number): Promise<any> {
     if (!this.db) throw new Error('Database not initialized');
     
@@ -1823,7 +2365,7 @@ export class N8NDocumentationMCPServer {
     options?: {
       includeSource?: boolean;
       includeExamples?: boolean;
-      source?: 'all' | 'core' | 'community' | 'verified';
+      source?: 'all' | 'core' | 'community' | 'verified' | 'private';
     }
   ): Promise<any> {
     if (!this.db) throw new Error('Database not initialized');
@@ -1831,9 +2373,11 @@ export class N8NDocumentationMCPServer {
     // Build source filter SQL
     let sourceFilter = '';
     const sourceValue = options?.source || 'all';
+    // Databases built before private node support have no private nodes
+    const hasPrivateColumns = this.repository?.hasPrivateNodeColumns() ?? false;
     switch (sourceValue) {
       case 'core':
-        sourceFilter = 'AND is_community = 0';
+        sourceFilter = hasPrivateColumns ? 'AND is_community = 0 AND is_private = 0' : 'AND is_community = 0';
         break;
       case 'community':
         sourceFilter = 'AND is_community = 1';
@@ -1841,6 +2385,9 @@ export class N8NDocumentationMCPServer {
       case 'verified':
         sourceFilter = 'AND is_community = 1 AND is_verified = 1';
         break;
+      case 'private':
+        sourceFilter = hasPrivateColumns ? 'AND is_private = 1' : 'AND 0';
+        break;
       // 'all' - no filter
     }
 
@@ -1882,6 +2429,10 @@ export class N8NDocumentationMCPServer {
             }
           }
 
+          if ((node as any).is_private === 1) {
+            nodeResult.isPrivate = true;
+          }
+
           return nodeResult;
         }),
         totalCount: rankedNodes.length
@@ -1968,6 +2519,10 @@ export class N8NDocumentationMCPServer {
           }
         }
 
+        if ((node as any).is_private === 1) {
+          nodeResult.isPrivate = true;
+        }
+
         return nodeResult;
       }),
       totalCount: rankedNodes.length
@@ -2412,7 +2967,8 @@ Full documentation is being prepared. For now, use get_node_essentials for confi
         isWebhook: node.isWebhook ?? false,
         hasCredentials: node.credentials ? true : false,
         package: node.package ?? 'n8n-nodes-base',
-        developmentStyle: node.developmentStyle ?? 'programmatic'
+        developmentStyle: node.developmentStyle ?? 'programmatic',
+        ...(node.isPrivate ? { isPrivate: true } : {})
       }
     };
 
@@ -3535,6 +4091,47 @@ Full documentation is being prepared. For now, use get_node_essentials for confi
     };
   }
   
+  private async searchTemplatesSemantic(query: string, limit: number = 20, offset: number = 0, fields?: string[]): Promise<any> {
+    await this.ensureInitialized();
+    if (!this.templateService) throw new Error('Template service not initialized');
+    if (!this.semanticSearch) throw new Error('Semantic search not initialized');
+
+    let ranked;
+    try {
+      ranked = await this.semanticSearch.searchTemplates(query, { limit, offset });
+    } catch (error) {
+      if (!(error instanceof EmbeddingModelUnavailableError)) throw error;
+      // Semantic search is opt-in - answer with keyword results and say why
+      const keywordResult = await this.searchTemplates(query, limit, offset, fields);
+      return { ...keywordResult, semanticSearch: { available: false, reason: error.message } };
+    }
+    const { matches, total } = ranked;
+    const items = await this.templateService.getTemplatesByIds(matches.map(m => m.templateId), fields);
+
+    if (items.length === 0 && offset === 0) {
+      return {
+        items,
+        total,
+        limit,
+        offset,
+        hasMore: false,
+        message: `No templates found matching: "${query}"`,
+        tip: "Try describing the workflow differently or run 'npm run fetch:templates' to update template database"
+      };
+    }
+
+    return {
+      items,
+      total,
+      limit,
+      offset,
+      hasMore: offset + limit < total,
+      query,
+      searchMode: 'semantic',
+      tip: `Found ${total} templates for "${query}". Showing ${items.length}, best match first.`
+    };
+  }
+
   private async getTemplatesForTask(task: string, limit: number = 10, offset: number = 0): Promise<any> {
     await this.ensureInitialized();
     if (!this.templateService) throw new Error('Template service not initialized');
@@ -3745,6 +4342,99 @@ Full documentation is being prepared. For now, use get_node_essentials for confi
     }
   }
 
+  private simulateWorkflow(args: any): SimulationResult {
+    if (!isSimulationEnabled()) {
+      throw new Error(SIMULATION_DISABLED_MESSAGE);
+    }
+
+    logger.info('Workflow simulation requested', {
+      nodesCount: Array.isArray(args.workflow?.nodes) ? args.workflow.nodes.length : 0,
+      startNode: args.startNode,
+      inputItems: Array.isArray(args.inputItems) ? args.inputItems.length : 0,
+      fixtures: Object.keys(args.fixtures ?? {}).length
+    });
+
+    return simulateWorkflow(args.workflow, {
+      inputItems: args.inputItems,
+      startNode: args.startNode,
+      fixtures: args.fixtures,
+      env: args.env,
+      variables: args.variables,
+      maxNodeRuns: args.maxNodeRuns
+    });
+  }
+
+  private runWorkflowTests(args: any): any {
+    if (!isSimulationEnabled()) {
+      throw new Error(SIMULATION_DISABLED_MESSAGE);
+    }
+    if (!args.suite === !args.path) {
+      throw new Error('Provide either suite (inline test suite) or path (test file or directory)');
+    }
+
+    let report: WorkflowTestReport;
+    if (args.path) {
+      if (isHttpMode()) {
+        throw new Error('path is not available in HTTP mode - pass the test suite inline with its workflow object');
+      }
+      report = runWorkflowTestFiles([args.path]);
+    } else {
+      const started = Date.now();
+      const suite = validateWorkflowTestSuite(args.suite);
+      report = summarizeWorkflowTests([runWorkflowTestSuite(suite)], Date.now() - started);
+    }
+
+    return {
+      success: report.failed === 0 && report.errors === 0,
+      total: report.total,
+      passed: report.passed,
+      failed: report.failed,
+      errors: report.errors,
+      // Simulation details only for failed tests, to keep responses small
+      suites: report.suites.map(suite => ({
+        ...suite,
+        tests: suite.tests.map(({ simulation, ...test }) => (test.passed ? test : { ...test, simulation }))
+      })),
+      ...(args.junit ? { junitXml: toJUnitXml(report) } : {})
+    };
+  }
+
+  private async indexPrivateNodes(args: { paths?: string[] }): Promise<any> {
+    await this.ensureInitialized();
+    if (!this.repository) throw new Error('Repository not initialized');
+
+    if (args.paths !== undefined && (!Array.isArray(args.paths) || args.paths.some(p => typeof p !== 'string'))) {
+      throw new Error('paths must be an array of strings');
+    }
+    if (args.paths?.length && isHttpMode()) {
+      throw new Error('paths is not available in HTTP mode - configure N8N_PRIVATE_NODE_PATHS on the server instead');
+    }
+    const paths = args.paths?.length ? args.paths : getConfiguredPrivateNodePaths();
+    if (paths.length === 0) {
+      throw new Error('No paths given and N8N_PRIVATE_NODE_PATHS is not set');
+    }
+
+    const indexer = new PrivateNodeIndexer(this.repository, {
+      output: {
+        log: message => logger.debug(message.trim()),
+        warn: message => logger.warn(message.trim()),
+        error: (message, ...details) => logger.warn(message.trim(), ...details)
+      }
+    });
+    const result = await indexer.indexPaths(paths);
+    // Cached node info and vectors may predate the re-index
+    this.cache.clear();
+    this.semanticSearch?.invalidate();
+
+    return {
+      success: result.errors.length === 0 && result.packages.every(pkg => pkg.errors.length === 0),
+      saved: result.saved,
+      packages: result.packages,
+      ...(result.errors.length > 0 ? { errors: result.errors } : {}),
+      tip: 'Use search_nodes({query: "...", source: "private"}) and get_node with the node types above'
+    };
+  }
+
   private async validateWorkflowConnections(workflow: any): Promise<any> {
     await this.ensureInitialized();
     if (!this.repository) throw new Error('Repository not initialized');
@@ -3921,6 +4611,8 @@ Full documentation is being prepared. For now, use get_node_essentials for confi
         logger.error('Error cleaning up cache:', error);
       }
     }
+
+    this.workflowSubscriptions.destroy();
     
     // Close database connection if it exists
     if (this.db) {
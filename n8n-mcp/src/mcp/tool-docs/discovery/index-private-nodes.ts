@@ -0,0 +1,61 @@
+import { ToolDocumentation } from '../types';
+
+export const indexPrivateNodesDoc: ToolDocumentation = {
+  name: 'index_private_nodes',
+  category: 'discovery',
+  essentials: {
+    description: 'Index in-house node packages from local directories or npm tarballs into the node database. Their nodes become searchable with source="private" and work with get_node and validate_node.',
+    keyParameters: ['paths'],
+    example: 'index_private_nodes({paths: ["/opt/acme/n8n-nodes-acme"]})',
+    performance: 'Seconds - loads and parses every node of the packages',
+    tips: [
+      'Without paths, re-indexes the packages configured in N8N_PRIVATE_NODE_PATHS',
+      'Packages must be built: package.json "n8n.nodes" has to point to compiled .node.js files',
+      'Re-run after changing a package; its previous nodes are replaced'
+    ]
+  },
+  full: {
+    description: `Parses node packages that are never published to npm with the same NodeParser/PropertyExtractor pipeline as the core packages and stores their nodes with is_private = 1.
+
+Each path can be:
+- a package directory (package.json with an "n8n.nodes" list)
+- a folder containing package directories (also @scope/ folders) and tarballs
+- an npm tarball (.tgz, .tar.gz) as created by npm pack
+
+Tarballs are extracted to data/private-packages inside the n8n-mcp installation. Packages must be able to require their dependencies; n8n-workflow resolves from the n8n-mcp installation for tarballs, directories need their own node_modules or must live next to one.
+
+Node types use the full package name, as in workflows: "@acme/n8n-nodes-acme.crm". Nodes marked usableAsTool also get a *Tool variant.
+
+The same packages can be added during a database rebuild: N8N_PRIVATE_NODE_PATHS=/opt/acme/nodes,/tmp/n8n-nodes-billing-1.2.0.tgz npm run rebuild`,
+    parameters: {
+      paths: {
+        type: 'array',
+        required: false,
+        description: 'Package directories, folders of packages or tarballs on the server. Defaults to N8N_PRIVATE_NODE_PATHS (comma-separated). Only the configured paths can be indexed in HTTP mode'
+      }
+    },
+    returns: 'Object with success, saved (node count), packages (packageName, version, source, nodes, errors per package) and errors for paths that could not be read',
+    examples: [
+      'index_private_nodes() - Re-index N8N_PRIVATE_NODE_PATHS',
+      'index_private_nodes({paths: ["./packages"]}) - Index every package and tarball in a folder',
+      'index_private_nodes({paths: ["./n8n-nodes-acme-1.4.0.tgz"]}) - Index a packed package'
+    ],
+    useCases: [
+      'Let the assistant build workflows with company-internal nodes',
+      'Validate workflows that use private nodes instead of reporting unknown node types',
+      'Refresh node schemas after releasing a new version of an internal package'
+    ],
+    performance: 'Depends on package size; each node module is required and parsed once',
+    bestPractices: [
+      'Configure N8N_PRIVATE_NODE_PATHS so rebuilds include the packages automatically',
+      'Check the errors of each package - nodes that fail to load are skipped',
+      'Use search_nodes with source="private" to list what was indexed'
+    ],
+    pitfalls: [
+      'Loading a package executes its code - only index packages you trust',
+      'TypeScript sources are not compiled; index the built package',
+      'Indexing writes to the node database; a read-only database cannot be updated'
+    ],
+    relatedTools: ['search_nodes', 'get_node', 'validate_node']
+  }
+};
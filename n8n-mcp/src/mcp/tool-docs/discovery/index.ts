@@ -1 +1,2 @@
 export { searchNodesDoc } from './search-nodes';
+export { indexPrivateNodesDoc } from './index-private-nodes';
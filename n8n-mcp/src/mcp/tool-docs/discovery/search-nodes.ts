@@ -5,16 +5,18 @@ export const searchNodesDoc: ToolDocumentation = {
   category: 'discovery',
   essentials: {
     description: 'Text search across node names and descriptions. Returns most relevant nodes first, with frequently-used nodes (HTTP Request, Webhook, Set, Code, Slack) prioritized in results. Searches all 800+ nodes including 300+ verified community nodes.',
-    keyParameters: ['query', 'mode', 'limit', 'source', 'includeExamples'],
+    keyParameters: ['query', 'mode', 'searchMode', 'limit', 'source', 'includeExamples'],
     example: 'search_nodes({query: "webhook"})',
     performance: '<20ms even for complex queries',
     tips: [
       'OR mode (default): Matches any search word',
       'AND mode: Requires all words present',
       'FUZZY mode: Handles typos and spelling errors',
+      'searchMode="semantic": Describe the task in plain words ("send a message to my team chat")',
       'Use quotes for exact phrases: "google sheets"',
       'Use source="community" to search only community nodes',
-      'Use source="verified" for verified community nodes only'
+      'Use source="verified" for verified community nodes only',
+      'Use source="private" for in-house packages indexed with index_private_nodes'
     ]
   },
   full: {
@@ -23,25 +25,30 @@ export const searchNodesDoc: ToolDocumentation = {
       query: { type: 'string', description: 'Search keywords. Use quotes for exact phrases like "google sheets"', required: true },
       limit: { type: 'number', description: 'Maximum results to return. Default: 20, Max: 100', required: false },
       mode: { type: 'string', description: 'Search mode: "OR" (any word matches, default), "AND" (all words required), "FUZZY" (typo-tolerant)', required: false },
-      source: { type: 'string', description: 'Filter by node source: "all" (default, everything), "core" (n8n base nodes only), "community" (community nodes only), "verified" (verified community nodes only)', required: false },
+      searchMode: { type: 'string', description: '"keyword" (default, FTS5 search using mode) or "semantic" (BM25 combined with the similarity of sentence embeddings from a local all-MiniLM-L6-v2 model; mode is ignored). Needs @huggingface/transformers and SEMANTIC_SEARCH_MODEL_PATH or SEMANTIC_SEARCH_MODEL_DOWNLOAD=true; otherwise keyword results are returned with semanticSearch.available=false. Weights: SEMANTIC_SEARCH_KEYWORD_WEIGHT / SEMANTIC_SEARCH_VECTOR_WEIGHT (default 0.4 / 0.6)', required: false },
+      source: { type: 'string', description: 'Filter by node source: "all" (default, everything), "core" (n8n base nodes only), "community" (community nodes only), "verified" (verified community nodes only), "private" (in-house packages indexed with index_private_nodes)', required: false },
       includeExamples: { type: 'boolean', description: 'Include top 2 real-world configuration examples from popular templates for each node. Default: false. Adds ~200-400 tokens per node.', required: false }
     },
-    returns: 'Array of node objects sorted by relevance score. Each object contains: nodeType, displayName, description, category, relevance score. For community nodes, also includes: isCommunity (boolean), isVerified (boolean), authorName (string), npmDownloads (number). Common nodes appear first when relevance is similar.',
+    returns: 'Array of node objects sorted by relevance score. Each object contains: nodeType, displayName, description, category, relevance score. For community nodes, also includes: isCommunity (boolean), isVerified (boolean), authorName (string), npmDownloads (number). Private nodes include isPrivate: true. Common nodes appear first when relevance is similar. With searchMode="semantic", each result has a hybrid score (0-1) instead of relevance.',
     examples: [
       'search_nodes({query: "webhook"}) - Returns Webhook node as top result',
       'search_nodes({query: "database"}) - Returns MySQL, Postgres, MongoDB, Redis, etc.',
       'search_nodes({query: "google sheets", mode: "AND"}) - Requires both words',
       'search_nodes({query: "slak", mode: "FUZZY"}) - Finds Slack despite typo',
+      'search_nodes({query: "send a message to my team chat", searchMode: "semantic"}) - Finds Slack, Microsoft Teams, Discord, Telegram',
+      'search_nodes({query: "store rows in a spreadsheet", searchMode: "semantic"}) - Finds Google Sheets, Airtable, Microsoft Excel',
       'search_nodes({query: "http api"}) - Finds HTTP Request, GraphQL, REST nodes',
       'search_nodes({query: "transform data"}) - Finds Set, Code, Function, Item Lists nodes',
       'search_nodes({query: "scraping", source: "community"}) - Find community scraping nodes',
       'search_nodes({query: "pdf", source: "verified"}) - Find verified community PDF nodes',
+      'search_nodes({query: "crm", source: "private"}) - Find nodes from your in-house packages',
       'search_nodes({query: "brightdata"}) - Find BrightData community node',
       'search_nodes({query: "slack", includeExamples: true}) - Get Slack with template examples'
     ],
     useCases: [
       'Finding nodes when you know partial names',
       'Discovering nodes by functionality (e.g., "email", "database", "transform")',
+      'Finding nodes from a plain-language task description (searchMode="semantic")',
       'Handling user typos in node names',
       'Finding all nodes related to a service (e.g., "google", "aws", "microsoft")',
       'Discovering community integrations for specific services',
@@ -51,6 +58,7 @@ export const searchNodesDoc: ToolDocumentation = {
     bestPractices: [
       'Start with single keywords for broadest results',
       'Use FUZZY mode when users might misspell node names',
+      'Use searchMode="semantic" when keyword search returns nothing useful for a described task',
       'AND mode works best for 2-3 word searches',
       'Combine with get_node after finding the right node',
       'Use source="verified" when recommending community nodes for production',
@@ -60,6 +68,8 @@ export const searchNodesDoc: ToolDocumentation = {
       'AND mode searches all fields (name, description) not just node names',
       'FUZZY mode with very short queries (1-2 chars) may return unexpected results',
       'Exact matches in quotes are case-sensitive',
+      'Semantic search is opt-in and the model is not shipped with n8n-mcp: without a configured embedding model the keyword results are returned with semanticSearch.available=false and the reason',
+      'Vectors are stored by npm run rebuild; nodes added since then are embedded in memory on the first semantic query of a process (not stored)',
       'Community nodes require npm installation (n8n npm install <package-name>)',
       'Unverified community nodes (isVerified: false) may have limited support'
     ],
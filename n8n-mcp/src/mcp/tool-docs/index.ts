@@ -1,9 +1,9 @@
 import { ToolDocumentation } from './types';
 
 // Import all tool documentations
-import { searchNodesDoc } from './discovery';
+import { searchNodesDoc, indexPrivateNodesDoc } from './discovery';
 import { getNodeDoc } from './configuration';
-import { validateNodeDoc, validateWorkflowDoc } from './validation';
+import { validateNodeDoc, validateWorkflowDoc, simulateWorkflowDoc, runWorkflowTestsDoc } from './validation';
 import { getTemplateDoc, searchTemplatesDoc } from './templates';
 import {
   toolsDocumentationDoc,
@@ -22,7 +22,17 @@ import {
   n8nTestWorkflowDoc,
   n8nExecutionsDoc,
   n8nWorkflowVersionsDoc,
-  n8nDeployTemplateDoc
+  n8nDeployTemplateDoc,
+  n8nCredentialsDoc,
+  n8nTagsDoc,
+  n8nVariablesDoc,
+  n8nSourceControlDoc,
+  n8nExportWorkflowDoc,
+  n8nImportWorkflowDoc,
+  n8nWorkflowDependenciesDoc,
+  n8nBulkUpdateWorkflowsDoc,
+  n8nAuditInstanceDoc,
+  n8nPinDataDoc
 } from './workflow_management';
 
 // Combine all tool documentations into a single object
@@ -36,6 +46,7 @@ export const toolsDocumentation: Record<string, ToolDocumentation> = {
 
   // Discovery tools
   search_nodes: searchNodesDoc,
+  index_private_nodes: indexPrivateNodesDoc,
 
   // Configuration tools
   get_node: getNodeDoc,
@@ -43,6 +54,8 @@ export const toolsDocumentation: Record<string, ToolDocumentation> = {
   // Validation tools
   validate_node: validateNodeDoc,
   validate_workflow: validateWorkflowDoc,
+  simulate_workflow: simulateWorkflowDoc,
+  run_workflow_tests: runWorkflowTestsDoc,
 
   // Template tools
   get_template: getTemplateDoc,
@@ -60,7 +73,17 @@ export const toolsDocumentation: Record<string, ToolDocumentation> = {
   n8n_test_workflow: n8nTestWorkflowDoc,
   n8n_executions: n8nExecutionsDoc,
   n8n_workflow_versions: n8nWorkflowVersionsDoc,
-  n8n_deploy_template: n8nDeployTemplateDoc
+  n8n_deploy_template: n8nDeployTemplateDoc,
+  n8n_credentials: n8nCredentialsDoc,
+  n8n_tags: n8nTagsDoc,
+  n8n_variables: n8nVariablesDoc,
+  n8n_source_control: n8nSourceControlDoc,
+  n8n_export_workflow: n8nExportWorkflowDoc,
+  n8n_import_workflow: n8nImportWorkflowDoc,
+  n8n_workflow_dependencies: n8nWorkflowDependenciesDoc,
+  n8n_bulk_update_workflows: n8nBulkUpdateWorkflowsDoc,
+  n8n_audit_instance: n8nAuditInstanceDoc,
+  n8n_pin_data: n8nPinDataDoc
 };
 
 // Re-export types
@@ -4,12 +4,13 @@ export const searchTemplatesDoc: ToolDocumentation = {
   name: 'search_templates',
   category: 'templates',
   essentials: {
-    description: 'Unified template search with multiple modes: keyword search, by node types, by task type, or by metadata. 2,700+ templates available.',
+    description: 'Unified template search with multiple modes: keyword search, semantic search, by node types, by task type, or by metadata. 2,700+ templates available.',
     keyParameters: ['searchMode', 'query', 'nodeTypes', 'task', 'limit'],
     example: 'search_templates({searchMode: "by_task", task: "webhook_processing"})',
     performance: 'Fast (<100ms) - FTS5 full-text search',
     tips: [
       'searchMode="keyword" (default): Search by name/description',
+      'searchMode="semantic": Describe what the workflow should do in plain words',
       'searchMode="by_nodes": Find templates using specific nodes',
       'searchMode="by_task": Get curated templates for common tasks',
       'searchMode="by_metadata": Filter by complexity, services, audience'
@@ -18,6 +19,7 @@ export const searchTemplatesDoc: ToolDocumentation = {
   full: {
     description: `**Search Modes:**
 - keyword (default): Full-text search across template names and descriptions
+- semantic: Hybrid search combining BM25 keyword scores with the similarity of sentence embeddings (local all-MiniLM-L6-v2 model, opt-in - see search_nodes) over names, descriptions, used nodes and metadata. Weights: SEMANTIC_SEARCH_KEYWORD_WEIGHT / SEMANTIC_SEARCH_VECTOR_WEIGHT (default 0.4 / 0.6)
 - by_nodes: Find templates that use specific node types
 - by_task: Get curated templates for predefined task categories
 - by_metadata: Filter by complexity, setup time, required services, or target audience
@@ -28,12 +30,12 @@ ai_automation, data_sync, webhook_processing, email_automation, slack_integratio
       searchMode: {
         type: 'string',
         required: false,
-        description: 'Search mode: "keyword" (default), "by_nodes", "by_task", "by_metadata"'
+        description: 'Search mode: "keyword" (default), "semantic", "by_nodes", "by_task", "by_metadata"'
       },
       query: {
         type: 'string',
         required: false,
-        description: 'For searchMode=keyword: Search keywords (e.g., "chatbot", "automation")'
+        description: 'For searchMode=keyword: Search keywords (e.g., "chatbot", "automation"). For searchMode=semantic: Task description (e.g., "post new leads to our team chat")'
       },
       nodeTypes: {
         type: 'array',
@@ -78,7 +80,7 @@ ai_automation, data_sync, webhook_processing, email_automation, slack_integratio
       fields: {
         type: 'array',
         required: false,
-        description: 'For searchMode=keyword: Fields to include (id, name, description, author, nodes, views, created, url, metadata)'
+        description: 'For searchMode=keyword/semantic: Fields to include (id, name, description, author, nodes, views, created, url, metadata)'
       },
       limit: {
         type: 'number',
@@ -106,6 +108,7 @@ ai_automation, data_sync, webhook_processing, email_automation, slack_integratio
 - searchMode: The mode used`,
     examples: [
       '// Keyword search (default)\nsearch_templates({query: "chatbot"})',
+      '// Semantic search (best match first)\nsearch_templates({searchMode: "semantic", query: "save form submissions as spreadsheet rows"})',
       '// Find templates using specific nodes\nsearch_templates({searchMode: "by_nodes", nodeTypes: ["n8n-nodes-base.httpRequest", "n8n-nodes-base.slack"]})',
       '// Get templates for a task type\nsearch_templates({searchMode: "by_task", task: "webhook_processing"})',
       '// Filter by metadata\nsearch_templates({searchMode: "by_metadata", complexity: "simple", requiredService: "openai"})',
@@ -113,6 +116,7 @@ ai_automation, data_sync, webhook_processing, email_automation, slack_integratio
     ],
     useCases: [
       'Find workflows by business purpose (keyword search)',
+      'Find workflows from a plain-language description (semantic)',
       'Find templates using specific integrations (by_nodes)',
       'Get pre-built solutions for common tasks (by_task)',
       'Filter by complexity for team skill level (by_metadata)',
@@ -120,6 +124,7 @@ ai_automation, data_sync, webhook_processing, email_automation, slack_integratio
     ],
     performance: `Fast performance across all modes:
 - keyword: <50ms with FTS5 indexing
+- semantic: <100ms with precomputed vectors plus embedding the query (templates added since the last fetch are embedded in memory on the first query, not stored)
 - by_nodes: <100ms with indexed lookups
 - by_task: <50ms from curated cache
 - by_metadata: <100ms with filtered queries`,
@@ -127,6 +132,7 @@ ai_automation, data_sync, webhook_processing, email_automation, slack_integratio
       'Use searchMode="by_task" for common automation patterns',
       'Use searchMode="by_nodes" when you know which integrations you need',
       'Use searchMode="keyword" for general discovery',
+      'Use searchMode="semantic" when keywords miss, e.g. describing an outcome instead of naming services',
       'Combine by_metadata filters for precise matching',
       'Use get_template(id) to get the full workflow JSON'
     ],
@@ -1,2 +1,4 @@
 export { validateNodeDoc } from './validate-node';
 export { validateWorkflowDoc } from './validate-workflow';
+export { simulateWorkflowDoc } from './simulate-workflow';
+export { runWorkflowTestsDoc } from './run-workflow-tests';
@@ -0,0 +1,99 @@
+import { ToolDocumentation } from '../types';
+
+export const runWorkflowTestsDoc: ToolDocumentation = {
+  name: 'run_workflow_tests',
+  category: 'validation',
+  essentials: {
+    description: 'Run workflow unit tests (input items, node mocks, assertions on node/branch items) on the offline simulator. Pass a suite inline or a path to *.test.yaml/json files. Optional JUnit XML.',
+    keyParameters: ['suite', 'path', 'junit'],
+    example: 'run_workflow_tests({suite: {workflow: wf, tests: [{name: "big order", input: [{amount: 500}], expect: [{node: "Is Big", branch: "true", count: 1}]}]}})',
+    performance: 'Fast (<100ms per test)',
+    tips: [
+      'Mock external nodes by name: mocks: {"Fetch Customer": [{tier: "gold"}]}',
+      'Use branch: "true"/"false" (IF), the output key (Switch), "loop"/"done" or "error"',
+      'The same files run in CI with: npx n8n-mcp test ./workflows --junit report.xml'
+    ]
+  },
+  full: {
+    description: `Runs regression tests for workflows without an n8n instance. Tests execute on the simulate_workflow engine: pinned data is used for nodes without a mock, other external nodes pass their input through.
+
+**Suite format (YAML or JSON, files named *.test.yaml, *.test.yml or *.test.json):**
+\`\`\`yaml
+workflow: ./order-routing.json   # path relative to the file, or a workflow name in an export next to it
+usePinData: true                 # optional, default true
+tests:
+  - name: big orders go to the priority queue
+    input:                       # items output by the trigger
+      - amount: 500
+    mocks:                       # output items of named nodes
+      Fetch Customer:
+        - tier: gold
+    path: [Webhook, Is Big Order, Priority Queue]   # nodes that must run in this order
+    expect:
+      - node: Is Big Order
+        branch: "true"
+        count: 1
+      - node: Priority Queue
+        contains:
+          - amount: 500
+          - tier: gold
+      - node: Small Orders
+        executed: false
+  - name: invalid amount stops the workflow
+    input:
+      - amount: -1
+    error: Amount must be positive   # the run has to fail with this message
+\`\`\`
+
+**Assertions** check the items output by a node (all runs, or one run with run: N) on output 0 or the given branch:
+- count: exact number of items
+- items: exact list of item JSON
+- contains: each entry must partially match at least one item
+- every: every item must partially match
+- executed: whether the node ran
+
+**HTTP mode:** the tests run workflow code on the server, so the tool is only available with ENABLE_HTTP_SIMULATION=true (like simulate_workflow). Even then only inline suites are accepted.
+
+**CLI:** \`n8n-mcp test [paths...] [--junit <file>]\` runs all test files in the paths (default: current directory), prints a summary, writes JUnit XML and exits with 1 on failures.`,
+    parameters: {
+      suite: {
+        type: 'object',
+        required: false,
+        description: 'Inline test suite. Its workflow must be a workflow object, not a path'
+      },
+      path: {
+        type: 'string',
+        required: false,
+        description: 'Test file or directory on the server. Not available when the server runs in HTTP mode'
+      },
+      junit: {
+        type: 'boolean',
+        required: false,
+        description: 'Include the JUnit XML report as junitXml. Default: false'
+      }
+    },
+    returns: 'Object with success, total, passed, failed, errors (suites that failed to load), suites (per test: name, passed, failures, warnings; failed tests include the simulation result) and junitXml if requested',
+    examples: [
+      'run_workflow_tests({suite: {workflow: wf, tests: [{name: "routes EU", input: [{region: "eu"}], expect: [{node: "EU", count: 1}]}]}})',
+      'run_workflow_tests({path: "./workflows"}) - Run all test files in a directory (stdio mode)',
+      'run_workflow_tests({path: "./workflows/orders.test.yaml", junit: true}) - Get a JUnit XML report'
+    ],
+    useCases: [
+      'Regression-test routing logic before deploying workflow changes',
+      'Run workflow tests in CI pipelines without an n8n instance',
+      'Check that a refactored workflow still produces the same items'
+    ],
+    performance: 'Fast. Each test is one offline simulation.',
+    bestPractices: [
+      'Keep test files next to the workflow exports they test',
+      'Mock every node that calls an external service',
+      'Prefer contains/every over items so tests survive added fields'
+    ],
+    pitfalls: [
+      'YAML anchors, aliases and tags are not supported',
+      'Quote branch labels in YAML ("true"), otherwise they are booleans and must be strings or numbers',
+      'Simulator limits apply: no Python Code nodes, Luxon methods or binary data'
+    ],
+    relatedTools: ['simulate_workflow', 'validate_workflow', 'n8n_test_workflow']
+  }
+};
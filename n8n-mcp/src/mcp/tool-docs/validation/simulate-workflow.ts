@@ -0,0 +1,94 @@
+import { ToolDocumentation } from '../types';
+
+export const simulateWorkflowDoc: ToolDocumentation = {
+  name: 'simulate_workflow',
+  category: 'validation',
+  essentials: {
+    description: 'Dry-run a workflow offline against input items. Evaluates expressions, runs IF/Switch/Filter/Merge/Set/SplitInBatches/Aggregate/Sort/Limit/Code, stubs other nodes with fixtures. Returns per-node items and branches taken.',
+    keyParameters: ['workflow', 'inputItems', 'fixtures'],
+    example: 'simulate_workflow({workflow: {nodes: [...], connections: {...}}, inputItems: [{amount: 150}]})',
+    performance: 'Fast (<100ms for typical workflows)',
+    tips: [
+      'No n8n instance needed - use it to test routing logic in CI',
+      'Stub HTTP Request and other service nodes with fixtures: {"Fetch Order": [{"id": 1}]}',
+      'Check branches to see which IF/Switch outputs received items',
+      'Pinned data (pinData) is used for nodes without a fixture'
+    ]
+  },
+  full: {
+    description: `Executes a workflow locally without an n8n instance. The start node (the trigger by default) outputs the supplied input items, and items flow along main connections like in an n8n run.
+
+**Executed nodes:** IF, Switch, Filter, Merge, Set (Edit Fields), SplitInBatches (Loop Over Items), Aggregate, Sort, Limit, JavaScript Code, NoOp, Wait, Stop and Error. Conditions use strict type validation unless the node enables loose type validation, as in n8n.
+
+**Expressions:** $json, $input, $('Node').item/first()/last()/all(), $node, $items, $itemIndex, $runIndex, $workflow, $execution, $env, $vars, $now, $today, $if, $ifEmpty, $max, $min. $now and $today are plain Dates (no Luxon methods).
+
+**Stubs:** Any other node outputs its fixture, its pinned data, or passes its input through with a warning.
+
+**Code nodes** and expressions run in a separate V8 context without require, process, timers or network access. No server object enters the context - data is copied in and out as JSON - and the timeout includes promise callbacks. Memory is not limited, so in HTTP mode the tool is only available with ENABLE_HTTP_SIMULATION=true.
+
+**Errors:** Node errors stop the simulation unless the node's "On Error" setting continues (regular or error output).`,
+    parameters: {
+      workflow: {
+        type: 'object',
+        required: true,
+        description: 'The complete workflow JSON to simulate. Must include nodes array and connections object.'
+      },
+      inputItems: {
+        type: 'array',
+        required: false,
+        description: 'Items output by the start node, or received by it if it is not a trigger. Plain objects or {json} items. Default: [{}]'
+      },
+      startNode: {
+        type: 'string',
+        required: false,
+        description: 'Node name to start from. Default: the first trigger, or the first node without incoming connections'
+      },
+      fixtures: {
+        type: 'object',
+        required: false,
+        description: 'Output items of stubbed nodes by node name. An array of items sets output 0, an array of item arrays sets each output'
+      },
+      env: {
+        type: 'object',
+        required: false,
+        description: 'Values of $env'
+      },
+      variables: {
+        type: 'object',
+        required: false,
+        description: 'Values of $vars'
+      },
+      maxNodeRuns: {
+        type: 'number',
+        required: false,
+        description: 'Stop after this many node runs to guard against endless loops. Default: 1000'
+      }
+    },
+    returns: 'Object with success, startNode, executionOrder (node runs in order), branches (outputs of multi-output nodes that emitted items, with labels like "true"/"false"/"loop"/"done"/"error"), nodes (per node: runs with inputItemCounts and outputs, stubbed, logs, error), notExecuted, warnings and error ({node, message})',
+    examples: [
+      'simulate_workflow({workflow: wf, inputItems: [{amount: 500}, {amount: 5}]}) - Check which IF branch each item takes',
+      'simulate_workflow({workflow: wf, fixtures: {"Get Customer": [{id: 1, tier: "gold"}]}}) - Stub an HTTP Request node',
+      'simulate_workflow({workflow: wf, startNode: "Route Order", inputItems: [{region: "eu"}]}) - Start in the middle of a workflow',
+      'simulate_workflow({workflow: wf, fixtures: {"Check API": [[], [{status: 500}]]}}) - Send items to the second output of a stubbed node'
+    ],
+    useCases: [
+      'Unit-test IF/Switch routing before deployment',
+      'Check expressions and Set node output against sample data',
+      'Debug Merge and SplitInBatches loops without running the workflow',
+      'Test workflows in CI pipelines without an n8n instance'
+    ],
+    performance: 'Fast. Each expression and Code node run is limited to 1 second.',
+    bestPractices: [
+      'Validate with validate_workflow first, then simulate with realistic input items',
+      'Provide fixtures for every node that calls an external service',
+      'Assert on branches and per-node outputs rather than warnings'
+    ],
+    pitfalls: [
+      'Python Code nodes and external-service nodes are not executed - they pass their input through unless a fixture is given',
+      'Luxon DateTime methods on $now/$today (e.g. .toFormat()) are not available',
+      'Code nodes cannot await timers or network calls',
+      'Binary data is not simulated'
+    ],
+    relatedTools: ['validate_workflow', 'n8n_test_workflow', 'n8n_executions']
+  }
+};
@@ -75,6 +75,7 @@ export const validateWorkflowDoc: ToolDocumentation = {
     pitfalls: [
       'Large workflows (100+ nodes) may take longer to validate',
       'Expression validation requires proper node references to exist',
+      'Fields referenced in expressions are checked against pinData and trigger sample payloads; other nodes have unknown output and are not checked',
       'Some warnings may be acceptable depending on use case',
       'Validation cannot catch all runtime errors (e.g., API failures)',
       'Profile setting only affects node validation, not connection/expression checks'
@@ -10,3 +10,13 @@ export { n8nTestWorkflowDoc } from './n8n-test-workflow';
 export { n8nExecutionsDoc } from './n8n-executions';
 export { n8nWorkflowVersionsDoc } from './n8n-workflow-versions';
 export { n8nDeployTemplateDoc } from './n8n-deploy-template';
+export { n8nCredentialsDoc } from './n8n-credentials';
+export { n8nTagsDoc } from './n8n-tags';
+export { n8nVariablesDoc } from './n8n-variables';
+export { n8nSourceControlDoc } from './n8n-source-control';
+export { n8nExportWorkflowDoc } from './n8n-export-workflow';
+export { n8nImportWorkflowDoc } from './n8n-import-workflow';
+export { n8nWorkflowDependenciesDoc } from './n8n-workflow-dependencies';
+export { n8nBulkUpdateWorkflowsDoc } from './n8n-bulk-update-workflows';
+export { n8nAuditInstanceDoc } from './n8n-audit-instance';
+export { n8nPinDataDoc } from './n8n-pin-data';
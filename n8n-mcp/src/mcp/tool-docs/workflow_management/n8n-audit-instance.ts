@@ -0,0 +1,79 @@
+import { ToolDocumentation } from '../types';
+
+export const n8nAuditInstanceDoc: ToolDocumentation = {
+  name: 'n8n_audit_instance',
+  category: 'workflow_management',
+  essentials: {
+    description: 'Lint every workflow on the instance and return a ranked hygiene report with a health score, as JSON, markdown or SARIF.',
+    keyParameters: ['format', 'rules', 'recentFailureDays'],
+    example: 'n8n_audit_instance({format: "markdown"})',
+    performance: 'Slow on large instances - reads and validates every workflow',
+    tips: [
+      'Start with format="markdown" for a readable overview, use json or sarif for tracking',
+      'Limit rules (e.g. ["hardcoded-secret"]) for a quick targeted scan',
+      'Compare healthScore and fingerprints between runs to follow progress'
+    ]
+  },
+  full: {
+    description: `Runs WorkflowValidator plus instance-level lint rules over every workflow the API key can see (archived workflows are skipped).
+
+**Rules** (default severity):
+- validation-error (error) / validation-warning (warning): WorkflowValidator findings, runtime profile
+- outdated-type-version (info; warning with breaking changes): typeVersion behind the latest known version (NodeVersionService)
+- missing-error-workflow (warning): active workflow without error workflow, or pointing to one that does not exist
+- hardcoded-secret (error): API keys, tokens, bearer headers or literal password/secret parameters in node parameters. Values are masked in the report
+- unused-credential (info): credential no workflow references
+- duplicate-webhook-path (error when several are active, else warning): webhook nodes sharing method and path across workflows
+- inactive-with-recent-failures (warning): inactive workflow with failed executions within recentFailureDays
+- missing-tags (info): workflow without tags
+- missing-owner (info): no owner project (newer n8n versions) and no owner tag (ownerTagPrefix)
+
+**Ranking:** each workflow gets a score (error 10, warning 3, info 1); workflows are listed worst first, findings by severity and then workflow rank. healthScore is the share of workflows without errors or warnings (0-100).
+
+**SARIF:** one run of tool "n8n-mcp-audit" with all rules. Locations follow the n8n source control layout (workflows/<id>.json, credential_stubs/<id>.json) and each result has a stable partialFingerprints.auditFinding, so dashboards can track findings across runs.`,
+    parameters: {
+      format: { type: 'string', required: false, description: '"json", "markdown" or "sarif" (default: json)' },
+      rules: { type: 'array', required: false, description: 'Rule IDs to run (default: all)' },
+      recentFailureDays: { type: 'number', required: false, description: 'Failure window for inactive workflows, 1-90 days (default: 7)' },
+      ownerTagPrefix: { type: 'string', required: false, description: 'Tag prefix that names an owner (default: "owner:")' },
+      maxFindings: { type: 'number', required: false, description: 'Maximum findings listed; counts stay complete (default: 500)' }
+    },
+    returns: `json: { generatedAt, summary: {workflows, credentials, findings, bySeverity, byRule, healthScore}, workflows: [{id, name, active, score, errors, warnings, infos}], findings: [{ruleId, severity, message, workflowId?, workflowName?, nodeName?, credentialId?, fingerprint}], truncated }
+markdown: { summary, markdown }
+sarif: { summary, sarif } (SARIF 2.1.0 log object)`,
+    examples: [
+      '// Readable report\nn8n_audit_instance({format: "markdown"})',
+      '// Secret scan only\nn8n_audit_instance({rules: ["hardcoded-secret"]})',
+      '// SARIF for a code scanning dashboard\nn8n_audit_instance({format: "sarif"})',
+      '// Team ownership via tags like "team:payments"\nn8n_audit_instance({ownerTagPrefix: "team:"})'
+    ],
+    useCases: [
+      'Regular instance hygiene reviews by a platform team',
+      'Finding leaked API keys before exporting or sharing workflows',
+      'Planning node upgrades after an n8n update',
+      'Cleaning up unused credentials and abandoned workflows'
+    ],
+    performance: `Requests:
+- 1 list request per 100 workflows (plus 1 per workflow on n8n versions that list workflows without nodes)
+- 1 per 100 credentials (unused-credential)
+- Up to 10 pages of failed executions (inactive-with-recent-failures)
+Validation runs locally and takes roughly 10-50ms per workflow.`,
+    bestPractices: [
+      'Fix errors first - the ranked workflow list shows where they concentrate',
+      'Store the JSON or SARIF output to follow healthScore over time',
+      'Use n8n_bulk_update_workflows to fix the same finding across many workflows'
+    ],
+    pitfalls: [
+      'Requires N8N_API_URL and N8N_API_KEY configured',
+      'Only workflows and credentials visible to the API key are audited - a credential used by a hidden workflow shows as unused',
+      'Secret detection is pattern based; expressions ({{ }}) are never flagged',
+      'Older n8n versions return no sharing info, so only owner tags count there'
+    ],
+    relatedTools: [
+      'n8n_validate_workflow - Validate a single workflow',
+      'n8n_autofix_workflow - Fix validation issues of a workflow',
+      'n8n_bulk_update_workflows - Apply the same fix to many workflows',
+      'n8n_credentials - Inspect or delete unused credentials'
+    ]
+  }
+};
@@ -45,6 +45,7 @@ The auto-fixer can resolve:
    - Detects outdated node versions and recommends upgrades
    - Applies smart migrations with auto-migratable property changes
    - Handles breaking changes intelligently (Execute Workflow v1.0→v1.1, Webhook v2.0→v2.1, etc.)
+   - Changes of other versioned nodes are derived from the stored properties of each version: renamed and relocated properties are moved, removed ones left for manual review and changed defaults pinned to the old value
    - Generates UUIDs for required fields (webhookId), sets sensible defaults
    - HIGH confidence for non-breaking upgrades, MEDIUM for breaking changes with auto-migration
    - Example: Execute Workflow v1.0→v1.1 adds inputFieldMapping automatically
@@ -148,7 +149,8 @@ Requires N8N_API_URL and N8N_API_KEY environment variables to be configured.`,
       'NEW: Auto-migrated properties use sensible defaults which may not match your use case',
       'NEW: Execute Workflow v1.1+ requires explicit inputFieldMapping - automatic mapping uses empty array',
       'NEW: Some breaking changes cannot be auto-migrated and require manual intervention',
-      'NEW: Version history is based on registry - unknown nodes cannot be upgraded'
+      'NEW: Version history is based on the registry and stored node versions - unknown nodes cannot be upgraded',
+      'Renames are inferred from matching display names; type changes always need manual review'
     ],
     relatedTools: [
       'n8n_validate_workflow',
@@ -0,0 +1,82 @@
+import { ToolDocumentation } from '../types';
+
+export const n8nBulkUpdateWorkflowsDoc: ToolDocumentation = {
+  name: 'n8n_bulk_update_workflows',
+  category: 'workflow_management',
+  essentials: {
+    description: 'Apply diff operations or an autofix to every workflow matching a selector. Dry run by default; applied runs back up each workflow and can be rolled back as a whole.',
+    keyParameters: ['selector', 'operations', 'autofix', 'dryRun', 'bulkOperationId'],
+    example: 'n8n_bulk_update_workflows({selector: {nodeType: "n8n-nodes-base.httpRequest"}, operations: [{type: "updateNode", nodeName: "*", updates: {"parameters.url": "https://api.example.com/v2"}}]})',
+    performance: 'Network-dependent - reads every matching workflow, then 2 requests per changed workflow',
+    tips: [
+      'Review the dry run (default) before passing dryRun=false',
+      'nodeName "*" targets every node of selector.nodeType in each workflow',
+      'Keep the returned bulkOperationId - it is the only handle for action=rollback'
+    ]
+  },
+  full: {
+    description: `**Selector** (all given criteria must match; archived workflows are skipped):
+- ids: explicit workflow IDs
+- tags: workflows carrying all of these tags (case-insensitive)
+- namePattern: case-insensitive glob on the name, * matches anything
+- nodeType: workflows using this node type (full or short form)
+- active: only active or only inactive workflows
+
+**Changes** (exactly one):
+- operations: diff operations as in n8n_update_partial_workflow. An operation with nodeName "*" is repeated for every node of selector.nodeType; workflows where the operations expand to nothing are reported as unchanged
+- autofix: the fixes n8n_autofix_workflow would apply (fixTypes, confidenceThreshold, maxFixes)
+
+**Dry run** (default): every workflow is checked with validateOnly and reported as would_update, unchanged or failed. Nothing is saved.
+
+**Apply** (dryRun=false): each workflow is backed up, then updated through the same diff engine and validation as n8n_update_partial_workflow. A failed workflow is left untouched and its backup discarded; the other workflows continue. All backups of a run share one bulkOperationId.
+
+**Rollback** (action="rollback", bulkOperationId, dryRun=false): restores every workflow of the run to its backup. Each restore first backs up the current state, so a rollback can itself be undone via n8n_workflow_versions. A workflow whose versionId (or updatedAt) no longer matches the state the run left it in was edited afterwards; it is reported as conflict and left alone unless force=true. The dry run reports conflicts too.`,
+    parameters: {
+      action: { type: 'string', required: false, description: '"apply" or "rollback" (default: apply)' },
+      selector: { type: 'object', required: false, description: '{ids?, tags?, namePattern?, nodeType?, active?}; required for apply' },
+      operations: { type: 'array', required: false, description: 'Diff operations applied to every match' },
+      autofix: { type: 'object', required: false, description: '{fixTypes?, confidenceThreshold?, maxFixes?} to autofix every match instead' },
+      dryRun: { type: 'boolean', required: false, description: 'Report without saving (default: true)' },
+      concurrency: { type: 'number', required: false, description: 'Workflows processed in parallel, 1-10 (default: 3)' },
+      continueOnError: { type: 'boolean', required: false, description: 'Within a workflow, keep the operations that succeed (default: false)' },
+      createBackup: { type: 'boolean', required: false, description: 'Back up each workflow before changing it (default: true, required for rollback)' },
+      bulkOperationId: { type: 'string', required: false, description: 'Run to roll back (action=rollback)' },
+      force: { type: 'boolean', required: false, description: 'Roll back workflows edited after the run too (default: false)' }
+    },
+    returns: `apply: { bulkOperationId (when backups were made), dryRun, summary: {matched, updated, wouldUpdate, unchanged, failed}, results: [{workflowId, name, status, operations?, fixes?, backupVersionId?, error?, details?}] }
+rollback: { bulkOperationId, dryRun, summary: {workflows, restored, conflicts, failed}, results: [{workflowId, name, versionId, status, message?, current?}] }`,
+    examples: [
+      '// Preview a URL change in every workflow using the HTTP Request node\nn8n_bulk_update_workflows({\n  selector: {nodeType: "n8n-nodes-base.httpRequest", tags: ["billing"]},\n  operations: [{type: "updateNode", nodeName: "*", updates: {"parameters.url": "https://api.example.com/v2/invoices"}}]\n})',
+      '// Apply it\nn8n_bulk_update_workflows({selector: {...}, operations: [...], dryRun: false})',
+      '// Autofix all active workflows, high-confidence typeVersion fixes only\nn8n_bulk_update_workflows({\n  selector: {active: true},\n  autofix: {fixTypes: ["typeversion-correction"], confidenceThreshold: "high"},\n  dryRun: false\n})',
+      '// Undo a run\nn8n_bulk_update_workflows({action: "rollback", bulkOperationId: "3f2c...", dryRun: false})'
+    ],
+    useCases: [
+      'Changing an API URL or credential setting across many workflows',
+      'Replacing a deprecated node configuration everywhere it is used',
+      'Running autofix over a whole project after an n8n upgrade',
+      'Deactivating all workflows with a given tag'
+    ],
+    performance: `Requests:
+- Selection: 1 list request per 100 workflows (or 1 per ID with selector.ids)
+- Per workflow: 1 fetch and, when applied, 1 update
+- concurrency bounds parallel workflows; lower it for rate-limited instances`,
+    bestPractices: [
+      'Narrow the selector with tags or namePattern before a wide change',
+      'Start with the dry run and check failed entries',
+      'Leave createBackup on so the run can be rolled back'
+    ],
+    pitfalls: [
+      'Requires N8N_API_URL and N8N_API_KEY configured',
+      'Rollback with force=true overwrites changes made to the workflows after the run',
+      'Only the last 10 versions per workflow are kept; later edits can prune a run\'s backups',
+      'Backups are stored in the local database of this server, not in n8n'
+    ],
+    relatedTools: [
+      'n8n_update_partial_workflow - Same operations on a single workflow',
+      'n8n_autofix_workflow - Autofix a single workflow',
+      'n8n_workflow_versions - Inspect or restore individual backups',
+      'n8n_list_workflows - Explore workflows before building a selector'
+    ]
+  }
+};
@@ -0,0 +1,88 @@
+import { ToolDocumentation } from '../types';
+
+export const n8nCredentialsDoc: ToolDocumentation = {
+  name: 'n8n_credentials',
+  category: 'workflow_management',
+  essentials: {
+    description: 'Manage n8n credentials (list, get, create, update, delete), look up credential type schemas, and report which credentials a workflow needs. Secret data is never returned.',
+    keyParameters: ['action', 'id', 'type', 'data', 'workflowId'],
+    example: 'n8n_credentials({action: "requirements", workflowId: "abc123"})',
+    performance: 'Fast (50-200ms), requirements adds one workflow fetch',
+    tips: [
+      'action="requirements": find unassigned credentials before activating a workflow',
+      'action="schema" with type: see which data fields a credential type expects',
+      'action="create" pre-checks required fields against the schema',
+      'Responses only contain id, name, type and timestamps - never secrets'
+    ]
+  },
+  full: {
+    description: `**Actions:**
+- list: List credentials (metadata only), optionally filtered by type. n8n cannot filter by type, so with type the pages are read and filtered until at least limit credentials matched; as whole pages are returned, returned can exceed limit
+- get: Get credential metadata by ID
+- create: Create a credential from name, type and data
+- update: Rename a credential or replace its data
+- delete: Permanently delete a credential
+- schema: Get the data fields (JSON schema) of a credential type
+- requirements: Analyze a workflow and report credential types each node needs, which are assigned, and which existing credentials match
+
+**Secret handling:**
+Credential data is write-only. Every response is reduced to id, name, type, createdAt and updatedAt, regardless of what the n8n API returns.
+
+**Requirements analysis:**
+Uses the credential definitions of each node type from the node database. Credentials hidden by displayOptions (e.g. OAuth2 when authentication is set to API key) are skipped, and node parameter defaults are taken into account. Disabled nodes are ignored.`,
+    parameters: {
+      action: { type: 'string', required: true, description: 'Operation: "list", "get", "create", "update", "delete", "schema", or "requirements"' },
+      id: { type: 'string', required: false, description: 'Credential ID (required for get, update, delete)' },
+      name: { type: 'string', required: false, description: 'Credential name (required for create, optional for update)' },
+      type: { type: 'string', required: false, description: 'Credential type name like "slackApi" (required for create and schema, filter for list)' },
+      data: { type: 'object', required: false, description: 'Credential data fields (required for create, optional for update). Never returned.' },
+      workflowId: { type: 'string', required: false, description: 'Workflow ID (required for requirements)' },
+      limit: { type: 'number', required: false, description: 'For action=list: Number of results (1-100, default: 100)' },
+      cursor: { type: 'string', required: false, description: 'For action=list: Pagination cursor from previous response' }
+    },
+    returns: `Depends on action:
+- list: { credentials: [{id, name, type, createdAt, updatedAt}], returned, nextCursor, hasMore }
+- get/create/update: { id, name, type, createdAt, updatedAt }
+- delete: { success: boolean, message: string }
+- schema: { credentialType, fields: [{name, type, required, options?}], requiredFields, schema }
+- requirements: { requirements: [{nodeName, nodeType, credentialType, required, assigned}], credentialTypes: [{credentialType, nodes, availableCredentials?}], missing, summary }`,
+    examples: [
+      '// Which credentials does a workflow still need?\nn8n_credentials({action: "requirements", workflowId: "abc123"})',
+      '// Look up the fields of a credential type\nn8n_credentials({action: "schema", type: "slackApi"})',
+      '// Create a credential\nn8n_credentials({action: "create", name: "Slack Bot", type: "slackApi", data: {accessToken: "xoxb-..."}})',
+      '// List all Slack credentials\nn8n_credentials({action: "list", type: "slackApi"})',
+      '// Rotate a secret\nn8n_credentials({action: "update", id: "cred_1", data: {accessToken: "xoxb-new"}})',
+      '// Delete a credential\nn8n_credentials({action: "delete", id: "cred_1"})'
+    ],
+    useCases: [
+      'Wire credentials into agent-built workflows before activation',
+      'Check which existing credentials can be reused for a workflow',
+      'Discover the data fields a credential type expects',
+      'Rotate credential secrets without opening the n8n UI',
+      'Clean up unused credentials'
+    ],
+    performance: `Response times:
+- list/get/delete: 30-150ms
+- schema: 30-100ms
+- create: 60-250ms (includes schema pre-check)
+- requirements: 100-400ms (workflow fetch + credential list + local DB lookups)`,
+    bestPractices: [
+      'Run action="requirements" after creating or deploying a workflow',
+      'Use action="schema" before action="create" to build the data object',
+      'Assign credentials with n8n_update_partial_workflow updateNode: {credentials: {slackApi: {id, name}}}',
+      'Prefer reusing an existing credential listed in availableCredentials'
+    ],
+    pitfalls: [
+      'Requires N8N_API_URL and N8N_API_KEY configured',
+      'Listing credentials is not available on every n8n version - requirements then omits availableCredentials',
+      'Some n8n versions reject updates without the type field - pass type when updating data',
+      'Deleting a credential breaks every workflow that uses it',
+      'Community node credential types are only resolved when the node is in the node database'
+    ],
+    relatedTools: [
+      'n8n_update_partial_workflow - Assign credentials to nodes',
+      'n8n_deploy_template - Reports required credentials after deployment',
+      'get_node - Shows credential types a node supports'
+    ]
+  }
+};
@@ -10,18 +10,21 @@ export const n8nDeleteWorkflowDoc: ToolDocumentation = {
     performance: 'Fast (50-150ms)',
     tips: [
       'Action is irreversible',
+      'Warns when other workflows still call it - checkDependents: "refuse" keeps it instead',
       'Deletes all execution history',
       'Check workflow first with n8n_get_workflow({mode: "minimal"})'
     ]
   },
   full: {
-    description: 'Permanently deletes a workflow from n8n including all associated data, execution history, and settings. This is an irreversible operation that should be used with caution. The workflow must exist and the user must have appropriate permissions.',
+    description: 'Permanently deletes a workflow from n8n including all associated data, execution history, and settings. This is an irreversible operation that should be used with caution. The workflow must exist and the user must have appropriate permissions. Before deleting, the workflow is fetched; if it has an Execute Workflow Trigger, Error Trigger or legacy Start node, all workflows of the instance are scanned for callers (Execute Workflow nodes, workflow tools, error workflow setting). Workflows without such a trigger cannot be called, so the scan is skipped. By default the workflow is deleted and the callers are listed as a warning; with checkDependents "refuse" nothing is deleted and the error WORKFLOW_HAS_DEPENDENTS lists them in details.dependentWorkflows (DEPENDENTS_CHECK_FAILED if the scan failed). checkDependents "off" skips the scan.',
     parameters: {
-      id: { type: 'string', required: true, description: 'Workflow ID to delete permanently' }
+      id: { type: 'string', required: true, description: 'Workflow ID to delete permanently' },
+      checkDependents: { type: 'string', required: false, description: '"warn" (default), "refuse" or "off"' }
     },
-    returns: 'Minimal confirmation (id, name, deleted: true) for token efficiency.',
+    returns: 'Minimal confirmation (id, name, deleted: true) for token efficiency. dependentWorkflows lists workflows that still call the deleted one; dependentsCheckError is set when the scan failed.',
     examples: [
       'n8n_delete_workflow({id: "abc123"}) - Delete specific workflow',
+      'n8n_delete_workflow({id: "sub_456", checkDependents: "refuse"}) - Delete only if nothing calls it',
       'if (confirm) { n8n_delete_workflow({id: wf.id}); } // With confirmation'
     ],
     useCases: [
@@ -31,10 +34,11 @@ export const n8nDeleteWorkflowDoc: ToolDocumentation = {
       'Manage workflow limits',
       'Remove duplicates'
     ],
-    performance: 'Fast operation - typically 50-150ms. May take longer if workflow has extensive execution history.',
+    performance: 'Fast operation - typically 50-150ms. May take longer if workflow has extensive execution history. The dependents check adds one request to fetch the workflow and, for callable workflows, one list request per 100 workflows of the instance. Older n8n versions list workflows without nodes; then each workflow is fetched individually, and the check fails (DEPENDENTS_CHECK_FAILED with refuse, a warning otherwise) beyond 50 such workflows. Use checkDependents "off" on large instances when the scan is not needed.',
     bestPractices: [
       'Always confirm before deletion',
       'Check workflow with n8n_get_workflow({mode: "minimal"}) first',
+      'Check callers with n8n_workflow_dependencies({workflowId}) before deleting sub-workflows',
       'Consider deactivating instead of deleting',
       'Export workflow before deletion for backup'
     ],
@@ -43,8 +47,9 @@ export const n8nDeleteWorkflowDoc: ToolDocumentation = {
       'Cannot be undone - permanent deletion',
       'Deletes all execution history',
       'Active workflows can be deleted',
+      'The dependents check lists every workflow of the instance for sub-workflows and error workflows - slow on large instances',
       'No built-in confirmation'
     ],
-    relatedTools: ['n8n_get_workflow', 'n8n_list_workflows', 'n8n_update_partial_workflow', 'n8n_executions']
+    relatedTools: ['n8n_get_workflow', 'n8n_list_workflows', 'n8n_update_partial_workflow', 'n8n_executions', 'n8n_workflow_dependencies']
   }
 };
\ No newline at end of file
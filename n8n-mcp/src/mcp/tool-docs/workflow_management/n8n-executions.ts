@@ -4,7 +4,7 @@ export const n8nExecutionsDoc: ToolDocumentation = {
   name: 'n8n_executions',
   category: 'workflow_management',
   essentials: {
-    description: 'Manage workflow executions: get details, list, or delete. Unified tool for all execution operations.',
+    description: 'Manage workflow executions: get details, list, delete, retry, or re-run from the failed node. Unified tool for all execution operations.',
     keyParameters: ['action', 'id', 'workflowId', 'status', 'mode'],
     example: 'n8n_executions({action: "get", id: "exec_456", mode: "error"})',
     performance: 'Fast (50-200ms)',
@@ -12,6 +12,8 @@ export const n8nExecutionsDoc: ToolDocumentation = {
       'action="get": Get execution details by ID',
       'action="list": List executions with filters',
       'action="delete": Delete execution record',
+      'action="retry": Retry on n8n, loadWorkflow=true uses the current workflow version',
+      'action="rerun": Replay a failed execution offline from the failed node to check a fix',
       'Use mode="error" for efficient failure debugging (80-90% token savings)',
       'Use mode parameter for action=get to control detail level'
     ]
@@ -21,6 +23,8 @@ export const n8nExecutionsDoc: ToolDocumentation = {
 - get: Retrieve execution details by ID with configurable detail level
 - list: List executions with filtering and pagination
 - delete: Remove an execution record from history
+- retry: Retry a failed execution on n8n (POST /executions/{id}/retry)
+- rerun: Replay a failed execution offline, starting from the node that failed
 
 **Detail Modes for action="get":**
 - preview: Structure only, no data
@@ -34,10 +38,21 @@ export const n8nExecutionsDoc: ToolDocumentation = {
 - Samples input data from upstream node (configurable limit)
 - Shows execution path leading to error
 - Provides AI-friendly fix suggestions based on error patterns
-- Token-efficient (80-90% smaller than full mode)`,
+- Token-efficient (80-90% smaller than full mode)
+
+**Re-run from the failed node (action="rerun"):**
+- The outputs of every node upstream of the failed node are taken from the execution and pinned
+- The current workflow (or the patched one passed as workflow) is replayed by the offline simulator
+- External systems are not called again - nothing is triggered on n8n
+- verdict tells whether the fix works: passed, failed, not_reached or not_verifiable
+- Logic nodes (Code, Set, IF, Switch, Merge, ...) really run; nodes that call external services (HTTP Request, Slack, databases, ...) are stubbed and never run
+- A fix to an external-service node therefore cannot be verified by rerun: the verdict is not_verifiable and verified is false - retry with loadWorkflow=true instead
+- The response lists stubbedNodes and a limitation note whenever nodes were stubbed
+- Runs workflow code on the MCP server like simulate_workflow, so in HTTP mode it needs ENABLE_HTTP_SIMULATION=true
+- To replay on n8n instead, pin the same outputs with n8n_pin_data (source="execution") and run the workflow from the editor`,
     parameters: {
       action: { type: 'string', required: true, description: 'Operation: "get", "list", or "delete"' },
-      id: { type: 'string', required: false, description: 'Execution ID (required for action=get or action=delete)' },
+      id: { type: 'string', required: false, description: 'Execution ID (required for action=get, delete, retry or rerun)' },
       mode: { type: 'string', required: false, description: 'For action=get: "preview", "summary" (default), "filtered", "full", "error"' },
       nodeNames: { type: 'array', required: false, description: 'For action=get with mode=filtered: Filter to specific nodes by name' },
       itemsLimit: { type: 'number', required: false, description: 'For action=get with mode=filtered: Items per node (0=structure, 2=default, -1=unlimited)' },
@@ -51,13 +66,20 @@ export const n8nExecutionsDoc: ToolDocumentation = {
       limit: { type: 'number', required: false, description: 'For action=list: Number of results (1-100, default: 100)' },
       cursor: { type: 'string', required: false, description: 'For action=list: Pagination cursor from previous response' },
       projectId: { type: 'string', required: false, description: 'For action=list: Filter by project ID (enterprise)' },
-      includeData: { type: 'boolean', required: false, description: 'For action=list: Include execution data (default: false)' }
+      includeData: { type: 'boolean', required: false, description: 'For action=list: Include execution data (default: false)' },
+      loadWorkflow: { type: 'boolean', required: false, description: 'For action=retry: Run the current workflow version instead of the one the execution used (default: false)' },
+      fromNode: { type: 'string', required: false, description: 'For action=rerun: Node to replay (default: the node the execution failed at)' },
+      workflow: { type: 'object', required: false, description: 'For action=rerun: Patched workflow JSON to replay instead of the saved version' },
+      fixtures: { type: 'object', required: false, description: 'For action=rerun: Stubbed outputs by node name for nodes without recorded data' },
+      includePinData: { type: 'boolean', required: false, description: 'For action=rerun: Return the generated pinData (default: false)' }
     },
     returns: `Depends on action:
 - get (error mode): { errorInfo: { primaryError, upstreamContext, executionPath, suggestions }, summary }
 - get (other modes): Execution object with data based on mode
 - list: { data: [...executions], nextCursor?: string }
-- delete: { success: boolean, message: string }`,
+- delete: { success: boolean, message: string }
+- retry: { id, retryOf, workflowId, status, finished, startedAt, stoppedAt, usedCurrentWorkflow }
+- rerun: { fromNode, startNode, pinnedNodes, unpinnedNodes, verdict, verified, stubbedNodes?, limitation?, fromNodeResult, simulation, pinData? }`,
     examples: [
       '// Debug a failed execution (recommended for errors)\nn8n_executions({action: "get", id: "exec_456", mode: "error"})',
       '// Debug with more sample data from upstream\nn8n_executions({action: "get", id: "exec_456", mode: "error", errorItemsLimit: 5})',
@@ -68,7 +90,10 @@ export const n8nExecutionsDoc: ToolDocumentation = {
       '// Get execution summary\nn8n_executions({action: "get", id: "exec_456"})',
       '// Get full execution data\nn8n_executions({action: "get", id: "exec_456", mode: "full"})',
       '// Get specific nodes from execution\nn8n_executions({action: "get", id: "exec_456", mode: "filtered", nodeNames: ["HTTP Request", "Slack"]})',
-      '// Delete an execution\nn8n_executions({action: "delete", id: "exec_456"})'
+      '// Delete an execution\nn8n_executions({action: "delete", id: "exec_456"})',
+      '// Check a fix against the data of the failed execution\nn8n_executions({action: "rerun", id: "exec_456"})',
+      '// Check an unsaved patch, replaying a specific node\nn8n_executions({action: "rerun", id: "exec_456", fromNode: "Format Order", workflow: patchedWorkflow})',
+      '// Retry on n8n with the fixed workflow\nn8n_executions({action: "retry", id: "exec_456", loadWorkflow: true})'
     ],
     useCases: [
       'Debug workflow failures efficiently (mode=error) - 80-90% token savings',
@@ -78,6 +103,7 @@ export const n8nExecutionsDoc: ToolDocumentation = {
       'Monitor workflow health (list with status filter)',
       'Audit execution history',
       'Clean up old execution records',
+      'Close the loop from diagnose (mode=error) to patch to retry',
       'Analyze specific node outputs'
     ],
     performance: `Response times:
@@ -85,7 +111,9 @@ export const n8nExecutionsDoc: ToolDocumentation = {
 - get (preview/summary): 30-100ms
 - get (error): 50-200ms (includes optional workflow fetch)
 - get (full): 100-500ms+ depending on data size
-- delete: 30-80ms`,
+- delete: 30-80ms
+- retry: as long as the workflow run
+- rerun: 100-500ms (execution and workflow fetch plus local replay)`,
     bestPractices: [
       'Use mode="error" for debugging failed executions - 80-90% token savings vs full',
       'Use mode="summary" (default) for quick inspection',
@@ -93,15 +121,21 @@ export const n8nExecutionsDoc: ToolDocumentation = {
       'Filter by workflowId when listing to reduce results',
       'Use cursor for pagination through large result sets',
       'Set fetchWorkflow=false if you already know the workflow structure',
-      'Delete old executions to save storage'
+      'Delete old executions to save storage',
+      'Use action="rerun" after patching a Code or Set node before retrying on n8n'
     ],
     pitfalls: [
       'Requires N8N_API_URL and N8N_API_KEY configured',
       'mode="full" can return very large responses for complex workflows',
       'mode="error" fetches workflow by default (adds ~50-100ms), disable with fetchWorkflow=false',
       'Execution must exist or returns 404',
-      'Delete is permanent - cannot undo'
+      'Delete is permanent - cannot undo',
+      'retry calls external systems again - use rerun first when that matters',
+      'retry without loadWorkflow runs the workflow version the execution used, not your fix',
+      'rerun needs the execution data - enable saveDataErrorExecution on the workflow',
+      'rerun pins only output 0 of each node - branching nodes are recomputed from their inputs',
+      'rerun cannot verify fixes to HTTP Request or other external-service nodes - they are stubbed'
     ],
-    relatedTools: ['n8n_get_workflow', 'n8n_test_workflow', 'n8n_validate_workflow']
+    relatedTools: ['n8n_get_workflow', 'n8n_test_workflow', 'n8n_validate_workflow', 'n8n_update_partial_workflow', 'simulate_workflow']
   }
 };
@@ -0,0 +1,61 @@
+import { ToolDocumentation } from '../types';
+
+export const n8nExportWorkflowDoc: ToolDocumentation = {
+  name: 'n8n_export_workflow',
+  category: 'workflow_management',
+  essentials: {
+    description: 'Export a workflow as n8n JSON, YAML, or a bundle with its sub-workflows, credential placeholders and tags, with embedded secrets stripped.',
+    keyParameters: ['id', 'format', 'stripSecrets'],
+    example: 'n8n_export_workflow({id: "abc", format: "bundle"})',
+    performance: 'Fast (100-300ms), bundles add one request per sub-workflow',
+    tips: [
+      'Use format="bundle" to move a workflow together with the workflows it calls',
+      'Secrets are replaced with placeholders such as sk-YOUR_OPENAI_KEY_HERE by default',
+      'Credentials are exported as references (id, name, type) only - never their data'
+    ]
+  },
+  full: {
+    description: `**Formats:**
+- json: The workflow alone in n8n's own JSON shape (also importable in the n8n editor)
+- yaml: The same as json, written as YAML for readable diffs and code review
+- bundle: JSON containing the workflow, every sub-workflow reached through Execute Workflow and Call Workflow Tool nodes (recursively), the credentials they reference as placeholders, and their tags
+
+**Secret stripping:**
+API keys and tokens found in node parameters (OpenAI, GitHub, Airtable, Apify, Bearer tokens) are replaced with placeholders using the template sanitizer patterns. Only the number of stripped secrets is reported, never the values.
+
+Sub-workflows selected at runtime (expressions, URL, local file or inline JSON sources) cannot be resolved and are reported as warnings.`,
+    parameters: {
+      id: { type: 'string', required: true, description: 'Workflow ID to export' },
+      format: { type: 'string', required: false, description: 'Export format: "json", "yaml", or "bundle" (default: json)' },
+      stripSecrets: { type: 'boolean', required: false, description: 'Replace API keys and tokens with placeholders (default: true)' }
+    },
+    returns: '{ format, content, workflows: [{id, name}], credentials: [{id, name, type}], tags, secretsStripped, warnings }',
+    examples: [
+      '// Export a workflow and everything it calls\nn8n_export_workflow({id: "abc", format: "bundle"})',
+      '// YAML for code review\nn8n_export_workflow({id: "abc", format: "yaml"})',
+      '// Keep embedded secrets (backup within the same instance)\nn8n_export_workflow({id: "abc", stripSecrets: false})'
+    ],
+    useCases: [
+      'Promote a multi-workflow system from dev to prod',
+      'Store workflows in git as readable YAML',
+      'Share a workflow without leaking API keys'
+    ],
+    performance: `Response times:
+- json/yaml: 1 request
+- bundle: 1 request per workflow in the bundle`,
+    bestPractices: [
+      'Import with n8n_import_workflow, which remaps credentials and sub-workflow IDs',
+      'Check warnings for sub-workflows that could not be included',
+      'Check secretsStripped and set those values again on the target instance'
+    ],
+    pitfalls: [
+      'Requires N8N_API_URL and N8N_API_KEY configured',
+      'Secret detection is pattern based - secrets in unknown formats are not stripped',
+      'Pinned data and static data are not exported'
+    ],
+    relatedTools: [
+      'n8n_import_workflow - Import the exported content',
+      'n8n_get_workflow - Raw workflow JSON without stripping'
+    ]
+  }
+};
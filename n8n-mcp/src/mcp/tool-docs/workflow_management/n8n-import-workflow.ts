@@ -0,0 +1,69 @@
+import { ToolDocumentation } from '../types';
+
+export const n8nImportWorkflowDoc: ToolDocumentation = {
+  name: 'n8n_import_workflow',
+  category: 'workflow_management',
+  essentials: {
+    description: 'Import a workflow or bundle from n8n_export_workflow, remapping credentials by type and name, sub-workflow references and webhook IDs.',
+    keyParameters: ['content', 'workflow', 'mode', 'dryRun', 'matchCredentialsByType'],
+    example: 'n8n_import_workflow({content: "<exported bundle>", dryRun: true})',
+    performance: 'Medium (one write per workflow plus credential and tag lookups)',
+    tips: [
+      'Run with dryRun=true first to see which credentials will match',
+      'mode="upsert" updates workflows with the same name instead of creating copies',
+      'Accepts JSON or YAML, bundles or single workflows, including n8n editor downloads'
+    ]
+  },
+  full: {
+    description: `**What happens on import:**
+- Credentials: matched by type and name on the target instance. References without a match are removed and reported as missing. With matchCredentialsByType=true, a credential with no name match is bound to the target's only credential of that type (status matched_by_type, with a warning).
+- Sub-workflows: bundled workflows are created before the workflows that call them, and Execute Workflow / Call Workflow Tool references are pointed at the new IDs (cycles are fixed up after creation)
+- Webhooks: webhook IDs are regenerated (and webhook paths derived from them), so a copy never collides with the original. With mode="upsert", nodes keep the webhook ID they already have on the target.
+- Tags: missing tags are created and assigned to the imported workflows
+
+**Modes:**
+- create (default): always create new workflows
+- upsert: update workflows whose name matches, create the rest
+
+Imported workflows are inactive; activate them once credentials are configured.`,
+    parameters: {
+      content: { type: 'string', required: false, description: 'Exported workflow or bundle as JSON or YAML text' },
+      workflow: { type: 'object', required: false, description: 'Exported workflow or bundle as an object (alternative to content)' },
+      mode: { type: 'string', required: false, description: '"create" or "upsert" (default: create)' },
+      dryRun: { type: 'boolean', required: false, description: 'Resolve everything without writing (default: false)' },
+      matchCredentialsByType: { type: 'boolean', required: false, description: 'Fall back to the only credential of a type when none matches by name (default: false)' }
+    },
+    returns: '{ dryRun, workflows: [{sourceId, name, id, action, webhookIdsRegenerated}], credentials: [{type, name, sourceId, targetId, targetName, status}], tags: {assigned, created}, warnings }',
+    examples: [
+      '// Preview credential mapping\nn8n_import_workflow({content: bundle, dryRun: true})',
+      '// Import as new workflows\nn8n_import_workflow({content: bundle})',
+      '// Update the existing copies in prod\nn8n_import_workflow({content: bundle, mode: "upsert"})'
+    ],
+    useCases: [
+      'Promote workflows from dev to prod',
+      'Restore workflows from a git repository',
+      'Duplicate a multi-workflow system on the same instance'
+    ],
+    performance: `Requests:
+- 1 credential listing, 1 tag listing
+- 1 create or update per workflow (plus 1 read per updated workflow)
+- 1 tag assignment per workflow with tags`,
+    bestPractices: [
+      'Name credentials identically on every instance so they match by name',
+      'Use upsert for repeated promotions to keep workflow IDs and webhook URLs stable',
+      'Review warnings and missing credentials before activating'
+    ],
+    pitfalls: [
+      'Requires N8N_API_URL and N8N_API_KEY configured',
+      'upsert matches by workflow name - duplicate names on the target update the first match',
+      'Placeholders left by secret stripping must be replaced with real values',
+      'Status "unverified" means credentials could not be listed; references were kept as exported',
+      'matchCredentialsByType can bind a differently named credential (e.g. a production one) - check matched_by_type entries with dryRun first'
+    ],
+    relatedTools: [
+      'n8n_export_workflow - Produce the content to import',
+      'n8n_credentials - Create credentials reported as missing',
+      'n8n_update_partial_workflow - Activate the workflow after import'
+    ]
+  }
+};
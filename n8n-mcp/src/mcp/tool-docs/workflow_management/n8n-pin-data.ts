@@ -0,0 +1,85 @@
+import { ToolDocumentation } from '../types';
+
+export const n8nPinDataDoc: ToolDocumentation = {
+  name: 'n8n_pin_data',
+  category: 'workflow_management',
+  essentials: {
+    description: 'List, pin or unpin the pinned output data of workflow nodes. Items come from literal JSON, a past execution or a sample of the node\'s output shape.',
+    keyParameters: ['action', 'workflowId', 'nodeName', 'source', 'items', 'executionId'],
+    example: 'n8n_pin_data({action: "pin", workflowId: "abc", nodeName: "Get Orders", source: "execution", executionId: "exec_456"})',
+    performance: 'Fast (100-300ms)',
+    tips: [
+      'source="execution" copies real data a node produced - the most realistic pin',
+      'Pass workflow JSON instead of workflowId to prepare pins for simulate_workflow or run_workflow_tests',
+      'action="unpin" without nodeName removes all pinned data'
+    ]
+  },
+  full: {
+    description: `Pinned data replaces a node's output with fixed items. When a workflow is run from the n8n editor, pinned nodes are not executed, so no third-party API is called. The offline tools (simulate_workflow, run_workflow_tests, n8n_validate_workflow) use pinned data too.
+
+**Actions:**
+- list: Pinned nodes with item counts and top-level fields (includeItems=true adds the items)
+- pin: Set the pinned data of nodeName, replacing what was pinned before
+- unpin: Remove the pinned data of nodeName, or of every node if nodeName is omitted
+
+**Sources for action="pin":**
+- json: items as plain objects ([{orderId: 1}]) or n8n items ([{json: {orderId: 1}}]). A single object is one item
+- execution: the items a node output in a past execution. sourceNodeName defaults to nodeName; runIndex defaults to the last run, outputIndex to 0
+- schema: sampleCount items synthesized from the output shape inferred for the node (trigger sample payloads, Set fields, upstream pinned data) with placeholder values
+
+**Item format check:** every item must be an object; an item with a json key may only also have binary and pairedItem, and json must be an object. Binary data is dropped with a warning. Pinned data over 12 MB per workflow is rejected, as n8n does.
+
+**Target:** with workflowId the workflow is read from the instance and saved with the new pinned data. With workflow the given JSON is updated and returned; nothing is saved.`,
+    parameters: {
+      action: { type: 'string', required: true, description: '"list", "pin" or "unpin"' },
+      workflowId: { type: 'string', required: false, description: 'Workflow on the instance (this or workflow is required)' },
+      workflow: { type: 'object', required: false, description: 'Workflow JSON to edit locally instead' },
+      nodeName: { type: 'string', required: false, description: 'Node to pin/unpin (required for pin). For list: only this node' },
+      source: { type: 'string', required: false, description: 'For pin: "json" (default), "execution" or "schema"' },
+      items: { type: 'array', required: false, description: 'For source=json: plain objects or n8n items' },
+      executionId: { type: 'string', required: false, description: 'For source=execution: execution to copy from' },
+      sourceNodeName: { type: 'string', required: false, description: 'For source=execution: node to copy the output of (default: nodeName)' },
+      runIndex: { type: 'number', required: false, description: 'For source=execution: run of the node (default: last)' },
+      outputIndex: { type: 'number', required: false, description: 'For source=execution: output of the node (default: 0)' },
+      sampleCount: { type: 'number', required: false, description: 'For source=schema: items to synthesize, 1-100 (default: 1)' },
+      includeItems: { type: 'boolean', required: false, description: 'For list: include the pinned items (default: false)' }
+    },
+    returns: `list: { workflowId, nodes: [{nodeName, itemCount, fields, inWorkflow, items?}], sizeBytes }
+pin/unpin with workflowId: { workflowId, nodes, sizeBytes, warnings }
+pin/unpin with workflow: { workflow (with pinData), nodes, sizeBytes, warnings }
+Invalid items: { success: false, error: "Pinned data is not in n8n item format", details: { errors } }
+Not saved by n8n: { success: false, code: "PIN_DATA_NOT_SAVED", details: { workflowId, nodes, hint } }`,
+    examples: [
+      '// Pin literal items\nn8n_pin_data({action: "pin", workflowId: "abc", nodeName: "Get Orders", items: [{orderId: 1, total: 42}]})',
+      '// Pin what the node returned in a past execution\nn8n_pin_data({action: "pin", workflowId: "abc", nodeName: "Get Orders", source: "execution", executionId: "exec_456"})',
+      '// Pin a sample of the webhook payload shape\nn8n_pin_data({action: "pin", workflowId: "abc", nodeName: "Webhook", source: "schema"})',
+      '// Prepare a local workflow for simulate_workflow\nn8n_pin_data({action: "pin", workflow: myWorkflow, nodeName: "Slack", items: [{ok: true}]})',
+      '// What is pinned?\nn8n_pin_data({action: "list", workflowId: "abc"})',
+      '// Remove all pinned data before going live\nn8n_pin_data({action: "unpin", workflowId: "abc"})'
+    ],
+    useCases: [
+      'Testing workflows in the editor without hitting third-party APIs',
+      'Reproducing a failure with the exact data of a failed execution',
+      'Preparing deterministic fixtures for run_workflow_tests',
+      'Cleaning up forgotten pins'
+    ],
+    performance: 'One workflow read and one update; source=execution adds an execution read with data.',
+    bestPractices: [
+      'Prefer source="execution" over synthesized samples - real data catches real edge cases',
+      'Replace the placeholder values of source="schema" samples with realistic data',
+      'Check action="list" for inWorkflow=false entries left behind by renamed nodes'
+    ],
+    pitfalls: [
+      'workflowId mode requires N8N_API_URL and N8N_API_KEY configured',
+      'Some n8n versions do not accept pinned data through the public API: they reject the update, or drop the pinned data (PIN_DATA_NOT_SAVED) - edit the workflow JSON instead and import it',
+      'Pinned data only affects manual runs - production executions ignore it',
+      'A pinned node emits its items on output 0 only',
+      'Only JSON can be pinned; binary data is dropped'
+    ],
+    relatedTools: [
+      'n8n_executions - Find executions to copy data from, or rerun a failed one offline',
+      'simulate_workflow - Dry-run a workflow using its pinned data',
+      'run_workflow_tests - Test suites that use pinned data'
+    ]
+  }
+};
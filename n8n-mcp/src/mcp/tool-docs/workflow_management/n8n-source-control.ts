@@ -0,0 +1,69 @@
+import { ToolDocumentation } from '../types';
+
+export const n8nSourceControlDoc: ToolDocumentation = {
+  name: 'n8n_source_control',
+  category: 'workflow_management',
+  essentials: {
+    description: 'Check git source control status and pull or push workflow changes, with dry-run previews of what would change.',
+    keyParameters: ['action', 'dryRun', 'force', 'message', 'fileNames'],
+    example: 'n8n_source_control({action: "pull", dryRun: true})',
+    performance: 'Status 100-500ms, pull/push depend on repository size',
+    tips: [
+      'Always preview with dryRun=true before pull or push',
+      'force=true on pull overwrites local changes - dry-run lists what would be lost',
+      'push requires a commit message unless dryRun=true'
+    ]
+  },
+  full: {
+    description: `**Actions:**
+- status: Branch, ahead/behind counts and changed, conflicted or untracked files
+- pull: Pull the connected branch into the instance
+- push: Commit and push local changes
+
+**Dry runs:**
+dryRun=true only reads the status. A pull preview reports incoming commits, conflicts and the local changes that force=true would overwrite. A push preview lists the files that would be pushed (optionally narrowed by fileNames) and warns when the branch is behind.`,
+    parameters: {
+      action: { type: 'string', required: true, description: 'Operation: "status", "pull", or "push"' },
+      dryRun: { type: 'boolean', required: false, description: 'Preview pull/push without applying (default: false)' },
+      force: { type: 'boolean', required: false, description: 'For action=pull: overwrite local changes (default: false)' },
+      message: { type: 'string', required: false, description: 'For action=push: commit message (required unless dryRun)' },
+      fileNames: { type: 'array', required: false, description: 'For action=push: only push these files' }
+    },
+    returns: `Depends on action:
+- status: { branch, tracking, ahead, behind, created, modified, deleted, renamed, notAdded, conflicted }
+- pull (dryRun): { dryRun, wouldPull, incomingCommits, conflicts, localChanges, overwrittenByForce?, status }
+- push (dryRun): { dryRun, wouldPush, files, unchangedOrUnknownFiles?, behind, conflicts, status }
+- pull/push: the n8n result with pullResult/pushResult, files and conflicts`,
+    examples: [
+      '// What is pending?\nn8n_source_control({action: "status"})',
+      '// Preview a pull\nn8n_source_control({action: "pull", dryRun: true})',
+      '// Pull, overwriting local changes\nn8n_source_control({action: "pull", force: true})',
+      '// Preview a push\nn8n_source_control({action: "push", dryRun: true})',
+      '// Push selected files\nn8n_source_control({action: "push", message: "Update order sync", fileNames: ["workflows/abc.json"]})'
+    ],
+    useCases: [
+      'Promote workflows from development to production instances',
+      'Check for drift between an instance and its branch',
+      'Commit agent-made workflow changes with a meaningful message'
+    ],
+    performance: `Response times:
+- status and dry runs: 100-500ms
+- pull/push: 1-10s depending on repository size and remote latency`,
+    bestPractices: [
+      'Run status or a dry run before every pull/push',
+      'Pull before pushing when the branch is behind',
+      'Use fileNames to keep pushes focused'
+    ],
+    pitfalls: [
+      'Requires N8N_API_URL and N8N_API_KEY configured',
+      'Source control is an Enterprise feature and must be connected in the n8n settings',
+      'Read-only (protected) instances reject push',
+      'Pull with force=true discards local changes without backup'
+    ],
+    relatedTools: [
+      'n8n_workflow_versions - Local version history and rollback',
+      'n8n_tags - Organize workflows before pushing',
+      'n8n_variables - Environment-specific values'
+    ]
+  }
+};
@@ -0,0 +1,75 @@
+import { ToolDocumentation } from '../types';
+
+export const n8nTagsDoc: ToolDocumentation = {
+  name: 'n8n_tags',
+  category: 'workflow_management',
+  essentials: {
+    description: 'Manage workflow tags (list, create, rename, delete) and bulk assign or remove tags across many workflows in one call.',
+    keyParameters: ['action', 'tags', 'workflowIds', 'name', 'id'],
+    example: 'n8n_tags({action: "assign", tags: ["production"], workflowIds: ["abc", "def"]})',
+    performance: 'Fast (50-200ms), bulk actions add two calls per workflow',
+    tips: [
+      'assign/unassign accept tag IDs or names (case-insensitive)',
+      'assign creates missing tags by default - set createMissing=false to fail instead',
+      'Existing workflow tags are preserved - assign only adds, unassign only removes',
+      'Per-workflow results are returned; one failing workflow does not stop the rest'
+    ]
+  },
+  full: {
+    description: `**Actions:**
+- list: List tags with pagination
+- create: Create a tag by name
+- update: Rename a tag
+- delete: Delete a tag (it is removed from all workflows)
+- assign: Add tags to each workflow in workflowIds
+- unassign: Remove tags from each workflow in workflowIds
+
+**Bulk behavior:**
+For assign/unassign the current tags of every workflow are read first and merged with the requested change, so unrelated tags stay untouched. Workflows that already match are reported as unchanged and not written.`,
+    parameters: {
+      action: { type: 'string', required: true, description: 'Operation: "list", "create", "update", "delete", "assign", or "unassign"' },
+      id: { type: 'string', required: false, description: 'Tag ID (required for update, delete)' },
+      name: { type: 'string', required: false, description: 'Tag name (required for create, update)' },
+      tags: { type: 'array', required: false, description: 'Tag IDs or names (required for assign, unassign)' },
+      workflowIds: { type: 'array', required: false, description: 'Workflow IDs (required for assign, unassign)' },
+      createMissing: { type: 'boolean', required: false, description: 'For action=assign: create unknown tags (default: true)' },
+      limit: { type: 'number', required: false, description: 'For action=list: Number of results (1-100, default: 100)' },
+      cursor: { type: 'string', required: false, description: 'For action=list: Pagination cursor from previous response' }
+    },
+    returns: `Depends on action:
+- list: { tags: [{id, name, createdAt, updatedAt}], returned, nextCursor, hasMore }
+- create/update: { id, name, createdAt, updatedAt }
+- delete: { success: boolean, message: string }
+- assign/unassign: { tags: [{id, name}], createdTags?, unknownTags?, results: [{workflowId, success, changed, tags?, error?}], summary: {total, changed, unchanged, failed} }`,
+    examples: [
+      '// Tag several workflows, creating the tag if needed\nn8n_tags({action: "assign", tags: ["production"], workflowIds: ["abc", "def"]})',
+      '// Remove a tag from workflows\nn8n_tags({action: "unassign", tags: ["staging"], workflowIds: ["abc"]})',
+      '// List tags\nn8n_tags({action: "list"})',
+      '// Rename a tag\nn8n_tags({action: "update", id: "tag_1", name: "prod"})',
+      '// Delete a tag\nn8n_tags({action: "delete", id: "tag_1"})'
+    ],
+    useCases: [
+      'Organize workflows by environment, team or customer',
+      'Mark a batch of workflows for promotion between environments',
+      'Clean up obsolete tags'
+    ],
+    performance: `Response times:
+- list/create/update/delete: 30-150ms
+- assign/unassign: 1 tag listing + 2 requests per workflow`,
+    bestPractices: [
+      'Reference tags by name in assign/unassign - IDs differ between instances',
+      'Filter workflows by tag afterwards with n8n_list_workflows({tags: [...]})',
+      'Check summary.failed after bulk actions'
+    ],
+    pitfalls: [
+      'Requires N8N_API_URL and N8N_API_KEY configured',
+      'Deleting a tag removes it from every workflow',
+      'Tag names must be unique - create fails for an existing name',
+      'unassign ignores unknown tags instead of creating them'
+    ],
+    relatedTools: [
+      'n8n_list_workflows - Filter workflows by tag',
+      'n8n_source_control - Tags are part of what gets pushed'
+    ]
+  }
+};
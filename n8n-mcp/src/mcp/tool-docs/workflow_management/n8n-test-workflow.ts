@@ -4,26 +4,36 @@ export const n8nTestWorkflowDoc: ToolDocumentation = {
   name: 'n8n_test_workflow',
   category: 'workflow_management',
   essentials: {
-    description: 'Test/trigger workflow execution. Auto-detects trigger type (webhook/form/chat). Only workflows with these triggers can be executed externally.',
+    description: 'Test/trigger workflow execution. Auto-detects trigger type (webhook/form/chat/executeWorkflow/schedule/manual). Only workflows with these triggers can be executed externally.',
     keyParameters: ['workflowId', 'triggerType', 'data', 'message'],
     example: 'n8n_test_workflow({workflowId: "123"}) - auto-detect trigger',
     performance: 'Immediate trigger, response time depends on workflow complexity',
     tips: [
       'Auto-detects trigger type from workflow if not specified',
-      'Workflow must have a webhook, form, or chat trigger to be executable',
+      'Workflow must have a webhook, form, chat, execute workflow, schedule, or manual trigger to be executable',
       'For chat triggers, message is required',
-      'All trigger types require the workflow to be ACTIVE'
+      'Webhook, form, and chat triggers require the workflow to be ACTIVE',
+      'waitForCompletion=true returns the execution summary, also for webhooks that respond immediately'
     ]
   },
   full: {
     description: `Test and trigger n8n workflows through HTTP-based methods. This unified tool supports multiple trigger types:
 
 **Trigger Types:**
-- **webhook**: HTTP-based triggers (GET/POST/PUT/DELETE)
+- **webhook**: HTTP-based triggers (GET/POST/PUT/PATCH/DELETE/HEAD)
 - **form**: Form submission triggers
 - **chat**: AI chat triggers with conversation support
+- **executeWorkflow**: Sub-workflows with an Execute Workflow Trigger. data is the item the sub-workflow receives
+- **schedule**: Schedule Trigger (and legacy Cron/Interval). The trigger outputs the usual timestamp fields; data overrides or adds fields
+- **manual**: Manual Trigger (and legacy Start). The trigger outputs data as one item
 
-**Important:** n8n's public API does not support direct workflow execution. Only workflows with webhook, form, or chat triggers can be executed externally. Workflows with schedule, manual, or other trigger types cannot be triggered via this API.
+**Important:** n8n's public API does not support direct workflow execution. Webhook, form, and chat triggers are called on the ACTIVE workflow. The other trigger types are started through a temporary wrapper workflow with a webhook trigger, so the workflow does not need to be active:
+- executeWorkflow: a caller workflow (Webhook -> Execute Workflow node) runs the real workflow. Its execution is kept
+- schedule/manual: a copy of the workflow runs, named "[n8n-mcp test] <name>", with the trigger replaced by a Code node of the same name. Other triggers are left out of the copy
+
+The wrapper is deactivated right after its webhook was called, so it never stays reachable. It is then deleted together with its executions unless keepWrapper=true (the wrapper is kept, inactive). With waitForResponse=false, or when waitForCompletion times out, the run may still be in progress: the wrapper is deleted once its execution finished (metadata.wrapperRemovalScheduled), or left inactive if it does not finish within 2 minutes. metadata.wrapperWorkflowId, wrapperDeactivated and wrapperRemoved report it. For schedule/manual runs the execution belongs to the wrapper, so the returned executionId no longer exists once the wrapper is deleted - details.executionNote says so.
+
+**Waiting for completion:** waitForResponse only waits for the HTTP response, which tells nothing for webhooks that respond immediately (responseMode onReceived). With waitForCompletion=true the tool lists the workflow's executions before triggering, finds the new execution afterwards (executions that started more than 5 minutes before the trigger are skipped - the margin allows for the n8n server's clock being behind; queued executions are only taken once they have started; if several new ones appear, the oldest is taken and marked correlation=inferred), and polls it every 2 seconds until it finishes, stops at a Wait node or form, or completionTimeout passes. The result includes the execution ID and its summary (as n8n_executions with mode="summary"). If the client sent a progress token, progress notifications (notifications/progress) are sent while the trigger request is pending and on every poll, so long-running workflows don't look hung; on HTTP transport they are streamed on the tool call's response stream.
 
 The tool auto-detects the appropriate trigger type by analyzing the workflow's trigger node. You can override this with the triggerType parameter.`,
     parameters: {
@@ -35,13 +45,13 @@ The tool auto-detects the appropriate trigger type by analyzing the workflow's t
       triggerType: {
         type: 'string',
         required: false,
-        enum: ['webhook', 'form', 'chat'],
+        enum: ['webhook', 'form', 'chat', 'schedule', 'manual', 'executeWorkflow'],
         description: 'Trigger type. Auto-detected if not specified. Workflow must have matching trigger node.'
       },
       httpMethod: {
         type: 'string',
         required: false,
-        enum: ['GET', 'POST', 'PUT', 'DELETE'],
+        enum: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'HEAD'],
         description: 'For webhook: HTTP method (default: from workflow config or POST)'
       },
       webhookPath: {
@@ -62,7 +72,7 @@ The tool auto-detects the appropriate trigger type by analyzing the workflow's t
       data: {
         type: 'object',
         required: false,
-        description: 'Input data/payload for webhook or form fields'
+        description: 'Input data/payload for webhook, form fields, or the trigger output of executeWorkflow/schedule/manual'
       },
       headers: {
         type: 'object',
@@ -72,12 +82,27 @@ The tool auto-detects the appropriate trigger type by analyzing the workflow's t
       timeout: {
         type: 'number',
         required: false,
-        description: 'Timeout in ms (default: 120000)'
+        description: 'Timeout of the trigger request in ms (default: 120000)'
       },
       waitForResponse: {
         type: 'boolean',
         required: false,
-        description: 'Wait for workflow completion (default: true)'
+        description: 'Wait for the HTTP response of the trigger (default: true)'
+      },
+      waitForCompletion: {
+        type: 'boolean',
+        required: false,
+        description: 'Find the triggered execution and poll it until it finishes, waits, or times out (default: false)'
+      },
+      completionTimeout: {
+        type: 'number',
+        required: false,
+        description: 'With waitForCompletion: how long to wait for the execution to finish, in ms (default: 120000)'
+      },
+      keepWrapper: {
+        type: 'boolean',
+        required: false,
+        description: 'For schedule/manual/executeWorkflow: keep the temporary wrapper workflow (deactivated) and its executions (default: false)'
       }
     },
     returns: `Execution response including:
@@ -85,23 +110,35 @@ The tool auto-detects the appropriate trigger type by analyzing the workflow's t
 - data: workflow output data
 - executionId: for tracking/debugging
 - triggerType: detected or specified trigger type
-- metadata: timing and request details`,
+- metadata: timing and request details (wrapperWorkflowId, wrapperDeactivated, wrapperRemoved, wrapperRemovalScheduled for wrapper-based triggers)
+- completion (waitForCompletion only): { outcome: finished|waiting|timeout, correlation: reported|matched|inferred, status, elapsedMs, polls, execution: summary }
+- correlationNote: present when the execution was picked among several concurrent runs
+- executionNote (schedule/manual): set when the execution was (or will be) deleted with the wrapper workflow
+  A failed execution or a timeout returns success=false`,
     examples: [
       'n8n_test_workflow({workflowId: "123"}) - Auto-detect and trigger',
       'n8n_test_workflow({workflowId: "123", triggerType: "webhook", data: {name: "John"}}) - Webhook with data',
       'n8n_test_workflow({workflowId: "123", triggerType: "chat", message: "Hello AI"}) - Chat trigger',
-      'n8n_test_workflow({workflowId: "123", triggerType: "form", data: {email: "test@example.com"}}) - Form submission'
+      'n8n_test_workflow({workflowId: "123", triggerType: "form", data: {email: "test@example.com"}}) - Form submission',
+      'n8n_test_workflow({workflowId: "123", triggerType: "webhook", httpMethod: "PATCH", data: {status: "done"}}) - PATCH webhook',
+      'n8n_test_workflow({workflowId: "sub1", data: {customerId: 42}}) - Sub-workflow with Execute Workflow Trigger',
+      'n8n_test_workflow({workflowId: "456", triggerType: "schedule", keepWrapper: true}) - Run a scheduled workflow now, keep the copy for inspection',
+      'n8n_test_workflow({workflowId: "123", data: {orderId: 7}, waitForCompletion: true, completionTimeout: 300000}) - Wait up to 5 minutes for the execution result'
     ],
     useCases: [
       'Test workflows during development',
       'Trigger AI chat workflows with messages',
       'Submit form data to form-triggered workflows',
-      'Integrate n8n workflows with external systems via webhooks'
+      'Integrate n8n workflows with external systems via webhooks',
+      'Test sub-workflows with sample input items',
+      'Run scheduled or manual workflows on demand without activating them'
     ],
     performance: `Performance varies based on workflow complexity and waitForResponse setting:
 - Webhook: Immediate trigger, depends on workflow
 - Form: Immediate trigger, depends on workflow
-- Chat: May have additional AI processing time`,
+- Chat: May have additional AI processing time
+- Execute workflow/schedule/manual: Adds creating, activating, and deleting the wrapper workflow (a few API calls)
+- waitForCompletion: Adds one execution list call before the trigger and one call every 2 seconds until the execution is done`,
     errorHandling: `**Error Response with Execution Guidance**
 
 When execution fails, the response includes guidance for debugging:
@@ -114,21 +151,29 @@ When execution fails, the response includes guidance for debugging:
 
 **Common Errors:**
 - "Workflow not found" - Check workflow ID exists
-- "Workflow not active" - Activate workflow (required for all trigger types)
-- "Workflow cannot be triggered externally" - Workflow has no webhook/form/chat trigger
+- "Workflow not active" - Activate workflow (required for webhook, form, and chat triggers)
+- "Workflow cannot be triggered externally" - Workflow has no supported trigger
 - "Chat message required" - Provide message parameter for chat triggers
 - "SSRF protection" - URL validation failed`,
     bestPractices: [
       'Let auto-detection choose the trigger type when possible',
-      'Ensure workflow has a webhook, form, or chat trigger before testing',
+      'Ensure workflow has a supported trigger before testing',
       'For chat workflows, provide sessionId for multi-turn conversations',
       'Use mode="preview" with n8n_executions for efficient debugging',
       'Test with small data payloads first',
-      'Activate workflows before testing (use n8n_update_partial_workflow with activateWorkflow)'
+      'Activate webhook, form, and chat workflows before testing (use n8n_update_partial_workflow with activateWorkflow)',
+      'Use keepWrapper=true to inspect the execution of a schedule/manual copy with n8n_executions',
+      'Use waitForCompletion=true for webhooks that respond immediately or workflows that run long'
     ],
     pitfalls: [
-      'All trigger types require the workflow to be ACTIVE',
-      'Workflows without webhook/form/chat triggers cannot be executed externally',
+      'Webhook, form, and chat triggers require the workflow to be ACTIVE',
+      'Workflows without a supported trigger cannot be executed externally',
+      'Schedule/manual runs execute a copy: the execution belongs to the wrapper workflow and is deleted with it unless keepWrapper=true',
+      'executeWorkflow fails if the sub-workflow\'s callerPolicy does not allow calls from other workflows',
+      'Wrapper workflows kept after a failed cleanup are named "[n8n-mcp test] ..." - delete them manually',
+      'waitForCompletion picks the first execution that started after the trigger - concurrent runs of the same workflow can be mixed up',
+      'With waitForCompletion, a schedule/manual copy whose run outlasts completionTimeout is only deleted once the run finished',
+      'Executions are only found if the workflow saves them (saveDataSuccessExecution/saveDataErrorExecution not "none")',
       'Chat trigger requires message parameter',
       'Form data must match expected form fields',
       'Webhook method must match node configuration'
@@ -12,7 +12,8 @@ export const n8nUpdateFullWorkflowDoc: ToolDocumentation = {
       'Include intent parameter in every call - helps to return better responses',
       'Must provide complete workflow',
       'Use update_partial for small changes',
-      'Validate before updating'
+      'Validate before updating',
+      'Pass expectedVersionId from n8n_get_workflow to merge instead of overwriting concurrent edits'
     ]
   },
   full: {
@@ -23,14 +24,17 @@ export const n8nUpdateFullWorkflowDoc: ToolDocumentation = {
       nodes: { type: 'array', description: 'Complete array of workflow nodes (required if modifying structure)' },
       connections: { type: 'object', description: 'Complete connections object (required if modifying structure)' },
       settings: { type: 'object', description: 'Workflow settings to update (timezone, error handling, etc.)' },
-      intent: { type: 'string', description: 'Intent of the change - helps to return better response. Include in every tool call. Example: "Migrate workflow to new node versions".' }
+      intent: { type: 'string', description: 'Intent of the change - helps to return better response. Include in every tool call. Example: "Migrate workflow to new node versions".' },
+      expectedVersionId: { type: 'string', description: 'versionId of the workflow you edited (from n8n_get_workflow or a previous update). If the workflow changed since, your changes are three-way merged with the newer ones instead of overwriting them' },
+      expectedUpdatedAt: { type: 'string', description: 'updatedAt of the workflow you edited. Alternative to expectedVersionId' }
     },
-    returns: 'Minimal summary (id, name, active, nodeCount) for token efficiency. Use n8n_get_workflow with mode "structure" to verify current state if needed.',
+    returns: 'Minimal summary (id, name, active, nodeCount, versionId, updatedAt; merged=true if concurrent changes were merged) for token efficiency. Use n8n_get_workflow with mode "structure" to verify current state if needed. On conflicting concurrent changes returns code WORKFLOW_CONFLICT with details.conflicts (scope, type, node, path, base/ours/theirs) and saves nothing.',
     examples: [
       'n8n_update_full_workflow({id: "abc", intent: "Rename workflow for clarity", name: "New Name"}) - Rename with intent',
       'n8n_update_full_workflow({id: "abc", name: "New Name"}) - Rename only',
       'n8n_update_full_workflow({id: "xyz", intent: "Add error handling nodes", nodes: [...], connections: {...}}) - Full structure update',
-      'const wf = n8n_get_workflow({id}); wf.nodes.push(newNode); n8n_update_full_workflow({...wf, intent: "Add data processing node"}); // Add node'
+      'const wf = n8n_get_workflow({id}); wf.nodes.push(newNode); n8n_update_full_workflow({...wf, intent: "Add data processing node"}); // Add node',
+      'n8n_update_full_workflow({id: "xyz", nodes: [...], connections: {...}, expectedVersionId: wf.versionId}) - Merge with edits made since wf was fetched'
     ],
     useCases: [
       'Major workflow restructuring',
@@ -52,6 +56,8 @@ export const n8nUpdateFullWorkflowDoc: ToolDocumentation = {
       'Must include ALL nodes/connections',
       'Missing nodes will be deleted',
       'Can break active workflows',
+      'Without expectedVersionId/expectedUpdatedAt, concurrent edits (n8n UI, other agents) are overwritten',
+      'Merging needs the edited revision to have been read through n8n_get_workflow or written through n8n_update_* by this server; otherwise WORKFLOW_CONFLICT with reason base_unavailable is returned',
       'No partial updates - use update_partial instead'
     ],
     relatedTools: ['n8n_get_workflow', 'n8n_update_partial_workflow', 'validate_workflow', 'n8n_create_workflow']
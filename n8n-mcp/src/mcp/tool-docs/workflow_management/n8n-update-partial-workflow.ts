@@ -46,7 +46,7 @@ export const n8nUpdatePartialWorkflowDoc: ToolDocumentation = {
 - **replaceConnections**: Replace entire connections object
 
 ### Metadata Operations (4 types):
-- **updateSettings**: Modify workflow settings
+- **updateSettings**: Modify workflow settings (merged; replace: true replaces them, removing keys not given)
 - **updateName**: Rename the workflow
 - **addTag**: Add a workflow tag
 - **removeTag**: Remove a workflow tag
@@ -310,9 +310,11 @@ n8n_update_partial_workflow({
       },
       validateOnly: { type: 'boolean', description: 'If true, only validate operations without applying them' },
       continueOnError: { type: 'boolean', description: 'If true, apply valid operations even if some fail (best-effort mode). Returns applied and failed operation indices. Default: false (atomic)' },
-      intent: { type: 'string', description: 'Intent of the change - helps to return better response. Include in every tool call. Example: "Add error handling for API failures".' }
+      intent: { type: 'string', description: 'Intent of the change - helps to return better response. Include in every tool call. Example: "Add error handling for API failures".' },
+      expectedVersionId: { type: 'string', description: 'versionId of the workflow the operations were written against. If the workflow changed since, operations are applied to that revision and three-way merged with the newer changes' },
+      expectedUpdatedAt: { type: 'string', description: 'updatedAt of the workflow the operations were written against. Alternative to expectedVersionId' }
     },
-    returns: 'Minimal summary (id, name, active, nodeCount, operationsApplied) for token efficiency. Use n8n_get_workflow with mode "structure" to verify current state if needed. Returns validation results if validateOnly=true.',
+    returns: 'Minimal summary (id, name, active, nodeCount, operationsApplied, versionId, updatedAt; merged=true if concurrent changes were merged) for token efficiency. On conflicting concurrent changes returns code WORKFLOW_CONFLICT with details.conflicts and saves nothing. Use n8n_get_workflow with mode "structure" to verify current state if needed. Returns validation results if validateOnly=true.',
     examples: [
       '// Include intent parameter for better responses\nn8n_update_partial_workflow({id: "abc", intent: "Add error handling for API failures", operations: [{type: "addConnection", source: "HTTP Request", target: "Error Handler"}]})',
       '// Add a basic node (minimal configuration)\nn8n_update_partial_workflow({id: "abc", operations: [{type: "addNode", node: {name: "Process Data", type: "n8n-nodes-base.set", position: [400, 300], parameters: {}}}]})',
@@ -329,6 +331,7 @@ n8n_update_partial_workflow({
       '// Best-effort mode: apply what works, report what fails\nn8n_update_partial_workflow({id: "vwx", operations: [\n  {type: "updateName", name: "Fixed Workflow"},\n  {type: "removeConnection", source: "Broken", target: "Node"},\n  {type: "cleanStaleConnections"}\n], continueOnError: true})',
       '// Update node parameter\nn8n_update_partial_workflow({id: "yza", operations: [{type: "updateNode", nodeName: "HTTP Request", updates: {"parameters.url": "https://api.example.com"}}]})',
       '// Validate before applying\nn8n_update_partial_workflow({id: "bcd", operations: [{type: "removeNode", nodeName: "Old Process"}], validateOnly: true})',
+      '// Optimistic concurrency: merge with changes made since versionId "7f3c..." instead of clobbering them\nn8n_update_partial_workflow({id: "efg", expectedVersionId: "7f3c...", operations: [{type: "updateNode", nodeName: "HTTP Request", updates: {"parameters.url": "https://api.example.com/v2"}}]})',
       '\n// ============ AI CONNECTION EXAMPLES ============',
       '// Connect language model to AI Agent\nn8n_update_partial_workflow({id: "ai1", operations: [{type: "addConnection", source: "OpenAI Chat Model", target: "AI Agent", sourceOutput: "ai_languageModel"}]})',
       '// Connect tool to AI Agent\nn8n_update_partial_workflow({id: "ai2", operations: [{type: "addConnection", source: "HTTP Request Tool", target: "AI Agent", sourceOutput: "ai_tool"}]})',
@@ -378,6 +381,7 @@ n8n_update_partial_workflow({
       'Group related changes in one call',
       'Check operation order for dependencies',
       'Use atomic mode (default) for critical updates',
+      'Pass expectedVersionId when the workflow may also be edited in the n8n UI or by other agents',
       'For AI connections, always specify sourceOutput (ai_languageModel, ai_tool, ai_memory, etc.)',
       'Connect language model BEFORE adding AI Agent to ensure validation passes',
       'Use targetIndex for fallback models (primary=0, fallback=1)',
@@ -392,6 +396,7 @@ n8n_update_partial_workflow({
       '**REQUIRES N8N_API_URL and N8N_API_KEY environment variables** - will not work without n8n API access',
       'Atomic mode (default): all operations must succeed or none are applied',
       'continueOnError breaks atomic guarantees - use with caution',
+      'Merging with expectedVersionId needs that revision to have been read (n8n_get_workflow) or written (n8n_update_*) through this server; otherwise WORKFLOW_CONFLICT (reason base_unavailable) is returned and you must re-fetch',
       'Order matters for dependent operations (e.g., must add node before connecting to it)',
       'Node references accept ID or name, but name must be unique',
       'Node names with special characters (apostrophes, quotes) work correctly',
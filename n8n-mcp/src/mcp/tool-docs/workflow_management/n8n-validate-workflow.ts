@@ -11,7 +11,8 @@ export const n8nValidateWorkflowDoc: ToolDocumentation = {
     tips: [
       'Use options.profile to control validation strictness (minimal/runtime/ai-friendly/strict)',
       'Validation includes node configs, connections, and n8n expression syntax',
-      'Returns categorized errors, warnings, and actionable fix suggestions'
+      'Returns categorized errors, warnings, and actionable fix suggestions',
+      'Field references like $json.customer.email are checked against pinned data and the last successful execution'
     ]
   },
   full: {
@@ -21,6 +22,7 @@ export const n8nValidateWorkflowDoc: ToolDocumentation = {
 - Validates all node configurations based on their schemas
 - Checks workflow connections and data flow
 - Validates n8n expression syntax in all fields
+- Infers the data shape at each node (pinned data, last successful execution, trigger samples, Set fields) and flags expressions that reference fields which don't exist (warnings with code UNRESOLVED_FIELD_REFERENCE)
 - Returns categorized issues with fix suggestions
 
 The validation uses the same engine as validate_workflow but works with workflows already in n8n, making it perfect for validating existing workflows before execution.
@@ -35,7 +37,7 @@ Requires N8N_API_URL and N8N_API_KEY environment variables to be configured.`,
       options: {
         type: 'object',
         required: false,
-        description: 'Validation options: {validateNodes: bool (default true), validateConnections: bool (default true), validateExpressions: bool (default true), profile: "minimal"|"runtime"|"ai-friendly"|"strict" (default "runtime")}'
+        description: 'Validation options: {validateNodes: bool (default true), validateConnections: bool (default true), validateExpressions: bool (default true), profile: "minimal"|"runtime"|"ai-friendly"|"strict" (default "runtime"), useExecutionData: bool (default true) - load the last successful execution for data-shape checks}'
       }
     },
     returns: 'ValidationResult object containing isValid boolean, arrays of errors/warnings, and suggestions for fixes',
@@ -64,7 +66,8 @@ Requires N8N_API_URL and N8N_API_KEY environment variables to be configured.`,
       'Large workflows may take longer to validate',
       'Some warnings may be intentional (e.g., optional parameters)',
       'Profile affects validation time - strict is slower but more thorough',
-      'Expression validation may flag working but non-standard syntax'
+      'Expression validation may flag working but non-standard syntax',
+      'Data-shape warnings reflect the sampled data - a field missing from pinned data or the last execution may still appear for other items'
     ],
     relatedTools: ['validate_workflow', 'n8n_get_workflow', 'n8n_health_check', 'n8n_autofix_workflow']
   }
@@ -0,0 +1,63 @@
+import { ToolDocumentation } from '../types';
+
+export const n8nVariablesDoc: ToolDocumentation = {
+  name: 'n8n_variables',
+  category: 'workflow_management',
+  essentials: {
+    description: 'Manage n8n instance variables that workflows read through $vars.<key> expressions.',
+    keyParameters: ['action', 'key', 'value', 'id'],
+    example: 'n8n_variables({action: "create", key: "API_BASE_URL", value: "https://api.example.com"})',
+    performance: 'Fast (30-150ms)',
+    tips: [
+      'Reference variables in expressions as {{ $vars.KEY }}',
+      'Variables are read-only inside workflows - change them here',
+      'list returns an empty array when the license does not include variables'
+    ]
+  },
+  full: {
+    description: `**Actions:**
+- list: List all variables
+- create: Create a variable from key and value
+- update: Change the key and/or value of a variable
+- delete: Delete a variable
+
+Variables are instance-wide string values, typically used for environment-specific settings such as base URLs or feature flags.`,
+    parameters: {
+      action: { type: 'string', required: true, description: 'Operation: "list", "create", "update", or "delete"' },
+      id: { type: 'string', required: false, description: 'Variable ID (required for update, delete)' },
+      key: { type: 'string', required: false, description: 'Variable key (required for create, optional for update)' },
+      value: { type: 'string', required: false, description: 'Variable value (required for create, optional for update)' }
+    },
+    returns: `Depends on action:
+- list: { variables: [{id, key, value}], returned }
+- create/update: { id, key, value }
+- delete: { success: boolean, message: string }`,
+    examples: [
+      '// List variables\nn8n_variables({action: "list"})',
+      '// Create a variable\nn8n_variables({action: "create", key: "API_BASE_URL", value: "https://api.example.com"})',
+      '// Update a value\nn8n_variables({action: "update", id: "var_1", value: "https://staging.example.com"})',
+      '// Delete a variable\nn8n_variables({action: "delete", id: "var_1"})'
+    ],
+    useCases: [
+      'Keep environment-specific settings out of workflow definitions',
+      'Switch endpoints or flags for many workflows at once',
+      'Audit which variables an instance defines'
+    ],
+    performance: 'All actions: 30-150ms',
+    bestPractices: [
+      'Use UPPER_SNAKE_CASE keys',
+      'Store secrets in credentials, not variables - variable values are readable by all users',
+      'List variables before creating to avoid duplicate keys'
+    ],
+    pitfalls: [
+      'Requires N8N_API_URL and N8N_API_KEY configured',
+      'Variables require a license that includes them (Enterprise/Pro)',
+      'Values are always strings',
+      'Renaming a key breaks expressions that reference the old key'
+    ],
+    relatedTools: [
+      'n8n_credentials - Store secrets',
+      'n8n_source_control - Variables are part of what gets pushed'
+    ]
+  }
+};
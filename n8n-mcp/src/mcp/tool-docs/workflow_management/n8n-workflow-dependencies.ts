@@ -0,0 +1,66 @@
+import { ToolDocumentation } from '../types';
+
+export const n8nWorkflowDependenciesDoc: ToolDocumentation = {
+  name: 'n8n_workflow_dependencies',
+  category: 'workflow_management',
+  essentials: {
+    description: 'Dependency graph of cross-workflow calls on the instance: callers, callees, orphaned sub-workflows and transitive impact sets, as JSON or Mermaid.',
+    keyParameters: ['workflowId', 'format'],
+    example: 'n8n_workflow_dependencies({workflowId: "abc"})',
+    performance: 'Slow on large instances - reads every workflow (100 per request)',
+    tips: [
+      'Pass workflowId before changing or deleting a sub-workflow to see everything that depends on it',
+      'Use format="mermaid" to render the graph in markdown viewers',
+      'orphans lists sub-workflows (Execute Workflow Trigger) that nothing calls'
+    ]
+  },
+  full: {
+    description: `**Links detected:**
+- Execute Workflow nodes (n8n-nodes-base.executeWorkflow) with a database workflow ID
+- Call Workflow tools of AI agents (@n8n/n8n-nodes-langchain.toolWorkflow)
+- Error workflows configured in workflow settings
+
+Calls that pick the workflow at runtime (expressions, URL, local file or inline JSON sources) cannot be resolved and are listed under unresolved. Targets that no longer exist are listed under missing.
+
+**Without workflowId:** summary counts plus the graph (workflows with callers/callees, edges, orphans, missing, unresolved).
+
+**With workflowId:** direct callers and callees, and the transitive impact sets:
+- dependents: every workflow affected if this one changes or is deleted (callers of callers, with depth)
+- dependencies: every workflow this one needs to run (with depth)`,
+    parameters: {
+      workflowId: { type: 'string', required: false, description: 'Workflow to compute the impact for (default: whole instance)' },
+      format: { type: 'string', required: false, description: '"json" or "mermaid" (default: json)' }
+    },
+    returns: `Without workflowId:
+- json: { summary, workflows: [{id, name, active, isSubWorkflow, missing?, callers, callees}], edges: [{from, to, kind, nodeName?}], orphans, missing, unresolved }
+- mermaid: { summary, mermaid, orphans, missing, unresolved }
+With workflowId: { workflow, callers, callees, dependents: [{id, name, depth}], dependencies: [{id, name, depth}], unresolved, mermaid? }`,
+    examples: [
+      '// Whole instance as a Mermaid flowchart\nn8n_workflow_dependencies({format: "mermaid"})',
+      '// What breaks if this sub-workflow changes?\nn8n_workflow_dependencies({workflowId: "abc"})',
+      '// Find unused sub-workflows\nn8n_workflow_dependencies({}) // see orphans'
+    ],
+    useCases: [
+      'Impact analysis before changing a shared sub-workflow',
+      'Finding unused sub-workflows to clean up',
+      'Documenting multi-workflow systems',
+      'Choosing what to export together with n8n_export_workflow (format=bundle)'
+    ],
+    performance: `Requests:
+- 1 list request per 100 workflows
+- On n8n versions that list workflows without nodes, 1 extra request per workflow`,
+    bestPractices: [
+      'Check dependents before deleting or renaming inputs of a sub-workflow',
+      'Replace expression-based workflow IDs with fixed ones where possible so they show up in the graph'
+    ],
+    pitfalls: [
+      'Requires N8N_API_URL and N8N_API_KEY configured',
+      'Only workflows visible to the API key are scanned',
+      'Orphans may still be called by unresolved (runtime-selected) calls'
+    ],
+    relatedTools: [
+      'n8n_delete_workflow - Warns when other workflows still call the deleted one',
+      'n8n_export_workflow - Export a workflow with its sub-workflows'
+    ]
+  }
+};
@@ -4,19 +4,20 @@ export const n8nWorkflowVersionsDoc: ToolDocumentation = {
   name: 'n8n_workflow_versions',
   category: 'workflow_management',
   essentials: {
-    description: 'Manage workflow version history, rollback to previous versions, and cleanup old versions',
+    description: 'Manage workflow version history, rollback to previous versions, compare versions semantically, and cleanup old versions',
     keyParameters: ['mode', 'workflowId', 'versionId'],
     example: 'n8n_workflow_versions({mode: "list", workflowId: "abc123"})',
     performance: 'Fast for list/get (~100ms), moderate for rollback (~200-500ms)',
     tips: [
       'Use mode="list" to see all saved versions before rollback',
+      'mode="compare" with compareToLive shows what changed since a version',
       'Rollback creates a backup version automatically',
       'Use prune to clean up old versions and save storage',
       'truncate requires explicit confirmTruncate: true'
     ]
   },
   full: {
-    description: `Comprehensive workflow version management system. Supports six operations:
+    description: `Comprehensive workflow version management system. Supports seven operations:
 
 **list** - Show version history for a workflow
 - Returns all saved versions with timestamps, snapshot sizes, and metadata
@@ -41,13 +42,18 @@ export const n8nWorkflowVersionsDoc: ToolDocumentation = {
 
 **truncate** - Delete ALL versions for ALL workflows
 - Dangerous operation requiring explicit confirmation
-- Use for complete version history cleanup`,
+- Use for complete version history cleanup
+
+**compare** - Semantic diff between a version and another version or the live workflow
+- Lists added, removed and renamed nodes, parameter changes per node (with paths), connection changes and settings changes
+- format: markdown (default), semantic (structured diff), json_patch (RFC 6902), operations (n8n_update_partial_workflow operations) or all
+- The diff goes from versionId to the other side; reverse=true swaps them, so operations restore the version onto the live workflow`,
     parameters: {
       mode: {
         type: 'string',
         required: true,
-        description: 'Operation mode: "list", "get", "rollback", "delete", "prune", or "truncate"',
-        enum: ['list', 'get', 'rollback', 'delete', 'prune', 'truncate']
+        description: 'Operation mode: "list", "get", "rollback", "delete", "prune", "truncate", or "compare"',
+        enum: ['list', 'get', 'rollback', 'delete', 'prune', 'truncate', 'compare']
       },
       workflowId: {
         type: 'string',
@@ -57,7 +63,30 @@ export const n8nWorkflowVersionsDoc: ToolDocumentation = {
       versionId: {
         type: 'number',
         required: false,
-        description: 'Version ID (required for get mode, optional for rollback to specific version, required for single delete)'
+        description: 'Version ID (required for get and compare modes, optional for rollback to specific version, required for single delete)'
+      },
+      compareToVersionId: {
+        type: 'number',
+        required: false,
+        description: 'Other version of the same workflow to compare with (compare mode)'
+      },
+      compareToLive: {
+        type: 'boolean',
+        required: false,
+        description: 'Compare with the current workflow on the n8n instance (compare mode)'
+      },
+      reverse: {
+        type: 'boolean',
+        required: false,
+        default: false,
+        description: 'Swap diff direction (compare mode)'
+      },
+      format: {
+        type: 'string',
+        required: false,
+        default: 'markdown',
+        description: 'Compare output: "markdown", "semantic", "json_patch", "operations", or "all"',
+        enum: ['markdown', 'semantic', 'json_patch', 'operations', 'all']
       },
       limit: {
         type: 'number',
@@ -112,7 +141,12 @@ export const n8nWorkflowVersionsDoc: ToolDocumentation = {
 - remainingCount: Number of versions kept
 
 **truncate mode:**
-- deletedCount: Total versions deleted across all workflows`,
+- deletedCount: Total versions deleted across all workflows
+
+**compare mode:**
+- base, target: Labels ("v3", "live") and version IDs of both sides
+- hasChanges, summary: Counts of added/removed/renamed/modified nodes, connection and settings changes
+- markdown / diff / jsonPatch / operations: Depending on format`,
     examples: [
       '// List version history\nn8n_workflow_versions({mode: "list", workflowId: "abc123", limit: 5})',
       '// Get specific version details\nn8n_workflow_versions({mode: "get", versionId: 42})',
@@ -121,7 +155,10 @@ export const n8nWorkflowVersionsDoc: ToolDocumentation = {
       '// Delete specific version\nn8n_workflow_versions({mode: "delete", workflowId: "abc123", versionId: 42})',
       '// Delete all versions for workflow\nn8n_workflow_versions({mode: "delete", workflowId: "abc123", deleteAll: true})',
       '// Prune to keep only 5 most recent\nn8n_workflow_versions({mode: "prune", workflowId: "abc123", maxVersions: 5})',
-      '// Truncate all versions (dangerous!)\nn8n_workflow_versions({mode: "truncate", confirmTruncate: true})'
+      '// Truncate all versions (dangerous!)\nn8n_workflow_versions({mode: "truncate", confirmTruncate: true})',
+      '// What changed since version 42?\nn8n_workflow_versions({mode: "compare", versionId: 42, compareToLive: true})',
+      '// Operations that restore version 42 onto the live workflow\nn8n_workflow_versions({mode: "compare", versionId: 42, compareToLive: true, reverse: true, format: "operations"})',
+      '// JSON Patch between two stored versions\nn8n_workflow_versions({mode: "compare", versionId: 41, compareToVersionId: 42, format: "json_patch"})'
     ],
     useCases: [
       'Recover from accidental workflow changes',
@@ -136,7 +173,8 @@ export const n8nWorkflowVersionsDoc: ToolDocumentation = {
 - rollback: Moderate (~200-500ms) - includes backup creation and workflow update
 - delete: Fast (~50-100ms) - database delete operation
 - prune: Moderate (~100-300ms) - depends on number of versions to delete
-- truncate: Slow (1-5s) - deletes all records across all workflows`,
+- truncate: Slow (1-5s) - deletes all records across all workflows
+- compare: Fast (~50-150ms) for stored versions, plus one workflow fetch with compareToLive`,
     modeComparison: `| Mode | Required Params | Optional Params | Risk Level |
 |------|-----------------|-----------------|------------|
 | list | workflowId | limit | Low |
@@ -144,20 +182,24 @@ export const n8nWorkflowVersionsDoc: ToolDocumentation = {
 | rollback | workflowId | versionId, validateBefore | Medium |
 | delete | workflowId | versionId, deleteAll | High |
 | prune | workflowId | maxVersions | Medium |
-| truncate | confirmTruncate=true | - | Critical |`,
+| truncate | confirmTruncate=true | - | Critical |
+| compare | versionId + compareToVersionId or compareToLive | reverse, format | Low |`,
     bestPractices: [
       'Always list versions before rollback to pick the right one',
       'Enable validateBefore for rollback to catch structural issues',
       'Use prune regularly to keep version history manageable',
       'Never use truncate in production without explicit need',
-      'Document why you are rolling back for audit purposes'
+      'Document why you are rolling back for audit purposes',
+      'Compare with the live workflow before rollback to see what will be lost',
+      'Replay selected changes with format="operations" instead of a full rollback'
     ],
     pitfalls: [
       'Rollback overwrites current workflow - backup is created automatically',
       'Deleted versions cannot be recovered',
       'Truncate affects ALL workflows - use with extreme caution',
       'Version IDs are sequential but may have gaps after deletes',
-      'Large workflows may have significant version storage overhead'
+      'Large workflows may have significant version storage overhead',
+      'compare operations replace connections wholesale when a link between two nodes cannot be removed individually'
     ],
     relatedTools: [
       'n8n_get_workflow - View current workflow state',
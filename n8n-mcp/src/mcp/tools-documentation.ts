@@ -102,10 +102,11 @@ When working with Code nodes, always start by calling the relevant guide:
    - validate_node({nodeType: "nodes-base.slack", config: {...}}) - Full validation with errors/warnings/suggestions
    - validate_workflow({workflow: {...}}) - Validate entire workflow
 
-## Tool Categories (19 Tools Total)
+## Tool Categories (32 Tools Total)
 
-**Discovery Tools** (1 tool)
+**Discovery Tools** (2 tools)
 - search_nodes - Full-text search across all nodes (supports OR, AND, FUZZY modes)
+- index_private_nodes - Index in-house node packages from local directories or tarballs (source='private')
 
 **Configuration Tools** (1 consolidated tool)
 - get_node - Unified node information tool:
@@ -114,9 +115,11 @@ When working with Code nodes, always start by calling the relevant guide:
   - mode='search_properties': Find specific properties
   - mode='versions'/'compare'/'breaking'/'migrations': Version management
 
-**Validation Tools** (2 tools)
+**Validation Tools** (4 tools)
 - validate_node - Unified validation with mode='full' or mode='minimal'
 - validate_workflow - Complete workflow validation (nodes, connections, expressions)
+- simulate_workflow - Offline dry-run with input items and fixtures, returns per-node items and branches taken
+- run_workflow_tests - Run workflow unit tests (inputs, mocks, assertions) on the simulator, optional JUnit XML
 
 **Template Tools** (2 tools)
 - get_template - Get complete workflow JSON by ID
@@ -126,7 +129,7 @@ When working with Code nodes, always start by calling the relevant guide:
   - searchMode='by_task': Curated task-based templates
   - searchMode='by_metadata': Filter by complexity/services
 
-**n8n API Tools** (13 tools, requires N8N_API_URL configuration)
+**n8n API Tools** (23 tools, requires N8N_API_URL configuration)
 - n8n_create_workflow - Create new workflows
 - n8n_get_workflow - Get workflow with mode='full'/'details'/'structure'/'minimal'
 - n8n_update_full_workflow - Full workflow replacement
@@ -135,15 +138,25 @@ When working with Code nodes, always start by calling the relevant guide:
 - n8n_list_workflows - List workflows with filters
 - n8n_validate_workflow - Validate workflow by ID
 - n8n_autofix_workflow - Auto-fix common issues
-- n8n_test_workflow - Test/trigger workflows (webhook, form, chat, execute)
-- n8n_executions - Unified execution management (action='get'/'list'/'delete')
+- n8n_test_workflow - Test/trigger workflows (webhook, form, chat, execute workflow, schedule, manual)
+- n8n_executions - Unified execution management (action='get'/'list'/'delete'/'retry'/'rerun')
 - n8n_health_check - Check n8n API connectivity
 - n8n_workflow_versions - Version history and rollback
 - n8n_deploy_template - Deploy templates directly to n8n instance
+- n8n_credentials - Credential management and workflow credential requirements (secrets never returned)
+- n8n_tags - Tag CRUD and bulk assign/unassign across workflows
+- n8n_variables - Instance variables ($vars) CRUD
+- n8n_source_control - Git status, pull and push with dry-run previews
+- n8n_export_workflow - Export as JSON, YAML or a bundle with sub-workflows, secrets stripped
+- n8n_import_workflow - Import with credential, sub-workflow and webhook ID remapping
+- n8n_workflow_dependencies - Cross-workflow call graph, orphaned sub-workflows and impact sets (JSON or Mermaid)
+- n8n_bulk_update_workflows - Diff operations or autofix across all workflows matching a selector, with dry run and rollback
+- n8n_audit_instance - Instance-wide lint and hygiene report (JSON, markdown or SARIF)
+- n8n_pin_data - List, pin or unpin node output data from JSON, past executions or inferred samples
 
 ## Performance Characteristics
 - Instant (<10ms): search_nodes, get_node (minimal/standard)
-- Fast (<100ms): validate_node, get_template
+- Fast (<100ms): validate_node, get_template, simulate_workflow
 - Moderate (100-500ms): validate_workflow, get_node (full detail)
 - Network-dependent: All n8n_* tools
 
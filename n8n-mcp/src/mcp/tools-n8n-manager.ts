@@ -129,6 +129,14 @@ export const n8nManagementTools: ToolDefinition[] = [
         settings: { 
           type: 'object', 
           description: 'Workflow settings to update' 
+        },
+        expectedVersionId: {
+          type: 'string',
+          description: 'versionId of the workflow you edited. If it changed since, changes are three-way merged; conflicts are reported instead of overwritten'
+        },
+        expectedUpdatedAt: {
+          type: 'string',
+          description: 'updatedAt of the workflow you edited (alternative to expectedVersionId)'
         }
       },
       required: ['id']
@@ -167,6 +175,14 @@ export const n8nManagementTools: ToolDefinition[] = [
         continueOnError: {
           type: 'boolean',
           description: 'If true, apply valid operations even if some fail (best-effort mode). Returns applied and failed operation indices. Default: false (atomic)'
+        },
+        expectedVersionId: {
+          type: 'string',
+          description: 'versionId the operations were written against. If the workflow changed since, changes are three-way merged; conflicts are reported instead of overwritten'
+        },
+        expectedUpdatedAt: {
+          type: 'string',
+          description: 'updatedAt the operations were written against (alternative to expectedVersionId)'
         }
       },
       required: ['id', 'operations']
@@ -188,6 +204,11 @@ export const n8nManagementTools: ToolDefinition[] = [
         id: { 
           type: 'string', 
           description: 'Workflow ID to delete' 
+        },
+        checkDependents: {
+          type: 'string',
+          enum: ['warn', 'refuse', 'off'],
+          description: 'warn: delete and list workflows that still call this one; refuse: do not delete if any do (or the check fails); off: skip the check (default: warn). The check costs one request for the workflow and, if it has an Execute Workflow or Error Trigger, one per 100 workflows of the instance'
         }
       },
       required: ['id']
@@ -269,6 +290,10 @@ export const n8nManagementTools: ToolDefinition[] = [
               type: 'string',
               enum: ['minimal', 'runtime', 'ai-friendly', 'strict'],
               description: 'Validation profile to use (default: runtime)'
+            },
+            useExecutionData: {
+              type: 'boolean',
+              description: 'Use the output of the last successful execution to check that fields referenced in expressions exist (default: true)'
             }
           }
         }
@@ -328,7 +353,7 @@ export const n8nManagementTools: ToolDefinition[] = [
   // Execution Management Tools
   {
     name: 'n8n_test_workflow',
-    description: `Test/trigger workflow execution. Auto-detects trigger type (webhook/form/chat). Supports: webhook (HTTP), form (fields), chat (message). Note: Only workflows with these trigger types can be executed externally.`,
+    description: `Test/trigger workflow execution. Auto-detects trigger type (webhook/form/chat/executeWorkflow/schedule/manual). Supports: webhook (HTTP), form (fields), chat (message), executeWorkflow/schedule/manual (data, run through a temporary webhook wrapper workflow). Note: Only workflows with these trigger types can be executed externally.`,
     inputSchema: {
       type: 'object',
       properties: {
@@ -338,13 +363,13 @@ export const n8nManagementTools: ToolDefinition[] = [
         },
         triggerType: {
           type: 'string',
-          enum: ['webhook', 'form', 'chat'],
+          enum: ['webhook', 'form', 'chat', 'schedule', 'manual', 'executeWorkflow'],
           description: 'Trigger type. Auto-detected if not specified. Workflow must have a matching trigger node.'
         },
         // Webhook options
         httpMethod: {
           type: 'string',
-          enum: ['GET', 'POST', 'PUT', 'DELETE'],
+          enum: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'HEAD'],
           description: 'For webhook: HTTP method (default: from workflow config or POST)'
         },
         webhookPath: {
@@ -371,11 +396,24 @@ export const n8nManagementTools: ToolDefinition[] = [
         },
         timeout: {
           type: 'number',
-          description: 'Timeout in ms (default: 120000)'
+          description: 'Timeout of the trigger request in ms (default: 120000)'
         },
         waitForResponse: {
           type: 'boolean',
-          description: 'Wait for workflow completion (default: true)'
+          description: 'Wait for the HTTP response of the trigger (default: true)'
+        },
+        waitForCompletion: {
+          type: 'boolean',
+          description: 'Find the triggered execution and poll it until it finishes, waits, or times out; returns its summary (default: false)'
+        },
+        completionTimeout: {
+          type: 'number',
+          description: 'With waitForCompletion: how long to wait for the execution to finish, in ms (default: 120000)'
+        },
+        // Wrapper options
+        keepWrapper: {
+          type: 'boolean',
+          description: 'For schedule/manual/executeWorkflow: keep the temporary wrapper workflow (deactivated) and its executions (default: false)'
         }
       },
       required: ['workflowId']
@@ -389,19 +427,19 @@ export const n8nManagementTools: ToolDefinition[] = [
   },
   {
     name: 'n8n_executions',
-    description: `Manage workflow executions: get details, list, or delete. Use action='get' with id for execution details, action='list' for listing executions, action='delete' to remove execution record.`,
+    description: `Manage workflow executions: get details, list, delete, retry, or re-run from the failed node. Use action='get' with id for execution details, action='list' for listing executions, action='delete' to remove execution record, action='retry' to retry on n8n, action='rerun' to replay a failed execution offline with the recorded upstream data pinned. Rerun only runs logic nodes (Code, Set, IF, Switch, Merge, ...); nodes that call external services (HTTP Request, Slack, ...) are stubbed, so fixes to them cannot be verified by rerun - use action='retry'.`,
     inputSchema: {
       type: 'object',
       properties: {
         action: {
           type: 'string',
-          enum: ['get', 'list', 'delete'],
-          description: 'Operation: get=get execution details, list=list executions, delete=delete execution'
+          enum: ['get', 'list', 'delete', 'retry', 'rerun'],
+          description: 'Operation: get=get execution details, list=list executions, delete=delete execution, retry=retry execution on n8n, rerun=replay failed execution offline from the failed node'
         },
-        // For action='get' and action='delete'
+        // For action='get', 'delete', 'retry' and 'rerun'
         id: {
           type: 'string',
-          description: 'Execution ID (required for action=get or action=delete)'
+          description: 'Execution ID (required for action=get, delete, retry or rerun)'
         },
         // For action='get' - detail level
         mode: {
@@ -464,6 +502,28 @@ export const n8nManagementTools: ToolDefinition[] = [
         includeData: {
           type: 'boolean',
           description: 'For action=list: include execution data (default: false)'
+        },
+        // For action='retry'
+        loadWorkflow: {
+          type: 'boolean',
+          description: 'For action=retry: run the current workflow version instead of the one the execution used (default: false)'
+        },
+        // For action='rerun'
+        fromNode: {
+          type: 'string',
+          description: 'For action=rerun: node to replay (default: the node the execution failed at)'
+        },
+        workflow: {
+          type: 'object',
+          description: 'For action=rerun: patched workflow JSON to replay instead of the saved version'
+        },
+        fixtures: {
+          type: 'object',
+          description: 'For action=rerun: stubbed outputs by node name for nodes without recorded data'
+        },
+        includePinData: {
+          type: 'boolean',
+          description: 'For action=rerun: return the generated pinData (default: false)'
         }
       },
       required: ['action']
@@ -476,6 +536,181 @@ export const n8nManagementTools: ToolDefinition[] = [
     },
   },
 
+  // Credential Management Tools
+  {
+    name: 'n8n_credentials',
+    description: `Manage n8n credentials without exposing secrets. Actions: list, get, create, update, delete, schema (fields for a credential type), requirements (credential types a workflow's nodes need and which are unassigned). Secret data is never returned.`,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        action: {
+          type: 'string',
+          enum: ['list', 'get', 'create', 'update', 'delete', 'schema', 'requirements'],
+          description: 'Operation: list/get/create/update/delete credentials, schema=data fields for a credential type, requirements=credentials needed by a workflow'
+        },
+        id: {
+          type: 'string',
+          description: 'Credential ID (required for action=get, update, delete)'
+        },
+        name: {
+          type: 'string',
+          description: 'For action=create/update: credential display name'
+        },
+        type: {
+          type: 'string',
+          description: 'Credential type name, e.g. "slackApi" (required for action=create and action=schema, optional filter for action=list, applied before pagination)'
+        },
+        data: {
+          type: 'object',
+          description: 'For action=create/update: credential data fields (see action=schema). Never returned in responses.'
+        },
+        workflowId: {
+          type: 'string',
+          description: 'For action=requirements: workflow to analyze'
+        },
+        limit: {
+          type: 'number',
+          description: 'For action=list: number of credentials to return (1-100, default: 100)'
+        },
+        cursor: {
+          type: 'string',
+          description: 'For action=list: pagination cursor from previous response'
+        }
+      },
+      required: ['action']
+    },
+    annotations: {
+      title: 'Manage Credentials',
+      readOnlyHint: false,
+      destructiveHint: true,
+      openWorldHint: true,
+    },
+  },
+
+  // Tag, Variable and Source Control Tools
+  {
+    name: 'n8n_tags',
+    description: `Manage workflow tags. Actions: list, create, update (rename), delete, assign/unassign (bulk add or remove tags on multiple workflows). Tags can be referenced by ID or name; assign creates missing tags unless createMissing=false.`,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        action: {
+          type: 'string',
+          enum: ['list', 'create', 'update', 'delete', 'assign', 'unassign'],
+          description: 'Operation to perform'
+        },
+        id: {
+          type: 'string',
+          description: 'Tag ID (required for action=update, delete)'
+        },
+        name: {
+          type: 'string',
+          description: 'Tag name (required for action=create, update)'
+        },
+        tags: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'For action=assign/unassign: tag IDs or names'
+        },
+        workflowIds: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'For action=assign/unassign: workflows to update'
+        },
+        createMissing: {
+          type: 'boolean',
+          description: 'For action=assign: create tags that do not exist yet (default: true)'
+        },
+        limit: {
+          type: 'number',
+          description: 'For action=list: number of tags to return (1-100, default: 100)'
+        },
+        cursor: {
+          type: 'string',
+          description: 'For action=list: pagination cursor from previous response'
+        }
+      },
+      required: ['action']
+    },
+    annotations: {
+      title: 'Manage Tags',
+      readOnlyHint: false,
+      destructiveHint: true,
+      openWorldHint: true,
+    },
+  },
+  {
+    name: 'n8n_variables',
+    description: `Manage n8n instance variables (referenced in expressions as $vars.<key>). Actions: list, create, update, delete. Requires a license that includes variables.`,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        action: {
+          type: 'string',
+          enum: ['list', 'create', 'update', 'delete'],
+          description: 'Operation to perform'
+        },
+        id: {
+          type: 'string',
+          description: 'Variable ID (required for action=update, delete)'
+        },
+        key: {
+          type: 'string',
+          description: 'Variable key (required for action=create, optional for update)'
+        },
+        value: {
+          type: 'string',
+          description: 'Variable value (required for action=create, optional for update)'
+        }
+      },
+      required: ['action']
+    },
+    annotations: {
+      title: 'Manage Variables',
+      readOnlyHint: false,
+      destructiveHint: true,
+      openWorldHint: true,
+    },
+  },
+  {
+    name: 'n8n_source_control',
+    description: `Git-based source control for n8n environments (Enterprise). Actions: status, pull, push. Use dryRun=true to preview what a pull or push would change before running it.`,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        action: {
+          type: 'string',
+          enum: ['status', 'pull', 'push'],
+          description: 'Operation to perform'
+        },
+        dryRun: {
+          type: 'boolean',
+          description: 'For action=pull/push: preview changes without applying them (default: false)'
+        },
+        force: {
+          type: 'boolean',
+          description: 'For action=pull: overwrite local changes (default: false)'
+        },
+        message: {
+          type: 'string',
+          description: 'For action=push: commit message (required unless dryRun=true)'
+        },
+        fileNames: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'For action=push: limit the push to these files (default: all changes)'
+        }
+      },
+      required: ['action']
+    },
+    annotations: {
+      title: 'Source Control',
+      readOnlyHint: false,
+      destructiveHint: true,
+      openWorldHint: true,
+    },
+  },
+
   // System Tools
   {
     name: 'n8n_health_check',
@@ -504,19 +739,20 @@ export const n8nManagementTools: ToolDefinition[] = [
   },
   {
     name: 'n8n_workflow_versions',
-    description: `Manage workflow version history, rollback, and cleanup. Six modes:
+    description: `Manage workflow version history, rollback, comparison, and cleanup. Seven modes:
 - list: Show version history for a workflow
 - get: Get details of specific version
 - rollback: Restore workflow to previous version (creates backup first)
 - delete: Delete specific version or all versions for a workflow
 - prune: Manually trigger pruning to keep N most recent versions
-- truncate: Delete ALL versions for ALL workflows (requires confirmation)`,
+- truncate: Delete ALL versions for ALL workflows (requires confirmation)
+- compare: Semantic diff of a version against another version or the live workflow (markdown, JSON Patch, or n8n_update_partial_workflow operations)`,
     inputSchema: {
       type: 'object',
       properties: {
         mode: {
           type: 'string',
-          enum: ['list', 'get', 'rollback', 'delete', 'prune', 'truncate'],
+          enum: ['list', 'get', 'rollback', 'delete', 'prune', 'truncate', 'compare'],
           description: 'Operation mode'
         },
         workflowId: {
@@ -525,7 +761,24 @@ export const n8nManagementTools: ToolDefinition[] = [
         },
         versionId: {
           type: 'number',
-          description: 'Version ID (required for get mode and single version delete, optional for rollback)'
+          description: 'Version ID (required for get, compare and single version delete, optional for rollback)'
+        },
+        compareToVersionId: {
+          type: 'number',
+          description: 'For compare mode: other version of the same workflow'
+        },
+        compareToLive: {
+          type: 'boolean',
+          description: 'For compare mode: compare against the current workflow on the n8n instance'
+        },
+        reverse: {
+          type: 'boolean',
+          description: 'For compare mode: swap sides. Default diff is version → other; reverse=true gives other → version, whose operations restore the version'
+        },
+        format: {
+          type: 'string',
+          enum: ['markdown', 'semantic', 'json_patch', 'operations', 'all'],
+          description: 'For compare mode: output format (default: markdown). operations = n8n_update_partial_workflow operations'
         },
         limit: {
           type: 'number',
@@ -602,5 +855,283 @@ export const n8nManagementTools: ToolDefinition[] = [
       destructiveHint: false,
       openWorldHint: true,
     },
+  },
+
+  // Workflow Import/Export Tools
+  {
+    name: 'n8n_export_workflow',
+    description: `Export a workflow to move it to another n8n instance. Formats: json (n8n JSON), yaml, bundle (workflow plus sub-workflows called by Execute Workflow nodes, credential placeholders and tags). Embedded API keys and tokens are replaced with placeholders unless stripSecrets=false. Import the result with n8n_import_workflow.`,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        id: {
+          type: 'string',
+          description: 'Workflow ID to export'
+        },
+        format: {
+          type: 'string',
+          enum: ['json', 'yaml', 'bundle'],
+          description: 'Export format (default: json)'
+        },
+        stripSecrets: {
+          type: 'boolean',
+          description: 'Replace API keys and tokens in node parameters with placeholders (default: true)'
+        }
+      },
+      required: ['id']
+    },
+    annotations: {
+      title: 'Export Workflow',
+      readOnlyHint: true,
+      idempotentHint: true,
+      openWorldHint: true,
+    },
+  },
+  {
+    name: 'n8n_import_workflow',
+    description: `Import a workflow or bundle produced by n8n_export_workflow (JSON or YAML, or n8n's own JSON). Credentials are remapped to the target instance by type and name, sub-workflow references to the imported copies, webhook IDs are regenerated and missing tags created. Use dryRun=true to preview credential matches first.`,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        content: {
+          type: 'string',
+          description: 'Exported workflow or bundle as JSON or YAML text'
+        },
+        workflow: {
+          type: 'object',
+          description: 'Exported workflow or bundle as an object (alternative to content)'
+        },
+        mode: {
+          type: 'string',
+          enum: ['create', 'upsert'],
+          description: 'create: always create new workflows; upsert: update workflows with the same name, keeping their webhook IDs (default: create)'
+        },
+        dryRun: {
+          type: 'boolean',
+          description: 'Report credential matches, target workflows and tags without changing anything (default: false)'
+        },
+        matchCredentialsByType: {
+          type: 'boolean',
+          description: 'When no credential matches by name, use the only credential of that type on the target instance (default: false)'
+        }
+      }
+    },
+    annotations: {
+      title: 'Import Workflow',
+      readOnlyHint: false,
+      destructiveHint: false,
+      openWorldHint: true,
+    },
+  },
+
+  // Workflow Dependency Tool
+  {
+    name: 'n8n_workflow_dependencies',
+    description: `Map which workflows call which across the instance (Execute Workflow nodes, Call Workflow tools of AI agents, error workflows). Without workflowId: full graph with orphaned sub-workflows and missing targets. With workflowId: direct callers/callees and transitive impact sets. format=mermaid adds a Mermaid flowchart.`,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        workflowId: {
+          type: 'string',
+          description: 'Workflow to compute callers, callees and transitive impact for (default: whole instance)'
+        },
+        format: {
+          type: 'string',
+          enum: ['json', 'mermaid'],
+          description: 'json: graph as nodes and edges; mermaid: Mermaid flowchart with summary (default: json)'
+        }
+      }
+    },
+    annotations: {
+      title: 'Workflow Dependencies',
+      readOnlyHint: true,
+      idempotentHint: true,
+      openWorldHint: true,
+    },
+  },
+
+  // Bulk Update Tool
+  {
+    name: 'n8n_bulk_update_workflows',
+    description: `Apply the same diff operations or an autofix to every workflow matching a selector (ids, tags, name pattern, node type, active). Dry run by default: reports what would change. Applying backs up each changed workflow under one bulkOperationId; action=rollback with that ID restores them all. Operations with nodeName "*" target every node of selector.nodeType.`,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        action: {
+          type: 'string',
+          enum: ['apply', 'rollback'],
+          description: 'apply: update matching workflows; rollback: restore the backups of a previous run (default: apply)'
+        },
+        selector: {
+          type: 'object',
+          description: 'Workflows to update; all given criteria must match',
+          properties: {
+            ids: { type: 'array', items: { type: 'string' }, description: 'Workflow IDs' },
+            tags: { type: 'array', items: { type: 'string' }, description: 'Workflows carrying all of these tags' },
+            namePattern: { type: 'string', description: 'Case-insensitive name glob, e.g. "Orders *"' },
+            nodeType: { type: 'string', description: 'Workflows using this node type, e.g. "n8n-nodes-base.httpRequest"' },
+            active: { type: 'boolean', description: 'Only active (true) or inactive (false) workflows' }
+          }
+        },
+        operations: {
+          type: 'array',
+          description: 'Diff operations as in n8n_update_partial_workflow. nodeName "*" expands to every node of selector.nodeType',
+          items: { type: 'object', additionalProperties: true }
+        },
+        autofix: {
+          type: 'object',
+          description: 'Run n8n_autofix_workflow on every match instead of operations',
+          properties: {
+            fixTypes: {
+              type: 'array',
+              items: {
+                type: 'string',
+                enum: ['expression-format', 'typeversion-correction', 'error-output-config', 'node-type-correction', 'webhook-missing-path', 'typeversion-upgrade', 'version-migration']
+              },
+              description: 'Types of fixes to apply (default: all)'
+            },
+            confidenceThreshold: { type: 'string', enum: ['high', 'medium', 'low'], description: 'Minimum fix confidence (default: medium)' },
+            maxFixes: { type: 'number', description: 'Maximum fixes per workflow (default: 50)' }
+          }
+        },
+        dryRun: {
+          type: 'boolean',
+          description: 'Report changes without saving (default: true)'
+        },
+        concurrency: {
+          type: 'number',
+          description: 'Workflows processed in parallel, 1-10 (default: 3)'
+        },
+        continueOnError: {
+          type: 'boolean',
+          description: 'Within a workflow, apply the valid operations even if some fail (default: false)'
+        },
+        createBackup: {
+          type: 'boolean',
+          description: 'Back up each workflow before changing it; needed for rollback (default: true)'
+        },
+        bulkOperationId: {
+          type: 'string',
+          description: 'ID returned by an applied run. Required for action=rollback'
+        },
+        force: {
+          type: 'boolean',
+          description: 'For action=rollback: also restore workflows edited after the run, discarding those edits (default: false)'
+        }
+      }
+    },
+    annotations: {
+      title: 'Bulk Update Workflows',
+      readOnlyHint: false,
+      destructiveHint: false,
+      openWorldHint: true,
+    },
+  },
+
+  // Instance Audit Tool
+  {
+    name: 'n8n_audit_instance',
+    description: `Lint every workflow on the instance and return a ranked hygiene report: validation errors, outdated typeVersions, missing error workflows, hardcoded secrets, unused credentials, duplicated webhook paths, inactive workflows with recent failures, workflows without tags or owners. Output as JSON, markdown or SARIF.`,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        format: {
+          type: 'string',
+          enum: ['json', 'markdown', 'sarif'],
+          description: 'json: full report; markdown: readable report; sarif: SARIF 2.1.0 log for code scanning tools (default: json)'
+        },
+        rules: {
+          type: 'array',
+          items: {
+            type: 'string',
+            enum: ['validation-error', 'validation-warning', 'outdated-type-version', 'missing-error-workflow', 'hardcoded-secret', 'unused-credential', 'duplicate-webhook-path', 'inactive-with-recent-failures', 'missing-tags', 'missing-owner']
+          },
+          description: 'Rules to run (default: all)'
+        },
+        recentFailureDays: {
+          type: 'number',
+          description: 'Window for inactive-with-recent-failures, 1-90 days (default: 7)'
+        },
+        ownerTagPrefix: {
+          type: 'string',
+          description: 'Tag prefix that names an owner, e.g. "owner:payments" (default: "owner:")'
+        },
+        maxFindings: {
+          type: 'number',
+          description: 'Maximum findings listed; summary counts stay complete (default: 500)'
+        }
+      }
+    },
+    annotations: {
+      title: 'Audit Instance',
+      readOnlyHint: true,
+      idempotentHint: true,
+      openWorldHint: true,
+    },
+  },
+  {
+    name: 'n8n_pin_data',
+    description: `List, pin or unpin the pinned output data of workflow nodes, so workflows can be tested without calling third-party APIs. Items come from literal JSON (source=json), a past execution (source=execution) or a sample synthesized from the node's inferred output shape (source=schema), and are checked against the n8n item format. Works on a workflow on the instance (workflowId) or on workflow JSON (workflow).`,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        action: {
+          type: 'string',
+          enum: ['list', 'pin', 'unpin'],
+          description: 'list=pinned nodes, pin=set pinned data of nodeName, unpin=remove pinned data of nodeName (or of all nodes)'
+        },
+        workflowId: {
+          type: 'string',
+          description: 'Workflow on the instance - pin/unpin save it'
+        },
+        workflow: {
+          type: 'object',
+          description: 'Workflow JSON to edit instead - the updated JSON is returned and nothing is saved'
+        },
+        nodeName: {
+          type: 'string',
+          description: 'Node to pin or unpin. For action=list: only this node'
+        },
+        source: {
+          type: 'string',
+          enum: ['json', 'execution', 'schema'],
+          description: 'For action=pin: where the items come from (default: json)'
+        },
+        items: {
+          description: 'For source=json: items as plain objects or n8n items ({json: {...}})'
+        },
+        executionId: {
+          type: 'string',
+          description: 'For source=execution: execution to copy the output from'
+        },
+        sourceNodeName: {
+          type: 'string',
+          description: 'For source=execution: node whose output to copy (default: nodeName)'
+        },
+        runIndex: {
+          type: 'number',
+          description: 'For source=execution: run of the node (default: last run)'
+        },
+        outputIndex: {
+          type: 'number',
+          description: 'For source=execution: output of the node (default: 0)'
+        },
+        sampleCount: {
+          type: 'number',
+          description: 'For source=schema: number of sample items, 1-100 (default: 1)'
+        },
+        includeItems: {
+          type: 'boolean',
+          description: 'For action=list: include the pinned items (default: false)'
+        }
+      },
+      required: ['action']
+    },
+    annotations: {
+      title: 'Manage Pinned Data',
+      readOnlyHint: false,
+      destructiveHint: true,
+      openWorldHint: true,
+    },
   }
 ];
@@ -33,7 +33,7 @@ export const n8nDocumentationToolsFinal: ToolDefinition[] = [
   },
   {
     name: 'search_nodes',
-    description: `Search n8n nodes by keyword with optional real-world examples. Pass query as string. Example: query="webhook" or query="database". Returns max 20 results. Use includeExamples=true to get top 2 template configs per node.`,
+    description: `Search n8n nodes by keyword with optional real-world examples. Pass query as string. Example: query="webhook" or query="database". Returns max 20 results. Use includeExamples=true to get top 2 template configs per node. Use searchMode="semantic" for natural language queries.`,
     inputSchema: {
       type: 'object',
       properties: {
@@ -52,6 +52,12 @@ export const n8nDocumentationToolsFinal: ToolDefinition[] = [
           description: 'OR=any word, AND=all words, FUZZY=typo-tolerant',
           default: 'OR',
         },
+        searchMode: {
+          type: 'string',
+          enum: ['keyword', 'semantic'],
+          description: 'keyword=FTS5 search using mode (default), semantic=hybrid keyword + vector search for natural language queries like "send a message to my team chat" (needs a configured local embedding model, falls back to keyword otherwise)',
+          default: 'keyword',
+        },
         includeExamples: {
           type: 'boolean',
           description: 'Include top 2 real-world configuration examples from popular templates (default: false)',
@@ -59,8 +65,8 @@ export const n8nDocumentationToolsFinal: ToolDefinition[] = [
         },
         source: {
           type: 'string',
-          enum: ['all', 'core', 'community', 'verified'],
-          description: 'Filter by node source: all=everything (default), core=n8n base nodes, community=community nodes, verified=verified community nodes only',
+          enum: ['all', 'core', 'community', 'verified', 'private'],
+          description: 'Filter by node source: all=everything (default), core=n8n base nodes, community=community nodes, verified=verified community nodes only, private=in-house packages indexed with index_private_nodes',
           default: 'all',
         },
       },
@@ -242,20 +248,20 @@ export const n8nDocumentationToolsFinal: ToolDefinition[] = [
   },
   {
     name: 'search_templates',
-    description: `Search templates with multiple modes. Use searchMode='keyword' for text search, 'by_nodes' to find templates using specific nodes, 'by_task' for curated task-based templates, 'by_metadata' for filtering by complexity/setup time/services.`,
+    description: `Search templates with multiple modes. Use searchMode='keyword' for text search, 'semantic' for natural language descriptions, 'by_nodes' to find templates using specific nodes, 'by_task' for curated task-based templates, 'by_metadata' for filtering by complexity/setup time/services.`,
     inputSchema: {
       type: 'object',
       properties: {
         searchMode: {
           type: 'string',
-          enum: ['keyword', 'by_nodes', 'by_task', 'by_metadata'],
-          description: 'Search mode. keyword=text search (default), by_nodes=find by node types, by_task=curated task templates, by_metadata=filter by complexity/services',
+          enum: ['keyword', 'semantic', 'by_nodes', 'by_task', 'by_metadata'],
+          description: 'Search mode. keyword=text search (default), semantic=hybrid keyword + vector search, by_nodes=find by node types, by_task=curated task templates, by_metadata=filter by complexity/services',
           default: 'keyword',
         },
-        // For searchMode='keyword'
+        // For searchMode='keyword' and 'semantic'
         query: {
           type: 'string',
-          description: 'For searchMode=keyword: search keyword (e.g., "chatbot")',
+          description: 'For searchMode=keyword: search keyword (e.g., "chatbot"). For searchMode=semantic: what the workflow should do (e.g., "post new leads to our team chat")',
         },
         fields: {
           type: 'array',
@@ -263,7 +269,7 @@ export const n8nDocumentationToolsFinal: ToolDefinition[] = [
             type: 'string',
             enum: ['id', 'name', 'description', 'author', 'nodes', 'views', 'created', 'url', 'metadata'],
           },
-          description: 'For searchMode=keyword: fields to include in response. Default: all fields.',
+          description: 'For searchMode=keyword/semantic: fields to include in response. Default: all fields.',
         },
         // For searchMode='by_nodes'
         nodeTypes: {
@@ -430,6 +436,100 @@ export const n8nDocumentationToolsFinal: ToolDefinition[] = [
       idempotentHint: true,
     },
   },
+  {
+    name: 'simulate_workflow',
+    description: `Dry-run a workflow offline against input items. Evaluates expressions, runs IF/Switch/Filter/Merge/Set/SplitInBatches/Aggregate/Sort/Limit/Code, stubs other nodes with fixtures. Returns per-node items and branches taken.`,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        workflow: {
+          type: 'object',
+          description: 'The complete workflow JSON to simulate. Must include nodes array and connections object.',
+        },
+        inputItems: {
+          type: 'array',
+          items: { type: 'object' },
+          description: 'Items output by the start node (plain objects or {json} items). Default [{}].',
+        },
+        startNode: {
+          type: 'string',
+          description: 'Node name to start from. Default: the workflow trigger.',
+        },
+        fixtures: {
+          type: 'object',
+          description: 'Output items of stubbed nodes by node name, e.g. {"HTTP Request": [{"id": 1}]}. Use an array of item arrays for multiple outputs.',
+        },
+        env: {
+          type: 'object',
+          description: 'Values of $env',
+        },
+        variables: {
+          type: 'object',
+          description: 'Values of $vars',
+        },
+        maxNodeRuns: {
+          type: 'number',
+          description: 'Stop after this many node runs (guards against endless loops). Default 1000.',
+        },
+      },
+      required: ['workflow'],
+      additionalProperties: false,
+    },
+    annotations: {
+      title: 'Simulate Workflow',
+      readOnlyHint: true,
+      idempotentHint: true,
+    },
+  },
+  {
+    name: 'run_workflow_tests',
+    description: `Run workflow unit tests (input items, node mocks, assertions on node/branch items) on the offline simulator. Pass a suite inline or a path to *.test.yaml/json files. Optional JUnit XML.`,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        suite: {
+          type: 'object',
+          description: 'Inline test suite: {workflow: {...workflow JSON}, tests: [{name, input, mocks, path, error, expect: [{node, branch, run, executed, count, items, contains, every}]}]}',
+        },
+        path: {
+          type: 'string',
+          description: 'Test file or directory on the server (searched for *.test.yaml, *.test.yml, *.test.json). Not available in HTTP mode.',
+        },
+        junit: {
+          type: 'boolean',
+          description: 'Include a JUnit XML report. Default false.',
+          default: false,
+        },
+      },
+      additionalProperties: false,
+    },
+    annotations: {
+      title: 'Run Workflow Tests',
+      readOnlyHint: true,
+      idempotentHint: true,
+    },
+  },
+  {
+    name: 'index_private_nodes',
+    description: `Index in-house node packages from local directories or tarballs (.tgz) into the node database, so search_nodes (source="private"), get_node and validate_node know them. Without paths, re-indexes N8N_PRIVATE_NODE_PATHS.`,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        paths: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Package directories, folders of packages, or npm tarballs on the server. Not available in HTTP mode - configure N8N_PRIVATE_NODE_PATHS instead.',
+        },
+      },
+      additionalProperties: false,
+    },
+    annotations: {
+      title: 'Index Private Nodes',
+      readOnlyHint: false,
+      destructiveHint: false,
+      idempotentHint: true,
+    },
+  },
 ];
 
 /**
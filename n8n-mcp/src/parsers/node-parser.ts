@@ -10,6 +10,13 @@ import {
 } from '../types/node-types';
 import type { INodeTypeBaseDescription, INodeTypeDescription } from 'n8n-workflow';
 
+/**
+ * Version of the parsing logic (NodeParser, PropertyExtractor, Tool variants).
+ * Part of the incremental rebuild fingerprint - bump it when the stored output
+ * changes, so unchanged nodes are parsed again.
+ */
+export const NODE_PARSER_VERSION = 2;
+
 export interface ParsedNode {
   style: 'declarative' | 'programmatic';
   nodeType: string;
@@ -28,6 +35,8 @@ export interface ParsedNode {
   documentation?: string;
   outputs?: any[];
   outputNames?: string[];
+  /** Properties of each version of a VersionedNodeType, stored in node_versions */
+  versions?: Array<{ version: string; properties: any[] }>;
   // Tool variant fields (for nodes with usableAsTool: true)
   isToolVariant?: boolean;      // True for *Tool variants (e.g., supabaseTool)
   toolVariantOf?: string;       // For Tool variants: base node type (e.g., nodes-base.supabase)
@@ -60,7 +69,8 @@ export class NodeParser {
       isVersioned: this.detectVersioned(nodeClass),
       packageName: packageName,
       outputs: outputInfo.outputs,
-      outputNames: outputInfo.outputNames
+      outputNames: outputInfo.outputNames,
+      versions: this.propertyExtractor.extractVersionedProperties(nodeClass)
     };
   }
   
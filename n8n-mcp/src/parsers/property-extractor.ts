@@ -41,6 +41,39 @@ export class PropertyExtractor {
     return properties;
   }
   
+  /**
+   * Properties of every version of a VersionedNodeType. Each entry of
+   * nodeVersions serves the versions listed in its description (e.g. 2, 2.1,
+   * 2.2), which all share its properties. Other nodes return an empty list.
+   */
+  extractVersionedProperties(nodeClass: NodeClass): Array<{ version: string; properties: any[] }> {
+    let instance: any;
+    try {
+      instance = typeof nodeClass === 'function' ? new nodeClass() : nodeClass;
+    } catch (e) {
+      // Failed to instantiate
+    }
+    if (!instance?.nodeVersions) return [];
+
+    const byVersion = new Map<string, any[]>();
+    for (const [key, versionedNode] of Object.entries<any>(instance.nodeVersions)) {
+      const description = versionedNode?.description;
+      if (!description) continue;
+
+      const listed = Array.isArray(description.version) ? description.version : [description.version ?? Number(key)];
+      const properties = this.normalizeProperties(description.properties || []);
+      for (const version of listed) {
+        if (typeof version === 'number' && !isNaN(version)) {
+          byVersion.set(String(version), properties);
+        }
+      }
+    }
+
+    return [...byVersion.entries()]
+      .sort(([a], [b]) => Number(a) - Number(b))
+      .map(([version, properties]) => ({ version, properties }));
+  }
+
   private getNodeDescription(nodeClass: NodeClass): any {
     // Try to get description from the class first
     let description: any;
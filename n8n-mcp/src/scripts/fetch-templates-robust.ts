@@ -1,5 +1,6 @@
 #!/usr/bin/env node
 import { createDatabaseAdapter } from '../database/database-adapter';
+import { NodeRepository } from '../database/node-repository';
 import { TemplateRepository } from '../templates/template-repository';
 import { TemplateFetcher } from '../templates/template-fetcher';
 import * as fs from 'fs';
@@ -26,7 +27,8 @@ async function fetchTemplatesRobust() {
     // Ignore errors if tables don't exist
   }
   
-  // Apply schema with updated constraint
+  // Apply schema with updated constraint - the nodes table may predate the private node columns
+  new NodeRepository(db).ensurePrivateNodeColumns();
   const schema = fs.readFileSync(path.join(__dirname, '../../src/database/schema.sql'), 'utf8');
   db.exec(schema);
   
@@ -1,79 +1,41 @@
 #!/usr/bin/env node
 import { createDatabaseAdapter } from '../database/database-adapter';
+import { NodeRepository } from '../database/node-repository';
 import { TemplateService } from '../templates/template-service';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as zlib from 'zlib';
 import * as dotenv from 'dotenv';
-import type { MetadataRequest } from '../templates/metadata-generator';
+import type { MetadataRequest, MetadataResult } from '../templates/metadata-generator';
+import { extractNodeConfigs } from '../templates/template-node-configs';
+import { LLMProvider, LLMProviderConfig, createLLMProvider, getLLMProviderConfigFromEnv } from '../llm';
+import { MetadataJobRepository } from '../templates/metadata-job-repository';
+import { MetadataJobRunner } from '../templates/metadata-job-runner';
+import { SemanticSearchService } from '../services/semantic-search-service';
+import { getEmbeddingModelConfig } from '../services/embedding-model';
 
 // Load environment variables
 dotenv.config();
 
+interface MetadataOptions {
+  /** Use the resumable job pipeline even when the provider has a batch API */
+  sync?: boolean;
+  /** Queue templates whose jobs failed in earlier runs again */
+  retryFailed?: boolean;
+}
+
 /**
- * Extract node configurations from a template workflow
+ * LLM provider for template metadata: N8N_MCP_LLM_PROVIDER, default openai
  */
-function extractNodeConfigs(
-  templateId: number,
-  templateName: string,
-  templateViews: number,
-  workflowCompressed: string,
-  metadata: any
-): Array<{
-  node_type: string;
-  template_id: number;
-  template_name: string;
-  template_views: number;
-  node_name: string;
-  parameters_json: string;
-  credentials_json: string | null;
-  has_credentials: number;
-  has_expressions: number;
-  complexity: string;
-  use_cases: string;
-}> {
-  try {
-    // Decompress workflow
-    const decompressed = zlib.gunzipSync(Buffer.from(workflowCompressed, 'base64'));
-    const workflow = JSON.parse(decompressed.toString('utf-8'));
-
-    const configs: any[] = [];
-
-    for (const node of workflow.nodes || []) {
-      // Skip UI-only nodes (sticky notes, etc.)
-      if (node.type.includes('stickyNote') || !node.parameters) {
-        continue;
-      }
-
-      configs.push({
-        node_type: node.type,
-        template_id: templateId,
-        template_name: templateName,
-        template_views: templateViews,
-        node_name: node.name,
-        parameters_json: JSON.stringify(node.parameters),
-        credentials_json: node.credentials ? JSON.stringify(node.credentials) : null,
-        has_credentials: node.credentials ? 1 : 0,
-        has_expressions: detectExpressions(node.parameters) ? 1 : 0,
-        complexity: metadata?.complexity || 'medium',
-        use_cases: JSON.stringify(metadata?.use_cases || [])
-      });
-    }
-
-    return configs;
-  } catch (error) {
-    console.error(`Error extracting configs from template ${templateId}:`, error);
-    return [];
-  }
+function getMetadataProviderConfig(): LLMProviderConfig {
+  return getLLMProviderConfigFromEnv('openai');
 }
 
 /**
- * Detect n8n expressions in parameters
+ * Only the OpenAI provider needs credentials; local servers and the heuristic provider do not
  */
-function detectExpressions(params: any): boolean {
-  if (!params) return false;
-  const json = JSON.stringify(params);
-  return json.includes('={{') || json.includes('$json') || json.includes('$node');
+function canGenerateMetadata(config: LLMProviderConfig): boolean {
+  return config.provider !== 'openai' || !!config.apiKey;
 }
 
 /**
@@ -190,7 +152,8 @@ async function fetchTemplates(
   mode: 'rebuild' | 'update' = 'rebuild',
   generateMetadata: boolean = false,
   metadataOnly: boolean = false,
-  extractOnly: boolean = false
+  extractOnly: boolean = false,
+  metadataOptions: MetadataOptions = {}
 ) {
   // If extract-only mode, skip template fetching and only extract configs
   if (extractOnly) {
@@ -234,15 +197,15 @@ async function fetchTemplates(
   if (metadataOnly) {
     console.log('🤖 Metadata-only mode: Generating metadata for existing templates...\n');
 
-    if (!process.env.OPENAI_API_KEY) {
-      console.error('❌ OPENAI_API_KEY not set in environment');
+    if (!canGenerateMetadata(getMetadataProviderConfig())) {
+      console.error('❌ OPENAI_API_KEY not set in environment (or set N8N_MCP_LLM_PROVIDER=openai-compatible|heuristic)');
       process.exit(1);
     }
 
     const db = await createDatabaseAdapter('./data/nodes.db');
     const service = new TemplateService(db);
 
-    await generateTemplateMetadata(db, service);
+    await generateTemplateMetadata(db, service, metadataOptions);
 
     if ('close' in db && typeof db.close === 'function') {
       db.close();
@@ -255,7 +218,7 @@ async function fetchTemplates(
   console.log(`${modeEmoji} ${modeText} n8n workflow templates...\n`);
   
   if (generateMetadata) {
-    console.log('🤖 Metadata generation enabled (using OpenAI)\n');
+    console.log(`🤖 Metadata generation enabled (using ${getMetadataProviderConfig().provider})\n`);
   }
   
   // Ensure data directory exists
@@ -275,7 +238,8 @@ async function fetchTemplates(
       db.exec('DROP TABLE IF EXISTS templates_fts');
       console.log('🗑️  Dropped existing templates tables (rebuild mode)\n');
       
-      // Apply fresh schema
+      // Apply fresh schema - the nodes table may predate the private node columns
+      new NodeRepository(db).ensurePrivateNodeColumns();
       const schema = fs.readFileSync(path.join(__dirname, '../../src/database/schema.sql'), 'utf8');
       db.exec(schema);
       console.log('📋 Applied database schema\n');
@@ -350,13 +314,24 @@ async function fetchTemplates(
     await extractTemplateConfigs(db, service);
 
     // Generate metadata if requested
-    if (generateMetadata && process.env.OPENAI_API_KEY) {
+    if (generateMetadata && canGenerateMetadata(getMetadataProviderConfig())) {
       console.log('\n🤖 Generating metadata for templates...');
-      await generateTemplateMetadata(db, service);
-    } else if (generateMetadata && !process.env.OPENAI_API_KEY) {
+      await generateTemplateMetadata(db, service, metadataOptions);
+    } else if (generateMetadata) {
       console.log('\n⚠️  Metadata generation requested but OPENAI_API_KEY not set');
     }
 
+    // Precompute vectors for search_templates searchMode=semantic (opt-in)
+    if (getEmbeddingModelConfig()) {
+      console.log('\n🧭 Computing semantic search vectors for templates...');
+      try {
+        const templateIndex = await new SemanticSearchService(db).indexTemplates();
+        console.log(`   ${templateIndex.embedded} templates embedded with ${templateIndex.model}, ${templateIndex.removed} removed (${templateIndex.total} total)`);
+      } catch (error) {
+        console.warn(`   ⚠️  Semantic search vectors not computed: ${(error as Error).message}`);
+      }
+    }
+
   } catch (error) {
     console.error('\n❌ Error fetching templates:', error);
     process.exit(1);
@@ -369,11 +344,21 @@ async function fetchTemplates(
 }
 
 // Generate metadata for templates using OpenAI
-async function generateTemplateMetadata(db: any, service: TemplateService) {
+async function generateTemplateMetadata(db: any, service: TemplateService, options: MetadataOptions = {}) {
   try {
     const { BatchProcessor } = await import('../templates/batch-processor');
     const repository = (service as any).repository;
     
+    const providerConfig = getMetadataProviderConfig();
+    const provider = createLLMProvider(providerConfig);
+    const capabilities = await provider.detectCapabilities();
+    console.log(`Using ${provider.id} provider (${provider.model}, structured output: ${capabilities.structuredOutput})`);
+    
+    if (!capabilities.batchApi || options.sync) {
+      await runMetadataJobs(db, provider, options);
+      return;
+    }
+    
     // Get templates without metadata (0 = no limit)
     const limit = parseInt(process.env.METADATA_LIMIT || '0');
     const templatesWithoutMetadata = limit > 0 
@@ -387,23 +372,6 @@ async function generateTemplateMetadata(db: any, service: TemplateService) {
     
     console.log(`Found ${templatesWithoutMetadata.length} templates without metadata`);
     
-    // Create batch processor
-    const batchSize = parseInt(process.env.OPENAI_BATCH_SIZE || '50');
-    console.log(`Processing in batches of ${batchSize} templates each`);
-    
-    // Warn if batch size is very large
-    if (batchSize > 100) {
-      console.log(`⚠️  Large batch size (${batchSize}) may take longer to process`);
-      console.log(`   Consider using OPENAI_BATCH_SIZE=50 for faster results`);
-    }
-    
-    const processor = new BatchProcessor({
-      apiKey: process.env.OPENAI_API_KEY!,
-      model: process.env.OPENAI_MODEL || 'gpt-4o-mini',
-      batchSize: batchSize,
-      outputDir: './temp/batch'
-    });
-    
     // Prepare metadata requests
     const requests: MetadataRequest[] = templatesWithoutMetadata.map((t: any) => {
       let workflow = undefined;
@@ -443,10 +411,27 @@ async function generateTemplateMetadata(db: any, service: TemplateService) {
       };
     });
     
-    // Process in batches
-    const results = await processor.processTemplates(requests, (message, current, total) => {
+    const progress = (message: string, current: number, total: number) => {
       process.stdout.write(`\r📊 ${message}: ${current}/${total}`);
+    };
+    
+    // OpenAI Batch API: 50% cheaper, processed asynchronously
+    const batchSize = parseInt(process.env.OPENAI_BATCH_SIZE || '50');
+    console.log(`Processing in batches of ${batchSize} templates each`);
+    
+    // Warn if batch size is very large
+    if (batchSize > 100) {
+      console.log(`⚠️  Large batch size (${batchSize}) may take longer to process`);
+      console.log(`   Consider using OPENAI_BATCH_SIZE=50 for faster results`);
+    }
+    
+    const processor = new BatchProcessor({
+      apiKey: providerConfig.apiKey!,
+      model: provider.model,
+      batchSize: batchSize,
+      outputDir: './temp/batch'
     });
+    const results: Map<number, MetadataResult> = await processor.processTemplates(requests, progress);
     
     console.log('\n');
     
@@ -476,7 +461,82 @@ async function generateTemplateMetadata(db: any, service: TemplateService) {
 }
 
 // Parse command line arguments
-function parseArgs(): { mode: 'rebuild' | 'update', generateMetadata: boolean, metadataOnly: boolean, extractOnly: boolean } {
+/**
+ * Generate metadata through the resumable job pipeline (metadata_jobs table):
+ * templates without metadata are queued, interrupted runs continue where
+ * they stopped and failed templates are retried with backoff
+ */
+async function runMetadataJobs(db: any, provider: LLMProvider, options: MetadataOptions) {
+  const jobs = new MetadataJobRepository(db);
+  if (options.retryFailed) {
+    console.log(`Re-queued ${jobs.retryFailed()} failed jobs`);
+  }
+  
+  const limit = parseInt(process.env.METADATA_LIMIT || '0');
+  const queued = jobs.enqueueMissing(limit);
+  const stats = jobs.getStats();
+  const pending = stats.pending + stats.running;
+  if (pending === 0) {
+    console.log('✅ All templates already have metadata');
+    printJobStats(jobs);
+    return;
+  }
+  
+  const runner = new MetadataJobRunner(db, provider, {
+    concurrency: parseInt(process.env.N8N_MCP_LLM_CONCURRENCY || '3'),
+    requestsPerMinute: parseInt(process.env.METADATA_REQUESTS_PER_MINUTE || '0'),
+    maxAttempts: parseInt(process.env.METADATA_MAX_ATTEMPTS || '3'),
+    progressCallback: (progress) => {
+      const cost = progress.costUsd === null ? '' : ` | $${progress.costUsd.toFixed(4)} of ~$${progress.estimatedTotalCostUsd!.toFixed(4)}`;
+      process.stdout.write(`\r📊 Generating metadata: ${progress.completed}/${progress.total} done, ${progress.failed} failed, ${progress.retried} retries${cost}   `);
+    }
+  });
+  
+  console.log(`Queued ${queued} new jobs, ${pending} templates to process`);
+  const estimate = runner.estimateCost(pending);
+  console.log(estimate === null
+    ? `💰 Estimated cost: unknown (no price for ${provider.model})`
+    : `💰 Estimated cost: ~$${estimate.toFixed(4)}`);
+  
+  // Ctrl+C finishes in-flight templates; the next run resumes with the rest
+  const onInterrupt = () => {
+    console.log('\n⏸️  Stopping after in-flight templates (Ctrl+C again to abort)...');
+    runner.stop();
+    process.once('SIGINT', () => process.exit(130));
+  };
+  process.once('SIGINT', onInterrupt);
+  
+  const result = await runner.run();
+  process.removeListener('SIGINT', onInterrupt);
+  
+  console.log('\n');
+  console.log(`✅ Generated metadata for ${result.completed} templates in ${Math.round(result.durationMs / 1000)}s`);
+  if (result.costUsd !== null && result.costUsd > 0) {
+    console.log(`💰 Cost: $${result.costUsd.toFixed(4)}`);
+  }
+  if (result.stopped) {
+    console.log('⏸️  Stopped early - run again to resume');
+  }
+  printJobStats(jobs);
+}
+
+function printJobStats(jobs: MetadataJobRepository) {
+  const stats = jobs.getStats();
+  console.log('\n📈 Metadata Jobs:');
+  console.log(`   - Completed: ${stats.completed}`);
+  console.log(`   - Pending: ${stats.pending + stats.running}`);
+  console.log(`   - Failed: ${stats.failed}`);
+  
+  const failed = jobs.getFailedJobs(5);
+  for (const job of failed) {
+    console.log(`     • Template ${job.template_id}: ${job.last_error}`);
+  }
+  if (stats.failed > 0) {
+    console.log('   Re-run with --retry-failed to try failed templates again');
+  }
+}
+
+function parseArgs(): { mode: 'rebuild' | 'update', generateMetadata: boolean, metadataOnly: boolean, extractOnly: boolean, metadataOptions: MetadataOptions } {
   const args = process.argv.slice(2);
 
   let mode: 'rebuild' | 'update' = 'rebuild';
@@ -515,6 +575,11 @@ function parseArgs(): { mode: 'rebuild' | 'update', generateMetadata: boolean, m
     extractOnly = true;
   }
 
+  const metadataOptions: MetadataOptions = {
+    sync: args.includes('--sync'),
+    retryFailed: args.includes('--retry-failed')
+  };
+
   // Show help if requested
   if (args.includes('--help') || args.includes('-h')) {
     console.log('Usage: npm run fetch:templates [options]\n');
@@ -524,19 +589,21 @@ function parseArgs(): { mode: 'rebuild' | 'update', generateMetadata: boolean, m
     console.log('  --generate-metadata    Generate AI metadata after fetching templates');
     console.log('  --metadata             Shorthand for --generate-metadata');
     console.log('  --metadata-only        Only generate metadata, skip template fetching');
+    console.log('  --sync                 Generate metadata with direct calls instead of the OpenAI Batch API');
+    console.log('  --retry-failed         Retry templates whose metadata jobs failed in earlier runs');
     console.log('  --extract-only         Only extract node configs, skip template fetching');
     console.log('  --extract              Shorthand for --extract-only');
     console.log('  --help, -h             Show this help message');
     process.exit(0);
   }
 
-  return { mode, generateMetadata, metadataOnly, extractOnly };
+  return { mode, generateMetadata, metadataOnly, extractOnly, metadataOptions };
 }
 
 // Run if called directly
 if (require.main === module) {
-  const { mode, generateMetadata, metadataOnly, extractOnly } = parseArgs();
-  fetchTemplates(mode, generateMetadata, metadataOnly, extractOnly).catch(console.error);
+  const { mode, generateMetadata, metadataOnly, extractOnly, metadataOptions } = parseArgs();
+  fetchTemplates(mode, generateMetadata, metadataOnly, extractOnly, metadataOptions).catch(console.error);
 }
 
 export { fetchTemplates };
\ No newline at end of file
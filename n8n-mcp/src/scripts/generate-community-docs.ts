@@ -9,8 +9,11 @@
  *   npm run generate:docs:incremental  # Skip nodes with existing data
  *
  * Environment variables:
+ *   N8N_MCP_LLM_PROVIDER  - openai-compatible (default), openai or heuristic (offline)
  *   N8N_MCP_LLM_BASE_URL  - LLM server URL (default: http://localhost:1234/v1)
  *   N8N_MCP_LLM_MODEL     - LLM model name (default: qwen3-4b-thinking-2507)
+ *   N8N_MCP_LLM_API_KEY   - API key for hosted OpenAI-compatible servers
+ *   N8N_MCP_LLM_STRUCTURED_OUTPUT - auto (default), json_schema, json_object or prompt
  *   N8N_MCP_LLM_TIMEOUT   - Request timeout in ms (default: 60000)
  *   N8N_MCP_DB_PATH       - Database path (default: ./data/nodes.db)
  */
@@ -79,8 +82,11 @@ Options:
   --llm-concurrency=N     Parallel LLM requests (default: 3)
 
 Environment Variables:
+  N8N_MCP_LLM_PROVIDER    openai-compatible (default), openai or heuristic (offline)
   N8N_MCP_LLM_BASE_URL    LLM server URL (default: http://localhost:1234/v1)
   N8N_MCP_LLM_MODEL       LLM model name (default: qwen3-4b-thinking-2507)
+  N8N_MCP_LLM_API_KEY     API key for hosted OpenAI-compatible servers
+  N8N_MCP_LLM_STRUCTURED_OUTPUT  auto (default), json_schema, json_object or prompt
   N8N_MCP_LLM_TIMEOUT     Request timeout in ms (default: 60000)
   N8N_MCP_DB_PATH         Database path (default: ./data/nodes.db)
 
@@ -140,6 +146,7 @@ async function main(): Promise<void> {
 
   // Show configuration
   console.log('\nConfiguration:');
+  console.log(`  LLM Provider: ${process.env.N8N_MCP_LLM_PROVIDER || 'openai-compatible'}`);
   console.log(`  LLM Base URL: ${process.env.N8N_MCP_LLM_BASE_URL || 'http://localhost:1234/v1'}`);
   console.log(`  LLM Model: ${process.env.N8N_MCP_LLM_MODEL || 'qwen3-4b-thinking-2507'}`);
   console.log(`  README concurrency: ${options.readmeConcurrency || 5}`);
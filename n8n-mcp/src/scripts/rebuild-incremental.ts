@@ -0,0 +1,126 @@
+#!/usr/bin/env node
+/**
+ * Incremental rebuild: re-parses only the nodes whose fingerprint changed
+ * since the last run and writes a changelog of added, removed and changed
+ * nodes.
+ *
+ * Usage:
+ *   npm run rebuild:incremental -- [--changelog <file>]
+ *   npm run rebuild:incremental -- --rollback   (restore the previous database)
+ */
+import { createDatabaseAdapter, DatabaseAdapter } from '../database/database-adapter';
+import { NodeRepository } from '../database/node-repository';
+import { N8nNodeLoader } from '../loaders/node-loader';
+import { DocsMapper } from '../mappers/docs-mapper';
+import { SemanticSearchService, EmbeddingIndexResult } from '../services/semantic-search-service';
+import { getEmbeddingModelConfig } from '../services/embedding-model';
+import {
+  IncrementalNodeRebuilder,
+  createDatabaseSnapshot,
+  restoreDatabaseSnapshot
+} from '../services/incremental-node-rebuilder';
+import * as fs from 'fs';
+import * as path from 'path';
+
+async function rebuildIncremental() {
+  const args = process.argv.slice(2);
+  const dbPath = process.env.NODE_DB_PATH || './data/nodes.db';
+
+  if (args.includes('--rollback')) {
+    if (!restoreDatabaseSnapshot(dbPath)) {
+      console.error(`❌ No snapshot found at ${dbPath}.snapshot`);
+      process.exit(1);
+    }
+    console.log(`⏪ Restored ${dbPath} from ${dbPath}.snapshot`);
+    return;
+  }
+
+  const changelogIndex = args.indexOf('--changelog');
+  const changelogPath = changelogIndex >= 0 ? args[changelogIndex + 1] : undefined;
+  if (changelogIndex >= 0 && !changelogPath) {
+    console.error('❌ --changelog needs a file path');
+    process.exit(1);
+  }
+
+  console.log('🔄 Incrementally rebuilding n8n node database...\n');
+  const snapshot = createDatabaseSnapshot(dbPath);
+  if (snapshot) {
+    console.log(`📸 Snapshot saved to ${snapshot}\n`);
+  }
+
+  let db: DatabaseAdapter | undefined;
+  try {
+    db = await createDatabaseAdapter(dbPath);
+    // Columns added since the database was built must exist before the schema indexes them
+    new NodeRepository(db).ensurePrivateNodeColumns();
+    const schema = fs.readFileSync(path.join(__dirname, '../../src/database/schema.sql'), 'utf8');
+    db.exec(schema);
+
+    const nodes = await new N8nNodeLoader().loadAllNodes();
+    console.log(`📦 Loaded ${nodes.length} nodes from packages\n`);
+    if (nodes.length === 0) {
+      throw new Error('No nodes loaded - refusing to remove every node from the database');
+    }
+
+    const packageVersions: Record<string, string | null> = {};
+    for (const packageName of new Set(nodes.map(node => node.packageName))) {
+      try {
+        packageVersions[packageName] = require(`${packageName}/package.json`).version ?? null;
+      } catch {
+        packageVersions[packageName] = null;
+      }
+    }
+
+    const rebuilder = new IncrementalNodeRebuilder(db, { docsMapper: new DocsMapper() });
+    const changelog = await rebuilder.rebuild(nodes, packageVersions);
+    // Only nodes whose text changed are re-embedded
+    let nodeIndex: EmbeddingIndexResult | undefined;
+    if (getEmbeddingModelConfig()) {
+      try {
+        nodeIndex = await new SemanticSearchService(db).indexNodes();
+      } catch (error) {
+        console.warn(`⚠️  Semantic search vectors not updated: ${(error as Error).message}`);
+      }
+    }
+    db.close();
+    db = undefined;
+
+    if (changelogPath) {
+      fs.mkdirSync(path.dirname(path.resolve(changelogPath)), { recursive: true });
+      fs.writeFileSync(changelogPath, JSON.stringify(changelog, null, 2));
+    }
+
+    console.log('\n📊 Summary:');
+    for (const [packageName, { from, to }] of Object.entries(changelog.packages)) {
+      console.log(`   ${packageName}: ${from ?? '(none)'} → ${to ?? '?'}`);
+    }
+    console.log(`   Added: ${changelog.added.length}`);
+    console.log(`   Removed: ${changelog.removed.length}`);
+    console.log(`   Changed: ${changelog.changed.length}`);
+    console.log(`   Unchanged: ${changelog.unchanged}`);
+    console.log(`   Failed: ${changelog.failed.length}`);
+    console.log(`   Template configs refreshed: ${changelog.templateConfigsRefreshed}`);
+    if (nodeIndex) {
+      console.log(`   Semantic search vectors updated: ${nodeIndex.embedded + nodeIndex.removed}`);
+    }
+    if (changelogPath) {
+      console.log(`\n📝 Changelog written to ${changelogPath}`);
+    }
+    if (snapshot) {
+      console.log(`\n↩️  To undo this rebuild: npm run rebuild:incremental -- --rollback`);
+    }
+    console.log('\n✨ Incremental rebuild complete!');
+  } catch (error) {
+    console.error('❌ Incremental rebuild failed:', (error as Error).message);
+    db?.close();
+    if (snapshot && restoreDatabaseSnapshot(dbPath)) {
+      console.error(`⏪ Restored ${dbPath} from the snapshot`);
+    }
+    process.exit(1);
+  }
+}
+
+// Run if called directly
+if (require.main === module) {
+  rebuildIncremental().catch(console.error);
+}
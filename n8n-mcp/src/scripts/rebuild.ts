@@ -10,6 +10,9 @@ import { DocsMapper } from '../mappers/docs-mapper';
 import { NodeRepository } from '../database/node-repository';
 import { ToolVariantGenerator } from '../services/tool-variant-generator';
 import { TemplateSanitizer } from '../utils/template-sanitizer';
+import { PrivateNodeIndexer, getConfiguredPrivateNodePaths } from '../services/private-node-indexer';
+import { SemanticSearchService } from '../services/semantic-search-service';
+import { getEmbeddingModelConfig } from '../services/embedding-model';
 import * as fs from 'fs';
 import * as path from 'path';
 
@@ -24,12 +27,14 @@ async function rebuild() {
   const repository = new NodeRepository(db);
   const toolVariantGenerator = new ToolVariantGenerator();
   
-  // Initialize database
+  // Initialize database - older files need the private node columns first
+  repository.ensurePrivateNodeColumns();
   const schema = fs.readFileSync(path.join(__dirname, '../../src/database/schema.sql'), 'utf8');
   db.exec(schema);
   
   // Clear existing data
   db.exec('DELETE FROM nodes');
+  db.exec('DELETE FROM node_versions');
   console.log('🗑️  Cleared existing data\n');
   
   // Load all nodes
@@ -46,7 +51,8 @@ async function rebuild() {
     withProperties: 0,
     withOperations: 0,
     withDocs: 0,
-    toolVariants: 0
+    toolVariants: 0,
+    privateNodes: 0
   };
   
   // Process each node (documentation fetching must be outside transaction due to async)
@@ -104,6 +110,8 @@ async function rebuild() {
   for (const { parsed, docs, nodeName } of processedNodes) {
     try {
       repository.saveNode(parsed);
+      // Per-version properties feed the derived breaking changes
+      repository.replaceNodeVersions(parsed);
       saved++;
       
       // Update statistics
@@ -124,6 +132,31 @@ async function rebuild() {
   }
   
   console.log(`💾 Save completed: ${saved} nodes saved successfully`);
+
+  // Index private node packages (local directories or tarballs)
+  const privatePaths = getConfiguredPrivateNodePaths();
+  if (privatePaths.length > 0) {
+    console.log(`\n🔒 Indexing private node packages from: ${privatePaths.join(', ')}`);
+    const privateResult = await new PrivateNodeIndexer(repository).indexPaths(privatePaths);
+    stats.privateNodes = privateResult.saved;
+
+    for (const pkg of privateResult.packages) {
+      console.log(`   ${pkg.errors.length === 0 ? '✅' : '⚠️ '} ${pkg.packageName}@${pkg.version ?? '?'}: ${pkg.nodes.length} nodes`);
+      pkg.errors.forEach(error => console.log(`      - ${error}`));
+    }
+    privateResult.errors.forEach(error => console.error(`   ❌ ${error}`));
+  }
+
+  // Precompute vectors for search_nodes searchMode=semantic (opt-in, needs an embedding model)
+  if (getEmbeddingModelConfig()) {
+    console.log('\n🧭 Computing semantic search vectors...');
+    try {
+      const nodeIndex = await new SemanticSearchService(db).indexNodes();
+      console.log(`   ${nodeIndex.embedded} nodes embedded with ${nodeIndex.model}, ${nodeIndex.removed} removed (${nodeIndex.total} total)`);
+    } catch (error) {
+      console.warn(`   ⚠️  Semantic search vectors not computed: ${(error as Error).message}`);
+    }
+  }
   
   // Validation check
   console.log('\n🔍 Running validation checks...');
@@ -153,6 +186,9 @@ async function rebuild() {
   console.log(`   With Properties: ${stats.withProperties}`);
   console.log(`   With Operations: ${stats.withOperations}`);
   console.log(`   With Documentation: ${stats.withDocs}`);
+  if (privatePaths.length > 0) {
+    console.log(`   Private Nodes: ${stats.privateNodes}`);
+  }
   
   // Sanitize templates if they exist
   console.log('\n🧹 Checking for templates to sanitize...');
@@ -0,0 +1,79 @@
+/**
+ * Workflow test command
+ *
+ * `n8n-mcp test` runs workflow tests on the offline simulator from the command
+ * line and prints the report or writes it as JUnit XML for CI.
+ *
+ * Run with: npx tsx src/scripts/workflow-test-command.ts [paths...] [--junit <file>]
+ */
+
+import fs from 'fs';
+import path from 'path';
+import {
+  formatTestReport,
+  runWorkflowTestFiles,
+  toJUnitXml,
+  WorkflowTestReport
+} from '../services/workflow-test-runner';
+
+/**
+ * `n8n-mcp test [paths...] [--junit <file>]` - returns the exit code
+ */
+export function runWorkflowTestCommand(args: string[]): number {
+  const targets: string[] = [];
+  let junitFile: string | undefined;
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === '--help' || arg === '-h') {
+      console.log(`
+Usage: n8n-mcp test [paths...] [--junit <file>]
+
+Runs workflow tests (*.test.yaml, *.test.yml, *.test.json) found in the given
+files and directories (default: current directory) on the offline simulator.
+
+Options:
+  --junit <file>  Write a JUnit XML report to <file> ("-" for stdout)
+`);
+      return 0;
+    }
+    if (arg === '--junit') {
+      junitFile = args[++i];
+      if (!junitFile) {
+        console.error('--junit requires a file path');
+        return 2;
+      }
+    } else {
+      targets.push(arg);
+    }
+  }
+
+  let report: WorkflowTestReport;
+  try {
+    report = runWorkflowTestFiles(targets.length > 0 ? targets : ['.']);
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : String(error));
+    return 2;
+  }
+
+  if (junitFile === '-') {
+    process.stdout.write(toJUnitXml(report));
+  } else {
+    console.log(formatTestReport(report));
+    if (junitFile) {
+      fs.mkdirSync(path.dirname(path.resolve(junitFile)), { recursive: true });
+      fs.writeFileSync(junitFile, toJUnitXml(report));
+      console.log(`JUnit report written to ${junitFile}`);
+    }
+  }
+  if (report.total === 0 && report.errors === 0) {
+    console.error('No workflow tests found');
+    return 1;
+  }
+  return report.failed > 0 || report.errors > 0 ? 1 : 0;
+}
+
+// Run if called directly
+if (require.main === module) {
+  process.exit(runWorkflowTestCommand(process.argv.slice(2)));
+}
@@ -0,0 +1,144 @@
+/**
+ * Workflow transfer commands
+ *
+ * `n8n-mcp export` and `n8n-mcp import` move workflows between the instance in
+ * N8N_API_URL / N8N_API_KEY and files on disk.
+ *
+ * Run with: npx tsx src/scripts/workflow-transfer-command.ts <export|import> [args...]
+ */
+
+import * as fs from 'fs';
+import { N8nApiClient } from '../services/n8n-api-client';
+import { exportWorkflow, importWorkflows, WorkflowExportFormat } from '../services/workflow-transfer';
+import { getN8nApiConfig } from '../config/n8n-api';
+
+const EXPORT_USAGE = `
+Usage: n8n-mcp export <workflowId> [--format json|yaml|bundle] [--out <file>] [--keep-secrets]
+
+Exports a workflow from the instance in N8N_API_URL / N8N_API_KEY. bundle also
+includes sub-workflows, credential placeholders and tags. Embedded API keys and
+tokens are replaced with placeholders unless --keep-secrets is given.
+
+Options:
+  --format <format>  json (default), yaml or bundle
+  --out <file>       Write to <file> instead of stdout
+  --keep-secrets     Do not strip secrets
+`;
+
+const IMPORT_USAGE = `
+Usage: n8n-mcp import <file|-> [--upsert] [--dry-run] [--match-by-type]
+
+Imports a workflow or bundle (JSON or YAML) into the instance in N8N_API_URL /
+N8N_API_KEY, remapping credentials by type and name and regenerating webhook IDs.
+
+Options:
+  --upsert         Update workflows with the same name instead of creating copies
+  --dry-run        Show credential matches and targets without changing anything
+  --match-by-type  Use the only credential of a type when none matches by name
+`;
+
+/**
+ * `n8n-mcp export` and `n8n-mcp import` - returns the exit code
+ */
+export async function runWorkflowTransferCommand(command: 'export' | 'import', args: string[]): Promise<number> {
+  const usage = command === 'export' ? EXPORT_USAGE : IMPORT_USAGE;
+  if (args.includes('--help') || args.includes('-h')) {
+    console.log(usage);
+    return 0;
+  }
+
+  const positional: string[] = [];
+  let format: WorkflowExportFormat = 'json';
+  let outFile: string | undefined;
+  let stripSecrets = true;
+  let mode: 'create' | 'upsert' = 'create';
+  let dryRun = false;
+  let matchCredentialsByType = false;
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (command === 'export' && arg === '--format') {
+      const value = args[++i];
+      if (value !== 'json' && value !== 'yaml' && value !== 'bundle') {
+        console.error('--format must be json, yaml or bundle');
+        return 2;
+      }
+      format = value;
+    } else if (command === 'export' && arg === '--out') {
+      outFile = args[++i];
+      if (!outFile) {
+        console.error('--out requires a file path');
+        return 2;
+      }
+    } else if (command === 'export' && arg === '--keep-secrets') {
+      stripSecrets = false;
+    } else if (command === 'import' && arg === '--upsert') {
+      mode = 'upsert';
+    } else if (command === 'import' && arg === '--dry-run') {
+      dryRun = true;
+    } else if (command === 'import' && arg === '--match-by-type') {
+      matchCredentialsByType = true;
+    } else if (arg.startsWith('--')) {
+      console.error(`Unknown option ${arg}`);
+      console.error(usage);
+      return 2;
+    } else {
+      positional.push(arg);
+    }
+  }
+
+  if (positional.length !== 1) {
+    console.error(usage);
+    return 2;
+  }
+
+  const config = getN8nApiConfig();
+  if (!config) {
+    console.error('N8N_API_URL and N8N_API_KEY must be set');
+    return 2;
+  }
+  const client = new N8nApiClient(config);
+
+  try {
+    if (command === 'export') {
+      const result = await exportWorkflow(client, positional[0], { format, stripSecrets });
+      if (outFile) {
+        fs.writeFileSync(outFile, result.content);
+        console.error(`Exported ${result.workflows.map(workflow => workflow.name).join(', ')} to ${outFile}`);
+      } else {
+        process.stdout.write(result.content.endsWith('\n') ? result.content : `${result.content}\n`);
+      }
+      if (result.secretsStripped > 0) {
+        console.error(`Replaced ${result.secretsStripped} embedded secret(s) with placeholders`);
+      }
+      result.warnings.forEach(warning => console.error(`Warning: ${warning}`));
+      return 0;
+    }
+
+    const content = positional[0] === '-' ? fs.readFileSync(0, 'utf-8') : fs.readFileSync(positional[0], 'utf-8');
+    const result = await importWorkflows(client, content, { mode, dryRun, matchCredentialsByType });
+    for (const workflow of result.workflows) {
+      const verb = workflow.action === 'updated' ? 'update' : 'create';
+      console.log(`${dryRun ? `Would ${verb}` : `${verb[0].toUpperCase()}${verb.slice(1)}d`}: ${workflow.name}${workflow.id ? ` (${workflow.id})` : ''}`);
+    }
+    for (const credential of result.credentials) {
+      const target = credential.targetName ? ` -> ${credential.targetName} (${credential.targetId})` : '';
+      console.log(`Credential ${credential.type} "${credential.name}": ${credential.status}${target}`);
+    }
+    result.warnings.forEach(warning => console.error(`Warning: ${warning}`));
+    return 0;
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : String(error));
+    return 1;
+  }
+}
+
+// Run if called directly
+if (require.main === module) {
+  const [command, ...args] = process.argv.slice(2);
+  if (command !== 'export' && command !== 'import') {
+    console.error('Usage: workflow-transfer-command <export|import> [args...]');
+    process.exit(2);
+  }
+  runWorkflowTransferCommand(command, args).then(code => process.exit(code));
+}
@@ -3,8 +3,8 @@
  *
  * Detects breaking changes between node versions by:
  * 1. Consulting the hardcoded breaking changes registry
- * 2. Dynamically comparing property schemas between versions
- * 3. Analyzing property requirement changes
+ * 2. Deriving changes from the stored properties of each version (NodeVersionDiffer)
+ * 3. Dynamically comparing property schemas between versions as a fallback
  *
  * Used by the autofixer to intelligently upgrade node versions.
  */
@@ -16,6 +16,7 @@ import {
   getBreakingChangesForNode,
   getAllChangesForNode
 } from './breaking-changes-registry';
+import { DerivedBreakingChangeRegistry } from './node-version-differ';
 
 export interface DetectedChange {
   propertyName: string;
@@ -27,7 +28,7 @@ export interface DetectedChange {
   autoMigratable: boolean;
   migrationStrategy?: any;
   severity: 'LOW' | 'MEDIUM' | 'HIGH';
-  source: 'registry' | 'dynamic'; // Where this change was detected
+  source: 'registry' | 'derived' | 'dynamic'; // Where this change was detected
 }
 
 export interface VersionUpgradeAnalysis {
@@ -43,7 +44,11 @@ export interface VersionUpgradeAnalysis {
 }
 
 export class BreakingChangeDetector {
-  constructor(private nodeRepository: NodeRepository) {}
+  private derivedRegistry: DerivedBreakingChangeRegistry;
+
+  constructor(private nodeRepository: NodeRepository) {
+    this.derivedRegistry = new DerivedBreakingChangeRegistry(nodeRepository);
+  }
 
   /**
    * Analyze a version upgrade and detect all changes
@@ -56,8 +61,10 @@ export class BreakingChangeDetector {
     // Get changes from registry
     const registryChanges = this.getRegistryChanges(nodeType, fromVersion, toVersion);
 
-    // Get dynamic changes by comparing schemas
-    const dynamicChanges = this.detectDynamicChanges(nodeType, fromVersion, toVersion);
+    // Get changes derived from the stored version schemas, or compare
+    // the schemas directly if they are not available
+    const derivedChanges = this.getDerivedChanges(nodeType, fromVersion, toVersion);
+    const dynamicChanges = derivedChanges ?? this.detectDynamicChanges(nodeType, fromVersion, toVersion);
 
     // Merge and deduplicate changes
     const allChanges = this.mergeChanges(registryChanges, dynamicChanges);
@@ -110,6 +117,33 @@ export class BreakingChangeDetector {
     }));
   }
 
+  /**
+   * Get changes derived from the properties of the stored node versions
+   *
+   * @returns null if the versions are not stored
+   */
+  private getDerivedChanges(
+    nodeType: string,
+    fromVersion: string,
+    toVersion: string
+  ): DetectedChange[] | null {
+    const changes = this.derivedRegistry.getChangesBetween(nodeType, fromVersion, toVersion);
+    if (!changes) return null;
+
+    return changes.map(change => ({
+      propertyName: change.propertyName,
+      changeType: change.changeType,
+      isBreaking: change.isBreaking,
+      oldValue: change.oldValue,
+      newValue: change.newValue,
+      migrationHint: change.migrationHint,
+      autoMigratable: change.autoMigratable,
+      migrationStrategy: change.migrationStrategy,
+      severity: change.severity,
+      source: 'derived' as const
+    }));
+  }
+
   /**
    * Dynamically detect changes by comparing property schemas
    */
@@ -308,7 +342,10 @@ export class BreakingChangeDetector {
    */
   hasBreakingChanges(nodeType: string, fromVersion: string, toVersion: string): boolean {
     const registryChanges = getBreakingChangesForNode(nodeType, fromVersion, toVersion);
-    return registryChanges.length > 0;
+    if (registryChanges.length > 0) return true;
+
+    const derivedChanges = this.derivedRegistry.getChangesBetween(nodeType, fromVersion, toVersion) || [];
+    return derivedChanges.some(c => c.isBreaking);
   }
 
   /**
@@ -316,6 +353,7 @@ export class BreakingChangeDetector {
    */
   getChangedProperties(nodeType: string, fromVersion: string, toVersion: string): string[] {
     const registryChanges = getAllChangesForNode(nodeType, fromVersion, toVersion);
-    return registryChanges.map(c => c.propertyName);
+    const derivedChanges = this.derivedRegistry.getChangesBetween(nodeType, fromVersion, toVersion) || [];
+    return [...new Set([...registryChanges, ...derivedChanges].map(c => c.propertyName))];
   }
 }
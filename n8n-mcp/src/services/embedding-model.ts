@@ -0,0 +1,181 @@
+/**
+ * Embedding Model
+ *
+ * Sentence embeddings for semantic search, computed locally with a small ONNX
+ * model (all-MiniLM-L6-v2 by default) through @huggingface/transformers. The
+ * library is an optional peer dependency and the model is not bundled with
+ * the package (about 23 MB of weights plus the ONNX runtime for every
+ * install), so semantic search is opt-in:
+ * - SEMANTIC_SEARCH_MODEL_PATH: directory holding the model under its id
+ *   (<path>/onnx-community/all-MiniLM-L6-v2-ONNX/, e.g. baked into a Docker
+ *   image) - nothing is downloaded
+ * - SEMANTIC_SEARCH_MODEL_DOWNLOAD=true: download the model from the Hugging
+ *   Face Hub once into SEMANTIC_SEARCH_MODEL_CACHE (default data/models)
+ *
+ * Vectors are mean-pooled and L2-normalized, so cosine similarity is a dot
+ * product.
+ */
+
+import * as path from 'path';
+import { logger } from '../utils/logger';
+
+export const DEFAULT_EMBEDDING_MODEL = 'onnx-community/all-MiniLM-L6-v2-ONNX';
+export const DEFAULT_MODEL_CACHE_DIR = path.join(__dirname, '../../data/models');
+
+const TRANSFORMERS_PACKAGE = '@huggingface/transformers';
+// Texts embedded per model call during indexing
+const EMBEDDING_BATCH_SIZE = 32;
+
+export interface EmbeddingModel {
+  /** Stored with every vector - vectors of another model are recomputed */
+  readonly id: string;
+  embed(texts: string[]): Promise<Float32Array[]>;
+}
+
+export interface EmbeddingModelConfig {
+  model: string;
+  /** Directory with bundled model files; remote downloads are disabled */
+  localPath?: string;
+  /** Download the model from the Hugging Face Hub if it is not cached yet */
+  allowDownload: boolean;
+  cacheDir: string;
+}
+
+/**
+ * The parts of @huggingface/transformers used here
+ */
+export interface TransformersLibrary {
+  env: {
+    allowRemoteModels: boolean;
+    allowLocalModels: boolean;
+    localModelPath: string;
+    cacheDir: string | null;
+  };
+  pipeline(
+    task: 'feature-extraction',
+    model: string,
+    options?: Record<string, unknown>
+  ): Promise<(texts: string[], options: { pooling: 'mean'; normalize: boolean }) => Promise<{ data: ArrayLike<number>; dims: number[] }>>;
+}
+
+export class EmbeddingModelUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EmbeddingModelUnavailableError';
+  }
+}
+
+/**
+ * Read the model configuration, or null when semantic search is not enabled
+ */
+export function getEmbeddingModelConfig(): EmbeddingModelConfig | null {
+  const localPath = process.env.SEMANTIC_SEARCH_MODEL_PATH?.trim() || undefined;
+  const allowDownload = process.env.SEMANTIC_SEARCH_MODEL_DOWNLOAD === 'true';
+  if (!localPath && !allowDownload) return null;
+
+  return {
+    model: process.env.SEMANTIC_SEARCH_MODEL?.trim() || DEFAULT_EMBEDDING_MODEL,
+    localPath,
+    allowDownload: allowDownload && !localPath,
+    cacheDir: process.env.SEMANTIC_SEARCH_MODEL_CACHE?.trim() || DEFAULT_MODEL_CACHE_DIR
+  };
+}
+
+/**
+ * Why semantic search is not available with the current configuration
+ */
+export const EMBEDDING_MODEL_NOT_CONFIGURED =
+  'Semantic search is not enabled. Install @huggingface/transformers and set SEMANTIC_SEARCH_MODEL_PATH to a local model directory, or SEMANTIC_SEARCH_MODEL_DOWNLOAD=true to download the model once.';
+
+/**
+ * Load the configured model. Throws EmbeddingModelUnavailableError when
+ * semantic search is not configured or the library/model cannot be loaded.
+ */
+export async function loadEmbeddingModel(
+  config: EmbeddingModelConfig | null = getEmbeddingModelConfig(),
+  loadLibrary: () => TransformersLibrary = requireTransformers
+): Promise<EmbeddingModel> {
+  if (!config) {
+    throw new EmbeddingModelUnavailableError(EMBEDDING_MODEL_NOT_CONFIGURED);
+  }
+
+  let library: TransformersLibrary;
+  try {
+    library = loadLibrary();
+  } catch (error) {
+    logger.debug(`Could not load ${TRANSFORMERS_PACKAGE}`, error);
+    throw new EmbeddingModelUnavailableError(
+      `Semantic search needs the optional package ${TRANSFORMERS_PACKAGE}. Install it with: npm install ${TRANSFORMERS_PACKAGE}`
+    );
+  }
+
+  if (config.localPath) {
+    library.env.localModelPath = config.localPath;
+    library.env.allowLocalModels = true;
+    library.env.allowRemoteModels = false;
+  } else {
+    library.env.allowRemoteModels = config.allowDownload;
+    library.env.cacheDir = config.cacheDir;
+  }
+
+  try {
+    const extractor = await library.pipeline('feature-extraction', config.model, { dtype: 'q8' });
+    logger.info(`Loaded embedding model ${config.model}`);
+    return new TransformersEmbeddingModel(config.model, extractor);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new EmbeddingModelUnavailableError(
+      config.localPath
+        ? `Could not load embedding model ${config.model} from ${config.localPath}: ${reason}`
+        : `Could not load or download embedding model ${config.model}: ${reason}`
+    );
+  }
+}
+
+class TransformersEmbeddingModel implements EmbeddingModel {
+  constructor(
+    readonly id: string,
+    private extractor: Awaited<ReturnType<TransformersLibrary['pipeline']>>
+  ) {}
+
+  async embed(texts: string[]): Promise<Float32Array[]> {
+    const vectors: Float32Array[] = [];
+    for (let start = 0; start < texts.length; start += EMBEDDING_BATCH_SIZE) {
+      const batch = texts.slice(start, start + EMBEDDING_BATCH_SIZE);
+      const output = await this.extractor(batch, { pooling: 'mean', normalize: true });
+      const dimensions = output.dims[output.dims.length - 1];
+      for (let i = 0; i < batch.length; i++) {
+        vectors.push(Float32Array.from(Array.prototype.slice.call(output.data, i * dimensions, (i + 1) * dimensions)));
+      }
+    }
+    return vectors;
+  }
+}
+
+function requireTransformers(): TransformersLibrary {
+  // Optional peer dependency - resolved at runtime only
+  return require(TRANSFORMERS_PACKAGE);
+}
+
+/**
+ * Cosine similarity of two normalized vectors. Vectors of different length
+ * (another model) are unrelated.
+ */
+export function cosineSimilarity(a: Float32Array, b: Float32Array): number {
+  if (a.length !== b.length) return 0;
+  let dot = 0;
+  for (let i = 0; i < a.length; i++) dot += a[i] * b[i];
+  return dot;
+}
+
+export function vectorToBuffer(vector: Float32Array): Buffer {
+  return Buffer.from(vector.buffer, vector.byteOffset, vector.byteLength);
+}
+
+/**
+ * Read a vector back from a BLOB (Buffer with better-sqlite3, Uint8Array with sql.js)
+ */
+export function bufferToVector(blob: Uint8Array): Float32Array {
+  // Copy: the blob's offset is not guaranteed to be 4-byte aligned
+  return new Float32Array(Uint8Array.from(blob).buffer);
+}
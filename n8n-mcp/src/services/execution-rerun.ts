@@ -0,0 +1,188 @@
+/**
+ * Execution Re-run Service
+ *
+ * Replays a failed execution from the node that failed, without re-triggering
+ * external systems. The outputs the upstream nodes produced in the failed
+ * execution become their pinned data, and the current (patched) workflow is
+ * run by the offline simulator. Whether the fix works is then read from the
+ * simulated run of the failed node.
+ *
+ * The n8n public API cannot start manual executions, so the replay is local.
+ * The same outputs can be pinned on the workflow with n8n_pin_data, which saves
+ * pinData through the workflow update endpoint, but only a run started from the
+ * n8n editor uses them. Nodes the simulator cannot execute (HTTP Request,
+ * Slack, ...) are stubbed - their fix has to be verified with a real retry.
+ *
+ * The replay runs workflow code like simulate_workflow, so it is disabled in
+ * HTTP mode unless ENABLE_HTTP_SIMULATION=true (checked by the handler).
+ */
+
+import { Execution, Workflow } from '../types/n8n-api';
+import { isNonExecutableNode } from '../utils/node-classification';
+import { processErrorExecution } from './error-execution-processor';
+import { simulateWorkflow, SimulationResult } from './workflow-simulator';
+
+export type PinnedItem = { json: Record<string, unknown> };
+
+export interface ExecutionRerunPlan {
+  executionId: string;
+  workflowId: string;
+  /** Node the execution is replayed for - the failed node by default */
+  fromNode: string;
+  /** Node the replay starts at (the trigger of the failed execution) */
+  startNode?: string;
+  /** Recorded outputs of the upstream nodes, in n8n pinData format */
+  pinData: Record<string, PinnedItem[]>;
+  pinnedNodes: Array<{ nodeName: string; itemCount: number }>;
+  /** Upstream nodes that are recomputed instead of pinned */
+  unpinnedNodes: Array<{ nodeName: string; reason: string }>;
+}
+
+export type RerunVerdict = 'passed' | 'failed' | 'not_reached' | 'not_verifiable';
+
+export interface ExecutionRerunResult {
+  plan: ExecutionRerunPlan;
+  /**
+   * passed/failed: the failed node ran in the simulator with/without an error.
+   * not_reached: the replay never got to it. not_verifiable: the simulator
+   * stubs its node type.
+   */
+  verdict: RerunVerdict;
+  simulation: SimulationResult;
+}
+
+export interface ExecutionRerunOptions {
+  /** Node to replay. Defaults to the node the execution failed at */
+  fromNode?: string;
+  /** Stubbed outputs by node name, passed on to the simulator */
+  fixtures?: Record<string, unknown[]>;
+}
+
+/**
+ * Work out which node to replay and pin the recorded outputs of every node
+ * upstream of it
+ */
+export function buildRerunPlan(execution: Execution, workflow: Workflow, fromNode?: string): ExecutionRerunPlan {
+  const runData = (execution.data?.resultData?.runData ?? {}) as Record<string, any[]>;
+  if (Object.keys(runData).length === 0) {
+    throw new Error(
+      `Execution ${execution.id} has no run data to replay. Enable saveDataErrorExecution on the workflow so failed executions keep their data.`
+    );
+  }
+
+  const target = fromNode ?? failedNodeName(execution, workflow);
+  if (!target) {
+    throw new Error(`Could not determine the failed node of execution ${execution.id}. Set fromNode to choose the node to replay.`);
+  }
+  if (!workflow.nodes.some(node => node.name === target)) {
+    throw new Error(`Node "${target}" not found in workflow ${workflow.id ?? execution.workflowId}`);
+  }
+
+  const plan: ExecutionRerunPlan = {
+    executionId: execution.id,
+    workflowId: execution.workflowId,
+    fromNode: target,
+    pinData: {},
+    pinnedNodes: [],
+    unpinnedNodes: []
+  };
+
+  const ancestors = findAncestors(target, workflow);
+  for (const nodeName of ancestors) {
+    const lastRun = runData[nodeName]?.[runData[nodeName].length - 1];
+    const outputs: unknown[][] | undefined = lastRun?.data?.main;
+    if (!lastRun || lastRun.error || !Array.isArray(outputs)) {
+      plan.unpinnedNodes.push({ nodeName, reason: 'Did not run successfully in the execution' });
+      continue;
+    }
+    // pinData only sets output 0, so branching nodes are recomputed from their pinned inputs
+    if (outputs.slice(1).some(items => Array.isArray(items) && items.length > 0)) {
+      plan.unpinnedNodes.push({ nodeName, reason: 'Emitted items on more than one output' });
+      continue;
+    }
+
+    const items = (outputs[0] ?? []).map(toPinnedItem);
+    plan.pinData[nodeName] = items;
+    plan.pinnedNodes.push({ nodeName, itemCount: items.length });
+  }
+
+  plan.startNode = ancestors.find(name => !hasIncomingConnection(name, workflow) && plan.pinData[name] !== undefined);
+  return plan;
+}
+
+/**
+ * Replay the execution against the workflow. The workflow's own pinned data
+ * is replaced by the recorded outputs.
+ */
+export function rerunFromNode(
+  execution: Execution,
+  workflow: Workflow,
+  options: ExecutionRerunOptions = {}
+): ExecutionRerunResult {
+  const plan = buildRerunPlan(execution, workflow, options.fromNode);
+  if (!plan.startNode) {
+    throw new Error(`No recorded trigger output upstream of "${plan.fromNode}" - nothing to replay the execution from`);
+  }
+
+  const simulation = simulateWorkflow(
+    { ...workflow, pinData: plan.pinData },
+    { startNode: plan.startNode, fixtures: options.fixtures }
+  );
+
+  return { plan, verdict: verdictFor(plan.fromNode, simulation), simulation };
+}
+
+function verdictFor(nodeName: string, simulation: SimulationResult): RerunVerdict {
+  const node = simulation.nodes[nodeName];
+  if (!node || (node.runs.length === 0 && !node.error)) return 'not_reached';
+  if (node.error || simulation.error?.node === nodeName) return 'failed';
+  if (node.stubbed === 'passthrough') return 'not_verifiable';
+  return 'passed';
+}
+
+function failedNodeName(execution: Execution, workflow: Workflow): string | undefined {
+  const { primaryError } = processErrorExecution(execution, { workflow, itemsLimit: 0, includeExecutionPath: false });
+  return primaryError.nodeName !== 'Unknown' ? primaryError.nodeName : undefined;
+}
+
+/**
+ * Every node with a path to the target, nearest first
+ */
+function findAncestors(target: string, workflow: Workflow): string[] {
+  const sources = new Map<string, string[]>();
+  for (const [sourceName, outputs] of Object.entries(workflow.connections ?? {})) {
+    for (const branch of (outputs as Record<string, any>)?.main ?? []) {
+      for (const connection of Array.isArray(branch) ? branch : []) {
+        if (!connection?.node) continue;
+        sources.set(connection.node, [...(sources.get(connection.node) ?? []), sourceName]);
+      }
+    }
+  }
+
+  const executable = new Set(workflow.nodes.filter(node => !isNonExecutableNode(node.type)).map(node => node.name));
+  const ancestors: string[] = [];
+  const queue = [target];
+  const visited = new Set(queue);
+  while (queue.length > 0) {
+    for (const source of sources.get(queue.shift()!) ?? []) {
+      if (visited.has(source) || !executable.has(source)) continue;
+      visited.add(source);
+      ancestors.push(source);
+      queue.push(source);
+    }
+  }
+  return ancestors;
+}
+
+function hasIncomingConnection(nodeName: string, workflow: Workflow): boolean {
+  return Object.values(workflow.connections ?? {}).some(outputs =>
+    ((outputs as Record<string, any>)?.main ?? []).some((branch: unknown) =>
+      Array.isArray(branch) && branch.some(connection => connection?.node === nodeName)
+    )
+  );
+}
+
+function toPinnedItem(item: unknown): PinnedItem {
+  const json = (item as { json?: unknown })?.json;
+  return { json: json && typeof json === 'object' && !Array.isArray(json) ? json as Record<string, unknown> : {} };
+}
@@ -0,0 +1,177 @@
+/**
+ * Execution Waiter
+ *
+ * Finds the execution a trigger started and polls it until it finishes.
+ * Webhook responses do not carry the execution ID - with responseMode
+ * onReceived they return before the workflow has even run - so the execution
+ * is correlated by listing the workflow's executions: the oldest one that did
+ * not exist before the trigger and did not start before it is the triggered
+ * one. When several such executions show up (a concurrent run of the same
+ * workflow) the pick is a guess and the result says so.
+ *
+ * Start times come from the n8n server's clock and the trigger time from the
+ * local one, so "before the trigger" allows for clock skew. Queued executions
+ * have no start time yet; they are not taken until they have started.
+ */
+
+import { Execution, ExecutionStatus } from '../types/n8n-api';
+import { N8nApiClient } from './n8n-api-client';
+
+export type ExecutionWaitOutcome = 'finished' | 'waiting' | 'timeout';
+
+/** pending: the triggered execution has not shown up yet */
+export type ExecutionWaitState = 'pending' | 'running' | 'finished' | 'waiting';
+
+/**
+ * How the execution was found: reported by the trigger, the only new
+ * execution of the workflow, or the oldest of several new ones
+ */
+export type ExecutionCorrelation = 'reported' | 'matched' | 'inferred';
+
+export interface ExecutionWaitProgress {
+  elapsedMs: number;
+  timeoutMs: number;
+  executionId?: string;
+  state: ExecutionWaitState;
+  message: string;
+}
+
+export interface ExecutionWaitOptions {
+  /** Workflow the triggered execution belongs to */
+  workflowId: string;
+  /** Executions of the workflow that existed before the trigger */
+  knownExecutionIds: Set<string>;
+  /** Execution ID, if the trigger already reported it */
+  executionId?: string;
+  /**
+   * Time the trigger was sent (epoch ms, local clock) - executions started
+   * more than CLOCK_SKEW_TOLERANCE_MS earlier are not the triggered one
+   */
+  triggeredAt?: number;
+  timeout?: number;
+  pollInterval?: number;
+  onProgress?: (progress: ExecutionWaitProgress) => void;
+}
+
+export interface ExecutionWaitResult {
+  outcome: ExecutionWaitOutcome;
+  executionId?: string;
+  correlation?: ExecutionCorrelation;
+  /** Last state of the execution - with run data unless the wait timed out */
+  execution?: Execution;
+  elapsedMs: number;
+  polls: number;
+}
+
+export const DEFAULT_WAIT_TIMEOUT_MS = 120000;
+export const DEFAULT_POLL_INTERVAL_MS = 2000;
+
+// Executions listed per poll - enough to see past concurrent runs of the workflow
+const LIST_LIMIT = 20;
+
+// How far the n8n server's clock may be behind the local one
+export const CLOCK_SKEW_TOLERANCE_MS = 5 * 60 * 1000;
+
+/**
+ * IDs of the latest executions of a workflow, taken before triggering it
+ */
+export async function listExecutionIds(client: N8nApiClient, workflowId: string): Promise<Set<string>> {
+  const { data } = await client.listExecutions({ workflowId, limit: LIST_LIMIT });
+  return new Set(data.map(execution => execution.id));
+}
+
+/**
+ * Poll until the triggered execution has finished, stopped at a Wait node or
+ * form, or the timeout has passed
+ */
+export async function waitForExecution(
+  client: N8nApiClient,
+  options: ExecutionWaitOptions
+): Promise<ExecutionWaitResult> {
+  const timeoutMs = options.timeout ?? DEFAULT_WAIT_TIMEOUT_MS;
+  const pollInterval = options.pollInterval ?? DEFAULT_POLL_INTERVAL_MS;
+  const startTime = Date.now();
+  let executionId = options.executionId;
+  let correlation: ExecutionCorrelation | undefined = executionId ? 'reported' : undefined;
+  let execution: Execution | undefined;
+  let polls = 0;
+
+  for (;;) {
+    polls++;
+    if (executionId) {
+      execution = await client.getExecution(executionId);
+    } else {
+      const candidates = await findNewExecutions(client, options);
+      execution = candidates[0];
+      correlation = candidates.length > 1 ? 'inferred' : execution ? 'matched' : undefined;
+    }
+    executionId = execution?.id;
+
+    const state = execution ? executionState(execution) : 'pending';
+    const elapsedMs = Date.now() - startTime;
+    options.onProgress?.({
+      elapsedMs,
+      timeoutMs,
+      executionId,
+      state,
+      message: progressMessage(state, executionId, elapsedMs),
+    });
+
+    if (state === 'finished' || state === 'waiting') {
+      execution = await client.getExecution(executionId!, true);
+      return { outcome: state, executionId, correlation, execution, elapsedMs, polls };
+    }
+    if (elapsedMs >= timeoutMs) {
+      return { outcome: 'timeout', executionId, correlation, execution, elapsedMs, polls };
+    }
+    await new Promise(resolve => setTimeout(resolve, Math.min(pollInterval, timeoutMs - elapsedMs)));
+  }
+}
+
+/**
+ * State of an execution. The public API does not report running executions
+ * by status, so an execution without stoppedAt is still running.
+ */
+export function executionState(execution: Execution): Exclude<ExecutionWaitState, 'pending'> {
+  if (execution.status === ExecutionStatus.WAITING || execution.waitTill) return 'waiting';
+  if (execution.finished || execution.stoppedAt) return 'finished';
+  return 'running';
+}
+
+/**
+ * Started executions that may be the triggered one, oldest first. Queued
+ * executions are left out: without a start time they cannot be told apart
+ * from runs queued before the trigger, so they are picked up once started.
+ */
+async function findNewExecutions(client: N8nApiClient, options: ExecutionWaitOptions): Promise<Execution[]> {
+  const { data } = await client.listExecutions({ workflowId: options.workflowId, limit: LIST_LIMIT });
+  const earliestStart = options.triggeredAt === undefined ? undefined : options.triggeredAt - CLOCK_SKEW_TOLERANCE_MS;
+  return data
+    .filter(execution => !options.knownExecutionIds.has(execution.id))
+    .filter(execution => startedAtMs(execution) !== undefined)
+    .filter(execution => earliestStart === undefined || startedAtMs(execution)! >= earliestStart)
+    .sort((a, b) => startedAtMs(a)! - startedAtMs(b)!);
+}
+
+/**
+ * Start time of an execution, undefined while it is queued (startedAt is null
+ * in the API response)
+ */
+function startedAtMs(execution: Execution): number | undefined {
+  const time = Date.parse(execution.startedAt ?? '');
+  return Number.isNaN(time) ? undefined : time;
+}
+
+function progressMessage(state: ExecutionWaitState, executionId: string | undefined, elapsedMs: number): string {
+  const seconds = Math.round(elapsedMs / 1000);
+  switch (state) {
+    case 'pending':
+      return `Waiting for the execution to start (${seconds}s)`;
+    case 'running':
+      return `Execution ${executionId} is running (${seconds}s)`;
+    case 'waiting':
+      return `Execution ${executionId} is waiting`;
+    default:
+      return `Execution ${executionId} finished`;
+  }
+}
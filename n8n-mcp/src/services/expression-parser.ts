@@ -0,0 +1,1223 @@
+/**
+ * n8n Expression Parser
+ *
+ * Tokenizes and parses n8n expression strings ("=Hello {{ $json.name }}") into
+ * text and expression segments, each expression into a JavaScript AST.
+ * All positions are character offsets into the original string, so callers can
+ * report precise ranges. Function bodies with statements (`x => { ... }`) are
+ * kept as token lists rather than parsed.
+ */
+
+export interface SourceRange {
+  start: number;
+  end: number;
+}
+
+export type TokenType = 'identifier' | 'keyword' | 'number' | 'string' | 'template' | 'regex' | 'punctuator';
+
+export interface TemplatePart extends SourceRange {
+  kind: 'quasi' | 'expression';
+  value?: string;      // quasi text
+  tokens?: Token[];    // tokens of a ${ } placeholder
+}
+
+export interface Token extends SourceRange {
+  type: TokenType;
+  value: string;
+  parts?: TemplatePart[]; // template literals only
+}
+
+export type ExpressionSyntaxErrorCode =
+  | 'unclosed_expression'
+  | 'unmatched_close'
+  | 'nested_expression'
+  | 'empty_expression'
+  | 'syntax';
+
+export interface ExpressionSyntaxError extends SourceRange {
+  code: ExpressionSyntaxErrorCode;
+  message: string;
+}
+
+// ========================================================================
+// AST
+// ========================================================================
+
+interface BaseNode extends SourceRange {
+  type: string;
+}
+
+export interface IdentifierNode extends BaseNode { type: 'Identifier'; name: string }
+export interface LiteralNode extends BaseNode {
+  type: 'Literal';
+  kind: 'string' | 'number' | 'boolean' | 'null' | 'regex' | 'bigint';
+  value: string | number | boolean | null;
+  raw: string;
+}
+export interface ThisNode extends BaseNode { type: 'ThisExpression' }
+export interface TemplateLiteralNode extends BaseNode { type: 'TemplateLiteral'; quasis: string[]; expressions: ExpressionNode[] }
+export interface TaggedTemplateNode extends BaseNode { type: 'TaggedTemplateExpression'; tag: ExpressionNode; quasi: TemplateLiteralNode }
+export interface ArrayNode extends BaseNode { type: 'ArrayExpression'; elements: Array<ExpressionNode | null> }
+export interface PropertyNode extends BaseNode {
+  type: 'Property';
+  key: ExpressionNode;
+  value: ExpressionNode;
+  computed: boolean;
+  shorthand: boolean;
+}
+export interface ObjectNode extends BaseNode { type: 'ObjectExpression'; properties: Array<PropertyNode | SpreadNode> }
+export interface SpreadNode extends BaseNode { type: 'SpreadElement'; argument: ExpressionNode }
+export interface MemberNode extends BaseNode {
+  type: 'MemberExpression';
+  object: ExpressionNode;
+  property: ExpressionNode;
+  computed: boolean;
+  optional: boolean;
+}
+export interface CallNode extends BaseNode { type: 'CallExpression'; callee: ExpressionNode; arguments: ExpressionNode[]; optional: boolean }
+export interface NewNode extends BaseNode { type: 'NewExpression'; callee: ExpressionNode; arguments: ExpressionNode[] }
+export interface UnaryNode extends BaseNode { type: 'UnaryExpression'; operator: string; argument: ExpressionNode }
+export interface UpdateNode extends BaseNode { type: 'UpdateExpression'; operator: string; argument: ExpressionNode; prefix: boolean }
+export interface BinaryNode extends BaseNode { type: 'BinaryExpression'; operator: string; left: ExpressionNode; right: ExpressionNode }
+export interface ConditionalNode extends BaseNode { type: 'ConditionalExpression'; test: ExpressionNode; consequent: ExpressionNode; alternate: ExpressionNode }
+export interface AssignmentNode extends BaseNode { type: 'AssignmentExpression'; operator: string; left: ExpressionNode; right: ExpressionNode }
+export interface SequenceNode extends BaseNode { type: 'SequenceExpression'; expressions: ExpressionNode[] }
+export interface BlockBodyNode extends BaseNode { type: 'BlockBody'; tokens: Token[] }
+export interface FunctionNode extends BaseNode {
+  type: 'ArrowFunctionExpression' | 'FunctionExpression';
+  params: ExpressionNode[];
+  body: ExpressionNode | BlockBodyNode;
+}
+
+export type ExpressionNode =
+  | IdentifierNode
+  | LiteralNode
+  | ThisNode
+  | TemplateLiteralNode
+  | TaggedTemplateNode
+  | ArrayNode
+  | ObjectNode
+  | PropertyNode
+  | SpreadNode
+  | MemberNode
+  | CallNode
+  | NewNode
+  | UnaryNode
+  | UpdateNode
+  | BinaryNode
+  | ConditionalNode
+  | AssignmentNode
+  | SequenceNode
+  | FunctionNode
+  | BlockBodyNode;
+
+export interface ExpressionSegment extends SourceRange {
+  kind: 'text' | 'expression';
+  /** Text content, or the code between {{ and }} */
+  value: string;
+  /** Offset of `value` in the original string */
+  valueStart: number;
+  ast?: ExpressionNode;
+}
+
+export interface ParsedExpressionTemplate {
+  source: string;
+  /** Whether the string starts with the "=" expression prefix */
+  hasPrefix: boolean;
+  segments: ExpressionSegment[];
+  errors: ExpressionSyntaxError[];
+}
+
+// ========================================================================
+// Tokenizer
+// ========================================================================
+
+const KEYWORDS = new Set([
+  'true', 'false', 'null', 'this', 'typeof', 'instanceof', 'in', 'of', 'new', 'void', 'delete',
+  'function', 'return', 'if', 'else', 'for', 'while', 'do', 'const', 'let', 'var', 'await', 'async',
+  'class', 'throw', 'try', 'catch', 'finally', 'switch', 'case', 'default', 'break', 'continue'
+]);
+
+// Longest first
+const PUNCTUATORS = [
+  '>>>=', '...', '===', '!==', '**=', '<<=', '>>=', '>>>', '&&=', '||=', '??=',
+  '=>', '==', '!=', '<=', '>=', '&&', '||', '??', '?.', '++', '--', '+=', '-=', '*=', '/=', '%=',
+  '&=', '|=', '^=', '**', '<<', '>>',
+  '{', '}', '(', ')', '[', ']', ';', ',', '<', '>', '+', '-', '*', '/', '%', '&', '|', '^', '!', '~',
+  '?', ':', '=', '.', '@', '#'
+];
+
+const ID_START = /[\p{ID_Start}$_]/u;
+const ID_CONTINUE = /[\p{ID_Continue}$‌‍]/u;
+
+class ParseError extends Error {
+  constructor(message: string, public readonly start: number, public readonly end: number) {
+    super(message);
+  }
+}
+
+/**
+ * Tokenizer over a source string. tokenizeSegment() stops at the closing "}}"
+ * of an n8n expression; tokenizeUntil() reads to the end of the input or a placeholder's closing "}".
+ */
+class Tokenizer {
+  pos: number;
+  nestedAt: number | null = null;
+
+  constructor(private readonly src: string, start: number = 0) {
+    this.pos = start;
+  }
+
+  /**
+   * Read tokens up to the "}}" that closes the current expression.
+   * Returns closed=false if the input ended first.
+   */
+  tokenizeSegment(): { tokens: Token[]; closed: boolean; end: number } {
+    const tokens: Token[] = [];
+    let depth = 0;
+
+    while (true) {
+      this.skipTrivia();
+      if (this.pos >= this.src.length) {
+        return { tokens, closed: false, end: this.pos };
+      }
+
+      if (depth === 0 && this.src.startsWith('}}', this.pos)) {
+        return { tokens, closed: true, end: this.pos };
+      }
+
+      if (this.src.startsWith('{{', this.pos) && this.nestedAt === null) {
+        this.nestedAt = this.pos;
+      }
+
+      const token = this.readToken(tokens[tokens.length - 1]);
+      if (token.type === 'punctuator') {
+        if (token.value === '{') depth++;
+        if (token.value === '}') depth = Math.max(0, depth - 1);
+      }
+      tokens.push(token);
+    }
+  }
+
+  /**
+   * Read all tokens to the end of input (or to the "}" closing a ${ } placeholder)
+   */
+  tokenizeUntil(closeBrace: boolean): Token[] {
+    const tokens: Token[] = [];
+    let depth = 0;
+
+    while (true) {
+      this.skipTrivia();
+      if (this.pos >= this.src.length) {
+        if (closeBrace) throw new ParseError('Unterminated template literal placeholder', this.pos, this.pos);
+        return tokens;
+      }
+      if (closeBrace && depth === 0 && this.src[this.pos] === '}') {
+        return tokens;
+      }
+
+      const token = this.readToken(tokens[tokens.length - 1]);
+      if (token.type === 'punctuator') {
+        if (token.value === '{') depth++;
+        if (token.value === '}') depth--;
+      }
+      tokens.push(token);
+    }
+  }
+
+  private skipTrivia(): void {
+    while (this.pos < this.src.length) {
+      const ch = this.src[this.pos];
+      if (/\s/.test(ch)) {
+        this.pos++;
+      } else if (this.src.startsWith('//', this.pos)) {
+        const newline = this.src.indexOf('\n', this.pos);
+        // A line comment must not swallow the closing }} of the expression
+        const close = this.src.indexOf('}}', this.pos);
+        const end = [newline, close].filter(i => i >= 0);
+        this.pos = end.length > 0 ? Math.min(...end) : this.src.length;
+      } else if (this.src.startsWith('/*', this.pos)) {
+        const end = this.src.indexOf('*/', this.pos + 2);
+        if (end < 0) throw new ParseError('Unterminated comment', this.pos, this.src.length);
+        this.pos = end + 2;
+      } else {
+        break;
+      }
+    }
+  }
+
+  private readToken(previous: Token | undefined): Token {
+    const start = this.pos;
+    const ch = this.src[this.pos];
+
+    if (ch === '"' || ch === "'") return this.readString(ch);
+    if (ch === '`') return this.readTemplate();
+    if (/[0-9]/.test(ch) || (ch === '.' && /[0-9]/.test(this.src[this.pos + 1] || ''))) return this.readNumber();
+
+    const codePoint = this.src.codePointAt(this.pos)!;
+    const char = String.fromCodePoint(codePoint);
+    if (ID_START.test(char) || ch === '\\') {
+      let value = '';
+      while (this.pos < this.src.length) {
+        const cp = this.src.codePointAt(this.pos)!;
+        const c = String.fromCodePoint(cp);
+        if (!ID_CONTINUE.test(c)) break;
+        value += c;
+        this.pos += c.length;
+      }
+      if (!value) throw new ParseError(`Unexpected character "${ch}"`, start, start + 1);
+      return { type: KEYWORDS.has(value) ? 'keyword' : 'identifier', value, start, end: this.pos };
+    }
+
+    if (ch === '/' && this.regexAllowed(previous)) return this.readRegex();
+
+    for (const punctuator of PUNCTUATORS) {
+      if (this.src.startsWith(punctuator, this.pos)) {
+        // "?." followed by a digit is a conditional with a decimal (a?.5:1)
+        if (punctuator === '?.' && /[0-9]/.test(this.src[this.pos + 2] || '')) continue;
+        this.pos += punctuator.length;
+        return { type: 'punctuator', value: punctuator, start, end: this.pos };
+      }
+    }
+
+    throw new ParseError(`Unexpected character "${char}"`, start, start + char.length);
+  }
+
+  private regexAllowed(previous: Token | undefined): boolean {
+    if (!previous) return true;
+    if (previous.type === 'punctuator') return ![')', ']', '}', '++', '--'].includes(previous.value);
+    if (previous.type === 'keyword') return !['this', 'true', 'false', 'null'].includes(previous.value);
+    return false;
+  }
+
+  private readString(quote: string): Token {
+    const start = this.pos++;
+    let value = '';
+    while (this.pos < this.src.length) {
+      const ch = this.src[this.pos];
+      if (ch === quote) {
+        this.pos++;
+        return { type: 'string', value, start, end: this.pos };
+      }
+      if (ch === '\\') {
+        value += this.readEscape();
+        continue;
+      }
+      if (ch === '\n') break;
+      value += ch;
+      this.pos++;
+    }
+    throw new ParseError('Unterminated string literal', start, this.pos);
+  }
+
+  private readEscape(): string {
+    const next = this.src[this.pos + 1];
+    this.pos += 2;
+    const simple: Record<string, string> = { n: '\n', t: '\t', r: '\r', b: '\b', f: '\f', v: '\v', '0': '\0' };
+    if (next === undefined) return '';
+    if (next in simple) return simple[next];
+    if (next === 'u' || next === 'x') {
+      const match = next === 'x'
+        ? /^[0-9a-fA-F]{2}/.exec(this.src.slice(this.pos))
+        : /^(\{[0-9a-fA-F]+\}|[0-9a-fA-F]{4})/.exec(this.src.slice(this.pos));
+      if (match) {
+        this.pos += match[0].length;
+        return String.fromCodePoint(parseInt(match[0].replace(/[{}]/g, ''), 16));
+      }
+    }
+    return next;
+  }
+
+  private readTemplate(): Token {
+    const start = this.pos++;
+    const parts: TemplatePart[] = [];
+    let quasiStart = this.pos;
+    let quasi = '';
+
+    while (this.pos < this.src.length) {
+      const ch = this.src[this.pos];
+      if (ch === '`') {
+        parts.push({ kind: 'quasi', value: quasi, start: quasiStart, end: this.pos });
+        this.pos++;
+        return { type: 'template', value: this.src.slice(start, this.pos), start, end: this.pos, parts };
+      }
+      if (ch === '\\') {
+        quasi += this.readEscape();
+        continue;
+      }
+      if (this.src.startsWith('${', this.pos)) {
+        parts.push({ kind: 'quasi', value: quasi, start: quasiStart, end: this.pos });
+        const exprStart = this.pos;
+        this.pos += 2;
+        const tokens = this.tokenizeUntil(true);
+        this.pos++; // closing }
+        parts.push({ kind: 'expression', tokens, start: exprStart, end: this.pos });
+        quasi = '';
+        quasiStart = this.pos;
+        continue;
+      }
+      quasi += ch;
+      this.pos++;
+    }
+    throw new ParseError('Unterminated template literal', start, this.pos);
+  }
+
+  private readNumber(): Token {
+    const start = this.pos;
+    const match = /^(0[xX][0-9a-fA-F_]+|0[bB][01_]+|0[oO][0-7_]+|(\d[\d_]*)?\.?[\d_]*([eE][+-]?\d+)?)n?/.exec(this.src.slice(this.pos));
+    const raw = match ? match[0] : this.src[this.pos];
+    this.pos += raw.length;
+    if (this.pos < this.src.length && ID_START.test(this.src[this.pos])) {
+      throw new ParseError('Identifier directly after number', start, this.pos + 1);
+    }
+    return { type: 'number', value: raw, start, end: this.pos };
+  }
+
+  private readRegex(): Token {
+    const start = this.pos++;
+    let inClass = false;
+    while (this.pos < this.src.length) {
+      const ch = this.src[this.pos];
+      if (ch === '\n') break;
+      if (ch === '\\') {
+        this.pos += 2;
+        continue;
+      }
+      if (ch === '[') inClass = true;
+      else if (ch === ']') inClass = false;
+      else if (ch === '/' && !inClass) {
+        this.pos++;
+        while (this.pos < this.src.length && /[a-z]/i.test(this.src[this.pos])) this.pos++;
+        return { type: 'regex', value: this.src.slice(start, this.pos), start, end: this.pos };
+      }
+      this.pos++;
+    }
+    throw new ParseError('Unterminated regular expression', start, this.pos);
+  }
+}
+
+// ========================================================================
+// Parser
+// ========================================================================
+
+const BINARY_PRECEDENCE: Record<string, number> = {
+  '??': 1,
+  '||': 2,
+  '&&': 3,
+  '|': 4,
+  '^': 5,
+  '&': 6,
+  '==': 7, '!=': 7, '===': 7, '!==': 7,
+  '<': 8, '>': 8, '<=': 8, '>=': 8, 'instanceof': 8, 'in': 8,
+  '<<': 9, '>>': 9, '>>>': 9,
+  '+': 10, '-': 10,
+  '*': 11, '/': 11, '%': 11,
+  '**': 12
+};
+
+const ASSIGNMENT_OPERATORS = new Set(['=', '+=', '-=', '*=', '/=', '%=', '**=', '<<=', '>>=', '>>>=', '&=', '|=', '^=', '&&=', '||=', '??=']);
+
+class Parser {
+  private index = 0;
+
+  constructor(private readonly tokens: Token[], private readonly endPos: number) {}
+
+  parseProgram(): ExpressionNode {
+    const node = this.parseSequence();
+    // A trailing semicolon is harmless
+    while (this.is('punctuator', ';')) this.index++;
+    if (this.peek()) {
+      const token = this.peek()!;
+      throw new ParseError(`Unexpected token "${token.value}"`, token.start, token.end);
+    }
+    return node;
+  }
+
+  private peek(offset: number = 0): Token | undefined {
+    return this.tokens[this.index + offset];
+  }
+
+  private is(type: TokenType, value?: string, offset: number = 0): boolean {
+    const token = this.peek(offset);
+    return !!token && token.type === type && (value === undefined || token.value === value);
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.index++];
+    if (!token) throw new ParseError('Unexpected end of expression', this.endPos, this.endPos);
+    return token;
+  }
+
+  private expect(value: string): Token {
+    const token = this.peek();
+    if (!token || token.value !== value || (token.type !== 'punctuator' && token.type !== 'keyword')) {
+      const at = token ?? { start: this.endPos, end: this.endPos, value: 'end of expression' };
+      throw new ParseError(`Expected "${value}" but found "${at.value}"`, at.start, at.end);
+    }
+    this.index++;
+    return token;
+  }
+
+  private parseSequence(): ExpressionNode {
+    const first = this.parseAssignment();
+    if (!this.is('punctuator', ',')) return first;
+
+    const expressions = [first];
+    while (this.is('punctuator', ',')) {
+      this.index++;
+      expressions.push(this.parseAssignment());
+    }
+    return { type: 'SequenceExpression', expressions, start: first.start, end: expressions[expressions.length - 1].end };
+  }
+
+  private parseAssignment(): ExpressionNode {
+    const arrow = this.tryParseArrow();
+    if (arrow) return arrow;
+
+    const left = this.parseConditional();
+    const token = this.peek();
+    if (token?.type === 'punctuator' && ASSIGNMENT_OPERATORS.has(token.value)) {
+      this.index++;
+      const right = this.parseAssignment();
+      return { type: 'AssignmentExpression', operator: token.value, left, right, start: left.start, end: right.end };
+    }
+    return left;
+  }
+
+  private tryParseArrow(): FunctionNode | null {
+    const start = this.peek()?.start ?? this.endPos;
+    let offset = 0;
+    if (this.is('keyword', 'async') && (this.is('identifier', undefined, 1) || this.is('punctuator', '(', 1))) {
+      offset = 1;
+    }
+
+    // x => ...
+    if (this.is('identifier', undefined, offset) && this.is('punctuator', '=>', offset + 1)) {
+      this.index += offset;
+      const param = this.next();
+      this.index++; // =>
+      return this.finishArrow([{ type: 'Identifier', name: param.value, start: param.start, end: param.end }], start);
+    }
+
+    // (a, b) => ...
+    if (this.is('punctuator', '(', offset)) {
+      const close = this.findClosing(this.index + offset);
+      if (close >= 0 && this.tokens[close + 1]?.type === 'punctuator' && this.tokens[close + 1].value === '=>') {
+        this.index += offset + 1;
+        const params: ExpressionNode[] = [];
+        while (!this.is('punctuator', ')')) {
+          params.push(this.is('punctuator', '...') ? this.parseSpread() : this.parseAssignment());
+          if (!this.is('punctuator', ')')) this.expect(',');
+        }
+        this.index += 2; // ) =>
+        return this.finishArrow(params, start);
+      }
+    }
+
+    return null;
+  }
+
+  private finishArrow(params: ExpressionNode[], start: number): FunctionNode {
+    const body = this.is('punctuator', '{') ? this.parseBlockBody() : this.parseAssignment();
+    return { type: 'ArrowFunctionExpression', params, body, start, end: body.end };
+  }
+
+  /** Index of the token closing the bracket at `openIndex`, or -1 */
+  private findClosing(openIndex: number): number {
+    const pairs: Record<string, string> = { '(': ')', '[': ']', '{': '}' };
+    const stack: string[] = [];
+    for (let i = openIndex; i < this.tokens.length; i++) {
+      const token = this.tokens[i];
+      if (token.type !== 'punctuator') continue;
+      if (pairs[token.value]) {
+        stack.push(pairs[token.value]);
+      } else if (token.value === stack[stack.length - 1]) {
+        stack.pop();
+        if (stack.length === 0) return i;
+      } else if ([')', ']', '}'].includes(token.value)) {
+        return -1;
+      }
+    }
+    return -1;
+  }
+
+  private parseBlockBody(): BlockBodyNode {
+    const open = this.peek()!;
+    const close = this.findClosing(this.index);
+    if (close < 0) throw new ParseError('Unclosed "{" in function body', open.start, open.end);
+    const tokens = this.tokens.slice(this.index + 1, close);
+    const end = this.tokens[close].end;
+    this.index = close + 1;
+    return { type: 'BlockBody', tokens, start: open.start, end };
+  }
+
+  private parseConditional(): ExpressionNode {
+    const test = this.parseBinary(0);
+    if (!this.is('punctuator', '?')) return test;
+    this.index++;
+    const consequent = this.parseAssignment();
+    this.expect(':');
+    const alternate = this.parseAssignment();
+    return { type: 'ConditionalExpression', test, consequent, alternate, start: test.start, end: alternate.end };
+  }
+
+  private parseBinary(minPrecedence: number): ExpressionNode {
+    let left = this.parseUnary();
+
+    while (true) {
+      const token = this.peek();
+      if (!token || (token.type !== 'punctuator' && token.type !== 'keyword')) break;
+      const precedence = BINARY_PRECEDENCE[token.value];
+      if (precedence === undefined || precedence <= minPrecedence) break;
+
+      this.index++;
+      // ** is right-associative
+      const right = this.parseBinary(token.value === '**' ? precedence - 1 : precedence);
+      left = { type: 'BinaryExpression', operator: token.value, left, right, start: left.start, end: right.end };
+    }
+
+    return left;
+  }
+
+  private parseUnary(): ExpressionNode {
+    const token = this.peek();
+    if (token && (
+      (token.type === 'punctuator' && ['!', '~', '+', '-'].includes(token.value)) ||
+      (token.type === 'keyword' && ['typeof', 'void', 'delete', 'await'].includes(token.value))
+    )) {
+      this.index++;
+      const argument = this.parseUnary();
+      return { type: 'UnaryExpression', operator: token.value, argument, start: token.start, end: argument.end };
+    }
+
+    if (token?.type === 'punctuator' && (token.value === '++' || token.value === '--')) {
+      this.index++;
+      const argument = this.parseUnary();
+      return { type: 'UpdateExpression', operator: token.value, argument, prefix: true, start: token.start, end: argument.end };
+    }
+
+    const expression = this.parsePostfix();
+    const after = this.peek();
+    if (after?.type === 'punctuator' && (after.value === '++' || after.value === '--')) {
+      this.index++;
+      return { type: 'UpdateExpression', operator: after.value, argument: expression, prefix: false, start: expression.start, end: after.end };
+    }
+    return expression;
+  }
+
+  private parsePostfix(): ExpressionNode {
+    let expression = this.parsePrimary();
+
+    while (true) {
+      const token = this.peek();
+      if (!token) break;
+
+      if (token.type === 'punctuator' && token.value === '.') {
+        this.index++;
+        const name = this.next();
+        if (name.type !== 'identifier' && name.type !== 'keyword') {
+          throw new ParseError(`Expected property name after "." but found "${name.value}"`, name.start, name.end);
+        }
+        expression = this.member(expression, { type: 'Identifier', name: name.value, start: name.start, end: name.end }, false, false, name.end);
+      } else if (token.type === 'punctuator' && token.value === '?.') {
+        this.index++;
+        if (this.is('punctuator', '(')) {
+          expression = this.call(expression, true);
+        } else if (this.is('punctuator', '[')) {
+          this.index++;
+          const property = this.parseSequence();
+          const close = this.expect(']');
+          expression = this.member(expression, property, true, true, close.end);
+        } else {
+          const name = this.next();
+          if (name.type !== 'identifier' && name.type !== 'keyword') {
+            throw new ParseError(`Expected property name after "?." but found "${name.value}"`, name.start, name.end);
+          }
+          expression = this.member(expression, { type: 'Identifier', name: name.value, start: name.start, end: name.end }, false, true, name.end);
+        }
+      } else if (token.type === 'punctuator' && token.value === '[') {
+        this.index++;
+        const property = this.parseSequence();
+        const close = this.expect(']');
+        expression = this.member(expression, property, true, false, close.end);
+      } else if (token.type === 'punctuator' && token.value === '(') {
+        expression = this.call(expression, false);
+      } else if (token.type === 'template') {
+        this.index++;
+        const quasi = this.templateLiteral(token);
+        expression = { type: 'TaggedTemplateExpression', tag: expression, quasi, start: expression.start, end: token.end };
+      } else {
+        break;
+      }
+    }
+
+    return expression;
+  }
+
+  private member(object: ExpressionNode, property: ExpressionNode, computed: boolean, optional: boolean, end: number): MemberNode {
+    return { type: 'MemberExpression', object, property, computed, optional, start: object.start, end };
+  }
+
+  private call(callee: ExpressionNode, optional: boolean): CallNode {
+    const args = this.parseArguments();
+    return { type: 'CallExpression', callee, arguments: args.nodes, optional, start: callee.start, end: args.end };
+  }
+
+  private parseArguments(): { nodes: ExpressionNode[]; end: number } {
+    this.expect('(');
+    const nodes: ExpressionNode[] = [];
+    while (!this.is('punctuator', ')')) {
+      nodes.push(this.is('punctuator', '...') ? this.parseSpread() : this.parseAssignment());
+      if (!this.is('punctuator', ')')) this.expect(',');
+    }
+    const close = this.next();
+    return { nodes, end: close.end };
+  }
+
+  private parseSpread(): SpreadNode {
+    const token = this.next();
+    const argument = this.parseAssignment();
+    return { type: 'SpreadElement', argument, start: token.start, end: argument.end };
+  }
+
+  private parsePrimary(): ExpressionNode {
+    const token = this.next();
+
+    switch (token.type) {
+      case 'identifier':
+        return { type: 'Identifier', name: token.value, start: token.start, end: token.end };
+
+      case 'number': {
+        const isBigInt = token.value.endsWith('n');
+        const numeric = token.value.replace(/_/g, '').replace(/n$/, '');
+        return {
+          type: 'Literal',
+          kind: isBigInt ? 'bigint' : 'number',
+          value: isBigInt ? numeric : Number(numeric),
+          raw: token.value,
+          start: token.start,
+          end: token.end
+        };
+      }
+
+      case 'string':
+        return { type: 'Literal', kind: 'string', value: token.value, raw: token.value, start: token.start, end: token.end };
+
+      case 'regex':
+        return { type: 'Literal', kind: 'regex', value: token.value, raw: token.value, start: token.start, end: token.end };
+
+      case 'template':
+        return this.templateLiteral(token);
+
+      case 'keyword':
+        return this.parseKeyword(token);
+
+      case 'punctuator':
+        if (token.value === '(') {
+          const expression = this.parseSequence();
+          const close = this.expect(')');
+          // Keep the parenthesized range so errors point at the whole group
+          return { ...expression, start: token.start, end: close.end };
+        }
+        if (token.value === '[') return this.parseArray(token);
+        if (token.value === '{') return this.parseObject(token);
+        break;
+    }
+
+    throw new ParseError(`Unexpected token "${token.value}"`, token.start, token.end);
+  }
+
+  private parseKeyword(token: Token): ExpressionNode {
+    switch (token.value) {
+      case 'true':
+      case 'false':
+        return { type: 'Literal', kind: 'boolean', value: token.value === 'true', raw: token.value, start: token.start, end: token.end };
+      case 'null':
+        return { type: 'Literal', kind: 'null', value: null, raw: token.value, start: token.start, end: token.end };
+      case 'this':
+        return { type: 'ThisExpression', start: token.start, end: token.end };
+      case 'new': {
+        if (this.is('punctuator', '.')) {
+          // new.target
+          this.index++;
+          const name = this.next();
+          return { type: 'Identifier', name: `new.${name.value}`, start: token.start, end: name.end };
+        }
+        let callee: ExpressionNode = this.parsePrimary();
+        while (this.is('punctuator', '.') || this.is('punctuator', '[')) {
+          if (this.is('punctuator', '.')) {
+            this.index++;
+            const name = this.next();
+            callee = this.member(callee, { type: 'Identifier', name: name.value, start: name.start, end: name.end }, false, false, name.end);
+          } else {
+            this.index++;
+            const property = this.parseSequence();
+            const close = this.expect(']');
+            callee = this.member(callee, property, true, false, close.end);
+          }
+        }
+        const args = this.is('punctuator', '(') ? this.parseArguments() : { nodes: [], end: callee.end };
+        return { type: 'NewExpression', callee, arguments: args.nodes, start: token.start, end: args.end };
+      }
+      case 'function':
+      case 'async': {
+        if (token.value === 'async') this.expect('function');
+        if (this.is('punctuator', '*')) this.index++;
+        if (this.is('identifier')) this.index++;
+        this.expect('(');
+        const params: ExpressionNode[] = [];
+        while (!this.is('punctuator', ')')) {
+          params.push(this.is('punctuator', '...') ? this.parseSpread() : this.parseAssignment());
+          if (!this.is('punctuator', ')')) this.expect(',');
+        }
+        this.index++;
+        if (!this.is('punctuator', '{')) {
+          const at = this.peek();
+          throw new ParseError('Expected function body', at?.start ?? this.endPos, at?.end ?? this.endPos);
+        }
+        const body = this.parseBlockBody();
+        return { type: 'FunctionExpression', params, body, start: token.start, end: body.end };
+      }
+    }
+
+    throw new ParseError(`Unexpected keyword "${token.value}"`, token.start, token.end);
+  }
+
+  private parseArray(open: Token): ArrayNode {
+    const elements: Array<ExpressionNode | null> = [];
+    while (!this.is('punctuator', ']')) {
+      if (this.is('punctuator', ',')) {
+        this.index++;
+        elements.push(null);
+        continue;
+      }
+      elements.push(this.is('punctuator', '...') ? this.parseSpread() : this.parseAssignment());
+      if (!this.is('punctuator', ']')) this.expect(',');
+    }
+    const close = this.next();
+    return { type: 'ArrayExpression', elements, start: open.start, end: close.end };
+  }
+
+  private parseObject(open: Token): ObjectNode {
+    const properties: Array<PropertyNode | SpreadNode> = [];
+
+    while (!this.is('punctuator', '}')) {
+      if (this.is('punctuator', '...')) {
+        properties.push(this.parseSpread());
+      } else {
+        properties.push(this.parseProperty());
+      }
+      if (!this.is('punctuator', '}')) this.expect(',');
+    }
+
+    const close = this.next();
+    return { type: 'ObjectExpression', properties, start: open.start, end: close.end };
+  }
+
+  private parseProperty(): PropertyNode {
+    // Skip get/set/async modifiers of methods
+    if ((this.is('identifier', 'get') || this.is('identifier', 'set') || this.is('keyword', 'async')) &&
+        !this.is('punctuator', ':', 1) && !this.is('punctuator', '(', 1) && !this.is('punctuator', ',', 1) && !this.is('punctuator', '}', 1)) {
+      this.index++;
+    }
+
+    const keyToken = this.next();
+    let key: ExpressionNode;
+    let computed = false;
+
+    if (keyToken.type === 'punctuator' && keyToken.value === '[') {
+      key = this.parseAssignment();
+      this.expect(']');
+      computed = true;
+    } else if (keyToken.type === 'identifier' || keyToken.type === 'keyword') {
+      key = { type: 'Identifier', name: keyToken.value, start: keyToken.start, end: keyToken.end };
+    } else if (keyToken.type === 'string' || keyToken.type === 'number') {
+      key = { type: 'Literal', kind: keyToken.type, value: keyToken.type === 'number' ? Number(keyToken.value) : keyToken.value, raw: keyToken.value, start: keyToken.start, end: keyToken.end };
+    } else {
+      throw new ParseError(`Unexpected token "${keyToken.value}" in object literal`, keyToken.start, keyToken.end);
+    }
+
+    // Method shorthand: name(...) { ... }
+    if (this.is('punctuator', '(')) {
+      const paramsStart = this.peek()!.start;
+      const close = this.findClosing(this.index);
+      if (close < 0) throw new ParseError('Unclosed "(" in method', paramsStart, paramsStart + 1);
+      this.index = close + 1;
+      const body = this.parseBlockBody();
+      const value: FunctionNode = { type: 'FunctionExpression', params: [], body, start: paramsStart, end: body.end };
+      return { type: 'Property', key, value, computed, shorthand: false, start: key.start, end: body.end };
+    }
+
+    if (this.is('punctuator', ':')) {
+      this.index++;
+      const value = this.parseAssignment();
+      return { type: 'Property', key, value, computed, shorthand: false, start: key.start, end: value.end };
+    }
+
+    if (key.type !== 'Identifier' || computed) {
+      throw new ParseError('Expected ":" after property key', key.start, key.end);
+    }
+
+    // Shorthand, possibly with default value in destructuring patterns ({ a = 1 })
+    let value: ExpressionNode = key;
+    if (this.is('punctuator', '=')) {
+      this.index++;
+      const right = this.parseAssignment();
+      value = { type: 'AssignmentExpression', operator: '=', left: key, right, start: key.start, end: right.end };
+    }
+    return { type: 'Property', key, value, computed: false, shorthand: true, start: key.start, end: value.end };
+  }
+
+  private templateLiteral(token: Token): TemplateLiteralNode {
+    const quasis: string[] = [];
+    const expressions: ExpressionNode[] = [];
+
+    for (const part of token.parts || []) {
+      if (part.kind === 'quasi') {
+        quasis.push(part.value || '');
+      } else {
+        const tokens = part.tokens || [];
+        if (tokens.length === 0) {
+          throw new ParseError('Empty template literal placeholder ${}', part.start, part.end);
+        }
+        expressions.push(new Parser(tokens, part.end - 1).parseProgram());
+      }
+    }
+
+    return { type: 'TemplateLiteral', quasis, expressions, start: token.start, end: token.end };
+  }
+}
+
+// ========================================================================
+// Public API
+// ========================================================================
+
+function toSyntaxError(error: unknown, fallbackStart: number, fallbackEnd: number): ExpressionSyntaxError {
+  if (error instanceof ParseError) {
+    return { code: 'syntax', message: error.message, start: error.start, end: Math.max(error.end, error.start) };
+  }
+  return {
+    code: 'syntax',
+    message: error instanceof Error ? error.message : String(error),
+    start: fallbackStart,
+    end: fallbackEnd
+  };
+}
+
+/**
+ * Tokenize JavaScript code (without {{ }})
+ */
+export function tokenizeExpression(code: string): { tokens: Token[]; errors: ExpressionSyntaxError[] } {
+  try {
+    return { tokens: new Tokenizer(code).tokenizeUntil(false), errors: [] };
+  } catch (error) {
+    return { tokens: [], errors: [toSyntaxError(error, 0, code.length)] };
+  }
+}
+
+/**
+ * Parse the JavaScript code of a single expression (without {{ }})
+ */
+export function parseExpressionCode(code: string): { ast?: ExpressionNode; errors: ExpressionSyntaxError[] } {
+  const { tokens, errors } = tokenizeExpression(code);
+  if (errors.length > 0) return { errors };
+  if (tokens.length === 0) {
+    return { errors: [{ code: 'empty_expression', message: 'Empty expression found', start: 0, end: code.length }] };
+  }
+
+  try {
+    return { ast: new Parser(tokens, code.length).parseProgram(), errors: [] };
+  } catch (error) {
+    return { errors: [toSyntaxError(error, 0, code.length)] };
+  }
+}
+
+/**
+ * Split an n8n parameter value into text and {{ }} expression segments and
+ * parse each expression. Positions refer to the original string.
+ */
+export function parseExpressionTemplate(source: string): ParsedExpressionTemplate {
+  const segments: ExpressionSegment[] = [];
+  const errors: ExpressionSyntaxError[] = [];
+  const hasPrefix = source.startsWith('=');
+  let pos = 0;
+
+  const pushText = (start: number, end: number) => {
+    if (end <= start) return;
+    const value = source.slice(start, end);
+    segments.push({ kind: 'text', value, valueStart: start, start, end });
+
+    // "}}" in literal text closes an expression that was never opened
+    let close = value.indexOf('}}');
+    while (close >= 0) {
+      errors.push({ code: 'unmatched_close', message: 'Unmatched expression brackets {{ }}', start: start + close, end: start + close + 2 });
+      close = value.indexOf('}}', close + 2);
+    }
+  };
+
+  while (pos < source.length) {
+    const open = source.indexOf('{{', pos);
+    if (open < 0) {
+      pushText(pos, source.length);
+      break;
+    }
+    pushText(pos, open);
+
+    const codeStart = open + 2;
+    const tokenizer = new Tokenizer(source, codeStart);
+    let scan: { tokens: Token[]; closed: boolean; end: number };
+    let tokenError: ExpressionSyntaxError | null = null;
+
+    try {
+      scan = tokenizer.tokenizeSegment();
+    } catch (error) {
+      tokenError = toSyntaxError(error, codeStart, source.length);
+      // Recover at the next "}}" so later segments are still checked
+      const close = source.indexOf('}}', codeStart);
+      scan = { tokens: [], closed: close >= 0, end: close >= 0 ? close : source.length };
+    }
+
+    const code = source.slice(codeStart, scan.end);
+    const end = scan.closed ? scan.end + 2 : source.length;
+    const segment: ExpressionSegment = { kind: 'expression', value: code, valueStart: codeStart, start: open, end };
+    segments.push(segment);
+
+    if (!scan.closed) {
+      errors.push({ code: 'unclosed_expression', message: 'Unmatched expression brackets {{ }}', start: open, end: source.length });
+    } else if (tokenizer.nestedAt !== null) {
+      errors.push({
+        code: 'nested_expression',
+        message: 'Nested expressions are not supported (expression inside another expression)',
+        start: tokenizer.nestedAt,
+        end
+      });
+    } else if (tokenError) {
+      errors.push(tokenError);
+    } else if (scan.tokens.length === 0) {
+      errors.push({ code: 'empty_expression', message: 'Empty expression found', start: open, end });
+    } else {
+      try {
+        segment.ast = new Parser(scan.tokens, scan.end).parseProgram();
+      } catch (error) {
+        errors.push(toSyntaxError(error, codeStart, scan.end));
+      }
+    }
+
+    pos = segment.end;
+  }
+
+  return { source, hasPrefix, segments, errors };
+}
+
+/**
+ * Child nodes of an AST node, in source order
+ */
+export function getChildNodes(node: ExpressionNode): ExpressionNode[] {
+  switch (node.type) {
+    case 'TemplateLiteral': return node.expressions;
+    case 'TaggedTemplateExpression': return [node.tag, node.quasi];
+    case 'ArrayExpression': return node.elements.filter((e): e is ExpressionNode => e !== null);
+    case 'ObjectExpression': return node.properties;
+    case 'Property': return node.computed ? [node.key, node.value] : [node.value];
+    case 'SpreadElement': return [node.argument];
+    case 'MemberExpression': return node.computed ? [node.object, node.property] : [node.object];
+    case 'CallExpression':
+    case 'NewExpression': return [node.callee, ...node.arguments];
+    case 'UnaryExpression':
+    case 'UpdateExpression': return [node.argument];
+    case 'BinaryExpression':
+    case 'AssignmentExpression': return [node.left, node.right];
+    case 'ConditionalExpression': return [node.test, node.consequent, node.alternate];
+    case 'SequenceExpression': return node.expressions;
+    case 'ArrowFunctionExpression':
+    case 'FunctionExpression': return [...node.params, node.body];
+    default: return [];
+  }
+}
+
+/**
+ * Depth-first walk over an AST. Return false from the visitor to skip children.
+ */
+export function walkExpression(
+  node: ExpressionNode,
+  visit: (node: ExpressionNode, parent: ExpressionNode | null) => boolean | void,
+  parent: ExpressionNode | null = null
+): void {
+  if (visit(node, parent) === false) return;
+  for (const child of getChildNodes(node)) {
+    walkExpression(child, visit, node);
+  }
+}
+
+// ========================================================================
+// References
+// ========================================================================
+
+export interface ExpressionReference extends SourceRange {
+  /**
+   * variable: an n8n variable such as $json or $now
+   * node: another node, via $('Name'), $node['Name'] or $items('Name')
+   * identifier: any other free identifier (Math, DateTime, json, ...)
+   */
+  kind: 'variable' | 'node' | 'identifier';
+  name: string;
+  via?: '$' | '$node' | '$items';
+  /** Static property path after the reference, calls marked with "()" */
+  path: string[];
+  /** Argument count when the reference itself is called, e.g. $jmespath(a, b) */
+  argumentCount?: number;
+}
+
+function staticKey(member: MemberNode): string | undefined {
+  if (!member.computed) {
+    return member.property.type === 'Identifier' ? member.property.name : undefined;
+  }
+  if (member.property.type === 'Literal' && (member.property.kind === 'string' || member.property.kind === 'number')) {
+    return String(member.property.value);
+  }
+  return undefined;
+}
+
+function stringArgument(call: CallNode): string | undefined {
+  const first = call.arguments[0];
+  return first?.type === 'Literal' && first.kind === 'string' ? String(first.value) : undefined;
+}
+
+/** Names bound by function parameters, including destructuring patterns */
+function boundNames(pattern: ExpressionNode, names: Set<string>): void {
+  switch (pattern.type) {
+    case 'Identifier': names.add(pattern.name); break;
+    case 'AssignmentExpression': boundNames(pattern.left, names); break;
+    case 'SpreadElement': boundNames(pattern.argument, names); break;
+    case 'ArrayExpression': pattern.elements.forEach(e => e && boundNames(e, names)); break;
+    case 'ObjectExpression': pattern.properties.forEach(p => boundNames(p.type === 'Property' ? p.value : p, names)); break;
+  }
+}
+
+/**
+ * Collect n8n variable, node and free identifier references of an expression.
+ * Identifiers bound by arrow function or function parameters are skipped.
+ * Function bodies with statements are scanned on token level, so only
+ * variable and node references (without property paths) are found there.
+ */
+export function collectReferences(ast: ExpressionNode): ExpressionReference[] {
+  const parents = new Map<ExpressionNode, ExpressionNode>();
+  walkExpression(ast, (node, parent) => {
+    if (parent) parents.set(node, parent);
+  });
+
+  const accessPath = (root: ExpressionNode): string[] => {
+    const path: string[] = [];
+    let current = root;
+    while (true) {
+      const parent = parents.get(current);
+      if (parent?.type === 'MemberExpression' && parent.object === current) {
+        const key = staticKey(parent);
+        if (key === undefined) break;
+        path.push(key);
+      } else if (parent?.type === 'CallExpression' && parent.callee === current && path.length > 0) {
+        path[path.length - 1] += '()';
+      } else {
+        break;
+      }
+      current = parent;
+    }
+    return path;
+  };
+
+  const references: ExpressionReference[] = [];
+
+  const visit = (node: ExpressionNode, scope: Set<string>): void => {
+    switch (node.type) {
+      case 'Identifier': {
+        if (scope.has(node.name)) return;
+        const parent = parents.get(node);
+        references.push({
+          kind: node.name.startsWith('$') ? 'variable' : 'identifier',
+          name: node.name,
+          path: accessPath(node),
+          ...(parent?.type === 'CallExpression' && parent.callee === node ? { argumentCount: parent.arguments.length } : {}),
+          start: node.start,
+          end: node.end
+        });
+        return;
+      }
+
+      case 'CallExpression': {
+        const callee = node.callee;
+        if (callee.type === 'Identifier' && (callee.name === '$' || callee.name === '$items') && !scope.has(callee.name)) {
+          const nodeName = stringArgument(node);
+          if (nodeName !== undefined) {
+            references.push({ kind: 'node', name: nodeName, via: callee.name, path: accessPath(node), start: node.start, end: node.end });
+            if (callee.name === '$items') {
+              references.push({ kind: 'variable', name: '$items', path: [], argumentCount: node.arguments.length, start: callee.start, end: callee.end });
+            }
+            node.arguments.slice(1).forEach(arg => visit(arg, scope));
+            return;
+          }
+        }
+        break;
+      }
+
+      case 'MemberExpression': {
+        const object = node.object;
+        const nodeName = staticKey(node);
+        if (object.type === 'Identifier' && object.name === '$node' && !scope.has('$node') && nodeName !== undefined) {
+          references.push({ kind: 'node', name: nodeName, via: '$node', path: accessPath(node), start: node.start, end: node.end });
+          references.push({ kind: 'variable', name: '$node', path: [], start: object.start, end: object.end });
+          return;
+        }
+        break;
+      }
+
+      case 'ArrowFunctionExpression':
+      case 'FunctionExpression': {
+        const inner = new Set(scope);
+        node.params.forEach(param => boundNames(param, inner));
+        if (node.body.type === 'BlockBody') {
+          references.push(...scanTokens(node.body.tokens, inner));
+        } else {
+          visit(node.body, inner);
+        }
+        return;
+      }
+    }
+
+    for (const child of getChildNodes(node)) {
+      visit(child, scope);
+    }
+  };
+
+  visit(ast, new Set());
+  return references;
+}
+
+/**
+ * Token-level reference scan for code that is not parsed into an AST
+ */
+function scanTokens(tokens: Token[], scope: Set<string>): ExpressionReference[] {
+  const references: ExpressionReference[] = [];
+  const at = (i: number, value: string) => tokens[i]?.type === 'punctuator' && tokens[i].value === value;
+
+  tokens.forEach((token, i) => {
+    if (token.type === 'template') {
+      for (const part of token.parts || []) {
+        if (part.tokens) references.push(...scanTokens(part.tokens, scope));
+      }
+      return;
+    }
+    if (token.type !== 'identifier' || !token.value.startsWith('$') || scope.has(token.value) || at(i - 1, '.')) return;
+
+    const next = tokens[i + 2];
+    if ((token.value === '$' || token.value === '$items') && at(i + 1, '(') && next?.type === 'string') {
+      references.push({ kind: 'node', name: next.value, via: token.value, path: [], start: token.start, end: next.end });
+    } else if (token.value === '$node' && at(i + 1, '[') && next?.type === 'string') {
+      references.push({ kind: 'node', name: next.value, via: '$node', path: [], start: token.start, end: next.end });
+    }
+    if (token.value !== '$') {
+      references.push({ kind: 'variable', name: token.value, path: [], start: token.start, end: token.end });
+    }
+  });
+
+  return references;
+}
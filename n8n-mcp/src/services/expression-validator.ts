@@ -1,14 +1,33 @@
 /**
  * Expression Validator for n8n expressions
- * Validates expression syntax, variable references, and context availability
+ * Validates expression syntax, variable references, and context availability.
+ * Expressions are parsed into an AST (see expression-parser.ts), so messages
+ * carry the character range of the problem within the parameter value.
  */
 
+import {
+  ExpressionReference,
+  SourceRange,
+  collectReferences,
+  parseExpressionTemplate,
+  walkExpression
+} from './expression-parser';
+
+interface ExpressionIssue extends SourceRange {
+  severity: 'error' | 'warning';
+  message: string;
+  /** Parameter path, set by validateNodeExpressions */
+  path?: string;
+}
+
 interface ExpressionValidationResult {
   valid: boolean;
   errors: string[];
   warnings: string[];
   usedVariables: Set<string>;
   usedNodes: Set<string>;
+  /** Errors and warnings with their character ranges */
+  issues?: ExpressionIssue[];
 }
 
 interface ExpressionContext {
@@ -16,26 +35,30 @@ interface ExpressionContext {
   currentNodeName?: string;
   isInLoop?: boolean;
   hasInputData?: boolean;
+  /** Nodes that run before the current node; enables upstream checks when set */
+  upstreamNodes?: string[];
 }
 
 export class ExpressionValidator {
-  // Common n8n expression patterns
-  private static readonly EXPRESSION_PATTERN = /\{\{([\s\S]+?)\}\}/g;
-  private static readonly VARIABLE_PATTERNS = {
-    json: /\$json(\.[a-zA-Z_][\w]*|\["[^"]+"\]|\['[^']+'\]|\[\d+\])*/g,
-    node: /\$node\["([^"]+)"\]\.json/g,
-    input: /\$input\.item(\.[a-zA-Z_][\w]*|\["[^"]+"\]|\['[^']+'\]|\[\d+\])*/g,
-    items: /\$items\("([^"]+)"(?:,\s*(-?\d+))?\)/g,
-    parameter: /\$parameter\["([^"]+)"\]/g,
-    env: /\$env\.([a-zA-Z_][\w]*)/g,
-    workflow: /\$workflow\.(id|name|active)/g,
-    execution: /\$execution\.(id|mode|resumeUrl)/g,
-    prevNode: /\$prevNode\.(name|outputIndex|runIndex)/g,
-    itemIndex: /\$itemIndex/g,
-    runIndex: /\$runIndex/g,
-    now: /\$now/g,
-    today: /\$today/g,
-  };
+  // Variables and helpers provided by n8n inside {{ }}
+  private static readonly KNOWN_VARIABLES = new Set([
+    '$', '$json', '$binary', '$node', '$input', '$items', '$item', '$parameter', '$rawParameter',
+    '$env', '$vars', '$secrets', '$workflow', '$execution', '$prevNode', '$itemIndex', '$runIndex',
+    '$now', '$today', '$jmespath', '$if', '$ifEmpty', '$max', '$min', '$evaluateExpression',
+    '$position', '$data', '$self', '$mode', '$nodeId', '$nodeVersion', '$webhookId', '$pageCount',
+    '$response', '$request', '$fromAI', '$fromAi', '$fromai', '$agentInfo', '$thisItem',
+    '$thisItemIndex', '$thisRunIndex', '$getPairedItem', '$tool', '$query'
+  ]);
+
+  // Properties and methods of the object returned by $('Node')
+  private static readonly NODE_ACCESSORS = new Set([
+    'item', 'first', 'last', 'all', 'itemMatching', 'pairedItem', 'params', 'context', 'isExecuted', 'runIndex'
+  ]);
+
+  // Variables used without $ prefix by mistake
+  private static readonly PREFIXLESS_VARIABLES = new Set(['json', 'node', 'input', 'items', 'workflow', 'execution']);
+
+  private static readonly SUSPICIOUS_PROPERTIES = new Set(['invalid', 'undefined', 'null', 'test']);
 
   /**
    * Validate a single expression
@@ -50,6 +73,7 @@ export class ExpressionValidator {
       warnings: [],
       usedVariables: new Set(),
       usedNodes: new Set(),
+      issues: [],
     };
 
     // Handle null/undefined expression
@@ -64,204 +88,145 @@ export class ExpressionValidator {
       return result;
     }
 
-    // Check for basic syntax errors
-    const syntaxErrors = this.checkSyntaxErrors(expression);
-    result.errors.push(...syntaxErrors);
+    const parsed = parseExpressionTemplate(expression);
 
-    // Extract all expressions
-    const expressions = this.extractExpressions(expression);
-    
-    for (const expr of expressions) {
-      // Validate each expression
-      this.validateSingleExpression(expr, context, result);
+    for (const error of parsed.errors) {
+      // JavaScript syntax is only evaluated in "=" expressions; literal text may
+      // legitimately contain {{ }} templates of other languages
+      if (error.code === 'syntax' && !parsed.hasPrefix) continue;
+      const message = error.code === 'syntax' ? `Invalid expression syntax: ${error.message}` : error.message;
+      this.addIssue(result, 'error', message, error);
     }
 
-    // Check for undefined node references
-    this.checkNodeReferences(result, context);
-
-    result.valid = result.errors.length === 0;
-    return result;
-  }
-
-  /**
-   * Check for basic syntax errors
-   */
-  private static checkSyntaxErrors(expression: string): string[] {
-    const errors: string[] = [];
-
-    // Check for unmatched brackets
-    const openBrackets = (expression.match(/\{\{/g) || []).length;
-    const closeBrackets = (expression.match(/\}\}/g) || []).length;
-    
-    if (openBrackets !== closeBrackets) {
-      errors.push('Unmatched expression brackets {{ }}');
+    const references: ExpressionReference[] = [];
+    for (const segment of parsed.segments) {
+      if (!segment.ast) continue;
+      references.push(...collectReferences(segment.ast));
+
+      // $json['field'] reads better as $json.field
+      walkExpression(segment.ast, node => {
+        if (node.type === 'MemberExpression' && node.computed &&
+            node.object.type === 'Identifier' && node.object.name === '$json' &&
+            node.property.type === 'Literal' && node.property.kind === 'string' &&
+            /^[A-Za-z_$][\w$]*$/.test(String(node.property.value))) {
+          this.addIssue(result, 'warning', `Consider using dot notation: $json.${node.property.value} instead of $json['${node.property.value}']`, node);
+        }
+      });
     }
 
-    // Check for truly nested expressions (not supported in n8n)
-    // This means {{ inside another {{ }}, like {{ {{ $json }} }}
-    // NOT multiple expressions like {{ $json.a }} text {{ $json.b }} (which is valid)
-    const nestedPattern = /\{\{[^}]*\{\{/;
-    if (nestedPattern.test(expression)) {
-      errors.push('Nested expressions are not supported (expression inside another expression)');
-    }
+    this.checkVariables(references, context, result);
+    this.checkNodeReferences(references, context, result);
 
-    // Check for empty expressions
-    const emptyExpressionPattern = /\{\{\s*\}\}/;
-    if (emptyExpressionPattern.test(expression)) {
-      errors.push('Empty expression found');
-    }
-
-    return errors;
+    result.valid = result.errors.length === 0;
+    return result;
   }
 
-  /**
-   * Extract all expressions from a string
-   */
-  private static extractExpressions(text: string): string[] {
-    const expressions: string[] = [];
-    let match;
-    
-    while ((match = this.EXPRESSION_PATTERN.exec(text)) !== null) {
-      expressions.push(match[1].trim());
-    }
-    
-    return expressions;
+  private static addIssue(
+    result: ExpressionValidationResult,
+    severity: 'error' | 'warning',
+    message: string,
+    range: SourceRange
+  ): void {
+    const located = `${message} (chars ${range.start}-${range.end})`;
+    (severity === 'error' ? result.errors : result.warnings).push(located);
+    result.issues?.push({ severity, message, start: range.start, end: range.end });
   }
 
   /**
-   * Validate a single expression content
+   * Check n8n variables and free identifiers
    */
-  private static validateSingleExpression(
-    expr: string,
+  private static checkVariables(
+    references: ExpressionReference[],
     context: ExpressionContext,
     result: ExpressionValidationResult
   ): void {
-    // Check for $json usage
-    let match;
-    const jsonPattern = new RegExp(this.VARIABLE_PATTERNS.json.source, this.VARIABLE_PATTERNS.json.flags);
-    while ((match = jsonPattern.exec(expr)) !== null) {
-      result.usedVariables.add('$json');
-
-      if (!context.hasInputData && !context.isInLoop) {
-        result.warnings.push(
-          'Using $json but node might not have input data'
-        );
+    let warnedJson = false;
+    let warnedInput = false;
+
+    for (const ref of references) {
+      if (ref.kind === 'identifier') {
+        if (this.PREFIXLESS_VARIABLES.has(ref.name)) {
+          this.addIssue(result, 'warning', `Possible missing $ prefix for variable (use $${ref.name} instead of ${ref.name})`, ref);
+        }
+        continue;
       }
+      if (ref.kind !== 'variable') continue;
 
-      // Check for suspicious property names that might be test/invalid data
-      const fullMatch = match[0];
-      if (fullMatch.includes('.invalid') || fullMatch.includes('.undefined') ||
-          fullMatch.includes('.null') || fullMatch.includes('.test')) {
-        result.warnings.push(
-          `Property access '${fullMatch}' looks suspicious - verify this property exists in your data`
-        );
+      if (ref.name !== '$') {
+        result.usedVariables.add(ref.name);
       }
-    }
 
-    // Check for $node references
-    const nodePattern = new RegExp(this.VARIABLE_PATTERNS.node.source, this.VARIABLE_PATTERNS.node.flags);
-    while ((match = nodePattern.exec(expr)) !== null) {
-      const nodeName = match[1];
-      result.usedNodes.add(nodeName);
-      result.usedVariables.add('$node');
-    }
+      if (!this.KNOWN_VARIABLES.has(ref.name)) {
+        this.addIssue(result, 'warning', `Unknown variable ${ref.name}`, ref);
+        continue;
+      }
 
-    // Check for $input usage
-    const inputPattern = new RegExp(this.VARIABLE_PATTERNS.input.source, this.VARIABLE_PATTERNS.input.flags);
-    while ((match = inputPattern.exec(expr)) !== null) {
-      result.usedVariables.add('$input');
-      
-      if (!context.hasInputData) {
-        result.warnings.push(
-          '$input is only available when the node has input data'
-        );
+      if (ref.name === '$json') {
+        if (!context.hasInputData && !context.isInLoop && !warnedJson) {
+          this.addIssue(result, 'warning', 'Using $json but node might not have input data', ref);
+          warnedJson = true;
+        }
+
+        const suspicious = ref.path.findIndex(key => this.SUSPICIOUS_PROPERTIES.has(key));
+        if (suspicious >= 0) {
+          const access = ['$json', ...ref.path.slice(0, suspicious + 1)].join('.');
+          this.addIssue(result, 'warning', `Property access '${access}' looks suspicious - verify this property exists in your data`, ref);
+        }
       }
-    }
 
-    // Check for $items usage
-    const itemsPattern = new RegExp(this.VARIABLE_PATTERNS.items.source, this.VARIABLE_PATTERNS.items.flags);
-    while ((match = itemsPattern.exec(expr)) !== null) {
-      const nodeName = match[1];
-      result.usedNodes.add(nodeName);
-      result.usedVariables.add('$items');
-    }
+      if (ref.name === '$input' && !context.hasInputData && !warnedInput) {
+        this.addIssue(result, 'warning', '$input is only available when the node has input data', ref);
+        warnedInput = true;
+      }
 
-    // Check for other variables
-    for (const [varName, pattern] of Object.entries(this.VARIABLE_PATTERNS)) {
-      if (['json', 'node', 'input', 'items'].includes(varName)) continue;
-      
-      const testPattern = new RegExp(pattern.source, pattern.flags);
-      if (testPattern.test(expr)) {
-        result.usedVariables.add(`$${varName}`);
+      if (ref.name === '$jmespath' && ref.argumentCount !== undefined && ref.argumentCount !== 2) {
+        this.addIssue(result, 'warning', '$jmespath expects two arguments: $jmespath(object, "search.path")', ref);
       }
     }
-
-    // Check for common mistakes
-    this.checkCommonMistakes(expr, result);
   }
 
   /**
-   * Check for common expression mistakes
+   * Check that referenced nodes exist, run before the current node and are
+   * accessed through the supported API
    */
-  private static checkCommonMistakes(
-    expr: string,
+  private static checkNodeReferences(
+    references: ExpressionReference[],
+    context: ExpressionContext,
     result: ExpressionValidationResult
   ): void {
-    // Check for missing $ prefix - but exclude cases where $ is already present OR it's property access (e.g., .json)
-    // The pattern now excludes:
-    // - Immediately preceded by $ (e.g., $json) - handled by (?<!\$)
-    // - Preceded by a dot (e.g., .json in $('Node').item.json.field) - handled by (?<!\.)
-    // - Inside word characters (e.g., myJson) - handled by (?<!\w)
-    // - Inside bracket notation (e.g., ['json']) - handled by (?<![)
-    // - After opening bracket or quote (e.g., "json" or ['json'])
-    const missingPrefixPattern = /(?<![.$\w['])\b(json|node|input|items|workflow|execution)\b(?!\s*[:''])/;
-    if (expr.match(missingPrefixPattern)) {
-      result.warnings.push(
-        'Possible missing $ prefix for variable (e.g., use $json instead of json)'
-      );
-    }
-
-    // Check for incorrect array access
-    if (expr.includes('$json[') && !expr.match(/\$json\[\d+\]/)) {
-      result.warnings.push(
-        'Array access should use numeric index: $json[0] or property access: $json.property'
-      );
-    }
-
-    // Check for Python-style property access
-    if (expr.match(/\$json\['[^']+'\]/)) {
-      result.warnings.push(
-        "Consider using dot notation: $json.property instead of $json['property']"
-      );
-    }
-
-    // Check for undefined/null access attempts
-    if (expr.match(/\?\./)) {
-      result.warnings.push(
-        'Optional chaining (?.) is not supported in n8n expressions'
-      );
-    }
+    const reported = new Set<string>();
+
+    for (const ref of references) {
+      if (ref.kind !== 'node') continue;
+      result.usedNodes.add(ref.name);
+
+      if (!context.availableNodes.includes(ref.name)) {
+        if (!reported.has(ref.name)) {
+          this.addIssue(result, 'error', `Referenced node "${ref.name}" not found in workflow`, ref);
+          reported.add(ref.name);
+        }
+        continue;
+      }
 
-    // Check for template literals
-    if (expr.includes('${')) {
-      result.errors.push(
-        'Template literals ${} are not supported. Use string concatenation instead'
-      );
-    }
-  }
+      const accessor = ref.path[0]?.replace(/\(\)$/, '');
+      if (ref.via === '$' && accessor !== undefined && !this.NODE_ACCESSORS.has(accessor)) {
+        const hint = accessor === 'json' || accessor === 'binary'
+          ? ` - use $('${ref.name}').item.${accessor}, .first().${accessor} or .all()`
+          : '';
+        this.addIssue(result, 'warning', `$('${ref.name}').${accessor} is not available${hint}`, ref);
+      }
 
-  /**
-   * Check that all referenced nodes exist
-   */
-  private static checkNodeReferences(
-    result: ExpressionValidationResult,
-    context: ExpressionContext
-  ): void {
-    for (const nodeName of result.usedNodes) {
-      if (!context.availableNodes.includes(nodeName)) {
-        result.errors.push(
-          `Referenced node "${nodeName}" not found in workflow`
+      // Parameters and execution status can be read from any node
+      const readsData = !['params', 'parameter', 'isExecuted'].includes(accessor ?? '');
+      if (context.upstreamNodes && readsData && ref.name !== context.currentNodeName &&
+          !context.upstreamNodes.includes(ref.name) && !reported.has(ref.name)) {
+        this.addIssue(
+          result,
+          'warning',
+          `Node "${ref.name}" is not upstream of "${context.currentNodeName ?? 'this node'}" - it has no data when this node runs`,
+          ref
         );
+        reported.add(ref.name);
       }
     }
   }
@@ -279,6 +244,7 @@ export class ExpressionValidator {
       warnings: [],
       usedVariables: new Set(),
       usedNodes: new Set(),
+      issues: [],
     };
 
     const visited = new WeakSet();
@@ -319,6 +285,10 @@ export class ExpressionValidator {
           result.warnings.push(path ? `${path}: ${warning}` : warning);
         });
         
+        validation.issues?.forEach(issue => {
+          result.issues?.push(path ? { ...issue, path } : issue);
+        });
+
         // Merge used variables and nodes
         validation.usedVariables.forEach(v => result.usedVariables.add(v));
         validation.usedNodes.forEach(n => result.usedNodes.add(n));
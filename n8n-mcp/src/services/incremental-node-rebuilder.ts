@@ -0,0 +1,502 @@
+/**
+ * Incremental node database rebuild.
+ *
+ * Every node class is fingerprinted (package version + hash of its
+ * descriptions). Only nodes whose fingerprint changed are parsed again and
+ * rewritten, so FTS5 rows and template_node_configs are updated for the
+ * affected node types only. Each run produces a machine-readable changelog
+ * of nodes added, removed and changed between the two package versions.
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import { DatabaseAdapter } from '../database/database-adapter';
+import { NodeRepository } from '../database/node-repository';
+import { LoadedNode, NodeLoaderOutput } from '../loaders/node-loader';
+import { NODE_PARSER_VERSION, NodeParser, ParsedNode } from '../parsers/node-parser';
+import { ToolVariantGenerator } from './tool-variant-generator';
+import { NodeTypeNormalizer } from '../utils/node-type-normalizer';
+import { deleteTemplateNodeConfigs, refreshTemplateNodeConfigs } from '../templates/template-node-configs';
+
+export interface NodeFingerprint {
+  /** `${packageName}/${nodeName}` as listed in the package's n8n.nodes */
+  nodeKey: string;
+  packageName: string;
+  packageVersion: string | null;
+  descriptionHash: string;
+  /** Node types stored for the class (base node and Tool variant) */
+  nodeTypes: string[];
+}
+
+export interface NodeSummary {
+  nodeType: string;
+  displayName: string;
+  version: string | null;
+}
+
+export interface NodeChange extends NodeSummary {
+  previousVersion: string | null;
+  propertiesAdded: string[];
+  propertiesRemoved: string[];
+  operationsAdded: string[];
+  operationsRemoved: string[];
+  /** Other stored fields that differ (displayName, description, credentials, ...) */
+  fieldsChanged: string[];
+}
+
+export interface NodeChangelog {
+  generatedAt: string;
+  packages: Record<string, { from: string | null; to: string | null }>;
+  added: NodeSummary[];
+  removed: NodeSummary[];
+  changed: NodeChange[];
+  /** Nodes whose fingerprint or stored data did not change */
+  unchanged: number;
+  /** Nodes that could not be parsed; their previous rows are kept */
+  failed: Array<{ nodeKey: string; error: string }>;
+  templateConfigsRefreshed: number;
+}
+
+export interface IncrementalRebuildOptions {
+  /** Fetches documentation for new and changed nodes (e.g. DocsMapper) */
+  docsMapper?: { fetchDocumentation(nodeType: string): Promise<string | null> };
+  /** Progress output (default: console) */
+  output?: NodeLoaderOutput;
+}
+
+/** Stored columns compared to decide whether a re-parsed node changed */
+const COMPARED_FIELDS: Array<{ column: string; field: string; value: (node: ParsedNode) => unknown }> = [
+  { column: 'display_name', field: 'displayName', value: node => node.displayName },
+  { column: 'description', field: 'description', value: node => node.description ?? null },
+  { column: 'category', field: 'category', value: node => node.category ?? null },
+  { column: 'development_style', field: 'style', value: node => node.style },
+  { column: 'version', field: 'version', value: node => node.version ?? null },
+  { column: 'is_ai_tool', field: 'isAITool', value: node => (node.isAITool ? 1 : 0) },
+  { column: 'is_trigger', field: 'isTrigger', value: node => (node.isTrigger ? 1 : 0) },
+  { column: 'is_webhook', field: 'isWebhook', value: node => (node.isWebhook ? 1 : 0) },
+  { column: 'is_versioned', field: 'isVersioned', value: node => (node.isVersioned ? 1 : 0) },
+  { column: 'has_tool_variant', field: 'hasToolVariant', value: node => (node.hasToolVariant ? 1 : 0) },
+  { column: 'properties_schema', field: 'properties', value: node => JSON.stringify(node.properties, null, 2) },
+  { column: 'operations', field: 'operations', value: node => JSON.stringify(node.operations, null, 2) },
+  { column: 'credentials_required', field: 'credentials', value: node => JSON.stringify(node.credentials, null, 2) },
+  { column: 'outputs', field: 'outputs', value: node => (node.outputs ? JSON.stringify(node.outputs, null, 2) : null) },
+  { column: 'output_names', field: 'outputNames', value: node => (node.outputNames ? JSON.stringify(node.outputNames, null, 2) : null) }
+];
+
+/**
+ * Hash of everything the parser reads from a node class: the instance
+ * description, the base description of versioned nodes and the description
+ * of every version, plus the parser version. Returns null if the class cannot
+ * be instantiated.
+ */
+export function computeNodeFingerprint(NodeClass: any, parserVersion = NODE_PARSER_VERSION): string | null {
+  let instance: any;
+  try {
+    instance = typeof NodeClass === 'function' ? new NodeClass() : NodeClass;
+  } catch {
+    instance = undefined;
+  }
+  const source = instance ?? NodeClass;
+  if (!source) return null;
+
+  const versions: Record<string, unknown> = {};
+  if (source.nodeVersions && typeof source.nodeVersions === 'object') {
+    for (const [version, node] of Object.entries<any>(source.nodeVersions)) {
+      versions[version] = node?.description;
+    }
+  }
+
+  const payload = {
+    parserVersion,
+    description: source.description,
+    baseDescription: source.baseDescription,
+    nodeVersions: versions
+  };
+  if (!payload.description && !payload.baseDescription) return null;
+
+  return crypto.createHash('sha256').update(stableStringify(payload)).digest('hex');
+}
+
+/**
+ * Databases created before the FTS5 triggers used the 'delete' command leave
+ * stale index entries behind whenever a node row is deleted or updated.
+ */
+const FTS_TRIGGERS = `
+  DROP TRIGGER IF EXISTS nodes_fts_update;
+  DROP TRIGGER IF EXISTS nodes_fts_delete;
+  CREATE TRIGGER nodes_fts_update AFTER UPDATE ON nodes
+  BEGIN
+    INSERT INTO nodes_fts(nodes_fts, rowid, node_type, display_name, description, documentation, operations)
+    VALUES ('delete', old.rowid, old.node_type, old.display_name, old.description, old.documentation, old.operations);
+    INSERT INTO nodes_fts(rowid, node_type, display_name, description, documentation, operations)
+    VALUES (new.rowid, new.node_type, new.display_name, new.description, new.documentation, new.operations);
+  END;
+  CREATE TRIGGER nodes_fts_delete AFTER DELETE ON nodes
+  BEGIN
+    INSERT INTO nodes_fts(nodes_fts, rowid, node_type, display_name, description, documentation, operations)
+    VALUES ('delete', old.rowid, old.node_type, old.display_name, old.description, old.documentation, old.operations);
+  END;
+`;
+
+export class IncrementalNodeRebuilder {
+  private repository: NodeRepository;
+  private parser = new NodeParser();
+  private toolVariantGenerator = new ToolVariantGenerator();
+  private output: NodeLoaderOutput;
+
+  constructor(private db: DatabaseAdapter, private options: IncrementalRebuildOptions = {}) {
+    this.repository = new NodeRepository(db);
+    this.output = options.output ?? console;
+  }
+
+  ensureFingerprintTable(): void {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS node_fingerprints (
+        node_key TEXT PRIMARY KEY,
+        package_name TEXT NOT NULL,
+        package_version TEXT,
+        description_hash TEXT NOT NULL,
+        node_types TEXT NOT NULL,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+  }
+
+  /**
+   * Replace FTS5 triggers of older databases and rebuild the index once, so
+   * rewriting single rows keeps nodes_fts consistent.
+   *
+   * @returns true if the triggers were replaced
+   */
+  ensureFtsTriggers(): boolean {
+    const trigger = this.db.prepare(
+      "SELECT sql FROM sqlite_master WHERE type = 'trigger' AND name = 'nodes_fts_delete'"
+    ).get() as { sql: string } | undefined;
+    if (!trigger || trigger.sql.includes("'delete'")) {
+      return false;
+    }
+    this.db.exec(FTS_TRIGGERS);
+    this.db.exec("INSERT INTO nodes_fts(nodes_fts) VALUES('rebuild')");
+    return true;
+  }
+
+  getFingerprints(): Map<string, NodeFingerprint> {
+    this.ensureFingerprintTable();
+    const rows = this.db.prepare('SELECT * FROM node_fingerprints').all() as any[];
+    return new Map(rows.map(row => [row.node_key, {
+      nodeKey: row.node_key,
+      packageName: row.package_name,
+      packageVersion: row.package_version,
+      descriptionHash: row.description_hash,
+      nodeTypes: safeJsonArray(row.node_types)
+    }]));
+  }
+
+  /**
+   * Bring the nodes table in line with the loaded node classes.
+   *
+   * Nodes of the loaded packages that no longer exist are removed. Community
+   * and private nodes are never touched. All writes happen in one
+   * transaction, so a failure leaves the database unchanged.
+   *
+   * @param packageVersions Installed version of each loaded package
+   */
+  async rebuild(nodes: LoadedNode[], packageVersions: Record<string, string | null> = {}): Promise<NodeChangelog> {
+    this.repository.ensurePrivateNodeColumns();
+    if (this.ensureFtsTriggers()) {
+      this.output.log('🔧 Updated FTS5 triggers and rebuilt the search index');
+    }
+    const previous = this.getFingerprints();
+
+    const changelog: NodeChangelog = {
+      generatedAt: new Date().toISOString(),
+      packages: {},
+      added: [],
+      removed: [],
+      changed: [],
+      unchanged: 0,
+      failed: [],
+      templateConfigsRefreshed: 0
+    };
+
+    const packages = [...new Set(nodes.map(node => node.packageName))];
+    for (const packageName of packages) {
+      const from = [...previous.values()].find(fp => fp.packageName === packageName)?.packageVersion ?? null;
+      changelog.packages[packageName] = { from, to: packageVersions[packageName] ?? null };
+    }
+
+    // Node types that exist after this run, saves and fingerprints to write
+    const currentTypes = new Set<string>();
+    const saves: ParsedNode[] = [];
+    // Every parsed node refreshes its node_versions rows, even if its nodes row is unchanged
+    const versionSaves: ParsedNode[] = [];
+    const fingerprints: NodeFingerprint[] = [];
+    const loadedKeys = new Set<string>();
+
+    for (const { packageName, nodeName, NodeClass } of nodes) {
+      const nodeKey = `${packageName}/${nodeName}`;
+      loadedKeys.add(nodeKey);
+      const prev = previous.get(nodeKey);
+      const hash = computeNodeFingerprint(NodeClass);
+      const packageVersion = packageVersions[packageName] ?? null;
+
+      if (prev && hash && prev.descriptionHash === hash && prev.nodeTypes.every(type => this.getRow(type))) {
+        prev.nodeTypes.forEach(type => currentTypes.add(type));
+        fingerprints.push({ ...prev, packageVersion });
+        changelog.unchanged++;
+        continue;
+      }
+
+      let parsedNodes: ParsedNode[];
+      try {
+        parsedNodes = this.parse(NodeClass, packageName, nodeName);
+      } catch (error) {
+        // Keep the stored rows until the node parses again
+        prev?.nodeTypes.forEach(type => currentTypes.add(type));
+        changelog.failed.push({ nodeKey, error: error instanceof Error ? error.message : String(error) });
+        this.output.error(`❌ Failed to process ${nodeName}: ${error instanceof Error ? error.message : String(error)}`);
+        continue;
+      }
+
+      const [base] = parsedNodes;
+      const existing = this.getRow(base.nodeType);
+      const nodeChanged = parsedNodes.some(node => this.differs(node, this.getRow(node.nodeType)));
+
+      parsedNodes.forEach(node => currentTypes.add(node.nodeType));
+      versionSaves.push(base);
+      if (hash) {
+        fingerprints.push({
+          nodeKey,
+          packageName,
+          packageVersion,
+          descriptionHash: hash,
+          nodeTypes: parsedNodes.map(node => node.nodeType)
+        });
+      }
+
+      if (!nodeChanged) {
+        changelog.unchanged++;
+        continue;
+      }
+
+      if (this.options.docsMapper) {
+        base.documentation = (await this.options.docsMapper.fetchDocumentation(base.nodeType)) || undefined;
+      }
+      saves.push(...parsedNodes);
+
+      if (existing) {
+        changelog.changed.push(describeChange(base, existing));
+      } else {
+        changelog.added.push(summarize(base));
+      }
+      this.output.log(`${existing ? '🔁' : '➕'} ${base.nodeType} [Props: ${base.properties.length}, Ops: ${base.operations.length}]`);
+    }
+
+    // Rows of the loaded packages that no node produces anymore
+    const removedRows = packages.length === 0 ? [] : this.db.prepare(`
+      SELECT node_type, display_name, version, is_tool_variant FROM nodes
+      WHERE package_name IN (${packages.map(() => '?').join(',')})
+        AND is_community = 0 AND is_private = 0
+    `).all(...packages).filter((row: any) => !currentTypes.has(row.node_type)) as any[];
+    for (const row of removedRows) {
+      if (Number(row.is_tool_variant) !== 1) {
+        changelog.removed.push({ nodeType: row.node_type, displayName: row.display_name, version: row.version ?? null });
+      }
+    }
+    const removedKeys = [...previous.values()]
+      .filter(fp => packages.includes(fp.packageName) && !loadedKeys.has(fp.nodeKey))
+      .map(fp => fp.nodeKey);
+
+    const removedTypes = removedRows.map(row => row.node_type as string);
+    const savedTypes = saves.map(node => node.nodeType);
+
+    const upsertFingerprint = this.db.prepare(`
+      INSERT OR REPLACE INTO node_fingerprints (
+        node_key, package_name, package_version, description_hash, node_types, updated_at
+      ) VALUES (?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
+    `);
+    const deleteNode = this.db.prepare('DELETE FROM nodes WHERE node_type = ?');
+    const deleteVersions = this.db.prepare('DELETE FROM node_versions WHERE node_type = ?');
+    const deleteFingerprint = this.db.prepare('DELETE FROM node_fingerprints WHERE node_key = ?');
+
+    this.db.transaction(() => {
+      // Delete before saving: INSERT OR REPLACE does not fire the FTS5 delete trigger
+      for (const nodeType of [...removedTypes, ...savedTypes]) {
+        deleteNode.run(nodeType);
+      }
+      for (const node of saves) {
+        this.repository.saveNode(node);
+      }
+      for (const node of versionSaves) {
+        this.repository.replaceNodeVersions(node);
+      }
+      for (const nodeType of removedTypes) {
+        deleteVersions.run(nodeType);
+      }
+      for (const fp of fingerprints) {
+        upsertFingerprint.run(fp.nodeKey, fp.packageName, fp.packageVersion, fp.descriptionHash, JSON.stringify(fp.nodeTypes));
+      }
+      for (const nodeKey of removedKeys) {
+        deleteFingerprint.run(nodeKey);
+      }
+
+      deleteTemplateNodeConfigs(this.db, removedTypes.map(type => NodeTypeNormalizer.toWorkflowFormat(type)));
+      changelog.templateConfigsRefreshed = refreshTemplateNodeConfigs(
+        this.db,
+        savedTypes.map(type => NodeTypeNormalizer.toWorkflowFormat(type))
+      );
+    });
+
+    return changelog;
+  }
+
+  /** Parse a node class into its base node and optional Tool variant */
+  private parse(NodeClass: any, packageName: string, nodeName: string): ParsedNode[] {
+    const parsed = this.parser.parse(NodeClass, packageName);
+    if (!parsed.nodeType || !parsed.displayName) {
+      throw new Error(`Missing required fields - nodeType: ${parsed.nodeType}, displayName: ${parsed.displayName}, packageName: ${parsed.packageName}`);
+    }
+    if (!parsed.packageName) {
+      throw new Error(`Missing packageName for node ${nodeName}`);
+    }
+
+    if (parsed.isAITool && !parsed.isTrigger) {
+      const toolVariant = this.toolVariantGenerator.generateToolVariant(parsed);
+      if (toolVariant) {
+        parsed.hasToolVariant = true;
+        return [parsed, toolVariant];
+      }
+    }
+    return [parsed];
+  }
+
+  private getRow(nodeType: string): any {
+    return this.db.prepare('SELECT * FROM nodes WHERE node_type = ?').get(nodeType);
+  }
+
+  private differs(node: ParsedNode, row: any): boolean {
+    if (!row) return true;
+    return COMPARED_FIELDS.some(({ column, value }) => !sameValue(row[column], value(node)));
+  }
+}
+
+/**
+ * Copy the database file (and its WAL) to `${dbPath}.snapshot` before a
+ * rebuild. Call while no connection is open so the copy is consistent.
+ *
+ * @returns Snapshot path, or null if there is no database yet
+ */
+export function createDatabaseSnapshot(dbPath: string): string | null {
+  if (!fs.existsSync(dbPath)) return null;
+  const snapshot = `${dbPath}.snapshot`;
+  fs.copyFileSync(dbPath, snapshot);
+  if (fs.existsSync(`${dbPath}-wal`)) {
+    fs.copyFileSync(`${dbPath}-wal`, `${snapshot}-wal`);
+  } else {
+    fs.rmSync(`${snapshot}-wal`, { force: true });
+  }
+  return snapshot;
+}
+
+/**
+ * Restore the database from its last snapshot. The connection must be closed.
+ *
+ * @returns false if there is no snapshot
+ */
+export function restoreDatabaseSnapshot(dbPath: string): boolean {
+  const snapshot = `${dbPath}.snapshot`;
+  if (!fs.existsSync(snapshot)) return false;
+  fs.rmSync(`${dbPath}-shm`, { force: true });
+  fs.rmSync(`${dbPath}-wal`, { force: true });
+  fs.copyFileSync(snapshot, dbPath);
+  if (fs.existsSync(`${snapshot}-wal`)) {
+    fs.copyFileSync(`${snapshot}-wal`, `${dbPath}-wal`);
+  }
+  return true;
+}
+
+function summarize(node: ParsedNode): NodeSummary {
+  return { nodeType: node.nodeType, displayName: node.displayName, version: node.version ?? null };
+}
+
+function describeChange(node: ParsedNode, row: any): NodeChange {
+  const oldProperties = propertyNames(safeJsonArray(row.properties_schema));
+  const newProperties = propertyNames(node.properties);
+  const oldOperations = operationNames(safeJsonArray(row.operations));
+  const newOperations = operationNames(node.operations);
+
+  const ignored = new Set(['version', 'properties', 'operations', 'hasToolVariant']);
+  const fieldsChanged = COMPARED_FIELDS
+    .filter(({ column, field, value }) => !ignored.has(field) && !sameValue(row[column], value(node)))
+    .map(({ field }) => field);
+  // Same names but different definitions (defaults, options, displayOptions)
+  if (!sameValue(row.properties_schema, JSON.stringify(node.properties, null, 2))) {
+    fieldsChanged.push('properties');
+  }
+
+  return {
+    ...summarize(node),
+    previousVersion: row.version ?? null,
+    propertiesAdded: newProperties.filter(name => !oldProperties.includes(name)),
+    propertiesRemoved: oldProperties.filter(name => !newProperties.includes(name)),
+    operationsAdded: newOperations.filter(name => !oldOperations.includes(name)),
+    operationsRemoved: oldOperations.filter(name => !newOperations.includes(name)),
+    fieldsChanged
+  };
+}
+
+function propertyNames(properties: any[]): string[] {
+  return [...new Set(properties.map(prop => prop?.name).filter((name): name is string => typeof name === 'string'))];
+}
+
+/** Operations are identified by resource and value, e.g. "message:send" */
+function operationNames(operations: any[]): string[] {
+  const names = operations.map(op => {
+    const value = op?.operation ?? op?.value ?? op?.name;
+    if (value === undefined) return undefined;
+    return op.resource ? `${op.resource}:${value}` : String(value);
+  });
+  return [...new Set(names.filter((name): name is string => !!name))];
+}
+
+function sameValue(stored: unknown, current: unknown): boolean {
+  if (stored === null || stored === undefined) return current === null || current === undefined;
+  if (typeof current === 'number') return Number(stored) === current;
+  return String(stored) === String(current);
+}
+
+function safeJsonArray(json: string | null | undefined): any[] {
+  if (!json) return [];
+  try {
+    const value = JSON.parse(json);
+    return Array.isArray(value) ? value : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * JSON with sorted keys. Functions are skipped (they are not stored) and
+ * repeated objects are replaced by a marker so circular references work.
+ */
+function stableStringify(value: unknown, seen = new WeakSet<object>()): string {
+  if (value === null || value === undefined) return 'null';
+  if (typeof value === 'function' || typeof value === 'symbol') return 'null';
+  if (typeof value === 'bigint') return `"${value.toString()}"`;
+  if (typeof value !== 'object') return JSON.stringify(value) ?? 'null';
+
+  if (seen.has(value)) return '"[Circular]"';
+  seen.add(value);
+  let json: string;
+  if (Array.isArray(value)) {
+    json = `[${value.map(item => stableStringify(item, seen)).join(',')}]`;
+  } else {
+    const entries = Object.keys(value)
+      .sort()
+      .filter(key => typeof (value as any)[key] !== 'function' && (value as any)[key] !== undefined)
+      .map(key => `${JSON.stringify(key)}:${stableStringify((value as any)[key], seen)}`);
+    json = `{${entries.join(',')}}`;
+  }
+  seen.delete(value);
+  return json;
+}
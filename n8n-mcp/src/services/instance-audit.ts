@@ -0,0 +1,607 @@
+/**
+ * Instance Audit
+ *
+ * Lints every workflow of an n8n instance: WorkflowValidator errors and
+ * warnings plus instance-level hygiene rules (outdated typeVersions, missing
+ * error workflows, hardcoded secrets, unused credentials, duplicated webhook
+ * paths, failing inactive workflows, missing tags and owners). Findings are
+ * ranked per workflow and rendered as JSON, markdown or SARIF 2.1.0. SARIF
+ * locations use the n8n source control layout (workflows/<id>.json,
+ * credential_stubs/<id>.json) and carry stable fingerprints, so results can
+ * be tracked across runs.
+ */
+
+import { createHash } from 'crypto';
+import { N8nApiClient } from './n8n-api-client';
+import { NodeRepository } from '../database/node-repository';
+import { Credential, Execution, ExecutionStatus, Workflow, WorkflowNode } from '../types/n8n-api';
+import { WorkflowValidator } from './workflow-validator';
+import { EnhancedConfigValidator } from './enhanced-config-validator';
+import { NodeVersionService } from './node-version-service';
+import { BreakingChangeDetector } from './breaking-change-detector';
+import { fetchAllWorkflows } from './workflow-dependency-graph';
+import { fetchAllCredentials, tagNames } from './workflow-transfer';
+import { TemplateSanitizer } from '../utils/template-sanitizer';
+import { isNonExecutableNode } from '../utils/node-classification';
+import { PROJECT_VERSION } from '../utils/version';
+import { logger } from '../utils/logger';
+
+export type AuditSeverity = 'error' | 'warning' | 'info';
+
+export type AuditRuleId =
+  | 'validation-error'
+  | 'validation-warning'
+  | 'outdated-type-version'
+  | 'missing-error-workflow'
+  | 'hardcoded-secret'
+  | 'unused-credential'
+  | 'duplicate-webhook-path'
+  | 'inactive-with-recent-failures'
+  | 'missing-tags'
+  | 'missing-owner';
+
+export interface AuditRule {
+  id: AuditRuleId;
+  title: string;
+  description: string;
+  severity: AuditSeverity;
+}
+
+export const AUDIT_RULES: Record<AuditRuleId, AuditRule> = {
+  'validation-error': {
+    id: 'validation-error',
+    title: 'Validation error',
+    description: 'WorkflowValidator reports an error (invalid node configuration, broken connection or expression).',
+    severity: 'error'
+  },
+  'validation-warning': {
+    id: 'validation-warning',
+    title: 'Validation warning',
+    description: 'WorkflowValidator reports a warning.',
+    severity: 'warning'
+  },
+  'outdated-type-version': {
+    id: 'outdated-type-version',
+    title: 'Outdated node typeVersion',
+    description: 'A node uses an older typeVersion than the latest one known for its type.',
+    severity: 'info'
+  },
+  'missing-error-workflow': {
+    id: 'missing-error-workflow',
+    title: 'Missing error workflow',
+    description: 'An active workflow has no error workflow, or its error workflow does not exist, so failures go unnoticed.',
+    severity: 'warning'
+  },
+  'hardcoded-secret': {
+    id: 'hardcoded-secret',
+    title: 'Hardcoded secret',
+    description: 'A node parameter contains an API key, token or password instead of using a credential.',
+    severity: 'error'
+  },
+  'unused-credential': {
+    id: 'unused-credential',
+    title: 'Unused credential',
+    description: 'No workflow visible to the API key uses this credential.',
+    severity: 'info'
+  },
+  'duplicate-webhook-path': {
+    id: 'duplicate-webhook-path',
+    title: 'Duplicated webhook path',
+    description: 'Several webhook nodes listen on the same HTTP method and path; only one of them can be active.',
+    severity: 'error'
+  },
+  'inactive-with-recent-failures': {
+    id: 'inactive-with-recent-failures',
+    title: 'Inactive workflow with recent failures',
+    description: 'An inactive workflow failed recently - it may have been switched off instead of fixed.',
+    severity: 'warning'
+  },
+  'missing-tags': {
+    id: 'missing-tags',
+    title: 'Workflow without tags',
+    description: 'The workflow has no tags, which makes ownership and purpose hard to track.',
+    severity: 'info'
+  },
+  'missing-owner': {
+    id: 'missing-owner',
+    title: 'Workflow without owner',
+    description: 'Neither an owner project nor an owner tag is recorded for the workflow.',
+    severity: 'info'
+  }
+};
+
+export const AUDIT_RULE_IDS = Object.keys(AUDIT_RULES) as AuditRuleId[];
+
+export interface AuditFinding {
+  ruleId: AuditRuleId;
+  severity: AuditSeverity;
+  message: string;
+  workflowId?: string;
+  workflowName?: string;
+  nodeName?: string;
+  credentialId?: string;
+  /** Stable across runs while the issue persists */
+  fingerprint: string;
+}
+
+export interface WorkflowAuditScore {
+  id: string;
+  name: string;
+  active: boolean;
+  /** Weighted finding count (error 10, warning 3, info 1); higher is worse */
+  score: number;
+  errors: number;
+  warnings: number;
+  infos: number;
+}
+
+export interface InstanceAuditReport {
+  generatedAt: string;
+  summary: {
+    workflows: number;
+    credentials: number;
+    findings: number;
+    bySeverity: Record<AuditSeverity, number>;
+    byRule: Partial<Record<AuditRuleId, number>>;
+    /** Share of workflows without errors or warnings, 0-100 */
+    healthScore: number;
+  };
+  /** Workflows with findings, worst first */
+  workflows: WorkflowAuditScore[];
+  /** Findings ordered by severity, then by workflow rank */
+  findings: AuditFinding[];
+  /** Findings left out of `findings` by maxFindings */
+  truncated: number;
+}
+
+export interface InstanceAuditData {
+  workflows: Workflow[];
+  credentials: Credential[];
+  /** Failed executions within the recent failure window */
+  failedExecutions: Execution[];
+}
+
+export interface InstanceAuditOptions {
+  /** Rules to run (default: all) */
+  rules?: AuditRuleId[];
+  /** Window for inactive-with-recent-failures in days (default: 7) */
+  recentFailureDays?: number;
+  /** Tag prefix that names a workflow owner (default: "owner:") */
+  ownerTagPrefix?: string;
+  /** Maximum findings listed in the report; counts stay complete (default: 500) */
+  maxFindings?: number;
+}
+
+const SEVERITY_WEIGHT: Record<AuditSeverity, number> = { error: 10, warning: 3, info: 1 };
+const SEVERITY_ORDER: AuditSeverity[] = ['error', 'warning', 'info'];
+
+const WEBHOOK_NODE_TYPE = 'n8n-nodes-base.webhook';
+
+// Parameter names whose literal (non-expression) values are secrets
+const SECRET_PARAMETER_NAME = /^(password|passwd|secret|apiKey|api_key|accessToken|access_token|authToken|clientSecret|client_secret|privateKey|private_key)$/i;
+
+// Shorter token pattern matches are ordinary words ("risk-free" contains "sk-free")
+const MIN_TOKEN_LENGTH = 16;
+
+// Stop paging through failed executions after this many pages
+const MAX_EXECUTION_PAGES = 10;
+
+/**
+ * Fetch everything the audit needs from the instance
+ */
+export async function collectInstanceAuditData(
+  client: N8nApiClient,
+  options: Pick<InstanceAuditOptions, 'rules' | 'recentFailureDays'> = {}
+): Promise<InstanceAuditData> {
+  const rules = new Set(options.rules ?? AUDIT_RULE_IDS);
+  const workflows = await fetchAllWorkflows(client);
+
+  const credentials = rules.has('unused-credential') ? await fetchAllCredentials(client) : [];
+
+  const failedExecutions: Execution[] = [];
+  if (rules.has('inactive-with-recent-failures')) {
+    const since = Date.now() - (options.recentFailureDays ?? 7) * 24 * 60 * 60 * 1000;
+    let cursor: string | undefined;
+    // Executions are listed newest first, so stop at the first one outside the window
+    for (let page = 0; page < MAX_EXECUTION_PAGES; page++) {
+      const response = await client.listExecutions({ status: ExecutionStatus.ERROR, limit: 100, cursor });
+      const recent = response.data.filter(execution => Date.parse(execution.startedAt) >= since);
+      failedExecutions.push(...recent);
+      cursor = response.nextCursor || undefined;
+      if (!cursor || recent.length < response.data.length) break;
+    }
+  }
+
+  return { workflows, credentials, failedExecutions };
+}
+
+/**
+ * Run the audit rules over the collected instance data
+ */
+export async function auditInstance(
+  data: InstanceAuditData,
+  repository: NodeRepository,
+  options: InstanceAuditOptions = {}
+): Promise<InstanceAuditReport> {
+  const rules = new Set(options.rules ?? AUDIT_RULE_IDS);
+  const workflows = data.workflows.filter(workflow => workflow.id && !workflow.isArchived);
+  const findings: AuditFinding[] = [];
+  // Messages carry counts, versions and names that change between runs, so
+  // the fingerprint uses a stable key that tells findings at one location apart
+  const add = (
+    ruleId: AuditRuleId,
+    message: string,
+    location: Omit<AuditFinding, 'ruleId' | 'severity' | 'message' | 'fingerprint'>,
+    key = '',
+    severity?: AuditSeverity
+  ) => {
+    if (!rules.has(ruleId)) return;
+    findings.push({
+      ruleId,
+      severity: severity ?? AUDIT_RULES[ruleId].severity,
+      message,
+      ...location,
+      fingerprint: fingerprint(ruleId, location.workflowId ?? location.credentialId ?? '', location.nodeName ?? '', key)
+    });
+  };
+
+  const validator = new WorkflowValidator(repository, EnhancedConfigValidator);
+  const versionService = new NodeVersionService(repository, new BreakingChangeDetector(repository));
+  const sanitizer = new TemplateSanitizer();
+  const workflowIds = new Set(workflows.map(workflow => workflow.id!));
+
+  for (const workflow of workflows) {
+    const at = (nodeName?: string) => ({ workflowId: workflow.id, workflowName: workflow.name, nodeName });
+
+    if (rules.has('validation-error') || rules.has('validation-warning')) {
+      try {
+        const result = await validator.validateWorkflow(workflow, {
+          validateNodes: true,
+          validateConnections: true,
+          validateExpressions: true,
+          profile: 'runtime'
+        });
+        // Validator messages only describe the configuration, so they are stable keys
+        for (const issue of result.errors) {
+          add('validation-error', issue.message, at(issue.nodeName), issue.code ?? issue.message);
+        }
+        for (const issue of result.warnings) {
+          // Reported with upgrade details by outdated-type-version
+          if (issue.message.startsWith('Outdated typeVersion')) continue;
+          add('validation-warning', issue.message, at(issue.nodeName), issue.code ?? issue.message);
+        }
+      } catch (error) {
+        logger.warn(`Audit could not validate workflow ${workflow.id}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+
+    for (const node of workflow.nodes ?? []) {
+      if (isNonExecutableNode(node.type)) continue;
+
+      if (rules.has('outdated-type-version') && typeof node.typeVersion === 'number') {
+        const analysis = versionService.analyzeVersion(node.type, String(node.typeVersion));
+        if (analysis.isOutdated) {
+          add(
+            'outdated-type-version',
+            `${node.type} typeVersion ${node.typeVersion} is behind ${analysis.latestVersion}` +
+              (analysis.hasBreakingChanges ? ' (breaking changes - review before upgrading)' : ''),
+            at(node.name),
+            node.type,
+            analysis.hasBreakingChanges ? 'warning' : 'info'
+          );
+        }
+      }
+
+      if (rules.has('hardcoded-secret')) {
+        for (const secret of findSecrets(node, sanitizer)) {
+          add('hardcoded-secret', `Parameter ${secret.path} contains a hardcoded secret (${secret.masked})`, at(node.name), secret.path);
+        }
+      }
+    }
+
+    if (workflow.active) {
+      const errorWorkflow = workflow.settings?.errorWorkflow;
+      if (typeof errorWorkflow !== 'string' || errorWorkflow === '') {
+        add('missing-error-workflow', 'Active workflow has no error workflow', at());
+      } else if (!workflowIds.has(errorWorkflow)) {
+        add('missing-error-workflow', `Error workflow ${errorWorkflow} does not exist`, at(), errorWorkflow);
+      }
+    }
+
+    const tags = tagNames(workflow.tags);
+    if (tags.length === 0) {
+      add('missing-tags', 'Workflow has no tags', at());
+    }
+    if (!hasOwner(workflow, tags, options.ownerTagPrefix ?? 'owner:')) {
+      add('missing-owner', 'Workflow has no owner project or owner tag', at());
+    }
+  }
+
+  if (rules.has('duplicate-webhook-path')) {
+    for (const [route, nodes] of groupWebhookRoutes(workflows)) {
+      const owners = new Set(nodes.map(entry => entry.workflow.id));
+      if (owners.size < 2) continue;
+      const activeCount = nodes.filter(entry => entry.workflow.active).length;
+      const others = (self: Workflow) => nodes
+        .filter(entry => entry.workflow.id !== self.id)
+        .map(entry => `"${entry.workflow.name}" (${entry.workflow.id})`);
+      for (const { workflow, node } of nodes) {
+        add(
+          'duplicate-webhook-path',
+          `Webhook ${route} is also used by ${[...new Set(others(workflow))].join(', ')}`,
+          { workflowId: workflow.id, workflowName: workflow.name, nodeName: node.name },
+          route,
+          activeCount > 1 ? 'error' : 'warning'
+        );
+      }
+    }
+  }
+
+  if (rules.has('unused-credential')) {
+    const used = new Set<string>();
+    for (const workflow of workflows) {
+      for (const node of workflow.nodes ?? []) {
+        for (const reference of Object.values(node.credentials ?? {})) {
+          const id = (reference as { id?: unknown } | null)?.id;
+          if (typeof id === 'string') used.add(id);
+        }
+      }
+    }
+    for (const credential of data.credentials) {
+      if (credential.id && !used.has(credential.id)) {
+        add('unused-credential', `Credential "${credential.name}" (${credential.type}) is not used by any workflow`, { credentialId: credential.id });
+      }
+    }
+  }
+
+  if (rules.has('inactive-with-recent-failures')) {
+    const failures = new Map<string, Execution[]>();
+    for (const execution of data.failedExecutions) {
+      const list = failures.get(execution.workflowId) ?? [];
+      list.push(execution);
+      failures.set(execution.workflowId, list);
+    }
+    for (const workflow of workflows) {
+      const failed = failures.get(workflow.id!);
+      if (workflow.active || !failed) continue;
+      const last = failed.map(execution => execution.startedAt).sort().pop();
+      add(
+        'inactive-with-recent-failures',
+        `Inactive workflow failed ${failed.length} time(s) in the last ${options.recentFailureDays ?? 7} days (last: ${last})`,
+        { workflowId: workflow.id, workflowName: workflow.name }
+      );
+    }
+  }
+
+  return buildReport(workflows, data.credentials.length, findings, options.maxFindings ?? 500);
+}
+
+/**
+ * Fetch the instance data and audit it
+ */
+export async function runInstanceAudit(
+  client: N8nApiClient,
+  repository: NodeRepository,
+  options: InstanceAuditOptions = {}
+): Promise<InstanceAuditReport> {
+  return auditInstance(await collectInstanceAuditData(client, options), repository, options);
+}
+
+/**
+ * Markdown report: summary, worst workflows and findings grouped by rule
+ */
+export function toAuditMarkdown(report: InstanceAuditReport): string {
+  const { summary } = report;
+  const lines = [
+    '# n8n Instance Audit',
+    '',
+    `Generated ${report.generatedAt}`,
+    '',
+    `**Health score: ${summary.healthScore}/100** - ${summary.workflows} workflows, ${summary.credentials} credentials, ` +
+      `${summary.bySeverity.error} errors, ${summary.bySeverity.warning} warnings, ${summary.bySeverity.info} infos`,
+    ''
+  ];
+
+  if (report.workflows.length > 0) {
+    lines.push('## Workflows by risk', '', '| # | Workflow | Active | Score | Errors | Warnings | Infos |', '|---|---|---|---|---|---|---|');
+    report.workflows.slice(0, 20).forEach((workflow, index) => {
+      lines.push(`| ${index + 1} | ${escapeMarkdown(workflow.name)} (${workflow.id}) | ${workflow.active ? 'yes' : 'no'} | ${workflow.score} | ${workflow.errors} | ${workflow.warnings} | ${workflow.infos} |`);
+    });
+    if (report.workflows.length > 20) {
+      lines.push('', `...and ${report.workflows.length - 20} more workflows with findings.`);
+    }
+    lines.push('');
+  }
+
+  lines.push('## Findings', '');
+  if (report.findings.length === 0) {
+    lines.push('No findings.');
+  }
+  for (const rule of AUDIT_RULE_IDS) {
+    const ruleFindings = report.findings.filter(finding => finding.ruleId === rule);
+    if (ruleFindings.length === 0) continue;
+    lines.push(`### ${AUDIT_RULES[rule].title} (${summary.byRule[rule] ?? ruleFindings.length})`, '', `_${AUDIT_RULES[rule].description}_`, '');
+    for (const finding of ruleFindings) {
+      const where = finding.workflowId
+        ? `${escapeMarkdown(finding.workflowName ?? '')} (${finding.workflowId})${finding.nodeName ? ` → ${escapeMarkdown(finding.nodeName)}` : ''}`
+        : `credential ${finding.credentialId}`;
+      lines.push(`- **${finding.severity}** ${where}: ${escapeMarkdown(finding.message)}`);
+    }
+    lines.push('');
+  }
+  if (report.truncated > 0) {
+    lines.push(`_${report.truncated} more findings not listed (maxFindings)._`, '');
+  }
+  return lines.join('\n');
+}
+
+/**
+ * SARIF 2.1.0 log with one run, for code scanning dashboards
+ */
+export function toAuditSarif(report: InstanceAuditReport): Record<string, unknown> {
+  const level = (severity: AuditSeverity) => (severity === 'info' ? 'note' : severity);
+  return {
+    $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+    version: '2.1.0',
+    runs: [{
+      tool: {
+        driver: {
+          name: 'n8n-mcp-audit',
+          version: PROJECT_VERSION,
+          informationUri: 'https://github.com/czlonkowski/n8n-mcp',
+          rules: AUDIT_RULE_IDS.map(id => ({
+            id,
+            name: AUDIT_RULES[id].title,
+            shortDescription: { text: AUDIT_RULES[id].title },
+            fullDescription: { text: AUDIT_RULES[id].description },
+            defaultConfiguration: { level: level(AUDIT_RULES[id].severity) }
+          }))
+        }
+      },
+      invocations: [{ executionSuccessful: true, endTimeUtc: report.generatedAt }],
+      results: report.findings.map(finding => ({
+        ruleId: finding.ruleId,
+        ruleIndex: AUDIT_RULE_IDS.indexOf(finding.ruleId),
+        level: level(finding.severity),
+        message: { text: finding.message },
+        locations: [{
+          physicalLocation: {
+            artifactLocation: {
+              uri: finding.workflowId ? `workflows/${finding.workflowId}.json` : `credential_stubs/${finding.credentialId}.json`
+            }
+          },
+          logicalLocations: [{
+            name: finding.nodeName ?? finding.workflowName ?? finding.credentialId,
+            fullyQualifiedName: finding.workflowId
+              ? [finding.workflowName, finding.nodeName].filter(Boolean).join('/')
+              : `credentials/${finding.credentialId}`
+          }]
+        }],
+        partialFingerprints: { auditFinding: finding.fingerprint }
+      }))
+    }]
+  };
+}
+
+function buildReport(
+  workflows: Workflow[],
+  credentialCount: number,
+  findings: AuditFinding[],
+  maxFindings: number
+): InstanceAuditReport {
+  const scores = new Map<string, WorkflowAuditScore>();
+  const bySeverity: Record<AuditSeverity, number> = { error: 0, warning: 0, info: 0 };
+  const byRule: Partial<Record<AuditRuleId, number>> = {};
+
+  for (const finding of findings) {
+    bySeverity[finding.severity]++;
+    byRule[finding.ruleId] = (byRule[finding.ruleId] ?? 0) + 1;
+    if (!finding.workflowId) continue;
+
+    let score = scores.get(finding.workflowId);
+    if (!score) {
+      const workflow = workflows.find(candidate => candidate.id === finding.workflowId)!;
+      score = { id: workflow.id!, name: workflow.name, active: workflow.active ?? false, score: 0, errors: 0, warnings: 0, infos: 0 };
+      scores.set(finding.workflowId, score);
+    }
+    score.score += SEVERITY_WEIGHT[finding.severity];
+    score[finding.severity === 'error' ? 'errors' : finding.severity === 'warning' ? 'warnings' : 'infos']++;
+  }
+
+  // Active workflows first among equal scores - they are the ones running
+  const ranked = [...scores.values()].sort((a, b) => b.score - a.score || Number(b.active) - Number(a.active) || a.name.localeCompare(b.name));
+  const rank = new Map(ranked.map((score, index) => [score.id, index]));
+  const sorted = [...findings].sort((a, b) =>
+    SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity) ||
+    (rank.get(a.workflowId ?? '') ?? Infinity) - (rank.get(b.workflowId ?? '') ?? Infinity)
+  );
+
+  const unhealthy = ranked.filter(score => score.errors > 0 || score.warnings > 0).length;
+  return {
+    generatedAt: new Date().toISOString(),
+    summary: {
+      workflows: workflows.length,
+      credentials: credentialCount,
+      findings: findings.length,
+      bySeverity,
+      byRule,
+      healthScore: workflows.length === 0 ? 100 : Math.round(100 * (workflows.length - unhealthy) / workflows.length)
+    },
+    workflows: ranked,
+    findings: sorted.slice(0, maxFindings),
+    truncated: Math.max(0, sorted.length - maxFindings)
+  };
+}
+
+/**
+ * Secrets in a node's parameters: known token formats anywhere, and literal
+ * values of secret-named parameters. Only masked values are returned.
+ */
+function findSecrets(node: WorkflowNode, sanitizer: TemplateSanitizer): Array<{ path: string; masked: string }> {
+  const secrets: Array<{ path: string; masked: string }> = [];
+  const visit = (value: unknown, path: string, key: string) => {
+    if (typeof value === 'string') {
+      if (value.startsWith('=')) return; // Expressions reference credentials or variables
+      const tokens = sanitizer.detectTokens(value).filter(token => token.length >= MIN_TOKEN_LENGTH);
+      if (tokens.length > 0) {
+        secrets.push({ path, masked: mask(tokens[0]) });
+      } else if (SECRET_PARAMETER_NAME.test(key) && value.trim() !== '') {
+        secrets.push({ path, masked: mask(value) });
+      }
+    } else if (Array.isArray(value)) {
+      value.forEach((item, index) => visit(item, `${path}[${index}]`, key));
+    } else if (value && typeof value === 'object') {
+      // Header/query parameter lists: {name: "apiKey", value: "..."}
+      const entry = value as Record<string, unknown>;
+      const entryKey = typeof entry.name === 'string' ? entry.name : key;
+      for (const [childKey, child] of Object.entries(entry)) {
+        visit(child, path ? `${path}.${childKey}` : childKey, childKey === 'value' ? entryKey : childKey);
+      }
+    }
+  };
+  visit(node.parameters, '', '');
+  return secrets;
+}
+
+function mask(secret: string): string {
+  const visible = secret.startsWith('Bearer ') ? 'Bearer '.length + 2 : Math.min(4, Math.floor(secret.length / 4));
+  return `${secret.slice(0, visible)}***`;
+}
+
+/**
+ * Webhook nodes grouped by "METHOD /path"; expression paths are skipped
+ */
+function groupWebhookRoutes(workflows: Workflow[]): Map<string, Array<{ workflow: Workflow; node: WorkflowNode }>> {
+  const routes = new Map<string, Array<{ workflow: Workflow; node: WorkflowNode }>>();
+  for (const workflow of workflows) {
+    for (const node of workflow.nodes ?? []) {
+      if (node.type !== WEBHOOK_NODE_TYPE || node.disabled) continue;
+      const rawPath = typeof node.parameters.path === 'string' && node.parameters.path !== '' ? node.parameters.path : node.webhookId;
+      if (!rawPath || rawPath.startsWith('=')) continue;
+      const method = typeof node.parameters.httpMethod === 'string' ? node.parameters.httpMethod.toUpperCase() : 'GET';
+      const route = `${method} /${rawPath.replace(/^\/+/, '')}`;
+      const list = routes.get(route) ?? [];
+      list.push({ workflow, node });
+      routes.set(route, list);
+    }
+  }
+  return routes;
+}
+
+/**
+ * Owner project from the workflow's sharing info (newer n8n versions), or an owner tag
+ */
+function hasOwner(workflow: Workflow, tags: string[], ownerTagPrefix: string): boolean {
+  const shared = (workflow as Workflow & { shared?: Array<{ role?: string }> }).shared;
+  if (Array.isArray(shared) && shared.some(entry => entry?.role === 'workflow:owner')) return true;
+  const prefix = ownerTagPrefix.toLowerCase();
+  return tags.some(tag => tag.toLowerCase().startsWith(prefix) && tag.length > prefix.length);
+}
+
+function fingerprint(...parts: string[]): string {
+  return createHash('sha256').update(parts.join('\u0000')).digest('hex').slice(0, 16);
+}
+
+function escapeMarkdown(text: string): string {
+  return text.replace(/([|*_`\\[\]])/g, '\\$1').replace(/[\r\n]+/g, ' ');
+}
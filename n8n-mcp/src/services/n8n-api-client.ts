@@ -1,5 +1,6 @@
 import axios, { AxiosInstance, AxiosRequestConfig, InternalAxiosRequestConfig } from 'axios';
 import { logger } from '../utils/logger';
+import { recordN8nApiRequest } from '../utils/prometheus-metrics';
 import {
   Workflow,
   WorkflowListParams,
@@ -10,6 +11,7 @@ import {
   Credential,
   CredentialListParams,
   CredentialListResponse,
+  CredentialSchema,
   Tag,
   TagListParams,
   TagListResponse,
@@ -44,12 +46,16 @@ export class N8nApiClient {
   private baseUrl: string;
   private versionInfo: N8nVersionInfo | null = null;
   private versionPromise: Promise<N8nVersionInfo | null> | null = null;
+  // Request start times for the latency metric, keyed by request config
+  private requestStartTimes = new WeakMap<object, number>();
+  private metricsInstance: string;
 
   constructor(config: N8nApiClientConfig) {
     const { baseUrl, apiKey, timeout = 30000, maxRetries = 3 } = config;
 
     this.maxRetries = maxRetries;
     this.baseUrl = baseUrl;
+    this.metricsInstance = metricsInstanceLabel(baseUrl);
 
     // Ensure baseUrl ends with /api/v1
     const apiUrl = baseUrl.endsWith('/api/v1')
@@ -72,6 +78,7 @@ export class N8nApiClient {
           params: config.params,
           data: config.data,
         });
+        this.requestStartTimes.set(config, Date.now());
         return config;
       },
       (error: unknown) => {
@@ -84,9 +91,14 @@ export class N8nApiClient {
     this.client.interceptors.response.use(
       (response: any) => {
         logger.debug(`n8n API Response: ${response.status} ${response.config.url}`);
+        this.recordRequest(response.config, String(response.status));
         return response;
       },
       (error: unknown) => {
+        const axiosError = error as any;
+        if (axiosError?.config) {
+          this.recordRequest(axiosError.config, axiosError.response ? String(axiosError.response.status) : 'error');
+        }
         const n8nError = handleN8nApiError(error);
         logN8nError(n8nError, 'n8n API Response');
         return Promise.reject(n8nError);
@@ -94,6 +106,16 @@ export class N8nApiClient {
     );
   }
 
+  /**
+   * Record the latency of a finished request for /metrics
+   */
+  private recordRequest(config: AxiosRequestConfig, status: string): void {
+    const startTime = this.requestStartTimes.get(config);
+    if (startTime === undefined) return;
+    this.requestStartTimes.delete(config);
+    recordN8nApiRequest(this.metricsInstance, config.method ?? 'get', status, Date.now() - startTime);
+  }
+
   /**
    * Get the n8n version, fetching it if not already cached.
    * Uses promise-based locking to prevent concurrent requests.
@@ -205,10 +227,23 @@ export class N8nApiClient {
     }
   }
 
-  async updateWorkflow(id: string, workflow: Partial<Workflow>): Promise<Workflow> {
+  /**
+   * Updates a workflow. Read-only fields, including pinned data, are removed
+   * before sending.
+   *
+   * @param options.pinData - Pinned data to send explicitly, replacing the stored pinned data
+   */
+  async updateWorkflow(
+    id: string,
+    workflow: Partial<Workflow>,
+    options: { pinData?: Record<string, unknown> } = {}
+  ): Promise<Workflow> {
     try {
       // Step 1: Basic cleaning (remove read-only fields, filter to known settings)
       const cleanedWorkflow = cleanWorkflowForUpdate(workflow as Workflow);
+      if (options.pinData !== undefined) {
+        cleanedWorkflow.pinData = options.pinData;
+      }
 
       // Step 2: Version-aware settings filtering for older n8n compatibility
       // This prevents "additional properties" errors on n8n < 1.119.0
@@ -334,6 +369,21 @@ export class N8nApiClient {
     }
   }
 
+  /**
+   * Retries a failed execution.
+   *
+   * @param loadWorkflow - Run the current workflow version instead of the one the execution used
+   * @returns The new execution
+   */
+  async retryExecution(id: string, loadWorkflow = false): Promise<Execution> {
+    try {
+      const response = await this.client.post(`/executions/${id}/retry`, { loadWorkflow });
+      return response.data;
+    } catch (error) {
+      throw handleN8nApiError(error);
+    }
+  }
+
   // Webhook Execution
   async triggerWebhook(request: WebhookRequest): Promise<any> {
     try {
@@ -352,6 +402,9 @@ export class N8nApiClient {
       const url = new URL(webhookUrl);
       const webhookPath = url.pathname;
       
+      // GET and HEAD requests carry the data as query parameters
+      const sendsQuery = httpMethod === 'GET' || httpMethod === 'HEAD';
+
       // Make request directly to webhook endpoint
       const config: AxiosRequestConfig = {
         method: httpMethod,
@@ -361,8 +414,8 @@ export class N8nApiClient {
           // Don't override API key header for webhook endpoints
           'X-N8N-API-KEY': undefined,
         },
-        data: httpMethod !== 'GET' ? data : undefined,
-        params: httpMethod === 'GET' ? data : undefined,
+        data: sendsQuery ? undefined : data,
+        params: sendsQuery ? data : undefined,
         // Webhooks might take longer
         timeout: waitForResponse ? 120000 : 30000,
       };
@@ -444,6 +497,23 @@ export class N8nApiClient {
     }
   }
 
+  /**
+   * Gets the JSON schema describing the data fields of a credential type.
+   *
+   * @param credentialTypeName - Credential type name (e.g., 'slackApi')
+   * @returns JSON schema with properties and required fields
+   */
+  async getCredentialSchema(credentialTypeName: string): Promise<CredentialSchema> {
+    try {
+      const response = await this.client.get(
+        `/credentials/schema/${encodeURIComponent(credentialTypeName)}`
+      );
+      return response.data;
+    } catch (error) {
+      throw handleN8nApiError(error);
+    }
+  }
+
   // Tag Management
   /**
    * Lists tags from n8n instance.
@@ -493,6 +563,34 @@ export class N8nApiClient {
     }
   }
 
+  async getWorkflowTags(workflowId: string): Promise<Tag[]> {
+    try {
+      const response = await this.client.get(`/workflows/${workflowId}/tags`);
+      return response.data;
+    } catch (error) {
+      throw handleN8nApiError(error);
+    }
+  }
+
+  /**
+   * Replaces the tags of a workflow.
+   *
+   * @param workflowId - Workflow ID
+   * @param tagIds - Complete list of tag IDs the workflow should have
+   * @returns Tags now assigned to the workflow
+   */
+  async updateWorkflowTags(workflowId: string, tagIds: string[]): Promise<Tag[]> {
+    try {
+      const response = await this.client.put(
+        `/workflows/${workflowId}/tags`,
+        tagIds.map(id => ({ id }))
+      );
+      return response.data;
+    } catch (error) {
+      throw handleN8nApiError(error);
+    }
+  }
+
   // Source Control Management (Enterprise feature)
   async getSourceControlStatus(): Promise<SourceControlStatus> {
     try {
@@ -609,4 +707,16 @@ export class N8nApiClient {
 
     return responseData;
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Instance label for metrics - the host only, so paths and credentials in the
+ * URL never end up in metric labels
+ */
+function metricsInstanceLabel(baseUrl: string): string {
+  try {
+    return new URL(baseUrl).host || 'unknown';
+  } catch {
+    return 'unknown';
+  }
+}
@@ -0,0 +1,392 @@
+/**
+ * Node Version Differ
+ *
+ * Derives breaking changes from the stored properties_schema of node
+ * versions, complementing the hand-curated breaking changes registry.
+ *
+ * Detected change types:
+ * - added / removed: property only exists in one version. Removals need
+ *   manual review, as the value may live on somewhere the schemas do not show.
+ * - renamed: a removed and an added property share their display name, or a
+ *   property moved under another parent (e.g. into an options collection)
+ * - type_changed: property type differs
+ * - requirement_changed: property became required or optional
+ * - default_changed: default value differs
+ *
+ * Property paths use the same form as the registry ("parameters.mode",
+ * "parameters.options.timeout" for collection options), so the migration
+ * strategies can be applied by NodeMigrationService as-is.
+ */
+
+import { NodeRepository } from '../database/node-repository';
+import type { BreakingChange } from './breaking-changes-registry';
+
+interface PropertyInfo {
+  path: string;
+  name: string;
+  displayName?: string;
+  types: string[];
+  required: boolean;
+  /** Defaults of all definitions (a property can be defined once per displayOptions branch) */
+  defaults: unknown[];
+}
+
+/** UI-only property types without a stored value */
+const UI_ONLY_TYPES = new Set(['notice', 'callout', 'button']);
+
+/**
+ * Compare the properties of two node versions and describe every change
+ * as a breaking change entry with a migration strategy where one can be
+ * inferred.
+ */
+export function diffPropertySchemas(
+  nodeType: string,
+  fromVersion: string,
+  toVersion: string,
+  oldProperties: any[],
+  newProperties: any[]
+): BreakingChange[] {
+  const oldProps = collectProperties(oldProperties);
+  const newProps = collectProperties(newProperties);
+  const changes: BreakingChange[] = [];
+  const base = { nodeType, fromVersion, toVersion };
+
+  // Options of an added or removed collection go with it
+  const removed = [...oldProps.values()].filter(prop => !newProps.has(prop.path) && !isOnlyIn(parentPath(prop.path), oldProps, newProps));
+  const added = [...newProps.values()].filter(prop => !oldProps.has(prop.path) && !isOnlyIn(parentPath(prop.path), newProps, oldProps));
+
+  const renamedFrom = new Set<string>();
+  const renamedTo = new Set<string>();
+
+  // A removed and an added property with the same label is a rename
+  for (const oldProp of [...removed]) {
+    const candidates = added.filter(newProp => isRenameOf(oldProp, newProp));
+    if (candidates.length !== 1 || removed.filter(prop => isRenameOf(prop, candidates[0])).length !== 1) {
+      continue;
+    }
+    const newProp = candidates[0];
+    removed.splice(removed.indexOf(oldProp), 1);
+    added.splice(added.indexOf(newProp), 1);
+    renamedFrom.add(oldProp.path);
+    renamedTo.add(newProp.path);
+    changes.push(renameChange(base, oldProp, newProp));
+  }
+
+  // A property with the same name or label under another parent was moved,
+  // e.g. parameters.timeout to parameters.options.timeout. Options of added
+  // or removed collections count here, as the collection is often the new parent.
+  const oldOnly = [...oldProps.values()].filter(prop => !newProps.has(prop.path) && !renamedFrom.has(prop.path));
+  const newOnly = [...newProps.values()].filter(prop => !oldProps.has(prop.path) && !renamedTo.has(prop.path));
+  for (const oldProp of oldOnly) {
+    const candidates = newOnly.filter(newProp => isMoveOf(oldProp, newProp));
+    if (candidates.length !== 1 || oldOnly.filter(prop => isMoveOf(prop, candidates[0])).length !== 1) {
+      continue;
+    }
+    const newProp = candidates[0];
+    if (removed.includes(oldProp)) removed.splice(removed.indexOf(oldProp), 1);
+    if (added.includes(newProp)) added.splice(added.indexOf(newProp), 1);
+    changes.push(renameChange(base, oldProp, newProp));
+  }
+
+  for (const prop of added) {
+    const defaultValue = singleDefault(prop);
+    const hasDefault = !isEmptyValue(defaultValue);
+    if (prop.required && !hasDefault) {
+      changes.push({
+        ...base,
+        propertyName: prop.path,
+        changeType: 'added',
+        isBreaking: true,
+        newValue: describeTypes(prop),
+        migrationHint: `Required property "${prop.name}" was added in v${toVersion} and has no default. Provide a value.`,
+        autoMigratable: false,
+        severity: 'HIGH'
+      });
+    } else {
+      changes.push({
+        ...base,
+        propertyName: prop.path,
+        changeType: 'added',
+        isBreaking: false,
+        newValue: describeTypes(prop),
+        migrationHint: prop.required
+          ? `Required property "${prop.name}" was added in v${toVersion}. Its default ${JSON.stringify(defaultValue)} is set.`
+          : `Optional property "${prop.name}" was added in v${toVersion}. Safe to ignore if not needed.`,
+        autoMigratable: true,
+        // Optional properties need nothing; n8n falls back to their default
+        migrationStrategy: prop.required ? { type: 'add_property', defaultValue } : undefined,
+        severity: prop.required ? 'MEDIUM' : 'LOW'
+      });
+    }
+  }
+
+  for (const prop of removed) {
+    changes.push({
+      ...base,
+      propertyName: prop.path,
+      changeType: 'removed',
+      isBreaking: true,
+      oldValue: describeTypes(prop),
+      migrationHint: `Property "${prop.name}" was removed in v${toVersion}. Check whether its value belongs in another property, then remove it.`,
+      autoMigratable: false,
+      severity: 'MEDIUM'
+    });
+  }
+
+  for (const newProp of newProps.values()) {
+    const oldProp = oldProps.get(newProp.path);
+    if (!oldProp) continue;
+
+    if (!sameTypes(oldProp, newProp) && !sharesType(oldProp, newProp)) {
+      changes.push({
+        ...base,
+        propertyName: newProp.path,
+        changeType: 'type_changed',
+        isBreaking: true,
+        oldValue: describeTypes(oldProp),
+        newValue: describeTypes(newProp),
+        migrationHint: `Property "${newProp.name}" changed from ${describeTypes(oldProp)} to ${describeTypes(newProp)} in v${toVersion}. Convert the existing value manually.`,
+        autoMigratable: false,
+        severity: 'HIGH'
+      });
+      continue;
+    }
+
+    const newDefault = singleDefault(newProp);
+    if (oldProp.required !== newProp.required) {
+      const canDefault = newProp.required && !isEmptyValue(newDefault);
+      changes.push({
+        ...base,
+        propertyName: newProp.path,
+        changeType: 'requirement_changed',
+        isBreaking: newProp.required && !canDefault,
+        oldValue: oldProp.required ? 'required' : 'optional',
+        newValue: newProp.required ? 'required' : 'optional',
+        migrationHint: !newProp.required
+          ? `Property "${newProp.name}" is optional in v${toVersion}.`
+          : canDefault
+            ? `Property "${newProp.name}" is required in v${toVersion}. Its default ${JSON.stringify(newDefault)} is set if no value is configured.`
+            : `Property "${newProp.name}" is required in v${toVersion}. Ensure a value is provided.`,
+        autoMigratable: !newProp.required || canDefault,
+        migrationStrategy: canDefault ? { type: 'set_default', defaultValue: newDefault } : undefined,
+        severity: !newProp.required ? 'LOW' : canDefault ? 'MEDIUM' : 'HIGH'
+      });
+    }
+
+    // n8n does not store parameters that equal their default, so a new
+    // default silently changes behavior. Pin the old default to keep it.
+    const oldDefault = singleDefault(oldProp);
+    if (
+      oldProp.defaults.length === 1 &&
+      newProp.defaults.length === 1 &&
+      oldDefault !== undefined &&
+      JSON.stringify(oldDefault) !== JSON.stringify(newDefault)
+    ) {
+      changes.push({
+        ...base,
+        propertyName: newProp.path,
+        changeType: 'default_changed',
+        isBreaking: false,
+        oldValue: JSON.stringify(oldDefault),
+        newValue: JSON.stringify(newDefault),
+        migrationHint: `The default of "${newProp.name}" changed from ${JSON.stringify(oldDefault)} to ${JSON.stringify(newDefault)} in v${toVersion}. The old default is set explicitly to keep the previous behavior.`,
+        autoMigratable: true,
+        migrationStrategy: { type: 'set_default', defaultValue: oldDefault },
+        severity: 'MEDIUM'
+      });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Breaking changes between each pair of consecutive versions
+ */
+export function deriveBreakingChanges(
+  nodeType: string,
+  versions: Array<{ version: string; propertiesSchema?: any[] | null }>
+): BreakingChange[] {
+  const sorted = versions
+    .filter(v => Array.isArray(v.propertiesSchema))
+    .sort((a, b) => compareVersions(a.version, b.version));
+
+  const changes: BreakingChange[] = [];
+  for (let i = 1; i < sorted.length; i++) {
+    changes.push(...diffPropertySchemas(
+      nodeType,
+      sorted[i - 1].version,
+      sorted[i].version,
+      sorted[i - 1].propertiesSchema!,
+      sorted[i].propertiesSchema!
+    ));
+  }
+  return changes;
+}
+
+/**
+ * Breaking changes derived from the node_versions table, computed once per
+ * node type.
+ */
+export class DerivedBreakingChangeRegistry {
+  private cache = new Map<string, Array<{ version: string; propertiesSchema?: any[] | null }>>();
+
+  constructor(private nodeRepository: NodeRepository) {}
+
+  /**
+   * Changes between all consecutive stored versions of a node
+   */
+  getChangesForNode(nodeType: string): BreakingChange[] {
+    return deriveBreakingChanges(nodeType, this.getVersions(nodeType));
+  }
+
+  /**
+   * Changes for an upgrade between two stored versions. Multi-step upgrades
+   * compare the two versions directly, so a property added and removed
+   * again in between is not reported.
+   *
+   * @returns null if either version has no stored properties
+   */
+  getChangesBetween(nodeType: string, fromVersion: string, toVersion: string): BreakingChange[] | null {
+    const versions = this.getVersions(nodeType);
+    const from = versions.find(v => compareVersions(v.version, fromVersion) === 0);
+    const to = versions.find(v => compareVersions(v.version, toVersion) === 0);
+    if (!Array.isArray(from?.propertiesSchema) || !Array.isArray(to?.propertiesSchema)) {
+      return null;
+    }
+    return diffPropertySchemas(nodeType, fromVersion, toVersion, from.propertiesSchema, to.propertiesSchema);
+  }
+
+  private getVersions(nodeType: string): Array<{ version: string; propertiesSchema?: any[] | null }> {
+    let versions = this.cache.get(nodeType);
+    if (!versions) {
+      try {
+        versions = this.nodeRepository.getNodeVersions(nodeType) ?? [];
+      } catch {
+        // Databases without the node_versions table
+        versions = [];
+      }
+      this.cache.set(nodeType, versions!);
+    }
+    return versions!;
+  }
+}
+
+function collectProperties(properties: any[], prefix = 'parameters', result = new Map<string, PropertyInfo>()): Map<string, PropertyInfo> {
+  for (const prop of properties || []) {
+    if (!prop || typeof prop.name !== 'string' || UI_ONLY_TYPES.has(prop.type)) continue;
+
+    const path = `${prefix}.${prop.name}`;
+    const existing = result.get(path);
+    if (existing) {
+      if (prop.type && !existing.types.includes(prop.type)) existing.types.push(prop.type);
+      existing.required = existing.required || prop.required === true;
+      if (!existing.defaults.some(value => JSON.stringify(value) === JSON.stringify(prop.default))) {
+        existing.defaults.push(prop.default);
+      }
+    } else {
+      result.set(path, {
+        path,
+        name: prop.name,
+        displayName: prop.displayName,
+        types: prop.type ? [prop.type] : [],
+        required: prop.required === true,
+        defaults: [prop.default]
+      });
+    }
+
+    // Collection options are stored as keys of the collection value;
+    // fixedCollection values are grouped and cannot be addressed by path
+    if (prop.type === 'collection' && Array.isArray(prop.options)) {
+      collectProperties(prop.options, path, result);
+    }
+  }
+  return result;
+}
+
+/**
+ * A rename or move that carries the value over when the type stayed the same
+ */
+function renameChange(
+  base: Pick<BreakingChange, 'nodeType' | 'fromVersion' | 'toVersion'>,
+  oldProp: PropertyInfo,
+  newProp: PropertyInfo
+): BreakingChange {
+  const sameType = sameTypes(oldProp, newProp);
+  const moved = parentPath(oldProp.path) !== parentPath(newProp.path);
+  const change = moved
+    ? `Property "${oldProp.path}" moved to "${newProp.path}" in v${base.toVersion}`
+    : `Property "${oldProp.name}" was renamed to "${newProp.name}" in v${base.toVersion}`;
+
+  return {
+    ...base,
+    propertyName: oldProp.path,
+    changeType: 'renamed',
+    isBreaking: true,
+    oldValue: moved ? oldProp.path : oldProp.name,
+    newValue: moved ? newProp.path : newProp.name,
+    migrationHint: sameType
+      ? `${change}. Its value is moved to the new ${moved ? 'path' : 'name'}.`
+      : `${change} and its type changed from ${describeTypes(oldProp)} to ${describeTypes(newProp)}. Re-enter the value manually.`,
+    autoMigratable: sameType,
+    migrationStrategy: sameType
+      ? { type: 'rename_property', sourceProperty: oldProp.path, targetProperty: newProp.path }
+      : undefined,
+    severity: sameType ? 'MEDIUM' : 'HIGH'
+  };
+}
+
+function isOnlyIn(path: string, props: Map<string, PropertyInfo>, others: Map<string, PropertyInfo>): boolean {
+  return props.has(path) && !others.has(path);
+}
+
+function isMoveOf(oldProp: PropertyInfo, newProp: PropertyInfo): boolean {
+  return parentPath(oldProp.path) !== parentPath(newProp.path) &&
+    (oldProp.name === newProp.name ||
+      (!!oldProp.displayName && oldProp.displayName.toLowerCase() === newProp.displayName?.toLowerCase()));
+}
+
+function isRenameOf(oldProp: PropertyInfo, newProp: PropertyInfo): boolean {
+  return !!oldProp.displayName &&
+    oldProp.displayName.toLowerCase() === newProp.displayName?.toLowerCase() &&
+    parentPath(oldProp.path) === parentPath(newProp.path);
+}
+
+function parentPath(path: string): string {
+  return path.slice(0, path.lastIndexOf('.'));
+}
+
+function sameTypes(a: PropertyInfo, b: PropertyInfo): boolean {
+  return a.types.length === b.types.length && a.types.every(type => b.types.includes(type));
+}
+
+function sharesType(a: PropertyInfo, b: PropertyInfo): boolean {
+  return a.types.some(type => b.types.includes(type));
+}
+
+function describeTypes(prop: PropertyInfo): string {
+  return prop.types.join('|') || 'unknown';
+}
+
+function singleDefault(prop: PropertyInfo): unknown {
+  return prop.defaults.length === 1 ? prop.defaults[0] : undefined;
+}
+
+function isEmptyValue(value: unknown): boolean {
+  return value === undefined || value === null || value === '';
+}
+
+function compareVersions(v1: string, v2: string): number {
+  const parts1 = String(v1).split('.').map(Number);
+  const parts2 = String(v2).split('.').map(Number);
+
+  for (let i = 0; i < Math.max(parts1.length, parts2.length); i++) {
+    const p1 = parts1[i] || 0;
+    const p2 = parts2[i] || 0;
+
+    if (p1 < p2) return -1;
+    if (p1 > p2) return 1;
+  }
+
+  return 0;
+}
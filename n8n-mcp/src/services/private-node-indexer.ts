@@ -0,0 +1,221 @@
+/**
+ * Indexes in-house node packages that are not published to npm.
+ *
+ * Packages are read from local directories or npm tarballs, parsed with the
+ * same NodeParser/PropertyExtractor as the core packages and stored with
+ * is_private = 1, so search_nodes, get_node and validate_node treat them
+ * like any other node.
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { NodeRepository } from '../database/node-repository';
+import { N8nNodeLoader, NodeLoaderOutput } from '../loaders/node-loader';
+import { NodeParser, ParsedNode } from '../parsers/node-parser';
+import { ToolVariantGenerator } from './tool-variant-generator';
+import { extractTarball } from '../utils/tarball';
+
+/**
+ * Tarballs are extracted inside the n8n-mcp installation so that peer
+ * dependencies like n8n-workflow resolve from its node_modules.
+ */
+export const DEFAULT_PRIVATE_PACKAGES_DIR = path.join(__dirname, '../../data/private-packages');
+
+const TARBALL_PATTERN = /\.(tgz|tar\.gz|tar)$/i;
+
+export interface PrivatePackageResult {
+  packageName: string;
+  version?: string;
+  /** Directory or tarball the package was read from */
+  source: string;
+  nodes: string[];
+  errors: string[];
+}
+
+export interface PrivateNodeIndexResult {
+  packages: PrivatePackageResult[];
+  saved: number;
+  /** Sources that could not be read at all */
+  errors: string[];
+}
+
+export interface PrivateNodeIndexerOptions {
+  /** Where tarballs are extracted (default: data/private-packages) */
+  extractDir?: string;
+  /** Loader progress output (default: console) */
+  output?: NodeLoaderOutput;
+}
+
+/**
+ * Paths configured with N8N_PRIVATE_NODE_PATHS (comma-separated)
+ */
+export function getConfiguredPrivateNodePaths(): string[] {
+  return (process.env.N8N_PRIVATE_NODE_PATHS || '')
+    .split(',')
+    .map(p => p.trim())
+    .filter(Boolean);
+}
+
+export class PrivateNodeIndexer {
+  private parser = new NodeParser();
+  private toolVariantGenerator = new ToolVariantGenerator();
+  private extractDir: string;
+  private output: NodeLoaderOutput;
+
+  constructor(private repository: NodeRepository, options: PrivateNodeIndexerOptions = {}) {
+    this.extractDir = options.extractDir ?? DEFAULT_PRIVATE_PACKAGES_DIR;
+    this.output = options.output ?? console;
+  }
+
+  /**
+   * Index every package found in the given directories and tarballs. A
+   * directory is either a package itself or contains packages/tarballs.
+   * Re-indexing a package replaces its previously stored nodes.
+   */
+  async indexPaths(sources: string[]): Promise<PrivateNodeIndexResult> {
+    this.repository.ensurePrivateNodeColumns();
+
+    const result: PrivateNodeIndexResult = { packages: [], saved: 0, errors: [] };
+    for (const source of sources) {
+      const absolute = path.resolve(source);
+      let packages: Array<{ dir: string; source: string }>;
+      try {
+        packages = this.findPackages(absolute);
+      } catch (error) {
+        result.errors.push(`${source}: ${error instanceof Error ? error.message : String(error)}`);
+        continue;
+      }
+      if (packages.length === 0) {
+        result.errors.push(`${source}: no n8n node packages found (package.json needs an "n8n.nodes" entry)`);
+        continue;
+      }
+
+      for (const pkg of packages) {
+        const packageResult = await this.indexPackage(pkg.dir, pkg.source);
+        result.packages.push(packageResult);
+        result.saved += packageResult.nodes.length;
+      }
+    }
+    return result;
+  }
+
+  private findPackages(source: string): Array<{ dir: string; source: string }> {
+    if (!fs.existsSync(source)) {
+      throw new Error('path does not exist');
+    }
+    if (fs.statSync(source).isFile()) {
+      if (!TARBALL_PATTERN.test(source)) {
+        throw new Error('expected a directory or a package tarball (.tgz)');
+      }
+      return [{ dir: this.extract(source), source }];
+    }
+    if (isNodePackage(source)) {
+      return [{ dir: source, source }];
+    }
+
+    // A folder of packages and tarballs; scoped packages are one level deeper
+    const packages: Array<{ dir: string; source: string }> = [];
+    for (const entry of fs.readdirSync(source, { withFileTypes: true }).sort((a, b) => a.name.localeCompare(b.name))) {
+      const full = path.join(source, entry.name);
+      if (entry.isDirectory() && entry.name.startsWith('@')) {
+        for (const scoped of fs.readdirSync(full).sort()) {
+          if (isNodePackage(path.join(full, scoped))) {
+            packages.push({ dir: path.join(full, scoped), source: path.join(full, scoped) });
+          }
+        }
+      } else if (entry.isDirectory() && isNodePackage(full)) {
+        packages.push({ dir: full, source: full });
+      } else if (entry.isFile() && TARBALL_PATTERN.test(entry.name)) {
+        packages.push({ dir: this.extract(full), source: full });
+      }
+    }
+    return packages;
+  }
+
+  private extract(tarball: string): string {
+    const hash = crypto.createHash('sha1').update(tarball).digest('hex').slice(0, 8);
+    const target = path.join(this.extractDir, `${path.basename(tarball).replace(TARBALL_PATTERN, '')}-${hash}`);
+    fs.rmSync(target, { recursive: true, force: true });
+    extractTarball(tarball, target);
+    if (!isNodePackage(target)) {
+      throw new Error(`${path.basename(tarball)} is not an n8n node package`);
+    }
+    return target;
+  }
+
+  private async indexPackage(dir: string, source: string): Promise<PrivatePackageResult> {
+    const packageJson = JSON.parse(fs.readFileSync(path.join(dir, 'package.json'), 'utf-8'));
+    const result: PrivatePackageResult = {
+      packageName: packageJson.name,
+      version: packageJson.version,
+      source,
+      nodes: [],
+      errors: []
+    };
+
+    // Collect load failures the loader reports instead of throwing
+    const loader = new N8nNodeLoader({
+      log: message => this.output.log(message),
+      warn: message => {
+        result.errors.push(message.trim());
+        this.output.warn(message);
+      },
+      error: (message, ...details) => {
+        result.errors.push([message.trim(), ...details.map(String)].join(' '));
+        this.output.error(message, ...details);
+      }
+    });
+
+    let loaded;
+    try {
+      loaded = await loader.loadPackageFromDirectory(dir);
+    } catch (error) {
+      result.errors.push(error instanceof Error ? error.message : String(error));
+      return result;
+    }
+
+    const parsed: ParsedNode[] = [];
+    for (const { nodeName, NodeClass } of loaded) {
+      try {
+        const node = this.parser.parse(NodeClass, result.packageName);
+        // Workflows reference non-core nodes by their full package name
+        node.nodeType = `${result.packageName}.${node.nodeType.split('.').pop()}`;
+        if (!node.displayName) {
+          throw new Error('node has no displayName');
+        }
+        node.version = node.version ?? packageJson.version;
+
+        const toolVariant = this.toolVariantGenerator.generateToolVariant(node);
+        if (toolVariant) {
+          node.hasToolVariant = true;
+          parsed.push(toolVariant);
+        }
+        parsed.push(node);
+      } catch (error) {
+        result.errors.push(`Failed to parse ${nodeName}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+
+    // Keep the previous index if nothing could be parsed
+    if (parsed.length === 0) {
+      return result;
+    }
+    this.repository.deletePrivateNodes(result.packageName);
+    for (const node of parsed) {
+      this.repository.savePrivateNode(node, source);
+      result.nodes.push(node.nodeType);
+    }
+    return result;
+  }
+}
+
+function isNodePackage(dir: string): boolean {
+  const file = path.join(dir, 'package.json');
+  if (!fs.existsSync(file)) return false;
+  try {
+    return !!JSON.parse(fs.readFileSync(file, 'utf-8')).n8n?.nodes;
+  } catch {
+    return false;
+  }
+}
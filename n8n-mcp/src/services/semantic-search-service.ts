@@ -0,0 +1,583 @@
+/**
+ * Semantic Search Service
+ *
+ * Hybrid search over nodes and templates: BM25 scores from the FTS5 indexes
+ * are combined with the cosine similarity of sentence embeddings from the
+ * local embedding model (see embedding-model.ts).
+ *
+ * Vectors are precomputed into node_embeddings / template_embeddings by the
+ * rebuild and fetch:templates scripts (indexNodes / indexTemplates). Searches
+ * only read them: rows whose text changed since then, or that were embedded
+ * with another model, are embedded in memory and not written back.
+ */
+
+import { createHash } from 'crypto';
+import { DatabaseAdapter } from '../database/database-adapter';
+import { logger } from '../utils/logger';
+import {
+  EmbeddingModel,
+  bufferToVector,
+  cosineSimilarity,
+  loadEmbeddingModel,
+  vectorToBuffer
+} from './embedding-model';
+
+export interface SemanticSearchWeights {
+  keyword: number;
+  vector: number;
+}
+
+export interface SemanticSearchServiceOptions {
+  weights?: Partial<SemanticSearchWeights>;
+  /** Model to embed with. Defaults to the configured one (loaded on first use) */
+  model?: EmbeddingModel;
+}
+
+export type SemanticNodeSource = 'all' | 'core' | 'community' | 'verified' | 'private';
+
+export interface SemanticNodeMatch {
+  node: any; // Full nodes row
+  score: number;
+  keywordScore: number;
+  vectorScore: number;
+}
+
+export interface SemanticTemplateMatch {
+  templateId: number;
+  score: number;
+  keywordScore: number;
+  vectorScore: number;
+}
+
+export interface EmbeddingIndexResult {
+  model: string;
+  total: number;
+  embedded: number;
+  removed: number;
+}
+
+interface EmbeddingSource {
+  key: string;
+  text: string;
+}
+
+interface StoredVector {
+  hash: string;
+  vector: Float32Array;
+}
+
+interface RankedKey {
+  key: string;
+  score: number;
+  keywordScore: number;
+  vectorScore: number;
+}
+
+const DEFAULT_WEIGHTS: SemanticSearchWeights = { keyword: 0.4, vector: 0.6 };
+
+// Results need a keyword match or at least this similarity
+const MIN_VECTOR_SIMILARITY = 0.2;
+// BM25 candidates considered per query
+const KEYWORD_CANDIDATES = 200;
+// Template descriptions can be long; the start carries the intent
+const MAX_TEMPLATE_DESCRIPTION_LENGTH = 1000;
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'can', 'do', 'for', 'from', 'get', 'has', 'have',
+  'how', 'i', 'if', 'in', 'into', 'is', 'it', 'its', 'me', 'my', 'n8n', 'new', 'node', 'nodes', 'of',
+  'on', 'or', 'our', 'that', 'the', 'their', 'them', 'then', 'this', 'to', 'use', 'using', 'want',
+  'we', 'when', 'which', 'with', 'you', 'your'
+]);
+
+/**
+ * Read weights from SEMANTIC_SEARCH_KEYWORD_WEIGHT / SEMANTIC_SEARCH_VECTOR_WEIGHT
+ */
+export function getSemanticSearchWeights(): Partial<SemanticSearchWeights> {
+  const parse = (value: string | undefined): number | undefined => {
+    if (value === undefined || value.trim() === '') return undefined;
+    const parsed = Number(value);
+    return Number.isFinite(parsed) && parsed >= 0 ? parsed : undefined;
+  };
+  return {
+    keyword: parse(process.env.SEMANTIC_SEARCH_KEYWORD_WEIGHT),
+    vector: parse(process.env.SEMANTIC_SEARCH_VECTOR_WEIGHT)
+  };
+}
+
+export class SemanticSearchService {
+  private weights: SemanticSearchWeights;
+  private model: Promise<EmbeddingModel> | null;
+  // Shared by concurrent searches while the vectors load
+  private nodeVectors: Promise<Map<string, Float32Array>> | null = null;
+  private templateVectors: Promise<Map<string, Float32Array>> | null = null;
+
+  constructor(private db: DatabaseAdapter, options: SemanticSearchServiceOptions = {}) {
+    const configured = { ...getSemanticSearchWeights(), ...options.weights };
+    const keyword = configured.keyword ?? DEFAULT_WEIGHTS.keyword;
+    const vector = configured.vector ?? DEFAULT_WEIGHTS.vector;
+    const sum = keyword + vector;
+    this.weights = sum > 0
+      ? { keyword: keyword / sum, vector: vector / sum }
+      : { ...DEFAULT_WEIGHTS };
+    this.model = options.model ? Promise.resolve(options.model) : null;
+  }
+
+  getWeights(): SemanticSearchWeights {
+    return { ...this.weights };
+  }
+
+  /**
+   * The embedding model, loaded once. Rejects with
+   * EmbeddingModelUnavailableError when semantic search is not set up; a
+   * failed load is retried on the next call.
+   */
+  getModel(): Promise<EmbeddingModel> {
+    if (!this.model) {
+      const loading = loadEmbeddingModel();
+      this.model = loading;
+      loading.catch(() => {
+        if (this.model === loading) this.model = null;
+      });
+    }
+    return this.model;
+  }
+
+  /**
+   * Store vectors for all nodes whose text changed since they were last
+   * embedded. Run by the rebuild scripts, not at query time.
+   */
+  async indexNodes(): Promise<EmbeddingIndexResult> {
+    const { vectors, result } = await this.syncEmbeddings('node_embeddings', 'node_type', this.getNodeSources());
+    this.nodeVectors = Promise.resolve(vectors);
+    return result;
+  }
+
+  /**
+   * Store vectors for all templates whose text changed since they were last
+   * embedded. Run by fetch:templates, not at query time.
+   */
+  async indexTemplates(): Promise<EmbeddingIndexResult> {
+    const sources = this.getTemplateSources();
+    if (!sources) {
+      this.templateVectors = Promise.resolve(new Map());
+      return { model: (await this.getModel()).id, total: 0, embedded: 0, removed: 0 };
+    }
+
+    const { vectors, result } = await this.syncEmbeddings('template_embeddings', 'template_id', sources);
+    this.templateVectors = Promise.resolve(vectors);
+    return result;
+  }
+
+  /**
+   * Drop cached vectors, e.g. after nodes were re-indexed
+   */
+  invalidate(): void {
+    this.nodeVectors = null;
+    this.templateVectors = null;
+  }
+
+  /**
+   * Rank nodes by combined BM25 and vector similarity
+   */
+  async searchNodes(query: string, options: { limit?: number; source?: SemanticNodeSource } = {}): Promise<SemanticNodeMatch[]> {
+    const limit = options.limit ?? 20;
+    const queryVector = await this.embedQuery(query);
+    const vectors = await this.getNodeVectors();
+
+    const ftsQuery = buildFtsQuery(query);
+    const keywordScores = ftsQuery && this.tableExists('nodes_fts')
+      ? this.getKeywordScores(`
+          SELECT n.node_type AS key, bm25(nodes_fts) AS score
+          FROM nodes_fts
+          JOIN nodes n ON n.rowid = nodes_fts.rowid
+          WHERE nodes_fts MATCH ?
+          ORDER BY score
+          LIMIT ?
+        `, ftsQuery)
+      : new Map<string, number>();
+
+    let allowed: Set<string> | null = null;
+    const sourceFilter = this.getSourceFilter(options.source ?? 'all');
+    if (sourceFilter) {
+      allowed = new Set(
+        (this.db.prepare(`SELECT node_type FROM nodes WHERE ${sourceFilter}`).all() as any[]).map(r => r.node_type)
+      );
+    }
+
+    const ranked = this.rank(queryVector, vectors, keywordScores)
+      .filter(match => !allowed || allowed.has(match.key))
+      .slice(0, limit);
+    if (ranked.length === 0) return [];
+
+    const rows = this.db.prepare(
+      `SELECT * FROM nodes WHERE node_type IN (${ranked.map(() => '?').join(',')})`
+    ).all(...ranked.map(match => match.key)) as any[];
+    const rowsByType = new Map(rows.map(row => [row.node_type, row]));
+
+    return ranked
+      .filter(match => rowsByType.has(match.key))
+      .map(({ key, score, keywordScore, vectorScore }) => ({
+        node: rowsByType.get(key),
+        score,
+        keywordScore,
+        vectorScore
+      }));
+  }
+
+  /**
+   * Rank templates by combined BM25 and vector similarity
+   */
+  async searchTemplates(
+    query: string,
+    options: { limit?: number; offset?: number } = {}
+  ): Promise<{ matches: SemanticTemplateMatch[]; total: number }> {
+    const limit = options.limit ?? 20;
+    const offset = options.offset ?? 0;
+    const queryVector = await this.embedQuery(query);
+    const vectors = await this.getTemplateVectors();
+
+    const ftsQuery = buildFtsQuery(query);
+    const keywordScores = ftsQuery && this.tableExists('templates_fts')
+      ? this.getKeywordScores(`
+          SELECT rowid AS key, bm25(templates_fts) AS score
+          FROM templates_fts
+          WHERE templates_fts MATCH ?
+          ORDER BY score
+          LIMIT ?
+        `, ftsQuery)
+      : new Map<string, number>();
+
+    const ranked = this.rank(queryVector, vectors, keywordScores);
+    return {
+      matches: ranked.slice(offset, offset + limit).map(({ key, score, keywordScore, vectorScore }) => ({
+        templateId: Number(key),
+        score,
+        keywordScore,
+        vectorScore
+      })),
+      total: ranked.length
+    };
+  }
+
+  private getNodeVectors(): Promise<Map<string, Float32Array>> {
+    if (!this.nodeVectors) {
+      const loading = this.loadVectors('node_embeddings', 'node_type', this.getNodeSources());
+      this.nodeVectors = loading;
+      // Forget a failed load so the next search tries again
+      loading.catch(() => {
+        if (this.nodeVectors === loading) this.nodeVectors = null;
+      });
+    }
+    return this.nodeVectors;
+  }
+
+  private getTemplateVectors(): Promise<Map<string, Float32Array>> {
+    if (!this.templateVectors) {
+      const sources = this.getTemplateSources();
+      if (!sources) return Promise.resolve(new Map());
+
+      const loading = this.loadVectors('template_embeddings', 'template_id', sources);
+      this.templateVectors = loading;
+      loading.catch(() => {
+        if (this.templateVectors === loading) this.templateVectors = null;
+      });
+    }
+    return this.templateVectors;
+  }
+
+  private getNodeSources(): EmbeddingSource[] {
+    const rows = this.db.prepare(`
+      SELECT node_type, display_name, description, category, operations FROM nodes
+    `).all() as any[];
+    return rows.map(row => ({ key: row.node_type, text: buildNodeEmbeddingText(row) }));
+  }
+
+  /**
+   * Null when the database has no templates table
+   */
+  private getTemplateSources(): EmbeddingSource[] | null {
+    if (!this.tableExists('templates')) return null;
+    const rows = this.db.prepare(`
+      SELECT id, name, description, nodes_used, categories, metadata_json FROM templates
+    `).all() as any[];
+    return rows.map(row => ({ key: String(row.id), text: buildTemplateEmbeddingText(row) }));
+  }
+
+  private async embedQuery(query: string): Promise<Float32Array> {
+    const [vector] = await (await this.getModel()).embed([query]);
+    return vector;
+  }
+
+  private rank(
+    queryVector: Float32Array,
+    vectors: Map<string, Float32Array>,
+    keywordScores: Map<string, number>
+  ): RankedKey[] {
+    const ranked: RankedKey[] = [];
+
+    for (const [key, vector] of vectors) {
+      const keywordScore = keywordScores.get(key) ?? 0;
+      const vectorScore = Math.max(0, cosineSimilarity(queryVector, vector));
+      if (keywordScore === 0 && vectorScore < MIN_VECTOR_SIMILARITY) continue;
+
+      ranked.push({
+        key,
+        score: round(this.weights.keyword * keywordScore + this.weights.vector * vectorScore),
+        keywordScore: round(keywordScore),
+        vectorScore: round(vectorScore)
+      });
+    }
+
+    return ranked.sort((a, b) => b.score - a.score || a.key.localeCompare(b.key));
+  }
+
+  /**
+   * Run a BM25 query and scale the scores to 0..1 (best match = 1)
+   */
+  private getKeywordScores(sql: string, ftsQuery: string): Map<string, number> {
+    const scores = new Map<string, number>();
+    try {
+      const rows = this.db.prepare(sql).all(ftsQuery, KEYWORD_CANDIDATES) as Array<{ key: string | number; score: number }>;
+      // bm25() is negative, lower is better
+      const best = Math.min(0, ...rows.map(row => row.score));
+      for (const row of rows) {
+        scores.set(String(row.key), best < 0 ? row.score / best : 0);
+      }
+    } catch (error) {
+      logger.debug('BM25 query failed, ranking by vector similarity only', error);
+    }
+    return scores;
+  }
+
+  /**
+   * Query time: the stored vectors, with rows missing from the table or
+   * embedded from other text embedded in memory. Nothing is written.
+   */
+  private async loadVectors(
+    table: 'node_embeddings' | 'template_embeddings',
+    keyColumn: 'node_type' | 'template_id',
+    sources: EmbeddingSource[]
+  ): Promise<Map<string, Float32Array>> {
+    const model = await this.getModel();
+    const stored = this.tableExists(table) ? this.readStoredVectors(table, keyColumn) : new Map<string, StoredVector>();
+    const { vectors, pending } = await this.embedChanged(model, table, sources, stored);
+    if (pending.length > 0) {
+      logger.info(`${pending.length} rows are missing from ${table}, run the rebuild scripts to store their vectors`);
+    }
+    return vectors;
+  }
+
+  /**
+   * Bring an embeddings table in line with its sources and return all vectors
+   */
+  private async syncEmbeddings(
+    table: 'node_embeddings' | 'template_embeddings',
+    keyColumn: 'node_type' | 'template_id',
+    sources: EmbeddingSource[]
+  ): Promise<{ vectors: Map<string, Float32Array>; result: EmbeddingIndexResult }> {
+    const model = await this.getModel();
+    this.ensureEmbeddingTables();
+    const stored = this.readStoredVectors(table, keyColumn);
+    const { vectors, pending } = await this.embedChanged(model, table, sources, stored);
+    const removed = [...stored.keys()].filter(key => !vectors.has(key));
+
+    if (pending.length > 0 || removed.length > 0) {
+      this.db.transaction(() => {
+        const upsert = this.db.prepare(`
+          INSERT OR REPLACE INTO ${table} (${keyColumn}, model, source_hash, vector) VALUES (?, ?, ?, ?)
+        `);
+        for (const entry of pending) {
+          upsert.run(toKey(keyColumn, entry.key), model.id, entry.hash, vectorToBuffer(vectors.get(entry.key)!));
+        }
+        const remove = this.db.prepare(`DELETE FROM ${table} WHERE ${keyColumn} = ?`);
+        for (const key of removed) {
+          remove.run(toKey(keyColumn, key));
+        }
+      });
+    }
+
+    return {
+      vectors,
+      result: { model: model.id, total: vectors.size, embedded: pending.length, removed: removed.length }
+    };
+  }
+
+  private readStoredVectors(
+    table: 'node_embeddings' | 'template_embeddings',
+    keyColumn: 'node_type' | 'template_id'
+  ): Map<string, StoredVector> {
+    const stored = new Map<string, StoredVector>();
+    for (const row of this.db.prepare(`SELECT ${keyColumn} AS key, source_hash, vector FROM ${table}`).all() as any[]) {
+      stored.set(String(row.key), { hash: row.source_hash, vector: bufferToVector(row.vector) });
+    }
+    return stored;
+  }
+
+  /**
+   * Reuse stored vectors of unchanged text and embed the rest
+   */
+  private async embedChanged(
+    model: EmbeddingModel,
+    table: string,
+    sources: EmbeddingSource[],
+    stored: Map<string, StoredVector>
+  ): Promise<{ vectors: Map<string, Float32Array>; pending: Array<{ key: string; hash: string }> }> {
+    const vectors = new Map<string, Float32Array>();
+    const pending: Array<{ key: string; hash: string; text: string }> = [];
+    for (const source of sources) {
+      const hash = hashSource(model.id, source.text);
+      const existing = stored.get(source.key);
+      if (existing && existing.hash === hash) {
+        vectors.set(source.key, existing.vector);
+      } else {
+        pending.push({ key: source.key, hash, text: source.text });
+      }
+    }
+
+    if (pending.length > 0) {
+      logger.info(`Embedding ${pending.length} rows for ${table} with ${model.id}`);
+      const embedded = await model.embed(pending.map(entry => entry.text));
+      pending.forEach((entry, index) => vectors.set(entry.key, embedded[index]));
+    }
+    return { vectors, pending };
+  }
+
+  /**
+   * Databases built before semantic search lack the embedding tables
+   */
+  private ensureEmbeddingTables(): void {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS node_embeddings (
+        node_type TEXT PRIMARY KEY,
+        model TEXT NOT NULL,
+        source_hash TEXT NOT NULL,
+        vector BLOB NOT NULL
+      );
+      CREATE TABLE IF NOT EXISTS template_embeddings (
+        template_id INTEGER PRIMARY KEY,
+        model TEXT NOT NULL,
+        source_hash TEXT NOT NULL,
+        vector BLOB NOT NULL
+      );
+    `);
+  }
+
+  private getSourceFilter(source: SemanticNodeSource): string | null {
+    // Databases built before private node support have no private nodes
+    const hasPrivateColumns = this.columnExists('nodes', 'is_private');
+    switch (source) {
+      case 'core':
+        return hasPrivateColumns ? 'is_community = 0 AND is_private = 0' : 'is_community = 0';
+      case 'community':
+        return 'is_community = 1';
+      case 'verified':
+        return 'is_community = 1 AND is_verified = 1';
+      case 'private':
+        return hasPrivateColumns ? 'is_private = 1' : '0';
+      default:
+        return null;
+    }
+  }
+
+  private tableExists(name: string): boolean {
+    return !!this.db.prepare(`SELECT name FROM sqlite_master WHERE type='table' AND name=?`).get(name);
+  }
+
+  private columnExists(table: string, column: string): boolean {
+    return (this.db.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>)
+      .some(info => info.name === column);
+  }
+}
+
+/**
+ * Text a node is embedded from: name, description, category and operations
+ */
+export function buildNodeEmbeddingText(row: {
+  node_type: string;
+  display_name: string;
+  description?: string | null;
+  category?: string | null;
+  operations?: string | null;
+}): string {
+  const parts = [row.display_name, row.description || '', row.category || ''];
+
+  try {
+    const operations = JSON.parse(row.operations || '[]');
+    if (Array.isArray(operations)) {
+      for (const operation of operations) {
+        for (const field of ['name', 'action']) {
+          if (typeof operation?.[field] === 'string') parts.push(operation[field]);
+        }
+      }
+    }
+  } catch {
+    // Operations are optional for embedding
+  }
+
+  return parts.filter(Boolean).join('. ');
+}
+
+/**
+ * Text a template is embedded from: name, description, node names and metadata
+ */
+export function buildTemplateEmbeddingText(row: {
+  name: string;
+  description?: string | null;
+  nodes_used?: string | null;
+  categories?: string | null;
+  metadata_json?: string | null;
+}): string {
+  const parts = [row.name, (row.description || '').slice(0, MAX_TEMPLATE_DESCRIPTION_LENGTH)];
+
+  const parseArray = (json: string | null | undefined): any[] => {
+    try {
+      const value = JSON.parse(json || '[]');
+      return Array.isArray(value) ? value : [];
+    } catch {
+      return [];
+    }
+  };
+
+  const nodeNames = parseArray(row.nodes_used)
+    .filter((nodeType): nodeType is string => typeof nodeType === 'string')
+    .map(nodeType => nodeType.split('.').pop() || '');
+  if (nodeNames.length > 0) parts.push(`Nodes: ${nodeNames.join(', ')}`);
+
+  for (const category of parseArray(row.categories)) {
+    parts.push(typeof category === 'string' ? category : category?.name || '');
+  }
+
+  try {
+    const metadata = JSON.parse(row.metadata_json || '{}');
+    for (const field of ['categories', 'use_cases', 'required_services', 'key_features']) {
+      if (Array.isArray(metadata?.[field])) parts.push(...metadata[field].filter((v: unknown) => typeof v === 'string'));
+    }
+  } catch {
+    // Metadata is optional for embedding
+  }
+
+  return parts.filter(Boolean).join('. ');
+}
+
+/**
+ * OR of prefix terms, so "messages" also matches "messaging"
+ */
+function buildFtsQuery(query: string): string {
+  const terms = query
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(term => term.length > 1 && !STOPWORDS.has(term));
+  return [...new Set(terms)].map(term => `${term}*`).join(' OR ');
+}
+
+function toKey(keyColumn: 'node_type' | 'template_id', key: string): string | number {
+  return keyColumn === 'template_id' ? Number(key) : key;
+}
+
+function hashSource(modelId: string, text: string): string {
+  return createHash('sha256').update(`${modelId}\n${text}`).digest('hex');
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
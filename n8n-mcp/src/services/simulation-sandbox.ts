@@ -0,0 +1,375 @@
+/**
+ * Simulation Sandbox
+ *
+ * V8 context for the expressions and Code nodes of the workflow simulator.
+ * Workflow code comes from whoever can edit the workflow, so no object of
+ * this realm enters the context: a host function, object or error would hand
+ * the code this realm's Function constructor, and with it the process. The
+ * globals ($json, $(), console, ...) are built by a runtime script inside the
+ * context, data goes in and results come out as JSON strings, and every run
+ * has a timeout that includes the promises it starts.
+ */
+
+import vm from 'vm';
+import { types } from 'util';
+
+/**
+ * What expressions of one node run can see. Items are referenced by ID; their
+ * JSON is sent to the context once.
+ */
+export interface SandboxScope {
+  node: string;
+  parameters: unknown;
+  runIndex: number;
+  /** Items on input 0 */
+  items: number[];
+  /** Paired items of each input item by producing node */
+  lineage: Array<Record<string, number>>;
+  /** Workflow nodes with the output that leads to the current node */
+  nodes: Record<string, { parameters: unknown; outputLeadingTo: number }>;
+  /** Items of executed nodes by run and output */
+  outputs: Record<string, number[][][]>;
+  workflow: { id?: unknown; name?: unknown; active: boolean };
+  env: Record<string, string>;
+  variables: Record<string, string>;
+}
+
+export interface CodeRunResult {
+  /** Return value - unset if the code failed or never settled */
+  value?: unknown;
+  error?: string;
+  settled: boolean;
+  /** console output */
+  logs: string[];
+}
+
+/**
+ * Failure of sandboxed code. fromRuntime marks errors raised by the simulator
+ * globals, e.g. a reference to a node that does not exist.
+ */
+export class SandboxError extends Error {
+  constructor(message: string, readonly fromRuntime = false) {
+    super(message);
+    this.name = 'SandboxError';
+  }
+}
+
+// Marks values JSON cannot carry (undefined, NaN, Infinity)
+const SPECIAL_VALUE_KEY = '__simulatorValue';
+
+/**
+ * Runs once in every context and defines __sim, the only entry point the host
+ * calls. Builtins are captured first so workflow code cannot replace them.
+ */
+const RUNTIME = `'use strict';
+(() => {
+  const { parse, stringify } = JSON;
+  const indirectEval = eval;
+  const resolve = Promise.resolve.bind(Promise);
+  const hasOwn = (object, key) => Object.prototype.hasOwnProperty.call(object, key);
+  const MARK = ${JSON.stringify(SPECIAL_VALUE_KEY)};
+
+  class SimulationError extends Error {}
+
+  const table = Object.create(null);
+  let scope;
+  let cache;
+  let logs = [];
+  let codeResult;
+
+  const copy = value => (value === undefined ? undefined : parse(stringify(value)));
+
+  // Items are parsed once per run, so $json and $input.item share one object
+  const itemOf = id => {
+    if (id === undefined || !hasOwn(table, id)) return undefined;
+    if (!cache[id]) cache[id] = { json: parse(table[id]), binary: {} };
+    return cache[id];
+  };
+
+  const outputItems = (name, output, runIndex) => {
+    if (!hasOwn(scope.outputs, name)) throw new SimulationError('Node "' + name + '" hasn\\'t been executed');
+    const runs = scope.outputs[name];
+    return runs[runIndex ?? runs.length - 1]?.[output] ?? [];
+  };
+
+  const pairedItem = (itemIndex, name) => {
+    const lineage = scope.lineage[itemIndex];
+    return lineage && hasOwn(lineage, name) ? lineage[name] : undefined;
+  };
+
+  const nodeAccessor = (name, itemIndex) => {
+    if (!hasOwn(scope.nodes, name)) throw new SimulationError('Referenced node "' + name + '" does not exist');
+    const node = scope.nodes[name];
+    const items = (output, runOf) => outputItems(name, output ?? node.outputLeadingTo, runOf);
+    return {
+      get item() {
+        const paired = pairedItem(itemIndex, name);
+        if (paired === undefined) {
+          throw new SimulationError('Paired item data for item ' + itemIndex + ' from node "' + name + '" is unavailable');
+        }
+        return itemOf(paired);
+      },
+      first: (output, runOf) => itemOf(items(output, runOf)[0]),
+      last: (output, runOf) => {
+        const list = items(output, runOf);
+        return itemOf(list[list.length - 1]);
+      },
+      all: (output, runOf) => items(output, runOf).map(itemOf),
+      itemMatching: index => itemOf(pairedItem(index, name)),
+      isExecuted: hasOwn(scope.outputs, name),
+      params: copy(node.parameters)
+    };
+  };
+
+  const isEmpty = value => {
+    if (value === undefined || value === null || value === '') return true;
+    if (typeof value === 'number') return Number.isNaN(value);
+    if (Array.isArray(value)) return value.length === 0;
+    if (typeof value === 'object' && Object.prototype.toString.call(value) === '[object Object]') {
+      return Object.keys(value).length === 0;
+    }
+    return false;
+  };
+
+  const globals = itemIndex => {
+    const items = scope.items;
+    const current = itemOf(items[itemIndex]);
+    const now = new Date();
+    const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+
+    const legacyNodes = {};
+    for (const name of Object.keys(scope.nodes)) {
+      Object.defineProperty(legacyNodes, name, {
+        enumerable: true,
+        get: () => {
+          const accessor = nodeAccessor(name, itemIndex);
+          return { json: accessor.isExecuted ? accessor.first()?.json ?? {} : {}, parameter: accessor.params, runIndex: 0 };
+        }
+      });
+    }
+
+    return {
+      $json: current?.json ?? {},
+      $binary: {},
+      $input: {
+        item: current,
+        all: () => items.map(itemOf),
+        first: () => itemOf(items[0]),
+        last: () => itemOf(items[items.length - 1]),
+        params: copy(scope.parameters)
+      },
+      $: name => nodeAccessor(name, itemIndex),
+      $node: legacyNodes,
+      $items: (name, output, runOf) => (name ? outputItems(name, output ?? 0, runOf) : items).map(itemOf),
+      $itemIndex: itemIndex,
+      $runIndex: scope.runIndex,
+      $workflow: copy(scope.workflow),
+      $execution: { id: 'simulation', mode: 'manual', resumeUrl: '' },
+      $env: copy(scope.env),
+      $vars: copy(scope.variables),
+      $now: now,
+      $today: today,
+      $if: (condition, then, otherwise) => (condition ? then : otherwise),
+      $ifEmpty: (value, fallback) => (isEmpty(value) ? fallback : value),
+      $max: Math.max,
+      $min: Math.min
+    };
+  };
+
+  const formatLogValue = value => {
+    if (typeof value === 'string') return value;
+    try {
+      return stringify(value) ?? String(value);
+    } catch {
+      return String(value);
+    }
+  };
+  const log = (...args) => {
+    logs.push(args.map(formatLogValue).join(' '));
+  };
+  const console = { log, info: log, warn: log, error: log, debug: log };
+
+  const encode = (result) => stringify(result, (key, value) => {
+    if (value === undefined) return { [MARK]: 'undefined' };
+    if (typeof value === 'number' && !Number.isFinite(value)) return { [MARK]: String(value) };
+    return value;
+  });
+
+  const failure = error => {
+    let message = 'Unknown error';
+    let fromRuntime = false;
+    try {
+      fromRuntime = error instanceof SimulationError;
+      message = error !== null && typeof error === 'object' && 'message' in error ? String(error.message) : String(error);
+    } catch {}
+    return stringify({ error: message, fromRuntime, logs });
+  };
+
+  const settle = build => {
+    try {
+      return build();
+    } catch (error) {
+      return failure(error);
+    }
+  };
+
+  const start = itemIndex => {
+    cache = Object.create(null);
+    logs = [];
+    Object.assign(globalThis, globals(itemIndex));
+  };
+
+  const api = {
+    load: (nextScope, items) => settle(() => {
+      for (const id of Object.keys(items)) table[id] = stringify(items[id]);
+      scope = nextScope;
+      return encode({});
+    }),
+
+    evaluate: (source, itemIndex) => settle(() => {
+      start(itemIndex);
+      return encode({ value: indirectEval(source) });
+    }),
+
+    // Promises settle after this returns - codeResult picks up the outcome
+    runCode: (code, itemIndex, eachItem) => settle(() => {
+      start(itemIndex);
+      codeResult = undefined;
+      const current = globalThis.$input.item;
+      Object.assign(globalThis, { console }, eachItem
+        ? { item: current }
+        : { $json: undefined, items: scope.items.map(itemOf) });
+      resolve(indirectEval('(async () => {\\n' + code + '\\n})()')).then(
+        value => { codeResult = settle(() => encode({ value, settled: true, logs })); },
+        error => { codeResult = failure(error); }
+      );
+      return encode({});
+    }),
+
+    codeResult: () => codeResult ?? stringify({ settled: false, logs }),
+
+    sortOrder: code => settle(() => {
+      start(0);
+      const items = scope.items.map(itemOf);
+      const compare = indirectEval('(function (a, b) {\\n' + code + '\\n})');
+      return encode({ value: items.map((_, i) => i).sort((i, j) => compare(items[i], items[j])) });
+    })
+  };
+
+  Object.defineProperty(globalThis, '__sim', { value: Object.freeze(api), writable: false, configurable: false });
+})();
+`;
+
+export class SimulationSandbox {
+  private readonly context: vm.Context;
+  private readonly sentItems = new Set<number>();
+  private readonly sourceCache = new Map<string, string>();
+
+  constructor(private readonly timeoutMs: number) {
+    // A null-prototype object: a plain {} would expose this realm's Object through globalThis.constructor
+    this.context = vm.createContext(Object.create(null), {
+      codeGeneration: { strings: true, wasm: false },
+      microtaskMode: 'afterEvaluate'
+    });
+    vm.runInContext(RUNTIME, this.context, { timeout: timeoutMs });
+  }
+
+  /**
+   * Set the scope of following runs. Only items the context has not seen yet
+   * are sent.
+   */
+  load(scope: SandboxScope, itemJson: Map<number, unknown>): void {
+    const items: Record<number, unknown> = {};
+    for (const [id, json] of itemJson) {
+      if (this.sentItems.has(id)) continue;
+      items[id] = json;
+      this.sentItems.add(id);
+    }
+    this.call('load', [scope, items]);
+  }
+
+  /**
+   * Evaluate an expression for one input item
+   */
+  evaluate(code: string, itemIndex: number): unknown {
+    return this.call('evaluate', [this.expressionSource(code), itemIndex]).value;
+  }
+
+  /**
+   * Run the body of a Code node
+   */
+  runCode(code: string, itemIndex: number, eachItem: boolean): CodeRunResult {
+    const started = this.call('runCode', [code, itemIndex, eachItem], false);
+    if (started.error !== undefined) {
+      return { error: started.error, settled: true, logs: started.logs ?? [] };
+    }
+    const outcome = this.call('codeResult', [], false);
+    return {
+      value: outcome.value,
+      error: outcome.error,
+      settled: outcome.settled !== false,
+      logs: outcome.logs ?? []
+    };
+  }
+
+  /**
+   * Order of the scope's items for the body of a compare function (Sort node)
+   */
+  sortOrder(code: string): number[] {
+    const order = this.call('sortOrder', [code]).value;
+    if (!Array.isArray(order) || !order.every(i => Number.isInteger(i))) {
+      throw new SandboxError('Sort code returned an invalid order');
+    }
+    return order;
+  }
+
+  /**
+   * Expressions are evaluated as one expression, or as statements if they do
+   * not parse as one, e.g. {{ const a = 1; a }}. Compiling in this realm runs
+   * nothing.
+   */
+  private expressionSource(code: string): string {
+    let source = this.sourceCache.get(code);
+    if (source === undefined) {
+      source = `(${code}\n)`;
+      try {
+        new vm.Script(source);
+      } catch {
+        source = code;
+      }
+      this.sourceCache.set(code, source);
+    }
+    return source;
+  }
+
+  /**
+   * Call a runtime method. Arguments are embedded as JSON literals and the
+   * result must be a JSON string, so no object crosses the realm boundary.
+   */
+  private call(method: string, args: unknown[], throwOnError = true): Record<string, any> {
+    let output: unknown;
+    try {
+      output = vm.runInContext(`__sim.${method}(...${JSON.stringify(args)})`, this.context, {
+        timeout: this.timeoutMs
+      });
+    } catch (error) {
+      // Timeouts are errors of this realm; anything else is not read
+      const message = types.isNativeError(error) ? Object.getOwnPropertyDescriptor(error, 'message')?.value : undefined;
+      throw new SandboxError(typeof message === 'string' ? message : 'Sandboxed code failed');
+    }
+    if (typeof output !== 'string') {
+      throw new SandboxError('Sandboxed code returned an invalid result');
+    }
+
+    const result = JSON.parse(output, (key, value) => {
+      if (value && typeof value === 'object' && Object.keys(value).length === 1 && SPECIAL_VALUE_KEY in value) {
+        return value[SPECIAL_VALUE_KEY] === 'undefined' ? undefined : Number(value[SPECIAL_VALUE_KEY]);
+      }
+      return value;
+    });
+    if (throwOnError && result.error !== undefined) {
+      throw new SandboxError(String(result.error), result.fromRuntime === true);
+    }
+    return result;
+  }
+}
@@ -4,8 +4,12 @@
  * Validates n8n expressions based on universal rules that apply to ALL expressions,
  * regardless of node type or field. This provides 100% reliable detection of
  * expression format issues without needing node-specific knowledge.
+ * Expressions are split with the expression parser, so braces inside strings
+ * (e.g. {{ "}}" }}) don't count as expression brackets.
  */
 
+import { parseExpressionTemplate, tokenizeExpression } from './expression-parser';
+
 export interface UniversalValidationResult {
   isValid: boolean;
   hasExpression: boolean;
@@ -105,8 +109,9 @@ export class UniversalExpressionValidator {
       : value;
 
     // Check if there's any content outside of {{ }}
-    const withoutExpressions = content.replace(/\{\{[\s\S]+?\}\}/g, '');
-    return withoutExpressions.trim().length > 0;
+    return parseExpressionTemplate(content).segments.some(
+      segment => segment.kind === 'text' && segment.value.trim().length > 0
+    );
   }
 
   /**
@@ -128,42 +133,38 @@ export class UniversalExpressionValidator {
       };
     }
 
-    // Check for unclosed brackets in the entire string
-    const openCount = (value.match(/\{\{/g) || []).length;
-    const closeCount = (value.match(/\}\}/g) || []).length;
+    const parsed = parseExpressionTemplate(value);
 
-    if (openCount !== closeCount) {
+    // Check for unclosed or stray brackets
+    const bracketError = parsed.errors.find(e => e.code === 'unclosed_expression' || e.code === 'unmatched_close');
+    if (bracketError) {
       return {
         isValid: false,
         hasExpression: true,
         needsPrefix: false,
         isMixedContent: false,
         confidence: 1.0,
-        explanation: `Unmatched expression brackets: ${openCount} opening, ${closeCount} closing`
+        explanation: bracketError.code === 'unclosed_expression'
+          ? `Unmatched expression brackets: {{ at character ${bracketError.start} is never closed`
+          : `Unmatched expression brackets: }} at character ${bracketError.start} has no opening {{`
       };
     }
 
-    // Extract properly matched expressions for further validation
-    const expressions = value.match(/\{\{[\s\S]+?\}\}/g) || [];
-
-    for (const expr of expressions) {
-      // Check for empty expressions
-      const content = expr.slice(2, -2).trim();
-      if (!content) {
-        return {
-          isValid: false,
-          hasExpression: true,
-          needsPrefix: false,
-          isMixedContent: false,
-          confidence: 1.0,
-          explanation: 'Empty expression {{ }} is not valid'
-        };
-      }
+    // Check for empty expressions
+    if (parsed.errors.some(e => e.code === 'empty_expression')) {
+      return {
+        isValid: false,
+        hasExpression: true,
+        needsPrefix: false,
+        isMixedContent: false,
+        confidence: 1.0,
+        explanation: 'Empty expression {{ }} is not valid'
+      };
     }
 
     return {
       isValid: true,
-      hasExpression: expressions.length > 0,
+      hasExpression: parsed.segments.some(segment => segment.kind === 'expression'),
       needsPrefix: false,
       isMixedContent: this.hasMixedContent(value),
       confidence: 1.0,
@@ -187,14 +188,16 @@ export class UniversalExpressionValidator {
       };
     }
 
-    const expressions = value.match(/\{\{[\s\S]+?\}\}/g) || [];
+    const parsed = parseExpressionTemplate(value);
     const warnings: string[] = [];
 
-    for (const expr of expressions) {
-      const content = expr.slice(2, -2).trim();
+    for (const segment of parsed.segments) {
+      if (segment.kind !== 'expression') continue;
+      const expr = value.slice(segment.start, segment.end);
+      const content = segment.value.trim();
 
       // Check for common mistakes
-      if (content.includes('${') && content.includes('}')) {
+      if (this.hasTemplateLiteralSyntax(content)) {
         warnings.push(`Template literal syntax \${} found - use n8n syntax instead: ${expr}`);
       }
 
@@ -202,7 +205,8 @@ export class UniversalExpressionValidator {
         warnings.push(`Double prefix detected in expression: ${expr}`);
       }
 
-      if (content.includes('{{') || content.includes('}}')) {
+      const nested = parsed.errors.some(e => e.code === 'nested_expression' && e.start >= segment.start && e.start < segment.end);
+      if (nested) {
         warnings.push(`Nested brackets detected: ${expr}`);
       }
     }
@@ -228,6 +232,22 @@ export class UniversalExpressionValidator {
     };
   }
 
+  /**
+   * Whether ${ } is used outside a JavaScript template literal, where it is
+   * not interpolated (e.g. {{ ${json.value} }})
+   */
+  private static hasTemplateLiteralSyntax(content: string): boolean {
+    const { tokens, errors } = tokenizeExpression(content);
+    if (errors.length > 0) {
+      return content.includes('${') && content.includes('}');
+    }
+    return tokens.some((token, i) => {
+      const next = tokens[i + 1];
+      return token.type === 'identifier' && token.value === '$' &&
+        next?.type === 'punctuator' && next.value === '{' && next.start === token.end;
+    });
+  }
+
   /**
    * Perform all universal validations
    */
@@ -0,0 +1,593 @@
+/**
+ * Workflow Data-Shape Inference
+ *
+ * Infers the shape of the items each node outputs and propagates it along
+ * connections, so expressions like {{ $json.customer.email }} can be checked
+ * against the fields that will actually exist at that node.
+ *
+ * Shapes come from (in order of preference): pinned data, the run data of an
+ * execution, sample payloads of common triggers, and known transformations
+ * (Set adds fields, IF/Switch/Filter pass items through). Anything else has an
+ * unknown shape and is never flagged.
+ */
+
+import { NodeTypeNormalizer } from '../utils/node-type-normalizer';
+import { collectReferences, parseExpressionTemplate } from './expression-parser';
+
+export type DataShape =
+  | { kind: 'object'; fields: Record<string, DataShape>; open: boolean }
+  | { kind: 'array'; items: DataShape }
+  | { kind: 'primitive'; types: string[] }
+  | { kind: 'unknown' };
+
+export interface NodeDataShape {
+  /** Shape of item.json */
+  shape: DataShape;
+  /** Where the shape comes from, e.g. 'pinned data of "Webhook"' */
+  sources: string[];
+}
+
+export interface DataShapeOptions {
+  /** resultData.runData of an execution of this workflow */
+  runData?: Record<string, unknown>;
+}
+
+export interface UnresolvedFieldReference {
+  nodeId?: string;
+  nodeName: string;
+  /** Parameter path, e.g. "conditions.conditions[0].leftValue" */
+  parameter: string;
+  /** Referenced expression, e.g. "$json.customer.email" */
+  expression: string;
+  /** Node whose output was checked */
+  sourceNode?: string;
+  /** Full path that was referenced */
+  path: string[];
+  /** Path up to and including the first field that does not exist */
+  missingPath: string[];
+  availableFields: string[];
+  suggestion?: string;
+  sources: string[];
+}
+
+const UNKNOWN: DataShape = { kind: 'unknown' };
+
+function object(fields: Record<string, DataShape>, open: boolean = false): DataShape {
+  return { kind: 'object', fields, open };
+}
+
+function primitive(type: string): DataShape {
+  return { kind: 'primitive', types: [type] };
+}
+
+const OPEN_OBJECT = object({}, true);
+
+// Sample payloads of common triggers
+const TRIGGER_SHAPES: Record<string, DataShape> = {
+  'nodes-base.webhook': object({ headers: OPEN_OBJECT, params: OPEN_OBJECT, query: OPEN_OBJECT, body: UNKNOWN, webhookUrl: primitive('string'), executionMode: primitive('string') }),
+  'nodes-base.manualTrigger': object({}),
+  'nodes-base.scheduleTrigger': object({
+    timestamp: primitive('string'),
+    'Readable date': primitive('string'),
+    'Readable time': primitive('string'),
+    'Day of week': primitive('string'),
+    Year: primitive('string'),
+    Month: primitive('string'),
+    'Day of month': primitive('string'),
+    Hour: primitive('string'),
+    Minute: primitive('string'),
+    Second: primitive('string'),
+    Timezone: primitive('string')
+  }),
+  'nodes-langchain.chatTrigger': object({ sessionId: primitive('string'), action: primitive('string'), chatInput: primitive('string') }, true)
+};
+
+// Nodes that output (a subset of) their input items unchanged
+const PASSTHROUGH_NODES = new Set([
+  'nodes-base.if',
+  'nodes-base.filter',
+  'nodes-base.switch',
+  'nodes-base.noOp',
+  'nodes-base.wait',
+  'nodes-base.splitInBatches',
+  'nodes-base.limit',
+  'nodes-base.sort',
+  'nodes-base.removeDuplicates',
+  'nodes-base.merge',
+  'nodes-base.stopAndError'
+]);
+
+/**
+ * Shape of a JSON value
+ */
+export function shapeOfValue(value: unknown): DataShape {
+  if (value === null) return primitive('null');
+  if (Array.isArray(value)) {
+    return { kind: 'array', items: value.length > 0 ? value.map(shapeOfValue).reduce(mergeShapes) : UNKNOWN };
+  }
+  if (typeof value === 'object') {
+    const fields: Record<string, DataShape> = {};
+    for (const [key, child] of Object.entries(value as Record<string, unknown>)) {
+      fields[key] = shapeOfValue(child);
+    }
+    return object(fields);
+  }
+  return primitive(typeof value);
+}
+
+/**
+ * Union of two shapes. Different kinds, or anything merged with an unknown
+ * shape, become unknown.
+ */
+export function mergeShapes(a: DataShape, b: DataShape): DataShape {
+  if (a.kind === 'unknown' || b.kind === 'unknown') return UNKNOWN;
+  if (a.kind === 'object' && b.kind === 'object') {
+    const fields: Record<string, DataShape> = { ...a.fields };
+    for (const [key, shape] of Object.entries(b.fields)) {
+      fields[key] = Object.prototype.hasOwnProperty.call(fields, key) ? mergeShapes(fields[key], shape) : shape;
+    }
+    return object(fields, a.open || b.open);
+  }
+  if (a.kind === 'array' && b.kind === 'array') {
+    if (a.items.kind === 'unknown') return b;
+    if (b.items.kind === 'unknown') return a;
+    return { kind: 'array', items: mergeShapes(a.items, b.items) };
+  }
+  if (a.kind === 'primitive' && b.kind === 'primitive') {
+    return { kind: 'primitive', types: Array.from(new Set([...a.types, ...b.types])) };
+  }
+  return UNKNOWN;
+}
+
+/**
+ * Placeholder value of a shape: empty strings, zeros, false and null, with
+ * one element in arrays of known shape
+ */
+export function sampleOfShape(shape: DataShape): unknown {
+  switch (shape.kind) {
+    case 'object': {
+      const sample: Record<string, unknown> = {};
+      for (const [key, field] of Object.entries(shape.fields)) {
+        sample[key] = sampleOfShape(field);
+      }
+      return sample;
+    }
+    case 'array':
+      return shape.items.kind === 'unknown' ? [] : [sampleOfShape(shape.items)];
+    case 'primitive': {
+      const type = shape.types.find(t => t !== 'null' && t !== 'undefined');
+      if (type === 'string') return '';
+      if (type === 'number') return 0;
+      if (type === 'boolean') return false;
+      return null;
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Shape of a list of items ({ json } wrappers or plain objects)
+ */
+function shapeOfItems(items: unknown[]): DataShape | undefined {
+  const shapes = items
+    .map(item => (item && typeof item === 'object' && 'json' in (item as object)) ? (item as { json: unknown }).json : item)
+    .filter(json => json && typeof json === 'object' && !Array.isArray(json))
+    .map(shapeOfValue);
+  return shapes.length > 0 ? shapes.reduce(mergeShapes) : undefined;
+}
+
+/**
+ * Output items of a node in execution run data (last run, all outputs)
+ */
+function itemsFromRunData(nodeRuns: unknown): unknown[] | undefined {
+  if (!Array.isArray(nodeRuns) || nodeRuns.length === 0) return undefined;
+  const main = nodeRuns[nodeRuns.length - 1]?.data?.main;
+  if (!Array.isArray(main)) return undefined;
+  return main.flatMap(output => (Array.isArray(output) ? output : []));
+}
+
+export type ShapePathResult =
+  | { status: 'found' | 'unknown' }
+  | { status: 'missing'; missingIndex: number; availableFields: string[] };
+
+/**
+ * Follow a property path through a shape
+ */
+export function resolveShapePath(shape: DataShape, path: string[]): ShapePathResult {
+  let current = shape;
+  for (let i = 0; i < path.length; i++) {
+    const key = path[i];
+    if (current.kind === 'unknown') return { status: 'unknown' };
+    if (current.kind === 'object') {
+      if (Object.prototype.hasOwnProperty.call(current.fields, key)) {
+        current = current.fields[key];
+        continue;
+      }
+      if (current.open) return { status: 'unknown' };
+      return { status: 'missing', missingIndex: i, availableFields: Object.keys(current.fields) };
+    }
+    if (current.kind === 'array' && /^\d+$/.test(key)) {
+      current = current.items;
+      continue;
+    }
+    // Built-in properties of arrays and primitives (length, ...) are not checked
+    return { status: 'found' };
+  }
+  return { status: 'found' };
+}
+
+function setField(fields: Record<string, DataShape>, name: string, shape: DataShape, dotNotation: boolean): void {
+  const parts = dotNotation ? name.split('.') : [name];
+  let target = fields;
+  for (const part of parts.slice(0, -1)) {
+    const existing = target[part];
+    if (existing?.kind !== 'object') {
+      target[part] = object({});
+    }
+    target = (target[part] as { fields: Record<string, DataShape> }).fields;
+  }
+  target[parts[parts.length - 1]] = shape;
+}
+
+function shapeOfAssignmentType(type: unknown): DataShape {
+  switch (type) {
+    case 'string':
+    case 'stringValue':
+      return primitive('string');
+    case 'number':
+    case 'numberValue':
+      return primitive('number');
+    case 'boolean':
+    case 'booleanValue':
+      return primitive('boolean');
+    case 'array':
+    case 'arrayValue':
+      return { kind: 'array', items: UNKNOWN };
+    case 'object':
+    case 'objectValue':
+      return OPEN_OBJECT;
+    default:
+      return UNKNOWN;
+  }
+}
+
+/**
+ * Output shape of a Set (Edit Fields) node
+ */
+function setNodeShape(node: any, input: DataShape): DataShape {
+  const params = node.parameters || {};
+  if (params.mode === 'raw') return UNKNOWN;
+
+  const version = node.typeVersion ?? 1;
+  const dotNotation = params.options?.dotNotation !== false;
+  const assigned: Array<{ name: string; shape: DataShape }> = [];
+
+  if (version >= 3) {
+    for (const a of params.assignments?.assignments || []) {
+      if (typeof a?.name === 'string') assigned.push({ name: a.name, shape: shapeOfAssignmentType(a.type) });
+    }
+    for (const f of params.fields?.values || []) {
+      if (typeof f?.name === 'string') assigned.push({ name: f.name, shape: shapeOfAssignmentType(f.type ?? 'stringValue') });
+    }
+  } else {
+    for (const [type, values] of Object.entries(params.values || {})) {
+      for (const v of (Array.isArray(values) ? values : [])) {
+        if (typeof v?.name === 'string') assigned.push({ name: v.name, shape: shapeOfAssignmentType(type) });
+      }
+    }
+  }
+
+  // Names set by an expression are unknown
+  if (assigned.some(a => a.name.startsWith('='))) return UNKNOWN;
+
+  // includeOtherFields only exists from 3.3 on; before that include alone decides
+  let include: string;
+  if (version >= 3.3) {
+    include = params.includeOtherFields === true ? params.include ?? 'all' : 'none';
+  } else if (version >= 3) {
+    include = params.include ?? 'all';
+  } else {
+    include = params.keepOnlySet === true ? 'none' : 'all';
+  }
+
+  let base: DataShape;
+  if (include === 'none') {
+    base = object({});
+  } else if (input.kind !== 'object') {
+    return UNKNOWN;
+  } else if (include === 'selected' || include === 'except') {
+    const listed = String(params.includeFields ?? params.excludeFields ?? '').split(',').map(s => s.trim()).filter(Boolean);
+    const fields = Object.fromEntries(
+      Object.entries(input.fields).filter(([key]) => listed.includes(key) === (include === 'selected'))
+    );
+    base = object(fields, input.open && include === 'except');
+  } else {
+    base = input;
+  }
+
+  if (base.kind !== 'object') return UNKNOWN;
+  const fields = JSON.parse(JSON.stringify(base.fields)) as Record<string, DataShape>;
+  for (const a of assigned) {
+    setField(fields, a.name, a.shape, dotNotation);
+  }
+  return object(fields, base.open);
+}
+
+/**
+ * Known output shape of a node from its type, or undefined if unknown
+ */
+function knownOutputShape(node: any, input: NodeDataShape | undefined): NodeDataShape | undefined {
+  const type = NodeTypeNormalizer.normalizeToFullForm(node.type);
+
+  if (node.disabled) {
+    return input;
+  }
+  if (TRIGGER_SHAPES[type]) {
+    return { shape: TRIGGER_SHAPES[type], sources: [`sample payload of ${node.type.split('.').pop()} "${node.name}"`] };
+  }
+  if (type === 'nodes-base.formTrigger') {
+    const fields: Record<string, DataShape> = { submittedAt: primitive('string'), formMode: primitive('string') };
+    for (const f of node.parameters?.formFields?.values || []) {
+      if (typeof f?.fieldLabel === 'string') fields[f.fieldLabel] = UNKNOWN;
+    }
+    return { shape: object(fields), sources: [`form fields of "${node.name}"`] };
+  }
+  if (!input) return undefined;
+  if (PASSTHROUGH_NODES.has(type)) {
+    return input;
+  }
+  if (type === 'nodes-base.set') {
+    return { shape: setNodeShape(node, input.shape), sources: [...input.sources, `fields of Set node "${node.name}"`] };
+  }
+  return undefined;
+}
+
+/**
+ * Infer the output shape of every node. Nodes with unknown output are omitted.
+ */
+export function inferWorkflowDataShapes(workflow: any, options: DataShapeOptions = {}): Map<string, NodeDataShape> {
+  const nodes: any[] = Array.isArray(workflow?.nodes) ? workflow.nodes : [];
+  const predecessors = mainPredecessors(workflow);
+  const outputs = new Map<string, NodeDataShape>();
+  const observed = new Map<string, NodeDataShape>();
+
+  // Observed data wins over inferred shapes
+  for (const node of nodes) {
+    const pinned = workflow?.pinData?.[node.name];
+    const pinnedShape = Array.isArray(pinned) ? shapeOfItems(pinned) : undefined;
+    if (pinnedShape) {
+      observed.set(node.name, { shape: pinnedShape, sources: [`pinned data of "${node.name}"`] });
+      continue;
+    }
+    const items = itemsFromRunData(options.runData?.[node.name]);
+    const executedShape = items ? shapeOfItems(items) : undefined;
+    if (executedShape) {
+      observed.set(node.name, { shape: executedShape, sources: [`last execution of "${node.name}"`] });
+    }
+  }
+
+  // Two passes so loop-back connections contribute too
+  const order = topologicalOrder(nodes, predecessors);
+  for (let pass = 0; pass < 2; pass++) {
+    for (const node of order) {
+      const shape = observed.get(node.name) ?? knownOutputShape(node, inputShape(node.name, predecessors, outputs));
+      if (shape) {
+        outputs.set(node.name, shape);
+      } else {
+        outputs.delete(node.name);
+      }
+    }
+  }
+
+  return outputs;
+}
+
+/**
+ * Merged shape of everything connected to a node's main inputs
+ */
+function inputShape(
+  nodeName: string,
+  predecessors: Map<string, string[]>,
+  outputs: Map<string, NodeDataShape>
+): NodeDataShape | undefined {
+  const sources = predecessors.get(nodeName) || [];
+  const known = sources.filter(name => outputs.has(name)).map(name => outputs.get(name)!);
+  if (sources.length === 0 || known.length === 0) return undefined;
+  // A predecessor of unknown shape makes the input unknown
+  if (known.length < sources.length) return { shape: UNKNOWN, sources: [] };
+  return {
+    shape: known.map(s => s.shape).reduce(mergeShapes),
+    sources: Array.from(new Set(known.flatMap(s => s.sources)))
+  };
+}
+
+function mainPredecessors(workflow: any): Map<string, string[]> {
+  const result = new Map<string, string[]>();
+  for (const [source, outputs] of Object.entries<any>(workflow?.connections || {})) {
+    for (const output of outputs?.main || []) {
+      for (const conn of output || []) {
+        if (!conn?.node) continue;
+        const list = result.get(conn.node) || [];
+        if (!list.includes(source)) list.push(source);
+        result.set(conn.node, list);
+      }
+    }
+  }
+  return result;
+}
+
+/**
+ * Nodes ordered so predecessors come first; nodes in cycles keep their
+ * original relative order at the end
+ */
+function topologicalOrder(nodes: any[], predecessors: Map<string, string[]>): any[] {
+  const names = new Set(nodes.map(n => n.name));
+  const remaining = new Map(nodes.map(n => [n.name, (predecessors.get(n.name) || []).filter(p => names.has(p)).length]));
+  const order: any[] = [];
+  const done = new Set<string>();
+
+  let progress = true;
+  while (progress) {
+    progress = false;
+    for (const node of nodes) {
+      if (done.has(node.name) || remaining.get(node.name)! > 0) continue;
+      order.push(node);
+      done.add(node.name);
+      progress = true;
+      for (const other of nodes) {
+        if ((predecessors.get(other.name) || []).includes(node.name)) {
+          remaining.set(other.name, remaining.get(other.name)! - 1);
+        }
+      }
+    }
+  }
+
+  return [...order, ...nodes.filter(n => !done.has(n.name))];
+}
+
+function similarField(name: string, available: string[]): string | undefined {
+  const normalize = (s: string) => s.toLowerCase().replace(/[\s_-]/g, '');
+  const target = normalize(name);
+  let best: { field: string; distance: number } | undefined;
+
+  for (const field of available) {
+    const candidate = normalize(field);
+    const distance = candidate === target ? 0
+      : (candidate.includes(target) || target.includes(candidate)) ? 1
+      : editDistance(candidate, target);
+    if (distance <= Math.max(2, Math.floor(target.length / 4)) && (!best || distance < best.distance)) {
+      best = { field, distance };
+    }
+  }
+  return best?.field;
+}
+
+function editDistance(a: string, b: string): number {
+  const row = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let previous = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const current = row[j];
+      row[j] = Math.min(row[j] + 1, row[j - 1] + 1, previous + (a[i - 1] === b[j - 1] ? 0 : 1));
+      previous = current;
+    }
+  }
+  return row[b.length];
+}
+
+/**
+ * Property path up to the first method call
+ */
+function fieldPath(path: string[]): string[] {
+  const end = path.findIndex(key => key.endsWith('()'));
+  return end < 0 ? path : path.slice(0, end);
+}
+
+/**
+ * Split the path after $input / $('Node') into the item accessor and the
+ * field path below .json, e.g. ['first()', 'json', 'id'] -> ['id']
+ */
+function jsonPathAfterAccessor(path: string[]): string[] | undefined {
+  if (['item', 'first()', 'last()'].includes(path[0]) && path[1] === 'json') return path.slice(2);
+  if (path[0] === 'all()' && /^\d+$/.test(path[1] ?? '') && path[2] === 'json') return path.slice(3);
+  if (path[0]?.startsWith('itemMatching(') && path[1] === 'json') return path.slice(2);
+  return undefined;
+}
+
+function formatPath(path: string[]): string {
+  return path.map(key => {
+    if (/^\d+$/.test(key)) return `[${key}]`;
+    if (/^[A-Za-z_$][\w$]*(\(\))?$/.test(key)) return `.${key}`;
+    return `['${key.replace(/'/g, "\\'")}']`;
+  }).join('');
+}
+
+/**
+ * Find field references in expressions that don't exist in the inferred data
+ * of the node they read from
+ */
+export function findUnresolvedFieldReferences(workflow: any, options: DataShapeOptions = {}): UnresolvedFieldReference[] {
+  const outputs = inferWorkflowDataShapes(workflow, options);
+  const predecessors = mainPredecessors(workflow);
+  const results: UnresolvedFieldReference[] = [];
+
+  for (const node of workflow?.nodes || []) {
+    if (node.disabled) continue;
+    const input = inputShape(node.name, predecessors, outputs);
+
+    forEachExpression(node.parameters, '', (value, parameter) => {
+      const parsed = parseExpressionTemplate(value);
+      for (const segment of parsed.segments) {
+        if (!segment.ast) continue;
+
+        for (const ref of collectReferences(segment.ast)) {
+          let target: NodeDataShape | undefined;
+          let path: string[] | undefined;
+          let root: string;
+          let sourceNode: string | undefined;
+
+          if (ref.kind === 'variable' && ref.name === '$json') {
+            target = input;
+            path = ref.path;
+            root = '$json';
+          } else if (ref.kind === 'variable' && ref.name === '$input') {
+            target = input;
+            path = jsonPathAfterAccessor(ref.path);
+            root = '$input';
+          } else if (ref.kind === 'node' && ref.via === '$node') {
+            sourceNode = ref.name;
+            target = outputs.get(ref.name);
+            path = ref.path[0] === 'json' ? ref.path.slice(1) : undefined;
+            root = `$node["${ref.name}"]`;
+          } else if (ref.kind === 'node' && ref.via === '$') {
+            sourceNode = ref.name;
+            target = outputs.get(ref.name);
+            path = jsonPathAfterAccessor(ref.path);
+            root = `$('${ref.name}')`;
+          } else {
+            continue;
+          }
+
+          if (!target || !path) continue;
+          const fields = fieldPath(path);
+          const resolved = resolveShapePath(target.shape, fields);
+          if (resolved.status !== 'missing') continue;
+
+          const accessor = ref.path.slice(0, ref.path.length - path.length);
+          const suggestion = similarField(fields[resolved.missingIndex], resolved.availableFields);
+          results.push({
+            ...(node.id ? { nodeId: node.id } : {}),
+            nodeName: node.name,
+            parameter,
+            expression: root + formatPath([...accessor, ...fields]),
+            ...(sourceNode ? { sourceNode } : {}),
+            path: fields,
+            missingPath: fields.slice(0, resolved.missingIndex + 1),
+            availableFields: resolved.availableFields,
+            ...(suggestion ? { suggestion } : {}),
+            sources: target.sources
+          });
+        }
+      }
+    });
+  }
+
+  return results;
+}
+
+/**
+ * Visit every expression string ("=...") in node parameters
+ */
+function forEachExpression(value: unknown, path: string, visit: (value: string, path: string) => void): void {
+  if (typeof value === 'string') {
+    if (value.startsWith('=') && value.includes('{{')) visit(value, path);
+  } else if (Array.isArray(value)) {
+    value.forEach((item, i) => forEachExpression(item, `${path}[${i}]`, visit));
+  } else if (value && typeof value === 'object') {
+    for (const [key, child] of Object.entries(value)) {
+      forEachExpression(child, path ? `${path}.${key}` : key, visit);
+    }
+  }
+}
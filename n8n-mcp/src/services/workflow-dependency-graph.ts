@@ -0,0 +1,273 @@
+/**
+ * Workflow Dependency Graph
+ *
+ * Cross-workflow links of an instance: Execute Workflow nodes, Call Workflow
+ * Tool nodes of AI agents, and error workflows set in workflow settings.
+ * Workflows with an Execute Workflow Trigger are sub-workflows; those that no
+ * workflow calls are reported as orphans. Impact sets answer "what breaks if
+ * this workflow changes or is deleted" (transitive callers) and "what does
+ * this workflow need" (transitive callees).
+ */
+
+import { N8nApiClient } from './n8n-api-client';
+import { Workflow, WorkflowListParams } from '../types/n8n-api';
+import { findSubWorkflowReferences } from './workflow-transfer';
+
+const EXECUTE_WORKFLOW_TRIGGER = 'n8n-nodes-base.executeWorkflowTrigger';
+
+// Nodes a workflow needs to be started by another one: Execute Workflow /
+// workflow tool calls, the error workflow setting, and legacy Start nodes that
+// older n8n versions ran sub-workflows from
+const CALLABLE_TRIGGERS = new Set([
+  EXECUTE_WORKFLOW_TRIGGER,
+  'n8n-nodes-base.errorTrigger',
+  'n8n-nodes-base.start'
+]);
+
+export type WorkflowDependencyKind = 'execute_workflow' | 'ai_tool' | 'error_workflow';
+
+export interface WorkflowDependencyEdge {
+  from: string;
+  to: string;
+  kind: WorkflowDependencyKind;
+  /** Calling node (not set for error workflows) */
+  nodeName?: string;
+}
+
+export interface WorkflowGraphNode {
+  id: string;
+  name: string;
+  active: boolean;
+  /** Has an Execute Workflow Trigger, i.e. can be called by other workflows */
+  isSubWorkflow: boolean;
+  /** Referenced by another workflow but not found on the instance */
+  missing?: boolean;
+  callers: string[];
+  callees: string[];
+}
+
+export interface UnresolvedWorkflowReference {
+  workflowId: string;
+  workflowName: string;
+  nodeName: string;
+  reason: string;
+}
+
+export interface WorkflowDependencyGraph {
+  workflows: WorkflowGraphNode[];
+  edges: WorkflowDependencyEdge[];
+  /** Sub-workflows no workflow calls */
+  orphans: string[];
+  /** Referenced workflow IDs that do not exist */
+  missing: string[];
+  /** Calls whose target is only known at runtime */
+  unresolved: UnresolvedWorkflowReference[];
+}
+
+export interface WorkflowImpact {
+  workflow: { id: string; name: string };
+  /** Workflows calling this one directly */
+  callers: Array<{ id: string; name: string }>;
+  /** Workflows this one calls directly */
+  callees: Array<{ id: string; name: string }>;
+  /** All workflows affected by a change to this one (transitive callers) */
+  dependents: Array<{ id: string; name: string; depth: number }>;
+  /** All workflows this one needs (transitive callees) */
+  dependencies: Array<{ id: string; name: string; depth: number }>;
+}
+
+/**
+ * Build the dependency graph of a set of workflows (full objects with nodes)
+ */
+export function buildDependencyGraph(workflows: Workflow[]): WorkflowDependencyGraph {
+  const nodes = new Map<string, WorkflowGraphNode>();
+  for (const workflow of workflows) {
+    if (!workflow.id) continue;
+    nodes.set(workflow.id, {
+      id: workflow.id,
+      name: workflow.name,
+      active: workflow.active ?? false,
+      isSubWorkflow: (workflow.nodes ?? []).some(node => node.type === EXECUTE_WORKFLOW_TRIGGER && !node.disabled),
+      callers: [],
+      callees: []
+    });
+  }
+
+  const edges: WorkflowDependencyEdge[] = [];
+  const unresolved: UnresolvedWorkflowReference[] = [];
+
+  for (const workflow of workflows) {
+    if (!workflow.id) continue;
+
+    for (const ref of findSubWorkflowReferences(workflow.nodes ?? [])) {
+      if (!ref.workflowId) {
+        unresolved.push({ workflowId: workflow.id, workflowName: workflow.name, nodeName: ref.nodeName, reason: ref.reason ?? 'unknown' });
+        continue;
+      }
+      edges.push({
+        from: workflow.id,
+        to: ref.workflowId,
+        kind: ref.nodeType === 'n8n-nodes-base.executeWorkflow' ? 'execute_workflow' : 'ai_tool',
+        nodeName: ref.nodeName
+      });
+    }
+
+    const errorWorkflow = workflow.settings?.errorWorkflow;
+    if (typeof errorWorkflow === 'string' && errorWorkflow !== '' && errorWorkflow !== workflow.id) {
+      edges.push({ from: workflow.id, to: errorWorkflow, kind: 'error_workflow' });
+    }
+  }
+
+  const missing = new Set<string>();
+  for (const edge of edges) {
+    let target = nodes.get(edge.to);
+    if (!target) {
+      missing.add(edge.to);
+      target = { id: edge.to, name: `(missing ${edge.to})`, active: false, isSubWorkflow: false, missing: true, callers: [], callees: [] };
+      nodes.set(edge.to, target);
+    }
+    addUnique(target.callers, edge.from);
+    addUnique(nodes.get(edge.from)!.callees, edge.to);
+  }
+
+  const graphNodes = [...nodes.values()];
+  return {
+    workflows: graphNodes,
+    edges,
+    orphans: graphNodes.filter(node => node.isSubWorkflow && node.callers.length === 0).map(node => node.id),
+    missing: [...missing],
+    unresolved
+  };
+}
+
+/**
+ * Direct and transitive callers and callees of a workflow, or null if the
+ * workflow is not part of the graph
+ */
+export function getWorkflowImpact(graph: WorkflowDependencyGraph, workflowId: string): WorkflowImpact | null {
+  const byId = new Map(graph.workflows.map(node => [node.id, node]));
+  const workflow = byId.get(workflowId);
+  if (!workflow) return null;
+
+  const summary = (id: string) => ({ id, name: byId.get(id)?.name ?? id });
+  const walk = (direction: 'callers' | 'callees') => {
+    const depths = new Map<string, number>([[workflowId, 0]]);
+    const queue = [workflowId];
+    while (queue.length > 0) {
+      const id = queue.shift()!;
+      for (const next of byId.get(id)?.[direction] ?? []) {
+        if (depths.has(next)) continue;
+        depths.set(next, depths.get(id)! + 1);
+        queue.push(next);
+      }
+    }
+    depths.delete(workflowId);
+    return [...depths].map(([id, depth]) => ({ ...summary(id), depth }));
+  };
+
+  return {
+    workflow: summary(workflowId),
+    callers: workflow.callers.map(summary),
+    callees: workflow.callees.map(summary),
+    dependents: walk('callers'),
+    dependencies: walk('callees')
+  };
+}
+
+/**
+ * Whether other workflows can call this one at all. Without an Execute
+ * Workflow Trigger, Error Trigger or legacy Start node no call reaches it,
+ * so there are no callers to look for.
+ */
+export function isCallableWorkflow(workflow: Workflow): boolean {
+  return (workflow.nodes ?? []).some(node => CALLABLE_TRIGGERS.has(node.type) && !node.disabled);
+}
+
+/**
+ * Render the graph as a Mermaid flowchart, optionally limited to some workflows
+ */
+export function toMermaid(graph: WorkflowDependencyGraph, workflowIds?: Iterable<string>): string {
+  const include = workflowIds ? new Set(workflowIds) : null;
+  const ids = new Map<string, string>();
+  const nodeId = (id: string) => {
+    if (!ids.has(id)) ids.set(id, `w${ids.size}`);
+    return ids.get(id)!;
+  };
+
+  const lines = ['flowchart LR'];
+  const orphans = new Set(graph.orphans);
+  for (const node of graph.workflows) {
+    if (include && !include.has(node.id)) continue;
+    const label = escapeMermaid(node.missing ? node.name : `${node.name} (${node.id})`);
+    const cssClass = node.missing ? ':::missing' : orphans.has(node.id) ? ':::orphan' : node.active ? ':::active' : '';
+    lines.push(`  ${nodeId(node.id)}["${label}"]${cssClass}`);
+  }
+
+  for (const edge of graph.edges) {
+    if (include && (!include.has(edge.from) || !include.has(edge.to))) continue;
+    const from = nodeId(edge.from);
+    const to = nodeId(edge.to);
+    if (edge.kind === 'error_workflow') {
+      lines.push(`  ${from} -.->|on error| ${to}`);
+    } else {
+      const label = escapeMermaid(edge.kind === 'ai_tool' ? `tool: ${edge.nodeName}` : edge.nodeName ?? '');
+      lines.push(`  ${from} ${edge.kind === 'ai_tool' ? '-.->' : '-->'}|"${label}"| ${to}`);
+    }
+  }
+
+  lines.push(
+    '  classDef active stroke:#2e7d32,stroke-width:2px',
+    '  classDef orphan stroke-dasharray:5 5',
+    '  classDef missing fill:#ffebee,stroke:#c62828'
+  );
+  return lines.join('\n');
+}
+
+export interface FetchAllWorkflowsOptions {
+  /**
+   * Most workflows listed without nodes to fetch one by one. More than that
+   * fails the call instead of sending one request per workflow.
+   */
+  maxDetailFetches?: number;
+}
+
+/**
+ * Fetch every workflow with its nodes, following pagination cursors,
+ * optionally filtered by the list endpoint's tag/active/project filters
+ */
+export async function fetchAllWorkflows(
+  client: N8nApiClient,
+  filter: Pick<WorkflowListParams, 'active' | 'tags' | 'projectId'> = {},
+  options: FetchAllWorkflowsOptions = {}
+): Promise<Workflow[]> {
+  const workflows: Workflow[] = [];
+  let cursor: string | undefined;
+  do {
+    const response = await client.listWorkflows({ ...filter, limit: 100, cursor, excludePinnedData: true });
+    workflows.push(...response.data);
+    cursor = response.nextCursor || undefined;
+  } while (cursor);
+
+  // Older n8n versions list workflows without their nodes
+  const withoutNodes = workflows.filter(workflow => !Array.isArray(workflow.nodes) && workflow.id).length;
+  if (options.maxDetailFetches !== undefined && withoutNodes > options.maxDetailFetches) {
+    throw new Error(
+      `${withoutNodes} workflows were listed without their nodes - fetching them one by one exceeds the limit of ${options.maxDetailFetches} requests`
+    );
+  }
+  for (let i = 0; i < workflows.length; i++) {
+    const workflow = workflows[i];
+    if (!Array.isArray(workflow.nodes) && workflow.id) {
+      workflows[i] = await client.getWorkflow(workflow.id);
+    }
+  }
+  return workflows;
+}
+
+function addUnique(list: string[], value: string): void {
+  if (!list.includes(value)) list.push(value);
+}
+
+function escapeMermaid(text: string): string {
+  return text.replace(/"/g, '#quot;').replace(/\|/g, '#124;').replace(/[\r\n]+/g, ' ');
+}
@@ -862,6 +862,11 @@ export class WorkflowDiffEngine {
 
   // Metadata operation appliers
   private applyUpdateSettings(workflow: Workflow, operation: UpdateSettingsOperation): void {
+    if (operation.replace) {
+      workflow.settings = { ...operation.settings };
+      return;
+    }
+
     // Only create/update settings if operation provides actual properties
     // This prevents creating empty settings objects that would be rejected by n8n API
     if (operation.settings && Object.keys(operation.settings).length > 0) {
@@ -0,0 +1,295 @@
+/**
+ * Workflow Three-Way Merge
+ *
+ * Optimistic concurrency for workflow updates: when a caller edited a revision
+ * that is no longer current, their change ("ours") and the change made in the
+ * meantime ("theirs") are merged against the common ancestor ("base").
+ * Nodes are matched by ID, values are merged per parameter path, connections
+ * as sets of links. Anything both sides changed differently is reported as a
+ * conflict instead of being overwritten.
+ */
+
+import { ConnectionRef, flattenConnections, isEqual, isPlainObject } from './workflow-semantic-diff';
+
+/**
+ * Revision of a workflow the caller last saw
+ */
+export interface ExpectedRevision {
+  versionId?: string;
+  updatedAt?: string;
+}
+
+export type MergeConflictScope = 'workflow' | 'settings' | 'node' | 'parameter' | 'connection';
+
+export type MergeConflictType =
+  | 'both_modified'     // Same value changed differently on both sides
+  | 'both_added'        // Node with the same ID added differently on both sides
+  | 'modified_deleted'  // We changed a node they deleted
+  | 'deleted_modified'  // We deleted a node they changed
+  | 'name_collision'    // Two different nodes end up with the same name
+  | 'dangling_connection'; // A new connection points to a node deleted by the other side
+
+export interface MergeConflict {
+  scope: MergeConflictScope;
+  type: MergeConflictType;
+  node?: { id?: string; name: string };
+  path?: string;
+  base?: unknown;
+  ours?: unknown;
+  theirs?: unknown;
+  message: string;
+}
+
+export interface MergedWorkflowContent {
+  name: string;
+  nodes: any[];
+  connections: Record<string, any>;
+  settings: Record<string, unknown>;
+}
+
+export interface WorkflowMergeResult {
+  merged: MergedWorkflowContent;
+  conflicts: MergeConflict[];
+  hasConflicts: boolean;
+}
+
+/**
+ * Whether the caller passed a revision to check against
+ */
+export function hasExpectedRevision(expected: ExpectedRevision): boolean {
+  return Boolean(expected.versionId || expected.updatedAt);
+}
+
+/**
+ * Whether the current workflow differs from the revision the caller last saw
+ */
+export function isStaleRevision(current: { versionId?: string; updatedAt?: string }, expected: ExpectedRevision): boolean {
+  if (expected.versionId && current.versionId && current.versionId !== expected.versionId) return true;
+  if (expected.updatedAt && current.updatedAt && current.updatedAt !== expected.updatedAt) return true;
+  return false;
+}
+
+type ConflictReporter = (path: string, base: unknown, ours: unknown, theirs: unknown) => void;
+
+/**
+ * Merge a single value. Objects are merged key by key; arrays and primitives
+ * are atomic and conflict when both sides changed them differently.
+ * On conflict the value of `theirs` is kept in the result.
+ */
+function mergeValue(base: unknown, ours: unknown, theirs: unknown, onConflict: ConflictReporter, path: string = ''): unknown {
+  if (isEqual(ours, theirs)) return ours;
+  if (isEqual(base, ours)) return theirs;
+  if (isEqual(base, theirs)) return ours;
+
+  if (isPlainObject(ours) && isPlainObject(theirs)) {
+    const baseObj = isPlainObject(base) ? base : {};
+    const result: Record<string, unknown> = {};
+    const keys = new Set([...Object.keys(theirs), ...Object.keys(ours)]);
+    for (const key of keys) {
+      const value = mergeValue(baseObj[key], ours[key], theirs[key], onConflict, path ? `${path}.${key}` : key);
+      if (value !== undefined) result[key] = value;
+    }
+    return result;
+  }
+
+  onConflict(path, base, ours, theirs);
+  return theirs;
+}
+
+function nodeKey(node: any): string {
+  return node.id ? `id:${node.id}` : `name:${node.name}`;
+}
+
+function indexNodes(nodes: any[] | undefined): Map<string, any> {
+  return new Map((nodes || []).map(node => [nodeKey(node), node]));
+}
+
+function nodeRef(node: any): { id?: string; name: string } {
+  return { ...(node.id ? { id: node.id } : {}), name: node.name };
+}
+
+/**
+ * Connections keyed by node identity instead of name, so renames on one side
+ * don't turn into remove/add pairs
+ */
+function indexConnections(workflow: any, nodes: Map<string, any>): Map<string, ConnectionRef> {
+  const keyByName = new Map<string, string>();
+  for (const [key, node] of nodes) keyByName.set(node.name, key);
+
+  const result = new Map<string, ConnectionRef>();
+  for (const conn of flattenConnections(workflow?.connections)) {
+    const ref = {
+      ...conn,
+      source: keyByName.get(conn.source) ?? `name:${conn.source}`,
+      target: keyByName.get(conn.target) ?? `name:${conn.target}`
+    };
+    result.set(JSON.stringify([ref.source, ref.sourceOutput, ref.sourceIndex, ref.target, ref.targetInput, ref.targetIndex]), ref);
+  }
+  return result;
+}
+
+/**
+ * Three-way merge of workflow content (name, nodes, connections, settings)
+ */
+export function mergeWorkflows(base: any, ours: any, theirs: any): WorkflowMergeResult {
+  const conflicts: MergeConflict[] = [];
+
+  // Workflow name and settings
+  const name = mergeValue(base?.name, ours?.name, theirs?.name, (path, b, o, t) => {
+    conflicts.push({ scope: 'workflow', type: 'both_modified', path: 'name', base: b, ours: o, theirs: t, message: 'Workflow name was changed on both sides' });
+  }) as string;
+
+  const settings = (mergeValue(base?.settings || {}, ours?.settings || {}, theirs?.settings || {}, (path, b, o, t) => {
+    conflicts.push({ scope: 'settings', type: 'both_modified', path, base: b, ours: o, theirs: t, message: `Setting "${path}" was changed on both sides` });
+  }) || {}) as Record<string, unknown>;
+
+  // Nodes
+  const baseNodes = indexNodes(base?.nodes);
+  const ourNodes = indexNodes(ours?.nodes);
+  const theirNodes = indexNodes(theirs?.nodes);
+  const mergedNodes = new Map<string, any>();
+  const keys = new Set([...theirNodes.keys(), ...ourNodes.keys(), ...baseNodes.keys()]);
+
+  for (const key of keys) {
+    const b = baseNodes.get(key);
+    const o = ourNodes.get(key);
+    const t = theirNodes.get(key);
+
+    if (!b) {
+      if (o && t && !isEqual(o, t)) {
+        conflicts.push({ scope: 'node', type: 'both_added', node: nodeRef(t), ours: o, theirs: t, message: `Node "${t.name}" was added on both sides with different content` });
+        mergedNodes.set(key, t);
+      } else if (o || t) {
+        mergedNodes.set(key, t || o);
+      }
+      continue;
+    }
+
+    if (!o && !t) continue;
+
+    if (!o) {
+      if (!isEqual(b, t)) {
+        conflicts.push({ scope: 'node', type: 'deleted_modified', node: nodeRef(t), base: b, theirs: t, message: `Node "${b.name}" was deleted by this update but modified in the meantime` });
+        mergedNodes.set(key, t);
+      }
+      continue;
+    }
+
+    if (!t) {
+      if (!isEqual(b, o)) {
+        conflicts.push({ scope: 'node', type: 'modified_deleted', node: nodeRef(o), base: b, ours: o, message: `Node "${b.name}" was modified by this update but deleted in the meantime` });
+      }
+      continue;
+    }
+
+    const merged = mergeValue(b, o, t, (path, bv, ov, tv) => {
+      conflicts.push({
+        scope: path.startsWith('parameters') ? 'parameter' : 'node',
+        type: 'both_modified',
+        node: nodeRef(t),
+        path,
+        base: bv,
+        ours: ov,
+        theirs: tv,
+        message: path === 'name'
+          ? `Node "${b.name}" was renamed on both sides ("${ov}" vs "${tv}")`
+          : `"${path}" of node "${t.name}" was changed on both sides`
+      });
+    });
+    mergedNodes.set(key, merged);
+  }
+
+  // Two distinct nodes must not share a name (connections reference names)
+  const byName = new Map<string, any[]>();
+  for (const node of mergedNodes.values()) {
+    byName.set(node.name, [...(byName.get(node.name) || []), node]);
+  }
+  for (const [nodeName, nodes] of byName) {
+    if (nodes.length > 1) {
+      conflicts.push({ scope: 'node', type: 'name_collision', node: { name: nodeName }, ours: nodes.map(nodeRef), message: `${nodes.length} nodes are named "${nodeName}" after merging` });
+    }
+  }
+
+  const connections = mergeConnections(base, ours, theirs, baseNodes, ourNodes, theirNodes, mergedNodes, conflicts);
+
+  return {
+    merged: {
+      name,
+      nodes: Array.from(mergedNodes.values()),
+      connections,
+      settings
+    },
+    conflicts,
+    hasConflicts: conflicts.length > 0
+  };
+}
+
+/**
+ * Whether every node of a snapshot keeps its name in the merged result
+ */
+function keepsNodeNames(nodes: Map<string, any>, mergedNodes: Map<string, any>): boolean {
+  return nodes.size === mergedNodes.size &&
+    Array.from(nodes).every(([key, node]) => mergedNodes.get(key)?.name === node.name);
+}
+
+/**
+ * Merge connections. If only one side touched connections and node names match
+ * that side, its connections are taken as-is; otherwise a link is kept if both
+ * sides kept it, or if either side added it.
+ */
+function mergeConnections(
+  base: any,
+  ours: any,
+  theirs: any,
+  baseNodes: Map<string, any>,
+  ourNodes: Map<string, any>,
+  theirNodes: Map<string, any>,
+  mergedNodes: Map<string, any>,
+  conflicts: MergeConflict[]
+): Record<string, any> {
+  const baseConnections = base?.connections || {};
+  if (isEqual(baseConnections, ours?.connections || {}) && keepsNodeNames(theirNodes, mergedNodes)) {
+    return theirs?.connections || {};
+  }
+  if (isEqual(baseConnections, theirs?.connections || {}) && keepsNodeNames(ourNodes, mergedNodes)) {
+    return ours?.connections || {};
+  }
+
+  const baseLinks = indexConnections(base, baseNodes);
+  const ourLinks = indexConnections(ours, ourNodes);
+  const theirLinks = indexConnections(theirs, theirNodes);
+  const connections: Record<string, any> = {};
+
+  const linkKeys = new Set([...theirLinks.keys(), ...ourLinks.keys()]);
+  for (const linkKey of linkKeys) {
+    const inBase = baseLinks.has(linkKey);
+    const inOurs = ourLinks.has(linkKey);
+    const inTheirs = theirLinks.has(linkKey);
+    if (inBase ? !(inOurs && inTheirs) : !(inOurs || inTheirs)) continue;
+
+    const link = (theirLinks.get(linkKey) || ourLinks.get(linkKey))!;
+    const source = mergedNodes.get(link.source);
+    const target = mergedNodes.get(link.target);
+    if (!source || !target) {
+      if (!inBase) {
+        const missing = !source ? link.source : link.target;
+        conflicts.push({
+          scope: 'connection',
+          type: 'dangling_connection',
+          path: `${link.source} → ${link.target}`,
+          ours: inOurs ? link : undefined,
+          theirs: inTheirs ? link : undefined,
+          message: `New connection references node ${missing.replace(/^(id|name):/, '')}, which was deleted on the other side`
+        });
+      }
+      continue;
+    }
+
+    const outputs = (connections[source.name] ??= {});
+    const slots: any[] = (outputs[link.sourceOutput] ??= []);
+    while (slots.length <= link.sourceIndex) slots.push([]);
+    slots[link.sourceIndex].push({ node: target.name, type: link.targetInput, index: link.targetIndex });
+  }
+
+  return connections;
+}
@@ -0,0 +1,198 @@
+/**
+ * Workflow Pinned Data
+ *
+ * Builds and checks the pinned data of workflow nodes. Pinned items come from
+ * literal JSON, from the output a node produced in a past execution, or are
+ * synthesized from the node's inferred output shape. Every source is
+ * normalized to the n8n item format ({ json }) before it is pinned.
+ */
+
+import { Execution } from '../types/n8n-api';
+import { isNonExecutableNode } from '../utils/node-classification';
+import { inferWorkflowDataShapes, sampleOfShape } from './workflow-data-shape';
+
+export type PinDataItem = { json: Record<string, unknown> };
+
+export interface PinItemsResult {
+  items: PinDataItem[];
+  /** Items that are not in n8n item format - nothing may be pinned */
+  errors: string[];
+  warnings: string[];
+}
+
+export interface PinnedNodeSummary {
+  nodeName: string;
+  itemCount: number;
+  /** Top-level fields of the first item */
+  fields: string[];
+  /** false for pinned data of nodes that no longer exist */
+  inWorkflow: boolean;
+  items?: PinDataItem[];
+}
+
+// Largest pinned data n8n accepts for one workflow
+export const MAX_PIN_DATA_BYTES = 12 * 1024 * 1024;
+
+// Keys of an n8n item besides json
+const ITEM_KEYS = new Set(['json', 'binary', 'pairedItem']);
+
+/**
+ * Check items against the n8n item format. A plain object is pinned as the
+ * json of one item, and items without a json key are wrapped the same way.
+ */
+export function normalizePinItems(value: unknown): PinItemsResult {
+  const result: PinItemsResult = { items: [], errors: [], warnings: [] };
+  const list = isPlainObject(value) ? [value] : value;
+  if (!Array.isArray(list)) {
+    result.errors.push(`Pinned data must be an array of items, got ${describe(value)}`);
+    return result;
+  }
+
+  let droppedBinary = 0;
+  list.forEach((item, index) => {
+    if (!isPlainObject(item)) {
+      result.errors.push(`items[${index}] must be an object, got ${describe(item)}`);
+      return;
+    }
+    if (!('json' in item)) {
+      result.items.push({ json: item });
+      return;
+    }
+
+    const extraKeys = Object.keys(item).filter(key => !ITEM_KEYS.has(key));
+    if (extraKeys.length > 0) {
+      result.errors.push(`items[${index}] mixes n8n item keys with data fields (${extraKeys.join(', ')}) - put the data inside json`);
+      return;
+    }
+    if (!isPlainObject(item.json)) {
+      result.errors.push(`items[${index}].json must be an object, got ${describe(item.json)}`);
+      return;
+    }
+    if (item.binary !== undefined) droppedBinary++;
+    result.items.push({ json: item.json });
+  });
+
+  if (droppedBinary > 0) {
+    result.warnings.push(`Binary data of ${droppedBinary} item(s) was dropped - only JSON can be pinned`);
+  }
+  if (list.length === 0) {
+    result.warnings.push('No items pinned - the node will output nothing');
+  }
+  return result;
+}
+
+/**
+ * Output items a node produced in an execution
+ *
+ * @param runIndex - Run of the node (default: last run)
+ * @param outputIndex - Output of the node (default: 0)
+ */
+export function pinItemsFromExecution(
+  execution: Execution,
+  nodeName: string,
+  runIndex?: number,
+  outputIndex: number = 0
+): PinItemsResult {
+  const runs = execution.data?.resultData?.runData?.[nodeName];
+  if (!Array.isArray(runs) || runs.length === 0) {
+    throw new Error(`Node "${nodeName}" has no run data in execution ${execution.id}`);
+  }
+
+  const run = runs[runIndex ?? runs.length - 1];
+  if (!run) {
+    throw new Error(`Node "${nodeName}" ran ${runs.length} time(s) in execution ${execution.id} - runIndex ${runIndex} does not exist`);
+  }
+  if (run.error) {
+    throw new Error(`Node "${nodeName}" failed in execution ${execution.id} and has no output to pin`);
+  }
+  const items = run.data?.main?.[outputIndex];
+  if (!Array.isArray(items)) {
+    throw new Error(`Node "${nodeName}" has no output ${outputIndex} in execution ${execution.id}`);
+  }
+  return normalizePinItems(items);
+}
+
+/**
+ * Items synthesized from the output shape inferred for a node, with
+ * placeholder values
+ */
+export function samplePinItems(workflow: any, nodeName: string, count: number = 1): PinItemsResult {
+  // The node's own pinned data must not be the source of its sample
+  const pinData = { ...(workflow?.pinData ?? {}) };
+  delete pinData[nodeName];
+
+  const shape = inferWorkflowDataShapes({ ...workflow, pinData }).get(nodeName);
+  const sample = shape ? sampleOfShape(shape.shape) : undefined;
+  if (!isPlainObject(sample)) {
+    throw new Error(
+      `The output shape of node "${nodeName}" is unknown - pin literal JSON or items from a past execution instead`
+    );
+  }
+
+  const result = normalizePinItems(Array.from({ length: count }, () => structuredClone(sample)));
+  result.warnings.push(`Synthesized from ${shape!.sources.join(', ')} - replace the placeholder values with realistic data`);
+  return result;
+}
+
+/**
+ * Problems that rule out pinning items to a node of the workflow
+ */
+export function checkPinTarget(workflow: any, nodeName: string): string | undefined {
+  const node = (workflow?.nodes ?? []).find((n: any) => n?.name === nodeName);
+  if (!node) {
+    return `Node "${nodeName}" not found in workflow`;
+  }
+  if (isNonExecutableNode(node.type)) {
+    return `Node "${nodeName}" (${node.type}) does not run and cannot have pinned data`;
+  }
+  return undefined;
+}
+
+/**
+ * Pinned nodes of a workflow with item counts, sorted by node name
+ */
+export function summarizePinData(workflow: any, includeItems: boolean = false): PinnedNodeSummary[] {
+  const nodeNames = new Set((workflow?.nodes ?? []).map((node: any) => node?.name));
+  return Object.entries<unknown>(workflow?.pinData ?? {})
+    .map(([nodeName, items]) => {
+      const list = Array.isArray(items) ? items as PinDataItem[] : [];
+      const first = list[0]?.json ?? list[0];
+      return {
+        nodeName,
+        itemCount: list.length,
+        fields: isPlainObject(first) ? Object.keys(first) : [],
+        inWorkflow: nodeNames.has(nodeName),
+        ...(includeItems ? { items: list } : {})
+      };
+    })
+    .sort((a, b) => a.nodeName.localeCompare(b.nodeName));
+}
+
+/**
+ * Nodes whose pinned data the saved workflow does not match. Some n8n
+ * versions drop pinData on workflow updates without an error.
+ */
+export function findUnsavedPinData(sent: Record<string, unknown>, saved: Record<string, unknown> | undefined): string[] {
+  const savedData = saved ?? {};
+  const itemCount = (items: unknown) => (Array.isArray(items) ? items.length : -1);
+  const nodeNames = new Set([...Object.keys(sent), ...Object.keys(savedData)]);
+  return [...nodeNames]
+    .filter(nodeName => !(nodeName in sent) || !(nodeName in savedData) || itemCount(sent[nodeName]) !== itemCount(savedData[nodeName]))
+    .sort((a, b) => a.localeCompare(b));
+}
+
+/**
+ * Serialized size of pinned data in bytes
+ */
+export function pinDataSize(pinData: Record<string, unknown>): number {
+  return Buffer.byteLength(JSON.stringify(pinData), 'utf8');
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  return Array.isArray(value) ? 'array' : typeof value;
+}
@@ -0,0 +1,573 @@
+/**
+ * Workflow Semantic Diff
+ *
+ * Compares two workflow snapshots at the level n8n users think in: nodes
+ * (added, removed, renamed, changed parameters), connections and settings.
+ * A diff can be rendered as markdown, as an RFC 6902 JSON Patch, or as
+ * WorkflowDiffOperation[] that replay the change via n8n_update_partial_workflow.
+ */
+
+import { WorkflowDiffOperation } from '../types/workflow-diff';
+
+export interface ValueChange {
+  path: string;
+  kind: 'added' | 'removed' | 'changed';
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface NodeSummary {
+  id?: string;
+  name: string;
+  type: string;
+}
+
+export interface NodeRename {
+  id?: string;
+  from: string;
+  to: string;
+}
+
+export interface ModifiedNode {
+  id?: string;
+  name: string;
+  previousName?: string;
+  type: string;
+  changes: ValueChange[];
+}
+
+export interface ConnectionRef {
+  source: string;
+  sourceOutput: string;
+  sourceIndex: number;
+  target: string;
+  targetInput: string;
+  targetIndex: number;
+}
+
+export interface WorkflowSemanticDiff {
+  hasChanges: boolean;
+  nameChange?: { before: string; after: string };
+  addedNodes: NodeSummary[];
+  removedNodes: NodeSummary[];
+  renamedNodes: NodeRename[];
+  modifiedNodes: ModifiedNode[];
+  addedConnections: ConnectionRef[];
+  removedConnections: ConnectionRef[];
+  settingsChanges: ValueChange[];
+  summary: {
+    addedNodes: number;
+    removedNodes: number;
+    renamedNodes: number;
+    modifiedNodes: number;
+    addedConnections: number;
+    removedConnections: number;
+    settingsChanges: number;
+  };
+}
+
+export interface JsonPatchOperation {
+  op: 'add' | 'remove' | 'replace';
+  path: string;
+  value?: unknown;
+}
+
+// Node fields that are compared structurally rather than as generic values
+const NODE_IDENTITY_FIELDS = new Set(['id', 'name']);
+
+export function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+export function isEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, i) => isEqual(item, b[i]));
+  }
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+    for (const key of keys) {
+      if (!isEqual(a[key], b[key])) return false;
+    }
+    return true;
+  }
+  return false;
+}
+
+/**
+ * Deep diff of two values. Objects are recursed into; arrays and primitives are
+ * compared as a whole so every change maps onto a single dot-notation path.
+ */
+export function diffValues(before: unknown, after: unknown, basePath: string = ''): ValueChange[] {
+  if (isEqual(before, after)) return [];
+
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const changes: ValueChange[] = [];
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+    for (const key of keys) {
+      const path = basePath ? `${basePath}.${key}` : key;
+      if (!(key in before) || before[key] === undefined) {
+        if (after[key] !== undefined) changes.push({ path, kind: 'added', after: after[key] });
+      } else if (!(key in after) || after[key] === undefined) {
+        changes.push({ path, kind: 'removed', before: before[key] });
+      } else {
+        changes.push(...diffValues(before[key], after[key], path));
+      }
+    }
+    return changes;
+  }
+
+  return [{ path: basePath, kind: 'changed', before, after }];
+}
+
+function getPath(obj: any, path: string): unknown {
+  return path.split('.').reduce((current, key) => (current == null ? undefined : current[key]), obj);
+}
+
+export function flattenConnections(connections: any): ConnectionRef[] {
+  const result: ConnectionRef[] = [];
+  for (const [source, outputs] of Object.entries<any>(connections || {})) {
+    for (const [sourceOutput, slots] of Object.entries<any>(outputs || {})) {
+      (slots || []).forEach((targets: any[] | null, sourceIndex: number) => {
+        for (const target of targets || []) {
+          result.push({
+            source,
+            sourceOutput,
+            sourceIndex,
+            target: target.node,
+            targetInput: target.type,
+            targetIndex: target.index ?? 0
+          });
+        }
+      });
+    }
+  }
+  return result;
+}
+
+function connectionKey(conn: ConnectionRef): string {
+  return JSON.stringify([conn.source, conn.sourceOutput, conn.sourceIndex, conn.target, conn.targetInput, conn.targetIndex]);
+}
+
+function summarizeNode(node: any): NodeSummary {
+  return { ...(node.id ? { id: node.id } : {}), name: node.name, type: node.type };
+}
+
+/**
+ * Pair nodes of two snapshots. Nodes are matched by ID; nodes without a
+ * counterpart by ID fall back to matching by name (for snapshots lacking IDs).
+ */
+function matchNodes(beforeNodes: any[], afterNodes: any[]) {
+  const pairs: Array<{ before: any; after: any }> = [];
+  const unmatchedAfter = new Set(afterNodes);
+  const unmatchedBefore: any[] = [];
+
+  for (const node of beforeNodes) {
+    const match = node.id ? afterNodes.find(n => n.id === node.id && unmatchedAfter.has(n)) : undefined;
+    if (match) {
+      pairs.push({ before: node, after: match });
+      unmatchedAfter.delete(match);
+    } else {
+      unmatchedBefore.push(node);
+    }
+  }
+
+  const removed: any[] = [];
+  for (const node of unmatchedBefore) {
+    const match = Array.from(unmatchedAfter).find(n => n.name === node.name && (!n.id || !node.id));
+    if (match) {
+      pairs.push({ before: node, after: match });
+      unmatchedAfter.delete(match);
+    } else {
+      removed.push(node);
+    }
+  }
+
+  return { pairs, removed, added: Array.from(unmatchedAfter) };
+}
+
+/**
+ * Compute a semantic diff from `before` to `after`
+ */
+export function diffWorkflows(before: any, after: any): WorkflowSemanticDiff {
+  const { pairs, removed, added } = matchNodes(before?.nodes || [], after?.nodes || []);
+
+  const renamedNodes: NodeRename[] = [];
+  const modifiedNodes: ModifiedNode[] = [];
+
+  for (const pair of pairs) {
+    if (pair.before.name !== pair.after.name) {
+      renamedNodes.push({
+        ...(pair.after.id ? { id: pair.after.id } : {}),
+        from: pair.before.name,
+        to: pair.after.name
+      });
+    }
+
+    const strip = (node: any) => Object.fromEntries(
+      Object.entries(node).filter(([key]) => !NODE_IDENTITY_FIELDS.has(key))
+    );
+    const changes = diffValues(strip(pair.before), strip(pair.after));
+    if (changes.length > 0) {
+      modifiedNodes.push({
+        ...(pair.after.id ? { id: pair.after.id } : {}),
+        name: pair.after.name,
+        ...(pair.before.name !== pair.after.name ? { previousName: pair.before.name } : {}),
+        type: pair.after.type,
+        changes
+      });
+    }
+  }
+
+  // Compare connections with names mapped to the `after` snapshot so renames alone are not reported
+  const renameMap = new Map(renamedNodes.map(r => [r.from, r.to]));
+  const beforeConnections = flattenConnections(before?.connections).map(conn => ({
+    ...conn,
+    source: renameMap.get(conn.source) ?? conn.source,
+    target: renameMap.get(conn.target) ?? conn.target
+  }));
+  const afterConnections = flattenConnections(after?.connections);
+  const beforeKeys = new Set(beforeConnections.map(connectionKey));
+  const afterKeys = new Set(afterConnections.map(connectionKey));
+
+  const addedConnections = afterConnections.filter(conn => !beforeKeys.has(connectionKey(conn)));
+  // Report removed connections with their original names
+  const reverseRename = new Map(renamedNodes.map(r => [r.to, r.from]));
+  const removedConnections = beforeConnections
+    .filter(conn => !afterKeys.has(connectionKey(conn)))
+    .map(conn => ({
+      ...conn,
+      source: reverseRename.get(conn.source) ?? conn.source,
+      target: reverseRename.get(conn.target) ?? conn.target
+    }));
+
+  const settingsChanges = diffValues(before?.settings || {}, after?.settings || {});
+  const nameChange = before?.name !== after?.name && (before?.name || after?.name)
+    ? { before: before?.name, after: after?.name }
+    : undefined;
+
+  const summary = {
+    addedNodes: added.length,
+    removedNodes: removed.length,
+    renamedNodes: renamedNodes.length,
+    modifiedNodes: modifiedNodes.length,
+    addedConnections: addedConnections.length,
+    removedConnections: removedConnections.length,
+    settingsChanges: settingsChanges.length
+  };
+
+  return {
+    hasChanges: !!nameChange || Object.values(summary).some(count => count > 0),
+    ...(nameChange ? { nameChange } : {}),
+    addedNodes: added.map(summarizeNode),
+    removedNodes: removed.map(summarizeNode),
+    renamedNodes,
+    modifiedNodes,
+    addedConnections,
+    removedConnections,
+    settingsChanges,
+    summary
+  };
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined) return '_(unset)_';
+  const json = JSON.stringify(value);
+  return '`' + (json.length > 80 ? json.substring(0, 77) + '...' : json) + '`';
+}
+
+function formatConnection(conn: ConnectionRef): string {
+  const output = conn.sourceOutput === 'main' && conn.sourceIndex === 0 ? '' : ` [${conn.sourceOutput}[${conn.sourceIndex}]]`;
+  const input = conn.targetInput === conn.sourceOutput && conn.targetIndex === 0 ? '' : ` (${conn.targetInput}[${conn.targetIndex}])`;
+  return `${conn.source}${output} → ${conn.target}${input}`;
+}
+
+/**
+ * Render a diff as human-readable markdown
+ */
+export function renderDiffMarkdown(diff: WorkflowSemanticDiff, labels: { before?: string; after?: string } = {}): string {
+  const lines: string[] = [`## Workflow diff: ${labels.before || 'before'} → ${labels.after || 'after'}`, ''];
+
+  if (!diff.hasChanges) {
+    lines.push('No changes.');
+    return lines.join('\n');
+  }
+
+  const s = diff.summary;
+  lines.push(`**Summary:** ${s.addedNodes} added, ${s.removedNodes} removed, ${s.renamedNodes} renamed, ${s.modifiedNodes} modified node(s); ` +
+    `${s.addedConnections + s.removedConnections} connection change(s); ${s.settingsChanges} settings change(s)`);
+
+  if (diff.nameChange) {
+    lines.push('', `**Workflow renamed:** "${diff.nameChange.before}" → "${diff.nameChange.after}"`);
+  }
+
+  if (diff.addedNodes.length > 0) {
+    lines.push('', '### Added nodes');
+    diff.addedNodes.forEach(node => lines.push(`- **${node.name}** (\`${node.type}\`)`));
+  }
+
+  if (diff.removedNodes.length > 0) {
+    lines.push('', '### Removed nodes');
+    diff.removedNodes.forEach(node => lines.push(`- **${node.name}** (\`${node.type}\`)`));
+  }
+
+  if (diff.renamedNodes.length > 0) {
+    lines.push('', '### Renamed nodes');
+    diff.renamedNodes.forEach(rename => lines.push(`- "${rename.from}" → "${rename.to}"`));
+  }
+
+  if (diff.modifiedNodes.length > 0) {
+    lines.push('', '### Modified nodes');
+    for (const node of diff.modifiedNodes) {
+      lines.push('', `#### ${node.name}`);
+      for (const change of node.changes) {
+        if (change.kind === 'added') lines.push(`- \`${change.path}\` added: ${formatValue(change.after)}`);
+        else if (change.kind === 'removed') lines.push(`- \`${change.path}\` removed (was ${formatValue(change.before)})`);
+        else lines.push(`- \`${change.path}\`: ${formatValue(change.before)} → ${formatValue(change.after)}`);
+      }
+    }
+  }
+
+  if (diff.addedConnections.length + diff.removedConnections.length > 0) {
+    lines.push('', '### Connections');
+    diff.addedConnections.forEach(conn => lines.push(`- + ${formatConnection(conn)}`));
+    diff.removedConnections.forEach(conn => lines.push(`- − ${formatConnection(conn)}`));
+  }
+
+  if (diff.settingsChanges.length > 0) {
+    lines.push('', '### Settings');
+    diff.settingsChanges.forEach(change => lines.push(`- \`${change.path}\`: ${formatValue(change.before)} → ${formatValue(change.after)}`));
+  }
+
+  return lines.join('\n');
+}
+
+function escapePointer(token: string): string {
+  return token.replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+/**
+ * Create an RFC 6902 JSON Patch that turns `before` into `after`.
+ * Arrays are patched element-wise with trailing additions/removals.
+ */
+export function createJsonPatch(before: unknown, after: unknown, path: string = ''): JsonPatchOperation[] {
+  if (isEqual(before, after)) return [];
+
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const ops: JsonPatchOperation[] = [];
+    for (const key of Object.keys(before)) {
+      if (!(key in after) || after[key] === undefined) {
+        if (before[key] !== undefined) ops.push({ op: 'remove', path: `${path}/${escapePointer(key)}` });
+      }
+    }
+    for (const key of Object.keys(after)) {
+      if (after[key] === undefined) continue;
+      const childPath = `${path}/${escapePointer(key)}`;
+      if (!(key in before) || before[key] === undefined) {
+        ops.push({ op: 'add', path: childPath, value: after[key] });
+      } else {
+        ops.push(...createJsonPatch(before[key], after[key], childPath));
+      }
+    }
+    return ops;
+  }
+
+  if (Array.isArray(before) && Array.isArray(after)) {
+    const ops: JsonPatchOperation[] = [];
+    const common = Math.min(before.length, after.length);
+    for (let i = 0; i < common; i++) {
+      ops.push(...createJsonPatch(before[i], after[i], `${path}/${i}`));
+    }
+    // Remove from the end so earlier indices stay valid
+    for (let i = before.length - 1; i >= common; i--) {
+      ops.push({ op: 'remove', path: `${path}/${i}` });
+    }
+    for (let i = common; i < after.length; i++) {
+      ops.push({ op: 'add', path: `${path}/${i}`, value: after[i] });
+    }
+    return ops;
+  }
+
+  return [{ op: 'replace', path, value: after }];
+}
+
+/**
+ * Apply an RFC 6902 JSON Patch (add/remove/replace) to a deep copy of `document`
+ */
+export function applyJsonPatch<T>(document: T, patch: JsonPatchOperation[]): T {
+  let result: any = JSON.parse(JSON.stringify(document));
+
+  for (const operation of patch) {
+    if (operation.path === '') {
+      result = operation.op === 'remove' ? undefined : JSON.parse(JSON.stringify(operation.value));
+      continue;
+    }
+
+    const tokens = operation.path.split('/').slice(1).map(t => t.replace(/~1/g, '/').replace(/~0/g, '~'));
+    const last = tokens.pop()!;
+    let parent = result;
+    for (const token of tokens) {
+      if (parent === null || typeof parent !== 'object' || !(token in parent)) {
+        throw new Error(`JSON Patch path not found: ${operation.path}`);
+      }
+      parent = parent[token];
+    }
+
+    const value = operation.value === undefined ? undefined : JSON.parse(JSON.stringify(operation.value));
+    if (Array.isArray(parent)) {
+      const index = last === '-' ? parent.length : parseInt(last, 10);
+      if (operation.op === 'add') parent.splice(index, 0, value);
+      else if (operation.op === 'remove') parent.splice(index, 1);
+      else parent[index] = value;
+    } else if (operation.op === 'remove') {
+      delete parent[last];
+    } else {
+      parent[last] = value;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Convert a diff into WorkflowDiffOperation[] that turn `before` into `after`
+ * when applied with n8n_update_partial_workflow.
+ *
+ * Order: remove nodes → remove connections → update/rename nodes → add nodes →
+ * add connections → settings/name. Renames are applied by the diff engine
+ * together with their connection references.
+ */
+export function toDiffOperations(diff: WorkflowSemanticDiff, after: any): WorkflowDiffOperation[] {
+  const operations: WorkflowDiffOperation[] = [];
+  const ref = (node: { id?: string; name: string }) => (node.id ? { nodeId: node.id } : { nodeName: node.name });
+
+  for (const node of diff.removedNodes) {
+    operations.push({ type: 'removeNode', ...ref(node) });
+  }
+
+  // removeConnection drops every link between a source output and a target, so
+  // fall back to replaceConnections when a pair keeps other links
+  const removedNodeNames = new Set(diff.removedNodes.map(n => n.name));
+  const connectionRemovals = diff.removedConnections.filter(
+    conn => !removedNodeNames.has(conn.source) && !removedNodeNames.has(conn.target)
+  );
+  const renameMap = new Map(diff.renamedNodes.map(r => [r.from, r.to]));
+  const afterConnections = flattenConnections(after?.connections);
+  const needsReplace = connectionRemovals.some(conn =>
+    afterConnections.some(kept =>
+      kept.source === (renameMap.get(conn.source) ?? conn.source) &&
+      kept.sourceOutput === conn.sourceOutput &&
+      kept.target === (renameMap.get(conn.target) ?? conn.target)
+    )
+  );
+
+  if (!needsReplace) {
+    const seen = new Set<string>();
+    for (const conn of connectionRemovals) {
+      const key = JSON.stringify([conn.source, conn.sourceOutput, conn.target]);
+      if (seen.has(key)) continue;
+      seen.add(key);
+      operations.push({
+        type: 'removeConnection',
+        source: conn.source,
+        target: conn.target,
+        sourceOutput: conn.sourceOutput,
+        targetInput: conn.targetInput
+      });
+    }
+  }
+
+  const renamesById = new Map(diff.renamedNodes.map(r => [r.id ?? r.to, r]));
+  const handled = new Set<string>();
+
+  const afterNodes: any[] = after?.nodes || [];
+
+  for (const node of diff.modifiedNodes) {
+    const nodeRef = node.id ? { nodeId: node.id } : { nodeName: node.previousName ?? node.name };
+    const afterNode = afterNodes.find(n => (node.id ? n.id === node.id : n.name === node.name));
+    const updates: Record<string, unknown> = {};
+
+    for (const change of node.changes) {
+      if (change.path === 'position') {
+        operations.push({ type: 'moveNode', ...nodeRef, position: change.after as [number, number] });
+      } else if (change.path === 'disabled' && typeof change.after === 'boolean') {
+        operations.push(change.after ? { type: 'disableNode', ...nodeRef } : { type: 'enableNode', ...nodeRef });
+      } else if (change.kind === 'removed') {
+        // Removals can't be expressed as a dot-path value (undefined is lost in JSON),
+        // so replace the parent object instead
+        const parentPath = change.path.split('.').slice(0, -1).join('.');
+        updates[parentPath || change.path] = parentPath ? getPath(afterNode, parentPath) : null;
+      } else {
+        updates[change.path] = change.after;
+      }
+    }
+
+    // Drop child paths already covered by a replaced parent
+    for (const path of Object.keys(updates)) {
+      if (Object.keys(updates).some(other => other !== path && path.startsWith(other + '.'))) {
+        delete updates[path];
+      }
+    }
+
+    const rename = renamesById.get(node.id ?? node.name);
+    if (rename) {
+      updates.name = rename.to;
+      handled.add(node.id ?? node.name);
+    }
+
+    if (Object.keys(updates).length > 0) {
+      operations.push({ type: 'updateNode', ...nodeRef, updates });
+    }
+  }
+
+  for (const rename of diff.renamedNodes) {
+    if (handled.has(rename.id ?? rename.to)) continue;
+    operations.push({
+      type: 'updateNode',
+      ...(rename.id ? { nodeId: rename.id } : { nodeName: rename.from }),
+      updates: { name: rename.to }
+    });
+  }
+
+  for (const summary of diff.addedNodes) {
+    const node = afterNodes.find(n => (summary.id ? n.id === summary.id : n.name === summary.name));
+    if (node) {
+      operations.push({ type: 'addNode', node: JSON.parse(JSON.stringify(node)) });
+    }
+  }
+
+  if (needsReplace) {
+    operations.push({ type: 'replaceConnections', connections: JSON.parse(JSON.stringify(after?.connections || {})) });
+  } else {
+    for (const conn of diff.addedConnections) {
+      operations.push({
+        type: 'addConnection',
+        source: conn.source,
+        target: conn.target,
+        sourceOutput: conn.sourceOutput,
+        targetInput: conn.targetInput,
+        sourceIndex: conn.sourceIndex,
+        targetIndex: conn.targetIndex
+      });
+    }
+  }
+
+  // updateSettings merges, so removed keys need a full replacement
+  const removesSettingsKey = diff.settingsChanges.some(change => change.kind === 'removed' && !change.path.includes('.'));
+  if (removesSettingsKey) {
+    operations.push({ type: 'updateSettings', settings: JSON.parse(JSON.stringify(after?.settings || {})), replace: true });
+  } else if (diff.settingsChanges.length > 0) {
+    const settings: Record<string, unknown> = {};
+    const topLevelKeys = new Set(diff.settingsChanges.map(change => change.path.split('.')[0]));
+    for (const key of topLevelKeys) {
+      settings[key] = after?.settings?.[key];
+    }
+    operations.push({ type: 'updateSettings', settings });
+  }
+
+  if (diff.nameChange) {
+    operations.push({ type: 'updateName', name: diff.nameChange.after });
+  }
+
+  return operations;
+}
@@ -0,0 +1,1384 @@
+/**
+ * Offline Workflow Simulator
+ *
+ * Dry-runs a workflow JSON locally against supplied input items, without an
+ * n8n instance. Expressions are evaluated and the logic nodes (IF, Switch,
+ * Filter, Merge, Set, SplitInBatches, Aggregate, Sort, Limit and JavaScript
+ * Code) are executed. Every other node is stubbed: it outputs its fixture, its
+ * pinned data, or passes its input through. The result holds the items of
+ * every node run and the branches taken, so routing logic can be tested in CI.
+ *
+ * Expressions and Code nodes run in V8 contexts with a timeout that no object
+ * of the server crosses - see simulation-sandbox.ts.
+ */
+
+import { NodeTypeNormalizer } from '../utils/node-type-normalizer';
+import { isNonExecutableNode, isTriggerNode } from '../utils/node-classification';
+import { isHttpMode } from '../utils/server-mode';
+import { parseExpressionTemplate } from './expression-parser';
+import { SandboxError, SandboxScope, SimulationSandbox } from './simulation-sandbox';
+
+export type SimulatedJson = Record<string, unknown>;
+
+export interface SimulationOptions {
+  /** Node to start from. Defaults to the workflow's trigger */
+  startNode?: string;
+  /**
+   * Items output by the start node, or received by it if it is not a trigger.
+   * Plain objects or { json } items. Defaults to one empty item.
+   */
+  inputItems?: unknown[];
+  /**
+   * Output of stubbed nodes by node name. A list of items is used as output 0,
+   * a list of item lists sets each output.
+   */
+  fixtures?: Record<string, unknown[]>;
+  /** Values of $env */
+  env?: Record<string, string>;
+  /** Values of $vars */
+  variables?: Record<string, string>;
+  /** Maximum number of node runs before the simulation stops (default 1000) */
+  maxNodeRuns?: number;
+  /** Timeout of each expression and Code node run in ms (default 1000) */
+  timeoutMs?: number;
+}
+
+export interface SimulatedNodeRun {
+  /** Number of items received on each input */
+  inputItemCounts: number[];
+  /** Items on each output, e.g. [true, false] for IF */
+  outputs: SimulatedJson[][];
+}
+
+export interface SimulatedNode {
+  nodeType: string;
+  runs: SimulatedNodeRun[];
+  /** How the output of a node that was not executed was produced */
+  stubbed?: 'fixture' | 'pinData' | 'passthrough';
+  /** console output of Code nodes */
+  logs?: string[];
+  error?: string;
+}
+
+export interface SimulatedBranch {
+  node: string;
+  /** Zero-based run of the node */
+  run: number;
+  output: number;
+  /** "true"/"false" for IF, the output key for Switch, "done"/"loop" for SplitInBatches, "error" for error outputs */
+  label: string;
+  itemCount: number;
+}
+
+export interface SimulationResult {
+  success: boolean;
+  startNode?: string;
+  /** Node runs in execution order - nodes in loops appear once per run */
+  executionOrder: string[];
+  /** Outputs of multi-output nodes that emitted items, in execution order */
+  branches: SimulatedBranch[];
+  nodes: Record<string, SimulatedNode>;
+  /** Nodes that never received items */
+  notExecuted: string[];
+  warnings: string[];
+  error?: { node: string; message: string };
+}
+
+interface Item {
+  json: SimulatedJson;
+  /** Items this item derives from by producing node, including itself */
+  lineage: Record<string, Item>;
+}
+
+interface NodeRun {
+  node: any;
+  /** Items on input 0 */
+  items: Item[];
+  runIndex: number;
+}
+
+interface QueueEntry {
+  node: any;
+  inputs: Item[][];
+}
+
+class SimulationError extends Error {}
+
+const DEFAULT_MAX_NODE_RUNS = 1000;
+const DEFAULT_TIMEOUT_MS = 1000;
+
+// Nodes that output their input unchanged
+const PASSTHROUGH_NODES = new Set([
+  'nodes-base.noOp',
+  'nodes-base.wait',
+  'nodes-base.respondToWebhook'
+]);
+
+// IF v1 and Switch v1/v2 operation names in filter terms
+const LEGACY_OPERATIONS: Record<string, string> = {
+  equal: 'equals',
+  notEqual: 'notEquals',
+  smaller: 'lt',
+  smallerEqual: 'lte',
+  larger: 'gt',
+  largerEqual: 'gte',
+  isEmpty: 'empty',
+  isNotEmpty: 'notEmpty'
+};
+
+export const SIMULATION_DISABLED_MESSAGE =
+  'Workflow simulation runs workflow code on this server and is disabled in HTTP mode. Set ENABLE_HTTP_SIMULATION=true to enable it.';
+
+/**
+ * Whether workflow code may be simulated in this deployment. The sandbox keeps
+ * the code away from the server, but a V8 context cannot cap its memory, so
+ * shared HTTP deployments have to opt in.
+ */
+export function isSimulationEnabled(): boolean {
+  return !isHttpMode() || process.env.ENABLE_HTTP_SIMULATION === 'true';
+}
+
+/**
+ * Simulate a workflow run. Never throws for problems in the workflow - they
+ * are reported in the result.
+ */
+export function simulateWorkflow(workflow: any, options: SimulationOptions = {}): SimulationResult {
+  return new WorkflowSimulation(workflow, options).run();
+}
+
+class WorkflowSimulation {
+  private readonly nodesByName = new Map<string, any>();
+  private readonly runOutputs = new Map<string, Item[][][]>();
+  private readonly loopState = new Map<string, { pending: Item[]; processed: Item[]; done: boolean }>();
+  private readonly itemIds = new WeakMap<Item, number>();
+  private nextItemId = 0;
+  private readonly expressionSandbox: SimulationSandbox;
+  private readonly timeoutMs: number;
+  // Bumped on every recorded node run, so the sandbox scope is reloaded
+  private outputsVersion = 0;
+  private loadedScope?: { run: NodeRun; version: number };
+  private readonly result: SimulationResult = {
+    success: true,
+    executionOrder: [],
+    branches: [],
+    nodes: {},
+    notExecuted: [],
+    warnings: []
+  };
+
+  constructor(private readonly workflow: any, private readonly options: SimulationOptions) {
+    for (const node of Array.isArray(workflow?.nodes) ? workflow.nodes : []) {
+      if (node && typeof node.name === 'string' && !isNonExecutableNode(node.type)) {
+        this.nodesByName.set(node.name, node);
+      }
+    }
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    this.expressionSandbox = new SimulationSandbox(this.timeoutMs);
+  }
+
+  run(): SimulationResult {
+    try {
+      const start = this.startNode();
+      if (!start) {
+        throw new SimulationError('Workflow has no nodes to simulate');
+      }
+      this.result.startNode = start.name;
+      const input = toItems(this.options.inputItems ?? [{}], 'inputItems');
+      this.execute(start, [input]);
+    } catch (error) {
+      if (!(error instanceof SimulationError)) throw error;
+      this.result.success = false;
+      this.result.error = { node: 'workflow', message: error.message };
+    }
+
+    this.result.notExecuted = Array.from(this.nodesByName.keys()).filter(name => !this.runOutputs.has(name));
+    return this.result;
+  }
+
+  private startNode(): any | undefined {
+    if (this.options.startNode) {
+      const node = this.nodesByName.get(this.options.startNode);
+      if (!node) throw new SimulationError(`Start node "${this.options.startNode}" not found in workflow`);
+      return node;
+    }
+
+    const nodes = Array.from(this.nodesByName.values()).filter(node => !node.disabled);
+    const triggers = nodes.filter(node => isTriggerNode(node.type));
+    const targets = new Set<string>();
+    for (const outputs of Object.values<any>(this.workflow?.connections ?? {})) {
+      for (const targetsOfOutput of outputs?.main ?? []) {
+        for (const target of targetsOfOutput ?? []) targets.add(target?.node);
+      }
+    }
+    const candidates = triggers.length > 0 ? triggers : nodes.filter(node => !targets.has(node.name));
+    if (candidates.length > 1) {
+      this.result.warnings.push(
+        `Workflow has ${candidates.length} possible start nodes - simulating from "${candidates[0].name}". Set startNode to choose another one.`
+      );
+    }
+    return candidates[0];
+  }
+
+  private execute(start: any, inputs: Item[][]): void {
+    const queue: QueueEntry[] = [{ node: start, inputs }];
+    const waiting = new Map<string, Item[][]>();
+    const maxRuns = this.options.maxNodeRuns ?? DEFAULT_MAX_NODE_RUNS;
+    let runs = 0;
+
+    while (queue.length > 0 || waiting.size > 0) {
+      if (queue.length === 0) {
+        // Inputs that will never arrive: run multi-input nodes with what they have
+        const [name, collected] = waiting.entries().next().value as [string, Item[][]];
+        waiting.delete(name);
+        queue.push({ node: this.nodesByName.get(name), inputs: Array.from(collected, items => items ?? []) });
+      }
+
+      const entry = queue.shift()!;
+      if (++runs > maxRuns) {
+        this.fail(entry.node.name, `Stopped after ${maxRuns} node runs - the workflow may loop forever`);
+        return;
+      }
+      const outputs = this.executeNode(entry.node, entry.inputs, entry.node === start);
+      if (!outputs) return;
+      queue.unshift(...this.route(entry.node, outputs, waiting));
+    }
+  }
+
+  /**
+   * Run a node and record its outputs. Returns undefined if it failed and the
+   * simulation has to stop.
+   */
+  private executeNode(node: any, inputs: Item[][], isStart: boolean): Item[][] | undefined {
+    const record = this.nodeRecord(node);
+    const runIndex = record.runs.length;
+    const inputItemCounts = isStart && isTriggerNode(node.type) ? [] : inputs.map(items => items.length);
+    this.result.executionOrder.push(node.name);
+
+    let outputs: Item[][];
+    try {
+      outputs = this.nodeOutputs(node, inputs, runIndex);
+    } catch (error) {
+      const message = errorMessage(error);
+      record.error = message;
+      const input = inputs[0] ?? [];
+      if (node.onError === 'continueRegularOutput') {
+        outputs = [input.map(item => derive(item, { error: message }))];
+      } else if (node.onError === 'continueErrorOutput') {
+        outputs = Array.from({ length: outputCount(node) }, () => [] as Item[]);
+        outputs.push(input.map(item => derive(item, { ...item.json, error: message })));
+      } else {
+        record.runs.push({ inputItemCounts, outputs: [] });
+        this.fail(node.name, message);
+        return undefined;
+      }
+    }
+
+    if (node.alwaysOutputData && outputs.every(items => items.length === 0)) {
+      outputs[0] = [{ json: {}, lineage: inputs[0]?.[0]?.lineage ?? {} }];
+    }
+
+    outputs = outputs.map(items => items.map(item => {
+      const output: Item = { json: cloneJson(item.json), lineage: { ...item.lineage } };
+      output.lineage[node.name] = output;
+      return output;
+    }));
+
+    const runs = this.runOutputs.get(node.name) ?? [];
+    runs.push(outputs);
+    this.runOutputs.set(node.name, runs);
+    this.outputsVersion++;
+    record.runs.push({ inputItemCounts, outputs: outputs.map(items => items.map(item => cloneJson(item.json))) });
+
+    if (outputs.length > 1) {
+      outputs.forEach((items, output) => {
+        if (items.length === 0) return;
+        this.result.branches.push({ node: node.name, run: runIndex, output, label: outputLabel(node, output), itemCount: items.length });
+      });
+    }
+    return outputs;
+  }
+
+  private fail(nodeName: string, message: string): void {
+    this.result.success = false;
+    this.result.error = { node: nodeName, message };
+  }
+
+  private nodeRecord(node: any): SimulatedNode {
+    if (!this.result.nodes[node.name]) {
+      this.result.nodes[node.name] = { nodeType: node.type, runs: [] };
+    }
+    return this.result.nodes[node.name];
+  }
+
+  /**
+   * Queue entries for the nodes connected to the outputs. Nodes with several
+   * connected inputs (Merge) wait until every input has data.
+   */
+  private route(node: any, outputs: Item[][], waiting: Map<string, Item[][]>): QueueEntry[] {
+    const next: QueueEntry[] = [];
+    const connections = this.workflow?.connections?.[node.name]?.main ?? [];
+
+    outputs.forEach((items, output) => {
+      if (items.length === 0) return;
+      for (const target of connections[output] ?? []) {
+        const targetNode = this.nodesByName.get(target?.node);
+        if (!targetNode) continue;
+        const index = typeof target.index === 'number' ? target.index : 0;
+        const connectedInputs = this.connectedInputs(targetNode.name);
+
+        if (connectedInputs.length <= 1) {
+          next.push({ node: targetNode, inputs: Array.from({ length: index + 1 }, (_, i) => (i === index ? items : [])) });
+          continue;
+        }
+
+        const collected = waiting.get(targetNode.name) ?? [];
+        collected[index] = [...(collected[index] ?? []), ...items];
+        if (connectedInputs.every(i => collected[i] !== undefined)) {
+          waiting.delete(targetNode.name);
+          next.push({ node: targetNode, inputs: Array.from(collected, list => list ?? []) });
+        } else {
+          waiting.set(targetNode.name, collected);
+        }
+      }
+    });
+    return next;
+  }
+
+  private connectedInputs(nodeName: string): number[] {
+    const inputs = new Set<number>();
+    for (const outputs of Object.values<any>(this.workflow?.connections ?? {})) {
+      for (const targets of outputs?.main ?? []) {
+        for (const target of targets ?? []) {
+          if (target?.node === nodeName) inputs.add(typeof target.index === 'number' ? target.index : 0);
+        }
+      }
+    }
+    return Array.from(inputs);
+  }
+
+  private nodeOutputs(node: any, inputs: Item[][], runIndex: number): Item[][] {
+    const record = this.nodeRecord(node);
+    const input = inputs[0] ?? [];
+
+    const fixture = this.options.fixtures?.[node.name];
+    if (fixture !== undefined) {
+      record.stubbed = 'fixture';
+      return fixtureOutputs(fixture, `fixtures["${node.name}"]`, input);
+    }
+    const pinned = this.workflow?.pinData?.[node.name];
+    if (Array.isArray(pinned)) {
+      record.stubbed = 'pinData';
+      return [toItems(pinned, `pinData["${node.name}"]`)];
+    }
+    if (node.disabled || isTriggerNode(node.type)) {
+      return [input];
+    }
+
+    const run: NodeRun = { node, items: input, runIndex };
+    const type = NodeTypeNormalizer.normalizeToFullForm(node.type);
+    switch (type) {
+      case 'nodes-base.if':
+        return this.runIf(run);
+      case 'nodes-base.filter':
+        return this.runFilter(run);
+      case 'nodes-base.switch':
+        return this.runSwitch(run);
+      case 'nodes-base.merge':
+        return this.runMerge(run, inputs);
+      case 'nodes-base.set':
+        return [input.map((item, i) => derive(item, this.setItem(run, item, i)))];
+      case 'nodes-base.splitInBatches':
+        return this.runSplitInBatches(run);
+      case 'nodes-base.aggregate':
+        return this.runAggregate(run);
+      case 'nodes-base.sort':
+        return this.runSort(run);
+      case 'nodes-base.limit':
+        return this.runLimit(run);
+      case 'nodes-base.code':
+        if ((node.parameters?.language ?? 'javaScript') === 'javaScript') {
+          return this.runCode(run);
+        }
+        break;
+      case 'nodes-base.stopAndError':
+        throw new SimulationError(this.stopAndErrorMessage(run));
+      default:
+        if (PASSTHROUGH_NODES.has(type)) return [input];
+    }
+
+    record.stubbed = 'passthrough';
+    this.result.warnings.push(
+      `Node "${node.name}" (${node.type}) is not simulated - passing its input through. Provide fixtures["${node.name}"] to stub its output.`
+    );
+    return [input];
+  }
+
+  // ---------------------------------------------------------------------------
+  // Expressions
+  // ---------------------------------------------------------------------------
+
+  /**
+   * A node parameter evaluated for one item, or the fallback if it is not set
+   */
+  private nodeParameter(run: NodeRun, path: string, itemIndex: number, fallback?: unknown): any {
+    const raw = getPath(run.node.parameters ?? {}, path.split('.'));
+    if (raw === undefined) return fallback;
+    return this.resolveParameter(raw, run, itemIndex);
+  }
+
+  /**
+   * Evaluate a parameter value. Strings starting with "=" are expressions,
+   * objects and arrays are evaluated recursively.
+   */
+  private resolveParameter(value: unknown, run: NodeRun, itemIndex: number): unknown {
+    if (typeof value === 'string') {
+      return value.startsWith('=') ? this.evaluateTemplate(value.slice(1), run, itemIndex) : value;
+    }
+    if (Array.isArray(value)) {
+      return value.map(child => this.resolveParameter(child, run, itemIndex));
+    }
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, child]) => [key, this.resolveParameter(child, run, itemIndex)])
+      );
+    }
+    return value;
+  }
+
+  private evaluateTemplate(template: string, run: NodeRun, itemIndex: number): unknown {
+    const parsed = parseExpressionTemplate(template);
+    const bracketError = parsed.errors.find(e => e.code !== 'syntax');
+    if (bracketError) {
+      throw new SimulationError(`Invalid expression "=${template}": ${bracketError.message}`);
+    }
+
+    const { segments } = parsed;
+    if (segments.length === 1 && segments[0].kind === 'expression') {
+      return this.evaluateExpression(segments[0].value, run, itemIndex);
+    }
+    return segments.map(segment => {
+      if (segment.kind === 'text') return segment.value;
+      const value = this.evaluateExpression(segment.value, run, itemIndex);
+      if (value === undefined || value === null) return '';
+      return typeof value === 'object' ? JSON.stringify(value) : String(value);
+    }).join('');
+  }
+
+  private evaluateExpression(code: string, run: NodeRun, itemIndex: number): unknown {
+    try {
+      if (this.loadedScope?.run !== run || this.loadedScope.version !== this.outputsVersion) {
+        this.loadScope(this.expressionSandbox, run);
+        this.loadedScope = { run, version: this.outputsVersion };
+      }
+      return this.expressionSandbox.evaluate(code, itemIndex);
+    } catch (error) {
+      if (error instanceof SandboxError && error.fromRuntime) throw new SimulationError(error.message);
+      throw new SimulationError(`Expression {{${code}}} failed for item ${itemIndex}: ${errorMessage(error)}`);
+    }
+  }
+
+  /**
+   * Send what expressions and Code nodes of a run can see to a sandbox
+   */
+  private loadScope(sandbox: SimulationSandbox, run: NodeRun): void {
+    const itemJson = new Map<number, unknown>();
+    const id = (item: Item): number => {
+      let itemId = this.itemIds.get(item);
+      if (itemId === undefined) {
+        itemId = this.nextItemId++;
+        this.itemIds.set(item, itemId);
+      }
+      itemJson.set(itemId, item.json);
+      return itemId;
+    };
+
+    const nodes: SandboxScope['nodes'] = {};
+    for (const [name, node] of this.nodesByName) {
+      nodes[name] = { parameters: node.parameters ?? {}, outputLeadingTo: this.outputLeadingTo(name, run.node.name) };
+    }
+    const outputs: SandboxScope['outputs'] = {};
+    for (const [name, runs] of this.runOutputs) {
+      outputs[name] = runs.map(runOutputs => runOutputs.map(items => items.map(id)));
+    }
+
+    sandbox.load({
+      node: run.node.name,
+      parameters: run.node.parameters ?? {},
+      runIndex: run.runIndex,
+      items: run.items.map(id),
+      lineage: run.items.map(item => Object.fromEntries(
+        Object.entries(item.lineage).map(([name, paired]) => [name, id(paired)])
+      )),
+      nodes,
+      outputs,
+      workflow: { id: this.workflow?.id, name: this.workflow?.name, active: this.workflow?.active === true },
+      env: this.options.env ?? {},
+      variables: this.options.variables ?? {}
+    }, itemJson);
+  }
+
+  /**
+   * Output of a node that connects directly to the target, 0 if none does
+   */
+  private outputLeadingTo(source: string, target: string): number {
+    const outputs: any[] = this.workflow?.connections?.[source]?.main ?? [];
+    const index = outputs.findIndex(targets => (targets ?? []).some((t: any) => t?.node === target));
+    return Math.max(index, 0);
+  }
+
+  // ---------------------------------------------------------------------------
+  // Nodes
+  // ---------------------------------------------------------------------------
+
+  private runIf(run: NodeRun): Item[][] {
+    const version = run.node.typeVersion ?? 1;
+    const trueItems: Item[] = [];
+    const falseItems: Item[] = [];
+    run.items.forEach((item, i) => {
+      const matches = version >= 2 ? this.filterParameter(run, 'conditions', i) : this.legacyConditions(run, i);
+      (matches ? trueItems : falseItems).push(item);
+    });
+    return [trueItems, falseItems];
+  }
+
+  private runFilter(run: NodeRun): Item[][] {
+    const version = run.node.typeVersion ?? 1;
+    return [run.items.filter((_, i) => (version >= 2 ? this.filterParameter(run, 'conditions', i) : this.legacyConditions(run, i)))];
+  }
+
+  private runSwitch(run: NodeRun): Item[][] {
+    const { node, items } = run;
+    const params = node.parameters ?? {};
+    const version = node.typeVersion ?? 1;
+    const outputs: Item[][] = Array.from({ length: outputCount(node) }, () => []);
+
+    items.forEach((item, i) => {
+      if ((params.mode ?? 'rules') === 'expression') {
+        const output = Number(this.nodeParameter(run, 'output', i));
+        if (!Number.isInteger(output) || output < 0 || output >= outputs.length) {
+          throw new SimulationError(`The output ${output} is not allowed - it has to be between 0 and ${outputs.length - 1}`);
+        }
+        outputs[output].push(item);
+        return;
+      }
+
+      const matched: number[] = [];
+      let fallback: unknown;
+      if (version >= 3) {
+        const rules: any[] = this.nodeParameter(run, 'rules.values', i, []);
+        const options = this.nodeParameter(run, 'options', i, {});
+        for (let r = 0; r < rules.length && (matched.length === 0 || options.allMatchingOutputs); r++) {
+          if (filterMatches(rules[r]?.conditions, { ignoreCase: options.ignoreCase === true, loose: this.isLoose(run.node, options) })) {
+            matched.push(r);
+          }
+        }
+        fallback = options.fallbackOutput === 'extra' ? rules.length : options.fallbackOutput;
+      } else {
+        const type = params.dataType ?? 'number';
+        const value1 = this.nodeParameter(run, 'value1', i);
+        const rules: any[] = this.nodeParameter(run, 'rules.rules', i, []);
+        for (const rule of rules) {
+          const operation = LEGACY_OPERATIONS[rule?.operation] ?? rule?.operation ?? 'equals';
+          if (conditionMatches({ leftValue: value1, rightValue: rule?.value2, operator: { type, operation } }, true, true)) {
+            matched.push(Number(rule?.output ?? 0));
+            break;
+          }
+        }
+        fallback = this.nodeParameter(run, 'fallbackOutput', i, -1);
+      }
+
+      if (matched.length === 0 && typeof fallback === 'number' && fallback >= 0 && fallback < outputs.length) {
+        matched.push(fallback);
+      }
+      for (const output of matched) outputs[output]?.push(item);
+    });
+    return outputs;
+  }
+
+  private filterParameter(run: NodeRun, path: string, itemIndex: number): boolean {
+    const filter = this.nodeParameter(run, path, itemIndex, {});
+    const options = this.nodeParameter(run, 'options', itemIndex, {});
+    return filterMatches(filter, { ignoreCase: options?.ignoreCase === true, loose: this.isLoose(run.node, options) });
+  }
+
+  private isLoose(node: any, options: any): boolean {
+    return node.parameters?.looseTypeValidation === true || options?.looseTypeValidation === true;
+  }
+
+  /**
+   * IF and Filter v1 conditions: { string: [{ value1, operation, value2 }], number: [...], ... }
+   */
+  private legacyConditions(run: NodeRun, itemIndex: number): boolean {
+    const conditions = this.nodeParameter(run, 'conditions', itemIndex, {});
+    const results: boolean[] = [];
+    for (const type of ['string', 'number', 'boolean', 'dateTime']) {
+      for (const condition of Array.isArray(conditions?.[type]) ? conditions[type] : []) {
+        const operation = LEGACY_OPERATIONS[condition?.operation] ?? condition?.operation ?? 'equals';
+        results.push(conditionMatches({ leftValue: condition?.value1, rightValue: condition?.value2, operator: { type, operation } }, true, true));
+      }
+    }
+    return this.nodeParameter(run, 'combineOperation', itemIndex, 'all') === 'any'
+      ? results.some(Boolean)
+      : results.every(Boolean);
+  }
+
+  private runMerge(run: NodeRun, inputs: Item[][]): Item[][] {
+    const version = run.node.typeVersion ?? 1;
+    const value = (path: string, fallback?: unknown) => this.nodeParameter(run, path, 0, fallback);
+    const input1 = inputs[0] ?? [];
+    const input2 = inputs[1] ?? [];
+    const options = value('options', {});
+    const preferInput1 = options?.clashHandling?.values?.resolveClash === 'preferInput1';
+    const merge = (a: Item, b: Item): Item => ({
+      json: preferInput1 ? deepMerge(b.json, a.json) : deepMerge(a.json, b.json),
+      lineage: { ...b.lineage, ...a.lineage }
+    });
+
+    const mode = value('mode', 'append');
+    switch (mode) {
+      case 'append':
+      case 'wait':
+        return [inputs.flatMap(items => items ?? [])];
+      case 'chooseBranch':
+      case 'passThrough': {
+        if (version >= 3) {
+          if (value('output', 'specifiedInput') === 'empty') return [[{ json: {}, lineage: {} }]];
+          return [inputs[Number(value('useDataOfInput', 1)) - 1] ?? []];
+        }
+        const output = value('output', 'input1');
+        if (output === 'empty') return [[{ json: {}, lineage: {} }]];
+        return [output === 'input2' ? input2 : input1];
+      }
+      case 'mergeByIndex':
+        return [mergeByPosition(input1, input2, merge, value('join', 'inner') !== 'inner')];
+      case 'multiplex':
+        return [input1.flatMap(a => input2.map(b => merge(a, b)))];
+      case 'mergeByKey':
+      case 'keepKeyMatches':
+      case 'removeKeyMatches': {
+        const pairs = [{ field1: value('propertyName1', ''), field2: value('propertyName2', '') }];
+        const joinMode = mode === 'mergeByKey' ? 'enrichInput1' : mode === 'keepKeyMatches' ? 'keepMatches' : 'keepNonMatches';
+        return [mergeByFields(input1, input2, pairs, joinMode, mode === 'mergeByKey' ? 'both' : 'input1', options, merge)];
+      }
+      case 'combine': {
+        const combineBy = version >= 3 ? value('combineBy', 'combineByFields') : value('combinationMode', 'mergeByFields');
+        if (combineBy === 'combineByPosition' || combineBy === 'mergeByPosition') {
+          return [mergeByPosition(input1, input2, merge, options?.includeUnpaired === true)];
+        }
+        if (combineBy === 'combineAll' || combineBy === 'multiplex') {
+          return [input1.flatMap(a => input2.map(b => merge(a, b)))];
+        }
+        const matchString = value('fieldsToMatchString');
+        const pairs = typeof matchString === 'string'
+          ? splitList(matchString).map(field => ({ field1: field, field2: field }))
+          : value('mergeByFields.values', []);
+        return [mergeByFields(input1, input2, pairs, value('joinMode', 'keepMatches'), value('outputDataFrom', 'both'), options, merge)];
+      }
+      default:
+        this.result.warnings.push(`Merge mode "${mode}" of "${run.node.name}" is not simulated - appending its inputs`);
+        return [inputs.flatMap(items => items ?? [])];
+    }
+  }
+
+  /**
+   * Output json of a Set (Edit Fields) node for one item
+   */
+  private setItem(run: NodeRun, item: Item, itemIndex: number): SimulatedJson {
+    const params = run.node.parameters ?? {};
+    const version = run.node.typeVersion ?? 1;
+    const options = this.nodeParameter(run, 'options', itemIndex, {});
+    const dotNotation = options?.dotNotation !== false;
+
+    let include: string;
+    if (version >= 3.3) {
+      include = params.includeOtherFields === true ? this.nodeParameter(run, 'include', itemIndex, 'all') : 'none';
+    } else if (version >= 3) {
+      include = this.nodeParameter(run, 'include', itemIndex, 'none');
+    } else {
+      include = params.keepOnlySet === true ? 'none' : 'all';
+    }
+
+    let json: SimulatedJson;
+    if (include === 'all') {
+      json = cloneJson(item.json);
+    } else if (include === 'selected' || include === 'except') {
+      const listed = splitList(this.nodeParameter(run, include === 'selected' ? 'includeFields' : 'excludeFields', itemIndex, ''));
+      json = Object.fromEntries(Object.entries(cloneJson(item.json)).filter(([key]) => listed.includes(key) === (include === 'selected')));
+    } else {
+      json = {};
+    }
+
+    if (params.mode === 'raw') {
+      let raw = this.nodeParameter(run, 'jsonOutput', itemIndex, '{}');
+      if (typeof raw === 'string') {
+        try {
+          raw = JSON.parse(raw);
+        } catch (error) {
+          throw new SimulationError(`JSON parameter needs to be valid JSON: ${errorMessage(error)}`);
+        }
+      }
+      if (!isPlainObject(raw)) throw new SimulationError('JSON parameter needs to be an object');
+      return { ...json, ...cloneJson(raw) };
+    }
+
+    const assignments: Array<{ name: unknown; value: unknown; type: string }> = [];
+    if (version >= 3) {
+      for (const a of this.nodeParameter(run, 'assignments.assignments', itemIndex, [])) {
+        assignments.push({ name: a?.name, value: a?.value, type: a?.type ?? 'string' });
+      }
+      for (const f of this.nodeParameter(run, 'fields.values', itemIndex, [])) {
+        const type = f?.type ?? 'stringValue';
+        assignments.push({ name: f?.name, value: f?.[type], type });
+      }
+    } else {
+      for (const [type, values] of Object.entries<any>(this.nodeParameter(run, 'values', itemIndex, {}))) {
+        for (const v of Array.isArray(values) ? values : []) {
+          assignments.push({ name: v?.name, value: v?.value, type });
+        }
+      }
+    }
+
+    for (const a of assignments) {
+      if (typeof a.name !== 'string' || a.name === '') continue;
+      const value = convertValue(a.value, a.type, a.name, options?.ignoreConversionErrors === true);
+      if (dotNotation) {
+        setPath(json, fieldPath(a.name), value);
+      } else {
+        json[a.name] = value;
+      }
+    }
+    return json;
+  }
+
+  private runSplitInBatches(run: NodeRun): Item[][] {
+    const { node, items } = run;
+    const version = node.typeVersion ?? 1;
+    const batchSize = Math.max(1, Number(this.nodeParameter(run, 'batchSize', 0, version >= 3 ? 1 : 10)) || 1);
+    const reset = this.nodeParameter(run, 'options.reset', 0, false) === true;
+
+    let state = this.loopState.get(node.name);
+    if (!state || state.done || reset) {
+      state = { pending: [...items], processed: [], done: false };
+      this.loopState.set(node.name, state);
+    } else {
+      // Items returned by the loop
+      state.processed.push(...items);
+    }
+
+    const batch = state.pending.splice(0, batchSize);
+    if (version < 3) {
+      state.done = batch.length === 0;
+      return [batch];
+    }
+    if (batch.length > 0) {
+      return [[], batch];
+    }
+    state.done = true;
+    return [state.processed, []];
+  }
+
+  private runAggregate(run: NodeRun): Item[][] {
+    const { items } = run;
+    const options = this.nodeParameter(run, 'options', 0, {});
+    const lineage = items[0]?.lineage ?? {};
+
+    if (this.nodeParameter(run, 'aggregate', 0, 'aggregateIndividualFields') === 'aggregateAllItemData') {
+      const destination = this.nodeParameter(run, 'destinationFieldName', 0, 'data');
+      const include = this.nodeParameter(run, 'include', 0, 'allFields');
+      const listed = splitList(this.nodeParameter(run, include === 'specifiedFields' ? 'fieldsToInclude' : 'fieldsToExclude', 0, ''));
+      const data = items.map(item => include === 'allFields'
+        ? item.json
+        : Object.fromEntries(Object.entries(item.json).filter(([key]) => listed.includes(key) === (include === 'specifiedFields'))));
+      return [[{ json: { [destination]: data }, lineage }]];
+    }
+
+    const json: SimulatedJson = {};
+    for (const field of this.nodeParameter(run, 'fieldsToAggregate.fieldToAggregate', 0, [])) {
+      const name = field?.fieldToAggregate;
+      if (typeof name !== 'string' || name === '') continue;
+      const path = options?.disableDotNotation ? [name] : fieldPath(name);
+      let values = items.map(item => getPath(item.json, path));
+      if (options?.keepMissing !== true) values = values.filter(v => v !== undefined && v !== null);
+      if (options?.mergeLists === true) values = values.flatMap(v => (Array.isArray(v) ? v : [v]));
+      json[field.renameField && field.outputFieldName ? field.outputFieldName : name] = values;
+    }
+    return [[{ json, lineage }]];
+  }
+
+  private runSort(run: NodeRun): Item[][] {
+    const { node, items } = run;
+    const type = this.nodeParameter(run, 'type', 0, 'simple');
+
+    if (type === 'random') {
+      this.result.warnings.push(`Sort node "${node.name}" sorts randomly - the simulation keeps the input order`);
+      return [items];
+    }
+    if (type === 'code') {
+      const code = this.nodeParameter(run, 'code', 0, '');
+      let order: number[];
+      try {
+        const sandbox = new SimulationSandbox(this.timeoutMs);
+        this.loadScope(sandbox, run);
+        order = sandbox.sortOrder(String(code));
+      } catch (error) {
+        throw new SimulationError(errorMessage(error));
+      }
+      return [order.map(i => items[i])];
+    }
+
+    const options = this.nodeParameter(run, 'options', 0, {});
+    const fields: any[] = this.nodeParameter(run, 'sortFieldsUi.sortField', 0, []);
+    const sorted = [...items].sort((a, b) => {
+      for (const field of fields) {
+        const path = options?.disableDotNotation ? [field?.fieldName] : fieldPath(String(field?.fieldName ?? ''));
+        const result = compareValues(getPath(a.json, path), getPath(b.json, path));
+        if (result !== 0) return field?.order === 'descending' ? -result : result;
+      }
+      return 0;
+    });
+    return [sorted];
+  }
+
+  private runLimit(run: NodeRun): Item[][] {
+    const maxItems = Number(this.nodeParameter(run, 'maxItems', 0, 1));
+    if (!(maxItems > 0)) return [[]];
+    const keepLast = this.nodeParameter(run, 'keep', 0, 'firstItems') === 'lastItems';
+    return [keepLast ? run.items.slice(-maxItems) : run.items.slice(0, maxItems)];
+  }
+
+  private runCode(run: NodeRun): Item[][] {
+    const { node, items } = run;
+    const code: string = node.parameters?.jsCode ?? '';
+
+    if ((node.parameters?.mode ?? 'runOnceForAllItems') === 'runOnceForEachItem') {
+      const output: Item[] = [];
+      items.forEach((_, i) => {
+        const value = this.runCodeOnce(run, code, i, true);
+        if (value === undefined || value === null) return;
+        if (Array.isArray(value)) {
+          throw new SimulationError(`Code doesn't return a single object for item ${i} - in "Run Once for Each Item" mode return an object, not an array`);
+        }
+        output.push(...codeItems([value], [items[i]]));
+      });
+      return [output];
+    }
+
+    const value = this.runCodeOnce(run, code, 0, false);
+    if (value === undefined || value === null) {
+      throw new SimulationError(`Code doesn't return items properly - return an array of objects, e.g. [{ json: { ... } }]`);
+    }
+    return [codeItems(Array.isArray(value) ? value : [value], items)];
+  }
+
+  /**
+   * Run Code node code in a fresh sandbox. Promises are settled before this
+   * returns because the sandbox has no timers.
+   */
+  private runCodeOnce(run: NodeRun, code: string, itemIndex: number, eachItem: boolean): unknown {
+    const record = this.nodeRecord(run.node);
+    const sandbox = new SimulationSandbox(this.timeoutMs);
+    let outcome;
+    try {
+      this.loadScope(sandbox, run);
+      outcome = sandbox.runCode(code, itemIndex, eachItem);
+    } catch (error) {
+      throw new SimulationError(errorMessage(error));
+    }
+
+    if (outcome.logs.length > 0) {
+      record.logs = [...(record.logs ?? []), ...outcome.logs];
+    }
+    if (outcome.error !== undefined) {
+      throw new SimulationError(outcome.error);
+    }
+    if (!outcome.settled) {
+      throw new SimulationError('Code awaits something that never settles - the simulator has no timers or network access');
+    }
+    return outcome.value;
+  }
+
+  private stopAndErrorMessage(run: NodeRun): string {
+    if (this.nodeParameter(run, 'errorType', 0, 'errorMessage') === 'errorObject') {
+      const error = this.nodeParameter(run, 'errorObject', 0, '{}');
+      return typeof error === 'string' ? error : JSON.stringify(error);
+    }
+    return String(this.nodeParameter(run, 'errorMessage', 0, 'Workflow stopped'));
+  }
+}
+
+/**
+ * Labels of a node's outputs as used in branches: "true"/"false" for IF, the
+ * output key for Switch, "done"/"loop" for SplitInBatches and "error" for the
+ * error output
+ */
+export function getOutputLabels(node: any): string[] {
+  const labels = Array.from({ length: outputCount(node) }, (_, output) => outputLabel(node, output));
+  return node?.onError === 'continueErrorOutput' ? [...labels, 'error'] : labels;
+}
+
+/**
+ * Number of regular (non-error) outputs of a node
+ */
+function outputCount(node: any): number {
+  const params = node.parameters ?? {};
+  const version = node.typeVersion ?? 1;
+  switch (NodeTypeNormalizer.normalizeToFullForm(node.type)) {
+    case 'nodes-base.if':
+      return 2;
+    case 'nodes-base.splitInBatches':
+      return version >= 3 ? 2 : 1;
+    case 'nodes-base.switch':
+      if (version < 3) return Number(params.outputsAmount ?? 4);
+      if ((params.mode ?? 'rules') === 'expression') return Number(params.numberOutputs ?? 4);
+      return (params.rules?.values?.length ?? 0) + (params.options?.fallbackOutput === 'extra' ? 1 : 0);
+    default:
+      return 1;
+  }
+}
+
+function outputLabel(node: any, output: number): string {
+  if (node.onError === 'continueErrorOutput' && output === outputCount(node)) return 'error';
+  const version = node.typeVersion ?? 1;
+  switch (NodeTypeNormalizer.normalizeToFullForm(node.type)) {
+    case 'nodes-base.if':
+      return output === 0 ? 'true' : 'false';
+    case 'nodes-base.splitInBatches':
+      return version >= 3 ? (output === 0 ? 'done' : 'loop') : String(output);
+    case 'nodes-base.switch': {
+      const rules = node.parameters?.rules?.values;
+      if (version < 3 || !Array.isArray(rules)) return String(output);
+      if (output >= rules.length) return 'fallback';
+      const rule = rules[output];
+      return rule?.renameOutput && rule?.outputKey ? String(rule.outputKey) : String(output);
+    }
+    default:
+      return String(output);
+  }
+}
+
+// -----------------------------------------------------------------------------
+// Conditions
+// -----------------------------------------------------------------------------
+
+/**
+ * Whether a filter parameter ({ conditions, combinator, options }) matches
+ */
+function filterMatches(filter: any, settings: { ignoreCase?: boolean; loose?: boolean }): boolean {
+  const conditions: any[] = Array.isArray(filter?.conditions) ? filter.conditions : [];
+  const caseSensitive = filter?.options?.caseSensitive !== false && settings.ignoreCase !== true;
+  const strict = settings.loose !== true && filter?.options?.typeValidation !== 'loose';
+
+  const results = conditions.map((condition, i) => {
+    try {
+      return conditionMatches(condition, caseSensitive, strict);
+    } catch (error) {
+      throw new SimulationError(`${errorMessage(error)} (condition ${i + 1})`);
+    }
+  });
+  return filter?.combinator === 'or' ? results.some(Boolean) : results.every(Boolean);
+}
+
+function conditionMatches(condition: any, caseSensitive: boolean, strict: boolean): boolean {
+  const type: string = condition?.operator?.type ?? 'string';
+  const operation: string = condition?.operator?.operation ?? 'equals';
+  const left = condition?.leftValue;
+
+  switch (operation) {
+    case 'exists':
+      return left !== undefined && left !== null;
+    case 'notExists':
+      return left === undefined || left === null;
+    case 'empty':
+      return isEmpty(left);
+    case 'notEmpty':
+      return !isEmpty(left);
+  }
+
+  const l = conditionValue(left, type, strict);
+  const singleValue = type === 'boolean' && (operation === 'true' || operation === 'false');
+  const r = singleValue ? undefined : conditionValue(condition?.rightValue, type, strict);
+
+  switch (type) {
+    case 'string': {
+      const fold = (value: unknown) => {
+        const text = value === undefined || value === null ? '' : String(value);
+        return caseSensitive ? text : text.toLowerCase();
+      };
+      const a = fold(l);
+      const b = fold(r);
+      switch (operation) {
+        case 'equals': return a === b;
+        case 'notEquals': return a !== b;
+        case 'contains': return a.includes(b);
+        case 'notContains': return !a.includes(b);
+        case 'startsWith': return a.startsWith(b);
+        case 'notStartsWith': return !a.startsWith(b);
+        case 'endsWith': return a.endsWith(b);
+        case 'notEndsWith': return !a.endsWith(b);
+        case 'regex': return toRegExp(r, caseSensitive).test(String(l ?? ''));
+        case 'notRegex': return !toRegExp(r, caseSensitive).test(String(l ?? ''));
+      }
+      break;
+    }
+    case 'number':
+    case 'dateTime': {
+      const a = l as number | undefined;
+      const b = r as number | undefined;
+      switch (operation) {
+        case 'equals': return a === b;
+        case 'notEquals': return a !== b;
+        case 'gt': case 'after': return a !== undefined && b !== undefined && a > b;
+        case 'lt': case 'before': return a !== undefined && b !== undefined && a < b;
+        case 'gte': case 'afterOrEquals': return a !== undefined && b !== undefined && a >= b;
+        case 'lte': case 'beforeOrEquals': return a !== undefined && b !== undefined && a <= b;
+      }
+      break;
+    }
+    case 'boolean':
+      switch (operation) {
+        case 'true': return l === true;
+        case 'false': return l === false;
+        case 'equals': return l === r;
+        case 'notEquals': return l !== r;
+      }
+      break;
+    case 'array': {
+      const list = (l as unknown[] | undefined) ?? [];
+      const fold = (value: unknown) => (!caseSensitive && typeof value === 'string' ? value.toLowerCase() : value);
+      const length = Number(r);
+      switch (operation) {
+        case 'contains': return list.some(v => fold(v) === fold(condition?.rightValue));
+        case 'notContains': return !list.some(v => fold(v) === fold(condition?.rightValue));
+        case 'lengthEquals': return list.length === length;
+        case 'lengthNotEquals': return list.length !== length;
+        case 'lengthGt': return list.length > length;
+        case 'lengthLt': return list.length < length;
+        case 'lengthGte': return list.length >= length;
+        case 'lengthLte': return list.length <= length;
+      }
+      break;
+    }
+  }
+  throw new SimulationError(`Unsupported condition operator ${type}.${operation}`);
+}
+
+/**
+ * Check a condition value against the operator type. Strict type validation
+ * rejects mismatches like n8n does; loose validation converts them.
+ */
+function conditionValue(value: unknown, type: string, strict: boolean): unknown {
+  if (value === undefined || value === null) return undefined;
+  const wrongType = () => new SimulationError(
+    `Wrong type: '${typeof value === 'object' ? JSON.stringify(value) : String(value)}' is ${describeType(value)} but was expecting ${withArticle(type)}`
+  );
+
+  switch (type) {
+    case 'string':
+      if (typeof value === 'string') return value;
+      if (strict) throw wrongType();
+      return typeof value === 'object' ? JSON.stringify(value) : String(value);
+    case 'number': {
+      if (typeof value === 'number') return value;
+      if (value === '') return undefined;
+      const number = Number(value);
+      if (strict || typeof value === 'object' || Number.isNaN(number)) throw wrongType();
+      return number;
+    }
+    case 'boolean':
+      if (typeof value === 'boolean') return value;
+      if (!strict) {
+        if (value === 'true' || value === 1 || value === '1') return true;
+        if (value === 'false' || value === 0 || value === '0') return false;
+      }
+      throw wrongType();
+    case 'dateTime': {
+      if (Object.prototype.toString.call(value) === '[object Date]') return (value as Date).getTime();
+      if (value === '') return undefined;
+      const time = typeof value === 'string' || (!strict && typeof value === 'number') ? new Date(value as string).getTime() : NaN;
+      if (Number.isNaN(time)) throw wrongType();
+      return time;
+    }
+    case 'array':
+    case 'object': {
+      let parsed = value;
+      if (!strict && typeof value === 'string') {
+        try {
+          parsed = JSON.parse(value);
+        } catch {
+          throw wrongType();
+        }
+      }
+      if (type === 'array' ? !Array.isArray(parsed) : !isPlainObject(parsed)) throw wrongType();
+      return parsed;
+    }
+    default:
+      return value;
+  }
+}
+
+function describeType(value: unknown): string {
+  if (Array.isArray(value)) return 'an array';
+  return withArticle(typeof value);
+}
+
+function withArticle(type: string): string {
+  return /^[aeiou]/.test(type) ? `an ${type}` : `a ${type}`;
+}
+
+function toRegExp(pattern: unknown, caseSensitive: boolean): RegExp {
+  const source = String(pattern ?? '');
+  const literal = source.match(/^\/(.*)\/([dgimsuy]*)$/s);
+  try {
+    const flags = literal ? literal[2] : '';
+    return new RegExp(literal ? literal[1] : source, caseSensitive || flags.includes('i') ? flags : `${flags}i`);
+  } catch (error) {
+    throw new SimulationError(`Invalid regular expression ${source}: ${errorMessage(error)}`);
+  }
+}
+
+// -----------------------------------------------------------------------------
+// Items
+// -----------------------------------------------------------------------------
+
+/**
+ * Items from user-supplied data: plain objects or { json } items
+ */
+function toItems(values: unknown, source: string): Item[] {
+  if (!Array.isArray(values)) {
+    throw new SimulationError(`${source} must be an array of items`);
+  }
+  return values.map((value, i) => {
+    if (!isPlainObject(value)) {
+      throw new SimulationError(`${source}[${i}] must be an object`);
+    }
+    const json = isPlainObject(value.json) ? value.json : value;
+    return { json: cloneJson(json as SimulatedJson), lineage: {} };
+  });
+}
+
+/**
+ * Outputs of a fixture. Items are paired with the input item at the same
+ * index, or the last input item if there are more outputs than inputs.
+ */
+function fixtureOutputs(fixture: unknown, source: string, input: Item[]): Item[][] {
+  if (!Array.isArray(fixture)) {
+    throw new SimulationError(`${source} must be an array of items or an array of item arrays`);
+  }
+  const perOutput = fixture.length > 0 && fixture.every(Array.isArray);
+  const outputs = perOutput ? fixture.map((items, i) => toItems(items, `${source}[${i}]`)) : [toItems(fixture, source)];
+  return outputs.map(items => items.map((item, i) => ({
+    json: item.json,
+    lineage: input[Math.min(i, input.length - 1)]?.lineage ?? {}
+  })));
+}
+
+/**
+ * Items returned by Code nodes, paired by pairedItem, by index if the counts
+ * match, or to the only input item
+ */
+function codeItems(values: unknown[], input: Item[]): Item[] {
+  return values.map((value, i) => {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      throw new SimulationError(`Code doesn't return items properly - item ${i} is not an object`);
+    }
+    const entry = value as Record<string, unknown>;
+    const json = entry.json && typeof entry.json === 'object' && !Array.isArray(entry.json) ? entry.json : entry;
+    const paired = typeof entry.pairedItem === 'number'
+      ? entry.pairedItem
+      : (entry.pairedItem as { item?: number } | undefined)?.item;
+    const source = typeof paired === 'number'
+      ? input[paired]
+      : input.length === values.length ? input[i] : input.length === 1 ? input[0] : undefined;
+    return { json: cloneJson(json as SimulatedJson), lineage: source?.lineage ?? {} };
+  });
+}
+
+function derive(source: Item, json: SimulatedJson): Item {
+  return { json, lineage: source.lineage };
+}
+
+function mergeByPosition(input1: Item[], input2: Item[], merge: (a: Item, b: Item) => Item, includeUnpaired: boolean): Item[] {
+  const paired = Math.min(input1.length, input2.length);
+  const output = input1.slice(0, paired).map((a, i) => merge(a, input2[i]));
+  return includeUnpaired ? [...output, ...input1.slice(paired), ...input2.slice(paired)] : output;
+}
+
+function mergeByFields(
+  input1: Item[],
+  input2: Item[],
+  pairs: Array<{ field1?: string; field2?: string }>,
+  joinMode: string,
+  outputDataFrom: string,
+  options: any,
+  merge: (a: Item, b: Item) => Item
+): Item[] {
+  const fuzzy = options?.fuzzyCompare === true;
+  const firstOnly = options?.multipleMatches === 'first';
+  const same = (a: unknown, b: unknown) => (fuzzy ? String(a) === String(b) : JSON.stringify(a) === JSON.stringify(b));
+  const matches = (a: Item, b: Item) => pairs.length > 0 && pairs.every(p => {
+    const value = getPath(a.json, fieldPath(String(p.field1 ?? '')));
+    return value !== undefined && same(value, getPath(b.json, fieldPath(String(p.field2 ?? ''))));
+  });
+
+  const matched1 = new Set<Item>();
+  const matched2 = new Set<Item>();
+  const merged: Item[] = [];
+  const enriched1: Item[] = [];
+  for (const a of input1) {
+    let found = input2.filter(b => matches(a, b));
+    if (firstOnly) found = found.slice(0, 1);
+    if (found.length > 0) matched1.add(a);
+    found.forEach(b => matched2.add(b));
+    merged.push(...found.map(b => merge(a, b)));
+    enriched1.push(...(found.length > 0 ? found.map(b => merge(a, b)) : [a]));
+  }
+  const unmatched1 = input1.filter(a => !matched1.has(a));
+  const unmatched2 = input2.filter(b => !matched2.has(b));
+
+  switch (joinMode) {
+    case 'keepNonMatches':
+      if (outputDataFrom === 'input1') return unmatched1;
+      if (outputDataFrom === 'input2') return unmatched2;
+      return [...unmatched1, ...unmatched2];
+    case 'keepEverything':
+      return [...merged, ...unmatched1, ...unmatched2];
+    case 'enrichInput1':
+      return enriched1;
+    case 'enrichInput2':
+      return input2.flatMap(b => {
+        const found = input1.filter(a => matches(a, b));
+        return found.length > 0 ? (firstOnly ? found.slice(0, 1) : found).map(a => merge(a, b)) : [b];
+      });
+    default:
+      if (outputDataFrom === 'input1') return input1.filter(a => matched1.has(a));
+      if (outputDataFrom === 'input2') return input2.filter(b => matched2.has(b));
+      return merged;
+  }
+}
+
+/**
+ * Convert a Set node value to its declared type
+ */
+function convertValue(value: unknown, type: string, name: string, ignoreErrors: boolean): unknown {
+  const fail = (expected: string) => {
+    if (ignoreErrors) return value;
+    throw new SimulationError(`'${name}' expects ${withArticle(expected)} but we got '${typeof value === 'object' ? JSON.stringify(value) : String(value)}'`);
+  };
+
+  switch (type.replace(/Value$/, '')) {
+    case 'string':
+      if (value === undefined || value === null) return value;
+      return typeof value === 'object' ? JSON.stringify(value) : String(value);
+    case 'number': {
+      if (typeof value === 'number') return value;
+      const number = Number(value);
+      return value === '' || value === null || Number.isNaN(number) ? fail('number') : number;
+    }
+    case 'boolean':
+      if (typeof value === 'boolean') return value;
+      if (value === 'true' || value === 1 || value === '1') return true;
+      if (value === 'false' || value === 0 || value === '0') return false;
+      return fail('boolean');
+    case 'array':
+    case 'object': {
+      let parsed = value;
+      if (typeof value === 'string') {
+        try {
+          parsed = JSON.parse(value);
+        } catch {
+          return fail(type.replace(/Value$/, ''));
+        }
+      }
+      const valid = type.startsWith('array') ? Array.isArray(parsed) : isPlainObject(parsed);
+      return valid ? parsed : fail(type.replace(/Value$/, ''));
+    }
+    default:
+      return value;
+  }
+}
+
+// -----------------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------------
+
+/**
+ * Path segments of a field name, e.g. "a.b[0]" -> ["a", "b", "0"]
+ */
+function fieldPath(name: string): string[] {
+  return name.replace(/\[(\d+)\]/g, '.$1').split('.').filter(segment => segment !== '');
+}
+
+function getPath(value: unknown, path: string[]): any {
+  let current: any = value;
+  for (const segment of path) {
+    if (current === null || typeof current !== 'object' || !Object.prototype.hasOwnProperty.call(current, segment)) {
+      return undefined;
+    }
+    current = current[segment];
+  }
+  return current;
+}
+
+function setPath(target: Record<string, unknown>, path: string[], value: unknown): void {
+  let current: any = target;
+  path.forEach((segment, i) => {
+    if (i === path.length - 1) {
+      current[segment] = value;
+      return;
+    }
+    if (current[segment] === null || typeof current[segment] !== 'object') {
+      current[segment] = {};
+    }
+    current = current[segment];
+  });
+}
+
+function deepMerge(target: SimulatedJson, source: SimulatedJson): SimulatedJson {
+  const result: SimulatedJson = { ...target };
+  for (const [key, value] of Object.entries(source)) {
+    result[key] = isPlainObject(result[key]) && isPlainObject(value)
+      ? deepMerge(result[key] as SimulatedJson, value)
+      : value;
+  }
+  return result;
+}
+
+function compareValues(a: unknown, b: unknown): number {
+  if (a === b) return 0;
+  if (a === undefined || a === null) return 1;
+  if (b === undefined || b === null) return -1;
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  return String(a).localeCompare(String(b));
+}
+
+function splitList(value: unknown): string[] {
+  return String(value ?? '').split(',').map(s => s.trim()).filter(Boolean);
+}
+
+function isEmpty(value: unknown): boolean {
+  if (value === undefined || value === null || value === '') return true;
+  if (typeof value === 'number') return Number.isNaN(value);
+  if (Array.isArray(value)) return value.length === 0;
+  if (isPlainObject(value)) return Object.keys(value).length === 0;
+  return false;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value) &&
+    Object.prototype.toString.call(value) === '[object Object]';
+}
+
+/**
+ * Copy of a JSON value, created in this realm. Dates become ISO strings like
+ * they do when n8n stores items.
+ */
+function cloneJson<T>(value: T): T {
+  return value === undefined ? value : JSON.parse(JSON.stringify(value));
+}
+
+function errorMessage(error: unknown): string {
+  if (error && typeof error === 'object' && 'message' in error) {
+    return String((error as { message: unknown }).message);
+  }
+  return String(error);
+}
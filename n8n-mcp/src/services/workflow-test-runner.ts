@@ -0,0 +1,464 @@
+/**
+ * Workflow Test Runner
+ *
+ * Runs workflow unit tests written as YAML or JSON files next to workflow
+ * exports. Each suite names a workflow; each test supplies input items for the
+ * trigger, mocked outputs for named nodes and assertions on the items output by
+ * nodes or branches. Tests run on the offline simulator, so no n8n instance is
+ * needed, and reports can be written as JUnit XML for CI.
+ *
+ * Example (order-routing.test.yaml):
+ *
+ *   workflow: ./order-routing.json
+ *   tests:
+ *     - name: big orders go to the priority queue
+ *       input:
+ *         - amount: 500
+ *       mocks:
+ *         Fetch Customer:
+ *           - tier: gold
+ *       expect:
+ *         - node: Is Big Order
+ *           branch: "true"
+ *           count: 1
+ *         - node: Priority Queue
+ *           contains:
+ *             - amount: 500
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { z } from 'zod';
+import { getOutputLabels, simulateWorkflow, SimulationResult } from './workflow-simulator';
+import { parseYaml } from '../utils/simple-yaml';
+
+const assertionSchema = z.object({
+  node: z.string(),
+  branch: z.union([z.string(), z.number()]).optional(),
+  run: z.number().int().min(0).optional(),
+  executed: z.boolean().optional(),
+  count: z.number().int().min(0).optional(),
+  items: z.array(z.record(z.unknown())).optional(),
+  contains: z.array(z.record(z.unknown())).optional(),
+  every: z.record(z.unknown()).optional()
+}).strict();
+
+const testCaseSchema = z.object({
+  name: z.string(),
+  input: z.array(z.record(z.unknown())).optional(),
+  startNode: z.string().optional(),
+  mocks: z.record(z.array(z.unknown())).optional(),
+  env: z.record(z.string()).optional(),
+  variables: z.record(z.string()).optional(),
+  path: z.array(z.string()).optional(),
+  error: z.string().optional(),
+  expect: z.array(assertionSchema).optional()
+}).strict();
+
+const testSuiteSchema = z.object({
+  name: z.string().optional(),
+  workflow: z.union([z.string(), z.record(z.unknown())]),
+  usePinData: z.boolean().optional(),
+  tests: z.array(testCaseSchema).min(1)
+}).strict();
+
+export type WorkflowTestAssertion = z.infer<typeof assertionSchema>;
+export type WorkflowTestCase = z.infer<typeof testCaseSchema>;
+export type WorkflowTestSuite = z.infer<typeof testSuiteSchema>;
+
+export interface WorkflowTestResult {
+  name: string;
+  passed: boolean;
+  durationMs: number;
+  failures: string[];
+  warnings: string[];
+  simulation?: SimulationResult;
+}
+
+export interface WorkflowTestSuiteResult {
+  name: string;
+  file?: string;
+  workflowName?: string;
+  durationMs: number;
+  tests: WorkflowTestResult[];
+  /** The suite could not be loaded, e.g. invalid YAML or missing workflow */
+  error?: string;
+}
+
+export interface WorkflowTestReport {
+  total: number;
+  passed: number;
+  failed: number;
+  /** Suites that could not be loaded */
+  errors: number;
+  durationMs: number;
+  suites: WorkflowTestSuiteResult[];
+}
+
+const TEST_FILE_PATTERN = /\.test\.(json|ya?ml)$/i;
+const SKIPPED_DIRECTORIES = new Set(['node_modules', '.git']);
+
+/**
+ * Test files in the given files and directories (searched recursively)
+ */
+export function findWorkflowTestFiles(targets: string[]): string[] {
+  const files = new Set<string>();
+  const visit = (target: string, explicit: boolean) => {
+    const stat = fs.statSync(target);
+    if (stat.isDirectory()) {
+      for (const entry of fs.readdirSync(target).sort()) {
+        if (!SKIPPED_DIRECTORIES.has(entry)) visit(path.join(target, entry), false);
+      }
+    } else if (explicit || TEST_FILE_PATTERN.test(target)) {
+      files.add(path.resolve(target));
+    }
+  };
+  for (const target of targets) {
+    if (!fs.existsSync(target)) {
+      throw new Error(`Test path not found: ${target}`);
+    }
+    visit(target, true);
+  }
+  return Array.from(files);
+}
+
+/**
+ * Parse and validate a test suite from YAML or JSON
+ */
+export function parseWorkflowTestSuite(source: string, format: 'json' | 'yaml'): WorkflowTestSuite {
+  return validateWorkflowTestSuite(format === 'json' ? JSON.parse(source) : parseYaml(source));
+}
+
+/**
+ * Validate a test suite object
+ */
+export function validateWorkflowTestSuite(data: unknown): WorkflowTestSuite {
+  const parsed = testSuiteSchema.safeParse(data);
+  if (!parsed.success) {
+    const issues = parsed.error.errors.map(e => `${e.path.join('.') || 'suite'}: ${e.message}`);
+    throw new Error(`Invalid test suite - ${issues.join('; ')}`);
+  }
+  return parsed.data;
+}
+
+/**
+ * Run all test files in the given files and directories
+ */
+export function runWorkflowTestFiles(targets: string[]): WorkflowTestReport {
+  const started = Date.now();
+  const suites = findWorkflowTestFiles(targets).map(file => {
+    const suiteStarted = Date.now();
+    const name = path.basename(file).replace(TEST_FILE_PATTERN, '');
+    try {
+      const format = /\.json$/i.test(file) ? 'json' : 'yaml';
+      const suite = parseWorkflowTestSuite(fs.readFileSync(file, 'utf-8'), format);
+      return { ...runWorkflowTestSuite(suite, { baseDir: path.dirname(file), defaultName: name }), file };
+    } catch (error) {
+      return {
+        name,
+        file,
+        durationMs: Date.now() - suiteStarted,
+        tests: [],
+        error: error instanceof Error ? error.message : String(error)
+      };
+    }
+  });
+  return summarizeWorkflowTests(suites, Date.now() - started);
+}
+
+/**
+ * Run one suite. A workflow given as a string is a file path or workflow name
+ * and needs baseDir to be resolved.
+ */
+export function runWorkflowTestSuite(
+  suite: WorkflowTestSuite,
+  options: { baseDir?: string; defaultName?: string } = {}
+): WorkflowTestSuiteResult {
+  const started = Date.now();
+  let workflow = typeof suite.workflow === 'string'
+    ? resolveWorkflow(suite.workflow, options.baseDir)
+    : suite.workflow;
+  if (suite.usePinData === false) {
+    workflow = { ...workflow, pinData: {} };
+  }
+
+  const tests = suite.tests.map(test => runWorkflowTest(workflow, test));
+  return {
+    name: suite.name ?? options.defaultName ?? String(workflow.name ?? 'workflow'),
+    workflowName: typeof workflow.name === 'string' ? workflow.name : undefined,
+    durationMs: Date.now() - started,
+    tests
+  };
+}
+
+/**
+ * Combine suite results into a report
+ */
+export function summarizeWorkflowTests(suites: WorkflowTestSuiteResult[], durationMs: number): WorkflowTestReport {
+  const tests = suites.flatMap(s => s.tests);
+  const passed = tests.filter(t => t.passed).length;
+  return {
+    total: tests.length,
+    passed,
+    failed: tests.length - passed,
+    errors: suites.filter(s => s.error).length,
+    durationMs,
+    suites
+  };
+}
+
+function runWorkflowTest(workflow: any, test: WorkflowTestCase): WorkflowTestResult {
+  const started = Date.now();
+  const simulation = simulateWorkflow(workflow, {
+    inputItems: test.input,
+    startNode: test.startNode,
+    fixtures: test.mocks,
+    env: test.env,
+    variables: test.variables
+  });
+
+  const failures: string[] = [];
+  if (test.error !== undefined) {
+    if (simulation.success) {
+      failures.push(`Expected the run to fail with "${test.error}" but it succeeded`);
+    } else if (!simulation.error?.message.includes(test.error)) {
+      failures.push(`Expected the run to fail with "${test.error}", got "${simulation.error?.message}" at "${simulation.error?.node}"`);
+    }
+  } else if (!simulation.success) {
+    failures.push(`Run failed at "${simulation.error?.node}": ${simulation.error?.message}`);
+  }
+
+  if (test.path) {
+    failures.push(...checkPath(test.path, simulation.executionOrder));
+  }
+  for (const assertion of test.expect ?? []) {
+    failures.push(...checkAssertion(workflow, simulation, assertion));
+  }
+
+  return {
+    name: test.name,
+    passed: failures.length === 0,
+    durationMs: Date.now() - started,
+    failures,
+    warnings: simulation.warnings,
+    simulation
+  };
+}
+
+/**
+ * The nodes have to run in this order; other nodes may run in between
+ */
+function checkPath(expected: string[], executionOrder: string[]): string[] {
+  let position = 0;
+  for (const name of executionOrder) {
+    if (name === expected[position]) position++;
+    if (position === expected.length) return [];
+  }
+  return [`Expected path ${expected.join(' -> ')}, got ${executionOrder.join(' -> ') || '(nothing ran)'}`];
+}
+
+function checkAssertion(workflow: any, simulation: SimulationResult, assertion: WorkflowTestAssertion): string[] {
+  const node = (workflow?.nodes ?? []).find((n: any) => n?.name === assertion.node);
+  if (!node) {
+    return [`Node "${assertion.node}" does not exist in the workflow`];
+  }
+  const record = simulation.nodes[assertion.node];
+  const executed = !!record && record.runs.length > 0;
+
+  if (assertion.executed === true && !executed) {
+    return [`Node "${assertion.node}" was not executed`];
+  }
+  if (assertion.executed === false && executed) {
+    return [`Node "${assertion.node}" was executed but should not be`];
+  }
+  const checksItems = assertion.count !== undefined || assertion.items || assertion.contains || assertion.every;
+  if (!checksItems) return [];
+
+  const labels = getOutputLabels(node);
+  let output = 0;
+  if (assertion.branch !== undefined) {
+    const branch = String(assertion.branch);
+    output = labels.indexOf(branch);
+    if (output < 0 && /^\d+$/.test(branch)) output = Number(branch);
+    if (output < 0) {
+      return [`Node "${assertion.node}" has no branch "${branch}" - available: ${labels.join(', ')}`];
+    }
+  }
+  // Outputs of nodes that never ran are empty
+  const runs = record?.runs ?? [];
+  if (assertion.run !== undefined && assertion.run >= runs.length) {
+    return [`Node "${assertion.node}" has no run ${assertion.run} - it ran ${runs.length} time(s)`];
+  }
+  const items = (assertion.run !== undefined ? [runs[assertion.run]] : runs).flatMap(run => run.outputs[output] ?? []);
+
+  const where = `Node "${assertion.node}"${assertion.branch !== undefined ? ` branch "${assertion.branch}"` : ''}`;
+  const failures: string[] = [];
+  if (assertion.count !== undefined && items.length !== assertion.count) {
+    failures.push(`${where}: expected ${assertion.count} item(s), got ${items.length}`);
+  }
+  if (assertion.items) {
+    if (items.length !== assertion.items.length) {
+      failures.push(`${where}: expected ${assertion.items.length} item(s), got ${items.length}: ${JSON.stringify(items)}`);
+    } else {
+      assertion.items.forEach((expected, i) => {
+        if (!deepEqual(items[i], expected)) {
+          failures.push(`${where}: item ${i} is ${JSON.stringify(items[i])}, expected ${JSON.stringify(expected)}`);
+        }
+      });
+    }
+  }
+  for (const expected of assertion.contains ?? []) {
+    if (!items.some(item => partialMatch(item, expected))) {
+      failures.push(`${where}: no item matches ${JSON.stringify(expected)}`);
+    }
+  }
+  if (assertion.every) {
+    items.forEach((item, i) => {
+      if (!partialMatch(item, assertion.every)) {
+        failures.push(`${where}: item ${i} ${JSON.stringify(item)} does not match ${JSON.stringify(assertion.every)}`);
+      }
+    });
+  }
+  return failures;
+}
+
+/**
+ * Load a workflow by file path, or by name from the workflow exports in the
+ * directory. Export files may contain one workflow or an array of them.
+ */
+function resolveWorkflow(reference: string, baseDir: string | undefined): any {
+  if (!baseDir) {
+    throw new Error(`Workflow "${reference}" can't be resolved - pass the workflow object instead of a path or name`);
+  }
+
+  const file = path.resolve(baseDir, reference);
+  if (fs.existsSync(file) && fs.statSync(file).isFile()) {
+    const workflows = workflowsInFile(file);
+    if (workflows.length !== 1) {
+      throw new Error(`${reference} contains ${workflows.length} workflows - reference one by name`);
+    }
+    return workflows[0];
+  }
+
+  for (const entry of fs.readdirSync(baseDir).sort()) {
+    if (!/\.json$/i.test(entry) || TEST_FILE_PATTERN.test(entry)) continue;
+    const match = workflowsInFile(path.join(baseDir, entry)).find(w => w.name === reference);
+    if (match) return match;
+  }
+  throw new Error(`Workflow "${reference}" not found - use a path relative to the test file or the name of a workflow exported to ${baseDir}`);
+}
+
+function workflowsInFile(file: string): any[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(fs.readFileSync(file, 'utf-8'));
+  } catch {
+    return [];
+  }
+  const candidates = Array.isArray(data) ? data : [data];
+  return candidates.filter((w: any) => w && Array.isArray(w.nodes) && w.connections && typeof w.connections === 'object');
+}
+
+/**
+ * Whether every field of expected is present in actual with an equal value.
+ * Nested objects match partially, arrays and primitives exactly.
+ */
+function partialMatch(actual: unknown, expected: unknown): boolean {
+  if (expected && typeof expected === 'object' && !Array.isArray(expected)) {
+    if (!actual || typeof actual !== 'object' || Array.isArray(actual)) return false;
+    return Object.entries(expected).every(([key, value]) =>
+      Object.prototype.hasOwnProperty.call(actual, key) && partialMatch((actual as Record<string, unknown>)[key], value));
+  }
+  return deepEqual(actual, expected);
+}
+
+function deepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (Array.isArray(a) || Array.isArray(b)) {
+    return Array.isArray(a) && Array.isArray(b) && a.length === b.length && a.every((value, i) => deepEqual(value, b[i]));
+  }
+  if (a && b && typeof a === 'object' && typeof b === 'object') {
+    const keysA = Object.keys(a);
+    const keysB = Object.keys(b);
+    return keysA.length === keysB.length &&
+      keysA.every(key => deepEqual((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key]));
+  }
+  return false;
+}
+
+/**
+ * JUnit XML report: one <testsuite> per suite, suites that could not be
+ * loaded are reported as errors
+ */
+export function toJUnitXml(report: WorkflowTestReport): string {
+  const seconds = (ms: number) => (ms / 1000).toFixed(3);
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="n8n workflow tests" tests="${report.total + report.errors}" failures="${report.failed}" errors="${report.errors}" time="${seconds(report.durationMs)}">`
+  ];
+
+  for (const suite of report.suites) {
+    const failures = suite.tests.filter(t => !t.passed).length;
+    const fileAttribute = suite.file ? ` file="${escapeXml(suite.file)}"` : '';
+    lines.push(`  <testsuite name="${escapeXml(suite.name)}" tests="${suite.error ? 1 : suite.tests.length}" failures="${failures}" errors="${suite.error ? 1 : 0}" time="${seconds(suite.durationMs)}"${fileAttribute}>`);
+
+    if (suite.error) {
+      lines.push(`    <testcase name="load" classname="${escapeXml(suite.name)}" time="0.000">`);
+      lines.push(`      <error message="${escapeXml(suite.error)}" type="SuiteError">${escapeXml(suite.error)}</error>`);
+      lines.push('    </testcase>');
+    }
+    for (const test of suite.tests) {
+      const open = `    <testcase name="${escapeXml(test.name)}" classname="${escapeXml(suite.name)}" time="${seconds(test.durationMs)}"`;
+      if (test.passed && test.warnings.length === 0) {
+        lines.push(`${open}/>`);
+        continue;
+      }
+      lines.push(`${open}>`);
+      if (!test.passed) {
+        lines.push(`      <failure message="${escapeXml(test.failures[0])}" type="AssertionError">${escapeXml(test.failures.join('\n'))}</failure>`);
+      }
+      if (test.warnings.length > 0) {
+        lines.push(`      <system-out>${escapeXml(test.warnings.join('\n'))}</system-out>`);
+      }
+      lines.push('    </testcase>');
+    }
+    lines.push('  </testsuite>');
+  }
+
+  lines.push('</testsuites>');
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Human-readable report for the terminal
+ */
+export function formatTestReport(report: WorkflowTestReport): string {
+  const lines: string[] = [];
+  for (const suite of report.suites) {
+    lines.push(`${suite.name}${suite.file ? ` (${suite.file})` : ''}`);
+    if (suite.error) {
+      lines.push(`  ✗ could not load suite: ${suite.error}`);
+    }
+    for (const test of suite.tests) {
+      lines.push(`  ${test.passed ? '✓' : '✗'} ${test.name}`);
+      for (const failure of test.failures) {
+        lines.push(`      ${failure}`);
+      }
+    }
+  }
+  lines.push('');
+  lines.push(`Tests: ${report.passed} passed, ${report.failed} failed, ${report.total} total` +
+    (report.errors > 0 ? ` (${report.errors} suite(s) failed to load)` : '') +
+    ` - ${(report.durationMs / 1000).toFixed(2)}s`);
+  return lines.join('\n');
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/[\x00-\x08\x0B\x0C\x0E-\x1F]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
@@ -0,0 +1,698 @@
+/**
+ * Workflow Import/Export
+ *
+ * Moves workflows between n8n instances (e.g. dev → prod) as plain n8n JSON,
+ * YAML, or a bundle. A bundle also carries the sub-workflows reached through
+ * Execute Workflow / Call Workflow Tool nodes, the credentials the workflows
+ * reference (ID, name and type only - never credential data) and their tags.
+ *
+ * On export, secrets embedded in node parameters are replaced with the
+ * placeholders of utils/template-sanitizer. On import, credential references
+ * are remapped to credentials of the target instance by type and name,
+ * sub-workflow references to the IDs of the imported workflows, and webhook
+ * IDs are regenerated so the copy never collides with the original.
+ */
+
+import { randomUUID } from 'crypto';
+import { N8nApiClient } from './n8n-api-client';
+import { Credential, Tag, Workflow, WorkflowNode } from '../types/n8n-api';
+import { TemplateSanitizer } from '../utils/template-sanitizer';
+import { parseYaml, stringifyYaml } from '../utils/simple-yaml';
+import { logger } from '../utils/logger';
+
+export const WORKFLOW_BUNDLE_FORMAT = 'n8n-mcp-workflow-bundle';
+export const WORKFLOW_BUNDLE_VERSION = 1;
+
+export type WorkflowExportFormat = 'json' | 'yaml' | 'bundle';
+
+/**
+ * Node types that call another workflow by ID
+ */
+export const SUB_WORKFLOW_NODE_TYPES = new Set([
+  'n8n-nodes-base.executeWorkflow',
+  '@n8n/n8n-nodes-langchain.toolWorkflow'
+]);
+
+export interface CredentialPlaceholder {
+  id?: string;
+  name: string;
+  type: string;
+}
+
+export interface BundledWorkflow {
+  id: string;
+  name: string;
+  nodes: WorkflowNode[];
+  connections: Workflow['connections'];
+  settings?: Workflow['settings'];
+  tags: string[];
+}
+
+export interface WorkflowBundle {
+  format: typeof WORKFLOW_BUNDLE_FORMAT;
+  version: number;
+  exportedAt: string;
+  rootWorkflowId: string;
+  workflows: BundledWorkflow[];
+  credentials: CredentialPlaceholder[];
+  tags: string[];
+}
+
+export interface WorkflowExportOptions {
+  format?: WorkflowExportFormat;
+  /** Replace embedded API keys and tokens with placeholders (default: true) */
+  stripSecrets?: boolean;
+}
+
+export interface WorkflowExportResult {
+  format: WorkflowExportFormat;
+  content: string;
+  workflows: Array<{ id: string; name: string }>;
+  credentials: CredentialPlaceholder[];
+  tags: string[];
+  /** Number of distinct secrets replaced with placeholders */
+  secretsStripped: number;
+  warnings: string[];
+}
+
+export interface WorkflowImportOptions {
+  /** create: always create new workflows; upsert: update workflows with the same name (default: create) */
+  mode?: 'create' | 'upsert';
+  /** Resolve credentials, tags and targets without writing anything */
+  dryRun?: boolean;
+  /**
+   * Use the target's only credential of a type when none matches by name
+   * (default: false - such credentials are reported as missing)
+   */
+  matchCredentialsByType?: boolean;
+}
+
+export type CredentialMappingStatus = 'matched' | 'matched_by_type' | 'missing' | 'unverified';
+
+export interface CredentialMapping {
+  type: string;
+  name: string;
+  sourceId?: string;
+  targetId?: string;
+  targetName?: string;
+  status: CredentialMappingStatus;
+}
+
+export interface ImportedWorkflow {
+  sourceId?: string;
+  name: string;
+  id?: string;
+  action: 'created' | 'updated';
+  webhookIdsRegenerated: number;
+}
+
+export interface WorkflowImportResult {
+  dryRun: boolean;
+  workflows: ImportedWorkflow[];
+  credentials: CredentialMapping[];
+  tags: { assigned: string[]; created: string[] };
+  warnings: string[];
+}
+
+export interface SubWorkflowReference {
+  nodeName: string;
+  nodeType: string;
+  /** Called workflow, unless it is selected at runtime */
+  workflowId?: string;
+  /** Why the called workflow is unknown before runtime */
+  reason?: string;
+}
+
+export class WorkflowTransferError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WorkflowTransferError';
+  }
+}
+
+/**
+ * Export a workflow. json and yaml contain the workflow alone; bundle adds its
+ * sub-workflows (recursively), credential placeholders and tags.
+ */
+export async function exportWorkflow(
+  client: N8nApiClient,
+  workflowId: string,
+  options: WorkflowExportOptions = {}
+): Promise<WorkflowExportResult> {
+  const format = options.format ?? 'json';
+  const stripSecrets = options.stripSecrets ?? true;
+  const warnings: string[] = [];
+  const sanitizer = new TemplateSanitizer();
+  let secretsStripped = 0;
+
+  const workflows: BundledWorkflow[] = [];
+  const queue = [workflowId];
+  const visited = new Set<string>();
+
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    if (visited.has(id)) continue;
+    visited.add(id);
+
+    let workflow: Workflow;
+    try {
+      workflow = await client.getWorkflow(id);
+    } catch (error) {
+      // The root workflow must exist; a missing sub-workflow only degrades the bundle
+      if (id === workflowId) throw error;
+      warnings.push(`Sub-workflow ${id} could not be fetched and is not included: ${error instanceof Error ? error.message : String(error)}`);
+      continue;
+    }
+
+    let entry: BundledWorkflow = {
+      id: workflow.id ?? id,
+      name: workflow.name,
+      nodes: workflow.nodes ?? [],
+      connections: workflow.connections ?? {},
+      ...(workflow.settings ? { settings: workflow.settings } : {}),
+      tags: tagNames(workflow.tags)
+    };
+
+    if (stripSecrets) {
+      secretsStripped += sanitizer.detectTokens(entry).length;
+      entry = sanitizer.sanitizeWorkflow(entry).sanitized;
+    }
+    workflows.push(entry);
+
+    if (format !== 'bundle') break;
+
+    for (const ref of findSubWorkflowReferences(entry.nodes)) {
+      if (ref.workflowId) {
+        queue.push(ref.workflowId);
+      } else {
+        warnings.push(`Node "${ref.nodeName}" in "${entry.name}" selects its sub-workflow dynamically (${ref.reason}); that workflow is not included`);
+      }
+    }
+  }
+
+  const credentials = collectCredentials(workflows);
+  const tags = [...new Set(workflows.flatMap(workflow => workflow.tags))];
+  const [root] = workflows;
+
+  let content: string;
+  if (format === 'bundle') {
+    const bundle: WorkflowBundle = {
+      format: WORKFLOW_BUNDLE_FORMAT,
+      version: WORKFLOW_BUNDLE_VERSION,
+      exportedAt: new Date().toISOString(),
+      rootWorkflowId: root.id,
+      workflows,
+      credentials,
+      tags
+    };
+    content = JSON.stringify(bundle, null, 2);
+  } else {
+    // Same shape as n8n's own "Download" so the file imports in the n8n editor too
+    const { id: _id, ...single } = root;
+    content = format === 'yaml' ? stringifyYaml(single) : JSON.stringify(single, null, 2);
+  }
+
+  if (secretsStripped > 0) {
+    logger.info(`Stripped ${secretsStripped} secrets while exporting workflow ${workflowId}`);
+  }
+
+  return {
+    format,
+    content,
+    workflows: workflows.map(workflow => ({ id: workflow.id, name: workflow.name })),
+    credentials,
+    tags,
+    secretsStripped,
+    warnings
+  };
+}
+
+/**
+ * Parse exported content (JSON or YAML, single workflow or bundle) into a bundle
+ */
+export function parseWorkflowTransfer(input: string | Record<string, unknown>): WorkflowBundle {
+  let data: unknown = input;
+  if (typeof input === 'string') {
+    try {
+      data = JSON.parse(input);
+    } catch {
+      try {
+        data = parseYaml(input);
+      } catch (error) {
+        throw new WorkflowTransferError(`Content is neither valid JSON nor YAML: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+  }
+
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    throw new WorkflowTransferError('Content must be a workflow or a workflow bundle object');
+  }
+  const object = data as Record<string, any>;
+
+  if (object.format === WORKFLOW_BUNDLE_FORMAT) {
+    if (object.version !== WORKFLOW_BUNDLE_VERSION) {
+      throw new WorkflowTransferError(`Unsupported bundle version ${object.version} (supported: ${WORKFLOW_BUNDLE_VERSION})`);
+    }
+    if (!Array.isArray(object.workflows) || object.workflows.length === 0) {
+      throw new WorkflowTransferError('Bundle contains no workflows');
+    }
+    const workflows = object.workflows.map((workflow: unknown, index: number) => toBundledWorkflow(workflow, `workflows[${index}]`));
+    return {
+      format: WORKFLOW_BUNDLE_FORMAT,
+      version: WORKFLOW_BUNDLE_VERSION,
+      exportedAt: String(object.exportedAt ?? ''),
+      rootWorkflowId: String(object.rootWorkflowId ?? workflows[0].id),
+      workflows,
+      credentials: Array.isArray(object.credentials) ? object.credentials : collectCredentials(workflows),
+      tags: Array.isArray(object.tags) ? object.tags.map(String) : []
+    };
+  }
+
+  const workflow = toBundledWorkflow(object, 'workflow');
+  return {
+    format: WORKFLOW_BUNDLE_FORMAT,
+    version: WORKFLOW_BUNDLE_VERSION,
+    exportedAt: '',
+    rootWorkflowId: workflow.id,
+    workflows: [workflow],
+    credentials: collectCredentials([workflow]),
+    tags: workflow.tags
+  };
+}
+
+/**
+ * Import a workflow or bundle into the instance behind the client
+ */
+export async function importWorkflows(
+  client: N8nApiClient,
+  input: string | Record<string, unknown>,
+  options: WorkflowImportOptions = {}
+): Promise<WorkflowImportResult> {
+  const bundle = parseWorkflowTransfer(input);
+  const mode = options.mode ?? 'create';
+  const dryRun = options.dryRun ?? false;
+  const warnings: string[] = [];
+
+  const credentialMappings = await mapCredentials(client, bundle, options.matchCredentialsByType ?? false, warnings);
+  const existingByName = mode === 'upsert' ? await listWorkflowsByName(client) : new Map<string, string>();
+
+  // Create called workflows before their callers so references can be remapped in one pass
+  const ordered = orderByDependencies(bundle.workflows);
+  const bundledIds = new Set(bundle.workflows.map(workflow => workflow.id).filter(id => id !== ''));
+  const idMap = new Map<string, string>();
+  const imported: ImportedWorkflow[] = [];
+  const needsSecondPass: Array<{ workflow: BundledWorkflow; targetId: string }> = [];
+
+  for (const workflow of ordered) {
+    const targetId = existingByName.get(workflow.name);
+    const existing = targetId && !dryRun ? await client.getWorkflow(targetId) : undefined;
+    const { nodes, regenerated } = regenerateWebhookIds(remapCredentials(workflow.nodes, credentialMappings), existing?.nodes);
+    const remapped = remapSubWorkflowReferences(nodes, idMap, bundledIds);
+
+    const payload: Partial<Workflow> = {
+      name: workflow.name,
+      nodes: remapped.nodes,
+      connections: workflow.connections,
+      settings: workflow.settings ?? {}
+    };
+
+    let id = targetId;
+    if (!dryRun) {
+      const saved = targetId
+        ? await client.updateWorkflow(targetId, payload)
+        : await client.createWorkflow(payload);
+      id = saved.id ?? targetId;
+    }
+    if (id && workflow.id) idMap.set(workflow.id, id);
+    if (id && !dryRun && remapped.unresolved) {
+      needsSecondPass.push({ workflow: { ...workflow, nodes }, targetId: id });
+    }
+
+    imported.push({
+      sourceId: workflow.id || undefined,
+      name: workflow.name,
+      ...(id ? { id } : {}),
+      action: targetId ? 'updated' : 'created',
+      webhookIdsRegenerated: regenerated
+    });
+  }
+
+  // Workflows that call each other in a cycle only know every target ID now
+  for (const { workflow, targetId } of needsSecondPass) {
+    await client.updateWorkflow(targetId, {
+      name: workflow.name,
+      nodes: remapSubWorkflowReferences(workflow.nodes, idMap, bundledIds).nodes,
+      connections: workflow.connections,
+      settings: workflow.settings ?? {}
+    });
+  }
+
+  for (const workflow of bundle.workflows) {
+    for (const ref of findSubWorkflowReferences(workflow.nodes)) {
+      if (ref.workflowId && !bundledIds.has(ref.workflowId)) {
+        warnings.push(`Node "${ref.nodeName}" in "${workflow.name}" calls workflow ${ref.workflowId}, which is not part of the import; the reference was kept unchanged`);
+      }
+    }
+  }
+
+  const tags = await assignTags(client, bundle.workflows, idMap, dryRun, warnings);
+
+  return { dryRun, workflows: imported, credentials: credentialMappings, tags, warnings };
+}
+
+/**
+ * Workflow IDs called by Execute Workflow / Call Workflow Tool nodes. Calls
+ * that pick the workflow at runtime (expression, URL, inline JSON, local file)
+ * are returned with a reason instead of an ID.
+ */
+export function findSubWorkflowReferences(nodes: WorkflowNode[]): SubWorkflowReference[] {
+  const refs: SubWorkflowReference[] = [];
+
+  for (const node of nodes) {
+    if (!SUB_WORKFLOW_NODE_TYPES.has(node.type) || node.disabled) continue;
+
+    const source = node.parameters?.source;
+    if (source !== undefined && source !== 'database') {
+      refs.push({ nodeName: node.name, nodeType: node.type, reason: `source "${String(source)}"` });
+      continue;
+    }
+
+    const value = workflowIdValue(node.parameters?.workflowId);
+    if (!value) continue;
+    if (value.startsWith('=')) {
+      refs.push({ nodeName: node.name, nodeType: node.type, reason: 'expression' });
+    } else {
+      refs.push({ nodeName: node.name, nodeType: node.type, workflowId: value });
+    }
+  }
+
+  return refs;
+}
+
+/**
+ * workflowId is a plain string in older node versions and a resource locator
+ * ({ __rl: true, value, mode }) in newer ones
+ */
+function workflowIdValue(param: unknown): string | undefined {
+  if (typeof param === 'string' || typeof param === 'number') return String(param) || undefined;
+  if (param && typeof param === 'object' && 'value' in param) {
+    const value = (param as { value: unknown }).value;
+    return value === undefined || value === null || value === '' ? undefined : String(value);
+  }
+  return undefined;
+}
+
+/**
+ * Point sub-workflow references at the imported copies. unresolved is true
+ * when a reference targets a bundled workflow that has no target ID yet.
+ */
+function remapSubWorkflowReferences(
+  nodes: WorkflowNode[],
+  idMap: Map<string, string>,
+  bundledIds: Set<string>
+): { nodes: WorkflowNode[]; unresolved: boolean } {
+  let unresolved = false;
+  const remapped = nodes.map(node => {
+    if (!SUB_WORKFLOW_NODE_TYPES.has(node.type)) return node;
+    const param = node.parameters?.workflowId;
+    const sourceId = workflowIdValue(param);
+    if (!sourceId || sourceId.startsWith('=')) return node;
+
+    const targetId = idMap.get(sourceId);
+    if (!targetId) {
+      if (bundledIds.has(sourceId)) unresolved = true;
+      return node;
+    }
+
+    const workflowId = param && typeof param === 'object'
+      ? {
+        ...(param as Record<string, unknown>),
+        value: targetId,
+        ...('cachedResultUrl' in param ? { cachedResultUrl: `/workflow/${targetId}` } : {})
+      }
+      : targetId;
+    return { ...node, parameters: { ...node.parameters, workflowId } };
+  });
+
+  return { nodes: remapped, unresolved };
+}
+
+/**
+ * Order workflows so that called workflows come before their callers
+ * (cycles are broken arbitrarily and fixed up after creation)
+ */
+function orderByDependencies(workflows: BundledWorkflow[]): BundledWorkflow[] {
+  const byId = new Map(workflows.map(workflow => [workflow.id, workflow]));
+  const ordered: BundledWorkflow[] = [];
+  const visited = new Set<BundledWorkflow>();
+
+  const visit = (workflow: BundledWorkflow) => {
+    if (visited.has(workflow)) return;
+    visited.add(workflow);
+    for (const ref of findSubWorkflowReferences(workflow.nodes)) {
+      const callee = ref.workflowId ? byId.get(ref.workflowId) : undefined;
+      if (callee) visit(callee);
+    }
+    ordered.push(workflow);
+  };
+
+  workflows.forEach(visit);
+  return ordered;
+}
+
+/**
+ * Give trigger nodes new webhook IDs. Webhook paths that were derived from
+ * the old ID follow it; when updating, nodes keep the webhook ID they already
+ * have on the target so production URLs stay stable.
+ */
+function regenerateWebhookIds(
+  nodes: WorkflowNode[],
+  existingNodes: WorkflowNode[] = []
+): { nodes: WorkflowNode[]; regenerated: number } {
+  let regenerated = 0;
+  const result = nodes.map(node => {
+    if (!node.webhookId) return node;
+
+    const kept = existingNodes.find(existing => existing.name === node.name && existing.type === node.type)?.webhookId;
+    const webhookId = kept ?? randomUUID();
+    if (!kept) regenerated++;
+
+    const parameters = node.parameters?.path === node.webhookId
+      ? { ...node.parameters, path: webhookId }
+      : node.parameters;
+    return { ...node, webhookId, parameters };
+  });
+  return { nodes: result, regenerated };
+}
+
+/**
+ * Resolve the credentials a bundle references against the target instance by
+ * type and name; with matchByType, the only credential of that type is used
+ * when no name matches
+ */
+async function mapCredentials(
+  client: N8nApiClient,
+  bundle: WorkflowBundle,
+  matchByType: boolean,
+  warnings: string[]
+): Promise<CredentialMapping[]> {
+  if (bundle.credentials.length === 0) return [];
+
+  let available: Credential[];
+  try {
+    available = await fetchAllCredentials(client);
+  } catch (error) {
+    warnings.push(`Could not list credentials on the target instance, credential references were kept unchanged: ${error instanceof Error ? error.message : String(error)}`);
+    return bundle.credentials.map(credential => ({
+      type: credential.type,
+      name: credential.name,
+      sourceId: credential.id,
+      status: 'unverified'
+    }));
+  }
+
+  return bundle.credentials.map(credential => {
+    const sameType = available.filter(candidate => candidate.type === credential.type);
+    const byName = sameType.find(candidate => candidate.name === credential.name);
+    const onlyOfType = !byName && sameType.length === 1 ? sameType[0] : undefined;
+    const match = byName ?? (matchByType ? onlyOfType : undefined);
+
+    if (!match) {
+      warnings.push(`No ${credential.type} credential named "${credential.name}" on the target instance; nodes using it must be configured after import` +
+        (onlyOfType ? ` (its only ${credential.type} credential is "${onlyOfType.name}" - enable matching by type to use it)` : ''));
+    } else if (!byName) {
+      warnings.push(`${credential.type} credential "${credential.name}" was bound to "${match.name}", the only credential of that type on the target instance - check that it is the intended one`);
+    }
+    return {
+      type: credential.type,
+      name: credential.name,
+      sourceId: credential.id,
+      targetId: match?.id,
+      targetName: match?.name,
+      status: match ? (byName ? 'matched' : 'matched_by_type') : 'missing'
+    };
+  });
+}
+
+/**
+ * Point node credentials at the mapped target credentials; references
+ * without a target are removed so n8n asks for a credential
+ */
+function remapCredentials(nodes: WorkflowNode[], mappings: CredentialMapping[]): WorkflowNode[] {
+  return nodes.map(node => {
+    if (!node.credentials) return node;
+
+    const credentials: Record<string, unknown> = {};
+    for (const [type, ref] of Object.entries(node.credentials)) {
+      const { id, name } = (ref ?? {}) as { id?: string; name?: string };
+      const mapping = mappings.find(candidate =>
+        candidate.type === type && (id ? candidate.sourceId === id : candidate.name === name)
+      );
+
+      if (!mapping || mapping.status === 'unverified') {
+        credentials[type] = ref;
+      } else if (mapping.targetId) {
+        credentials[type] = { id: mapping.targetId, name: mapping.targetName };
+      }
+    }
+
+    const { credentials: _credentials, ...rest } = node;
+    return Object.keys(credentials).length > 0 ? { ...rest, credentials } : rest;
+  });
+}
+
+/**
+ * Create missing tags and assign each imported workflow its tags
+ */
+async function assignTags(
+  client: N8nApiClient,
+  workflows: BundledWorkflow[],
+  idMap: Map<string, string>,
+  dryRun: boolean,
+  warnings: string[]
+): Promise<{ assigned: string[]; created: string[] }> {
+  const names = [...new Set(workflows.flatMap(workflow => workflow.tags))];
+  if (names.length === 0) return { assigned: [], created: [] };
+
+  let existing: Tag[];
+  try {
+    existing = await listAllTags(client);
+  } catch (error) {
+    warnings.push(`Could not list tags on the target instance, tags were not assigned: ${error instanceof Error ? error.message : String(error)}`);
+    return { assigned: [], created: [] };
+  }
+
+  const created: string[] = [];
+  const tagIds = new Map<string, string>();
+  for (const name of names) {
+    const match = existing.find(tag => tag.name.toLowerCase() === name.toLowerCase());
+    if (match?.id) {
+      tagIds.set(name, match.id);
+    } else if (dryRun) {
+      created.push(name);
+    } else {
+      const tag = await client.createTag({ name });
+      created.push(name);
+      if (tag.id) tagIds.set(name, tag.id);
+    }
+  }
+
+  if (!dryRun) {
+    for (const workflow of workflows) {
+      const targetId = idMap.get(workflow.id);
+      if (!targetId || workflow.tags.length === 0) continue;
+      try {
+        await client.updateWorkflowTags(targetId, workflow.tags.map(name => tagIds.get(name)).filter((id): id is string => !!id));
+      } catch (error) {
+        warnings.push(`Could not assign tags to "${workflow.name}": ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+  }
+
+  return { assigned: names, created };
+}
+
+/**
+ * Credentials referenced by node credential slots, deduplicated
+ */
+function collectCredentials(workflows: BundledWorkflow[]): CredentialPlaceholder[] {
+  const credentials = new Map<string, CredentialPlaceholder>();
+  for (const workflow of workflows) {
+    for (const node of workflow.nodes) {
+      for (const [type, ref] of Object.entries(node.credentials ?? {})) {
+        const { id, name } = (ref ?? {}) as { id?: string; name?: string };
+        const key = `${type}:${id ?? name}`;
+        if (!credentials.has(key)) {
+          credentials.set(key, { ...(id ? { id } : {}), name: name ?? '', type });
+        }
+      }
+    }
+  }
+  return [...credentials.values()];
+}
+
+/**
+ * The API returns tags as objects; exported files may use plain names
+ */
+export function tagNames(tags: unknown): string[] {
+  if (!Array.isArray(tags)) return [];
+  return tags
+    .map(tag => (typeof tag === 'string' ? tag : (tag as { name?: string })?.name))
+    .filter((name): name is string => typeof name === 'string' && name !== '');
+}
+
+function toBundledWorkflow(data: unknown, path: string): BundledWorkflow {
+  const workflow = data as Record<string, any>;
+  if (!workflow || typeof workflow !== 'object' || !Array.isArray(workflow.nodes)) {
+    throw new WorkflowTransferError(`${path} is not a workflow: "nodes" must be an array`);
+  }
+  if (typeof workflow.name !== 'string' || workflow.name === '') {
+    throw new WorkflowTransferError(`${path} has no name`);
+  }
+  return {
+    id: workflow.id === undefined || workflow.id === null ? '' : String(workflow.id),
+    name: workflow.name,
+    nodes: workflow.nodes,
+    connections: workflow.connections ?? {},
+    ...(workflow.settings ? { settings: workflow.settings } : {}),
+    tags: tagNames(workflow.tags)
+  };
+}
+
+/**
+ * Fetch every credential, following pagination cursors
+ */
+export async function fetchAllCredentials(client: N8nApiClient): Promise<Credential[]> {
+  const credentials: Credential[] = [];
+  let cursor: string | undefined;
+  do {
+    const response = await client.listCredentials({ limit: 100, cursor });
+    credentials.push(...response.data);
+    cursor = response.nextCursor || undefined;
+  } while (cursor);
+  return credentials;
+}
+
+async function listAllTags(client: N8nApiClient): Promise<Tag[]> {
+  const tags: Tag[] = [];
+  let cursor: string | undefined;
+  do {
+    const response = await client.listTags({ limit: 100, cursor });
+    tags.push(...response.data);
+    cursor = response.nextCursor || undefined;
+  } while (cursor);
+  return tags;
+}
+
+async function listWorkflowsByName(client: N8nApiClient): Promise<Map<string, string>> {
+  const byName = new Map<string, string>();
+  let cursor: string | undefined;
+  do {
+    const response = await client.listWorkflows({ limit: 100, cursor });
+    for (const workflow of response.data) {
+      if (workflow.id && !byName.has(workflow.name)) byName.set(workflow.name, workflow.id);
+    }
+    cursor = response.nextCursor || undefined;
+  } while (cursor);
+  return byName;
+}
@@ -7,6 +7,8 @@ import crypto from 'crypto';
 import { NodeRepository } from '../database/node-repository';
 import { EnhancedConfigValidator } from './enhanced-config-validator';
 import { ExpressionValidator } from './expression-validator';
+import { parseExpressionTemplate } from './expression-parser';
+import { findUnresolvedFieldReferences } from './workflow-data-shape';
 import { ExpressionFormatValidator } from './expression-format-validator';
 import { NodeSimilarityService, NodeSuggestion } from './node-similarity-service';
 import { NodeTypeNormalizer } from '../utils/node-type-normalizer';
@@ -110,6 +112,8 @@ export class WorkflowValidator {
       validateConnections?: boolean;
       validateExpressions?: boolean;
       profile?: 'minimal' | 'runtime' | 'ai-friendly' | 'strict';
+      /** Run data of a previous execution, used to infer the data shape at each node */
+      runData?: Record<string, unknown>;
     } = {}
   ): Promise<WorkflowValidationResult> {
     // Store current workflow for access in helper methods
@@ -171,6 +175,7 @@ export class WorkflowValidator {
         // Validate expressions if requested
         if (validateExpressions && workflow.nodes.length > 0) {
           this.validateExpressions(workflow, result, profile);
+          this.validateDataShapes(workflow, result, options.runData);
         }
 
         // Check workflow patterns and best practices
@@ -1087,6 +1092,7 @@ export class WorkflowValidator {
     profile: string = 'runtime'
   ): void {
     const nodeNames = workflow.nodes.map(n => n.name);
+    const upstreamOf = this.buildUpstreamResolver(workflow);
 
     for (const node of workflow.nodes) {
       if (node.disabled || isNonExecutableNode(node.type)) continue;
@@ -1103,7 +1109,8 @@ export class WorkflowValidator {
         availableNodes: nodeNames.filter(n => n !== node.name),
         currentNodeName: node.name,
         hasInputData: this.nodeHasInput(node.name, workflow),
-        isInLoop: false // Could be enhanced to detect loop nodes
+        isInLoop: false, // Could be enhanced to detect loop nodes
+        upstreamNodes: upstreamOf(node.name)
       };
 
       // Validate expressions in parameters
@@ -1170,6 +1177,33 @@ export class WorkflowValidator {
     }
   }
 
+  /**
+   * Check field references in expressions against the data shape inferred
+   * for each node (pinned data, execution data, trigger samples, Set fields)
+   */
+  private validateDataShapes(
+    workflow: WorkflowJson,
+    result: WorkflowValidationResult,
+    runData?: Record<string, unknown>
+  ): void {
+    for (const ref of findUnresolvedFieldReferences(workflow, { runData })) {
+      const missing = ref.missingPath[ref.missingPath.length - 1];
+      const available = ref.availableFields.length > 0
+        ? `available fields: ${ref.availableFields.slice(0, 10).join(', ')}${ref.availableFields.length > 10 ? ', ...' : ''}`
+        : 'no fields available';
+      const suggestion = ref.suggestion ? ` Did you mean "${ref.suggestion}"?` : '';
+
+      result.warnings.push({
+        type: 'warning',
+        nodeId: ref.nodeId,
+        nodeName: ref.nodeName,
+        message: `Data shape: field "${missing}" in ${ref.expression} (${ref.parameter}) does not exist - ${available} (from ${ref.sources.join(', ')}).${suggestion}`,
+        code: 'UNRESOLVED_FIELD_REFERENCE',
+        details: ref
+      });
+    }
+  }
+
   /**
    * Count expressions in an object recursively
    */
@@ -1178,9 +1212,8 @@ export class WorkflowValidator {
     
     if (typeof obj === 'string') {
       // Count expressions in string
-      const matches = obj.match(/\{\{[\s\S]+?\}\}/g);
-      if (matches) {
-        count += matches.length;
+      if (obj.includes('{{')) {
+        count += parseExpressionTemplate(obj).segments.filter(s => s.kind === 'expression').length;
       }
     } else if (Array.isArray(obj)) {
       // Recursively count in arrays
@@ -1197,6 +1230,59 @@ export class WorkflowValidator {
     return count;
   }
 
+  /**
+   * Build a lookup of the nodes that run before a given node: every node with a
+   * path of connections into it. AI sub-nodes (tools, models, memory) have no
+   * incoming connections and run as part of the node they are attached to, so
+   * they see that node's upstream nodes.
+   */
+  private buildUpstreamResolver(workflow: WorkflowJson): (nodeName: string) => string[] {
+    const incoming = new Map<string, Set<string>>();
+    const attachedTo = new Map<string, Set<string>>();
+
+    for (const [sourceName, outputs] of Object.entries(workflow.connections || {})) {
+      for (const [outputType, outputConnections] of Object.entries(outputs || {})) {
+        if (!Array.isArray(outputConnections)) continue;
+        for (const connections of outputConnections) {
+          for (const conn of connections || []) {
+            if (!conn?.node) continue;
+            if (!incoming.has(conn.node)) incoming.set(conn.node, new Set());
+            incoming.get(conn.node)!.add(sourceName);
+            if (outputType !== 'main' && outputType !== 'error') {
+              if (!attachedTo.has(sourceName)) attachedTo.set(sourceName, new Set());
+              attachedTo.get(sourceName)!.add(conn.node);
+            }
+          }
+        }
+      }
+    }
+
+    const cache = new Map<string, string[]>();
+    return (nodeName: string) => {
+      const cached = cache.get(nodeName);
+      if (cached) return cached;
+
+      const visited = new Set<string>();
+      const queue = [nodeName, ...(attachedTo.get(nodeName) || [])];
+      while (queue.length > 0) {
+        const current = queue.shift()!;
+        for (const source of incoming.get(current) || []) {
+          if (!visited.has(source)) {
+            visited.add(source);
+            queue.push(source);
+          }
+        }
+      }
+      // Parent nodes of a sub-node provide its input
+      for (const parent of attachedTo.get(nodeName) || []) visited.add(parent);
+      visited.delete(nodeName);
+
+      const upstream = Array.from(visited);
+      cache.set(nodeName, upstream);
+      return upstream;
+    };
+  }
+
   /**
    * Check if a node has input connections
    */
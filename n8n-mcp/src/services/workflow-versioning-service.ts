@@ -9,6 +9,15 @@ import { NodeRepository } from '../database/node-repository';
 import { N8nApiClient } from './n8n-api-client';
 import { WorkflowValidator } from './workflow-validator';
 import { EnhancedConfigValidator } from './enhanced-config-validator';
+import {
+  diffWorkflows,
+  renderDiffMarkdown,
+  createJsonPatch,
+  toDiffOperations,
+  WorkflowSemanticDiff,
+  JsonPatchOperation
+} from './workflow-semantic-diff';
+import { WorkflowDiffOperation } from '../types/workflow-diff';
 
 export interface WorkflowVersion {
   id: number;
@@ -79,6 +88,27 @@ export interface VersionDiff {
   modifiedNodes: string[];
   connectionChanges: number;
   settingChanges: any;
+  semantic: WorkflowSemanticDiff;
+}
+
+export type VersionComparisonFormat = 'markdown' | 'semantic' | 'json_patch' | 'operations' | 'all';
+
+export interface VersionComparisonSide {
+  label: string;
+  versionId?: number;
+  versionNumber?: number;
+}
+
+export interface VersionComparison {
+  workflowId: string;
+  base: VersionComparisonSide;
+  target: VersionComparisonSide;
+  hasChanges: boolean;
+  summary: WorkflowSemanticDiff['summary'];
+  markdown?: string;
+  diff?: WorkflowSemanticDiff;
+  jsonPatch?: JsonPatchOperation[];
+  operations?: WorkflowDiffOperation[];
 }
 
 /**
@@ -86,6 +116,7 @@ export interface VersionDiff {
  */
 export class WorkflowVersioningService {
   private readonly DEFAULT_MAX_VERSIONS = 10;
+  private readonly MAX_REVISION_SNAPSHOTS = 20;
 
   constructor(
     private nodeRepository: NodeRepository,
@@ -164,6 +195,45 @@ export class WorkflowVersioningService {
     return this.nodeRepository.getWorkflowVersion(versionId);
   }
 
+  /**
+   * Find the stored version whose snapshot is the given n8n revision
+   * (matched by n8n versionId, or updatedAt when no versionId is given).
+   * Used as the merge base for updates made against a stale revision.
+   */
+  async findVersionByRevision(
+    workflowId: string,
+    revision: { versionId?: string; updatedAt?: string }
+  ): Promise<WorkflowVersion | null> {
+    if (!revision.versionId && !revision.updatedAt) return null;
+
+    const versions: WorkflowVersion[] = this.nodeRepository.getWorkflowVersions(workflowId);
+    return versions.find(v => revision.versionId
+      ? v.workflowSnapshot?.versionId === revision.versionId
+      : v.workflowSnapshot?.updatedAt === revision.updatedAt
+    ) || null;
+  }
+
+  /**
+   * Record the workflow as n8n returned it, so an update later made against
+   * this revision can still be merged after someone else changed the workflow
+   * (for example in the n8n UI)
+   */
+  async recordRevision(workflowId: string, workflow: any): Promise<void> {
+    if (!workflow?.versionId && !workflow?.updatedAt) return;
+    this.nodeRepository.saveWorkflowRevision(workflowId, workflow, this.MAX_REVISION_SNAPSHOTS);
+  }
+
+  /**
+   * Find a revision snapshot stored by recordRevision
+   */
+  async findRecordedRevision(
+    workflowId: string,
+    revision: { versionId?: string; updatedAt?: string }
+  ): Promise<any | null> {
+    if (!revision.versionId && !revision.updatedAt) return null;
+    return this.nodeRepository.getWorkflowRevision(workflowId, revision);
+  }
+
   /**
    * Restore workflow to a previous version
    * Creates backup of current state before restoring
@@ -413,6 +483,7 @@ export class WorkflowVersioningService {
     const settingChanges = this.diffObjects(settings1, settings2);
 
     return {
+      semantic: diffWorkflows(v1.workflowSnapshot, v2.workflowSnapshot),
       versionId1,
       versionId2,
       version1Number: v1.versionNumber,
@@ -425,6 +496,82 @@ export class WorkflowVersioningService {
     };
   }
 
+  /**
+   * Semantic comparison of a stored version with another version or the live workflow.
+   * The diff goes from base to target; operations turn base into target, so
+   * comparing live (base) against a version (target) yields operations that restore it.
+   */
+  async compareVersionWith(
+    versionId: number,
+    options: {
+      compareToVersionId?: number;
+      compareToLive?: boolean;
+      reverse?: boolean;
+      format?: VersionComparisonFormat;
+    }
+  ): Promise<VersionComparison> {
+    const version = this.nodeRepository.getWorkflowVersion(versionId);
+    if (!version) {
+      throw new Error(`Version ${versionId} not found`);
+    }
+
+    let other: { snapshot: any; side: VersionComparisonSide };
+    if (options.compareToLive) {
+      if (!this.apiClient) {
+        throw new Error('API client not configured - cannot compare with live workflow');
+      }
+      other = {
+        snapshot: await this.apiClient.getWorkflow(version.workflowId),
+        side: { label: 'live' }
+      };
+    } else if (options.compareToVersionId !== undefined) {
+      const otherVersion = this.nodeRepository.getWorkflowVersion(options.compareToVersionId);
+      if (!otherVersion) {
+        throw new Error(`Version ${options.compareToVersionId} not found`);
+      }
+      if (otherVersion.workflowId !== version.workflowId) {
+        throw new Error(`Versions ${versionId} and ${options.compareToVersionId} belong to different workflows`);
+      }
+      other = {
+        snapshot: otherVersion.workflowSnapshot,
+        side: { label: `v${otherVersion.versionNumber}`, versionId: otherVersion.id, versionNumber: otherVersion.versionNumber }
+      };
+    } else {
+      throw new Error('Either compareToVersionId or compareToLive is required');
+    }
+
+    const versionSide = { snapshot: version.workflowSnapshot, side: { label: `v${version.versionNumber}`, versionId: version.id, versionNumber: version.versionNumber } };
+    const [base, target] = options.reverse ? [other, versionSide] : [versionSide, other];
+
+    const diff = diffWorkflows(base.snapshot, target.snapshot);
+    const format = options.format || 'markdown';
+    const include = (f: VersionComparisonFormat) => format === f || format === 'all';
+
+    return {
+      workflowId: version.workflowId,
+      base: base.side,
+      target: target.side,
+      hasChanges: diff.hasChanges,
+      summary: diff.summary,
+      ...(include('markdown') ? { markdown: renderDiffMarkdown(diff, { before: base.side.label, after: target.side.label }) } : {}),
+      ...(include('semantic') ? { diff } : {}),
+      ...(include('json_patch') ? { jsonPatch: createJsonPatch(this.comparableSnapshot(base.snapshot), this.comparableSnapshot(target.snapshot)) } : {}),
+      ...(include('operations') ? { operations: toDiffOperations(diff, target.snapshot) } : {})
+    };
+  }
+
+  /**
+   * Fields of a workflow that are versioned content (excludes server-managed metadata)
+   */
+  private comparableSnapshot(workflow: any): any {
+    return {
+      name: workflow?.name,
+      nodes: workflow?.nodes || [],
+      connections: workflow?.connections || {},
+      settings: workflow?.settings || {}
+    };
+  }
+
   /**
    * Format bytes to human-readable string
    */
@@ -0,0 +1,188 @@
+/**
+ * Deterministic template metadata derived from node usage alone.
+ *
+ * Used by the heuristic LLM provider so template metadata can be generated
+ * offline, without an API key or a local model.
+ */
+
+import type { MetadataRequest, TemplateMetadata } from './metadata-generator';
+
+/** Display names for services whose node name does not title-case well */
+const SERVICE_NAMES: Record<string, string> = {
+  openai: 'OpenAI',
+  lmchatopenai: 'OpenAI',
+  embeddingsopenai: 'OpenAI',
+  lmchatanthropic: 'Anthropic',
+  lmchatgooglegemini: 'Google Gemini',
+  lmchatollama: 'Ollama',
+  github: 'GitHub',
+  gitlab: 'GitLab',
+  googlesheets: 'Google Sheets',
+  googledrive: 'Google Drive',
+  googlecalendar: 'Google Calendar',
+  googledocs: 'Google Docs',
+  gmail: 'Gmail',
+  hubspot: 'HubSpot',
+  mysql: 'MySQL',
+  postgres: 'PostgreSQL',
+  mongodb: 'MongoDB',
+  aws: 'AWS',
+  awss3: 'AWS S3',
+  s3: 'S3',
+  ftp: 'FTP',
+  ssh: 'SSH',
+  youtube: 'YouTube',
+  linkedin: 'LinkedIn',
+  whatsapp: 'WhatsApp',
+  clickup: 'ClickUp',
+  woocommerce: 'WooCommerce',
+  microsoftoutlook: 'Microsoft Outlook',
+  microsoftteams: 'Microsoft Teams',
+  microsoftexcel: 'Microsoft Excel',
+  emailsend: 'Email (SMTP)',
+  emailreadimap: 'Email (IMAP)'
+};
+
+/** Built-in nodes that do not need an external service */
+const CORE_NODES = new Set([
+  'set', 'if', 'switch', 'filter', 'merge', 'code', 'function', 'functionitem', 'noop',
+  'httprequest', 'webhook', 'respondtowebhook', 'schedule', 'scheduletrigger', 'cron',
+  'interval', 'manualtrigger', 'start', 'wait', 'splitinbatches', 'splitout', 'aggregate',
+  'sort', 'limit', 'removeduplicates', 'itemlists', 'datetime', 'crypto', 'html', 'xml',
+  'markdown', 'converttofile', 'extractfromfile', 'readwritefile', 'readbinaryfile',
+  'writebinaryfile', 'movebinarydata', 'compression', 'executeworkflow',
+  'executeworkflowtrigger', 'stickynote', 'stopanderror', 'errortrigger', 'n8n',
+  'n8ntrigger', 'form', 'formtrigger', 'chattrigger', 'executecommand', 'editimage',
+  'renamekeys', 'comparedatasets', 'summarize', 'debughelper', 'totp', 'jwt',
+  'agent', 'chainllm', 'chainsummarization', 'chainretrievalqa', 'informationextractor',
+  'textclassifier', 'sentimentanalysis', 'outputparserstructured', 'outputparserautofixing',
+  'memorybufferwindow', 'toolcode', 'toolhttprequest', 'toolworkflow', 'toolcalculator',
+  'textsplitterrecursivecharactertextsplitter', 'documentdefaultdataloader', 'vectorstoreinmemory'
+]);
+
+const CATEGORY_RULES: Array<{ category: string; pattern: RegExp }> = [
+  { category: 'AI', pattern: /langchain|openai|anthropic|gemini|ollama|mistral|agent|lmchat|embeddings|vectorstore/i },
+  { category: 'Communication', pattern: /slack|telegram|discord|gmail|email|outlook|teams|whatsapp|twilio|mattermost|matrix/i },
+  { category: 'Data Management', pattern: /sheet|airtable|postgres|mysql|mongo|redis|supabase|notion|baserow|excel|database|snowflake|bigquery/i },
+  { category: 'CRM', pattern: /hubspot|salesforce|pipedrive|zoho|copper|freshworks|affinity/i },
+  { category: 'Development', pattern: /github|gitlab|jira|git\b|ssh|executecommand|linear|sentry/i },
+  { category: 'File Management', pattern: /drive|dropbox|s3|ftp|box|file|onedrive|pdf/i },
+  { category: 'Marketing', pattern: /mailchimp|twitter|linkedin|facebook|instagram|youtube|wordpress|mautic|sendgrid/i },
+  { category: 'Webhooks', pattern: /webhook|httprequest|respondtowebhook/i },
+  { category: 'Scheduling', pattern: /schedule|cron|interval|calendar/i }
+];
+
+const USE_CASES: Record<string, string> = {
+  'AI': 'AI-powered content and data processing',
+  'Communication': 'Team notifications and messaging',
+  'Data Management': 'Data synchronization between tools',
+  'CRM': 'Lead and customer management',
+  'Development': 'Developer workflow automation',
+  'File Management': 'File transfer and document handling',
+  'Marketing': 'Marketing and social media automation',
+  'Webhooks': 'API and webhook integrations',
+  'Scheduling': 'Scheduled recurring tasks'
+};
+
+const AUDIENCES: Record<string, string> = {
+  'AI': 'AI developers',
+  'Communication': 'operations teams',
+  'Data Management': 'data analysts',
+  'CRM': 'sales teams',
+  'Development': 'developers',
+  'File Management': 'operations teams',
+  'Marketing': 'marketers',
+  'Webhooks': 'developers',
+  'Scheduling': 'operations teams'
+};
+
+/**
+ * Short node name without package prefix, e.g. slackTrigger
+ */
+function baseName(nodeType: string): string {
+  return nodeType.split('.').pop() || nodeType;
+}
+
+/**
+ * Service behind a node, or null for core nodes
+ */
+export function serviceForNode(nodeType: string): string | null {
+  let name = baseName(nodeType).replace(/Trigger$|Tool$/, '');
+  const key = name.toLowerCase();
+  if (CORE_NODES.has(key) || CORE_NODES.has(baseName(nodeType).toLowerCase())) return null;
+  if (SERVICE_NAMES[key]) return SERVICE_NAMES[key];
+
+  name = name.replace(/^(lmChat|embeddings|vectorStore|memory)/, '');
+  if (!name) return null;
+  if (SERVICE_NAMES[name.toLowerCase()]) return SERVICE_NAMES[name.toLowerCase()];
+
+  return name
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/^./, c => c.toUpperCase());
+}
+
+function roundToFive(minutes: number): number {
+  return Math.min(480, Math.max(5, Math.round(minutes / 5) * 5));
+}
+
+/**
+ * Derive template metadata from the nodes a template uses
+ */
+export function generateHeuristicMetadata(template: MetadataRequest): TemplateMetadata {
+  const nodeTypes = template.nodes;
+  const nodeCount = template.workflow?.nodes?.length ?? nodeTypes.length;
+  const joined = nodeTypes.map(baseName).join(' ');
+
+  const requiredServices = [...new Set(
+    nodeTypes.map(serviceForNode).filter((service): service is string => service !== null)
+  )];
+
+  const categories = CATEGORY_RULES
+    .filter(rule => rule.pattern.test(joined))
+    .map(rule => rule.category)
+    .slice(0, 5);
+  if (categories.length === 0) categories.push('Automation');
+
+  const usesAI = categories.includes('AI');
+  const branches = nodeTypes.filter(type => /\.(if|switch|filter)$/i.test(type)).length;
+  const usesCode = nodeTypes.some(type => /\.(code|function|functionItem)$/i.test(type));
+
+  let complexity: TemplateMetadata['complexity'] = 'simple';
+  if (nodeCount > 12 || requiredServices.length > 4 || (usesAI && branches > 0)) {
+    complexity = 'complex';
+  } else if (nodeCount > 5 || requiredServices.length > 2 || branches > 0 || usesAI || usesCode) {
+    complexity = 'medium';
+  }
+
+  const keyFeatures: string[] = [];
+  const trigger = nodeTypes.find(type => /trigger$|\.webhook$|\.cron$/i.test(type));
+  if (trigger) {
+    const triggerName = baseName(trigger);
+    keyFeatures.push(/webhook/i.test(triggerName) ? 'Webhook trigger'
+      : /schedule|cron|interval/i.test(triggerName) ? 'Scheduled execution'
+      : /manual/i.test(triggerName) ? 'Manual trigger'
+      : `${serviceForNode(trigger) ?? 'Event'} trigger`);
+  }
+  if (nodeTypes.some(type => /agent$/i.test(type))) keyFeatures.push('AI agent');
+  else if (usesAI) keyFeatures.push('AI processing');
+  if (branches > 0) keyFeatures.push('Conditional branching');
+  if (usesCode) keyFeatures.push('Custom code');
+  if (nodeTypes.some(type => /\.httpRequest$/i.test(type))) keyFeatures.push('HTTP API calls');
+  if (requiredServices.length > 0 && keyFeatures.length < 5) {
+    keyFeatures.push(`${requiredServices.slice(0, 3).join(', ')} integration`);
+  }
+  if (keyFeatures.length === 0) keyFeatures.push('Workflow automation');
+
+  const useCases = categories.map(category => USE_CASES[category] ?? 'Process automation');
+  const targetAudience = [...new Set(categories.map(category => AUDIENCES[category] ?? 'developers'))];
+
+  return {
+    categories,
+    complexity,
+    use_cases: [...new Set(useCases)].slice(0, 5),
+    estimated_setup_minutes: roundToFive(5 + requiredServices.length * 10 + nodeCount * 2),
+    required_services: requiredServices,
+    key_features: keyFeatures.slice(0, 5),
+    target_audience: targetAudience.slice(0, 3)
+  };
+}
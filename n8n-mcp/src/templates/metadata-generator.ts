@@ -1,7 +1,9 @@
-import OpenAI from 'openai';
 import { z } from 'zod';
 import { logger } from '../utils/logger';
 import { TemplateWorkflow, TemplateDetail } from './template-fetcher';
+import type { StoredTemplate } from './template-repository';
+import { LLMProvider, OpenAICompatibleProvider } from '../llm';
+import { generateHeuristicMetadata } from './heuristic-metadata';
 
 // Metadata schema using Zod for validation
 export const TemplateMetadataSchema = z.object({
@@ -30,13 +32,49 @@ export interface MetadataResult {
   error?: string;
 }
 
+/**
+ * Build a metadata request from a stored template (workflow JSON decompressed)
+ */
+export function createMetadataRequest(template: StoredTemplate): MetadataRequest {
+  let workflow = undefined;
+  try {
+    if (template.workflow_json) {
+      workflow = JSON.parse(template.workflow_json);
+    }
+  } catch (error) {
+    logger.warn(`Failed to parse workflow for template ${template.id}:`, error);
+  }
+  
+  let nodes: string[] = [];
+  try {
+    const parsed = template.nodes_used ? JSON.parse(template.nodes_used) : [];
+    nodes = Array.isArray(parsed) ? parsed : [];
+  } catch (error) {
+    logger.warn(`Failed to parse nodes_used for template ${template.id}:`, error);
+  }
+  
+  return {
+    templateId: template.id,
+    name: template.name,
+    description: template.description,
+    nodes,
+    workflow
+  };
+}
+
 export class MetadataGenerator {
-  private client: OpenAI;
+  private provider: LLMProvider;
   private model: string;
   
-  constructor(apiKey: string, model: string = 'gpt-5-mini-2025-08-07') {
-    this.client = new OpenAI({ apiKey });
-    this.model = model;
+  /**
+   * @param apiKeyOrProvider OpenAI API key, or any LLM provider (see src/llm)
+   * @param model OpenAI model, ignored when a provider is passed
+   */
+  constructor(apiKeyOrProvider: string | LLMProvider, model: string = 'gpt-5-mini-2025-08-07') {
+    this.provider = typeof apiKeyOrProvider === 'string'
+      ? new OpenAICompatibleProvider({ id: 'openai', apiKey: apiKeyOrProvider, model, structuredOutput: 'json_schema' })
+      : apiKeyOrProvider;
+    this.model = this.provider.model;
   }
   
   /**
@@ -108,23 +146,6 @@ export class MetadataGenerator {
    * Create a batch request for a single template
    */
   createBatchRequest(template: MetadataRequest): any {
-    // Extract node information for analysis
-    const nodesSummary = this.summarizeNodes(template.nodes);
-    
-    // Sanitize template name and description to prevent prompt injection
-    // Allow longer names for test scenarios but still sanitize content
-    const sanitizedName = this.sanitizeInput(template.name, Math.max(200, template.name.length));
-    const sanitizedDescription = template.description ? 
-      this.sanitizeInput(template.description, 500) : '';
-    
-    // Build context for the AI with sanitized inputs
-    const context = [
-      `Template: ${sanitizedName}`,
-      sanitizedDescription ? `Description: ${sanitizedDescription}` : '',
-      `Nodes Used (${template.nodes.length}): ${nodesSummary}`,
-      template.workflow ? `Workflow has ${template.workflow.nodes?.length || 0} nodes with ${Object.keys(template.workflow.connections || {}).length} connections` : ''
-    ].filter(Boolean).join('\n');
-    
     return {
       custom_id: `template-${template.templateId}`,
       method: 'POST',
@@ -144,13 +165,37 @@ export class MetadataGenerator {
           },
           {
             role: 'user',
-            content: context
+            content: this.buildContext(template)
           }
         ]
       }
     };
   }
   
+  /**
+   * Build the prompt describing a template
+   */
+  private buildContext(template: MetadataRequest): string {
+    // Extract node information for analysis
+    const nodesSummary = this.summarizeNodes(template.nodes);
+    
+    // Sanitize template name and description to prevent prompt injection
+    // Allow longer names for test scenarios but still sanitize content
+    const sanitizedName = this.sanitizeInput(template.name, Math.max(200, template.name.length));
+    const sanitizedDescription = template.description ? 
+      this.sanitizeInput(template.description, 500) : '';
+    
+    // Build context for the AI with sanitized inputs
+    const context = [
+      `Template: ${sanitizedName}`,
+      sanitizedDescription ? `Description: ${sanitizedDescription}` : '',
+      `Nodes Used (${template.nodes.length}): ${nodesSummary}`,
+      template.workflow ? `Workflow has ${template.workflow.nodes?.length || 0} nodes with ${Object.keys(template.workflow.connections || {}).length} connections` : ''
+    ].filter(Boolean).join('\n');
+    
+    return context;
+  }
+  
   /**
    * Sanitize input to prevent prompt injection and control token usage
    */
@@ -282,41 +327,63 @@ export class MetadataGenerator {
   }
   
   /**
-   * Generate metadata for a single template (for testing)
+   * Generate metadata for a single template through the provider
    */
   async generateSingle(template: MetadataRequest): Promise<TemplateMetadata> {
-    try {
-      const completion = await this.client.chat.completions.create({
-        model: this.model,
-        // temperature removed - not supported in batch API for this model
-        max_completion_tokens: 3000,
-        response_format: {
-          type: 'json_schema',
-          json_schema: this.getJsonSchema()
-        } as any,
-        messages: [
-          {
-            role: 'system',
-            content: `Analyze n8n workflow templates and extract metadata. Be concise.`
-          },
-          {
-            role: 'user',
-            content: `Template: ${template.name}\nNodes: ${template.nodes.slice(0, 10).join(', ')}`
-          }
-        ]
-      });
-      
-      const content = completion.choices[0].message.content;
-      if (!content) {
-        logger.error('No content in OpenAI response');
-        throw new Error('No content in response');
+    return (await this.generateResult(template)).metadata;
+  }
+  
+  /**
+   * Generate metadata for many templates with providers that have no batch API.
+   * Failed templates carry an error and default metadata, like batch results.
+   */
+  async generateBatch(
+    templates: MetadataRequest[],
+    concurrency: number = 3,
+    progressCallback?: (message: string, current: number, total: number) => void
+  ): Promise<Map<number, MetadataResult>> {
+    const results = new Map<number, MetadataResult>();
+    let next = 0;
+    
+    const worker = async () => {
+      while (next < templates.length) {
+        const template = templates[next++];
+        results.set(template.templateId, await this.generateResult(template));
+        progressCallback?.('Generating metadata', results.size, templates.length);
       }
-      
-      const metadata = JSON.parse(content);
-      return TemplateMetadataSchema.parse(metadata);
+    };
+    
+    await Promise.all(Array.from({ length: Math.max(1, Math.min(concurrency, templates.length)) }, worker));
+    return results;
+  }
+  
+  /**
+   * Generate and validate metadata for a template, throwing on failure
+   */
+  async generate(template: MetadataRequest): Promise<TemplateMetadata> {
+    const { schema } = this.getJsonSchema();
+    const metadata = await this.provider.generateJson<TemplateMetadata>({
+      schemaName: 'template_metadata',
+      jsonSchema: schema,
+      system: `Analyze n8n workflow templates and extract metadata. Be concise.`,
+      prompt: this.buildContext(template),
+      maxTokens: 3000,
+      heuristic: () => generateHeuristicMetadata(template)
+    });
+    
+    return TemplateMetadataSchema.parse(metadata);
+  }
+  
+  private async generateResult(template: MetadataRequest): Promise<MetadataResult> {
+    try {
+      return { templateId: template.templateId, metadata: await this.generate(template) };
     } catch (error) {
       logger.error('Error generating single metadata:', error);
-      return this.getDefaultMetadata();
+      return {
+        templateId: template.templateId,
+        metadata: this.getDefaultMetadata(),
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
     }
   }
-}
\ No newline at end of file
+}
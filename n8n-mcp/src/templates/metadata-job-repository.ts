@@ -0,0 +1,204 @@
+import { DatabaseAdapter } from '../database/database-adapter';
+import { logger } from '../utils/logger';
+
+export type MetadataJobStatus = 'pending' | 'running' | 'completed' | 'failed';
+
+export interface MetadataJob {
+  template_id: number;
+  status: MetadataJobStatus;
+  attempts: number;
+  last_error: string | null;
+  next_attempt_at: number | null; // Epoch ms; null = as soon as possible
+  provider: string | null;
+  model: string | null;
+  updated_at: string;
+}
+
+export interface MetadataJobStats {
+  total: number;
+  pending: number;
+  running: number;
+  completed: number;
+  failed: number;
+}
+
+/**
+ * Per-template job state for metadata generation (table metadata_jobs).
+ *
+ * Jobs survive crashes: rows left 'running' by an interrupted run are reset
+ * to 'pending' by recoverInterrupted(), and completed jobs are skipped, so a
+ * new run only processes the templates that are still missing.
+ */
+export class MetadataJobRepository {
+  constructor(private db: DatabaseAdapter) {
+    this.ensureJobTable();
+  }
+
+  /**
+   * Queue jobs for templates without metadata. Completed jobs whose metadata
+   * was removed are queued again; failed jobs stay failed (see retryFailed).
+   *
+   * @param limit Maximum number of templates to queue (0 = all)
+   * @returns Number of jobs queued
+   */
+  enqueueMissing(limit: number = 0): number {
+    const result = this.db.prepare(`
+      INSERT INTO metadata_jobs (template_id, status)
+      SELECT id, 'pending' FROM templates
+      WHERE (metadata_json IS NULL OR metadata_generated_at IS NULL)
+        AND id NOT IN (SELECT template_id FROM metadata_jobs WHERE status != 'completed')
+      ORDER BY id
+      ${limit > 0 ? 'LIMIT ?' : ''}
+      ON CONFLICT(template_id) DO UPDATE SET
+        status = 'pending', attempts = 0, last_error = NULL, next_attempt_at = NULL,
+        updated_at = CURRENT_TIMESTAMP
+    `).run(...(limit > 0 ? [limit] : []));
+    return result.changes;
+  }
+
+  /**
+   * Queue jobs for specific templates, regenerating existing metadata
+   */
+  enqueue(templateIds: number[]): number {
+    const stmt = this.db.prepare(`
+      INSERT INTO metadata_jobs (template_id, status)
+      SELECT id, 'pending' FROM templates WHERE id = ?
+      ON CONFLICT(template_id) DO UPDATE SET
+        status = 'pending', attempts = 0, last_error = NULL, next_attempt_at = NULL,
+        updated_at = CURRENT_TIMESTAMP
+    `);
+    let queued = 0;
+    for (const templateId of templateIds) {
+      queued += stmt.run(templateId).changes;
+    }
+    return queued;
+  }
+
+  /**
+   * Reset jobs left running by a crashed or interrupted run
+   */
+  recoverInterrupted(): number {
+    const result = this.db.prepare(`
+      UPDATE metadata_jobs SET status = 'pending', updated_at = CURRENT_TIMESTAMP
+      WHERE status = 'running'
+    `).run();
+    if (result.changes > 0) {
+      logger.info(`Recovered ${result.changes} interrupted metadata jobs`);
+    }
+    return result.changes;
+  }
+
+  /**
+   * Queue failed jobs again with a fresh attempt budget
+   */
+  retryFailed(): number {
+    return this.db.prepare(`
+      UPDATE metadata_jobs
+      SET status = 'pending', attempts = 0, next_attempt_at = NULL, updated_at = CURRENT_TIMESTAMP
+      WHERE status = 'failed'
+    `).run().changes;
+  }
+
+  /**
+   * Mark the next due pending job as running and return it
+   */
+  claimNext(now: number = Date.now()): MetadataJob | null {
+    const job = this.db.prepare(`
+      SELECT * FROM metadata_jobs
+      WHERE status = 'pending' AND (next_attempt_at IS NULL OR next_attempt_at <= ?)
+      ORDER BY attempts, template_id
+      LIMIT 1
+    `).get(now) as MetadataJob | undefined;
+    if (!job) return null;
+
+    this.db.prepare(`
+      UPDATE metadata_jobs
+      SET status = 'running', attempts = attempts + 1, updated_at = CURRENT_TIMESTAMP
+      WHERE template_id = ?
+    `).run(job.template_id);
+    return { ...job, status: 'running', attempts: job.attempts + 1 };
+  }
+
+  /**
+   * Earliest retry time of pending jobs that are not due yet
+   */
+  getNextRetryAt(): number | null {
+    const row = this.db.prepare(`
+      SELECT MIN(next_attempt_at) as next FROM metadata_jobs
+      WHERE status = 'pending' AND next_attempt_at IS NOT NULL
+    `).get() as { next: number | null };
+    return row.next;
+  }
+
+  markCompleted(templateId: number, provider: string, model: string): void {
+    this.db.prepare(`
+      UPDATE metadata_jobs
+      SET status = 'completed', last_error = NULL, next_attempt_at = NULL,
+          provider = ?, model = ?, updated_at = CURRENT_TIMESTAMP
+      WHERE template_id = ?
+    `).run(provider, model, templateId);
+  }
+
+  /**
+   * Record a failed attempt
+   *
+   * @param retryAt Epoch ms of the next attempt, or null to give up
+   */
+  markFailed(templateId: number, error: string, retryAt: number | null): void {
+    this.db.prepare(`
+      UPDATE metadata_jobs
+      SET status = ?, last_error = ?, next_attempt_at = ?, updated_at = CURRENT_TIMESTAMP
+      WHERE template_id = ?
+    `).run(retryAt === null ? 'failed' : 'pending', error, retryAt, templateId);
+  }
+
+  getJob(templateId: number): MetadataJob | null {
+    const job = this.db.prepare('SELECT * FROM metadata_jobs WHERE template_id = ?').get(templateId) as MetadataJob | undefined;
+    return job ?? null;
+  }
+
+  getFailedJobs(limit: number = 100): MetadataJob[] {
+    return this.db.prepare(`
+      SELECT * FROM metadata_jobs WHERE status = 'failed' ORDER BY template_id LIMIT ?
+    `).all(limit) as MetadataJob[];
+  }
+
+  getStats(): MetadataJobStats {
+    const rows = this.db.prepare(`
+      SELECT status, COUNT(*) as count FROM metadata_jobs GROUP BY status
+    `).all() as Array<{ status: MetadataJobStatus; count: number }>;
+
+    const stats: MetadataJobStats = { total: 0, pending: 0, running: 0, completed: 0, failed: 0 };
+    for (const row of rows) {
+      stats[row.status] = row.count;
+      stats.total += row.count;
+    }
+    return stats;
+  }
+
+  /**
+   * Remove all job state
+   */
+  clear(): void {
+    this.db.exec('DELETE FROM metadata_jobs');
+  }
+
+  /**
+   * Databases built before metadata jobs existed lack the table
+   */
+  private ensureJobTable(): void {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS metadata_jobs (
+        template_id INTEGER PRIMARY KEY,
+        status TEXT NOT NULL DEFAULT 'pending' CHECK(status IN ('pending', 'running', 'completed', 'failed')),
+        attempts INTEGER NOT NULL DEFAULT 0,
+        last_error TEXT,
+        next_attempt_at INTEGER,
+        provider TEXT,
+        model TEXT,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      );
+      CREATE INDEX IF NOT EXISTS idx_metadata_jobs_status ON metadata_jobs(status, next_attempt_at);
+    `);
+  }
+}
@@ -0,0 +1,213 @@
+/**
+ * Synchronous, resumable template metadata generation.
+ *
+ * Works through the jobs in metadata_jobs with concurrent provider calls,
+ * a requests-per-minute limit and exponential backoff between attempts.
+ * Each result is written as soon as it arrives, so an interrupted run loses
+ * at most the in-flight templates; the next run continues with the rest.
+ */
+
+import { DatabaseAdapter } from '../database/database-adapter';
+import { LLMProvider, LLMUsage, estimateCostUsd } from '../llm';
+import { calculateBackoffDelay, RetryConfig } from '../utils/cache-utils';
+import { logger } from '../utils/logger';
+import { MetadataGenerator, createMetadataRequest } from './metadata-generator';
+import { MetadataJobRepository } from './metadata-job-repository';
+import { TemplateRepository } from './template-repository';
+
+export interface MetadataJobRunnerOptions {
+  /** Parallel provider calls (default: 3) */
+  concurrency?: number;
+  /** Provider calls started per minute, 0 = unlimited (default: 0) */
+  requestsPerMinute?: number;
+  /** Attempts per template before its job is marked failed (default: 3) */
+  maxAttempts?: number;
+  /** Backoff between attempts (default: 2s doubling up to 60s, 30% jitter) */
+  retry?: Partial<Omit<RetryConfig, 'maxAttempts'>>;
+  progressCallback?: (progress: MetadataJobProgress) => void;
+}
+
+export interface MetadataJobProgress {
+  /** Jobs due when the run started */
+  total: number;
+  completed: number;
+  /** Jobs that used up their attempts */
+  failed: number;
+  /** Failed attempts scheduled for a retry */
+  retried: number;
+  /** Pending and running jobs */
+  remaining: number;
+  /** Cost of this run so far in USD (null: unknown model price) */
+  costUsd: number | null;
+  /** Projected cost of this run in USD (null: unknown model price) */
+  estimatedTotalCostUsd: number | null;
+}
+
+export interface MetadataJobRunResult extends MetadataJobProgress {
+  durationMs: number;
+  stopped: boolean;
+}
+
+/** Assumed tokens per template until the run has measured its own */
+const DEFAULT_TOKENS_PER_TEMPLATE = { promptTokens: 500, completionTokens: 400 };
+
+const DEFAULT_RETRY: Omit<RetryConfig, 'maxAttempts'> = {
+  baseDelayMs: 2000,
+  maxDelayMs: 60000,
+  jitterFactor: 0.3
+};
+
+// Poll interval while other workers may still schedule retries
+const IDLE_POLL_MS = 100;
+
+export class MetadataJobRunner {
+  private jobs: MetadataJobRepository;
+  private templates: TemplateRepository;
+  private generator: MetadataGenerator;
+  private concurrency: number;
+  private requestsPerMinute: number;
+  private maxAttempts: number;
+  private retry: RetryConfig;
+  private progressCallback?: (progress: MetadataJobProgress) => void;
+  private nextSlotAt = 0;
+  private stopRequested = false;
+
+  constructor(db: DatabaseAdapter, private provider: LLMProvider, options: MetadataJobRunnerOptions = {}) {
+    this.jobs = new MetadataJobRepository(db);
+    this.templates = new TemplateRepository(db);
+    this.generator = new MetadataGenerator(provider);
+    this.concurrency = Math.max(1, options.concurrency ?? 3);
+    this.requestsPerMinute = Math.max(0, options.requestsPerMinute ?? 0);
+    this.maxAttempts = Math.max(1, options.maxAttempts ?? 3);
+    this.retry = { ...DEFAULT_RETRY, ...options.retry, maxAttempts: this.maxAttempts };
+    this.progressCallback = options.progressCallback;
+  }
+
+  /**
+   * Estimated cost in USD of generating metadata for the given number of
+   * templates (null: unknown model price)
+   */
+  estimateCost(templateCount: number): number | null {
+    return estimateCostUsd(this.provider.id, this.provider.model, {
+      promptTokens: DEFAULT_TOKENS_PER_TEMPLATE.promptTokens * templateCount,
+      completionTokens: DEFAULT_TOKENS_PER_TEMPLATE.completionTokens * templateCount
+    });
+  }
+
+  /**
+   * Stop claiming new jobs; in-flight jobs finish and run() resolves
+   */
+  stop(): void {
+    this.stopRequested = true;
+  }
+
+  /**
+   * Process pending jobs until none are left (or stop() is called)
+   */
+  async run(): Promise<MetadataJobRunResult> {
+    const startedAt = Date.now();
+    const startUsage = this.provider.getUsage();
+    this.stopRequested = false;
+    this.jobs.recoverInterrupted();
+
+    const progress: MetadataJobProgress = {
+      total: this.jobs.getStats().pending,
+      completed: 0,
+      failed: 0,
+      retried: 0,
+      remaining: 0,
+      costUsd: 0,
+      estimatedTotalCostUsd: this.estimateCost(0)
+    };
+    this.updateProgress(progress, startUsage);
+    let inFlight = 0;
+
+    const worker = async () => {
+      while (!this.stopRequested) {
+        const job = this.jobs.claimNext(Date.now());
+        if (!job) {
+          const nextRetryAt = this.jobs.getNextRetryAt();
+          if (nextRetryAt === null && inFlight === 0) return;
+          await this.sleep(nextRetryAt === null ? IDLE_POLL_MS : Math.min(Math.max(0, nextRetryAt - Date.now()), 1000));
+          continue;
+        }
+
+        inFlight++;
+        try {
+          const template = this.templates.getTemplate(job.template_id);
+          if (!template) {
+            this.jobs.markFailed(job.template_id, 'Template not found', null);
+            progress.failed++;
+            continue;
+          }
+
+          await this.waitForRateLimit();
+          const metadata = await this.generator.generate(createMetadataRequest(template));
+          this.templates.updateTemplateMetadata(job.template_id, metadata);
+          this.jobs.markCompleted(job.template_id, this.provider.id, this.provider.model);
+          progress.completed++;
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          if (job.attempts < this.maxAttempts) {
+            const delay = calculateBackoffDelay(job.attempts - 1, this.retry);
+            this.jobs.markFailed(job.template_id, message, Date.now() + delay);
+            progress.retried++;
+            logger.debug(`Metadata for template ${job.template_id} failed (attempt ${job.attempts}), retrying in ${delay}ms: ${message}`);
+          } else {
+            this.jobs.markFailed(job.template_id, message, null);
+            progress.failed++;
+            logger.warn(`Metadata for template ${job.template_id} failed after ${job.attempts} attempts: ${message}`);
+          }
+        } finally {
+          inFlight--;
+          this.updateProgress(progress, startUsage);
+          this.progressCallback?.({ ...progress });
+        }
+      }
+    };
+
+    await Promise.all(Array.from({ length: this.concurrency }, worker));
+
+    this.updateProgress(progress, startUsage);
+    return { ...progress, durationMs: Date.now() - startedAt, stopped: this.stopRequested };
+  }
+
+  private updateProgress(progress: MetadataJobProgress, startUsage: LLMUsage): void {
+    const stats = this.jobs.getStats();
+    progress.remaining = stats.pending + stats.running;
+
+    const usage = this.provider.getUsage();
+    const runUsage = {
+      promptTokens: usage.promptTokens - startUsage.promptTokens,
+      completionTokens: usage.completionTokens - startUsage.completionTokens
+    };
+    progress.costUsd = estimateCostUsd(this.provider.id, this.provider.model, runUsage);
+
+    // Project the remaining jobs from the measured cost per template, once there is one
+    const measured = progress.completed + progress.failed + progress.retried;
+    const remainingCost = progress.costUsd !== null && measured > 0 && runUsage.promptTokens > 0
+      ? (progress.costUsd / measured) * progress.remaining
+      : this.estimateCost(progress.remaining);
+    progress.estimatedTotalCostUsd = progress.costUsd === null || remainingCost === null
+      ? null
+      : progress.costUsd + remainingCost;
+  }
+
+  /**
+   * Space provider calls evenly to stay under requestsPerMinute
+   */
+  private async waitForRateLimit(): Promise<void> {
+    if (this.requestsPerMinute === 0) return;
+
+    const now = Date.now();
+    const slot = Math.max(now, this.nextSlotAt);
+    this.nextSlotAt = slot + 60000 / this.requestsPerMinute;
+    if (slot > now) {
+      await this.sleep(slot - now);
+    }
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+}
@@ -0,0 +1,178 @@
+import * as zlib from 'zlib';
+import { DatabaseAdapter } from '../database/database-adapter';
+
+export interface TemplateNodeConfig {
+  node_type: string;
+  template_id: number;
+  template_name: string;
+  template_views: number;
+  node_name: string;
+  parameters_json: string;
+  credentials_json: string | null;
+  has_credentials: number;
+  has_expressions: number;
+  complexity: string;
+  use_cases: string;
+}
+
+/** Configs kept per node type */
+const MAX_CONFIGS_PER_NODE = 10;
+
+/**
+ * Extract node configurations from a template workflow
+ */
+export function extractNodeConfigs(
+  templateId: number,
+  templateName: string,
+  templateViews: number,
+  workflowCompressed: string,
+  metadata: any
+): TemplateNodeConfig[] {
+  try {
+    // Decompress workflow
+    const decompressed = zlib.gunzipSync(Buffer.from(workflowCompressed, 'base64'));
+    const workflow = JSON.parse(decompressed.toString('utf-8'));
+
+    const configs: TemplateNodeConfig[] = [];
+
+    for (const node of workflow.nodes || []) {
+      // Skip UI-only nodes (sticky notes, etc.)
+      if (node.type.includes('stickyNote') || !node.parameters) {
+        continue;
+      }
+
+      configs.push({
+        node_type: node.type,
+        template_id: templateId,
+        template_name: templateName,
+        template_views: templateViews,
+        node_name: node.name,
+        parameters_json: JSON.stringify(node.parameters),
+        credentials_json: node.credentials ? JSON.stringify(node.credentials) : null,
+        has_credentials: node.credentials ? 1 : 0,
+        has_expressions: detectExpressions(node.parameters) ? 1 : 0,
+        complexity: metadata?.complexity || 'medium',
+        use_cases: JSON.stringify(metadata?.use_cases || [])
+      });
+    }
+
+    return configs;
+  } catch (error) {
+    console.error(`Error extracting configs from template ${templateId}:`, error);
+    return [];
+  }
+}
+
+/**
+ * Detect n8n expressions in parameters
+ */
+export function detectExpressions(params: any): boolean {
+  if (!params) return false;
+  const json = JSON.stringify(params);
+  return json.includes('={{') || json.includes('$json') || json.includes('$node');
+}
+
+/**
+ * Delete the template configs of node types (e.g. nodes removed from n8n)
+ */
+export function deleteTemplateNodeConfigs(db: DatabaseAdapter, nodeTypes: string[]): number {
+  if (nodeTypes.length === 0 || !hasConfigTable(db)) return 0;
+  let deleted = 0;
+  for (const chunk of chunks(nodeTypes)) {
+    deleted += db.prepare(
+      `DELETE FROM template_node_configs WHERE node_type IN (${chunk.map(() => '?').join(',')})`
+    ).run(...chunk).changes;
+  }
+  return deleted;
+}
+
+/**
+ * Re-extract and re-rank the template configs of some node types only,
+ * leaving the configs of all other nodes untouched. Node types use the
+ * workflow format (n8n-nodes-base.slack), like the templates.
+ *
+ * @returns Number of configs stored for the node types
+ */
+export function refreshTemplateNodeConfigs(db: DatabaseAdapter, nodeTypes: string[]): number {
+  if (nodeTypes.length === 0 || !hasConfigTable(db)) return 0;
+  deleteTemplateNodeConfigs(db, nodeTypes);
+
+  const wanted = new Set(nodeTypes);
+  const insert = db.prepare(`
+    INSERT INTO template_node_configs (
+      node_type, template_id, template_name, template_views,
+      node_name, parameters_json, credentials_json,
+      has_credentials, has_expressions, complexity, use_cases
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+  const templates = db.prepare(`
+    SELECT id, name, views, workflow_json_compressed, metadata_json
+    FROM templates
+    WHERE workflow_json_compressed IS NOT NULL
+  `).all() as any[];
+
+  for (const template of templates) {
+    let metadata = null;
+    try {
+      metadata = template.metadata_json ? JSON.parse(template.metadata_json) : null;
+    } catch {
+      // Configs are still useful without metadata
+    }
+    const configs = extractNodeConfigs(template.id, template.name, template.views, template.workflow_json_compressed, metadata);
+    for (const config of configs) {
+      if (!wanted.has(config.node_type)) continue;
+      insert.run(
+        config.node_type,
+        config.template_id,
+        config.template_name,
+        config.template_views,
+        config.node_name,
+        config.parameters_json,
+        config.credentials_json,
+        config.has_credentials,
+        config.has_expressions,
+        config.complexity,
+        config.use_cases
+      );
+    }
+  }
+
+  let stored = 0;
+  for (const chunk of chunks(nodeTypes)) {
+    const placeholders = chunk.map(() => '?').join(',');
+    db.prepare(`
+      UPDATE template_node_configs
+      SET rank = (
+        SELECT COUNT(*) + 1
+        FROM template_node_configs AS t2
+        WHERE t2.node_type = template_node_configs.node_type
+          AND t2.template_views > template_node_configs.template_views
+      )
+      WHERE node_type IN (${placeholders})
+    `).run(...chunk);
+    db.prepare(
+      `DELETE FROM template_node_configs WHERE node_type IN (${placeholders}) AND rank > ${MAX_CONFIGS_PER_NODE}`
+    ).run(...chunk);
+    stored += (db.prepare(
+      `SELECT COUNT(*) as count FROM template_node_configs WHERE node_type IN (${placeholders})`
+    ).get(...chunk) as { count: number }).count;
+  }
+  return stored;
+}
+
+function hasConfigTable(db: DatabaseAdapter): boolean {
+  const row = db.prepare(`
+    SELECT COUNT(*) as count FROM sqlite_master
+    WHERE type = 'table' AND name IN ('template_node_configs', 'templates')
+  `).get() as { count: number };
+  return row.count === 2;
+}
+
+/** SQLite limits the number of bound parameters */
+function chunks<T>(values: T[], size = 500): T[][] {
+  const result: T[][] = [];
+  for (let i = 0; i < values.length; i += size) {
+    result.push(values.slice(i, i + size));
+  }
+  return result;
+}
@@ -231,6 +231,20 @@ export class TemplateRepository {
     return row;
   }
   
+  /**
+   * Get templates by ID, in the order of the given IDs (workflow JSON is not decompressed)
+   */
+  getTemplatesByIds(templateIds: number[]): StoredTemplate[] {
+    if (templateIds.length === 0) return [];
+
+    const rows = this.db.prepare(`
+      SELECT * FROM templates WHERE id IN (${templateIds.map(() => '?').join(',')})
+    `).all(...templateIds) as StoredTemplate[];
+
+    const byId = new Map(rows.map(row => [row.id, row]));
+    return templateIds.map(id => byId.get(id)).filter((row): row is StoredTemplate => !!row);
+  }
+  
   /**
    * Decompress workflow JSON for a template
    */
@@ -145,6 +145,16 @@ export class TemplateService {
     };
   }
   
+  /**
+   * Get templates by ID in the given order, e.g. as ranked by semantic search
+   */
+  async getTemplatesByIds(templateIds: number[], fields?: string[]): Promise<PartialTemplateInfo[]> {
+    const templates = this.repository.getTemplatesByIds(templateIds);
+    return fields
+      ? templates.map(t => this.formatTemplateWithFields(t, fields))
+      : templates.map(t => this.formatTemplateInfo(t));
+  }
+  
   /**
    * Get templates for a specific task
    */
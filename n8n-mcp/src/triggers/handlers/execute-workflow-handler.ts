@@ -0,0 +1,31 @@
+/**
+ * Execute Workflow trigger handler
+ *
+ * Handles sub-workflows started by an Execute Workflow Trigger:
+ * - Calls the real workflow from a temporary caller workflow
+ * - The input data is the single item the sub-workflow receives
+ * - Workflow does not need to be active, but its callerPolicy must allow
+ *   calls from other workflows
+ */
+
+import { Workflow } from '../../types/n8n-api';
+import { WrapperTriggerType, DetectedTrigger } from '../types';
+import { buildExecuteWorkflowWrapper, WrapperWorkflowOptions } from '../wrapper-workflow';
+import { WrapperTriggerHandler, wrapperInputSchema } from './wrapper-handler';
+
+/**
+ * Execute Workflow trigger handler
+ */
+export class ExecuteWorkflowHandler extends WrapperTriggerHandler {
+  readonly triggerType: WrapperTriggerType = 'executeWorkflow';
+
+  readonly inputSchema = wrapperInputSchema('executeWorkflow');
+
+  protected buildWrapper(
+    workflow: Workflow,
+    _triggerInfo: DetectedTrigger,
+    options: WrapperWorkflowOptions
+  ): Partial<Workflow> {
+    return buildExecuteWorkflowWrapper(workflow, options);
+  }
+}
@@ -0,0 +1,31 @@
+/**
+ * Manual trigger handler
+ *
+ * Handles Manual Trigger (and legacy Start) workflows:
+ * - Runs a temporary copy of the workflow whose manual trigger is replaced
+ *   by a webhook
+ * - The trigger outputs the input data as a single item
+ * - Workflow does not need to be active
+ */
+
+import { Workflow } from '../../types/n8n-api';
+import { WrapperTriggerType, DetectedTrigger } from '../types';
+import { buildTriggerReplacementWorkflow, WrapperWorkflowOptions } from '../wrapper-workflow';
+import { WrapperTriggerHandler, wrapperInputSchema } from './wrapper-handler';
+
+/**
+ * Manual trigger handler
+ */
+export class ManualHandler extends WrapperTriggerHandler {
+  readonly triggerType: WrapperTriggerType = 'manual';
+
+  readonly inputSchema = wrapperInputSchema('manual');
+
+  protected buildWrapper(
+    workflow: Workflow,
+    triggerInfo: DetectedTrigger,
+    options: WrapperWorkflowOptions
+  ): Partial<Workflow> {
+    return buildTriggerReplacementWorkflow(workflow, triggerInfo.node, 'manual', options);
+  }
+}
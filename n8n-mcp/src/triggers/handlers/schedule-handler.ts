@@ -0,0 +1,31 @@
+/**
+ * Schedule trigger handler
+ *
+ * Handles Schedule Trigger (and legacy Cron/Interval) workflows:
+ * - Runs a temporary copy of the workflow whose schedule trigger is replaced
+ *   by a webhook
+ * - The trigger outputs the usual timestamp fields, overridden by the input data
+ * - Workflow does not need to be active
+ */
+
+import { Workflow } from '../../types/n8n-api';
+import { WrapperTriggerType, DetectedTrigger } from '../types';
+import { buildTriggerReplacementWorkflow, WrapperWorkflowOptions } from '../wrapper-workflow';
+import { WrapperTriggerHandler, wrapperInputSchema } from './wrapper-handler';
+
+/**
+ * Schedule trigger handler
+ */
+export class ScheduleHandler extends WrapperTriggerHandler {
+  readonly triggerType: WrapperTriggerType = 'schedule';
+
+  readonly inputSchema = wrapperInputSchema('schedule');
+
+  protected buildWrapper(
+    workflow: Workflow,
+    triggerInfo: DetectedTrigger,
+    options: WrapperWorkflowOptions
+  ): Partial<Workflow> {
+    return buildTriggerReplacementWorkflow(workflow, triggerInfo.node, 'schedule', options);
+  }
+}
@@ -2,13 +2,13 @@
  * Webhook trigger handler
  *
  * Handles webhook-based workflow triggers:
- * - Supports GET, POST, PUT, DELETE methods
- * - Passes data as body (POST/PUT/DELETE) or query params (GET)
+ * - Supports GET, POST, PUT, PATCH, DELETE, HEAD methods
+ * - Passes data as body (POST/PUT/PATCH/DELETE) or query params (GET/HEAD)
  * - Includes SSRF protection
  */
 
 import { z } from 'zod';
-import { Workflow, WebhookRequest } from '../../types/n8n-api';
+import { Workflow, WebhookRequest, WebhookHttpMethod } from '../../types/n8n-api';
 import {
   TriggerType,
   TriggerResponse,
@@ -25,7 +25,7 @@ import { buildTriggerUrl } from '../trigger-detector';
 const webhookInputSchema = z.object({
   workflowId: z.string(),
   triggerType: z.literal('webhook'),
-  httpMethod: z.enum(['GET', 'POST', 'PUT', 'DELETE']).optional(),
+  httpMethod: z.enum(['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'HEAD']).optional(),
   webhookPath: z.string().optional(),
   data: z.record(z.unknown()).optional(),
   headers: z.record(z.string()).optional(),
@@ -41,7 +41,7 @@ export class WebhookHandler extends BaseTriggerHandler<WebhookTriggerInput> {
 
   readonly capabilities: TriggerHandlerCapabilities = {
     requiresActiveWorkflow: true,
-    supportedMethods: ['GET', 'POST', 'PUT', 'DELETE'],
+    supportedMethods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'HEAD'],
     canPassInputData: true,
   };
 
@@ -90,7 +90,7 @@ export class WebhookHandler extends BaseTriggerHandler<WebhookTriggerInput> {
       // Build webhook request
       const webhookRequest: WebhookRequest = {
         webhookUrl,
-        httpMethod: httpMethod as 'GET' | 'POST' | 'PUT' | 'DELETE',
+        httpMethod: httpMethod as WebhookHttpMethod,
         data: input.data,
         headers: input.headers,
         waitForResponse: input.waitForResponse ?? true,
@@ -0,0 +1,216 @@
+/**
+ * Wrapper trigger handler - base class for triggers without an HTTP endpoint
+ *
+ * Schedule, manual and Execute Workflow triggers are started through a
+ * temporary webhook workflow:
+ * - Creates and activates the wrapper workflow
+ * - Calls its webhook with the input data as POST body
+ * - Deactivates the wrapper right after the call, so its public webhook does
+ *   not outlive the test
+ * - Deletes the wrapper (and its executions) unless keepWrapper is set. Runs
+ *   not waited for are deleted once they finished
+ */
+
+import { z } from 'zod';
+import { randomUUID } from 'crypto';
+import { Workflow, WebhookRequest } from '../../types/n8n-api';
+import { N8nApiClient } from '../../services/n8n-api-client';
+import { waitForExecution } from '../../services/execution-waiter';
+import { logger } from '../../utils/logger';
+import {
+  TriggerResponse,
+  TriggerHandlerCapabilities,
+  DetectedTrigger,
+  WrapperTriggerInput,
+  WrapperTriggerType,
+} from '../types';
+import { WrapperWorkflowOptions, wrapperWebhookPath } from '../wrapper-workflow';
+import { BaseTriggerHandler } from './base-handler';
+
+/**
+ * Zod schema for wrapper trigger input validation
+ */
+export function wrapperInputSchema(triggerType: WrapperTriggerType) {
+  return z.object({
+    workflowId: z.string(),
+    triggerType: z.literal(triggerType),
+    data: z.record(z.unknown()).optional(),
+    headers: z.record(z.string()).optional(),
+    timeout: z.number().optional(),
+    waitForResponse: z.boolean().optional(),
+    keepWrapper: z.boolean().optional(),
+  });
+}
+
+/**
+ * Delete a wrapper workflow. Failures are logged, not thrown - the trigger
+ * result matters more than the cleanup.
+ *
+ * @returns Whether the wrapper was deleted
+ */
+export async function removeWrapperWorkflow(client: N8nApiClient, wrapperWorkflowId: string): Promise<boolean> {
+  try {
+    await client.deleteWorkflow(wrapperWorkflowId);
+    return true;
+  } catch (error) {
+    logger.warn(`Failed to delete wrapper workflow ${wrapperWorkflowId}`, error);
+    return false;
+  }
+}
+
+/**
+ * Deactivate a wrapper workflow, so its webhook stops accepting calls.
+ * Running executions are not affected. Failures are logged, not thrown.
+ *
+ * @returns Whether the wrapper was deactivated
+ */
+export async function deactivateWrapperWorkflow(client: N8nApiClient, wrapperWorkflowId: string): Promise<boolean> {
+  try {
+    await client.deactivateWorkflow(wrapperWorkflowId);
+    return true;
+  } catch (error) {
+    logger.warn(`Failed to deactivate wrapper workflow ${wrapperWorkflowId}`, error);
+    return false;
+  }
+}
+
+/**
+ * Delete a wrapper workflow once its execution has finished - deleting it
+ * earlier deletes the running execution. A wrapper whose run is still going
+ * (or waiting) after the timeout is left in place, so it should be
+ * deactivated first.
+ *
+ * @returns Whether the wrapper was deleted
+ */
+export async function removeWrapperWorkflowWhenFinished(
+  client: N8nApiClient,
+  wrapperWorkflowId: string,
+  timeout?: number
+): Promise<boolean> {
+  try {
+    const { outcome } = await waitForExecution(client, {
+      workflowId: wrapperWorkflowId,
+      knownExecutionIds: new Set(),
+      timeout,
+    });
+    if (outcome !== 'finished') {
+      logger.warn(`Wrapper workflow ${wrapperWorkflowId} was left deactivated - its execution did not finish (${outcome})`);
+      return false;
+    }
+  } catch (error) {
+    logger.warn(`Failed to check the execution of wrapper workflow ${wrapperWorkflowId}`, error);
+    return false;
+  }
+  return removeWrapperWorkflow(client, wrapperWorkflowId);
+}
+
+/**
+ * Abstract handler that triggers a workflow through a temporary webhook workflow
+ */
+export abstract class WrapperTriggerHandler extends BaseTriggerHandler<WrapperTriggerInput> {
+  abstract readonly triggerType: WrapperTriggerType;
+
+  readonly capabilities: TriggerHandlerCapabilities = {
+    requiresActiveWorkflow: false,
+    canPassInputData: true,
+  };
+
+  /**
+   * Build the wrapper workflow for the detected trigger
+   */
+  protected abstract buildWrapper(
+    workflow: Workflow,
+    triggerInfo: DetectedTrigger,
+    options: WrapperWorkflowOptions
+  ): Partial<Workflow>;
+
+  async execute(
+    input: WrapperTriggerInput,
+    workflow: Workflow,
+    triggerInfo?: DetectedTrigger
+  ): Promise<TriggerResponse> {
+    const startTime = Date.now();
+
+    const baseUrl = this.getBaseUrl();
+    if (!baseUrl) {
+      return this.errorResponse(input, 'Cannot determine n8n base URL', startTime);
+    }
+    if (!triggerInfo) {
+      return this.errorResponse(input, `Workflow has no ${this.triggerType} trigger to start`, startTime);
+    }
+
+    const webhookId = randomUUID();
+    const webhookPath = wrapperWebhookPath(webhookId);
+    const webhookUrl = `${baseUrl.replace(/\/+$/, '')}/webhook/${webhookPath}`;
+    let wrapperWorkflowId: string | undefined;
+    let wrapperActivated = false;
+    let response: TriggerResponse;
+
+    try {
+      // SSRF protection - validate the webhook URL before creating anything
+      const { SSRFProtection } = await import('../../utils/ssrf-protection');
+      const validation = await SSRFProtection.validateWebhookUrl(webhookUrl);
+      if (!validation.valid) {
+        return this.errorResponse(input, `SSRF protection: ${validation.reason}`, startTime);
+      }
+
+      const wrapper = await this.client.createWorkflow(
+        this.buildWrapper(workflow, triggerInfo, { webhookId, waitForResponse: input.waitForResponse })
+      );
+      wrapperWorkflowId = wrapper.id;
+      await this.client.activateWorkflow(wrapper.id!);
+      wrapperActivated = true;
+
+      const webhookRequest: WebhookRequest = {
+        webhookUrl,
+        httpMethod: 'POST',
+        data: input.data,
+        headers: input.headers,
+        waitForResponse: input.waitForResponse ?? true,
+      };
+      const result = await this.client.triggerWebhook(webhookRequest);
+
+      response = this.normalizeResponse(result, input, startTime, {
+        status: result.status,
+        statusText: result.statusText,
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      const errorDetails = (error as any)?.details;
+
+      response = this.errorResponse(input, errorMessage, startTime, {
+        executionId: errorDetails?.executionId || errorDetails?.id,
+        code: (error as any)?.code,
+        details: errorDetails,
+      });
+    }
+
+    // The webhook is public and only needed for the call above - a kept wrapper stays inactive
+    const wrapperDeactivated = wrapperActivated && wrapperWorkflowId !== undefined
+      ? await deactivateWrapperWorkflow(this.client, wrapperWorkflowId)
+      : false;
+
+    let wrapperRemoved = false;
+    let wrapperRemovalScheduled = false;
+    if (wrapperWorkflowId !== undefined && !input.keepWrapper) {
+      if (input.waitForResponse === false && response.success) {
+        // The run may still be in progress and would be deleted with the wrapper
+        void removeWrapperWorkflowWhenFinished(this.client, wrapperWorkflowId);
+        wrapperRemovalScheduled = true;
+      } else {
+        wrapperRemoved = await removeWrapperWorkflow(this.client, wrapperWorkflowId);
+      }
+    }
+
+    response.metadata = {
+      ...response.metadata,
+      duration: Date.now() - startTime,
+      webhookPath,
+      wrapperWorkflowId,
+      wrapperDeactivated,
+      wrapperRemoved,
+      ...(wrapperRemovalScheduled ? { wrapperRemovalScheduled } : {}),
+    };
+    return response;
+  }
+}
@@ -5,6 +5,8 @@
  * - webhook: HTTP-based triggers
  * - form: Form submission triggers
  * - chat: Chat/AI triggers
+ * - schedule, manual, executeWorkflow: started through a temporary webhook
+ *   wrapper workflow
  *
  * Note: n8n's public API does not support direct workflow execution.
  * Only workflows with these trigger types can be triggered externally.
@@ -17,6 +19,8 @@ export {
   WebhookTriggerInput,
   FormTriggerInput,
   ChatTriggerInput,
+  WrapperTriggerType,
+  WrapperTriggerInput,
   TriggerInput,
   TriggerResponse,
   TriggerHandlerCapabilities,
@@ -44,3 +48,11 @@ export {
   BaseTriggerHandler,
   TriggerHandlerConstructor,
 } from './handlers/base-handler';
+
+// Wrapper handler
+export {
+  WrapperTriggerHandler,
+  deactivateWrapperWorkflow,
+  removeWrapperWorkflow,
+  removeWrapperWorkflowWhenFinished,
+} from './handlers/wrapper-handler';
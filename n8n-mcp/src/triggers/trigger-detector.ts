@@ -23,6 +23,23 @@ const CHAT_PATTERNS = [
   'chattrigger',
 ];
 
+const EXECUTE_WORKFLOW_PATTERNS = [
+  'executeworkflowtrigger',
+];
+
+// cron and interval are the legacy schedule nodes
+const SCHEDULE_PATTERNS = [
+  'scheduletrigger',
+  'cron',
+  'interval',
+];
+
+// start is the legacy manual trigger
+const MANUAL_PATTERNS = [
+  'manualtrigger',
+  'start',
+];
+
 /**
  * Detect the trigger type from a workflow
  *
@@ -30,9 +47,14 @@ const CHAT_PATTERNS = [
  * 1. Webhook trigger (most common for API access)
  * 2. Chat trigger (AI-specific)
  * 3. Form trigger
+ * 4. Execute Workflow trigger (sub-workflows)
+ * 5. Schedule trigger
+ * 6. Manual trigger
  *
  * Note: n8n's public API does not support direct workflow execution.
- * Only workflows with webhook/form/chat triggers can be triggered externally.
+ * Webhook/form/chat triggers are called directly; execute workflow,
+ * schedule and manual triggers are started through a temporary webhook
+ * wrapper workflow.
  */
 export function detectTriggerFromWorkflow(workflow: Workflow): TriggerDetectionResult {
   if (!workflow.nodes || workflow.nodes.length === 0) {
@@ -83,25 +105,52 @@ export function detectTriggerFromWorkflow(workflow: Workflow): TriggerDetectionR
     }
   }
 
+  // Triggers without an HTTP endpoint, started through a wrapper workflow
+  const wrapperTriggers: Array<[TriggerType, string[]]> = [
+    ['executeWorkflow', EXECUTE_WORKFLOW_PATTERNS],
+    ['schedule', SCHEDULE_PATTERNS],
+    ['manual', MANUAL_PATTERNS],
+  ];
+  for (const [type, patterns] of wrapperTriggers) {
+    for (const node of triggerNodes) {
+      if (matchesNodeName(node, patterns)) {
+        return {
+          detected: true,
+          trigger: { type, node },
+        };
+      }
+    }
+  }
+
   // No externally-triggerable trigger found
   return {
     detected: false,
-    reason: `Workflow has trigger nodes but none support external triggering (found: ${triggerNodes.map(n => n.type).join(', ')}). Only webhook, form, and chat triggers can be triggered via the API.`,
+    reason: `Workflow has trigger nodes but none support external triggering (found: ${triggerNodes.map(n => n.type).join(', ')}). Only webhook, form, chat, execute workflow, schedule, and manual triggers can be triggered via the API.`,
   };
 }
 
 /**
  * Check if a node type is a trigger
  */
-function isTriggerNodeType(nodeType: string): boolean {
+export function isTriggerNodeType(nodeType: string): boolean {
   const normalized = normalizeNodeType(nodeType).toLowerCase();
   return (
     normalized.includes('trigger') ||
     normalized.includes('webhook') ||
-    normalized === 'nodes-base.start'
+    normalized === 'nodes-base.start' ||
+    normalized === 'nodes-base.cron' ||
+    normalized === 'nodes-base.interval'
   );
 }
 
+/**
+ * Check if the node type name (without package) matches one of the patterns
+ */
+function matchesNodeName(node: WorkflowNode, patterns: string[]): boolean {
+  const nodeName = normalizeNodeType(node.type).toLowerCase().split('.').pop() || '';
+  return patterns.includes(nodeName);
+}
+
 /**
  * Detect webhook trigger and extract configuration
  */
@@ -315,6 +364,15 @@ export function describeTrigger(trigger: DetectedTrigger): string {
     case 'chat':
       return `Chat trigger (${trigger.chatConfig?.responseMode || 'lastNode'} mode)`;
 
+    case 'executeWorkflow':
+      return `Execute Workflow trigger (${trigger.node.name}, called through a temporary wrapper workflow)`;
+
+    case 'schedule':
+      return `Schedule trigger (${trigger.node.name}, started through a temporary webhook copy)`;
+
+    case 'manual':
+      return `Manual trigger (${trigger.node.name}, started through a temporary webhook copy)`;
+
     default:
       return 'Unknown trigger';
   }
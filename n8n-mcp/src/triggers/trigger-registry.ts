@@ -99,11 +99,17 @@ export async function initializeTriggerRegistry(): Promise<void> {
   const { WebhookHandler } = await import('./handlers/webhook-handler');
   const { FormHandler } = await import('./handlers/form-handler');
   const { ChatHandler } = await import('./handlers/chat-handler');
+  const { ScheduleHandler } = await import('./handlers/schedule-handler');
+  const { ManualHandler } = await import('./handlers/manual-handler');
+  const { ExecuteWorkflowHandler } = await import('./handlers/execute-workflow-handler');
 
   // Register all handlers
   TriggerRegistry.register('webhook', WebhookHandler);
   TriggerRegistry.register('form', FormHandler);
   TriggerRegistry.register('chat', ChatHandler);
+  TriggerRegistry.register('schedule', ScheduleHandler);
+  TriggerRegistry.register('manual', ManualHandler);
+  TriggerRegistry.register('executeWorkflow', ExecuteWorkflowHandler);
 
   TriggerRegistry.markInitialized();
 }
@@ -1,21 +1,29 @@
 /**
  * Trigger system types for n8n_test_workflow tool
  *
- * Supports 3 trigger categories (all input-capable):
+ * Supports 6 trigger categories (all input-capable):
  * - webhook: AI can pass HTTP body/headers/params
  * - form: AI can pass form field values
  * - chat: AI can pass message + sessionId
+ * - schedule, manual: AI can pass the trigger's output fields
+ * - executeWorkflow: AI can pass the items the sub-workflow receives
  *
  * Note: Direct workflow execution via API is not supported by n8n's public API.
- * Workflows must have webhook/form/chat triggers to be executable externally.
+ * Schedule, manual and Execute Workflow triggers are started through a
+ * temporary webhook wrapper workflow.
  */
 
-import { Workflow, WorkflowNode } from '../types/n8n-api';
+import { Workflow, WorkflowNode, WebhookHttpMethod } from '../types/n8n-api';
 
 /**
  * Supported trigger types (all input-capable)
  */
-export type TriggerType = 'webhook' | 'form' | 'chat';
+export type TriggerType = 'webhook' | 'form' | 'chat' | WrapperTriggerType;
+
+/**
+ * Trigger types started through a temporary webhook wrapper workflow
+ */
+export type WrapperTriggerType = 'schedule' | 'manual' | 'executeWorkflow';
 
 /**
  * Base input for all trigger handlers
@@ -34,7 +42,7 @@ export interface BaseTriggerInput {
  */
 export interface WebhookTriggerInput extends BaseTriggerInput {
   triggerType: 'webhook';
-  httpMethod?: 'GET' | 'POST' | 'PUT' | 'DELETE';
+  httpMethod?: WebhookHttpMethod;
   webhookPath?: string;
 }
 
@@ -55,13 +63,23 @@ export interface ChatTriggerInput extends BaseTriggerInput {
   sessionId?: string;
 }
 
+/**
+ * Schedule, manual and Execute Workflow trigger input
+ */
+export interface WrapperTriggerInput extends BaseTriggerInput {
+  triggerType: WrapperTriggerType;
+  /** Keep the wrapper workflow and its executions instead of deleting them */
+  keepWrapper?: boolean;
+}
+
 /**
  * Discriminated union of all trigger inputs
  */
 export type TriggerInput =
   | WebhookTriggerInput
   | FormTriggerInput
-  | ChatTriggerInput;
+  | ChatTriggerInput
+  | WrapperTriggerInput;
 
 /**
  * Unified response from all trigger handlers
@@ -82,6 +100,13 @@ export interface TriggerResponse {
     webhookPath?: string;
     sessionId?: string;
     httpMethod?: string;
+    /** Temporary workflow that started a schedule/manual/executeWorkflow trigger */
+    wrapperWorkflowId?: string;
+    /** Whether the wrapper's webhook was switched off after the call */
+    wrapperDeactivated?: boolean;
+    wrapperRemoved?: boolean;
+    /** The run was not waited for - the wrapper is deleted once it finished */
+    wrapperRemovalScheduled?: boolean;
   };
 }
 
@@ -126,12 +151,17 @@ export interface TriggerDetectionResult {
 export interface TestWorkflowInput {
   workflowId: string;
   triggerType?: TriggerType;
-  httpMethod?: 'GET' | 'POST' | 'PUT' | 'DELETE';
+  httpMethod?: WebhookHttpMethod;
   webhookPath?: string;
   message?: string;
   sessionId?: string;
   data?: Record<string, unknown>;
   headers?: Record<string, string>;
+  /** Timeout of the trigger request */
   timeout?: number;
   waitForResponse?: boolean;
+  keepWrapper?: boolean;
+  waitForCompletion?: boolean;
+  /** How long waitForCompletion waits for the execution to finish */
+  completionTimeout?: number;
 }
@@ -0,0 +1,194 @@
+/**
+ * Wrapper workflows for triggers without an HTTP endpoint
+ *
+ * Schedule, manual and Execute Workflow triggers cannot be called through
+ * n8n's public API. They are started through a temporary workflow with a
+ * Webhook trigger instead:
+ * - schedule/manual: a copy of the workflow whose trigger is replaced by a
+ *   Code node of the same name, fed by a Webhook node
+ * - executeWorkflow: a caller workflow (Webhook -> Execute Workflow node) that
+ *   runs the real sub-workflow
+ */
+
+import { Workflow, WorkflowConnection, WorkflowNode } from '../types/n8n-api';
+import { isTriggerNodeType } from './trigger-detector';
+
+export const WRAPPER_NAME_PREFIX = '[n8n-mcp test]';
+
+export interface WrapperWorkflowOptions {
+  /** Unique id of the wrapper's Webhook node - also its webhook path */
+  webhookId: string;
+  /** Respond with the output of the last node instead of immediately */
+  waitForResponse?: boolean;
+}
+
+const WEBHOOK_NODE_NAME = 'n8n-mcp Test Webhook';
+
+// Output of the Schedule Trigger node, computed in the instance's timezone
+const SCHEDULE_OUTPUT_CODE = `const now = $now;
+return [{
+  json: {
+    timestamp: now.toISO(),
+    'Readable date': now.toFormat('MMMM d, yyyy'),
+    'Readable time': now.toFormat('h:mm:ss a'),
+    'Day of week': now.toFormat('cccc'),
+    Year: now.toFormat('yyyy'),
+    Month: now.toFormat('MMMM'),
+    'Day of month': now.toFormat('dd'),
+    Hour: now.toFormat('HH'),
+    Minute: now.toFormat('mm'),
+    Second: now.toFormat('ss'),
+    Timezone: \`\${now.zoneName} (UTC\${now.toFormat('ZZ')})\`,
+    ...($input.first().json.body ?? {}),
+  },
+}];`;
+
+// The request body becomes the trigger's single output item
+const BODY_OUTPUT_CODE = 'return [{ json: $input.first().json.body ?? {} }];';
+
+/**
+ * Webhook path of a wrapper workflow
+ */
+export function wrapperWebhookPath(webhookId: string): string {
+  return `n8n-mcp-test-${webhookId}`;
+}
+
+/**
+ * Copy of the workflow that starts at a Webhook node instead of its schedule
+ * or manual trigger. The trigger becomes a Code node with the same name and
+ * output, so downstream expressions referencing it keep working. Other
+ * triggers are removed so the copy does not register their webhooks or
+ * schedules.
+ */
+export function buildTriggerReplacementWorkflow(
+  workflow: Workflow,
+  triggerNode: WorkflowNode,
+  triggerType: 'schedule' | 'manual',
+  options: WrapperWorkflowOptions
+): Partial<Workflow> {
+  const removed = new Set(
+    workflow.nodes
+      .filter(node => node.name !== triggerNode.name && isTriggerNodeType(node.type))
+      .map(node => node.name)
+  );
+
+  const replacement: WorkflowNode = {
+    id: triggerNode.id,
+    name: triggerNode.name,
+    type: 'n8n-nodes-base.code',
+    typeVersion: 2,
+    position: triggerNode.position,
+    parameters: {
+      jsCode: triggerType === 'schedule' ? SCHEDULE_OUTPUT_CODE : BODY_OUTPUT_CODE,
+    },
+  };
+
+  const nodes = workflow.nodes
+    .filter(node => !removed.has(node.name))
+    .map(node => (node.name === triggerNode.name ? replacement : node));
+  const webhook = buildWebhookNode(nodes, triggerNode.position, options);
+
+  const connections = removeConnections(workflow.connections ?? {}, removed);
+  connections[webhook.name] = connectTo(triggerNode.name);
+
+  return {
+    name: `${WRAPPER_NAME_PREFIX} ${workflow.name}`,
+    nodes: [webhook, ...nodes],
+    connections,
+    settings: workflow.settings,
+  };
+}
+
+/**
+ * Caller workflow that runs the sub-workflow once with the request body as
+ * its input item
+ */
+export function buildExecuteWorkflowWrapper(
+  workflow: Workflow,
+  options: WrapperWorkflowOptions
+): Partial<Workflow> {
+  const input: WorkflowNode = {
+    id: `${options.webhookId}-input`,
+    name: 'Input',
+    type: 'n8n-nodes-base.code',
+    typeVersion: 2,
+    position: [220, 0],
+    parameters: { jsCode: BODY_OUTPUT_CODE },
+  };
+  const execute: WorkflowNode = {
+    id: `${options.webhookId}-execute`,
+    name: 'Execute Workflow',
+    type: 'n8n-nodes-base.executeWorkflow',
+    typeVersion: 1.1,
+    position: [440, 0],
+    parameters: {
+      source: 'database',
+      workflowId: { __rl: true, value: workflow.id, mode: 'id' },
+      options: { waitForSubWorkflow: options.waitForResponse ?? true },
+    },
+  };
+  const webhook = buildWebhookNode([input, execute], [220, 0], options);
+
+  return {
+    name: `${WRAPPER_NAME_PREFIX} ${workflow.name}`,
+    nodes: [webhook, input, execute],
+    connections: {
+      [webhook.name]: connectTo(input.name),
+      [input.name]: connectTo(execute.name),
+    },
+    settings: { executionOrder: 'v1' },
+  };
+}
+
+/**
+ * Webhook node placed left of the node it feeds, with a name no other node uses
+ */
+function buildWebhookNode(
+  nodes: WorkflowNode[],
+  [x, y]: [number, number],
+  options: WrapperWorkflowOptions
+): WorkflowNode {
+  const names = new Set(nodes.map(node => node.name));
+  let name = WEBHOOK_NODE_NAME;
+  for (let suffix = 1; names.has(name); suffix++) {
+    name = `${WEBHOOK_NODE_NAME} ${suffix}`;
+  }
+
+  return {
+    id: options.webhookId,
+    name,
+    type: 'n8n-nodes-base.webhook',
+    typeVersion: 2,
+    position: [x - 220, y],
+    webhookId: options.webhookId,
+    parameters: {
+      httpMethod: 'POST',
+      path: wrapperWebhookPath(options.webhookId),
+      ...(options.waitForResponse === false
+        ? { responseMode: 'onReceived' }
+        : { responseMode: 'lastNode', responseData: 'allEntries' }),
+      options: {},
+    },
+  };
+}
+
+function connectTo(nodeName: string): WorkflowConnection[string] {
+  return { main: [[{ node: nodeName, type: 'main', index: 0 }]] };
+}
+
+/**
+ * Connections without the given nodes as source or target
+ */
+function removeConnections(connections: WorkflowConnection, removed: Set<string>): WorkflowConnection {
+  const result: WorkflowConnection = {};
+  for (const [source, outputs] of Object.entries(connections)) {
+    if (removed.has(source)) continue;
+    result[source] = Object.fromEntries(
+      Object.entries(outputs).map(([type, branches]) => [
+        type,
+        branches.map(branch => (branch ?? []).filter(connection => !removed.has(connection.node))),
+      ])
+    );
+  }
+  return result;
+}
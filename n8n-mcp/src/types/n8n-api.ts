@@ -64,6 +64,7 @@ export interface Workflow {
   isArchived?: boolean; // Optional, available in newer n8n versions
   settings?: WorkflowSettings;
   staticData?: Record<string, unknown>;
+  pinData?: Record<string, unknown>; // Pinned output items by node name
   tags?: string[];
   updatedAt?: string;
   createdAt?: string;
@@ -124,6 +125,20 @@ export interface Credential {
   updatedAt?: string;
 }
 
+// JSON schema returned by /credentials/schema/{credentialTypeName}
+export interface CredentialSchema {
+  type?: string;
+  additionalProperties?: boolean;
+  properties: Record<string, {
+    type?: string;
+    enum?: unknown[];
+    default?: unknown;
+    [key: string]: unknown;
+  }>;
+  required?: string[];
+  [key: string]: unknown;
+}
+
 // Tag Types
 export interface Tag {
   id?: string;
@@ -300,14 +315,19 @@ export interface TagListResponse {
 }
 
 // Webhook Request Type
+export type WebhookHttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE' | 'HEAD';
+
 export interface WebhookRequest {
   webhookUrl: string;
-  httpMethod: 'GET' | 'POST' | 'PUT' | 'DELETE';
+  httpMethod: WebhookHttpMethod;
   data?: Record<string, unknown>;
   headers?: Record<string, string>;
   waitForResponse?: boolean;
 }
 
+// Sends an MCP progress notification for the running tool call
+export type ProgressReporter = (progress: number, total?: number, message?: string) => void;
+
 // MCP Tool Response Type
 export interface McpToolResponse {
   success: boolean;
@@ -97,6 +97,8 @@ export interface UpdateSettingsOperation extends DiffOperation {
   settings: {
     [key: string]: any;
   };
+  /** Replace the settings instead of merging into them, so keys can be removed */
+  replace?: boolean;
 }
 
 export interface UpdateNameOperation extends DiffOperation {
@@ -0,0 +1,328 @@
+/**
+ * Prometheus Metrics
+ *
+ * In-process counters and histograms rendered in the Prometheus text
+ * exposition format, served by the HTTP server at /metrics. This is separate
+ * from telemetry: nothing is sent anywhere, the values are only read by
+ * whoever scrapes the endpoint.
+ */
+
+import { logger } from './logger';
+import { cacheMetrics } from './cache-utils';
+
+export const PROMETHEUS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+export type MetricLabels = Record<string, string>;
+
+export interface MetricSample {
+  labels: MetricLabels;
+  value: number;
+}
+
+type MetricType = 'counter' | 'gauge' | 'histogram';
+
+// Latency buckets in seconds - from fast database lookups to slow n8n executions
+export const DEFAULT_DURATION_BUCKETS = [0.001, 0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60];
+
+// Label values come from requests, so the number of series per metric is capped
+const MAX_SERIES_PER_METRIC = 1000;
+
+interface Metric {
+  readonly name: string;
+  readonly help: string;
+  readonly type: MetricType;
+  render(): string[];
+  reset(): void;
+}
+
+/**
+ * Escape a label value per the exposition format
+ */
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function formatLabels(labels: MetricLabels): string {
+  const pairs = Object.entries(labels).map(([key, value]) => `${key}="${escapeLabelValue(value)}"`);
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+function formatValue(value: number): string {
+  if (Number.isNaN(value)) return 'NaN';
+  if (value === Infinity) return '+Inf';
+  if (value === -Infinity) return '-Inf';
+  return String(value);
+}
+
+/**
+ * Base for metrics that keep one series per label combination
+ */
+abstract class LabeledMetric<T> implements Metric {
+  abstract readonly type: MetricType;
+  protected series = new Map<string, { labels: MetricLabels; data: T }>();
+  private overflowLogged = false;
+
+  constructor(readonly name: string, readonly help: string, private labelNames: string[]) {}
+
+  protected abstract createData(): T;
+
+  protected getSeries(labels: MetricLabels): T | undefined {
+    const values = this.labelNames.map(label => labels[label] ?? '');
+    const key = values.join('\u0000');
+
+    const existing = this.series.get(key);
+    if (existing) return existing.data;
+
+    if (this.series.size >= MAX_SERIES_PER_METRIC) {
+      if (!this.overflowLogged) {
+        logger.warn(`Metric ${this.name} reached ${MAX_SERIES_PER_METRIC} series, dropping new label values`);
+        this.overflowLogged = true;
+      }
+      return undefined;
+    }
+
+    const entry = {
+      labels: Object.fromEntries(this.labelNames.map((label, i) => [label, values[i]])),
+      data: this.createData(),
+    };
+    this.series.set(key, entry);
+    return entry.data;
+  }
+
+  abstract render(): string[];
+
+  reset(): void {
+    this.series.clear();
+    this.overflowLogged = false;
+  }
+}
+
+export class Counter extends LabeledMetric<{ value: number }> {
+  readonly type = 'counter';
+
+  protected createData() {
+    return { value: 0 };
+  }
+
+  inc(labels: MetricLabels = {}, value = 1): void {
+    const data = this.getSeries(labels);
+    if (data) data.value += value;
+  }
+
+  render(): string[] {
+    return Array.from(this.series.values()).map(
+      ({ labels, data }) => `${this.name}${formatLabels(labels)} ${formatValue(data.value)}`
+    );
+  }
+}
+
+export class Histogram extends LabeledMetric<{ buckets: number[]; sum: number; count: number }> {
+  readonly type = 'histogram';
+
+  constructor(name: string, help: string, labelNames: string[], private bounds = DEFAULT_DURATION_BUCKETS) {
+    super(name, help, labelNames);
+  }
+
+  protected createData() {
+    return { buckets: this.bounds.map(() => 0), sum: 0, count: 0 };
+  }
+
+  observe(labels: MetricLabels, value: number): void {
+    const data = this.getSeries(labels);
+    if (!data) return;
+
+    data.sum += value;
+    data.count++;
+    const index = this.bounds.findIndex(bound => value <= bound);
+    if (index !== -1) data.buckets[index]++;
+  }
+
+  render(): string[] {
+    const lines: string[] = [];
+    for (const { labels, data } of this.series.values()) {
+      // Bucket counts are stored per bucket and rendered cumulative
+      let cumulative = 0;
+      this.bounds.forEach((bound, i) => {
+        cumulative += data.buckets[i];
+        lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: formatValue(bound) })} ${cumulative}`);
+      });
+      lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${data.count}`);
+      lines.push(`${this.name}_sum${formatLabels(labels)} ${formatValue(data.sum)}`);
+      lines.push(`${this.name}_count${formatLabels(labels)} ${data.count}`);
+    }
+    return lines;
+  }
+}
+
+/**
+ * Metric whose samples are read from elsewhere (session counts, cache stats)
+ * at scrape time
+ */
+class CollectedMetric implements Metric {
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    readonly type: MetricType,
+    private collect: () => MetricSample[]
+  ) {}
+
+  render(): string[] {
+    try {
+      return this.collect().map(({ labels, value }) => `${this.name}${formatLabels(labels)} ${formatValue(value)}`);
+    } catch (error) {
+      logger.debug(`Failed to collect metric ${this.name}`, error);
+      return [];
+    }
+  }
+
+  reset(): void {
+    // Nothing stored - values are read on every scrape
+  }
+}
+
+export class MetricsRegistry {
+  private metrics = new Map<string, Metric>();
+
+  counter(name: string, help: string, labelNames: string[] = []): Counter {
+    return this.register(new Counter(name, help, labelNames));
+  }
+
+  histogram(name: string, help: string, labelNames: string[] = [], buckets?: number[]): Histogram {
+    return this.register(new Histogram(name, help, labelNames, buckets));
+  }
+
+  /**
+   * Register a metric read at scrape time. Registering the same name again
+   * replaces the collector, so a restarted server does not report stale values.
+   */
+  collect(name: string, help: string, type: 'counter' | 'gauge', collect: () => MetricSample[]): void {
+    this.metrics.set(name, new CollectedMetric(name, help, type, collect));
+  }
+
+  unregister(name: string): void {
+    this.metrics.delete(name);
+  }
+
+  /**
+   * Render all metrics in the Prometheus text exposition format
+   */
+  render(): string {
+    const lines: string[] = [];
+    for (const metric of this.metrics.values()) {
+      lines.push(`# HELP ${metric.name} ${metric.help}`);
+      lines.push(`# TYPE ${metric.name} ${metric.type}`);
+      lines.push(...metric.render());
+    }
+    return lines.join('\n') + '\n';
+  }
+
+  /**
+   * Clear all recorded values (used by tests)
+   */
+  reset(): void {
+    this.metrics.forEach(metric => metric.reset());
+  }
+
+  private register<T extends Metric>(metric: T): T {
+    if (this.metrics.has(metric.name)) {
+      throw new Error(`Metric ${metric.name} is already registered`);
+    }
+    this.metrics.set(metric.name, metric);
+    return metric;
+  }
+}
+
+export const metricsRegistry = new MetricsRegistry();
+
+const toolCalls = metricsRegistry.counter(
+  'n8n_mcp_tool_calls_total',
+  'MCP tool calls by tool and status',
+  ['tool', 'status']
+);
+const toolDuration = metricsRegistry.histogram(
+  'n8n_mcp_tool_call_duration_seconds',
+  'MCP tool call latency',
+  ['tool']
+);
+const toolErrors = metricsRegistry.counter(
+  'n8n_mcp_tool_errors_total',
+  'Failed MCP tool calls by tool and error type',
+  ['tool', 'error_type']
+);
+const n8nApiDuration = metricsRegistry.histogram(
+  'n8n_mcp_n8n_api_request_duration_seconds',
+  'n8n API request latency by instance, method and status',
+  ['instance', 'method', 'status']
+);
+const databaseQueryDuration = metricsRegistry.histogram(
+  'n8n_mcp_db_query_duration_seconds',
+  'Database query latency by operation',
+  ['operation']
+);
+
+metricsRegistry.collect('n8n_mcp_cache_hits_total', 'Instance cache hits', 'counter', () => [
+  { labels: {}, value: cacheMetrics.getMetrics().hits },
+]);
+metricsRegistry.collect('n8n_mcp_cache_misses_total', 'Instance cache misses', 'counter', () => [
+  { labels: {}, value: cacheMetrics.getMetrics().misses },
+]);
+metricsRegistry.collect('n8n_mcp_cache_evictions_total', 'Instance cache evictions', 'counter', () => [
+  { labels: {}, value: cacheMetrics.getMetrics().evictions },
+]);
+metricsRegistry.collect('n8n_mcp_cache_hit_ratio', 'Instance cache hit ratio (0-1)', 'gauge', () => [
+  { labels: {}, value: cacheMetrics.getMetrics().avgHitRate },
+]);
+metricsRegistry.collect('n8n_mcp_cache_entries', 'Entries in the instance cache', 'gauge', () => [
+  { labels: {}, value: cacheMetrics.getMetrics().size },
+]);
+metricsRegistry.collect('n8n_mcp_process_resident_memory_bytes', 'Resident memory of the process', 'gauge', () => [
+  { labels: {}, value: process.memoryUsage().rss },
+]);
+metricsRegistry.collect('n8n_mcp_process_uptime_seconds', 'Process uptime', 'gauge', () => [
+  { labels: {}, value: process.uptime() },
+]);
+
+/**
+ * Record a finished tool call. Pass an error type for failed calls.
+ */
+export function recordToolCall(tool: string, durationMs: number, errorType?: string): void {
+  toolCalls.inc({ tool, status: errorType ? 'error' : 'success' });
+  toolDuration.observe({ tool }, durationMs / 1000);
+  if (errorType) {
+    toolErrors.inc({ tool, error_type: errorType });
+  }
+}
+
+/**
+ * Record an n8n API request. Status is the HTTP status, or 'error' when no
+ * response was received.
+ */
+export function recordN8nApiRequest(instance: string, method: string, status: string, durationMs: number): void {
+  n8nApiDuration.observe({ instance, method: method.toUpperCase(), status }, durationMs / 1000);
+}
+
+export type DatabaseOperation = 'select' | 'insert' | 'update' | 'delete' | 'other';
+
+/**
+ * Classify a SQL statement by its leading keyword
+ */
+export function databaseOperation(sql: string): DatabaseOperation {
+  const keyword = sql.trimStart().slice(0, 7).toLowerCase();
+  if (keyword.startsWith('select') || keyword.startsWith('with')) return 'select';
+  if (keyword.startsWith('insert') || keyword.startsWith('replace')) return 'insert';
+  if (keyword.startsWith('update')) return 'update';
+  if (keyword.startsWith('delete')) return 'delete';
+  return 'other';
+}
+
+/**
+ * Run a synchronous database call and record how long it took
+ */
+export function timeDatabaseQuery<T>(operation: DatabaseOperation, query: () => T): T {
+  const start = performance.now();
+  try {
+    return query();
+  } finally {
+    databaseQueryDuration.observe({ operation }, (performance.now() - start) / 1000);
+  }
+}
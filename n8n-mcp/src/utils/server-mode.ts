@@ -0,0 +1,21 @@
+/**
+ * Server Mode
+ *
+ * Whether this process serves MCP to remote clients over HTTP. The HTTP
+ * servers set the flag when they are created, so it also holds for services
+ * that embed N8NMCPEngine without setting MCP_MODE. Features that run code or
+ * read files on the server check isHttpMode(), not MCP_MODE.
+ */
+
+let httpMode = false;
+
+export function setHttpMode(enabled: boolean): void {
+  httpMode = enabled;
+}
+
+/**
+ * True once an HTTP server was created in this process, or with MCP_MODE=http
+ */
+export function isHttpMode(): boolean {
+  return httpMode || process.env.MCP_MODE === 'http';
+}
@@ -0,0 +1,514 @@
+/**
+ * Simple YAML parser and serializer for configuration, test and export files
+ * No external dependencies needed
+ *
+ * Supports the subset of YAML used by hand-written files: block mappings and
+ * sequences, flow collections ([a, b], {a: 1}), plain and quoted scalars,
+ * block scalars (| and >) and comments. Anchors, aliases, tags and multiple
+ * documents are rejected with an error. stringifyYaml() only emits this
+ * subset, so its output always parses back to the same value.
+ */
+
+export class YamlParseError extends Error {
+  constructor(message: string, public readonly line: number) {
+    super(`${message} (line ${line})`);
+    this.name = 'YamlParseError';
+  }
+}
+
+interface Line {
+  index: number;
+  indent: number;
+  content: string;
+}
+
+/**
+ * Parse a YAML document into plain JavaScript values
+ */
+export function parseYaml(text: string): unknown {
+  return new YamlParser(text.replace(/^\uFEFF/, '').split(/\r?\n/)).parse();
+}
+
+/**
+ * Serialize plain JavaScript values (JSON data) as a YAML document.
+ * Multi-line strings such as Code node source become literal block scalars.
+ */
+export function stringifyYaml(value: unknown): string {
+  return `${stringifyBlock(value, 0).join('\n')}\n`;
+}
+
+function stringifyBlock(value: unknown, indent: number): string[] {
+  const pad = ' '.repeat(indent);
+
+  if (Array.isArray(value) && value.length > 0) {
+    const lines: string[] = [];
+    for (const item of value) {
+      if (isNonEmptyObject(item)) {
+        // "- key: value" with the remaining keys aligned below the first
+        const [first, ...rest] = stringifyBlock(item, indent + 2);
+        lines.push(`${pad}- ${first.slice(indent + 2)}`, ...rest);
+      } else if (Array.isArray(item) && item.length > 0) {
+        lines.push(`${pad}-`, ...stringifyBlock(item, indent + 2));
+      } else {
+        lines.push(...stringifyInline(`${pad}-`, item, indent));
+      }
+    }
+    return lines;
+  }
+
+  if (isNonEmptyObject(value)) {
+    const lines: string[] = [];
+    for (const [key, item] of Object.entries(value)) {
+      if (item === undefined) continue;
+      const prefix = `${pad}${stringifyKey(key)}:`;
+      if (isNonEmptyObject(item) || (Array.isArray(item) && item.length > 0)) {
+        lines.push(prefix, ...stringifyBlock(item, indent + 2));
+      } else {
+        lines.push(...stringifyInline(prefix, item, indent));
+      }
+    }
+    return lines;
+  }
+
+  return [`${pad}${stringifyScalar(value)}`];
+}
+
+/**
+ * A scalar or empty collection after "key:" or "-"; block scalars continue on
+ * the following lines
+ */
+function stringifyInline(prefix: string, value: unknown, indent: number): string[] {
+  if (typeof value === 'string' && canUseBlockScalar(value)) {
+    const content = value.endsWith('\n') ? value.slice(0, -1) : value;
+    const pad = ' '.repeat(indent + 2);
+    return [
+      `${prefix} ${value.endsWith('\n') ? '|' : '|-'}`,
+      ...content.split('\n').map(line => (line === '' ? '' : pad + line))
+    ];
+  }
+  return [`${prefix} ${stringifyScalar(value)}`];
+}
+
+function stringifyScalar(value: unknown): string {
+  if (value === null || value === undefined) return 'null';
+  if (typeof value === 'boolean') return String(value);
+  if (typeof value === 'number') return Number.isFinite(value) ? String(value) : 'null';
+  if (Array.isArray(value)) return '[]';
+  if (typeof value === 'object') return '{}';
+
+  const text = String(value);
+  if (/^[A-Za-z_][\w .\/@()+-]*$/.test(text) && !text.endsWith(' ') && resolvePlainScalar(text) === text) {
+    return text;
+  }
+  return JSON.stringify(text);
+}
+
+function stringifyKey(key: string): string {
+  return /^[\w$][\w$ .\/()-]*$/.test(key) && !key.endsWith(' ') ? key : JSON.stringify(key);
+}
+
+/**
+ * Literal block scalars round-trip multi-line text unless leading indentation,
+ * whitespace-only lines, carriage returns, extra trailing newlines or nothing
+ * but newlines are involved
+ */
+function canUseBlockScalar(text: string): boolean {
+  if (!text.includes('\n') || text.includes('\r') || /\n\n$/.test(text)) return false;
+  const lines = (text.endsWith('\n') ? text.slice(0, -1) : text).split('\n');
+  return !/^\s/.test(lines[0]) && lines.some(line => line !== '') &&
+    lines.every(line => line === '' || line.trim() !== '');
+}
+
+function isNonEmptyObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) &&
+    Object.values(value).some(item => item !== undefined);
+}
+
+class YamlParser {
+  private pos = 0;
+
+  constructor(private readonly lines: string[]) {}
+
+  parse(): unknown {
+    let line = this.peek();
+    if (line && line.indent === 0 && /^---(\s|$)/.test(line.content)) {
+      const rest = line.content.slice(3).trim();
+      if (rest) this.lines[line.index] = rest;
+      else this.pos = line.index + 1;
+      line = this.peek();
+    }
+    if (!line) return null;
+
+    const value = this.parseBlock(line.indent);
+    const next = this.peek();
+    if (next) {
+      if (/^(---|\.\.\.)(\s|$)/.test(next.content)) {
+        if (next.content.startsWith('---')) throw new YamlParseError('Multiple YAML documents are not supported', next.index + 1);
+      } else {
+        throw new YamlParseError('Unexpected content - check the indentation', next.index + 1);
+      }
+    }
+    return value;
+  }
+
+  /**
+   * Next line with content, skipping blank and comment-only lines
+   */
+  private peek(): Line | undefined {
+    for (let i = this.pos; i < this.lines.length; i++) {
+      const raw = this.lines[i];
+      const indent = raw.length - raw.trimStart().length;
+      const content = stripComment(raw.slice(indent)).trimEnd();
+      if (content === '') continue;
+      if (raw.slice(0, indent).includes('\t')) {
+        throw new YamlParseError('Tabs are not allowed for indentation', i + 1);
+      }
+      return { index: i, indent, content };
+    }
+    return undefined;
+  }
+
+  private parseBlock(indent: number): unknown {
+    const line = this.peek()!;
+    if (isSequenceItem(line.content)) return this.parseSequence(indent);
+    if (splitKey(line.content, line.index)) return this.parseMapping(indent);
+    this.pos = line.index + 1;
+    return this.parseValue(line.content, indent - 1, line.index);
+  }
+
+  private parseSequence(indent: number): unknown[] {
+    const items: unknown[] = [];
+    let line: Line | undefined;
+
+    while ((line = this.peek()) && line.indent === indent && isSequenceItem(line.content)) {
+      const rest = line.content.slice(1).trimStart();
+      this.pos = line.index + 1;
+
+      if (rest === '') {
+        const child = this.peek();
+        items.push(child && child.indent > indent ? this.parseBlock(child.indent) : null);
+      } else if (isSequenceItem(rest) || splitKey(rest, line.index)) {
+        // "- key: value" starts a nested block at the position of its content
+        const innerIndent = indent + line.content.length - rest.length;
+        this.lines[line.index] = ' '.repeat(innerIndent) + rest;
+        this.pos = line.index;
+        items.push(this.parseBlock(innerIndent));
+      } else {
+        items.push(this.parseValue(rest, indent, line.index));
+      }
+    }
+
+    if (line && line.indent > indent) {
+      throw new YamlParseError('Unexpected indentation', line.index + 1);
+    }
+    return items;
+  }
+
+  private parseMapping(indent: number): Record<string, unknown> {
+    const result: Record<string, unknown> = {};
+    let line: Line | undefined;
+
+    while ((line = this.peek()) && line.indent === indent && !isSequenceItem(line.content)) {
+      const entry = splitKey(line.content, line.index);
+      if (!entry) {
+        throw new YamlParseError(`Expected "key: value", got "${line.content}"`, line.index + 1);
+      }
+      if (Object.prototype.hasOwnProperty.call(result, entry.key)) {
+        throw new YamlParseError(`Duplicate key "${entry.key}"`, line.index + 1);
+      }
+      this.pos = line.index + 1;
+
+      let value: unknown = null;
+      if (entry.rest === '') {
+        const child = this.peek();
+        if (child && (child.indent > indent || (child.indent === indent && isSequenceItem(child.content)))) {
+          value = this.parseBlock(child.indent);
+        }
+      } else {
+        value = this.parseValue(entry.rest, indent, line.index);
+      }
+      result[entry.key] = value;
+    }
+
+    if (line && line.indent > indent) {
+      throw new YamlParseError('Unexpected indentation', line.index + 1);
+    }
+    return result;
+  }
+
+  /**
+   * A value after "key:" or "-". Lines indented deeper than the parent belong
+   * to the value (block scalars, multi-line flow collections and plain scalars).
+   */
+  private parseValue(text: string, parentIndent: number, lineIndex: number): unknown {
+    const first = text[0];
+    if (first === '&' || first === '*' || first === '!') {
+      throw new YamlParseError('YAML anchors, aliases and tags are not supported', lineIndex + 1);
+    }
+
+    const blockScalar = text.match(/^([|>])([+-]?)$/);
+    if (blockScalar) {
+      return this.parseBlockScalar(blockScalar[1] === '>', blockScalar[2], parentIndent);
+    }
+
+    if (first === '[' || first === '{') {
+      let source = text;
+      let next: Line | undefined;
+      while (!isBalanced(source) && (next = this.peek()) && next.indent > parentIndent) {
+        source += ' ' + next.content;
+        this.pos = next.index + 1;
+      }
+      return new FlowParser(source, lineIndex + 1).parseDocument();
+    }
+
+    if (first === '"' || first === "'") {
+      return new FlowParser(text, lineIndex + 1).parseDocument();
+    }
+
+    // Plain scalars may continue on deeper indented lines
+    let value = text;
+    let next: Line | undefined;
+    while ((next = this.peek()) && next.indent > parentIndent && !isSequenceItem(next.content) && !splitKey(next.content, next.index)) {
+      value += ' ' + next.content;
+      this.pos = next.index + 1;
+    }
+    return resolvePlainScalar(value);
+  }
+
+  private parseBlockScalar(folded: boolean, chomping: string, parentIndent: number): string {
+    const collected: string[] = [];
+    let blockIndent = -1;
+
+    while (this.pos < this.lines.length) {
+      const raw = this.lines[this.pos];
+      if (raw.trim() === '') {
+        collected.push('');
+        this.pos++;
+        continue;
+      }
+      const indent = raw.length - raw.trimStart().length;
+      if (blockIndent < 0) blockIndent = indent;
+      if (indent <= parentIndent || indent < blockIndent) break;
+      collected.push(raw.slice(blockIndent));
+      this.pos++;
+    }
+
+    // Trailing blank lines belong to the chomping, not the content
+    let trailing = 0;
+    while (collected.length > 0 && collected[collected.length - 1] === '') {
+      collected.pop();
+      trailing++;
+    }
+
+    let text = folded
+      ? collected.reduce((acc, line, i) => {
+          if (i === 0) return line;
+          const previous = collected[i - 1];
+          if (line === '') return `${acc}\n`;
+          if (previous === '') return acc + line;
+          if (/^\s/.test(line) || /^\s/.test(previous)) return `${acc}\n${line}`;
+          return `${acc} ${line}`;
+        }, '')
+      : collected.join('\n');
+
+    if (chomping === '-') return text;
+    if (collected.length > 0) text += '\n';
+    return chomping === '+' ? text + '\n'.repeat(trailing) : text;
+  }
+}
+
+/**
+ * Parser for flow collections and quoted scalars on a single (joined) line
+ */
+class FlowParser {
+  private pos = 0;
+
+  constructor(private readonly text: string, private readonly line: number) {}
+
+  parseDocument(): unknown {
+    const value = this.parseValue();
+    this.skipSpaces();
+    if (this.pos < this.text.length) {
+      throw new YamlParseError(`Unexpected "${this.text.slice(this.pos)}" after value`, this.line);
+    }
+    return value;
+  }
+
+  private parseValue(): unknown {
+    this.skipSpaces();
+    const char = this.text[this.pos];
+    if (char === '[') return this.parseSequence();
+    if (char === '{') return this.parseMapping();
+    if (char === '"' || char === "'") return this.parseQuoted();
+
+    const start = this.pos;
+    while (this.pos < this.text.length && !',]}'.includes(this.text[this.pos]) && !this.isKeySeparator()) {
+      this.pos++;
+    }
+    return resolvePlainScalar(this.text.slice(start, this.pos).trim());
+  }
+
+  private parseSequence(): unknown[] {
+    const items: unknown[] = [];
+    this.pos++;
+    for (;;) {
+      this.skipSpaces();
+      if (this.text[this.pos] === ']') {
+        this.pos++;
+        return items;
+      }
+      items.push(this.parseValue());
+      this.skipSpaces();
+      if (this.text[this.pos] === ',') this.pos++;
+      else if (this.text[this.pos] !== ']') throw new YamlParseError('Expected "," or "]" in flow sequence', this.line);
+    }
+  }
+
+  private parseMapping(): Record<string, unknown> {
+    const result: Record<string, unknown> = {};
+    this.pos++;
+    for (;;) {
+      this.skipSpaces();
+      if (this.text[this.pos] === '}') {
+        this.pos++;
+        return result;
+      }
+      const key = this.parseValue();
+      this.skipSpaces();
+      let value: unknown = null;
+      if (this.text[this.pos] === ':') {
+        this.pos++;
+        value = this.parseValue();
+      }
+      result[String(key)] = value;
+      this.skipSpaces();
+      if (this.text[this.pos] === ',') this.pos++;
+      else if (this.text[this.pos] !== '}') throw new YamlParseError('Expected "," or "}" in flow mapping', this.line);
+    }
+  }
+
+  private parseQuoted(): string {
+    const quote = this.text[this.pos];
+    const start = this.pos;
+    this.pos++;
+    while (this.pos < this.text.length) {
+      const char = this.text[this.pos];
+      if (quote === '"' && char === '\\') {
+        this.pos += 2;
+        continue;
+      }
+      if (char === quote) {
+        if (quote === "'" && this.text[this.pos + 1] === "'") {
+          this.pos += 2;
+          continue;
+        }
+        this.pos++;
+        const body = this.text.slice(start + 1, this.pos - 1);
+        if (quote === "'") return body.replace(/''/g, "'");
+        try {
+          return JSON.parse(`"${body.replace(/\t/g, '\\t')}"`);
+        } catch {
+          throw new YamlParseError(`Invalid escape sequence in "${body}"`, this.line);
+        }
+      }
+      this.pos++;
+    }
+    throw new YamlParseError('Unterminated quoted string', this.line);
+  }
+
+  private isKeySeparator(): boolean {
+    const next = this.text[this.pos + 1];
+    return this.text[this.pos] === ':' && (next === undefined || next === ' ' || ',]}'.includes(next));
+  }
+
+  private skipSpaces(): void {
+    while (this.text[this.pos] === ' ' || this.text[this.pos] === '\t') this.pos++;
+  }
+}
+
+function isSequenceItem(content: string): boolean {
+  return content === '-' || content.startsWith('- ');
+}
+
+/**
+ * Split "key: value" into key and the rest, or undefined if the content is not
+ * a mapping entry
+ */
+function splitKey(content: string, lineIndex: number): { key: string; rest: string } | undefined {
+  if (content[0] === '[' || content[0] === '{') return undefined;
+
+  if (content[0] === '"' || content[0] === "'") {
+    const quote = content[0];
+    let end = 1;
+    while (end < content.length) {
+      if (quote === '"' && content[end] === '\\') {
+        end += 2;
+      } else if (content[end] === quote && quote === "'" && content[end + 1] === "'") {
+        end += 2;
+      } else if (content[end] === quote) {
+        break;
+      } else {
+        end++;
+      }
+    }
+    const after = content.slice(end + 1);
+    if (!/^\s*:(\s|$)/.test(after)) return undefined;
+    const key = new FlowParser(content.slice(0, end + 1), lineIndex + 1).parseDocument();
+    return { key: String(key), rest: after.replace(/^\s*:/, '').trim() };
+  }
+
+  const match = content.match(/^([^#]*?)\s*:(\s+|$)/);
+  if (!match || match[1] === '') return undefined;
+  return { key: match[1], rest: content.slice(match[0].length).trim() };
+}
+
+/**
+ * Remove a trailing comment. "#" starts a comment at the start of the line or
+ * after whitespace, outside quoted scalars.
+ */
+function stripComment(content: string): string {
+  let quote: string | null = null;
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (quote) {
+      if (char === '\\' && quote === '"') i++;
+      else if (char === quote) quote = null;
+      continue;
+    }
+    if ((char === '"' || char === "'") && (i === 0 || /[\s:,[{-]/.test(content[i - 1]))) {
+      quote = char;
+    } else if (char === '#' && (i === 0 || /\s/.test(content[i - 1]))) {
+      return content.slice(0, i);
+    }
+  }
+  return content;
+}
+
+function isBalanced(source: string): boolean {
+  let depth = 0;
+  let quote: string | null = null;
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (quote) {
+      if (char === '\\' && quote === '"') i++;
+      else if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '[' || char === '{') {
+      depth++;
+    } else if (char === ']' || char === '}') {
+      depth--;
+    }
+  }
+  return depth <= 0;
+}
+
+function resolvePlainScalar(value: string): unknown {
+  if (value === '' || value === '~' || /^(null|Null|NULL)$/.test(value)) return null;
+  if (/^(true|True|TRUE)$/.test(value)) return true;
+  if (/^(false|False|FALSE)$/.test(value)) return false;
+  if (/^[-+]?\d+$/.test(value) || /^[-+]?(\d+\.\d*|\.\d+|\d+)([eE][-+]?\d+)?$/.test(value)) {
+    return Number(value);
+  }
+  return value;
+}
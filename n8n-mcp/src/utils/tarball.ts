@@ -0,0 +1,90 @@
+/**
+ * Minimal extractor for npm package tarballs (.tgz), so private node packages
+ * can be indexed without a tar dependency. Only regular files and directories
+ * are extracted; links and device entries are skipped.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as zlib from 'zlib';
+
+const BLOCK_SIZE = 512;
+
+/**
+ * Extract a gzipped (or plain) tar archive into destDir. The leading
+ * directory npm pack adds (usually "package/") is stripped.
+ *
+ * @returns Relative paths of the extracted files
+ */
+export function extractTarball(file: string, destDir: string): string[] {
+  let data = fs.readFileSync(file);
+  if (data[0] === 0x1f && data[1] === 0x8b) {
+    data = zlib.gunzipSync(data);
+  }
+
+  const root = path.resolve(destDir);
+  fs.mkdirSync(root, { recursive: true });
+
+  const files: string[] = [];
+  let offset = 0;
+  let longName: string | undefined;
+
+  while (offset + BLOCK_SIZE <= data.length) {
+    const header = data.subarray(offset, offset + BLOCK_SIZE);
+    if (header.every(byte => byte === 0)) break;
+
+    const size = parseInt(readString(header, 124, 12).trim() || '0', 8);
+    const type = String.fromCharCode(header[156] || 0x30);
+    const bodyStart = offset + BLOCK_SIZE;
+    const body = data.subarray(bodyStart, bodyStart + size);
+    offset = bodyStart + Math.ceil(size / BLOCK_SIZE) * BLOCK_SIZE;
+
+    // GNU long name and pax extended headers apply to the next entry
+    if (type === 'L') {
+      longName = body.toString('utf-8').replace(/\0+$/, '');
+      continue;
+    }
+    if (type === 'x') {
+      const paxPath = /(?:^|\n)\d+ path=([^\n]*)\n/.exec(body.toString('utf-8'));
+      if (paxPath) longName = paxPath[1];
+      continue;
+    }
+    if (type === 'g') continue;
+
+    let name = longName;
+    longName = undefined;
+    if (!name) {
+      const prefix = readString(header, 345, 155);
+      name = readString(header, 0, 100);
+      if (prefix) name = `${prefix}/${name}`;
+    }
+
+    const relative = stripFirstComponent(name);
+    if (!relative) continue;
+    const target = path.resolve(root, relative);
+    if (target !== root && !target.startsWith(root + path.sep)) {
+      throw new Error(`Refusing to extract "${name}" outside of ${destDir}`);
+    }
+
+    if (type === '5') {
+      fs.mkdirSync(target, { recursive: true });
+    } else if (type === '0' || type === '\0') {
+      fs.mkdirSync(path.dirname(target), { recursive: true });
+      fs.writeFileSync(target, body);
+      files.push(relative.split(path.sep).join('/'));
+    }
+  }
+
+  return files;
+}
+
+function readString(header: Buffer, start: number, length: number): string {
+  const field = header.subarray(start, start + length);
+  const end = field.indexOf(0);
+  return field.subarray(0, end < 0 ? field.length : end).toString('utf-8');
+}
+
+function stripFirstComponent(name: string): string {
+  const parts = name.split('/').filter(part => part && part !== '.');
+  return parts.slice(1).join(path.sep);
+}
@@ -11,19 +11,22 @@ import { getTestN8nClient } from '../utils/n8n-client';
 import { N8nApiClient } from '../../../../src/services/n8n-api-client';
 import { SIMPLE_WEBHOOK_WORKFLOW } from '../utils/fixtures';
 import { cleanupOrphanedWorkflows } from '../utils/cleanup-helpers';
-import { createMcpContext } from '../utils/mcp-context';
+import { createMcpContext, getMcpRepository } from '../utils/mcp-context';
 import { InstanceContext } from '../../../../src/types/instance-context';
+import { NodeRepository } from '../../../../src/database/node-repository';
 import { handleGetWorkflowDetails } from '../../../../src/mcp/handlers-n8n-manager';
 
 describe('Integration: handleGetWorkflowDetails', () => {
   let context: TestContext;
   let client: N8nApiClient;
   let mcpContext: InstanceContext;
+  let repository: NodeRepository;
 
-  beforeEach(() => {
+  beforeEach(async () => {
     context = createTestContext();
     client = getTestN8nClient();
     mcpContext = createMcpContext();
+    repository = await getMcpRepository();
   });
 
   afterEach(async () => {
@@ -57,7 +60,7 @@ describe('Integration: handleGetWorkflowDetails', () => {
       context.trackWorkflow(created.id);
 
       // Retrieve detailed workflow information using MCP handler
-      const response = await handleGetWorkflowDetails({ id: created.id }, mcpContext);
+      const response = await handleGetWorkflowDetails({ id: created.id }, repository, mcpContext);
 
       // Verify MCP response structure
       expect(response.success).toBe(true);
@@ -108,7 +111,7 @@ describe('Integration: handleGetWorkflowDetails', () => {
       context.trackWorkflow(created.id);
 
       // Retrieve workflow details using MCP handler
-      const response = await handleGetWorkflowDetails({ id: created.id }, mcpContext);
+      const response = await handleGetWorkflowDetails({ id: created.id }, repository, mcpContext);
       expect(response.success).toBe(true);
       const details = (response.data as any).workflow;
 
@@ -149,7 +152,7 @@ describe('Integration: handleGetWorkflowDetails', () => {
       context.trackWorkflow(created.id);
 
       // Get initial version using MCP handler
-      const initialResponse = await handleGetWorkflowDetails({ id: created.id }, mcpContext);
+      const initialResponse = await handleGetWorkflowDetails({ id: created.id }, repository, mcpContext);
       expect(initialResponse.success).toBe(true);
       const initialDetails = (initialResponse.data as any).workflow;
       const initialVersionId = initialDetails.versionId;
@@ -163,7 +166,7 @@ describe('Integration: handleGetWorkflowDetails', () => {
       });
 
       // Get updated details using MCP handler
-      const updatedResponse = await handleGetWorkflowDetails({ id: created.id }, mcpContext);
+      const updatedResponse = await handleGetWorkflowDetails({ id: created.id }, repository, mcpContext);
       expect(updatedResponse.success).toBe(true);
       const updatedDetails = (updatedResponse.data as any).workflow;
 
@@ -197,7 +200,7 @@ describe('Integration: handleGetWorkflowDetails', () => {
       context.trackWorkflow(created.id);
 
       // Retrieve workflow details using MCP handler
-      const response = await handleGetWorkflowDetails({ id: created.id }, mcpContext);
+      const response = await handleGetWorkflowDetails({ id: created.id }, repository, mcpContext);
       expect(response.success).toBe(true);
       const details = (response.data as any).workflow;
 
@@ -11,19 +11,22 @@ import { getTestN8nClient } from '../utils/n8n-client';
 import { N8nApiClient } from '../../../../src/services/n8n-api-client';
 import { SIMPLE_WEBHOOK_WORKFLOW } from '../utils/fixtures';
 import { cleanupOrphanedWorkflows } from '../utils/cleanup-helpers';
-import { createMcpContext } from '../utils/mcp-context';
+import { createMcpContext, getMcpRepository } from '../utils/mcp-context';
 import { InstanceContext } from '../../../../src/types/instance-context';
+import { NodeRepository } from '../../../../src/database/node-repository';
 import { handleGetWorkflowMinimal } from '../../../../src/mcp/handlers-n8n-manager';
 
 describe('Integration: handleGetWorkflowMinimal', () => {
   let context: TestContext;
   let client: N8nApiClient;
   let mcpContext: InstanceContext;
+  let repository: NodeRepository;
 
-  beforeEach(() => {
+  beforeEach(async () => {
     context = createTestContext();
     client = getTestN8nClient();
     mcpContext = createMcpContext();
+    repository = await getMcpRepository();
   });
 
   afterEach(async () => {
@@ -60,7 +63,7 @@ describe('Integration: handleGetWorkflowMinimal', () => {
       context.trackWorkflow(created.id);
 
       // Retrieve minimal workflow data
-      const response = await handleGetWorkflowMinimal({ id: created.id }, mcpContext);
+      const response = await handleGetWorkflowMinimal({ id: created.id }, repository, mcpContext);
       expect(response.success).toBe(true);
       const minimal = response.data as any;
 
@@ -114,7 +117,7 @@ describe('Integration: handleGetWorkflowMinimal', () => {
       // The active field should still be present and set to false
 
       // Retrieve minimal workflow data
-      const response = await handleGetWorkflowMinimal({ id: created.id }, mcpContext);
+      const response = await handleGetWorkflowMinimal({ id: created.id }, repository, mcpContext);
       expect(response.success).toBe(true);
       const minimal = response.data as any;
 
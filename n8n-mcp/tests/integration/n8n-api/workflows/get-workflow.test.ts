@@ -12,19 +12,22 @@ import { N8nApiClient } from '../../../../src/services/n8n-api-client';
 import { Workflow } from '../../../../src/types/n8n-api';
 import { SIMPLE_WEBHOOK_WORKFLOW } from '../utils/fixtures';
 import { cleanupOrphanedWorkflows } from '../utils/cleanup-helpers';
-import { createMcpContext } from '../utils/mcp-context';
+import { createMcpContext, getMcpRepository } from '../utils/mcp-context';
 import { InstanceContext } from '../../../../src/types/instance-context';
+import { NodeRepository } from '../../../../src/database/node-repository';
 import { handleGetWorkflow } from '../../../../src/mcp/handlers-n8n-manager';
 
 describe('Integration: handleGetWorkflow', () => {
   let context: TestContext;
   let client: N8nApiClient;
   let mcpContext: InstanceContext;
+  let repository: NodeRepository;
 
-  beforeEach(() => {
+  beforeEach(async () => {
     context = createTestContext();
     client = getTestN8nClient();
     mcpContext = createMcpContext();
+    repository = await getMcpRepository();
   });
 
   afterEach(async () => {
@@ -58,7 +61,7 @@ describe('Integration: handleGetWorkflow', () => {
       context.trackWorkflow(created.id);
 
       // Retrieve the workflow using MCP handler
-      const response = await handleGetWorkflow({ id: created.id }, mcpContext);
+      const response = await handleGetWorkflow({ id: created.id }, repository, mcpContext);
 
       // Verify MCP response structure
       expect(response.success).toBe(true);
@@ -94,7 +97,7 @@ describe('Integration: handleGetWorkflow', () => {
     it('should return error for non-existent workflow (invalid ID)', async () => {
       const invalidId = '99999999';
 
-      const response = await handleGetWorkflow({ id: invalidId }, mcpContext);
+      const response = await handleGetWorkflow({ id: invalidId }, repository, mcpContext);
 
       // MCP handlers return success: false on error
       expect(response.success).toBe(false);
@@ -104,7 +107,7 @@ describe('Integration: handleGetWorkflow', () => {
     it('should return error for malformed workflow ID', async () => {
       const malformedId = 'not-a-valid-id-format';
 
-      const response = await handleGetWorkflow({ id: malformedId }, mcpContext);
+      const response = await handleGetWorkflow({ id: malformedId }, repository, mcpContext);
 
       // MCP handlers return success: false on error
       expect(response.success).toBe(false);
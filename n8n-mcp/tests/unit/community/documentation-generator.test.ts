@@ -65,7 +65,7 @@ describe('DocumentationGenerator', () => {
 
     // Get the mocked create function
     mockCreate = vi.fn();
-    Object.defineProperty(generator, 'client', {
+    Object.defineProperty(generator['provider'], 'client', {
       value: {
         chat: {
           completions: {
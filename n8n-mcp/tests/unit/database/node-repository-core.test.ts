@@ -226,6 +226,8 @@ describe('NodeRepository - Core Functionality', () => {
         npmVersion: null,
         npmDownloads: 0,
         communityFetchedAt: null,
+        isPrivate: false,
+        privateSource: null,
         npmReadme: null,
         aiDocumentationSummary: null,
         aiSummaryGeneratedAt: null,
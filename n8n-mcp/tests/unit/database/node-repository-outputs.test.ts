@@ -290,6 +290,8 @@ describe('NodeRepository - Outputs Handling', () => {
         npmVersion: null,
         npmDownloads: 0,
         communityFetchedAt: null,
+        isPrivate: false,
+        privateSource: null,
         npmReadme: null,
         aiDocumentationSummary: null,
         aiSummaryGeneratedAt: null
@@ -684,6 +684,49 @@ describe('HTTP Server Session Management', () => {
     });
   });
 
+  describe('Metrics Endpoint', () => {
+    const TEST_METRICS_TOKEN = 'test-metrics-token-with-more-than-32-characters';
+
+    it('should not register /metrics without METRICS_TOKEN', async () => {
+      server = new SingleSessionHTTPServer();
+      await server.start();
+
+      expect(findHandler('get', '/metrics')).toBeNull();
+    });
+
+    it('should serve Prometheus metrics with the metrics token', async () => {
+      process.env.METRICS_TOKEN = TEST_METRICS_TOKEN;
+      server = new SingleSessionHTTPServer();
+      await server.start();
+      (server as any).transports['session-1'] = {};
+
+      const handler = findHandler('get', '/metrics');
+      const { req, res } = createMockReqRes();
+      req.headers.authorization = `Bearer ${TEST_METRICS_TOKEN}`;
+      handler(req, res);
+
+      expect(res.getHeader('content-type')).toBe('text/plain; version=0.0.4; charset=utf-8');
+      const body = res.send.mock.calls[0][0];
+      expect(body).toContain('# TYPE n8n_mcp_active_sessions gauge');
+      expect(body).toContain('n8n_mcp_active_sessions 1');
+      expect(body).toContain('n8n_mcp_cache_hit_ratio');
+    });
+
+    it('should reject the MCP auth token', async () => {
+      process.env.METRICS_TOKEN = TEST_METRICS_TOKEN;
+      server = new SingleSessionHTTPServer();
+      await server.start();
+
+      const handler = findHandler('get', '/metrics');
+      const { req, res } = createMockReqRes();
+      req.headers.authorization = `Bearer ${TEST_AUTH_TOKEN}`;
+      handler(req, res);
+
+      expect(res.status).toHaveBeenCalledWith(401);
+      expect(res.send).not.toHaveBeenCalled();
+    });
+  });
+
   describe('Transport Management', () => {
     it('should handle transport cleanup on close', async () => {
       server = new SingleSessionHTTPServer();
@@ -0,0 +1,190 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { OpenAICompatibleProvider } from '../../../src/llm/openai-compatible-provider';
+import { HeuristicProvider } from '../../../src/llm/heuristic-provider';
+import { createLLMProvider, getLLMProviderConfigFromEnv, extractJson, truncateToSchema } from '../../../src/llm';
+
+vi.mock('openai', () => ({
+  default: vi.fn().mockImplementation(() => ({
+    chat: { completions: { create: vi.fn() } }
+  }))
+}));
+
+vi.mock('../../../src/utils/logger', () => ({
+  logger: { info: vi.fn(), error: vi.fn(), warn: vi.fn(), debug: vi.fn() }
+}));
+
+const schema = {
+  type: 'object',
+  properties: { tags: { type: 'array', items: { type: 'string' }, maxItems: 2 } },
+  required: ['tags'],
+  additionalProperties: false
+};
+
+const request = { schemaName: 'tags', jsonSchema: schema, system: 'Extract tags.', prompt: 'Slack and Gmail' };
+
+function reply(content: string | null) {
+  return { choices: [{ message: { content } }] };
+}
+
+function unsupported(message: string) {
+  return Object.assign(new Error(message), { status: 400 });
+}
+
+function createProvider(config: Partial<ConstructorParameters<typeof OpenAICompatibleProvider>[0]> = {}) {
+  const provider = new OpenAICompatibleProvider({ baseUrl: 'http://localhost:1234/v1', model: 'local-model', ...config });
+  const create = vi.fn();
+  Object.defineProperty(provider, 'client', { value: { chat: { completions: { create } } }, writable: true });
+  return { provider, create };
+}
+
+describe('OpenAICompatibleProvider', () => {
+  describe('capability detection', () => {
+    it('should use json_schema when the server supports it', async () => {
+      const { provider, create } = createProvider();
+      create.mockResolvedValue(reply('{"ok": true}'));
+
+      expect(await provider.detectCapabilities()).toEqual({ structuredOutput: 'json_schema', batchApi: false });
+      expect(create.mock.calls[0][0].response_format.type).toBe('json_schema');
+
+      // Cached after the first probe
+      await provider.detectCapabilities();
+      expect(create).toHaveBeenCalledTimes(1);
+    });
+
+    it('should fall back to json_object and then prompt', async () => {
+      const { provider, create } = createProvider();
+      create
+        .mockRejectedValueOnce(unsupported('response_format json_schema is not supported'))
+        .mockRejectedValueOnce(unsupported('Unsupported response_format type json_object'));
+
+      expect((await provider.detectCapabilities()).structuredOutput).toBe('prompt');
+      expect(create).toHaveBeenCalledTimes(2);
+    });
+
+    it('should treat unparseable probe replies as unsupported', async () => {
+      const { provider, create } = createProvider();
+      create
+        .mockResolvedValueOnce(reply('Sure! Here you go.'))
+        .mockResolvedValueOnce(reply('```json\n{"ok": true}\n```'));
+
+      expect((await provider.detectCapabilities()).structuredOutput).toBe('json_object');
+    });
+
+    it('should rethrow connection errors instead of guessing', async () => {
+      const { provider, create } = createProvider();
+      create.mockRejectedValue(new Error('connect ECONNREFUSED 127.0.0.1:1234'));
+
+      await expect(provider.detectCapabilities()).rejects.toThrow('ECONNREFUSED');
+    });
+
+    it('should skip probing for explicit modes and report the Batch API only for OpenAI', async () => {
+      const { provider, create } = createProvider({ id: 'openai', baseUrl: undefined, structuredOutput: 'json_schema' });
+
+      expect(await provider.detectCapabilities()).toEqual({ structuredOutput: 'json_schema', batchApi: true });
+      expect(create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('generateJson', () => {
+    it('should send a strict JSON schema and truncate arrays to maxItems', async () => {
+      const { provider, create } = createProvider({ id: 'openai', structuredOutput: 'json_schema' });
+      create.mockResolvedValue(reply('{"tags": ["slack", "gmail", "email"]}'));
+
+      expect(await provider.generateJson(request)).toEqual({ tags: ['slack', 'gmail'] });
+      expect(create).toHaveBeenCalledWith(expect.objectContaining({
+        model: 'local-model',
+        max_completion_tokens: 2000,
+        response_format: { type: 'json_schema', json_schema: { name: 'tags', strict: true, schema } }
+      }));
+    });
+
+    it('should describe the schema in the prompt for models without structured output', async () => {
+      const { provider, create } = createProvider({ structuredOutput: 'prompt' });
+      create.mockResolvedValue(reply('<think>Two services.</think>{"tags": ["slack"]}'));
+
+      expect(await provider.generateJson({ ...request, temperature: 0.3 })).toEqual({ tags: ['slack'] });
+      const params = create.mock.calls[0][0];
+      expect(params.response_format).toBeUndefined();
+      expect(params.max_tokens).toBe(2000);
+      expect(params.temperature).toBe(0.3);
+      expect(params.messages[0].content).toContain('"maxItems":2');
+    });
+
+    it('should downgrade the mode when the server rejects it', async () => {
+      const { provider, create } = createProvider({ structuredOutput: 'json_schema' });
+      create
+        .mockRejectedValueOnce(unsupported("'response_format.type' must be 'json_object' or 'text'"))
+        .mockResolvedValueOnce(reply('{"tags": []}'));
+
+      expect(await provider.generateJson(request)).toEqual({ tags: [] });
+      expect(create.mock.calls[1][0].response_format).toEqual({ type: 'json_object' });
+      expect((await provider.detectCapabilities()).structuredOutput).toBe('json_object');
+    });
+
+    it('should not downgrade on unrelated errors', async () => {
+      const { provider, create } = createProvider({ structuredOutput: 'json_schema' });
+      create.mockRejectedValue(Object.assign(new Error('Rate limit reached'), { status: 429 }));
+
+      await expect(provider.generateJson(request)).rejects.toThrow('Rate limit reached');
+      expect(create).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reject empty replies', async () => {
+      const { provider, create } = createProvider({ structuredOutput: 'prompt' });
+      create.mockResolvedValue(reply(null));
+
+      await expect(provider.generateJson(request)).rejects.toThrow('No content in LLM response');
+    });
+  });
+});
+
+describe('HeuristicProvider', () => {
+  it('should return the request heuristic without calling a model', async () => {
+    const provider = new HeuristicProvider();
+
+    expect(await provider.generateJson({ ...request, heuristic: () => ({ tags: ['offline'] }) })).toEqual({ tags: ['offline'] });
+    await expect(provider.generateJson(request)).rejects.toThrow('The heuristic provider cannot generate tags');
+    expect((await provider.testConnection()).success).toBe(true);
+  });
+});
+
+describe('provider configuration', () => {
+  beforeEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('should read the provider from N8N_MCP_LLM_PROVIDER with a fallback', () => {
+    vi.stubEnv('N8N_MCP_LLM_PROVIDER', '');
+    vi.stubEnv('OPENAI_API_KEY', 'sk-test');
+    expect(getLLMProviderConfigFromEnv('openai')).toMatchObject({ provider: 'openai', apiKey: 'sk-test' });
+
+    vi.stubEnv('N8N_MCP_LLM_PROVIDER', 'openai-compatible');
+    vi.stubEnv('N8N_MCP_LLM_BASE_URL', 'http://localhost:11434/v1');
+    vi.stubEnv('N8N_MCP_LLM_STRUCTURED_OUTPUT', 'json_object');
+    expect(getLLMProviderConfigFromEnv('openai')).toMatchObject({
+      provider: 'openai-compatible',
+      baseUrl: 'http://localhost:11434/v1',
+      structuredOutput: 'json_object'
+    });
+
+    vi.stubEnv('N8N_MCP_LLM_PROVIDER', 'claude');
+    expect(() => getLLMProviderConfigFromEnv('openai')).toThrow('Invalid N8N_MCP_LLM_PROVIDER "claude"');
+  });
+
+  it('should create providers with per-provider defaults', () => {
+    expect(createLLMProvider({ provider: 'heuristic' })).toBeInstanceOf(HeuristicProvider);
+    expect(createLLMProvider({ provider: 'openai', apiKey: 'sk-test' }).model).toBe('gpt-4o-mini');
+    expect(createLLMProvider({ provider: 'openai-compatible' }).model).toBe('qwen3-4b-thinking-2507');
+  });
+});
+
+describe('JSON helpers', () => {
+  it('should extract JSON from reasoning blocks, code fences and prose', () => {
+    expect(extractJson('<think>{"draft": 1}</think>\n```json\n{"a": 1}\n```')).toBe('{"a": 1}');
+    expect(extractJson('Result: {"a": 1} done')).toBe('{"a": 1}');
+  });
+
+  it('should only truncate arrays with maxItems', () => {
+    expect(truncateToSchema({ tags: [1, 2, 3], other: [1, 2, 3] }, schema)).toEqual({ tags: [1, 2], other: [1, 2, 3] });
+  });
+});
@@ -0,0 +1,247 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { handleBulkUpdateWorkflows, matchesSelector, expandOperations } from '@/mcp/handlers-bulk-workflows';
+
+vi.mock('@/utils/logger');
+vi.mock('@/services/workflow-versioning-service');
+vi.mock('@/mcp/handlers-workflow-diff', () => ({
+  handleUpdatePartialWorkflow: vi.fn(),
+}));
+vi.mock('@/mcp/handlers-n8n-manager', () => ({
+  getN8nApiClient: vi.fn(),
+  generateAutofixPlan: vi.fn(),
+}));
+
+import { handleUpdatePartialWorkflow } from '@/mcp/handlers-workflow-diff';
+import { getN8nApiClient, generateAutofixPlan } from '@/mcp/handlers-n8n-manager';
+import { WorkflowVersioningService } from '@/services/workflow-versioning-service';
+
+function workflow(id: string, name: string, overrides: Record<string, unknown> = {}) {
+  return {
+    id,
+    name,
+    active: true,
+    tags: [{ id: 't1', name: 'Billing' }],
+    nodes: [
+      { id: 'a', name: 'API', type: 'n8n-nodes-base.httpRequest', typeVersion: 4, position: [0, 0], parameters: {} },
+      { id: 'b', name: 'API 2', type: 'n8n-nodes-base.httpRequest', typeVersion: 4, position: [200, 0], parameters: {} },
+      { id: 'c', name: 'Set', type: 'n8n-nodes-base.set', typeVersion: 3, position: [400, 0], parameters: {} }
+    ],
+    connections: {},
+    ...overrides
+  } as any;
+}
+
+const urlChange = [{ type: 'updateNode', nodeName: '*', updates: { 'parameters.url': 'https://new.example.com' } }];
+
+describe('handlers-bulk-workflows', () => {
+  let client: any;
+  let repository: any;
+  let createBackup: any;
+  let restoreVersion: any;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    client = {
+      listWorkflows: vi.fn().mockResolvedValue({
+        data: [
+          workflow('1', 'Orders Sync'),
+          workflow('2', 'Orders Export', { nodes: [workflow('x', 'x').nodes[2]] }),
+          workflow('3', 'Reports', { active: false })
+        ],
+        nextCursor: null
+      }),
+      getWorkflow: vi.fn(async (id: string) => workflow(id, `Workflow ${id}`))
+    };
+    vi.mocked(getN8nApiClient).mockReturnValue(client);
+
+    repository = {
+      getWorkflowVersionsByBulkOperation: vi.fn().mockReturnValue([]),
+      updateWorkflowVersionMetadata: vi.fn(),
+      deleteWorkflowVersion: vi.fn()
+    };
+
+    let nextVersion = 1;
+    createBackup = vi.fn(async () => ({ versionId: nextVersion++, versionNumber: 1, pruned: 0, message: '' }));
+    restoreVersion = vi.fn(async (workflowId: string) => ({ success: true, message: 'restored', workflowId, toVersionId: 1, backupCreated: true }));
+    vi.mocked(WorkflowVersioningService).mockImplementation(() => ({ createBackup, restoreVersion }) as any);
+
+    vi.mocked(handleUpdatePartialWorkflow).mockResolvedValue({ success: true, data: {} });
+  });
+
+  describe('matchesSelector', () => {
+    it('should require every given criterion', () => {
+      const wf = workflow('1', 'Orders Sync');
+
+      expect(matchesSelector(wf, { namePattern: 'orders *' })).toBe(true);
+      expect(matchesSelector(wf, { namePattern: 'Orders' })).toBe(false);
+      expect(matchesSelector(wf, { tags: ['billing'], nodeType: 'nodes-base.httpRequest' })).toBe(true);
+      expect(matchesSelector(wf, { tags: ['billing', 'prod'] })).toBe(false);
+      expect(matchesSelector(wf, { active: false })).toBe(false);
+      expect(matchesSelector(wf, { nodeType: 'n8n-nodes-base.slack' })).toBe(false);
+    });
+  });
+
+  describe('expandOperations', () => {
+    it('should repeat wildcard operations for every node of the type', () => {
+      const operations = expandOperations(
+        [...urlChange, { type: 'updateName', name: 'Renamed' }],
+        workflow('1', 'Orders Sync'),
+        'n8n-nodes-base.httpRequest'
+      );
+
+      expect(operations.map((op: any) => op.nodeName ?? op.type)).toEqual(['API', 'API 2', 'updateName']);
+    });
+  });
+
+  describe('apply', () => {
+    it('should dry run by default without backups', async () => {
+      const result: any = await handleBulkUpdateWorkflows(
+        { selector: { nodeType: 'n8n-nodes-base.httpRequest', namePattern: 'Orders*' }, operations: urlChange },
+        repository
+      );
+
+      expect(result.success).toBe(true);
+      expect(result.data.dryRun).toBe(true);
+      expect(result.data.bulkOperationId).toBeUndefined();
+      expect(result.data.summary).toEqual({ matched: 1, updated: 0, wouldUpdate: 1, unchanged: 0, failed: 0 });
+      expect(result.data.results[0]).toMatchObject({ workflowId: '1', status: 'would_update', operations: 2 });
+      expect(handleUpdatePartialWorkflow).toHaveBeenCalledWith(
+        expect.objectContaining({ id: '1', validateOnly: true, createBackup: false }),
+        repository,
+        undefined
+      );
+      expect(createBackup).not.toHaveBeenCalled();
+    });
+
+    it('should back up each workflow under one bulk operation ID', async () => {
+      vi.mocked(handleUpdatePartialWorkflow).mockResolvedValue({ success: true, data: { versionId: 'v2', updatedAt: '2026-01-02T00:00:00.000Z' } });
+
+      const result: any = await handleBulkUpdateWorkflows(
+        { selector: { ids: ['7', '8'] }, operations: [{ type: 'updateName', name: 'Renamed' }], dryRun: false },
+        repository
+      );
+
+      const bulkOperationId = result.data.bulkOperationId;
+      expect(bulkOperationId).toEqual(expect.any(String));
+      expect(result.data.summary.updated).toBe(2);
+      expect(createBackup).toHaveBeenCalledTimes(2);
+      expect(createBackup).toHaveBeenCalledWith('7', expect.any(Object), expect.objectContaining({
+        trigger: 'partial_update',
+        metadata: expect.objectContaining({ bulkOperationId })
+      }));
+      expect(client.listWorkflows).not.toHaveBeenCalled();
+      expect(repository.updateWorkflowVersionMetadata).toHaveBeenCalledWith(1, expect.objectContaining({
+        bulkOperationId,
+        appliedRevision: { versionId: 'v2', updatedAt: '2026-01-02T00:00:00.000Z' }
+      }));
+    });
+
+    it('should discard the backup of a workflow whose update failed', async () => {
+      vi.mocked(handleUpdatePartialWorkflow)
+        .mockResolvedValueOnce({ success: true, data: {} })
+        .mockResolvedValueOnce({ success: false, error: 'Failed to apply diff operations' });
+
+      const result: any = await handleBulkUpdateWorkflows(
+        { selector: { ids: ['7', '8'] }, operations: [{ type: 'updateName', name: 'Renamed' }], dryRun: false, concurrency: 1 },
+        repository
+      );
+
+      expect(result.data.results.map((entry: any) => entry.status)).toEqual(['updated', 'failed']);
+      expect(result.data.results[1].error).toBe('Failed to apply diff operations');
+      expect(repository.deleteWorkflowVersion).toHaveBeenCalledWith(2);
+    });
+
+    it('should report workflows without fixes as unchanged when autofixing', async () => {
+      vi.mocked(generateAutofixPlan)
+        .mockResolvedValueOnce({ validationResult: {} as any, fixResult: { operations: [{ type: 'updateNode' }], fixes: [{ type: 'typeversion-correction' }], summary: '', stats: {} } as any })
+        .mockResolvedValueOnce({ validationResult: {} as any, fixResult: { operations: [], fixes: [], summary: '', stats: {} } as any });
+
+      const result: any = await handleBulkUpdateWorkflows(
+        { selector: { active: true }, autofix: { confidenceThreshold: 'high' }, dryRun: false, concurrency: 1 },
+        repository
+      );
+
+      expect(client.listWorkflows).toHaveBeenCalledWith(expect.objectContaining({ active: true }));
+      expect(result.data.results.map((entry: any) => entry.status)).toEqual(['updated', 'unchanged']);
+      expect(createBackup).toHaveBeenCalledWith('1', expect.any(Object), expect.objectContaining({
+        trigger: 'autofix',
+        fixTypes: ['typeversion-correction']
+      }));
+    });
+
+    it('should reject invalid input', async () => {
+      const missingChange = await handleBulkUpdateWorkflows({ selector: { active: true } }, repository);
+      const wildcardWithoutType = await handleBulkUpdateWorkflows({ selector: { active: true }, operations: urlChange }, repository);
+      const emptySelector = await handleBulkUpdateWorkflows({ selector: {}, operations: urlChange }, repository);
+
+      for (const result of [missingChange, wildcardWithoutType, emptySelector]) {
+        expect(result.success).toBe(false);
+        expect(result.error).toBe('Invalid input');
+      }
+    });
+  });
+
+  describe('rollback', () => {
+    const backups = () => [
+      { id: 11, workflowId: '1', workflowName: 'Orders Sync', metadata: { bulkOperationId: 'op-1', appliedRevision: { versionId: 'v2' } } },
+      { id: 12, workflowId: '2', workflowName: 'Orders Export', metadata: { bulkOperationId: 'op-1', appliedRevision: { versionId: 'v2' } } }
+    ];
+
+    it('should restore every backup of the bulk operation', async () => {
+      repository.getWorkflowVersionsByBulkOperation.mockReturnValue(backups());
+      client.getWorkflow.mockImplementation(async (id: string) => workflow(id, `Workflow ${id}`, { versionId: 'v2' }));
+
+      const result: any = await handleBulkUpdateWorkflows(
+        { action: 'rollback', bulkOperationId: 'op-1', dryRun: false },
+        repository
+      );
+
+      expect(result.data.summary).toEqual({ workflows: 2, restored: 2, conflicts: 0, failed: 0 });
+      expect(restoreVersion).toHaveBeenCalledWith('1', 11, false);
+      expect(restoreVersion).toHaveBeenCalledWith('2', 12, false);
+    });
+
+    it('should skip workflows edited after the bulk update unless forced', async () => {
+      repository.getWorkflowVersionsByBulkOperation.mockReturnValue(backups());
+      client.getWorkflow.mockImplementation(async (id: string) =>
+        workflow(id, `Workflow ${id}`, { versionId: id === '2' ? 'v3' : 'v2' })
+      );
+
+      const result: any = await handleBulkUpdateWorkflows(
+        { action: 'rollback', bulkOperationId: 'op-1', dryRun: false },
+        repository
+      );
+
+      expect(result.data.summary).toEqual({ workflows: 2, restored: 1, conflicts: 1, failed: 0 });
+      expect(result.data.results[1]).toMatchObject({ workflowId: '2', status: 'conflict', current: { versionId: 'v3' } });
+      expect(result.message).toContain('pass force=true');
+      expect(restoreVersion).toHaveBeenCalledTimes(1);
+
+      const forced: any = await handleBulkUpdateWorkflows(
+        { action: 'rollback', bulkOperationId: 'op-1', dryRun: false, force: true },
+        repository
+      );
+
+      expect(forced.data.summary.restored).toBe(2);
+    });
+
+    it('should treat backups without a recorded revision as conflicts', async () => {
+      repository.getWorkflowVersionsByBulkOperation.mockReturnValue([
+        { id: 11, workflowId: '1', workflowName: 'Orders Sync', metadata: { bulkOperationId: 'op-1' } }
+      ]);
+
+      const result: any = await handleBulkUpdateWorkflows({ action: 'rollback', bulkOperationId: 'op-1' }, repository);
+
+      expect(result.data.results[0].status).toBe('conflict');
+      expect(result.data.results[0].message).toContain('was not recorded');
+    });
+
+    it('should fail when the bulk operation has no backups', async () => {
+      const result: any = await handleBulkUpdateWorkflows({ action: 'rollback', bulkOperationId: 'unknown' }, repository);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('No backups found for bulk operation unknown');
+    });
+  });
+});
@@ -11,6 +11,7 @@ import {
   N8nServerError,
 } from '@/utils/n8n-errors';
 import { ExecutionStatus } from '@/types/n8n-api';
+import { setHttpMode } from '@/utils/server-mode';
 
 // Mock dependencies
 vi.mock('@/services/n8n-api-client');
@@ -44,6 +45,11 @@ vi.mock('@/utils/logger', () => ({
     DEBUG: 3,
   }
 }));
+vi.mock('@/utils/ssrf-protection', () => ({
+  SSRFProtection: {
+    validateWebhookUrl: vi.fn(async () => ({ valid: true })),
+  },
+}));
 
 describe('handlers-n8n-manager', () => {
   let mockApiClient: any;
@@ -99,13 +105,37 @@ describe('handlers-n8n-manager', () => {
       getExecution: vi.fn(),
       listExecutions: vi.fn(),
       deleteExecution: vi.fn(),
+      retryExecution: vi.fn(),
       healthCheck: vi.fn(),
+      listCredentials: vi.fn(),
+      getCredential: vi.fn(),
+      createCredential: vi.fn(),
+      updateCredential: vi.fn(),
+      deleteCredential: vi.fn(),
+      getCredentialSchema: vi.fn(),
+      listTags: vi.fn(),
+      createTag: vi.fn(),
+      updateTag: vi.fn(),
+      deleteTag: vi.fn(),
+      getWorkflowTags: vi.fn(),
+      updateWorkflowTags: vi.fn(),
+      getVariables: vi.fn(),
+      createVariable: vi.fn(),
+      updateVariable: vi.fn(),
+      deleteVariable: vi.fn(),
+      getSourceControlStatus: vi.fn(),
+      pullSourceControl: vi.fn(),
+      pushSourceControl: vi.fn(),
     };
 
     // Setup mock repository
     mockRepository = {
       getNodeByType: vi.fn(),
       getAllNodes: vi.fn(),
+      getNode: vi.fn(),
+      getNodePropertyDefaults: vi.fn().mockReturnValue({}),
+      saveWorkflowRevision: vi.fn(),
+      getWorkflowRevision: vi.fn().mockReturnValue(null),
     };
 
     // Setup mock validator
@@ -638,7 +668,7 @@ describe('handlers-n8n-manager', () => {
       const testWorkflow = createTestWorkflow();
       mockApiClient.getWorkflow.mockResolvedValue(testWorkflow);
 
-      const result = await handlers.handleGetWorkflow({ id: 'test-workflow-id' });
+      const result = await handlers.handleGetWorkflow({ id: 'test-workflow-id' }, mockRepository);
 
       expect(result).toEqual({
         success: true,
@@ -651,7 +681,7 @@ describe('handlers-n8n-manager', () => {
       const notFoundError = new N8nNotFoundError('Workflow', 'non-existent');
       mockApiClient.getWorkflow.mockRejectedValue(notFoundError);
 
-      const result = await handlers.handleGetWorkflow({ id: 'non-existent' });
+      const result = await handlers.handleGetWorkflow({ id: 'non-existent' }, mockRepository);
 
       expect(result).toEqual({
         success: false,
@@ -661,7 +691,7 @@ describe('handlers-n8n-manager', () => {
     });
 
     it('should handle invalid input', async () => {
-      const result = await handlers.handleGetWorkflow({ notId: 'test' });
+      const result = await handlers.handleGetWorkflow({ notId: 'test' }, mockRepository);
 
       expect(result.success).toBe(false);
       expect(result.error).toBe('Invalid input');
@@ -683,7 +713,7 @@ describe('handlers-n8n-manager', () => {
         nextCursor: null,
       });
 
-      const result = await handlers.handleGetWorkflowDetails({ id: 'test-workflow-id' });
+      const result = await handlers.handleGetWorkflowDetails({ id: 'test-workflow-id' }, mockRepository);
 
       expect(result).toEqual({
         success: true,
@@ -720,7 +750,7 @@ describe('handlers-n8n-manager', () => {
       vi.mocked(n8nValidation.hasWebhookTrigger).mockReturnValue(true);
       vi.mocked(n8nValidation.getWebhookUrl).mockReturnValue('/webhook/test-webhook');
 
-      const result = await handlers.handleGetWorkflowDetails({ id: 'test-workflow-id' });
+      const result = await handlers.handleGetWorkflowDetails({ id: 'test-workflow-id' }, mockRepository);
 
       expect(result.success).toBe(true);
       expect(result.data).toHaveProperty('hasWebhookTrigger', true);
@@ -728,9 +758,159 @@ describe('handlers-n8n-manager', () => {
     });
   });
 
+  describe('handleUpdateWorkflow - optimistic concurrency', () => {
+    const node = (parameters: Record<string, unknown>, name = 'Start') => ({
+      id: 'node1',
+      name,
+      type: 'n8n-nodes-base.start',
+      typeVersion: 1,
+      position: [100, 100],
+      parameters,
+    });
+
+    const storeBase = (snapshot: any) => {
+      mockRepository.getWorkflowVersions = vi.fn().mockReturnValue([
+        { id: 7, workflowId: 'test-workflow-id', versionNumber: 3, workflowSnapshot: snapshot },
+      ]);
+    };
+
+    it('should update directly when the expected revision is current', async () => {
+      const current = createTestWorkflow({ versionId: 'v1' });
+      mockApiClient.getWorkflow.mockResolvedValue(current);
+      mockApiClient.updateWorkflow.mockResolvedValue({ ...current, versionId: 'v2' });
+
+      const result = await handlers.handleUpdateWorkflow({
+        id: 'test-workflow-id',
+        nodes: [node({ a: 1 })],
+        connections: {},
+        expectedVersionId: 'v1',
+        createBackup: false,
+      }, mockRepository);
+
+      expect(result.success).toBe(true);
+      expect(result.data.versionId).toBe('v2');
+      expect(result.data.merged).toBeUndefined();
+      expect(mockApiClient.updateWorkflow).toHaveBeenCalledWith('test-workflow-id', expect.objectContaining({
+        nodes: [node({ a: 1 })],
+      }));
+    });
+
+    it('should merge non-conflicting changes made since the expected revision', async () => {
+      storeBase(createTestWorkflow({ versionId: 'v1', nodes: [node({})] }));
+      const current = createTestWorkflow({ versionId: 'v2', name: 'Renamed', nodes: [node({ b: 2 })] });
+      mockApiClient.getWorkflow.mockResolvedValue(current);
+      mockApiClient.updateWorkflow.mockImplementation(async (_id: string, data: any) => ({ ...current, ...data, versionId: 'v3' }));
+
+      const result = await handlers.handleUpdateWorkflow({
+        id: 'test-workflow-id',
+        nodes: [node({ a: 1 })],
+        connections: {},
+        expectedVersionId: 'v1',
+        createBackup: false,
+      }, mockRepository);
+
+      expect(result.success).toBe(true);
+      expect(result.data.merged).toBe(true);
+      expect(result.message).toContain('Merged with changes made since version 3');
+      expect(mockApiClient.updateWorkflow).toHaveBeenCalledWith('test-workflow-id', expect.objectContaining({
+        name: 'Renamed',
+        nodes: [node({ b: 2, a: 1 })],
+      }));
+    });
+
+    it('should report parameter conflicts without saving', async () => {
+      storeBase(createTestWorkflow({ versionId: 'v1', nodes: [node({ url: 'a' })] }));
+      mockApiClient.getWorkflow.mockResolvedValue(
+        createTestWorkflow({ versionId: 'v2', nodes: [node({ url: 'theirs' })] })
+      );
+
+      const result = await handlers.handleUpdateWorkflow({
+        id: 'test-workflow-id',
+        nodes: [node({ url: 'ours' })],
+        connections: {},
+        expectedVersionId: 'v1',
+      }, mockRepository);
+
+      expect(result.success).toBe(false);
+      expect(result.code).toBe('WORKFLOW_CONFLICT');
+      expect(result.details.reason).toBe('merge_conflict');
+      expect(result.details.conflicts).toEqual([
+        expect.objectContaining({
+          scope: 'parameter',
+          type: 'both_modified',
+          node: { id: 'node1', name: 'Start' },
+          path: 'parameters.url',
+          base: 'a',
+          ours: 'ours',
+          theirs: 'theirs',
+        }),
+      ]);
+      expect(mockApiClient.updateWorkflow).not.toHaveBeenCalled();
+    });
+
+    it('should merge with UI edits made between reading and writing the workflow', async () => {
+      const revisions = new Map<string, any>();
+      mockRepository.getWorkflowVersions = vi.fn().mockReturnValue([]);
+      mockRepository.saveWorkflowRevision = vi.fn((workflowId: string, snapshot: any) => {
+        revisions.set(`${workflowId}:${snapshot.versionId}`, JSON.parse(JSON.stringify(snapshot)));
+      });
+      mockRepository.getWorkflowRevision = vi.fn((workflowId: string, revision: any) =>
+        revisions.get(`${workflowId}:${revision.versionId}`) ?? null
+      );
+
+      mockApiClient.getWorkflow.mockResolvedValue(createTestWorkflow({ versionId: 'v1', nodes: [node({})] }));
+      const read = await handlers.handleGetWorkflow({ id: 'test-workflow-id' }, mockRepository);
+
+      // Edited in the n8n UI after the read
+      const edited = createTestWorkflow({ versionId: 'v2', name: 'Renamed in UI', nodes: [node({ b: 2 })] });
+      mockApiClient.getWorkflow.mockResolvedValue(edited);
+      mockApiClient.updateWorkflow.mockImplementation(async (_id: string, data: any) => ({ ...edited, ...data, versionId: 'v3' }));
+
+      const result = await handlers.handleUpdateWorkflow({
+        id: 'test-workflow-id',
+        nodes: [node({ a: 1 })],
+        connections: {},
+        expectedVersionId: read.data.versionId,
+        createBackup: false,
+      }, mockRepository);
+
+      expect(result.success).toBe(true);
+      expect(result.data.merged).toBe(true);
+      expect(result.message).toContain('Merged with changes made since revision v1');
+      expect(mockApiClient.updateWorkflow).toHaveBeenCalledWith('test-workflow-id', expect.objectContaining({
+        name: 'Renamed in UI',
+        nodes: [node({ b: 2, a: 1 })],
+      }));
+      expect(revisions.has('test-workflow-id:v3')).toBe(true);
+    });
+
+    it('should refuse to overwrite when the expected revision is not in the version history', async () => {
+      mockRepository.getWorkflowVersions = vi.fn().mockReturnValue([]);
+      mockApiClient.getWorkflow.mockResolvedValue(
+        createTestWorkflow({ updatedAt: '2024-02-01T00:00:00Z' })
+      );
+
+      const result = await handlers.handleUpdateWorkflow({
+        id: 'test-workflow-id',
+        name: 'New name',
+        expectedUpdatedAt: '2024-01-01T00:00:00Z',
+      }, mockRepository);
+
+      expect(result.success).toBe(false);
+      expect(result.code).toBe('WORKFLOW_CONFLICT');
+      expect(result.details.reason).toBe('base_unavailable');
+      expect(mockApiClient.updateWorkflow).not.toHaveBeenCalled();
+    });
+  });
+
   describe('handleDeleteWorkflow', () => {
+    beforeEach(() => {
+      mockApiClient.getWorkflow.mockResolvedValue(createTestWorkflow());
+    });
+
     it('should delete workflow successfully', async () => {
       const testWorkflow = createTestWorkflow();
+      mockApiClient.listWorkflows.mockResolvedValue({ data: [testWorkflow], nextCursor: null });
       mockApiClient.deleteWorkflow.mockResolvedValue(testWorkflow);
 
       const result = await handlers.handleDeleteWorkflow({ id: 'test-workflow-id' });
@@ -747,6 +927,97 @@ describe('handlers-n8n-manager', () => {
       expect(mockApiClient.deleteWorkflow).toHaveBeenCalledWith('test-workflow-id');
     });
 
+    const callerWorkflows = () => {
+      mockApiClient.listWorkflows.mockResolvedValue({
+        data: [
+          createTestWorkflow(),
+          createTestWorkflow({
+            id: 'caller-id',
+            name: 'Caller',
+            nodes: [{
+              id: 'n1', name: 'Run', type: 'n8n-nodes-base.executeWorkflow', typeVersion: 1, position: [0, 0],
+              parameters: { workflowId: 'test-workflow-id' },
+            }],
+          }),
+        ],
+        nextCursor: null,
+      });
+      mockApiClient.deleteWorkflow.mockResolvedValue(createTestWorkflow());
+    };
+
+    it('should delete and warn about workflows that still call it', async () => {
+      callerWorkflows();
+
+      const result = await handlers.handleDeleteWorkflow({ id: 'test-workflow-id' });
+
+      expect(result.success).toBe(true);
+      expect(mockApiClient.deleteWorkflow).toHaveBeenCalledWith('test-workflow-id');
+      expect(result.data.dependentWorkflows).toEqual([{ id: 'caller-id', name: 'Caller' }]);
+      expect(result.message).toContain('1 workflow(s) still call it and will fail: "Caller"');
+    });
+
+    it('should refuse to delete a called workflow when asked to', async () => {
+      callerWorkflows();
+
+      const result = await handlers.handleDeleteWorkflow({ id: 'test-workflow-id', checkDependents: 'refuse' });
+
+      expect(result.success).toBe(false);
+      expect(result.code).toBe('WORKFLOW_HAS_DEPENDENTS');
+      expect(result.error).toContain('1 workflow(s) call it and would fail: "Caller"');
+      expect(result.details.dependentWorkflows).toEqual([{ id: 'caller-id', name: 'Caller' }]);
+      expect(mockApiClient.deleteWorkflow).not.toHaveBeenCalled();
+    });
+
+    it('should say when the dependents check failed', async () => {
+      mockApiClient.listWorkflows.mockRejectedValue(new Error('Request timed out'));
+      mockApiClient.deleteWorkflow.mockResolvedValue(createTestWorkflow());
+
+      const result = await handlers.handleDeleteWorkflow({ id: 'test-workflow-id' });
+
+      expect(result.success).toBe(true);
+      expect(result.data.dependentsCheckError).toBe('Request timed out');
+      expect(result.message).toContain('Could not check whether other workflows call it: Request timed out');
+
+      const refused = await handlers.handleDeleteWorkflow({ id: 'test-workflow-id', checkDependents: 'refuse' });
+      expect(refused.code).toBe('DEPENDENTS_CHECK_FAILED');
+      expect(mockApiClient.deleteWorkflow).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not scan the instance when the workflow cannot be called', async () => {
+      mockApiClient.getWorkflow.mockResolvedValue(createTestWorkflow({
+        nodes: [{ id: 'n1', name: 'Webhook', type: 'n8n-nodes-base.webhook', typeVersion: 2, position: [0, 0], parameters: {} }],
+      }));
+      mockApiClient.deleteWorkflow.mockResolvedValue(createTestWorkflow());
+
+      const result = await handlers.handleDeleteWorkflow({ id: 'test-workflow-id', checkDependents: 'refuse' });
+
+      expect(result.success).toBe(true);
+      expect(mockApiClient.getWorkflow).toHaveBeenCalledWith('test-workflow-id');
+      expect(mockApiClient.listWorkflows).not.toHaveBeenCalled();
+    });
+
+    it('should give up the check instead of fetching many workflows listed without nodes', async () => {
+      const listed = Array.from({ length: 51 }, (_, i) => ({ id: `wf-${i}`, name: `Workflow ${i}` }));
+      mockApiClient.listWorkflows.mockResolvedValue({ data: listed, nextCursor: null });
+
+      const result = await handlers.handleDeleteWorkflow({ id: 'test-workflow-id', checkDependents: 'refuse' });
+
+      expect(result.code).toBe('DEPENDENTS_CHECK_FAILED');
+      expect(result.error).toContain('51 workflows were listed without their nodes');
+      expect(mockApiClient.getWorkflow).toHaveBeenCalledTimes(1);
+      expect(mockApiClient.deleteWorkflow).not.toHaveBeenCalled();
+    });
+
+    it('should skip the dependents check when it is off', async () => {
+      mockApiClient.deleteWorkflow.mockResolvedValue(createTestWorkflow());
+
+      const result = await handlers.handleDeleteWorkflow({ id: 'test-workflow-id', checkDependents: 'off' });
+
+      expect(result.success).toBe(true);
+      expect(mockApiClient.listWorkflows).not.toHaveBeenCalled();
+      expect(mockApiClient.getWorkflow).not.toHaveBeenCalled();
+    });
+
     it('should handle invalid input', async () => {
       const result = await handlers.handleDeleteWorkflow({ notId: 'test' });
 
@@ -998,6 +1269,55 @@ describe('handlers-n8n-manager', () => {
         },
       });
     });
+
+    it('should pass run data of the last successful execution to the validator', async () => {
+      const runData = { 'Node 1': [{ data: { main: [[{ json: { id: 1 } }]] } }] };
+      mockApiClient.getWorkflow.mockResolvedValue(createTestWorkflow());
+      mockApiClient.listExecutions.mockResolvedValue({
+        data: [{ id: 'exec-1', status: 'success', data: { resultData: { runData } } }],
+        nextCursor: null
+      });
+      mockValidator.validateWorkflow.mockResolvedValue({
+        valid: true,
+        errors: [],
+        warnings: [],
+        suggestions: [],
+        statistics: { totalNodes: 1, enabledNodes: 1, triggerNodes: 1, validConnections: 0, invalidConnections: 0, expressionsValidated: 0 },
+      });
+
+      await handlers.handleValidateWorkflow({ id: 'test-workflow-id', options: { profile: 'strict' } }, {} as any);
+
+      expect(mockApiClient.listExecutions).toHaveBeenCalledWith({
+        workflowId: 'test-workflow-id',
+        status: 'success',
+        limit: 1,
+        includeData: true
+      });
+      expect(mockValidator.validateWorkflow).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'test-workflow-id' }),
+        { profile: 'strict', runData }
+      );
+    });
+
+    it('should validate without execution data when it is disabled or unavailable', async () => {
+      mockApiClient.getWorkflow.mockResolvedValue(createTestWorkflow());
+      mockApiClient.listExecutions.mockRejectedValue(new Error('forbidden'));
+      mockValidator.validateWorkflow.mockResolvedValue({
+        valid: true,
+        errors: [],
+        warnings: [],
+        suggestions: [],
+        statistics: { totalNodes: 1, enabledNodes: 1, triggerNodes: 1, validConnections: 0, invalidConnections: 0, expressionsValidated: 0 },
+      });
+
+      const result = await handlers.handleValidateWorkflow({ id: 'test-workflow-id' }, {} as any);
+      expect(result.success).toBe(true);
+      expect(mockValidator.validateWorkflow).toHaveBeenLastCalledWith(expect.anything(), { runData: undefined });
+
+      mockApiClient.listExecutions.mockClear();
+      await handlers.handleValidateWorkflow({ id: 'test-workflow-id', options: { useExecutionData: false } }, {} as any);
+      expect(mockApiClient.listExecutions).not.toHaveBeenCalled();
+    });
   });
 
   describe('handleHealthCheck', () => {
@@ -1077,14 +1397,14 @@ describe('handlers-n8n-manager', () => {
         },
         toolsAvailability: {
           documentationTools: {
-            count: 7,
+            count: 10,
             enabled: true,
           },
           managementTools: {
-            count: 13,
+            count: 23,
             enabled: true,
           },
-          totalAvailable: 20,
+          totalAvailable: 33,
         },
       });
 
@@ -1094,12 +1414,856 @@ describe('handlers-n8n-manager', () => {
     });
   });
 
+  describe('handleCredentials', () => {
+    const secretCredential = {
+      id: 'cred-1',
+      name: 'Slack Bot',
+      type: 'slackApi',
+      data: { accessToken: 'xoxb-secret' },
+      createdAt: '2024-01-01T00:00:00Z',
+      updatedAt: '2024-01-02T00:00:00Z',
+    };
+
+    it('should list credentials without secret data', async () => {
+      mockApiClient.listCredentials.mockResolvedValue({
+        data: [secretCredential, { id: 'cred-2', name: 'Sheets', type: 'googleSheetsOAuth2Api' }],
+        nextCursor: null,
+      });
+
+      const result = await handlers.handleCredentials({ action: 'list', type: 'slackApi' }, mockRepository);
+
+      expect(result.success).toBe(true);
+      expect(result.data.credentials).toEqual([{
+        id: 'cred-1',
+        name: 'Slack Bot',
+        type: 'slackApi',
+        createdAt: '2024-01-01T00:00:00Z',
+        updatedAt: '2024-01-02T00:00:00Z',
+      }]);
+      expect(JSON.stringify(result)).not.toContain('xoxb-secret');
+    });
+
+    it('should filter by type before paginating', async () => {
+      mockApiClient.listCredentials
+        .mockResolvedValueOnce({ data: [{ id: 'cred-2', name: 'Sheets', type: 'googleSheetsOAuth2Api' }], nextCursor: 'page-2' })
+        .mockResolvedValueOnce({ data: [secretCredential], nextCursor: 'page-3' });
+
+      const result = await handlers.handleCredentials({ action: 'list', type: 'slackApi', limit: 1 }, mockRepository);
+
+      expect(result.data.credentials.map((c: any) => c.id)).toEqual(['cred-1']);
+      expect(result.data.nextCursor).toBe('page-3');
+      expect(mockApiClient.listCredentials).toHaveBeenCalledTimes(2);
+      expect(mockApiClient.listCredentials).toHaveBeenLastCalledWith({ limit: 1, cursor: 'page-2' });
+    });
+
+    it('should never return secret data from get', async () => {
+      mockApiClient.getCredential.mockResolvedValue(secretCredential);
+
+      const result = await handlers.handleCredentials({ action: 'get', id: 'cred-1' }, mockRepository);
+
+      expect(result.success).toBe(true);
+      expect(result.data).not.toHaveProperty('data');
+      expect(mockApiClient.getCredential).toHaveBeenCalledWith('cred-1');
+    });
+
+    it('should require id for get, update and delete', async () => {
+      for (const action of ['get', 'update', 'delete']) {
+        const result = await handlers.handleCredentials({ action }, mockRepository);
+        expect(result.success).toBe(false);
+        expect(result.error).toContain('id is required');
+      }
+    });
+
+    it('should summarize the credential type schema', async () => {
+      mockApiClient.getCredentialSchema.mockResolvedValue({
+        type: 'object',
+        properties: {
+          accessToken: { type: 'string' },
+          region: { type: 'string', enum: ['eu', 'us'] },
+        },
+        required: ['accessToken'],
+      });
+
+      const result = await handlers.handleCredentials({ action: 'schema', type: 'slackApi' }, mockRepository);
+
+      expect(result.success).toBe(true);
+      expect(result.data.requiredFields).toEqual(['accessToken']);
+      expect(result.data.fields).toEqual([
+        { name: 'accessToken', type: 'string', required: true },
+        { name: 'region', type: 'string', required: false, options: ['eu', 'us'] },
+      ]);
+    });
+
+    it('should reject create when required schema fields are missing', async () => {
+      mockApiClient.getCredentialSchema.mockResolvedValue({
+        properties: { accessToken: { type: 'string' } },
+        required: ['accessToken'],
+      });
+
+      const result = await handlers.handleCredentials({
+        action: 'create',
+        name: 'Slack Bot',
+        type: 'slackApi',
+        data: {},
+      }, mockRepository);
+
+      expect(result.success).toBe(false);
+      expect(result.details.missingFields).toEqual(['accessToken']);
+      expect(mockApiClient.createCredential).not.toHaveBeenCalled();
+    });
+
+    it('should create credential and strip data from the response', async () => {
+      mockApiClient.getCredentialSchema.mockRejectedValue(new Error('not available'));
+      mockApiClient.createCredential.mockResolvedValue(secretCredential);
+
+      const result = await handlers.handleCredentials({
+        action: 'create',
+        name: 'Slack Bot',
+        type: 'slackApi',
+        data: { accessToken: 'xoxb-secret' },
+      }, mockRepository);
+
+      expect(result.success).toBe(true);
+      expect(mockApiClient.createCredential).toHaveBeenCalledWith({
+        name: 'Slack Bot',
+        type: 'slackApi',
+        data: { accessToken: 'xoxb-secret' },
+      });
+      expect(JSON.stringify(result)).not.toContain('xoxb-secret');
+    });
+
+    it('should report workflow credential requirements', async () => {
+      mockApiClient.getWorkflow.mockResolvedValue(createTestWorkflow({
+        nodes: [
+          {
+            id: 'n1',
+            name: 'Slack',
+            type: 'n8n-nodes-base.slack',
+            typeVersion: 2,
+            position: [0, 0],
+            parameters: { authentication: 'accessToken' },
+          },
+          {
+            id: 'n2',
+            name: 'Sheets',
+            type: 'n8n-nodes-base.googleSheets',
+            typeVersion: 4,
+            position: [200, 0],
+            parameters: {},
+            credentials: { googleSheetsOAuth2Api: { id: 'cred-9', name: 'Sheets' } },
+          },
+          {
+            id: 'n3',
+            name: 'Disabled Slack',
+            type: 'n8n-nodes-base.slack',
+            typeVersion: 2,
+            position: [400, 0],
+            parameters: {},
+            disabled: true,
+          },
+        ],
+      }));
+      mockRepository.getNode.mockImplementation((type: string) => {
+        if (type === 'n8n-nodes-base.slack') {
+          return {
+            credentials: [
+              { name: 'slackApi', required: true, displayOptions: { show: { authentication: ['accessToken'] } } },
+              { name: 'slackOAuth2Api', required: true, displayOptions: { show: { authentication: ['oAuth2'] } } },
+            ],
+          };
+        }
+        if (type === 'n8n-nodes-base.googleSheets') {
+          return { credentials: [{ name: 'googleSheetsOAuth2Api', required: true }] };
+        }
+        return null;
+      });
+      mockApiClient.listCredentials.mockResolvedValue({ data: [secretCredential], nextCursor: null });
+
+      const result = await handlers.handleCredentials({ action: 'requirements', workflowId: 'test-workflow-id' }, mockRepository);
+
+      expect(result.success).toBe(true);
+      expect(result.data.requirements).toHaveLength(2);
+      expect(result.data.missing).toEqual([
+        expect.objectContaining({ nodeName: 'Slack', credentialType: 'slackApi', assigned: false }),
+      ]);
+      const slackType = result.data.credentialTypes.find((t: any) => t.credentialType === 'slackApi');
+      expect(slackType.availableCredentials).toEqual([expect.objectContaining({ id: 'cred-1', name: 'Slack Bot' })]);
+      expect(JSON.stringify(result)).not.toContain('xoxb-secret');
+    });
+
+    it('should match requirements against credentials on every page', async () => {
+      mockApiClient.getWorkflow.mockResolvedValue(createTestWorkflow({
+        nodes: [{
+          id: 'n1',
+          name: 'Slack',
+          type: 'n8n-nodes-base.slack',
+          typeVersion: 2,
+          position: [0, 0],
+          parameters: {},
+        }],
+      }));
+      mockRepository.getNode.mockReturnValue({ credentials: [{ name: 'slackApi', required: true }] });
+      mockApiClient.listCredentials
+        .mockResolvedValueOnce({ data: [{ id: 'cred-2', name: 'GitHub', type: 'githubApi' }], nextCursor: 'page-2' })
+        .mockResolvedValueOnce({ data: [secretCredential], nextCursor: null });
+
+      const result = await handlers.handleCredentials({ action: 'requirements', workflowId: 'test-workflow-id' }, mockRepository);
+
+      expect(result.success).toBe(true);
+      expect(mockApiClient.listCredentials).toHaveBeenCalledTimes(2);
+      expect(mockApiClient.listCredentials).toHaveBeenLastCalledWith({ limit: 100, cursor: 'page-2' });
+      expect(result.data.credentialTypes).toEqual([
+        expect.objectContaining({
+          credentialType: 'slackApi',
+          availableCredentials: [expect.objectContaining({ id: 'cred-1', name: 'Slack Bot' })],
+        }),
+      ]);
+    });
+
+    it('should still report requirements when credentials cannot be listed', async () => {
+      mockApiClient.getWorkflow.mockResolvedValue(createTestWorkflow());
+      mockRepository.getNode.mockReturnValue({ credentials: [] });
+      mockApiClient.listCredentials.mockRejectedValue(new N8nNotFoundError('credentials'));
+
+      const result = await handlers.handleCredentials({ action: 'requirements', workflowId: 'test-workflow-id' }, mockRepository);
+
+      expect(result.success).toBe(true);
+      expect(result.data.missing).toEqual([]);
+    });
+  });
+
+  describe('handleTags', () => {
+    it('should list tags', async () => {
+      mockApiClient.listTags.mockResolvedValue({ data: [{ id: 't1', name: 'production' }], nextCursor: null });
+
+      const result = await handlers.handleTags({ action: 'list' });
+
+      expect(result.success).toBe(true);
+      expect(result.data.tags).toEqual([{ id: 't1', name: 'production' }]);
+      expect(result.data.hasMore).toBe(false);
+    });
+
+    it('should require name for create', async () => {
+      const result = await handlers.handleTags({ action: 'create' });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('name is required');
+      expect(mockApiClient.createTag).not.toHaveBeenCalled();
+    });
+
+    it('should assign tags by name while keeping existing workflow tags', async () => {
+      mockApiClient.listTags.mockResolvedValue({ data: [{ id: 't1', name: 'Production' }, { id: 't2', name: 'crm' }], nextCursor: null });
+      mockApiClient.getWorkflowTags
+        .mockResolvedValueOnce([{ id: 't2', name: 'crm' }])
+        .mockResolvedValueOnce([{ id: 't1', name: 'Production' }]);
+      mockApiClient.updateWorkflowTags.mockResolvedValue([{ id: 't2', name: 'crm' }, { id: 't1', name: 'Production' }]);
+
+      const result = await handlers.handleTags({ action: 'assign', tags: ['production'], workflowIds: ['wf1', 'wf2'] });
+
+      expect(result.success).toBe(true);
+      expect(mockApiClient.updateWorkflowTags).toHaveBeenCalledTimes(1);
+      expect(mockApiClient.updateWorkflowTags).toHaveBeenCalledWith('wf1', ['t2', 't1']);
+      expect(result.data.summary).toEqual({ total: 2, changed: 1, unchanged: 1, failed: 0 });
+    });
+
+    it('should create missing tags on assign', async () => {
+      mockApiClient.listTags.mockResolvedValue({ data: [], nextCursor: null });
+      mockApiClient.createTag.mockResolvedValue({ id: 't9', name: 'new-tag' });
+      mockApiClient.getWorkflowTags.mockResolvedValue([]);
+      mockApiClient.updateWorkflowTags.mockResolvedValue([{ id: 't9', name: 'new-tag' }]);
+
+      const result = await handlers.handleTags({ action: 'assign', tags: ['new-tag'], workflowIds: ['wf1'] });
+
+      expect(result.success).toBe(true);
+      expect(mockApiClient.createTag).toHaveBeenCalledWith({ name: 'new-tag' });
+      expect(result.data.createdTags).toEqual(['new-tag']);
+    });
+
+    it('should fail assign for unknown tags when createMissing is false', async () => {
+      mockApiClient.listTags.mockResolvedValue({ data: [], nextCursor: null });
+
+      const result = await handlers.handleTags({ action: 'assign', tags: ['nope'], workflowIds: ['wf1'], createMissing: false });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('Tags not found: nope');
+      expect(mockApiClient.getWorkflowTags).not.toHaveBeenCalled();
+    });
+
+    it('should report per-workflow failures on unassign', async () => {
+      mockApiClient.listTags.mockResolvedValue({ data: [{ id: 't1', name: 'staging' }], nextCursor: null });
+      mockApiClient.getWorkflowTags
+        .mockResolvedValueOnce([{ id: 't1', name: 'staging' }, { id: 't2', name: 'crm' }])
+        .mockRejectedValueOnce(new N8nNotFoundError('Workflow', 'missing'));
+      mockApiClient.updateWorkflowTags.mockResolvedValue([{ id: 't2', name: 'crm' }]);
+
+      const result = await handlers.handleTags({ action: 'unassign', tags: ['staging'], workflowIds: ['wf1', 'missing'] });
+
+      expect(result.success).toBe(false);
+      expect(mockApiClient.updateWorkflowTags).toHaveBeenCalledWith('wf1', ['t2']);
+      expect(result.data.results[1]).toEqual(expect.objectContaining({ workflowId: 'missing', success: false }));
+      expect(result.data.summary.failed).toBe(1);
+    });
+  });
+
+  describe('handleVariables', () => {
+    it('should list variables', async () => {
+      mockApiClient.getVariables.mockResolvedValue([{ id: 'v1', key: 'API_URL', value: 'https://x' }]);
+
+      const result = await handlers.handleVariables({ action: 'list' });
+
+      expect(result.success).toBe(true);
+      expect(result.data.returned).toBe(1);
+    });
+
+    it('should create a variable', async () => {
+      mockApiClient.createVariable.mockResolvedValue({ id: 'v1', key: 'API_URL', value: 'https://x' });
+
+      const result = await handlers.handleVariables({ action: 'create', key: 'API_URL', value: 'https://x' });
+
+      expect(result.success).toBe(true);
+      expect(mockApiClient.createVariable).toHaveBeenCalledWith({ key: 'API_URL', value: 'https://x' });
+      expect(result.message).toContain('$vars.API_URL');
+    });
+
+    it('should only send provided fields on update', async () => {
+      mockApiClient.updateVariable.mockResolvedValue({ id: 'v1', key: 'API_URL', value: 'https://y' });
+
+      const result = await handlers.handleVariables({ action: 'update', id: 'v1', value: 'https://y' });
+
+      expect(result.success).toBe(true);
+      expect(mockApiClient.updateVariable).toHaveBeenCalledWith('v1', { value: 'https://y' });
+    });
+
+    it('should require id for delete', async () => {
+      const result = await handlers.handleVariables({ action: 'delete' });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('id is required');
+    });
+  });
+
+  describe('handleSourceControl', () => {
+    const status = {
+      ahead: 0,
+      behind: 2,
+      conflicted: ['workflows/a.json'],
+      created: ['workflows/new.json'],
+      current: 'main',
+      deleted: [],
+      detached: false,
+      files: [],
+      modified: ['workflows/a.json'],
+      notAdded: [],
+      renamed: [],
+      staged: [],
+      tracking: 'origin/main',
+    };
+
+    it('should preview a pull without pulling', async () => {
+      mockApiClient.getSourceControlStatus.mockResolvedValue(status);
+
+      const result = await handlers.handleSourceControl({ action: 'pull', dryRun: true, force: true });
+
+      expect(result.success).toBe(true);
+      expect(mockApiClient.pullSourceControl).not.toHaveBeenCalled();
+      expect(result.data.incomingCommits).toBe(2);
+      expect(result.data.conflicts).toEqual(['workflows/a.json']);
+      expect(result.data.overwrittenByForce).toEqual(['workflows/new.json', 'workflows/a.json']);
+    });
+
+    it('should report pull conflicts as failure', async () => {
+      mockApiClient.pullSourceControl.mockResolvedValue({
+        conflicts: ['workflows/a.json'], files: [], mergeConflicts: true, pullResult: 'conflict',
+      });
+
+      const result = await handlers.handleSourceControl({ action: 'pull' });
+
+      expect(result.success).toBe(false);
+      expect(mockApiClient.pullSourceControl).toHaveBeenCalledWith(false);
+      expect(result.error).toContain('workflows/a.json');
+    });
+
+    it('should preview the files a push would include', async () => {
+      mockApiClient.getSourceControlStatus.mockResolvedValue({ ...status, behind: 0 });
+
+      const result = await handlers.handleSourceControl({
+        action: 'push',
+        dryRun: true,
+        fileNames: ['workflows/new.json', 'workflows/other.json'],
+      });
+
+      expect(result.success).toBe(true);
+      expect(mockApiClient.pushSourceControl).not.toHaveBeenCalled();
+      expect(result.data.files).toEqual(['workflows/new.json']);
+      expect(result.data.unchangedOrUnknownFiles).toEqual(['workflows/other.json']);
+    });
+
+    it('should require a commit message for push', async () => {
+      const result = await handlers.handleSourceControl({ action: 'push' });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('message');
+    });
+
+    it('should push with message and files', async () => {
+      mockApiClient.pushSourceControl.mockResolvedValue({
+        ahead: 0, conflicts: [], files: [{ path: 'workflows/new.json', status: 'created' }], pushResult: 'success',
+      });
+
+      const result = await handlers.handleSourceControl({ action: 'push', message: 'Add flow', fileNames: ['workflows/new.json'] });
+
+      expect(result.success).toBe(true);
+      expect(mockApiClient.pushSourceControl).toHaveBeenCalledWith('Add flow', ['workflows/new.json']);
+      expect(result.message).toContain('1 file(s)');
+    });
+  });
+
+  describe('handleExportWorkflow', () => {
+    it('should export a workflow with secrets stripped', async () => {
+      mockApiClient.getWorkflow.mockResolvedValue(createTestWorkflow({
+        nodes: [{
+          id: 'n1', name: 'HTTP', type: 'n8n-nodes-base.httpRequest', typeVersion: 4, position: [0, 0],
+          parameters: { token: 'Bearer secret-value-123' },
+        }],
+      }));
+
+      const result = await handlers.handleExportWorkflow({ id: 'test-workflow-id', format: 'yaml' });
+
+      expect(result.success).toBe(true);
+      expect(result.data.format).toBe('yaml');
+      expect(result.data.secretsStripped).toBe(1);
+      expect(result.data.content).not.toContain('secret-value-123');
+      expect(result.message).toContain('1 embedded secret(s)');
+    });
+
+    it('should reject an unknown format', async () => {
+      const result = await handlers.handleExportWorkflow({ id: 'test-workflow-id', format: 'xml' });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Invalid input');
+    });
+  });
+
+  describe('handleImportWorkflow', () => {
+    const exported = {
+      name: 'Imported',
+      nodes: [{
+        id: 'n1', name: 'Slack', type: 'n8n-nodes-base.slack', typeVersion: 2, position: [0, 0],
+        parameters: {}, credentials: { slackApi: { id: 'dev-1', name: 'Slack' } },
+      }],
+      connections: {},
+    };
+
+    it('should report a dry run without creating workflows', async () => {
+      mockApiClient.listCredentials.mockResolvedValue({ data: [], nextCursor: null });
+
+      const result = await handlers.handleImportWorkflow({ content: JSON.stringify(exported), dryRun: true });
+
+      expect(result.success).toBe(true);
+      expect(mockApiClient.createWorkflow).not.toHaveBeenCalled();
+      expect(result.data.credentials[0].status).toBe('missing');
+      expect(result.message).toContain('Dry run: would import Imported (created)');
+      expect(result.message).toContain('1 credential(s) have no match');
+    });
+
+    it('should create the workflow with remapped credentials', async () => {
+      mockApiClient.listCredentials.mockResolvedValue({
+        data: [{ id: 'prod-1', name: 'Slack', type: 'slackApi' }],
+        nextCursor: null,
+      });
+      mockApiClient.createWorkflow.mockResolvedValue({ ...exported, id: 'new-1' });
+
+      const result = await handlers.handleImportWorkflow({ workflow: exported });
+
+      expect(result.success).toBe(true);
+      expect(mockApiClient.createWorkflow).toHaveBeenCalledWith(expect.objectContaining({
+        nodes: [expect.objectContaining({ credentials: { slackApi: { id: 'prod-1', name: 'Slack' } } })],
+      }));
+      expect(result.data.workflows).toEqual([expect.objectContaining({ id: 'new-1', action: 'created' })]);
+    });
+
+    it('should require exactly one of content and workflow', async () => {
+      const result = await handlers.handleImportWorkflow({ content: '{}', workflow: {} });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Invalid input');
+    });
+
+    it('should report content that is not a workflow', async () => {
+      const result = await handlers.handleImportWorkflow({ content: '{"foo": 1}' });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('"nodes" must be an array');
+    });
+  });
+
+  describe('handleWorkflowDependencies', () => {
+    const callNode = (workflowId: string) => ({
+      id: 'call', name: 'Call', type: 'n8n-nodes-base.executeWorkflow', typeVersion: 1, position: [0, 0],
+      parameters: { workflowId },
+    });
+    const triggerNode = {
+      id: 'trigger', name: 'Start', type: 'n8n-nodes-base.executeWorkflowTrigger', typeVersion: 1, position: [0, 0],
+      parameters: {},
+    };
+
+    beforeEach(() => {
+      mockApiClient.listWorkflows.mockResolvedValue({
+        data: [
+          createTestWorkflow({ id: 'main', name: 'Main', nodes: [callNode('sub')] }),
+          createTestWorkflow({ id: 'sub', name: 'Sub', nodes: [triggerNode] }),
+          createTestWorkflow({ id: 'orphan', name: 'Orphan', nodes: [triggerNode] }),
+        ],
+        nextCursor: null,
+      });
+    });
+
+    it('should return the instance graph with summary', async () => {
+      const result = await handlers.handleWorkflowDependencies({});
+
+      expect(result.success).toBe(true);
+      expect(result.data.summary).toEqual({
+        workflows: 3, dependencies: 1, subWorkflows: 2, orphans: 1, missing: 0, unresolved: 0,
+      });
+      expect(result.data.orphans).toEqual(['orphan']);
+      expect(result.data.edges).toEqual([{ from: 'main', to: 'sub', kind: 'execute_workflow', nodeName: 'Call' }]);
+    });
+
+    it('should return the impact of one workflow as Mermaid', async () => {
+      const result = await handlers.handleWorkflowDependencies({ workflowId: 'sub', format: 'mermaid' });
+
+      expect(result.success).toBe(true);
+      expect(result.data.dependents).toEqual([{ id: 'main', name: 'Main', depth: 1 }]);
+      expect(result.data.mermaid).toContain('flowchart LR');
+      expect(result.data.mermaid).not.toContain('Orphan');
+      expect(result.message).toContain('"Sub" is called by 1 workflow(s)');
+    });
+
+    it('should report an unknown workflow', async () => {
+      const result = await handlers.handleWorkflowDependencies({ workflowId: 'nope' });
+
+      expect(result).toEqual({ success: false, error: 'Workflow nope not found' });
+    });
+  });
+
+  describe('handleAuditInstance', () => {
+    beforeEach(() => {
+      mockApiClient.listWorkflows.mockResolvedValue({
+        data: [
+          createTestWorkflow({ id: 'tagged', name: 'Tagged', tags: [{ id: 't', name: 'owner:ops' }] }),
+          createTestWorkflow({ id: 'untagged', name: 'Untagged', tags: [] }),
+        ],
+        nextCursor: null,
+      });
+    });
+
+    it('should return the report as SARIF with summary', async () => {
+      const result = await handlers.handleAuditInstance({ format: 'sarif', rules: ['missing-tags'] }, mockRepository);
+
+      expect(result.success).toBe(true);
+      expect(result.data.summary).toMatchObject({ workflows: 2, findings: 1, healthScore: 100 });
+      expect(result.data.sarif.runs[0].results).toHaveLength(1);
+      expect(result.message).toContain('Audited 2 workflows');
+      expect(mockApiClient.listCredentials).not.toHaveBeenCalled();
+      expect(mockApiClient.listExecutions).not.toHaveBeenCalled();
+    });
+
+    it('should reject unknown rules', async () => {
+      const result = await handlers.handleAuditInstance({ rules: ['no-such-rule'] }, mockRepository);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Invalid input');
+    });
+  });
+
+  describe('handleRetryExecution', () => {
+    it('should retry with the current workflow version', async () => {
+      mockApiClient.retryExecution.mockResolvedValue(createTestExecution({ id: 'exec-124', finished: true, mode: 'retry' }));
+
+      const result = await handlers.handleRetryExecution({ id: 'exec-123', loadWorkflow: true });
+
+      expect(mockApiClient.retryExecution).toHaveBeenCalledWith('exec-123', true);
+      expect(result.success).toBe(true);
+      expect(result.data).toMatchObject({ id: 'exec-124', retryOf: 'exec-123', status: 'success', usedCurrentWorkflow: true });
+    });
+  });
+
+  describe('handleRerunExecution', () => {
+    const nodes = [
+      { id: 'a', name: 'Webhook', type: 'n8n-nodes-base.webhook', typeVersion: 2, position: [0, 0], parameters: {} },
+      { id: 'b', name: 'Format', type: 'n8n-nodes-base.set', typeVersion: 3.4, position: [200, 0], parameters: {} },
+    ];
+    const connections = { Webhook: { main: [[{ node: 'Format', type: 'main', index: 0 }]] } };
+
+    beforeEach(() => {
+      mockApiClient.getExecution.mockResolvedValue(createTestExecution({
+        status: ExecutionStatus.ERROR,
+        data: {
+          resultData: {
+            runData: {
+              Webhook: [{ data: { main: [[{ json: { order: 1 } }]] } }],
+              Format: [{ error: { message: 'Bad expression' } }],
+            },
+            lastNodeExecuted: 'Format',
+            error: { message: 'Bad expression', node: { name: 'Format' } },
+          },
+        },
+      }));
+      mockApiClient.getWorkflow.mockResolvedValue(createTestWorkflow({ nodes, connections }));
+    });
+
+    it('should replay the failed node with the recorded upstream data', async () => {
+      const result = await handlers.handleRerunExecution({ id: 'exec-123', includePinData: true });
+
+      expect(mockApiClient.getExecution).toHaveBeenCalledWith('exec-123', true);
+      expect(result.success).toBe(true);
+      expect(result.data).toMatchObject({
+        fromNode: 'Format',
+        startNode: 'Webhook',
+        verdict: 'passed',
+        verified: true,
+        pinnedNodes: [{ nodeName: 'Webhook', itemCount: 1 }],
+        pinData: { Webhook: [{ json: { order: 1 } }] },
+      });
+      expect(mockApiClient.updateWorkflow).not.toHaveBeenCalled();
+    });
+
+    it('should say plainly that a fix to an external-service node was not verified', async () => {
+      const httpNodes = [nodes[0], { ...nodes[1], type: 'n8n-nodes-base.httpRequest', typeVersion: 4.2 }];
+      mockApiClient.getWorkflow.mockResolvedValue(createTestWorkflow({ nodes: httpNodes, connections }));
+
+      const result = await handlers.handleRerunExecution({ id: 'exec-123' });
+
+      expect(result.success).toBe(true);
+      expect(result.data).toMatchObject({
+        verdict: 'not_verifiable',
+        verified: false,
+        stubbedNodes: ['Format'],
+        limitation: expect.stringContaining('cannot be verified by rerun'),
+      });
+      expect(result.message).toContain('was NOT verified');
+    });
+
+    it('should replay a patched workflow without fetching the saved one', async () => {
+      const workflow = { nodes, connections };
+
+      const result = await handlers.handleRerunExecution({ id: 'exec-123', workflow, fromNode: 'Missing' });
+
+      expect(mockApiClient.getWorkflow).not.toHaveBeenCalled();
+      expect(result).toEqual({ success: false, error: 'Node "Missing" not found in workflow test-workflow-id' });
+    });
+
+    it('should refuse to replay in HTTP mode unless simulation is enabled', async () => {
+      vi.stubEnv('MCP_MODE', 'http');
+      try {
+        const result = await handlers.handleRerunExecution({ id: 'exec-123' });
+
+        expect(result.success).toBe(false);
+        expect(result.error).toContain('ENABLE_HTTP_SIMULATION=true');
+        expect(mockApiClient.getExecution).not.toHaveBeenCalled();
+
+        vi.stubEnv('ENABLE_HTTP_SIMULATION', 'true');
+        expect((await handlers.handleRerunExecution({ id: 'exec-123' })).success).toBe(true);
+      } finally {
+        vi.unstubAllEnvs();
+      }
+    });
+
+    it('should refuse to replay behind an embedded HTTP server without MCP_MODE', async () => {
+      vi.stubEnv('MCP_MODE', '');
+      setHttpMode(true);
+      try {
+        const result = await handlers.handleRerunExecution({ id: 'exec-123' });
+
+        expect(result.success).toBe(false);
+        expect(result.error).toContain('ENABLE_HTTP_SIMULATION=true');
+        expect(mockApiClient.getExecution).not.toHaveBeenCalled();
+      } finally {
+        setHttpMode(false);
+        vi.unstubAllEnvs();
+      }
+    });
+  });
+
+  describe('handleTestWorkflow', () => {
+    const webhookWorkflow = () => createTestWorkflow({
+      nodes: [{
+        id: 'hook',
+        name: 'Webhook',
+        type: 'n8n-nodes-base.webhook',
+        typeVersion: 2,
+        position: [0, 0],
+        parameters: { path: 'orders', httpMethod: 'POST', responseMode: 'onReceived' },
+      }],
+    });
+
+    beforeEach(() => {
+      mockApiClient.getWorkflow.mockResolvedValue(webhookWorkflow());
+      mockApiClient.triggerWebhook.mockResolvedValue({ status: 200, statusText: 'OK', data: { message: 'Workflow was started' } });
+    });
+
+    it('should wait for the triggered execution and return its summary', async () => {
+      const startedAt = new Date(Date.now() + 1000).toISOString();
+      mockApiClient.listExecutions
+        .mockResolvedValueOnce({ data: [createTestExecution({ id: 'exec-1' })], nextCursor: null })
+        .mockResolvedValueOnce({
+          data: [createTestExecution({ id: 'exec-2', finished: true, startedAt }), createTestExecution({ id: 'exec-1' })],
+          nextCursor: null,
+        });
+      mockApiClient.getExecution.mockResolvedValue(createTestExecution({
+        id: 'exec-2',
+        finished: true,
+        data: { resultData: { runData: { Webhook: [{ data: { main: [[{ json: { orderId: 7 } }]] } }] } } },
+      }));
+      const reportProgress = vi.fn();
+
+      const result = await handlers.handleTestWorkflow(
+        { workflowId: 'test-workflow-id', data: { orderId: 7 }, waitForCompletion: true },
+        undefined,
+        reportProgress
+      );
+
+      expect(result.success).toBe(true);
+      expect(result.executionId).toBe('exec-2');
+      expect(result.message).toBe('Workflow triggered via webhook; execution exec-2 finished with status success');
+      expect(result.details.completion).toMatchObject({ outcome: 'finished', correlation: 'matched', status: 'success', polls: 1 });
+      expect(result.details.correlationNote).toBeUndefined();
+      expect(result.details.completion.execution.summary).toMatchObject({ executedNodes: 1, totalItems: 1 });
+      expect(mockApiClient.getExecution).toHaveBeenCalledWith('exec-2', true);
+      expect(reportProgress).toHaveBeenCalledWith(expect.any(Number), undefined, 'Triggering workflow via webhook');
+      expect(reportProgress).toHaveBeenLastCalledWith(expect.any(Number), expect.any(Number), 'Execution exec-2 finished');
+    });
+
+    it('should flag the execution as inferred when several new runs started after the trigger', async () => {
+      const startedAt = (offset: number) => new Date(Date.now() + offset).toISOString();
+      mockApiClient.listExecutions
+        .mockResolvedValueOnce({ data: [], nextCursor: null })
+        .mockResolvedValueOnce({
+          data: [
+            createTestExecution({ id: 'exec-3', finished: true, startedAt: startedAt(2000) }),
+            createTestExecution({ id: 'exec-2', finished: true, startedAt: startedAt(1000) }),
+            createTestExecution({ id: 'exec-1', finished: true }),
+          ],
+          nextCursor: null,
+        });
+      mockApiClient.getExecution.mockResolvedValue(createTestExecution({ id: 'exec-2', finished: true }));
+
+      const result = await handlers.handleTestWorkflow({ workflowId: 'test-workflow-id', waitForCompletion: true });
+
+      expect(result.executionId).toBe('exec-2');
+      expect(result.details.completion.correlation).toBe('inferred');
+      expect(result.details.correlationNote).toContain('may belong to a concurrent run');
+    });
+
+    it('should report executions that do not show up in time', async () => {
+      mockApiClient.listExecutions.mockResolvedValue({ data: [], nextCursor: null });
+
+      const result = await handlers.handleTestWorkflow({ workflowId: 'test-workflow-id', waitForCompletion: true, completionTimeout: 0 });
+
+      expect(result.success).toBe(false);
+      expect(result.details.completion).toMatchObject({ outcome: 'timeout', execution: undefined });
+      expect(result.details.hint).toContain('n8n_executions({action: "list", workflowId: "test-workflow-id"})');
+    });
+
+    it('should say when a manual run was deleted with its wrapper workflow', async () => {
+      mockApiClient.getWorkflow.mockResolvedValue(createTestWorkflow({
+        nodes: [{ id: 'start', name: 'Start', type: 'n8n-nodes-base.manualTrigger', typeVersion: 1, position: [0, 0], parameters: {} }],
+      }));
+      mockApiClient.createWorkflow.mockResolvedValue(createTestWorkflow({ id: 'wrapper-1' }));
+      mockApiClient.activateWorkflow = vi.fn().mockResolvedValue({});
+      mockApiClient.deactivateWorkflow = vi.fn().mockResolvedValue({});
+      mockApiClient.deleteWorkflow.mockResolvedValue({});
+
+      const result = await handlers.handleTestWorkflow({ workflowId: 'test-workflow-id' });
+
+      expect(result.success).toBe(true);
+      expect(result.details.metadata).toMatchObject({ wrapperWorkflowId: 'wrapper-1', wrapperRemoved: true });
+      expect(result.details.executionNote).toContain('was deleted with it');
+      expect(mockApiClient.deleteWorkflow).toHaveBeenCalledWith('wrapper-1');
+    });
+
+    it('should not poll without waitForCompletion', async () => {
+      const result = await handlers.handleTestWorkflow({ workflowId: 'test-workflow-id' });
+
+      expect(result.success).toBe(true);
+      expect(result.message).toBe('Workflow triggered successfully via webhook');
+      expect(mockApiClient.listExecutions).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('handlePinData', () => {
+    const nodes = [
+      { id: 'a', name: 'Webhook', type: 'n8n-nodes-base.webhook', typeVersion: 2, position: [0, 0], parameters: {} },
+      { id: 'b', name: 'API', type: 'n8n-nodes-base.httpRequest', typeVersion: 4, position: [200, 0], parameters: {} },
+    ];
+
+    beforeEach(() => {
+      mockApiClient.getWorkflow.mockResolvedValue(createTestWorkflow({ nodes, pinData: { Webhook: [{ json: { id: 1 } }] } }));
+      mockApiClient.updateWorkflow.mockImplementation(async (_id: string, workflow: any, options: any) =>
+        createTestWorkflow({ ...workflow, pinData: options?.pinData }));
+    });
+
+    it('should pin execution output and save the workflow', async () => {
+      mockApiClient.getExecution.mockResolvedValue(createTestExecution({
+        data: { resultData: { runData: { API: [{ data: { main: [[{ json: { ok: true } }]] } }] } } },
+      }));
+
+      const result = await handlers.handlePinData({
+        action: 'pin', workflowId: 'test-workflow-id', nodeName: 'API', source: 'execution', executionId: 'exec-123',
+      });
+
+      expect(result.success).toBe(true);
+      expect(mockApiClient.getExecution).toHaveBeenCalledWith('exec-123', true);
+      expect(mockApiClient.updateWorkflow).toHaveBeenCalledWith('test-workflow-id', expect.any(Object), {
+        pinData: { Webhook: [{ json: { id: 1 } }], API: [{ json: { ok: true } }] },
+      });
+      expect(result.data.nodes.map((node: any) => node.nodeName)).toEqual(['API', 'Webhook']);
+    });
+
+    it('should fail when n8n drops the pinned data', async () => {
+      mockApiClient.updateWorkflow.mockResolvedValue(createTestWorkflow({ nodes, pinData: { Webhook: [{ json: { id: 1 } }] } }));
+
+      const result = await handlers.handlePinData({
+        action: 'pin', workflowId: 'test-workflow-id', nodeName: 'API', items: [{ json: { ok: true } }],
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.code).toBe('PIN_DATA_NOT_SAVED');
+      expect(result.details.nodes).toEqual(['API']);
+    });
+
+    it('should reject items outside the n8n item format', async () => {
+      const result = await handlers.handlePinData({
+        action: 'pin', workflowId: 'test-workflow-id', nodeName: 'API', items: [{ json: [] }],
+      });
+
+      expect(result).toEqual({
+        success: false,
+        error: 'Pinned data is not in n8n item format',
+        details: { errors: ['items[0].json must be an object, got array'] },
+      });
+      expect(mockApiClient.updateWorkflow).not.toHaveBeenCalled();
+    });
+
+    it('should edit workflow JSON without touching the instance', async () => {
+      const workflow = { nodes, connections: {}, pinData: { Webhook: [{ json: { id: 1 } }] } };
+
+      const result = await handlers.handlePinData({ action: 'unpin', workflow });
+
+      expect(result.success).toBe(true);
+      expect(result.data.workflow.pinData).toEqual({});
+      expect(result.message).toBe('Unpinned 1 node(s) in the given workflow JSON');
+      expect(mockApiClient.getWorkflow).not.toHaveBeenCalled();
+      expect(mockApiClient.updateWorkflow).not.toHaveBeenCalled();
+    });
+  });
+
   describe('Error handling', () => {
     it('should handle authentication errors', async () => {
       const authError = new N8nAuthenticationError('Invalid API key');
       mockApiClient.getWorkflow.mockRejectedValue(authError);
 
-      const result = await handlers.handleGetWorkflow({ id: 'test-id' });
+      const result = await handlers.handleGetWorkflow({ id: 'test-id' }, mockRepository);
 
       expect(result).toEqual({
         success: false,
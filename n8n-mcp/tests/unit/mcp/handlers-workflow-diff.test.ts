@@ -19,10 +19,14 @@ vi.mock('@/config/n8n-api');
 vi.mock('@/utils/logger');
 vi.mock('@/mcp/handlers-n8n-manager', () => ({
   getN8nApiClient: vi.fn(),
+  findMergeBase: vi.fn(),
+  buildMergeConflictResponse: vi.fn(),
+  describeMergeBase: vi.fn((base: any) => `version ${base.versionNumber}`),
+  recordWorkflowRevision: vi.fn(),
 }));
 
 // Import mocked modules
-import { getN8nApiClient } from '@/mcp/handlers-n8n-manager';
+import { getN8nApiClient, findMergeBase, buildMergeConflictResponse } from '@/mcp/handlers-n8n-manager';
 import { logger } from '@/utils/logger';
 import type { NodeRepository } from '@/database/node-repository';
 
@@ -156,6 +160,7 @@ describe('handlers-workflow-diff', () => {
           active: true,
           nodeCount: 3,
           operationsApplied: 1,
+          updatedAt: '2024-01-01T00:00:00Z',
         },
         message: 'Workflow "Test Workflow" updated successfully. Applied 1 operations. Use n8n_get_workflow with mode \'structure\' to verify current state.',
         details: {
@@ -638,6 +643,81 @@ describe('handlers-workflow-diff', () => {
       });
     });
 
+    describe('Optimistic concurrency', () => {
+      const withUrl = (workflow: any, url: string) => ({
+        ...workflow,
+        nodes: workflow.nodes.map((n: any) => n.id === 'node2' ? { ...n, parameters: { ...n.parameters, url } } : n),
+      });
+
+      it('should apply operations to the expected revision and merge with newer changes', async () => {
+        const base = createTestWorkflow({ versionId: 'v1' });
+        const current = createTestWorkflow({ versionId: 'v2', name: 'Renamed Elsewhere' });
+        const ours = withUrl(base, 'https://api.changed.com');
+
+        mockApiClient.getWorkflow.mockResolvedValue(current);
+        vi.mocked(findMergeBase).mockResolvedValue({ base: { versionNumber: 4, workflowSnapshot: base } } as any);
+        mockDiffEngine.applyDiff.mockResolvedValue({ success: true, workflow: ours, operationsApplied: 1 });
+        mockApiClient.updateWorkflow.mockImplementation(async (_id: string, data: any) => ({ ...data, versionId: 'v3' }));
+
+        const result = await handleUpdatePartialWorkflow({
+          id: 'test-workflow-id',
+          operations: [{ type: 'updateNode', nodeId: 'node2', updates: { 'parameters.url': 'https://api.changed.com' } }],
+          expectedVersionId: 'v1',
+          createBackup: false,
+        }, mockRepository);
+
+        expect(result.success).toBe(true);
+        expect(result.data).toEqual(expect.objectContaining({ merged: true, versionId: 'v3' }));
+        expect(mockDiffEngine.applyDiff).toHaveBeenCalledWith(base, expect.anything());
+        expect(mockApiClient.updateWorkflow).toHaveBeenCalledWith('test-workflow-id', expect.objectContaining({
+          name: 'Renamed Elsewhere',
+          nodes: withUrl(current, 'https://api.changed.com').nodes,
+        }));
+      });
+
+      it('should return the conflict response without saving when changes conflict', async () => {
+        const base = createTestWorkflow({ versionId: 'v1' });
+        const current = withUrl(createTestWorkflow({ versionId: 'v2' }), 'https://api.theirs.com');
+        const conflictResponse = { success: false, error: 'conflict', code: 'WORKFLOW_CONFLICT' };
+
+        mockApiClient.getWorkflow.mockResolvedValue(current);
+        vi.mocked(findMergeBase).mockResolvedValue({ base: { versionNumber: 4, workflowSnapshot: base } } as any);
+        vi.mocked(buildMergeConflictResponse).mockReturnValue(conflictResponse);
+        mockDiffEngine.applyDiff.mockResolvedValue({ success: true, workflow: withUrl(base, 'https://api.ours.com'), operationsApplied: 1 });
+
+        const result = await handleUpdatePartialWorkflow({
+          id: 'test-workflow-id',
+          operations: [{ type: 'updateNode', nodeId: 'node2', updates: { 'parameters.url': 'https://api.ours.com' } }],
+          expectedVersionId: 'v1',
+          createBackup: false,
+        }, mockRepository);
+
+        expect(result).toBe(conflictResponse);
+        expect(vi.mocked(buildMergeConflictResponse).mock.calls[0][3]).toEqual([
+          expect.objectContaining({ scope: 'parameter', path: 'parameters.url' }),
+        ]);
+        expect(mockApiClient.updateWorkflow).not.toHaveBeenCalled();
+      });
+
+      it('should not look up a merge base when the expected revision is current', async () => {
+        const current = createTestWorkflow({ versionId: 'v1' });
+        mockApiClient.getWorkflow.mockResolvedValue(current);
+        mockDiffEngine.applyDiff.mockResolvedValue({ success: true, workflow: current, operationsApplied: 0 });
+        mockApiClient.updateWorkflow.mockResolvedValue(current);
+
+        const result = await handleUpdatePartialWorkflow({
+          id: 'test-workflow-id',
+          operations: [],
+          expectedVersionId: 'v1',
+          createBackup: false,
+        }, mockRepository);
+
+        expect(result.success).toBe(true);
+        expect(findMergeBase).not.toHaveBeenCalled();
+        expect(mockDiffEngine.applyDiff).toHaveBeenCalledWith(current, expect.anything());
+      });
+    });
+
     describe('Workflow Activation/Deactivation', () => {
       it('should activate workflow after successful update', async () => {
         const testWorkflow = createTestWorkflow({ active: false });
@@ -668,6 +748,7 @@ describe('handlers-workflow-diff', () => {
           active: true,
           nodeCount: 2,
           operationsApplied: 1,
+          updatedAt: '2024-01-01T00:00:00Z',
         });
         expect(result.message).toContain('Workflow activated');
         expect((result.data as any).active).toBe(true);
@@ -703,6 +784,7 @@ describe('handlers-workflow-diff', () => {
           active: false,
           nodeCount: 2,
           operationsApplied: 1,
+          updatedAt: '2024-01-01T00:00:00Z',
         });
         expect(result.message).toContain('Workflow deactivated');
         expect((result.data as any).active).toBe(false);
@@ -0,0 +1,41 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { N8NDocumentationMCPServer } from '../../../src/mcp/server';
+import { setHttpMode } from '../../../src/utils/server-mode';
+
+/**
+ * Tools that read files or load code from server paths are restricted when
+ * the server is reached over HTTP, including through N8NMCPEngine, which does
+ * not set MCP_MODE
+ */
+
+describe('HTTP mode restrictions', () => {
+  let server: N8NDocumentationMCPServer;
+
+  beforeEach(async () => {
+    process.env.NODE_DB_PATH = ':memory:';
+    vi.stubEnv('MCP_MODE', '');
+    vi.stubEnv('ENABLE_HTTP_SIMULATION', 'true');
+    server = new N8NDocumentationMCPServer();
+    await (server as any).initialized;
+    // The server refuses to work with an empty database
+    (server as any).db.prepare(`
+      INSERT INTO nodes (node_type, package_name, display_name) VALUES ('nodes-base.noOp', 'n8n-nodes-base', 'No Operation')
+    `).run();
+    setHttpMode(true);
+  });
+
+  afterEach(() => {
+    setHttpMode(false);
+    vi.unstubAllEnvs();
+  });
+
+  it('should not read run_workflow_tests files from server paths', async () => {
+    await expect(server.executeTool('run_workflow_tests', { path: '/etc' }))
+      .rejects.toThrow('path is not available in HTTP mode');
+  });
+
+  it('should not index private node packages from paths given by the caller', async () => {
+    await expect(server.executeTool('index_private_nodes', { paths: ['/tmp'] }))
+      .rejects.toThrow('paths is not available in HTTP mode');
+  });
+});
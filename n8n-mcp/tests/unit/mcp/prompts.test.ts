@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import { n8nPrompts, listPrompts, getPrompt } from '@/mcp/prompts';
+import { n8nDocumentationToolsFinal } from '@/mcp/tools';
+import { n8nManagementTools } from '@/mcp/tools-n8n-manager';
+
+describe('MCP prompts', () => {
+  const toolNames = new Set([...n8nDocumentationToolsFinal, ...n8nManagementTools].map(t => t.name));
+
+  it('should have unique prompt names', () => {
+    const names = n8nPrompts.map(p => p.name);
+    expect(new Set(names).size).toBe(names.length);
+  });
+
+  it('should hide API prompts when management tools are unavailable', () => {
+    const withoutApi = listPrompts(false).map(p => p.name);
+    const withApi = listPrompts(true).map(p => p.name);
+
+    expect(withoutApi).toContain('build_webhook_workflow');
+    expect(withoutApi).not.toContain('debug_failed_execution');
+    expect(withApi).toHaveLength(n8nPrompts.length);
+  });
+
+  it('should not expose the build function in listings', () => {
+    for (const prompt of listPrompts(true)) {
+      expect(prompt).not.toHaveProperty('build');
+      expect(prompt.arguments.length).toBeGreaterThan(0);
+    }
+  });
+
+  it('should interpolate arguments into the message sequence', () => {
+    const result = getPrompt('debug_failed_execution', { executionId: 'exec-42' });
+
+    expect(result.messages.map(m => m.role)).toEqual(['user', 'assistant', 'user']);
+    expect(result.messages[0].content.text).toContain('exec-42');
+    expect(result.messages[1].content.text).toContain('n8n_executions({"action":"get","id":"exec-42","mode":"error"})');
+    expect(result.messages[1].content.text).toContain('without applying them');
+  });
+
+  it('should use optional arguments when given', () => {
+    const result = getPrompt('build_webhook_workflow', { purpose: 'store leads', httpMethod: 'put', path: 'leads' });
+    const plan = result.messages[1].content.text;
+
+    expect(result.messages[0].content.text).toContain('PUT webhook at path "leads"');
+    expect(plan).toContain('"httpMethod":"PUT"');
+  });
+
+  it('should reject unknown prompts and missing required arguments', () => {
+    expect(() => getPrompt('nope')).toThrow('Unknown prompt: nope');
+    expect(() => getPrompt('migrate_workflow_node_versions', {})).toThrow('Missing required argument(s) for prompt migrate_workflow_node_versions: workflowId');
+    expect(() => getPrompt('build_ai_agent_workflow', { goal: '  ' })).toThrow('goal');
+  });
+
+  it('should only reference existing tools', () => {
+    for (const prompt of n8nPrompts) {
+      const args = Object.fromEntries(prompt.arguments.map(a => [a.name, 'x']));
+      const text = getPrompt(prompt.name, args).messages.map(m => m.content.text).join('\n');
+      const referenced = Array.from(text.matchAll(/\b([a-z][a-z0-9_]+)\(\{/g)).map(m => m[1]);
+
+      expect(referenced.length).toBeGreaterThan(0);
+      for (const name of referenced) {
+        expect(toolNames, `${prompt.name} references ${name}`).toContain(name);
+      }
+    }
+  });
+});
@@ -0,0 +1,133 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  parseResourceUri,
+  buildNodeResourceUri,
+  buildTemplateResourceUri,
+  buildWorkflowResourceUri,
+  resourceTemplates,
+  WorkflowSubscriptionManager
+} from '@/mcp/resources';
+
+vi.mock('@/utils/logger');
+
+describe('MCP resources', () => {
+  describe('parseResourceUri', () => {
+    it('should parse node URIs', () => {
+      expect(parseResourceUri('n8n-node://nodes-base.slack')).toEqual({ kind: 'node', nodeType: 'nodes-base.slack' });
+    });
+
+    it('should parse template URIs', () => {
+      expect(parseResourceUri('n8n-template://1234')).toEqual({ kind: 'template', templateId: 1234 });
+    });
+
+    it('should parse and decode workflow URIs', () => {
+      expect(parseResourceUri('n8n-workflow://abc%2F1')).toEqual({ kind: 'workflow', workflowId: 'abc/1' });
+      expect(parseResourceUri('n8n-workflow://abc123/')).toEqual({ kind: 'workflow', workflowId: 'abc123' });
+    });
+
+    it('should reject invalid template IDs', () => {
+      expect(() => parseResourceUri('n8n-template://abc')).toThrow('Invalid template ID');
+    });
+
+    it('should reject unknown schemes and malformed URIs', () => {
+      expect(() => parseResourceUri('file:///etc/passwd')).toThrow('Unknown resource scheme');
+      expect(() => parseResourceUri('nodes-base.slack')).toThrow('Invalid resource URI');
+    });
+
+    it('should round-trip built URIs', () => {
+      expect(parseResourceUri(buildNodeResourceUri('nodes-langchain.agent'))).toEqual({ kind: 'node', nodeType: 'nodes-langchain.agent' });
+      expect(parseResourceUri(buildTemplateResourceUri(42))).toEqual({ kind: 'template', templateId: 42 });
+      expect(parseResourceUri(buildWorkflowResourceUri('wf 1'))).toEqual({ kind: 'workflow', workflowId: 'wf 1' });
+    });
+
+    it('should expose a template for each scheme', () => {
+      expect(resourceTemplates.map(t => t.uriTemplate)).toEqual([
+        'n8n-node://{nodeType}',
+        'n8n-template://{templateId}',
+        'n8n-workflow://{workflowId}'
+      ]);
+    });
+  });
+
+  describe('WorkflowSubscriptionManager', () => {
+    let manager: WorkflowSubscriptionManager;
+
+    afterEach(() => {
+      manager?.destroy();
+      vi.useRealTimers();
+    });
+
+    it('should notify when a polled workflow changes', async () => {
+      const fetchRevision = vi.fn()
+        .mockResolvedValueOnce({ versionId: 'v1', updatedAt: 't1' })
+        .mockResolvedValueOnce({ versionId: 'v1', updatedAt: 't1' })
+        .mockResolvedValueOnce({ versionId: 'v2', updatedAt: 't2' });
+      const onChange = vi.fn().mockResolvedValue(undefined);
+      manager = new WorkflowSubscriptionManager({ fetchRevision, onChange, pollIntervalMs: 0 });
+
+      await manager.subscribe('wf1');
+      await manager.poll();
+      expect(onChange).not.toHaveBeenCalled();
+
+      await manager.poll();
+      expect(onChange).toHaveBeenCalledWith('n8n-workflow://wf1');
+    });
+
+    it('should notify when a subscribed workflow is deleted', async () => {
+      const fetchRevision = vi.fn()
+        .mockResolvedValueOnce({ versionId: 'v1' })
+        .mockResolvedValueOnce(null);
+      const onChange = vi.fn().mockResolvedValue(undefined);
+      manager = new WorkflowSubscriptionManager({ fetchRevision, onChange, pollIntervalMs: 0 });
+
+      await manager.subscribe('wf1');
+      await manager.poll();
+
+      expect(onChange).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not notify on transient fetch errors', async () => {
+      const fetchRevision = vi.fn()
+        .mockResolvedValueOnce({ versionId: 'v1' })
+        .mockRejectedValueOnce(new Error('timeout'));
+      const onChange = vi.fn().mockResolvedValue(undefined);
+      manager = new WorkflowSubscriptionManager({ fetchRevision, onChange, pollIntervalMs: 0 });
+
+      await manager.subscribe('wf1');
+      await manager.poll();
+
+      expect(onChange).not.toHaveBeenCalled();
+    });
+
+    it('should only notify markChanged for subscribed workflows', async () => {
+      const fetchRevision = vi.fn().mockResolvedValue({ versionId: 'v1' });
+      const onChange = vi.fn().mockResolvedValue(undefined);
+      manager = new WorkflowSubscriptionManager({ fetchRevision, onChange, pollIntervalMs: 0 });
+
+      await manager.markChanged('other');
+      expect(onChange).not.toHaveBeenCalled();
+
+      await manager.subscribe('wf1');
+      await manager.markChanged('wf1');
+      expect(onChange).toHaveBeenCalledWith('n8n-workflow://wf1');
+    });
+
+    it('should poll on an interval only while subscriptions exist', async () => {
+      vi.useFakeTimers();
+      const fetchRevision = vi.fn().mockResolvedValue({ versionId: 'v1' });
+      const onChange = vi.fn().mockResolvedValue(undefined);
+      manager = new WorkflowSubscriptionManager({ fetchRevision, onChange, pollIntervalMs: 1000 });
+
+      await manager.subscribe('wf1');
+      expect(fetchRevision).toHaveBeenCalledTimes(1);
+
+      await vi.advanceTimersByTimeAsync(1000);
+      expect(fetchRevision).toHaveBeenCalledTimes(2);
+
+      manager.unsubscribe('wf1');
+      expect(manager.size).toBe(0);
+      await vi.advanceTimersByTimeAsync(5000);
+      expect(fetchRevision).toHaveBeenCalledTimes(2);
+    });
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { N8NDocumentationMCPServer } from '../../../src/mcp/server';
+import { SemanticSearchService } from '../../../src/services/semantic-search-service';
+import { EmbeddingModel } from '../../../src/services/embedding-model';
+
+/**
+ * Unit tests for searchMode: 'semantic' in search_nodes and search_templates
+ */
+
+// Fake model: one dimension for messaging words, one for everything else
+const messagingModel: EmbeddingModel = {
+  id: 'fake-model',
+  async embed(texts: string[]) {
+    return texts.map(text => {
+      const messaging = /message|chat|team|slack/i.test(text) ? 1 : 0;
+      return messaging ? Float32Array.from([1, 0]) : Float32Array.from([0, 1]);
+    });
+  }
+};
+
+describe('searchMode semantic', () => {
+  let server: N8NDocumentationMCPServer;
+  const originalEnv = { ...process.env };
+
+  beforeEach(async () => {
+    process.env.NODE_DB_PATH = ':memory:';
+    delete process.env.SEMANTIC_SEARCH_MODEL_PATH;
+    delete process.env.SEMANTIC_SEARCH_MODEL_DOWNLOAD;
+    server = new N8NDocumentationMCPServer();
+    await (server as any).initialized;
+
+    const db = (server as any).db;
+    const insert = db.prepare(`
+      INSERT INTO nodes (node_type, package_name, display_name, description, category, properties_schema, operations)
+      VALUES (?, 'n8n-nodes-base', ?, ?, 'output', '[]', '[]')
+    `);
+    insert.run('nodes-base.slack', 'Slack', 'Send a message to a channel');
+    insert.run('nodes-base.httpRequest', 'HTTP Request', 'Makes an HTTP request');
+    db.prepare(`
+      INSERT INTO templates (id, workflow_id, name, description, nodes_used, views, created_at, updated_at)
+      VALUES (1, 1, 'Team digest', 'Post a chat message every morning', '[]', 10, datetime('now'), datetime('now'))
+    `).run();
+  });
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+  });
+
+  it('falls back to keyword results and says why when no model is configured', async () => {
+    const result = await (server as any).searchNodes('slack', 10, { searchMode: 'semantic' });
+
+    expect(result.results.map((r: any) => r.nodeType)).toEqual(['nodes-base.slack']);
+    expect(result.semanticSearch).toEqual({
+      available: false,
+      reason: expect.stringContaining('SEMANTIC_SEARCH_MODEL_PATH')
+    });
+  });
+
+  it('ranks nodes by meaning with a configured model', async () => {
+    (server as any).semanticSearch = new SemanticSearchService((server as any).db, { model: messagingModel });
+
+    const result = await (server as any).searchNodes('notify my team', 10, { searchMode: 'semantic' });
+
+    expect(result.searchMode).toBe('semantic');
+    expect(result.semanticSearch).toBeUndefined();
+    expect(result.results).toEqual([
+      expect.objectContaining({ nodeType: 'nodes-base.slack', workflowNodeType: 'n8n-nodes-base.slack', score: expect.any(Number) })
+    ]);
+  });
+
+  it('returns semantic template matches in the template result format', async () => {
+    (server as any).semanticSearch = new SemanticSearchService((server as any).db, { model: messagingModel });
+
+    const result = await server.executeTool('search_templates', { searchMode: 'semantic', query: 'notify the team' });
+
+    expect(result.items.map((t: any) => t.id)).toEqual([1]);
+    expect(result.total).toBe(1);
+  });
+
+  it('falls back to keyword template search when no model is configured', async () => {
+    const result = await server.executeTool('search_templates', { searchMode: 'semantic', query: 'digest' });
+
+    expect(result.semanticSearch).toEqual({ available: false, reason: expect.any(String) });
+  });
+});
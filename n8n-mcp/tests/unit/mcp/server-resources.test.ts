@@ -0,0 +1,184 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { N8NDocumentationMCPServer } from '../../../src/mcp/server';
+import * as n8nHandlers from '../../../src/mcp/handlers-n8n-manager';
+
+/**
+ * Unit tests for MCP resource support in the server
+ * (resources/list, resources/read and workflow change notifications)
+ */
+
+describe('N8NDocumentationMCPServer - resources', () => {
+  let server: N8NDocumentationMCPServer;
+
+  beforeEach(async () => {
+    process.env.NODE_DB_PATH = ':memory:';
+    server = new N8NDocumentationMCPServer();
+    await (server as any).initialized;
+
+    const db = (server as any).db;
+    const insertStmt = db.prepare(`
+      INSERT INTO nodes (
+        node_type, package_name, display_name, description, category,
+        is_ai_tool, is_trigger, is_webhook, is_versioned, version,
+        properties_schema, operations, documentation
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    insertStmt.run(
+      'nodes-base.slack', 'n8n-nodes-base', 'Slack', 'Send messages to Slack', 'Communication',
+      0, 0, 0, 1, '2.2', JSON.stringify([]), JSON.stringify([]), '# Slack\n\nSend messages.'
+    );
+    insertStmt.run(
+      'nodes-base.webhook', 'n8n-nodes-base', 'Webhook', 'Receive HTTP requests', 'Core Nodes',
+      0, 1, 1, 1, '2', JSON.stringify([]), JSON.stringify([]), '# Webhook'
+    );
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await server.close();
+    delete process.env.NODE_DB_PATH;
+  });
+
+  it('should list node resources', async () => {
+    vi.spyOn(n8nHandlers, 'getN8nApiClient').mockReturnValue(null);
+
+    const result = await (server as any).listResources();
+
+    expect(result.resources).toEqual([
+      expect.objectContaining({ uri: 'n8n-node://nodes-base.slack', title: 'Slack', mimeType: 'text/markdown' }),
+      expect.objectContaining({ uri: 'n8n-node://nodes-base.webhook', title: 'Webhook' })
+    ]);
+    expect(result.nextCursor).toBeUndefined();
+  });
+
+  it('should include workflows on the first page when the API is configured', async () => {
+    const client = {
+      listWorkflows: vi.fn().mockResolvedValue({ data: [{ id: 'wf1', name: 'Orders', active: true }], nextCursor: null })
+    };
+    vi.spyOn(n8nHandlers, 'getN8nApiClient').mockReturnValue(client as any);
+
+    const result = await (server as any).listResources();
+
+    expect(result.resources[0]).toEqual(expect.objectContaining({
+      uri: 'n8n-workflow://wf1',
+      title: 'Orders',
+      mimeType: 'application/json'
+    }));
+    expect(result.resources).toHaveLength(3);
+  });
+
+  it('should read node documentation as markdown', async () => {
+    const result = await (server as any).readResource('n8n-node://nodes-base.slack');
+
+    expect(result.contents).toEqual([
+      { uri: 'n8n-node://nodes-base.slack', mimeType: 'text/markdown', text: '# Slack\n\nSend messages.' }
+    ]);
+  });
+
+  it('should reject unknown nodes and schemes', async () => {
+    await expect((server as any).readResource('n8n-node://nodes-base.doesNotExist')).rejects.toThrow('Resource not found');
+    await expect((server as any).readResource('ftp://x')).rejects.toThrow('Unknown resource scheme');
+  });
+
+  it('should read workflows through the n8n API', async () => {
+    const client = { getWorkflow: vi.fn().mockResolvedValue({ id: 'wf1', name: 'Orders', nodes: [], connections: {} }) };
+    vi.spyOn(n8nHandlers, 'getN8nApiClient').mockReturnValue(client as any);
+
+    const result = await (server as any).readResource('n8n-workflow://wf1');
+
+    expect(client.getWorkflow).toHaveBeenCalledWith('wf1');
+    expect(JSON.parse(result.contents[0].text).name).toBe('Orders');
+  });
+
+  it('should require API configuration for workflow resources', async () => {
+    vi.spyOn(n8nHandlers, 'getN8nApiClient').mockReturnValue(null);
+
+    await expect((server as any).readResource('n8n-workflow://wf1')).rejects.toThrow('n8n API configuration');
+  });
+
+  it('should mark workflows changed by successful update tools', () => {
+    const subscriptions = (server as any).workflowSubscriptions;
+    vi.spyOn(subscriptions, 'size', 'get').mockReturnValue(1);
+    const markChanged = vi.spyOn(subscriptions, 'markChanged').mockResolvedValue(undefined);
+
+    (server as any).notifyWorkflowResourceChanges('n8n_update_partial_workflow', { id: 'wf1' }, { success: true });
+    (server as any).notifyWorkflowResourceChanges('n8n_update_full_workflow', { id: 'wf2' }, { success: false });
+    (server as any).notifyWorkflowResourceChanges('n8n_tags', { action: 'assign', workflowIds: ['wf3'] }, { success: true });
+
+    expect(markChanged).toHaveBeenCalledTimes(2);
+    expect(markChanged).toHaveBeenCalledWith('wf1');
+    expect(markChanged).toHaveBeenCalledWith('wf3');
+  });
+
+  it('should mark workflows changed by bulk updates and rollbacks', () => {
+    const subscriptions = (server as any).workflowSubscriptions;
+    vi.spyOn(subscriptions, 'size', 'get').mockReturnValue(1);
+    const markChanged = vi.spyOn(subscriptions, 'markChanged').mockResolvedValue(undefined);
+
+    (server as any).notifyWorkflowResourceChanges('n8n_bulk_update_workflows', { action: 'apply' }, {
+      success: true,
+      data: {
+        results: [
+          { workflowId: 'wf1', status: 'updated' },
+          { workflowId: 'wf2', status: 'unchanged' },
+          { workflowId: 'wf3', status: 'failed' }
+        ]
+      }
+    });
+    (server as any).notifyWorkflowResourceChanges('n8n_bulk_update_workflows', { action: 'rollback' }, {
+      success: true,
+      data: {
+        results: [
+          { workflowId: 'wf4', status: 'restored' },
+          { workflowId: 'wf5', status: 'conflict' },
+          { workflowId: 'wf6', status: 'would_restore' }
+        ]
+      }
+    });
+
+    expect(markChanged).toHaveBeenCalledTimes(2);
+    expect(markChanged).toHaveBeenCalledWith('wf1');
+    expect(markChanged).toHaveBeenCalledWith('wf4');
+  });
+
+  it('should mark workflows changed by pinning or unpinning data', () => {
+    const subscriptions = (server as any).workflowSubscriptions;
+    vi.spyOn(subscriptions, 'size', 'get').mockReturnValue(1);
+    const markChanged = vi.spyOn(subscriptions, 'markChanged').mockResolvedValue(undefined);
+
+    (server as any).notifyWorkflowResourceChanges('n8n_pin_data', { action: 'pin', workflowId: 'wf1' }, { success: true });
+    (server as any).notifyWorkflowResourceChanges('n8n_pin_data', { action: 'unpin', workflowId: 'wf2' }, { success: true });
+    (server as any).notifyWorkflowResourceChanges('n8n_pin_data', { action: 'list', workflowId: 'wf3' }, { success: true });
+    (server as any).notifyWorkflowResourceChanges('n8n_pin_data', { action: 'pin', workflow: { nodes: [] } }, { success: true });
+
+    expect(markChanged).toHaveBeenCalledTimes(2);
+    expect(markChanged).toHaveBeenCalledWith('wf1');
+    expect(markChanged).toHaveBeenCalledWith('wf2');
+  });
+
+  it('should mark workflows overwritten by an upsert import', () => {
+    const subscriptions = (server as any).workflowSubscriptions;
+    vi.spyOn(subscriptions, 'size', 'get').mockReturnValue(1);
+    const markChanged = vi.spyOn(subscriptions, 'markChanged').mockResolvedValue(undefined);
+    const workflows = [
+      { id: 'wf1', name: 'Orders', action: 'updated' },
+      { id: 'wf2', name: 'Invoices', action: 'created' }
+    ];
+
+    (server as any).notifyWorkflowResourceChanges('n8n_import_workflow', { mode: 'upsert' }, {
+      success: true,
+      data: { dryRun: false, workflows }
+    });
+    (server as any).notifyWorkflowResourceChanges('n8n_import_workflow', { mode: 'upsert', dryRun: true }, {
+      success: true,
+      data: { dryRun: true, workflows: [{ id: 'wf3', name: 'Refunds', action: 'updated' }] }
+    });
+    (server as any).notifyWorkflowResourceChanges('n8n_import_workflow', { mode: 'create' }, {
+      success: true,
+      data: { dryRun: false, workflows }
+    });
+
+    expect(markChanged).toHaveBeenCalledTimes(1);
+    expect(markChanged).toHaveBeenCalledWith('wf1');
+  });
+});
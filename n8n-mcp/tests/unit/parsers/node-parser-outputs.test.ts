@@ -16,7 +16,8 @@ describe('NodeParser - Output Extraction', () => {
       extractProperties: vi.fn().mockReturnValue([]),
       extractCredentials: vi.fn().mockReturnValue([]),
       detectAIToolCapability: vi.fn().mockReturnValue(false),
-      extractOperations: vi.fn().mockReturnValue([])
+      extractOperations: vi.fn().mockReturnValue([]),
+      extractVersionedProperties: vi.fn().mockReturnValue([])
     };
     
     (PropertyExtractor as any).mockImplementation(() => mockPropertyExtractor);
@@ -472,6 +472,31 @@ describe('PropertyExtractor', () => {
     });
   });
 
+  describe('extractVersionedProperties', () => {
+    it('should list the properties of every version served by nodeVersions', () => {
+      const v1 = [stringPropertyFactory.build({ name: 'url' })];
+      const v2 = [stringPropertyFactory.build({ name: 'endpoint' })];
+      const NodeClass = class {
+        nodeVersions = {
+          1: { description: { name: 'http', version: 1, properties: v1 } },
+          2: { description: { name: 'http', version: [2, 2.1], properties: v2 } }
+        };
+      };
+
+      const versions = extractor.extractVersionedProperties(NodeClass as any);
+
+      expect(versions.map(v => v.version)).toEqual(['1', '2', '2.1']);
+      expect(versions[0].properties.map(p => p.name)).toEqual(['url']);
+      expect(versions[2].properties.map(p => p.name)).toEqual(['endpoint']);
+    });
+
+    it('should return nothing for nodes without nodeVersions', () => {
+      const NodeClass = nodeClassFactory.build({ description: { name: 'test', version: [1, 2], properties: [] } });
+
+      expect(extractor.extractVersionedProperties(NodeClass as any)).toEqual([]);
+    });
+  });
+
   describe('extractCredentials', () => {
     it('should extract credentials when node description contains them', () => {
       const credentials = [
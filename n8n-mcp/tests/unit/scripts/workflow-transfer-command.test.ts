@@ -0,0 +1,16 @@
+import { describe, it, expect, vi } from 'vitest';
+import { runWorkflowTransferCommand } from '@/scripts/workflow-transfer-command';
+
+vi.mock('@/utils/logger');
+
+describe('runWorkflowTransferCommand', () => {
+  it('should reject invalid arguments before contacting n8n', async () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect(await runWorkflowTransferCommand('export', ['1', '--format', 'xml'])).toBe(2);
+    expect(await runWorkflowTransferCommand('import', ['a.json', '--keep-secrets'])).toBe(2);
+    expect(await runWorkflowTransferCommand('import', [])).toBe(2);
+
+    error.mockRestore();
+  });
+});
@@ -0,0 +1,150 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import {
+  DEFAULT_EMBEDDING_MODEL,
+  DEFAULT_MODEL_CACHE_DIR,
+  EmbeddingModelConfig,
+  EmbeddingModelUnavailableError,
+  TransformersLibrary,
+  bufferToVector,
+  cosineSimilarity,
+  getEmbeddingModelConfig,
+  loadEmbeddingModel,
+  vectorToBuffer
+} from '@/services/embedding-model';
+
+/**
+ * Library stub whose pipeline returns one 2-dimensional vector per text: [index, length]
+ */
+function fakeLibrary(pipelineError?: Error) {
+  const calls: string[][] = [];
+  const library: TransformersLibrary = {
+    env: { allowRemoteModels: true, allowLocalModels: true, localModelPath: '/models/', cacheDir: null },
+    pipeline: vi.fn(async () => {
+      if (pipelineError) throw pipelineError;
+      return async (texts: string[]) => {
+        calls.push(texts);
+        return { data: Float32Array.from(texts.flatMap((text, i) => [i, text.length])), dims: [texts.length, 2] };
+      };
+    })
+  };
+  return { library, calls };
+}
+
+const downloadConfig: EmbeddingModelConfig = {
+  model: DEFAULT_EMBEDDING_MODEL,
+  allowDownload: true,
+  cacheDir: '/tmp/models'
+};
+
+describe('getEmbeddingModelConfig', () => {
+  const original = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...original };
+  });
+
+  it('returns null unless a model path or download is configured', () => {
+    delete process.env.SEMANTIC_SEARCH_MODEL_PATH;
+    delete process.env.SEMANTIC_SEARCH_MODEL_DOWNLOAD;
+
+    expect(getEmbeddingModelConfig()).toBeNull();
+  });
+
+  it('uses a local model path without downloads', () => {
+    process.env.SEMANTIC_SEARCH_MODEL_PATH = '/opt/models';
+    process.env.SEMANTIC_SEARCH_MODEL_DOWNLOAD = 'true';
+
+    expect(getEmbeddingModelConfig()).toEqual({
+      model: DEFAULT_EMBEDDING_MODEL,
+      localPath: '/opt/models',
+      allowDownload: false,
+      cacheDir: DEFAULT_MODEL_CACHE_DIR
+    });
+  });
+
+  it('allows the download on opt-in with a custom model and cache', () => {
+    delete process.env.SEMANTIC_SEARCH_MODEL_PATH;
+    process.env.SEMANTIC_SEARCH_MODEL_DOWNLOAD = 'true';
+    process.env.SEMANTIC_SEARCH_MODEL = 'acme/embedder';
+    process.env.SEMANTIC_SEARCH_MODEL_CACHE = '/var/cache/models';
+
+    expect(getEmbeddingModelConfig()).toEqual({
+      model: 'acme/embedder',
+      localPath: undefined,
+      allowDownload: true,
+      cacheDir: '/var/cache/models'
+    });
+  });
+});
+
+describe('loadEmbeddingModel', () => {
+  it('rejects when semantic search is not configured', async () => {
+    await expect(loadEmbeddingModel(null)).rejects.toThrow(/SEMANTIC_SEARCH_MODEL_PATH/);
+  });
+
+  it('rejects when the optional library is not installed', async () => {
+    const missing = () => {
+      throw new Error("Cannot find module '@huggingface/transformers'");
+    };
+
+    await expect(loadEmbeddingModel(downloadConfig, missing)).rejects.toThrow(
+      new EmbeddingModelUnavailableError('Semantic search needs the optional package @huggingface/transformers. Install it with: npm install @huggingface/transformers')
+    );
+  });
+
+  it('disables remote models for a local model path', async () => {
+    const { library } = fakeLibrary();
+
+    await loadEmbeddingModel({ ...downloadConfig, localPath: '/opt/models', allowDownload: false }, () => library);
+
+    expect(library.env).toMatchObject({ localModelPath: '/opt/models', allowLocalModels: true, allowRemoteModels: false });
+    expect(library.pipeline).toHaveBeenCalledWith('feature-extraction', DEFAULT_EMBEDDING_MODEL, { dtype: 'q8' });
+  });
+
+  it('downloads into the cache directory on opt-in', async () => {
+    const { library } = fakeLibrary();
+
+    await loadEmbeddingModel(downloadConfig, () => library);
+
+    expect(library.env).toMatchObject({ allowRemoteModels: true, cacheDir: '/tmp/models' });
+  });
+
+  it('reports a model that cannot be loaded', async () => {
+    const { library } = fakeLibrary(new Error('fetch failed'));
+
+    await expect(loadEmbeddingModel(downloadConfig, () => library)).rejects.toThrow(
+      `Could not load or download embedding model ${DEFAULT_EMBEDDING_MODEL}: fetch failed`
+    );
+  });
+
+  it('splits the pipeline output into one vector per text, in batches', async () => {
+    const { library, calls } = fakeLibrary();
+    const model = await loadEmbeddingModel(downloadConfig, () => library);
+    const texts = Array.from({ length: 40 }, (_, i) => 'x'.repeat(i + 1));
+
+    const vectors = await model.embed(texts);
+
+    expect(model.id).toBe(DEFAULT_EMBEDDING_MODEL);
+    expect(calls.map(batch => batch.length)).toEqual([32, 8]);
+    expect(vectors).toHaveLength(40);
+    expect(Array.from(vectors[1])).toEqual([1, 2]);
+    expect(Array.from(vectors[33])).toEqual([1, 34]);
+  });
+});
+
+describe('vector helpers', () => {
+  it('round-trips vectors through BLOBs at any byte offset', () => {
+    const vector = Float32Array.from([0.6, -0.8, 0]);
+    const padded = Buffer.concat([Buffer.from([1]), vectorToBuffer(vector)]).subarray(1);
+
+    expect(Array.from(bufferToVector(padded))).toEqual(Array.from(vector));
+  });
+
+  it('computes the cosine similarity of normalized vectors', () => {
+    const a = Float32Array.from([0.6, 0.8]);
+
+    expect(cosineSimilarity(a, a)).toBeCloseTo(1);
+    expect(cosineSimilarity(a, Float32Array.from([0.8, -0.6]))).toBeCloseTo(0);
+    expect(cosineSimilarity(a, Float32Array.from([1, 0, 0]))).toBe(0);
+  });
+});
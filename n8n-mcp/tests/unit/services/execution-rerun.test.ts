@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import { buildRerunPlan, rerunFromNode } from '@/services/execution-rerun';
+
+function node(name: string, type: string, parameters: Record<string, unknown> = {}, typeVersion = 1) {
+  return { id: name, name, type, typeVersion, position: [0, 0], parameters } as any;
+}
+
+function link(...targets: string[]) {
+  return { main: [targets.map(target => ({ node: target, type: 'main', index: 0 }))] };
+}
+
+const code = (jsCode: string) => node('Transform', 'n8n-nodes-base.code', { jsCode });
+
+function workflow(transform = code('return $input.all().map(item => ({ json: { total: item.json.price * 2 } }));')) {
+  return {
+    id: 'wf-1',
+    name: 'Orders',
+    nodes: [
+      node('Webhook', 'n8n-nodes-base.webhook'),
+      node('Fetch Order', 'n8n-nodes-base.httpRequest'),
+      node('Check', 'n8n-nodes-base.if', {
+        conditions: { conditions: [{ leftValue: '={{ $json.price }}', rightValue: 100, operator: { type: 'number', operation: 'gt' } }], combinator: 'and' }
+      }, 2),
+      transform,
+      node('Notify', 'n8n-nodes-base.slack'),
+      node('Note', 'n8n-nodes-base.stickyNote')
+    ],
+    connections: {
+      Webhook: link('Fetch Order'),
+      'Fetch Order': link('Check'),
+      Check: { main: [[], [{ node: 'Transform', type: 'main', index: 0 }]] },
+      Transform: link('Notify')
+    }
+  } as any;
+}
+
+function execution(runData: Record<string, unknown> = {}) {
+  return {
+    id: 'exec-1',
+    workflowId: 'wf-1',
+    status: 'error',
+    data: {
+      resultData: {
+        runData: {
+          Webhook: [{ data: { main: [[{ json: { orderId: 7 } }]] } }],
+          'Fetch Order': [{ data: { main: [[{ json: { price: 21 }, binary: { file: {} }, pairedItem: { item: 0 } }]] } }],
+          Check: [{ data: { main: [[], [{ json: { price: 21 } }]] } }],
+          Transform: [{ error: { message: 'price is not defined' } }],
+          ...runData
+        },
+        lastNodeExecuted: 'Transform',
+        error: { message: 'price is not defined', node: { name: 'Transform', type: 'n8n-nodes-base.code' } }
+      }
+    }
+  } as any;
+}
+
+describe('execution-rerun', () => {
+  describe('buildRerunPlan', () => {
+    it('should pin the recorded outputs upstream of the failed node', () => {
+      const plan = buildRerunPlan(execution(), workflow());
+
+      expect(plan.fromNode).toBe('Transform');
+      expect(plan.startNode).toBe('Webhook');
+      expect(plan.pinData).toEqual({
+        Webhook: [{ json: { orderId: 7 } }],
+        'Fetch Order': [{ json: { price: 21 } }]
+      });
+      expect(plan.unpinnedNodes).toEqual([{ nodeName: 'Check', reason: 'Emitted items on more than one output' }]);
+    });
+
+    it('should only pin ancestors of an explicit fromNode', () => {
+      const plan = buildRerunPlan(execution(), workflow(), 'Fetch Order');
+
+      expect(plan.pinnedNodes).toEqual([{ nodeName: 'Webhook', itemCount: 1 }]);
+    });
+
+    it('should explain executions saved without data', () => {
+      expect(() => buildRerunPlan({ id: 'exec-2', workflowId: 'wf-1' } as any, workflow()))
+        .toThrow('Execution exec-2 has no run data to replay');
+    });
+  });
+
+  describe('rerunFromNode', () => {
+    it('should pass once the failed node is fixed', () => {
+      const result = rerunFromNode(execution(), workflow());
+
+      expect(result.verdict).toBe('passed');
+      expect(result.simulation.executionOrder).toEqual(['Webhook', 'Fetch Order', 'Check', 'Transform', 'Notify']);
+      expect(result.simulation.nodes.Transform.runs[0].outputs[0]).toEqual([{ total: 42 }]);
+      expect(result.simulation.nodes['Fetch Order'].stubbed).toBe('pinData');
+    });
+
+    it('should fail while the failed node is still broken', () => {
+      const result = rerunFromNode(execution(), workflow(code('throw new Error("price is not defined");')));
+
+      expect(result.verdict).toBe('failed');
+      expect(result.simulation.error).toEqual({ node: 'Transform', message: expect.stringContaining('price is not defined') });
+    });
+
+    it('should not claim to verify nodes the simulator stubs', () => {
+      const result = rerunFromNode(execution(), workflow(), { fromNode: 'Notify' });
+
+      expect(result.verdict).toBe('not_verifiable');
+    });
+  });
+});
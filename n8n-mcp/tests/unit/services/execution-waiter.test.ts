@@ -0,0 +1,178 @@
+import { describe, it, expect, vi } from 'vitest';
+import { CLOCK_SKEW_TOLERANCE_MS, executionState, listExecutionIds, waitForExecution } from '@/services/execution-waiter';
+import { ExecutionStatus } from '@/types/n8n-api';
+
+function execution(id: string, overrides: Record<string, unknown> = {}) {
+  return {
+    id,
+    workflowId: 'wf-1',
+    finished: false,
+    mode: 'webhook',
+    status: ExecutionStatus.SUCCESS,
+    startedAt: '2026-01-01T10:00:00.000Z',
+    ...overrides
+  } as any;
+}
+
+const finished = (id: string) => execution(id, { finished: true, stoppedAt: '2026-01-01T10:00:05.000Z' });
+
+function client(listed: any[][], polled: any[] = []) {
+  const listExecutions = vi.fn();
+  listed.forEach(data => listExecutions.mockResolvedValueOnce({ data, nextCursor: null }));
+  const getExecution = vi.fn();
+  polled.forEach(result => getExecution.mockResolvedValueOnce(result));
+  return { listExecutions, getExecution } as any;
+}
+
+describe('execution-waiter', () => {
+  describe('listExecutionIds', () => {
+    it('should collect the latest execution IDs of the workflow', async () => {
+      const api = client([[execution('1'), execution('2')]]);
+
+      expect(await listExecutionIds(api, 'wf-1')).toEqual(new Set(['1', '2']));
+      expect(api.listExecutions).toHaveBeenCalledWith({ workflowId: 'wf-1', limit: 20 });
+    });
+  });
+
+  describe('waitForExecution', () => {
+    it('should find the new execution and poll it until it finishes', async () => {
+      const api = client(
+        [[execution('1')], [execution('3', { startedAt: '2026-01-01T10:00:02.000Z' }), execution('2'), execution('1')]],
+        [execution('2'), finished('2'), { ...finished('2'), data: { resultData: { runData: {} } } }]
+      );
+      const onProgress = vi.fn();
+
+      const result = await waitForExecution(api, {
+        workflowId: 'wf-1',
+        knownExecutionIds: new Set(['1']),
+        pollInterval: 0,
+        onProgress
+      });
+
+      expect(result.outcome).toBe('finished');
+      expect(result.executionId).toBe('2');
+      expect(result.polls).toBe(4);
+      expect(result.execution?.data).toBeDefined();
+      expect(api.getExecution).toHaveBeenLastCalledWith('2', true);
+      expect(onProgress.mock.calls.map(([progress]) => progress.state)).toEqual(['pending', 'running', 'running', 'finished']);
+      expect(onProgress.mock.calls[0][0].message).toContain('Waiting for the execution to start');
+    });
+
+    it('should prefer started executions over queued ones without startedAt', async () => {
+      const api = client(
+        [[execution('4', { startedAt: null }), execution('3', { startedAt: '2026-01-01T10:00:02.000Z' }), execution('1')]],
+        [finished('3'), finished('3')]
+      );
+
+      const result = await waitForExecution(api, { workflowId: 'wf-1', knownExecutionIds: new Set(['1']), pollInterval: 0 });
+
+      expect(result.outcome).toBe('finished');
+      expect(api.getExecution.mock.calls[0]).toEqual(['3']);
+    });
+
+    it('should discard executions that started well before the trigger', async () => {
+      const api = client(
+        [[execution('2', { startedAt: '2026-01-01T09:50:00.000Z' }), execution('3', { startedAt: '2026-01-01T10:00:01.000Z' })]],
+        [finished('3'), finished('3')]
+      );
+
+      const result = await waitForExecution(api, {
+        workflowId: 'wf-1',
+        knownExecutionIds: new Set(),
+        triggeredAt: Date.parse('2026-01-01T10:00:00.000Z'),
+        pollInterval: 0
+      });
+
+      expect(result).toMatchObject({ outcome: 'finished', executionId: '3', correlation: 'matched' });
+    });
+
+    it('should accept an execution whose server start time is before the local trigger time', async () => {
+      const api = client(
+        [[execution('3', { startedAt: '2026-01-01T09:59:30.000Z' }), execution('1')]],
+        [finished('3'), finished('3')]
+      );
+
+      const result = await waitForExecution(api, {
+        workflowId: 'wf-1',
+        knownExecutionIds: new Set(['1']),
+        triggeredAt: Date.parse('2026-01-01T10:00:00.000Z'),
+        pollInterval: 0
+      });
+
+      expect(CLOCK_SKEW_TOLERANCE_MS).toBeGreaterThan(30000);
+      expect(result).toMatchObject({ outcome: 'finished', executionId: '3', correlation: 'matched' });
+    });
+
+    it('should not take a queued execution until it has started', async () => {
+      const api = client(
+        [
+          [execution('2', { startedAt: null }), execution('1')],
+          [execution('2', { startedAt: '2026-01-01T10:00:03.000Z' }), execution('1')]
+        ],
+        [finished('2'), finished('2')]
+      );
+      const onProgress = vi.fn();
+
+      const result = await waitForExecution(api, {
+        workflowId: 'wf-1',
+        knownExecutionIds: new Set(['1']),
+        triggeredAt: Date.parse('2026-01-01T10:00:00.000Z'),
+        pollInterval: 0,
+        onProgress
+      });
+
+      expect(result).toMatchObject({ outcome: 'finished', executionId: '2', correlation: 'matched', polls: 3 });
+      expect(onProgress.mock.calls[0][0]).toMatchObject({ state: 'pending', executionId: undefined });
+    });
+
+    it('should time out without an execution when the only new one is still queued', async () => {
+      const api = client([[execution('2', { startedAt: null })]]);
+
+      const result = await waitForExecution(api, {
+        workflowId: 'wf-1',
+        knownExecutionIds: new Set(),
+        triggeredAt: Date.parse('2026-01-01T10:00:00.000Z'),
+        timeout: 0
+      });
+
+      expect(result).toMatchObject({ outcome: 'timeout', executionId: undefined });
+      expect(api.getExecution).not.toHaveBeenCalled();
+    });
+
+    it('should mark the execution as inferred when several new ones appeared', async () => {
+      const api = client(
+        [[execution('3', { startedAt: '2026-01-01T10:00:02.000Z' }), execution('2')]],
+        [finished('2'), finished('2')]
+      );
+
+      const result = await waitForExecution(api, { workflowId: 'wf-1', knownExecutionIds: new Set(), pollInterval: 0 });
+
+      expect(result).toMatchObject({ executionId: '2', correlation: 'inferred' });
+    });
+
+    it('should stop at executions waiting for a Wait node or form', async () => {
+      const api = client([], [execution('5', { status: ExecutionStatus.WAITING }), execution('5', { status: ExecutionStatus.WAITING })]);
+
+      const result = await waitForExecution(api, { workflowId: 'wf-1', knownExecutionIds: new Set(), executionId: '5' });
+
+      expect(result).toMatchObject({ outcome: 'waiting', correlation: 'reported' });
+      expect(api.listExecutions).not.toHaveBeenCalled();
+    });
+
+    it('should give up after the timeout', async () => {
+      const api = client([[execution('1')]]);
+
+      const result = await waitForExecution(api, { workflowId: 'wf-1', knownExecutionIds: new Set(['1']), timeout: 0 });
+
+      expect(result).toMatchObject({ outcome: 'timeout', executionId: undefined, polls: 1 });
+    });
+  });
+
+  describe('executionState', () => {
+    it('should treat executions without stoppedAt as running', () => {
+      expect(executionState(execution('1'))).toBe('running');
+      expect(executionState(execution('1', { status: ExecutionStatus.ERROR, stoppedAt: '2026-01-01T10:00:01.000Z' }))).toBe('finished');
+      expect(executionState(execution('1', { waitTill: '2026-01-02T00:00:00.000Z' }))).toBe('waiting');
+    });
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseExpressionTemplate,
+  parseExpressionCode,
+  collectReferences,
+  ExpressionNode
+} from '@/services/expression-parser';
+
+describe('expression-parser', () => {
+  const refs = (code: string) => {
+    const { ast, errors } = parseExpressionCode(code);
+    expect(errors).toEqual([]);
+    return collectReferences(ast as ExpressionNode);
+  };
+
+  describe('parseExpressionTemplate', () => {
+    it('should split text and expression segments with absolute ranges', () => {
+      const parsed = parseExpressionTemplate('=Hello {{ $json.name }}!');
+
+      expect(parsed.hasPrefix).toBe(true);
+      expect(parsed.errors).toEqual([]);
+      expect(parsed.segments.map(s => [s.kind, s.start, s.end])).toEqual([
+        ['text', 0, 7],
+        ['expression', 7, 23],
+        ['text', 23, 24]
+      ]);
+      expect(parsed.segments[1].value).toBe(' $json.name ');
+      expect(parsed.segments[1].ast).toEqual(expect.objectContaining({ type: 'MemberExpression', start: 10, end: 20 }));
+    });
+
+    it('should not close an expression on braces inside strings or object literals', () => {
+      const parsed = parseExpressionTemplate('={{ "}}" + JSON.stringify({ a: { b: 1 }}) }}');
+
+      expect(parsed.errors).toEqual([]);
+      expect(parsed.segments).toHaveLength(2);
+    });
+
+    it('should parse method chains, arrow functions, optional chaining and template literals', () => {
+      const expressions = [
+        '={{ $json.items.map(item => ({ id: item.id })).filter(Boolean).length }}',
+        '={{ $json?.customer?.["e-mail"] ?? "n/a" }}',
+        '={{ `Order ${$json.id}: ${$json.total.toFixed(2)}` }}',
+        '={{ $now.minus({ days: 7 }).toFormat("yyyy-MM-dd") }}',
+        '={{ $jmespath($json.body, "orders[?total > `10`].id") }}',
+        '={{ /^[a-z]+$/i.test($json.code) ? "ok" : "invalid" }}',
+        '={{ (() => { const total = $input.all().length; return total * 2; })() }}'
+      ];
+
+      for (const expression of expressions) {
+        expect(parseExpressionTemplate(expression).errors, expression).toEqual([]);
+      }
+    });
+
+    it('should report bracket, nesting and empty expression errors with ranges', () => {
+      expect(parseExpressionTemplate('={{ $json.a').errors).toEqual([
+        { code: 'unclosed_expression', message: 'Unmatched expression brackets {{ }}', start: 1, end: 11 }
+      ]);
+      expect(parseExpressionTemplate('=$json.a }}').errors[0]).toEqual(
+        expect.objectContaining({ code: 'unmatched_close', start: 9, end: 11 })
+      );
+      expect(parseExpressionTemplate('={{ a {{ b }} }}').errors[0]).toEqual(
+        expect.objectContaining({ code: 'nested_expression', start: 6 })
+      );
+      expect(parseExpressionTemplate('=x {{  }}').errors[0]).toEqual(
+        expect.objectContaining({ code: 'empty_expression', start: 3, end: 9 })
+      );
+    });
+
+    it('should report JavaScript syntax errors at the offending token', () => {
+      const parsed = parseExpressionTemplate('={{ $json.a + * 2 }}');
+
+      expect(parsed.errors).toEqual([
+        expect.objectContaining({ code: 'syntax', message: 'Unexpected token "*"', start: 14, end: 15 })
+      ]);
+    });
+  });
+
+  describe('collectReferences', () => {
+    it('should resolve node references in all supported forms', () => {
+      const nodes = refs(`$('Get Order').item.json.id + $node["Webhook"].json.body + $items("Set", 0).length`)
+        .filter(r => r.kind === 'node');
+
+      expect(nodes).toEqual([
+        expect.objectContaining({ name: 'Get Order', via: '$', path: ['item', 'json', 'id'] }),
+        expect.objectContaining({ name: 'Webhook', via: '$node', path: ['json', 'body'] }),
+        expect.objectContaining({ name: 'Set', via: '$items', path: ['length'] })
+      ]);
+    });
+
+    it('should record property paths, calls and argument counts of variables', () => {
+      const [first, second] = refs('$input.first().json.total + $jmespath($json, "a")');
+
+      expect(first).toEqual(expect.objectContaining({ kind: 'variable', name: '$input', path: ['first()', 'json', 'total'] }));
+      expect(second).toEqual(expect.objectContaining({ kind: 'variable', name: '$jmespath', argumentCount: 2 }));
+    });
+
+    it('should not report identifiers bound by function parameters', () => {
+      const names = refs('$json.items.map(({ json }, index) => json.id + index + items)').map(r => r.name);
+
+      expect(names).toEqual(['$json', 'items']);
+    });
+
+    it('should find references inside function bodies with statements', () => {
+      const nodes = refs(`(() => { const rows = $('Sheet').all(); return rows.length; })()`)
+        .filter(r => r.kind === 'node');
+
+      expect(nodes).toEqual([expect.objectContaining({ name: 'Sheet', via: '$' })]);
+    });
+  });
+});
@@ -125,4 +125,70 @@ describe('ExpressionValidator', () => {
       expect(result).toBeDefined();
     });
   });
-});
\ No newline at end of file
+
+  describe('AST-based checks', () => {
+    const graphContext = {
+      availableNodes: ['Webhook', 'Get Order', 'Notify'],
+      currentNodeName: 'Format',
+      hasInputData: true,
+      upstreamNodes: ['Webhook', 'Get Order']
+    };
+
+    it('should accept optional chaining, template literals and method chains', () => {
+      const result = ExpressionValidator.validateExpression(
+        '={{ `${$json?.customer?.name ?? "guest"}: ${$json.items.map(i => i.price).join(", ")}` }}',
+        defaultContext
+      );
+
+      expect(result.errors).toEqual([]);
+      expect(result.warnings).toEqual([]);
+    });
+
+    it('should report syntax errors with character ranges', () => {
+      const result = ExpressionValidator.validateExpression('={{ $json.total * }}', defaultContext);
+
+      expect(result.valid).toBe(false);
+      expect(result.errors).toEqual(['Invalid expression syntax: Unexpected end of expression (chars 18-18)']);
+      expect(result.issues).toEqual([
+        { severity: 'error', message: 'Invalid expression syntax: Unexpected end of expression', start: 18, end: 18 }
+      ]);
+    });
+
+    it('should resolve $() references against the workflow graph', () => {
+      const result = ExpressionValidator.validateExpression(
+        "={{ $('Get Order').item.json.id }} {{ $('Notify').first().json.ok }} {{ $('Missing').item.json }}",
+        graphContext
+      );
+
+      expect([...result.usedNodes]).toEqual(['Get Order', 'Notify', 'Missing']);
+      expect(result.errors).toEqual([expect.stringContaining('Referenced node "Missing" not found in workflow')]);
+      expect(result.warnings).toEqual([expect.stringContaining('Node "Notify" is not upstream of "Format"')]);
+    });
+
+    it('should allow reading execution status of nodes that are not upstream', () => {
+      const result = ExpressionValidator.validateExpression("={{ $('Notify').isExecuted }}", graphContext);
+      expect(result.warnings).toEqual([]);
+    });
+
+    it('should warn about unsupported accessors on $()', () => {
+      const result = ExpressionValidator.validateExpression("={{ $('Webhook').json.body }}", graphContext);
+      expect(result.warnings).toEqual([
+        expect.stringContaining("$('Webhook').json is not available - use $('Webhook').item.json")
+      ]);
+    });
+
+    it('should warn about unknown variables and missing $ prefixes', () => {
+      const result = ExpressionValidator.validateExpression('={{ $jsonn.id + json.name }}', defaultContext);
+
+      expect(result.warnings).toEqual([
+        expect.stringContaining('Unknown variable $jsonn'),
+        expect.stringContaining('Possible missing $ prefix for variable (use $json instead of json)')
+      ]);
+    });
+
+    it('should not treat arrow function parameters as missing $ prefixes', () => {
+      const result = ExpressionValidator.validateExpression('={{ $input.all().map(items => items.json.id) }}', defaultContext);
+      expect(result.warnings).toEqual([]);
+    });
+  });
+});
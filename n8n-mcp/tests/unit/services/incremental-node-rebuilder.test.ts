@@ -0,0 +1,307 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import { createDatabaseAdapter, DatabaseAdapter } from '@/database/database-adapter';
+import { NodeRepository } from '@/database/node-repository';
+import { LoadedNode } from '@/loaders/node-loader';
+import { NODE_PARSER_VERSION, NodeParser } from '@/parsers/node-parser';
+import {
+  IncrementalNodeRebuilder,
+  computeNodeFingerprint,
+  createDatabaseSnapshot,
+  restoreDatabaseSnapshot
+} from '@/services/incremental-node-rebuilder';
+
+const silent = { log: () => {}, warn: () => {}, error: () => {} };
+
+function nodeClass(name: string, overrides: Record<string, unknown> = {}, operations = ['get', 'create']): any {
+  const description = {
+    displayName: name.charAt(0).toUpperCase() + name.slice(1),
+    name,
+    group: ['transform'],
+    version: 1,
+    description: `The ${name} node`,
+    inputs: ['main'],
+    outputs: ['main'],
+    properties: [
+      {
+        displayName: 'Operation',
+        name: 'operation',
+        type: 'options',
+        options: operations.map(op => ({ name: op, value: op })),
+        default: operations[0]
+      },
+      { displayName: 'ID', name: 'id', type: 'string', default: '' }
+    ],
+    ...overrides
+  };
+  return class {
+    description = JSON.parse(JSON.stringify(description));
+  };
+}
+
+function loaded(nodes: Record<string, any>, packageName = 'n8n-nodes-base'): LoadedNode[] {
+  return Object.entries(nodes).map(([nodeName, NodeClass]) => ({ packageName, nodeName, NodeClass }));
+}
+
+function insertTemplate(db: DatabaseAdapter, id: number, views: number, nodeTypes: string[]): void {
+  const workflow = {
+    nodes: nodeTypes.map((type, i) => ({ name: `Node ${i}`, type, parameters: { operation: 'get' } }))
+  };
+  db.prepare(`
+    INSERT INTO templates (id, workflow_id, name, views, nodes_used, workflow_json_compressed, created_at, updated_at)
+    VALUES (?, ?, ?, ?, ?, ?, datetime('now'), datetime('now'))
+  `).run(id, id, `Template ${id}`, views, JSON.stringify(nodeTypes), zlib.gzipSync(JSON.stringify(workflow)).toString('base64'));
+}
+
+describe('IncrementalNodeRebuilder', () => {
+  let db: DatabaseAdapter;
+  let repository: NodeRepository;
+  let rebuilder: IncrementalNodeRebuilder;
+
+  beforeEach(async () => {
+    db = await createDatabaseAdapter(':memory:');
+    db.exec(fs.readFileSync(path.join(__dirname, '../../../src/database/schema.sql'), 'utf-8'));
+    repository = new NodeRepository(db);
+    rebuilder = new IncrementalNodeRebuilder(db, { output: silent });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    db.close();
+  });
+
+  it('should add all nodes on the first run and record fingerprints', async () => {
+    const changelog = await rebuilder.rebuild(
+      loaded({ slack: nodeClass('slack', { usableAsTool: true }), set: nodeClass('set') }),
+      { 'n8n-nodes-base': '1.0.0' }
+    );
+
+    expect(changelog.packages).toEqual({ 'n8n-nodes-base': { from: null, to: '1.0.0' } });
+    expect(changelog.added.map(n => n.nodeType).sort()).toEqual(['nodes-base.set', 'nodes-base.slack']);
+    expect(changelog.changed).toEqual([]);
+    expect(repository.getNode('nodes-base.slackTool')).toMatchObject({ isToolVariant: true });
+
+    const fingerprints = rebuilder.getFingerprints();
+    expect(fingerprints.get('n8n-nodes-base/slack')).toMatchObject({
+      packageVersion: '1.0.0',
+      nodeTypes: ['nodes-base.slack', 'nodes-base.slackTool']
+    });
+  });
+
+  it('should not re-parse nodes whose fingerprint is unchanged', async () => {
+    const nodes = loaded({ slack: nodeClass('slack'), set: nodeClass('set') });
+    await rebuilder.rebuild(nodes, { 'n8n-nodes-base': '1.0.0' });
+
+    const parse = vi.spyOn(NodeParser.prototype, 'parse');
+    const changelog = await rebuilder.rebuild(nodes, { 'n8n-nodes-base': '1.0.1' });
+
+    expect(parse).not.toHaveBeenCalled();
+    expect(changelog).toMatchObject({ added: [], removed: [], changed: [], unchanged: 2 });
+    expect(changelog.packages['n8n-nodes-base']).toEqual({ from: '1.0.0', to: '1.0.1' });
+    expect(rebuilder.getFingerprints().get('n8n-nodes-base/set')?.packageVersion).toBe('1.0.1');
+  });
+
+  it('should rewrite changed nodes only and report what changed', async () => {
+    await rebuilder.rebuild(loaded({ slack: nodeClass('slack'), set: nodeClass('set') }));
+
+    const parse = vi.spyOn(NodeParser.prototype, 'parse');
+    const changelog = await rebuilder.rebuild(loaded({
+      slack: nodeClass('slack', { version: 2, description: 'Send messages to channels' }, ['get', 'post']),
+      set: nodeClass('set')
+    }));
+
+    expect(parse).toHaveBeenCalledTimes(1);
+    expect(changelog.changed).toHaveLength(1);
+    expect(changelog.changed[0]).toMatchObject({
+      nodeType: 'nodes-base.slack',
+      previousVersion: '1',
+      version: '2',
+      operationsAdded: ['post'],
+      operationsRemoved: ['create'],
+      propertiesAdded: [],
+      propertiesRemoved: []
+    });
+    expect(changelog.changed[0].fieldsChanged).toEqual(expect.arrayContaining(['description', 'properties']));
+    expect(changelog.unchanged).toBe(1);
+
+    // FTS5 follows the rewritten row
+    expect(db.prepare("SELECT node_type FROM nodes_fts WHERE nodes_fts MATCH 'channels'").all()).toHaveLength(1);
+    expect(db.prepare("SELECT node_type FROM nodes_fts WHERE nodes_fts MATCH 'slack'").all()).toHaveLength(1);
+  });
+
+  it('should remove nodes and Tool variants that no longer exist without touching other packages', async () => {
+    await rebuilder.rebuild(loaded({ slack: nodeClass('slack', { usableAsTool: true }), set: nodeClass('set') }));
+    repository.saveNode({
+      ...repository.getNode('nodes-base.set'),
+      nodeType: 'n8n-nodes-community.thing',
+      packageName: 'n8n-nodes-community',
+      style: 'programmatic',
+      isCommunity: true
+    });
+
+    const changelog = await rebuilder.rebuild(loaded({ slack: nodeClass('slack') }));
+
+    expect(changelog.removed.map(n => n.nodeType)).toEqual(['nodes-base.set']);
+    expect(changelog.changed.map(n => n.nodeType)).toEqual(['nodes-base.slack']);
+    expect(repository.getNode('nodes-base.set')).toBeNull();
+    expect(repository.getNode('nodes-base.slackTool')).toBeNull();
+    expect(repository.getNode('n8n-nodes-community.thing')).not.toBeNull();
+    expect(rebuilder.getFingerprints().has('n8n-nodes-base/set')).toBe(false);
+    expect(db.prepare("SELECT node_type FROM nodes_fts WHERE nodes_fts MATCH 'slackTool'").all()).toHaveLength(0);
+  });
+
+  it('should store the versions of re-parsed versioned nodes and drop those of removed nodes', async () => {
+    const versioned = class {
+      description = { displayName: 'HTTP', name: 'http', group: ['transform'], defaultVersion: 2 };
+      currentVersion = 2;
+      nodeVersions = {
+        1: { description: { ...this.description, version: 1, properties: [{ displayName: 'URL', name: 'url', type: 'string', default: '' }] } },
+        2: { description: { ...this.description, version: 2, properties: [{ displayName: 'URL', name: 'endpoint', type: 'string', default: '' }] } }
+      };
+    };
+    await rebuilder.rebuild(loaded({ http: versioned, set: nodeClass('set') }));
+    expect(repository.getNodeVersions('nodes-base.http').map((v: any) => v.version)).toEqual(['2', '1']);
+    expect(repository.getNodeVersions('nodes-base.set')).toEqual([]);
+
+    // A database built before versions were stored: the node row itself is unchanged
+    db.exec('DELETE FROM node_versions; DELETE FROM node_fingerprints');
+    const changelog = await rebuilder.rebuild(loaded({ http: versioned, set: nodeClass('set') }));
+    expect(changelog.changed).toEqual([]);
+    expect(repository.getNodeVersion('nodes-base.http', '1').propertiesSchema[0].name).toBe('url');
+
+    await rebuilder.rebuild(loaded({ set: nodeClass('set') }));
+    expect(repository.getNodeVersions('nodes-base.http')).toEqual([]);
+  });
+
+  it('should upgrade old FTS5 triggers before rewriting rows', async () => {
+    await rebuilder.rebuild(loaded({ slack: nodeClass('slack') }));
+    db.exec(`
+      DROP TRIGGER nodes_fts_delete;
+      CREATE TRIGGER nodes_fts_delete AFTER DELETE ON nodes
+      BEGIN
+        DELETE FROM nodes_fts WHERE rowid = old.rowid;
+      END;
+    `);
+
+    await rebuilder.rebuild(loaded({ slack: nodeClass('slack', { description: 'Post to channels' }) }));
+
+    expect(rebuilder.ensureFtsTriggers()).toBe(false);
+    expect(db.prepare("SELECT node_type FROM nodes_fts WHERE nodes_fts MATCH 'channels'").all()).toEqual([
+      { node_type: 'nodes-base.slack' }
+    ]);
+  });
+
+  it('should compare with stored rows when a database has no fingerprints yet', async () => {
+    await rebuilder.rebuild(loaded({ slack: nodeClass('slack'), set: nodeClass('set') }));
+    db.exec('DELETE FROM node_fingerprints');
+
+    const changelog = await rebuilder.rebuild(loaded({ slack: nodeClass('slack'), set: nodeClass('set', { version: 3 }) }));
+
+    expect(changelog.unchanged).toBe(1);
+    expect(changelog.changed.map(n => n.nodeType)).toEqual(['nodes-base.set']);
+    expect(rebuilder.getFingerprints().size).toBe(2);
+  });
+
+  it('should refresh template configs of changed and removed nodes only', async () => {
+    insertTemplate(db, 1, 100, ['n8n-nodes-base.slack', 'n8n-nodes-base.set']);
+    insertTemplate(db, 2, 500, ['n8n-nodes-base.slack']);
+    await rebuilder.rebuild(loaded({ slack: nodeClass('slack'), set: nodeClass('set'), code: nodeClass('code') }));
+    db.exec(`
+      INSERT INTO template_node_configs (node_type, template_id, template_name, parameters_json, rank)
+      VALUES ('n8n-nodes-base.code', 1, 'Template 1', '{"marker":true}', 1)
+    `);
+
+    const changelog = await rebuilder.rebuild(loaded({
+      slack: nodeClass('slack', { description: 'Changed' }),
+      code: nodeClass('code')
+    }));
+
+    expect(changelog.templateConfigsRefreshed).toBe(2);
+    const configs = db.prepare('SELECT node_type, template_id, rank FROM template_node_configs ORDER BY node_type, rank').all();
+    expect(configs).toEqual([
+      { node_type: 'n8n-nodes-base.code', template_id: 1, rank: 1 },
+      { node_type: 'n8n-nodes-base.slack', template_id: 2, rank: 1 },
+      { node_type: 'n8n-nodes-base.slack', template_id: 1, rank: 2 }
+    ]);
+  });
+
+  it('should leave the database unchanged when writing fails', async () => {
+    await rebuilder.rebuild(loaded({ slack: nodeClass('slack'), set: nodeClass('set') }));
+    vi.spyOn(NodeRepository.prototype, 'saveNode').mockImplementation(() => {
+      throw new Error('disk full');
+    });
+
+    await expect(rebuilder.rebuild(loaded({ slack: nodeClass('slack', { description: 'New' }) }))).rejects.toThrow('disk full');
+
+    expect(repository.getNode('nodes-base.set')).not.toBeNull();
+    expect(repository.getNode('nodes-base.slack').description).toBe('The slack node');
+    expect(rebuilder.getFingerprints().size).toBe(2);
+  });
+
+  it('should keep the stored rows of nodes that fail to parse', async () => {
+    await rebuilder.rebuild(loaded({ slack: nodeClass('slack') }));
+
+    const changelog = await rebuilder.rebuild(loaded({ slack: nodeClass('', { displayName: 'Broken' }) }));
+
+    expect(changelog.failed).toHaveLength(1);
+    expect(changelog.removed).toEqual([]);
+    expect(repository.getNode('nodes-base.slack')).not.toBeNull();
+  });
+});
+
+describe('computeNodeFingerprint', () => {
+  it('should depend on descriptions only, not on key order or methods', () => {
+    class A { description = { name: 'a', version: 1, properties: [] }; execute() { return 1; } }
+    class B { description = { properties: [], version: 1, name: 'a' }; execute() { return 2; } }
+    class C { description = { name: 'a', version: 2, properties: [] }; }
+
+    expect(computeNodeFingerprint(A)).toBe(computeNodeFingerprint(B));
+    expect(computeNodeFingerprint(A)).not.toBe(computeNodeFingerprint(C));
+  });
+
+  it('should include every version of a versioned node', () => {
+    const versioned = (v2: string) => class {
+      baseDescription = { name: 'http', defaultVersion: 2 };
+      nodeVersions = { 1: { description: { name: 'http', version: 1 } }, 2: { description: { name: 'http', version: 2, subtitle: v2 } } };
+    };
+
+    expect(computeNodeFingerprint(versioned('a'))).not.toBe(computeNodeFingerprint(versioned('b')));
+  });
+
+  it('should change with the parser version', () => {
+    class A { description = { name: 'a', version: 1, properties: [] }; }
+
+    expect(computeNodeFingerprint(A)).toBe(computeNodeFingerprint(A, NODE_PARSER_VERSION));
+    expect(computeNodeFingerprint(A, NODE_PARSER_VERSION + 1)).not.toBe(computeNodeFingerprint(A));
+  });
+});
+
+describe('database snapshots', () => {
+  let tmp: string;
+
+  beforeEach(() => {
+    tmp = fs.mkdtempSync(path.join(os.tmpdir(), 'db-snapshot-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmp, { recursive: true, force: true });
+  });
+
+  it('should restore the database from the snapshot', () => {
+    const dbPath = path.join(tmp, 'nodes.db');
+    expect(createDatabaseSnapshot(dbPath)).toBeNull();
+    expect(restoreDatabaseSnapshot(dbPath)).toBe(false);
+
+    fs.writeFileSync(dbPath, 'before');
+    expect(createDatabaseSnapshot(dbPath)).toBe(`${dbPath}.snapshot`);
+    fs.writeFileSync(dbPath, 'after');
+    fs.writeFileSync(`${dbPath}-wal`, 'stale');
+
+    expect(restoreDatabaseSnapshot(dbPath)).toBe(true);
+    expect(fs.readFileSync(dbPath, 'utf-8')).toBe('before');
+    expect(fs.existsSync(`${dbPath}-wal`)).toBe(false);
+  });
+});
@@ -0,0 +1,239 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  auditInstance,
+  collectInstanceAuditData,
+  toAuditMarkdown,
+  toAuditSarif,
+  InstanceAuditData
+} from '@/services/instance-audit';
+
+vi.mock('@/utils/logger');
+vi.mock('@/services/breaking-change-detector');
+vi.mock('@/services/workflow-validator');
+vi.mock('@/services/node-version-service');
+
+import { WorkflowValidator } from '@/services/workflow-validator';
+import { NodeVersionService } from '@/services/node-version-service';
+
+const repository = {} as any;
+
+function webhook(name: string, path: string, method = 'POST') {
+  return { id: name, name, type: 'n8n-nodes-base.webhook', typeVersion: 2, position: [0, 0], parameters: { path, httpMethod: method } };
+}
+
+function workflow(id: string, overrides: Record<string, unknown> = {}) {
+  return {
+    id,
+    name: `Workflow ${id}`,
+    active: true,
+    tags: [{ id: 't', name: 'owner:platform' }],
+    settings: { errorWorkflow: 'err' },
+    nodes: [],
+    connections: {},
+    ...overrides
+  } as any;
+}
+
+function data(overrides: Partial<InstanceAuditData> = {}): InstanceAuditData {
+  return {
+    workflows: [workflow('err', { active: false })],
+    credentials: [],
+    failedExecutions: [],
+    ...overrides
+  };
+}
+
+describe('instance-audit', () => {
+  let validateWorkflow: any;
+  let analyzeVersion: any;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    validateWorkflow = vi.fn().mockResolvedValue({ valid: true, errors: [], warnings: [] });
+    analyzeVersion = vi.fn().mockReturnValue({ isOutdated: false });
+    vi.mocked(WorkflowValidator).mockImplementation(() => ({ validateWorkflow }) as any);
+    vi.mocked(NodeVersionService).mockImplementation(() => ({ analyzeVersion }) as any);
+  });
+
+  describe('auditInstance', () => {
+    it('should report nothing for a clean instance', async () => {
+      const report = await auditInstance(data(), repository);
+
+      expect(report.findings).toEqual([]);
+      expect(report.summary).toMatchObject({ workflows: 1, findings: 0, healthScore: 100 });
+    });
+
+    it('should map validator issues and skip outdated typeVersion warnings', async () => {
+      validateWorkflow.mockResolvedValue({
+        valid: false,
+        errors: [{ type: 'error', nodeName: 'HTTP', message: 'Missing required property url' }],
+        warnings: [{ type: 'warning', nodeName: 'HTTP', message: 'Outdated typeVersion: 3. Latest is 4.2' }]
+      });
+
+      const report = await auditInstance(data({ workflows: [workflow('1'), workflow('err', { active: false })] }), repository);
+
+      expect(report.findings).toEqual([
+        expect.objectContaining({ ruleId: 'validation-error', severity: 'error', workflowId: '1', nodeName: 'HTTP' }),
+        expect.objectContaining({ ruleId: 'validation-error', workflowId: 'err' })
+      ]);
+    });
+
+    it('should flag outdated typeVersions with breaking changes as warnings', async () => {
+      analyzeVersion.mockReturnValue({ isOutdated: true, latestVersion: '4.2', hasBreakingChanges: true });
+      const nodes = [{ id: 'h', name: 'HTTP', type: 'n8n-nodes-base.httpRequest', typeVersion: 3, position: [0, 0], parameters: {} }];
+
+      const report = await auditInstance(data({ workflows: [workflow('err', { nodes })] }), repository, { rules: ['outdated-type-version'] });
+
+      expect(analyzeVersion).toHaveBeenCalledWith('n8n-nodes-base.httpRequest', '3');
+      expect(report.findings[0]).toMatchObject({ ruleId: 'outdated-type-version', severity: 'warning' });
+      expect(report.findings[0].message).toContain('behind 4.2');
+    });
+
+    it('should find hardcoded secrets without exposing them', async () => {
+      const nodes = [{
+        id: 'h',
+        name: 'HTTP',
+        type: 'n8n-nodes-base.httpRequest',
+        typeVersion: 4,
+        position: [0, 0],
+        parameters: {
+          headerParameters: { parameters: [{ name: 'Authorization', value: 'Bearer abcdefghijklmnopqrstuvwxyz' }] },
+          queryParameters: { parameters: [{ name: 'api_key', value: 'hunter2hunter2' }] },
+          description: 'A risk-free request',
+          password: '={{ $credentials.password }}'
+        }
+      }];
+
+      const report = await auditInstance(data({ workflows: [workflow('err', { nodes })] }), repository, { rules: ['hardcoded-secret'] });
+      const serialized = JSON.stringify(report);
+
+      expect(report.findings.map(finding => finding.message)).toEqual([
+        expect.stringContaining('headerParameters.parameters[0].value'),
+        expect.stringContaining('queryParameters.parameters[0].value')
+      ]);
+      expect(serialized).not.toContain('abcdefghijklmnopqrstuvwxyz');
+      expect(serialized).not.toContain('hunter2hunter2');
+    });
+
+    it('should apply the instance-level rules', async () => {
+      const report = await auditInstance({
+        workflows: [
+          workflow('err', { active: false }),
+          workflow('1', { settings: {}, tags: [], nodes: [webhook('Hook', 'orders'), { id: 'c', name: 'Slack', type: 'n8n-nodes-base.slack', typeVersion: 2, position: [0, 0], parameters: {}, credentials: { slackApi: { id: 'c1', name: 'Slack' } } }] }),
+          workflow('2', { settings: { errorWorkflow: 'gone' }, nodes: [webhook('Hook', '/orders')] }),
+          workflow('3', { active: false, nodes: [webhook('Hook', 'orders', 'GET')] })
+        ],
+        credentials: [{ id: 'c1', name: 'Slack', type: 'slackApi' }, { id: 'c2', name: 'Old DB', type: 'postgres' }],
+        failedExecutions: [{ id: 'e1', workflowId: '3', startedAt: '2026-10-17T10:00:00.000Z' } as any]
+      }, repository, { rules: ['missing-error-workflow', 'unused-credential', 'duplicate-webhook-path', 'inactive-with-recent-failures', 'missing-tags', 'missing-owner'] });
+
+      const found = report.findings.map(finding => [finding.ruleId, finding.workflowId ?? finding.credentialId, finding.severity]);
+      expect(found).toEqual(expect.arrayContaining([
+        ['duplicate-webhook-path', '1', 'error'],
+        ['duplicate-webhook-path', '2', 'error'],
+        ['missing-error-workflow', '1', 'warning'],
+        ['missing-error-workflow', '2', 'warning'],
+        ['inactive-with-recent-failures', '3', 'warning'],
+        ['missing-tags', '1', 'info'],
+        ['missing-owner', '1', 'info'],
+        ['unused-credential', 'c2', 'info']
+      ]));
+      expect(found).toHaveLength(8);
+      expect(report.workflows.map(score => score.id)).toEqual(['1', '2', '3']);
+      expect(report.summary.healthScore).toBe(25);
+    });
+
+    it('should accept owners from sharing info', async () => {
+      const shared = [{ role: 'workflow:owner', projectId: 'p1' }];
+      const report = await auditInstance(data({ workflows: [workflow('err', { tags: [{ id: 'x', name: 'misc' }], shared })] }), repository, { rules: ['missing-owner'] });
+
+      expect(report.findings).toEqual([]);
+    });
+
+    it('should truncate the listed findings but keep the counts', async () => {
+      const workflows = [workflow('err', { active: false }), ...['1', '2', '3'].map(id => workflow(id, { tags: [] }))];
+
+      const report = await auditInstance(data({ workflows }), repository, { rules: ['missing-tags'], maxFindings: 2 });
+
+      expect(report.findings).toHaveLength(2);
+      expect(report.truncated).toBe(1);
+      expect(report.summary.byRule['missing-tags']).toBe(3);
+    });
+  });
+
+  describe('collectInstanceAuditData', () => {
+    it('should only keep failed executions inside the window', async () => {
+      const now = Date.now();
+      const client = {
+        listWorkflows: vi.fn().mockResolvedValue({ data: [workflow('1')], nextCursor: null }),
+        listCredentials: vi.fn().mockResolvedValue({ data: [], nextCursor: null }),
+        listExecutions: vi.fn().mockResolvedValue({
+          data: [
+            { id: 'a', workflowId: '1', startedAt: new Date(now - 60 * 60 * 1000).toISOString() },
+            { id: 'b', workflowId: '1', startedAt: new Date(now - 30 * 24 * 60 * 60 * 1000).toISOString() }
+          ],
+          nextCursor: 'more'
+        })
+      };
+
+      const result = await collectInstanceAuditData(client as any, { recentFailureDays: 7 });
+
+      expect(result.failedExecutions.map(execution => execution.id)).toEqual(['a']);
+      expect(client.listExecutions).toHaveBeenCalledTimes(1);
+      expect(client.listExecutions).toHaveBeenCalledWith(expect.objectContaining({ status: 'error' }));
+    });
+  });
+
+  describe('renderers', () => {
+    it('should render markdown and SARIF with stable fingerprints', async () => {
+      const input = data({ workflows: [workflow('err', { active: false, tags: [] })] });
+      const first = await auditInstance(input, repository, { rules: ['missing-tags'] });
+      const second = await auditInstance(input, repository, { rules: ['missing-tags'] });
+
+      const markdown = toAuditMarkdown(first);
+      expect(markdown).toContain('**Health score: 100/100**');
+      expect(markdown).toContain('### Workflow without tags (1)');
+
+      const sarif = toAuditSarif(first) as any;
+      const result = sarif.runs[0].results[0];
+      expect(sarif.version).toBe('2.1.0');
+      expect(sarif.runs[0].tool.driver.rules).toHaveLength(10);
+      expect(result).toMatchObject({ ruleId: 'missing-tags', level: 'note' });
+      expect(result.locations[0].physicalLocation.artifactLocation.uri).toBe('workflows/err.json');
+      expect(result.partialFingerprints.auditFinding).toBe(second.findings[0].fingerprint);
+    });
+
+    it('should keep fingerprints when counts, versions and names in the messages change', async () => {
+      const nodes = [
+        { id: 'h', name: 'HTTP', type: 'n8n-nodes-base.httpRequest', typeVersion: 3, position: [0, 0], parameters: {} },
+        webhook('Hook', 'orders')
+      ];
+      const audit = (otherName: string, failures: number) => auditInstance(data({
+        workflows: [
+          workflow('1', { active: false, nodes }),
+          workflow('2', { name: otherName, nodes: [webhook('Hook', 'orders')] }),
+          workflow('err', { active: false })
+        ],
+        failedExecutions: Array.from({ length: failures }, (_, i) => ({
+          id: String(i), workflowId: '1', startedAt: new Date(Date.now() - i * 60000).toISOString()
+        })) as any
+      }), repository, { rules: ['outdated-type-version', 'duplicate-webhook-path', 'inactive-with-recent-failures'] });
+
+      analyzeVersion.mockReturnValue({ isOutdated: true, latestVersion: '4.2', hasBreakingChanges: false });
+      const first = await audit('Orders', 1);
+      analyzeVersion.mockReturnValue({ isOutdated: true, latestVersion: '4.3', hasBreakingChanges: false });
+      const second = await audit('Orders (renamed)', 3);
+
+      const byRule = (report: typeof first) => Object.fromEntries(
+        report.findings.filter(finding => finding.workflowId === '1').map(finding => [finding.ruleId, finding])
+      );
+      const before = byRule(first);
+      const after = byRule(second);
+      expect(Object.keys(after).sort()).toEqual(['duplicate-webhook-path', 'inactive-with-recent-failures', 'outdated-type-version']);
+      for (const ruleId of Object.keys(after)) {
+        expect(after[ruleId].message).not.toBe(before[ruleId].message);
+        expect(after[ruleId].fingerprint).toBe(before[ruleId].fingerprint);
+      }
+    });
+  });
+});
@@ -321,6 +321,16 @@ describe('N8nApiClient', () => {
       expect(result).toEqual(updatedWorkflow);
     });
 
+    it('should send pinned data only when passed explicitly', async () => {
+      const workflow = { name: 'Updated', nodes: [], connections: {} };
+      const pinData = { Webhook: [{ json: { id: 1 } }] };
+      mockAxiosInstance.put.mockResolvedValue({ data: { ...workflow, id: '123' } });
+
+      await client.updateWorkflow('123', workflow, { pinData });
+
+      expect(mockAxiosInstance.put).toHaveBeenCalledWith('/workflows/123', expect.objectContaining({ pinData }));
+    });
+
     it('should fallback to PATCH when PUT is not supported', async () => {
       const workflow = { name: 'Updated', nodes: [], connections: {} };
       const updatedWorkflow = { ...workflow, id: '123' };
@@ -882,6 +892,22 @@ describe('N8nApiClient', () => {
     });
   });
 
+  describe('retryExecution', () => {
+    beforeEach(() => {
+      client = new N8nApiClient(defaultConfig);
+    });
+
+    it('should retry execution with the current workflow when asked', async () => {
+      const execution = { id: '124', retryOf: '123', status: 'success' };
+      mockAxiosInstance.post.mockResolvedValue({ data: execution });
+
+      const result = await client.retryExecution('123', true);
+
+      expect(mockAxiosInstance.post).toHaveBeenCalledWith('/executions/123/retry', { loadWorkflow: true });
+      expect(result).toEqual(execution);
+    });
+  });
+
   describe('triggerWebhook', () => {
     beforeEach(() => {
       client = new N8nApiClient(defaultConfig);
@@ -955,6 +981,26 @@ describe('N8nApiClient', () => {
       expect(result).toEqual(response);
     });
 
+    it('should send HEAD data as query parameters', async () => {
+      const mockWebhookClient = {
+        request: vi.fn().mockResolvedValue({ status: 200, statusText: 'OK', data: '', headers: {} }),
+      };
+      vi.mocked(axios.create).mockReturnValue(mockWebhookClient as any);
+
+      await client.triggerWebhook({
+        webhookUrl: 'https://n8n.example.com/webhook/abc-123',
+        httpMethod: 'HEAD',
+        data: { key: 'value' },
+        waitForResponse: true,
+      });
+
+      expect(mockWebhookClient.request).toHaveBeenCalledWith(expect.objectContaining({
+        method: 'HEAD',
+        data: undefined,
+        params: { key: 'value' },
+      }));
+    });
+
     it('should handle webhook trigger error', async () => {
       const webhookRequest = {
         webhookUrl: 'https://n8n.example.com/webhook/abc-123',
@@ -1104,6 +1150,16 @@ describe('N8nApiClient', () => {
       
       expect(mockAxiosInstance.delete).toHaveBeenCalledWith('/credentials/123');
     });
+
+    it('should get credential schema', async () => {
+      const schema = { type: 'object', properties: { accessToken: { type: 'string' } }, required: ['accessToken'] };
+      mockAxiosInstance.get.mockResolvedValue({ data: schema });
+
+      const result = await client.getCredentialSchema('slackApi');
+
+      expect(mockAxiosInstance.get).toHaveBeenCalledWith('/credentials/schema/slackApi');
+      expect(result).toEqual(schema);
+    });
   });
 
   describe('tag management', () => {
@@ -1150,6 +1206,26 @@ describe('N8nApiClient', () => {
       
       expect(mockAxiosInstance.delete).toHaveBeenCalledWith('/tags/123');
     });
+
+    it('should get workflow tags', async () => {
+      const tags = [{ id: 't1', name: 'prod' }];
+      mockAxiosInstance.get.mockResolvedValue({ data: tags });
+
+      const result = await client.getWorkflowTags('wf-1');
+
+      expect(mockAxiosInstance.get).toHaveBeenCalledWith('/workflows/wf-1/tags');
+      expect(result).toEqual(tags);
+    });
+
+    it('should replace workflow tags', async () => {
+      const tags = [{ id: 't1', name: 'prod' }, { id: 't2', name: 'billing' }];
+      mockAxiosInstance.put.mockResolvedValue({ data: tags });
+
+      const result = await client.updateWorkflowTags('wf-1', ['t1', 't2']);
+
+      expect(mockAxiosInstance.put).toHaveBeenCalledWith('/workflows/wf-1/tags', [{ id: 't1' }, { id: 't2' }]);
+      expect(result).toEqual(tags);
+    });
   });
 
   describe('source control management', () => {
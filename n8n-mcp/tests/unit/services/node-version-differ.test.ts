@@ -0,0 +1,356 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+import { createDatabaseAdapter, DatabaseAdapter } from '@/database/database-adapter';
+import { NodeRepository } from '@/database/node-repository';
+import { BreakingChangeDetector } from '@/services/breaking-change-detector';
+import { NodeMigrationService } from '@/services/node-migration-service';
+import { NodeVersionService } from '@/services/node-version-service';
+import { IncrementalNodeRebuilder } from '@/services/incremental-node-rebuilder';
+import {
+  DerivedBreakingChangeRegistry,
+  deriveBreakingChanges,
+  diffPropertySchemas
+} from '@/services/node-version-differ';
+
+const prop = (name: string, overrides: Record<string, unknown> = {}) => ({
+  displayName: name.charAt(0).toUpperCase() + name.slice(1),
+  name,
+  type: 'string',
+  default: '',
+  ...overrides
+});
+
+function diff(oldProps: any[], newProps: any[]) {
+  return diffPropertySchemas('n8n-nodes-base.test', '1', '2', oldProps, newProps);
+}
+
+describe('diffPropertySchemas', () => {
+  it('should classify added properties by requirement and default', () => {
+    const changes = diff([], [
+      prop('optional'),
+      prop('requiredWithDefault', { type: 'options', required: true, default: 'json' }),
+      prop('requiredEmpty', { required: true })
+    ]);
+
+    expect(changes.find(c => c.propertyName === 'parameters.optional')).toMatchObject({
+      changeType: 'added',
+      isBreaking: false,
+      autoMigratable: true,
+      migrationStrategy: undefined,
+      severity: 'LOW'
+    });
+    expect(changes.find(c => c.propertyName === 'parameters.requiredWithDefault')).toMatchObject({
+      isBreaking: false,
+      autoMigratable: true,
+      migrationStrategy: { type: 'add_property', defaultValue: 'json' }
+    });
+    expect(changes.find(c => c.propertyName === 'parameters.requiredEmpty')).toMatchObject({
+      isBreaking: true,
+      autoMigratable: false,
+      severity: 'HIGH'
+    });
+  });
+
+  it('should detect renames by display name and move the value', () => {
+    const changes = diff(
+      [prop('url', { displayName: 'URL' }), prop('body')],
+      [prop('endpoint', { displayName: 'URL' }), prop('body')]
+    );
+
+    expect(changes).toHaveLength(1);
+    expect(changes[0]).toMatchObject({
+      propertyName: 'parameters.url',
+      changeType: 'renamed',
+      oldValue: 'url',
+      newValue: 'endpoint',
+      autoMigratable: true,
+      migrationStrategy: { type: 'rename_property', sourceProperty: 'parameters.url', targetProperty: 'parameters.endpoint' }
+    });
+  });
+
+  it('should move a property into a new options collection', () => {
+    const changes = diff(
+      [prop('timeout', { type: 'number', default: 1000 })],
+      [prop('options', { type: 'collection', default: {}, options: [prop('timeout', { type: 'number', default: 1000 })] })]
+    );
+
+    expect(changes.map(c => `${c.changeType}:${c.propertyName}`).sort()).toEqual([
+      'added:parameters.options',
+      'renamed:parameters.timeout'
+    ]);
+    expect(changes.find(c => c.changeType === 'renamed')).toMatchObject({
+      oldValue: 'parameters.timeout',
+      newValue: 'parameters.options.timeout',
+      autoMigratable: true,
+      migrationStrategy: { type: 'rename_property', sourceProperty: 'parameters.timeout', targetProperty: 'parameters.options.timeout' }
+    });
+  });
+
+  it('should move a property to another parent by display name', () => {
+    const changes = diff(
+      [
+        prop('options', { type: 'collection', default: {}, options: [prop('batchSize', { type: 'number', displayName: 'Batch Size' })] }),
+        prop('limit', { type: 'number' })
+      ],
+      [
+        prop('options', { type: 'collection', default: {} }),
+        prop('size', { type: 'string', displayName: 'Batch Size' }),
+        prop('limit', { type: 'number' })
+      ]
+    );
+
+    expect(changes).toEqual([expect.objectContaining({
+      propertyName: 'parameters.options.batchSize',
+      changeType: 'renamed',
+      newValue: 'parameters.size',
+      autoMigratable: false,
+      migrationStrategy: undefined,
+      severity: 'HIGH'
+    })]);
+  });
+
+  it('should not move a property when several targets match', () => {
+    const changes = diff(
+      [prop('timeout', { type: 'number' })],
+      [
+        prop('options', { type: 'collection', default: {}, options: [prop('timeout', { type: 'number' })] }),
+        prop('retry', { type: 'collection', default: {}, options: [prop('timeout', { type: 'number' })] })
+      ]
+    );
+
+    expect(changes.find(c => c.propertyName === 'parameters.timeout')).toMatchObject({
+      changeType: 'removed',
+      autoMigratable: false
+    });
+  });
+
+  it('should report removed properties and type changes', () => {
+    const changes = diff(
+      [prop('legacy'), prop('interval', { type: 'string', default: '1h' })],
+      [prop('interval', { type: 'fixedCollection', default: {} })]
+    );
+
+    expect(changes.find(c => c.changeType === 'removed')).toMatchObject({
+      propertyName: 'parameters.legacy',
+      isBreaking: true,
+      autoMigratable: false
+    });
+    expect(changes.find(c => c.changeType === 'type_changed')).toMatchObject({
+      propertyName: 'parameters.interval',
+      oldValue: 'string',
+      newValue: 'fixedCollection',
+      autoMigratable: false
+    });
+    expect(changes.some(c => c.changeType === 'default_changed')).toBe(false);
+  });
+
+  it('should pin the old default when a default changes', () => {
+    const changes = diff(
+      [prop('mode', { type: 'options', default: 'list' })],
+      [prop('mode', { type: 'options', default: 'static' })]
+    );
+
+    expect(changes).toEqual([expect.objectContaining({
+      changeType: 'default_changed',
+      oldValue: '"list"',
+      newValue: '"static"',
+      migrationStrategy: { type: 'set_default', defaultValue: 'list' }
+    })]);
+  });
+
+  it('should detect requirement changes', () => {
+    const changes = diff(
+      [prop('path'), prop('method', { type: 'options', default: 'GET' }), prop('token', { required: true })],
+      [prop('path', { required: true }), prop('method', { type: 'options', default: 'GET', required: true }), prop('token')]
+    );
+
+    expect(changes.find(c => c.propertyName === 'parameters.path')).toMatchObject({
+      changeType: 'requirement_changed',
+      isBreaking: true,
+      autoMigratable: false
+    });
+    expect(changes.find(c => c.propertyName === 'parameters.method')).toMatchObject({
+      isBreaking: false,
+      migrationStrategy: { type: 'set_default', defaultValue: 'GET' }
+    });
+    expect(changes.find(c => c.propertyName === 'parameters.token')).toMatchObject({
+      newValue: 'optional',
+      isBreaking: false,
+      severity: 'LOW'
+    });
+  });
+
+  it('should diff collection options but not report options of added collections', () => {
+    const changes = diff(
+      [prop('options', { type: 'collection', default: {}, options: [prop('timeout', { type: 'number', default: 1000 })] })],
+      [
+        prop('options', { type: 'collection', default: {}, options: [prop('timeout', { type: 'number', default: 5000 })] }),
+        prop('extra', { type: 'collection', default: {}, options: [prop('retry', { type: 'boolean', default: false })] })
+      ]
+    );
+
+    expect(changes.map(c => `${c.changeType}:${c.propertyName}`).sort()).toEqual([
+      'added:parameters.extra',
+      'default_changed:parameters.options.timeout'
+    ]);
+  });
+
+  it('should merge properties defined once per displayOptions branch', () => {
+    const changes = diff(
+      [prop('id', { displayOptions: { show: { resource: ['a'] } } }), prop('id', { displayOptions: { show: { resource: ['b'] } } })],
+      [prop('id', { displayOptions: { show: { resource: ['a'] } } }), prop('id', { required: true, displayOptions: { show: { resource: ['b'] } } })]
+    );
+
+    expect(changes).toEqual([expect.objectContaining({ changeType: 'requirement_changed', propertyName: 'parameters.id' })]);
+  });
+});
+
+describe('deriveBreakingChanges', () => {
+  it('should diff consecutive versions in version order', () => {
+    const changes = deriveBreakingChanges('n8n-nodes-base.test', [
+      { version: '2', propertiesSchema: [prop('a'), prop('b')] },
+      { version: '1', propertiesSchema: [prop('a')] },
+      { version: '1.1', propertiesSchema: [] },
+      { version: '3', propertiesSchema: null }
+    ]);
+
+    expect(changes.map(c => `${c.fromVersion}->${c.toVersion} ${c.changeType} ${c.propertyName}`)).toEqual([
+      '1->1.1 removed parameters.a',
+      '1.1->2 added parameters.a',
+      '1.1->2 added parameters.b'
+    ]);
+  });
+});
+
+describe('derived changes in migrations', () => {
+  let db: DatabaseAdapter;
+  let repository: NodeRepository;
+
+  beforeEach(async () => {
+    db = await createDatabaseAdapter(':memory:');
+    db.exec(fs.readFileSync(path.join(__dirname, '../../../src/database/schema.sql'), 'utf-8'));
+    repository = new NodeRepository(db);
+
+    const base = { nodeType: 'nodes-base.crm', packageName: 'n8n-nodes-base', displayName: 'CRM' };
+    repository.saveNode({
+      ...base,
+      style: 'programmatic',
+      properties: [],
+      credentials: [],
+      operations: [],
+      isAITool: false,
+      isTrigger: false,
+      isWebhook: false,
+      isVersioned: true,
+      version: '2'
+    });
+    repository.saveNodeVersion({ ...base, version: '1', propertiesSchema: [
+      prop('recordId', { displayName: 'Record ID' }),
+      prop('format', { type: 'options', default: 'raw' }),
+      prop('timeout', { type: 'number', default: 1000 }),
+      prop('legacyFlag', { type: 'boolean', default: false })
+    ] });
+    repository.saveNodeVersion({ ...base, version: '2', isCurrentMax: true, propertiesSchema: [
+      prop('id', { displayName: 'Record ID' }),
+      prop('format', { type: 'options', default: 'simplified' }),
+      prop('apiVersion', { type: 'options', required: true, default: 'v2' }),
+      prop('options', { type: 'collection', default: {}, options: [prop('timeout', { type: 'number', default: 1000 })] })
+    ] });
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it('should expose consecutive changes for a node', () => {
+    const registry = new DerivedBreakingChangeRegistry(repository);
+
+    expect(registry.getChangesForNode('n8n-nodes-base.crm').map(c => c.changeType).sort()).toEqual([
+      'added', 'added', 'default_changed', 'removed', 'renamed', 'renamed'
+    ]);
+    expect(registry.getChangesBetween('n8n-nodes-base.crm', '1', '3')).toBeNull();
+  });
+
+  it('should let the detector and migration service upgrade the node', async () => {
+    const detector = new BreakingChangeDetector(repository);
+    const migration = new NodeMigrationService(new NodeVersionService(repository, detector), detector);
+
+    expect(detector.hasBreakingChanges('n8n-nodes-base.crm', '1', '2')).toBe(true);
+
+    const result = await migration.migrateNode({
+      id: 'n1',
+      name: 'CRM',
+      type: 'n8n-nodes-base.crm',
+      typeVersion: 1,
+      parameters: { recordId: '={{ $json.id }}', timeout: 5000, legacyFlag: true }
+    }, '1', '2');
+
+    // The removed property is kept for review instead of being dropped
+    expect(result.success).toBe(false);
+    expect(result.remainingIssues).toEqual([expect.stringContaining('parameters.legacyFlag')]);
+    expect(result.updatedNode.parameters).toEqual({
+      id: '={{ $json.id }}',
+      format: 'raw',
+      apiVersion: 'v2',
+      options: { timeout: 5000 },
+      legacyFlag: true
+    });
+    expect(result.updatedNode.typeVersion).toBe(2);
+  });
+});
+
+describe('derived changes from a rebuilt database', () => {
+  let db: DatabaseAdapter;
+  let repository: NodeRepository;
+
+  // VersionedNodeType as n8n-nodes-base ships it: one description per major version
+  class Crm {
+    description = { displayName: 'CRM', name: 'crm', group: ['transform'], description: 'CRM node', defaultVersion: 2 };
+    currentVersion = 2;
+    nodeVersions = {
+      1: { description: { ...this.description, version: 1, properties: [
+        prop('recordId', { displayName: 'Record ID' }),
+        prop('format', { type: 'options', default: 'raw' })
+      ] } },
+      2: { description: { ...this.description, version: [2, 2.1], properties: [
+        prop('id', { displayName: 'Record ID' }),
+        prop('format', { type: 'options', default: 'simplified' })
+      ] } }
+    };
+  }
+
+  beforeEach(async () => {
+    db = await createDatabaseAdapter(':memory:');
+    db.exec(fs.readFileSync(path.join(__dirname, '../../../src/database/schema.sql'), 'utf-8'));
+    repository = new NodeRepository(db);
+
+    const silent = { log: () => {}, warn: () => {}, error: () => {} };
+    await new IncrementalNodeRebuilder(db, { output: silent })
+      .rebuild([{ packageName: 'n8n-nodes-base', nodeName: 'crm', NodeClass: Crm }]);
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it('should store the properties of every version', () => {
+    expect(repository.getNodeVersions('n8n-nodes-base.crm').map((v: any) => [v.version, v.isCurrentMax])).toEqual([
+      ['2.1', true],
+      ['2', false],
+      ['1', false]
+    ]);
+  });
+
+  it('should derive the changes between stored versions', () => {
+    const registry = new DerivedBreakingChangeRegistry(repository);
+    const changes = registry.getChangesBetween('n8n-nodes-base.crm', '1', '2.1');
+
+    expect(changes?.map(c => `${c.changeType}:${c.propertyName}`).sort()).toEqual([
+      'default_changed:parameters.format',
+      'renamed:parameters.recordId'
+    ]);
+    expect(registry.getChangesBetween('n8n-nodes-base.crm', '2', '2.1')).toEqual([]);
+    expect(new BreakingChangeDetector(repository).hasBreakingChanges('n8n-nodes-base.crm', '1', '2')).toBe(true);
+  });
+});
@@ -0,0 +1,229 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import { createDatabaseAdapter, DatabaseAdapter } from '@/database/database-adapter';
+import { NodeRepository } from '@/database/node-repository';
+import { PrivateNodeIndexer, getConfiguredPrivateNodePaths } from '@/services/private-node-indexer';
+import { extractTarball } from '@/utils/tarball';
+
+const silent = { log: () => {}, warn: () => {}, error: () => {} };
+
+/**
+ * Node module source: a class with an n8n description
+ */
+function nodeSource(className: string, name: string, extra: Record<string, unknown> = {}): string {
+  const description = {
+    displayName: `Acme ${className}`,
+    name,
+    group: ['transform'],
+    version: 1,
+    description: `Talks to the Acme ${className} API`,
+    inputs: ['main'],
+    outputs: ['main'],
+    properties: [
+      {
+        displayName: 'Operation',
+        name: 'operation',
+        type: 'options',
+        options: [{ name: 'Create', value: 'create' }, { name: 'Get', value: 'get' }],
+        default: 'get'
+      },
+      { displayName: 'Record ID', name: 'recordId', type: 'string', default: '', required: true }
+    ],
+    ...extra
+  };
+  return `class ${className} { constructor() { this.description = ${JSON.stringify(description)}; } }\nmodule.exports = { ${className} };\n`;
+}
+
+function writePackage(dir: string, name: string, version: string, nodes: Record<string, string>): void {
+  fs.mkdirSync(path.join(dir, 'dist'), { recursive: true });
+  for (const [file, source] of Object.entries(nodes)) {
+    fs.writeFileSync(path.join(dir, 'dist', file), source);
+  }
+  fs.writeFileSync(path.join(dir, 'package.json'), JSON.stringify({
+    name,
+    version,
+    n8n: { nodes: Object.keys(nodes).map(file => `dist/${file}`) }
+  }));
+}
+
+/**
+ * Pack files the way npm pack does (ustar entries under package/)
+ */
+function packTarball(file: string, files: Record<string, string>): void {
+  const blocks: Buffer[] = [];
+  for (const [name, content] of Object.entries(files)) {
+    const body = Buffer.from(content);
+    const header = Buffer.alloc(512);
+    header.write(`package/${name}`, 0);
+    header.write('0000644\0', 100);
+    header.write('0000000\0', 108);
+    header.write('0000000\0', 116);
+    header.write(body.length.toString(8).padStart(11, '0') + '\0', 124);
+    header.write('00000000000\0', 136);
+    header.write('        ', 148);
+    header.write('0', 156);
+    header.write('ustar\0' + '00', 257);
+    let checksum = 0;
+    for (const byte of header) checksum += byte;
+    header.write(checksum.toString(8).padStart(6, '0') + '\0 ', 148);
+    blocks.push(header, body, Buffer.alloc((512 - (body.length % 512)) % 512));
+  }
+  blocks.push(Buffer.alloc(1024));
+  fs.writeFileSync(file, zlib.gzipSync(Buffer.concat(blocks)));
+}
+
+describe('PrivateNodeIndexer', () => {
+  let tmp: string;
+  let db: DatabaseAdapter;
+  let repository: NodeRepository;
+  let indexer: PrivateNodeIndexer;
+
+  beforeEach(async () => {
+    tmp = fs.mkdtempSync(path.join(os.tmpdir(), 'private-nodes-'));
+    db = await createDatabaseAdapter(':memory:');
+    db.exec(fs.readFileSync(path.join(__dirname, '../../../src/database/schema.sql'), 'utf-8'));
+    repository = new NodeRepository(db);
+    indexer = new PrivateNodeIndexer(repository, { extractDir: path.join(tmp, 'extracted'), output: silent });
+  });
+
+  afterEach(() => {
+    db.close();
+    fs.rmSync(tmp, { recursive: true, force: true });
+  });
+
+  it('should index a package directory as private first-class nodes', async () => {
+    const dir = path.join(tmp, 'n8n-nodes-acme');
+    writePackage(dir, '@acme/n8n-nodes-acme', '1.2.0', {
+      'Crm.node.js': nodeSource('Crm', 'acmeCrm', { usableAsTool: true }),
+      'Broken.node.js': 'throw new Error("cannot load");'
+    });
+
+    const result = await indexer.indexPaths([dir]);
+
+    expect(result.errors).toEqual([]);
+    expect(result.packages).toHaveLength(1);
+    expect(result.packages[0]).toMatchObject({ packageName: '@acme/n8n-nodes-acme', version: '1.2.0', source: dir });
+    expect(result.packages[0].nodes.sort()).toEqual(['@acme/n8n-nodes-acme.acmeCrm', '@acme/n8n-nodes-acme.acmeCrmTool']);
+    expect(result.packages[0].errors[0]).toContain('cannot load');
+
+    const node = repository.getNode('@acme/n8n-nodes-acme.acmeCrm');
+    expect(node).toMatchObject({
+      displayName: 'Acme Crm',
+      package: '@acme/n8n-nodes-acme',
+      isPrivate: true,
+      isCommunity: false,
+      privateSource: dir,
+      hasToolVariant: true
+    });
+    expect(node.properties.map((p: any) => p.name)).toEqual(['operation', 'recordId']);
+
+    const fts = db.prepare("SELECT node_type FROM nodes_fts WHERE nodes_fts MATCH 'acme'").all();
+    expect(fts).toHaveLength(2);
+  });
+
+  it('should replace the nodes of a package when it is indexed again', async () => {
+    const dir = path.join(tmp, 'pkg');
+    writePackage(dir, 'n8n-nodes-billing', '1.0.0', {
+      'Invoice.node.js': nodeSource('Invoice', 'invoice'),
+      'Refund.node.js': nodeSource('Refund', 'refund')
+    });
+    await indexer.indexPaths([dir]);
+
+    fs.rmSync(dir, { recursive: true });
+    writePackage(dir, 'n8n-nodes-billing', '2.0.0', { 'Invoice.node.js': nodeSource('Invoice', 'invoice') });
+    await indexer.indexPaths([dir]);
+
+    expect(repository.getPrivateNodes('n8n-nodes-billing').map(n => n.nodeType)).toEqual(['n8n-nodes-billing.invoice']);
+    expect(repository.getNode('n8n-nodes-billing.refund')).toBeNull();
+  });
+
+  it('should index tarballs and package folders and report unreadable paths', async () => {
+    const folder = path.join(tmp, 'packages');
+    writePackage(path.join(folder, '@acme', 'n8n-nodes-scoped'), '@acme/n8n-nodes-scoped', '0.1.0', {
+      'Ticket.node.js': nodeSource('Ticket', 'ticket')
+    });
+    packTarball(path.join(folder, 'n8n-nodes-packed-3.0.0.tgz'), {
+      'package.json': JSON.stringify({ name: 'n8n-nodes-packed', version: '3.0.0', n8n: { nodes: ['dist/Sms.node.js'] } }),
+      'dist/Sms.node.js': nodeSource('Sms', 'sms')
+    });
+    fs.mkdirSync(path.join(folder, 'not-a-package'));
+
+    const result = await indexer.indexPaths([folder, path.join(tmp, 'missing')]);
+
+    expect(result.packages.map(p => p.packageName)).toEqual(['@acme/n8n-nodes-scoped', 'n8n-nodes-packed']);
+    expect(result.saved).toBe(2);
+    expect(result.errors).toEqual([`${path.join(tmp, 'missing')}: path does not exist`]);
+    expect(repository.getNode('n8n-nodes-packed.sms')).toMatchObject({
+      isPrivate: true,
+      privateSource: path.join(folder, 'n8n-nodes-packed-3.0.0.tgz')
+    });
+  });
+
+  it('should add the private columns to databases created without them', () => {
+    db.exec('DROP INDEX idx_private');
+    db.exec('ALTER TABLE nodes DROP COLUMN is_private');
+    db.exec('ALTER TABLE nodes DROP COLUMN private_source');
+
+    repository.ensurePrivateNodeColumns();
+
+    const columns = (db.prepare('PRAGMA table_info(nodes)').all() as any[]).map(c => c.name);
+    expect(columns).toEqual(expect.arrayContaining(['is_private', 'private_source']));
+    expect(repository.hasPrivateNodeColumns()).toBe(true);
+  });
+
+  it('should migrate old databases so the schema can be applied again', async () => {
+    const schema = fs.readFileSync(path.join(__dirname, '../../../src/database/schema.sql'), 'utf-8');
+    const legacy = await createDatabaseAdapter(':memory:');
+    try {
+      // The schema as it was before private node support
+      legacy.exec(schema.split('\n').filter(line => !/is_private|private_source/.test(line)).join('\n'));
+      const legacyRepository = new NodeRepository(legacy);
+      expect(legacyRepository.hasPrivateNodeColumns()).toBe(false);
+      expect(() => legacy.exec(schema)).toThrow(/is_private/);
+
+      legacyRepository.ensurePrivateNodeColumns();
+      expect(() => legacy.exec(schema)).not.toThrow();
+      expect(legacy.prepare("SELECT name FROM sqlite_master WHERE type = 'index' AND name = 'idx_private'").get()).toBeTruthy();
+    } finally {
+      legacy.close();
+    }
+  });
+
+  it('should leave databases without a nodes table to the schema', async () => {
+    const empty = await createDatabaseAdapter(':memory:');
+    try {
+      expect(() => new NodeRepository(empty).ensurePrivateNodeColumns()).not.toThrow();
+      expect(empty.prepare("SELECT name FROM sqlite_master WHERE name = 'nodes'").get()).toBeUndefined();
+    } finally {
+      empty.close();
+    }
+  });
+
+  it('should read N8N_PRIVATE_NODE_PATHS as a comma-separated list', () => {
+    const previous = process.env.N8N_PRIVATE_NODE_PATHS;
+    process.env.N8N_PRIVATE_NODE_PATHS = ' /opt/acme , ./nodes.tgz,,';
+    try {
+      expect(getConfiguredPrivateNodePaths()).toEqual(['/opt/acme', './nodes.tgz']);
+    } finally {
+      if (previous === undefined) delete process.env.N8N_PRIVATE_NODE_PATHS;
+      else process.env.N8N_PRIVATE_NODE_PATHS = previous;
+    }
+  });
+});
+
+describe('extractTarball', () => {
+  it('should refuse entries outside of the target directory', () => {
+    const tmp = fs.mkdtempSync(path.join(os.tmpdir(), 'tarball-'));
+    try {
+      const file = path.join(tmp, 'evil.tgz');
+      packTarball(file, { '../../escape.txt': 'x' });
+      expect(() => extractTarball(file, path.join(tmp, 'out'))).toThrow(/outside/);
+      expect(fs.existsSync(path.join(tmp, 'escape.txt'))).toBe(false);
+    } finally {
+      fs.rmSync(tmp, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,324 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+import { createDatabaseAdapter, DatabaseAdapter } from '@/database/database-adapter';
+import { EmbeddingModel, EmbeddingModelUnavailableError } from '@/services/embedding-model';
+import {
+  SemanticSearchService,
+  buildNodeEmbeddingText,
+  buildTemplateEmbeddingText,
+  getSemanticSearchWeights
+} from '@/services/semantic-search-service';
+
+// Concepts of the fake model: a text's vector counts the words of each concept
+const CONCEPTS = [
+  ['message', 'messages', 'chat', 'team', 'slack', 'discord', 'notify', 'channel'],
+  ['spreadsheet', 'sheet', 'sheets', 'row', 'rows', 'table'],
+  ['http', 'request', 'api', 'url'],
+  ['email', 'mail', 'gmail', 'inbox']
+];
+
+/**
+ * Deterministic stand-in for the sentence model
+ */
+class FakeEmbeddingModel implements EmbeddingModel {
+  embedded: string[] = [];
+
+  constructor(readonly id = 'fake-model') {}
+
+  async embed(texts: string[]): Promise<Float32Array[]> {
+    this.embedded.push(...texts);
+    return texts.map(text => {
+      const words = text.toLowerCase().split(/[^a-z]+/);
+      const vector = Float32Array.from(CONCEPTS.map(concept => words.filter(word => concept.includes(word)).length));
+      const norm = Math.hypot(...vector) || 1;
+      return vector.map(value => value / norm);
+    });
+  }
+}
+
+function insertNode(db: DatabaseAdapter, nodeType: string, displayName: string, description: string, flags: { community?: boolean; private?: boolean } = {}): void {
+  db.prepare(`
+    INSERT OR REPLACE INTO nodes (node_type, package_name, display_name, description, category, operations, is_community, is_private)
+    VALUES (?, 'n8n-nodes-base', ?, ?, 'output', '[]', ?, ?)
+  `).run(nodeType, displayName, description, flags.community ? 1 : 0, flags.private ? 1 : 0);
+}
+
+function insertTemplate(db: DatabaseAdapter, id: number, name: string, description: string): void {
+  db.prepare(`
+    INSERT INTO templates (id, workflow_id, name, description, nodes_used, created_at, updated_at)
+    VALUES (?, ?, ?, ?, '[]', datetime('now'), datetime('now'))
+  `).run(id, id, name, description);
+}
+
+describe('SemanticSearchService', () => {
+  let db: DatabaseAdapter;
+  let model: FakeEmbeddingModel;
+
+  beforeEach(async () => {
+    db = await createDatabaseAdapter(':memory:');
+    db.exec(fs.readFileSync(path.join(__dirname, '../../../src/database/schema.sql'), 'utf-8'));
+    model = new FakeEmbeddingModel();
+
+    insertNode(db, 'nodes-base.slack', 'Slack', 'Send a message to a Slack channel');
+    insertNode(db, 'nodes-base.discord', 'Discord', 'Post chat messages to Discord', { community: true });
+    insertNode(db, 'nodes-base.googleSheets', 'Google Sheets', 'Read and append spreadsheet rows');
+    insertNode(db, 'nodes-base.httpRequest', 'HTTP Request', 'Call any API url');
+    insertNode(db, 'nodes-base.acmeNotify', 'Acme Notify', 'Notify the team on the internal chat', { private: true });
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  describe('indexNodes', () => {
+    it('stores one vector per node with the model id', async () => {
+      const result = await new SemanticSearchService(db, { model }).indexNodes();
+
+      expect(result).toEqual({ model: 'fake-model', total: 5, embedded: 5, removed: 0 });
+      const rows = db.prepare('SELECT node_type, model, vector FROM node_embeddings ORDER BY node_type').all() as any[];
+      expect(rows).toHaveLength(5);
+      expect(rows.every(row => row.model === 'fake-model')).toBe(true);
+      expect(rows[0].vector.length).toBe(CONCEPTS.length * 4);
+    });
+
+    it('only re-embeds nodes whose text changed and removes deleted ones', async () => {
+      await new SemanticSearchService(db, { model }).indexNodes();
+      insertNode(db, 'nodes-base.slack', 'Slack', 'Send a message or a file to a Slack channel');
+      db.prepare(`DELETE FROM nodes WHERE node_type = 'nodes-base.httpRequest'`).run();
+
+      const second = new FakeEmbeddingModel();
+      const result = await new SemanticSearchService(db, { model: second }).indexNodes();
+
+      expect(result).toEqual({ model: 'fake-model', total: 4, embedded: 1, removed: 1 });
+      expect(second.embedded).toEqual([expect.stringContaining('Send a message or a file')]);
+      expect(db.prepare('SELECT COUNT(*) AS count FROM node_embeddings').get()).toEqual({ count: 4 });
+    });
+
+    it('re-embeds everything when the model changes', async () => {
+      await new SemanticSearchService(db, { model }).indexNodes();
+
+      const result = await new SemanticSearchService(db, { model: new FakeEmbeddingModel('other-model') }).indexNodes();
+
+      expect(result.embedded).toBe(5);
+      const models = db.prepare('SELECT DISTINCT model FROM node_embeddings').all() as any[];
+      expect(models).toEqual([{ model: 'other-model' }]);
+    });
+
+    it('creates the embedding tables in databases built before semantic search', async () => {
+      db.exec('DROP TABLE node_embeddings');
+
+      const result = await new SemanticSearchService(db, { model }).indexNodes();
+
+      expect(result.embedded).toBe(5);
+      expect(db.prepare('SELECT COUNT(*) AS count FROM node_embeddings').get()).toEqual({ count: 5 });
+    });
+  });
+
+  describe('searchNodes', () => {
+    it('finds nodes by meaning without a keyword match', async () => {
+      const service = new SemanticSearchService(db, { model });
+
+      const matches = await service.searchNodes('notify my team');
+
+      const types = matches.map(match => match.node.node_type);
+      expect(types.slice(0, 3)).toEqual(expect.arrayContaining(['nodes-base.slack', 'nodes-base.discord', 'nodes-base.acmeNotify']));
+      expect(types).not.toContain('nodes-base.googleSheets');
+      expect(types).not.toContain('nodes-base.httpRequest');
+    });
+
+    it('combines the keyword and vector scores with the configured weights', async () => {
+      const service = new SemanticSearchService(db, { model, weights: { keyword: 1, vector: 3 } });
+      expect(service.getWeights()).toEqual({ keyword: 0.25, vector: 0.75 });
+
+      const [top] = await service.searchNodes('slack');
+
+      expect(top.node.node_type).toBe('nodes-base.slack');
+      expect(top.keywordScore).toBe(1);
+      expect(top.score).toBeCloseTo(0.25 * top.keywordScore + 0.75 * top.vectorScore, 2);
+    });
+
+    it('ranks by keywords only when the vector weight is 0', async () => {
+      const service = new SemanticSearchService(db, { model, weights: { keyword: 1, vector: 0 } });
+
+      const matches = await service.searchNodes('spreadsheet');
+
+      expect(matches[0].node.node_type).toBe('nodes-base.googleSheets');
+      expect(matches[0].score).toBe(1);
+    });
+
+    it('applies the source filter and the limit', async () => {
+      const service = new SemanticSearchService(db, { model });
+
+      const community = await service.searchNodes('chat message', { source: 'community' });
+      const privateNodes = await service.searchNodes('chat message', { source: 'private' });
+      const core = await service.searchNodes('chat message', { source: 'core', limit: 1 });
+
+      expect(community.map(match => match.node.node_type)).toEqual(['nodes-base.discord']);
+      expect(privateNodes.map(match => match.node.node_type)).toEqual(['nodes-base.acmeNotify']);
+      expect(core.map(match => match.node.node_type)).toEqual(['nodes-base.slack']);
+    });
+
+    it('filters by source on databases without the private node columns', async () => {
+      db.exec('DROP INDEX idx_private');
+      db.exec('ALTER TABLE nodes DROP COLUMN is_private');
+      const service = new SemanticSearchService(db, { model });
+
+      expect(await service.searchNodes('chat message', { source: 'private' })).toEqual([]);
+      expect((await service.searchNodes('chat message', { source: 'core' })).length).toBeGreaterThan(0);
+    });
+
+    it('uses the stored vectors without embedding the nodes again', async () => {
+      await new SemanticSearchService(db, { model: new FakeEmbeddingModel() }).indexNodes();
+      const service = new SemanticSearchService(db, { model });
+
+      await service.searchNodes('slack');
+
+      expect(model.embedded).toEqual(['slack']);
+    });
+
+    it('embeds nodes missing from the index in memory without writing them', async () => {
+      await new SemanticSearchService(db, { model: new FakeEmbeddingModel() }).indexNodes();
+      insertNode(db, 'nodes-base.gmail', 'Gmail', 'Send email from your inbox');
+      const service = new SemanticSearchService(db, { model });
+
+      const matches = await service.searchNodes('mail');
+      await service.searchNodes('inbox');
+
+      expect(matches.map(match => match.node.node_type)).toEqual(['nodes-base.gmail']);
+      // 2 queries + the new node once
+      expect(model.embedded).toEqual(['mail', expect.stringContaining('Gmail'), 'inbox']);
+      expect(db.prepare('SELECT COUNT(*) AS count FROM node_embeddings').get()).toEqual({ count: 5 });
+    });
+
+    it('does not create the embedding tables at query time', async () => {
+      db.exec('DROP TABLE node_embeddings');
+
+      const matches = await new SemanticSearchService(db, { model }).searchNodes('slack');
+
+      expect(matches[0].node.node_type).toBe('nodes-base.slack');
+      expect(db.prepare(`SELECT name FROM sqlite_master WHERE name = 'node_embeddings'`).get()).toBeUndefined();
+    });
+
+    it('shares one load between concurrent first searches', async () => {
+      const service = new SemanticSearchService(db, { model });
+
+      await Promise.all([service.searchNodes('slack'), service.searchNodes('discord')]);
+
+      // 2 queries + 5 nodes once
+      expect(model.embedded).toHaveLength(7);
+    });
+
+    it('re-reads the nodes after invalidate', async () => {
+      const service = new SemanticSearchService(db, { model });
+      await service.searchNodes('mail');
+      insertNode(db, 'nodes-base.gmail', 'Gmail', 'Send email from your inbox');
+
+      service.invalidate();
+      const matches = await service.searchNodes('mail');
+
+      expect(matches.map(match => match.node.node_type)).toEqual(['nodes-base.gmail']);
+    });
+
+    describe('without a model', () => {
+      const original = { ...process.env };
+
+      beforeEach(() => {
+        delete process.env.SEMANTIC_SEARCH_MODEL_PATH;
+        delete process.env.SEMANTIC_SEARCH_MODEL_DOWNLOAD;
+      });
+
+      afterEach(() => {
+        process.env = { ...original };
+      });
+
+      it('rejects with EmbeddingModelUnavailableError when no model is configured', async () => {
+        await expect(new SemanticSearchService(db).searchNodes('slack')).rejects.toBeInstanceOf(EmbeddingModelUnavailableError);
+      });
+
+      it('loads the model again after a failed load', async () => {
+        const service = new SemanticSearchService(db);
+        await expect(service.searchNodes('slack')).rejects.toThrow(/not enabled/);
+
+        // The optional library is not installed in the test environment
+        process.env.SEMANTIC_SEARCH_MODEL_DOWNLOAD = 'true';
+        await expect(service.searchNodes('slack')).rejects.toThrow(/optional package/);
+      });
+    });
+  });
+
+  describe('searchTemplates', () => {
+    beforeEach(() => {
+      insertTemplate(db, 1, 'Daily Slack digest', 'Post a chat message to the team channel every morning');
+      insertTemplate(db, 2, 'Sync sheet rows', 'Append spreadsheet rows from a form');
+      insertTemplate(db, 3, 'Discord alerts', 'Notify a Discord channel about new issues');
+      insertTemplate(db, 4, 'Inbox to sheet', 'Copy email from the inbox into a spreadsheet table');
+    });
+
+    it('ranks templates and paginates the matches', async () => {
+      const service = new SemanticSearchService(db, { model });
+
+      const firstPage = await service.searchTemplates('notify the team', { limit: 1 });
+      const secondPage = await service.searchTemplates('notify the team', { limit: 1, offset: 1 });
+
+      expect(firstPage.total).toBe(2);
+      expect([firstPage.matches[0].templateId, secondPage.matches[0].templateId].sort()).toEqual([1, 3]);
+      // Searches do not store vectors, fetch:templates does
+      expect(db.prepare('SELECT COUNT(*) AS count FROM template_embeddings').get()).toEqual({ count: 0 });
+    });
+
+    it('indexes templates and reports changes', async () => {
+      const service = new SemanticSearchService(db, { model });
+      expect(await service.indexTemplates()).toEqual({ model: 'fake-model', total: 4, embedded: 4, removed: 0 });
+
+      db.prepare('DELETE FROM templates WHERE id = 2').run();
+      expect(await service.indexTemplates()).toEqual({ model: 'fake-model', total: 3, embedded: 0, removed: 1 });
+    });
+  });
+});
+
+describe('getSemanticSearchWeights', () => {
+  const original = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...original };
+  });
+
+  it('reads the weights from the environment and ignores invalid values', () => {
+    process.env.SEMANTIC_SEARCH_KEYWORD_WEIGHT = '0.7';
+    process.env.SEMANTIC_SEARCH_VECTOR_WEIGHT = '-1';
+
+    expect(getSemanticSearchWeights()).toEqual({ keyword: 0.7, vector: undefined });
+  });
+
+  it('falls back to the defaults when both weights are 0', async () => {
+    process.env.SEMANTIC_SEARCH_KEYWORD_WEIGHT = '0';
+    process.env.SEMANTIC_SEARCH_VECTOR_WEIGHT = '0';
+    const db = await createDatabaseAdapter(':memory:');
+
+    expect(new SemanticSearchService(db, { model: new FakeEmbeddingModel() }).getWeights()).toEqual({ keyword: 0.4, vector: 0.6 });
+    db.close();
+  });
+});
+
+describe('embedding texts', () => {
+  it('builds node text from name, description, category and operations', () => {
+    expect(buildNodeEmbeddingText({
+      node_type: 'nodes-base.slack',
+      display_name: 'Slack',
+      description: 'Consume the Slack API',
+      category: 'output',
+      operations: JSON.stringify([{ name: 'Send', action: 'Send a message' }])
+    })).toBe('Slack. Consume the Slack API. output. Send. Send a message');
+  });
+
+  it('builds template text from name, description, nodes and metadata', () => {
+    expect(buildTemplateEmbeddingText({
+      name: 'Alerts',
+      description: 'Notify on errors',
+      nodes_used: JSON.stringify(['n8n-nodes-base.slack', 'n8n-nodes-base.errorTrigger']),
+      categories: JSON.stringify([{ name: 'DevOps' }]),
+      metadata_json: JSON.stringify({ use_cases: ['Incident alerts'], required_services: ['Slack'] })
+    })).toBe('Alerts. Notify on errors. Nodes: slack, errorTrigger. DevOps. Incident alerts. Slack');
+  });
+});
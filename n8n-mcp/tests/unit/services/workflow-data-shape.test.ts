@@ -0,0 +1,190 @@
+import { describe, it, expect } from 'vitest';
+import {
+  shapeOfValue,
+  mergeShapes,
+  resolveShapePath,
+  inferWorkflowDataShapes,
+  findUnresolvedFieldReferences
+} from '@/services/workflow-data-shape';
+
+describe('workflow-data-shape', () => {
+  const node = (name: string, type: string, parameters: any = {}, extra: any = {}) => ({
+    id: name.toLowerCase(),
+    name,
+    type,
+    typeVersion: 1,
+    position: [0, 0] as [number, number],
+    parameters,
+    ...extra
+  });
+
+  const chain = (...names: string[]) => Object.fromEntries(
+    names.slice(0, -1).map((name, i) => [name, { main: [[{ node: names[i + 1], type: 'main', index: 0 }]] }])
+  );
+
+  describe('shapes', () => {
+    it('should merge fields of all items and resolve paths', () => {
+      const shape = mergeShapes(
+        shapeOfValue({ id: 1, customer: { email: 'a@example.com' } }),
+        shapeOfValue({ id: 2, tags: ['x'] })
+      );
+
+      expect(resolveShapePath(shape, ['customer', 'email'])).toEqual({ status: 'found' });
+      expect(resolveShapePath(shape, ['tags', '0'])).toEqual({ status: 'found' });
+      expect(resolveShapePath(shape, ['customer', 'mail'])).toEqual({ status: 'missing', missingIndex: 1, availableFields: ['email'] });
+      expect(resolveShapePath(shape, ['toString'])).toEqual(expect.objectContaining({ status: 'missing' }));
+    });
+
+    it('should never flag paths through unknown or open shapes', () => {
+      expect(resolveShapePath({ kind: 'unknown' }, ['a', 'b'])).toEqual({ status: 'unknown' });
+      expect(resolveShapePath({ kind: 'object', fields: {}, open: true }, ['a'])).toEqual({ status: 'unknown' });
+      expect(mergeShapes(shapeOfValue({ a: 1 }), { kind: 'unknown' })).toEqual({ kind: 'unknown' });
+    });
+  });
+
+  describe('inferWorkflowDataShapes', () => {
+    it('should prefer pinned data, then execution data, then known node shapes', () => {
+      const workflow = {
+        nodes: [
+          node('Webhook', 'n8n-nodes-base.webhook'),
+          node('Fetch', 'n8n-nodes-base.httpRequest'),
+          node('Check', 'n8n-nodes-base.if')
+        ],
+        connections: chain('Webhook', 'Fetch', 'Check'),
+        pinData: { Fetch: [{ json: { orderId: 1 } }] }
+      };
+      const runData = {
+        Fetch: [{ data: { main: [[{ json: { ignored: true } }]] } }]
+      };
+
+      const shapes = inferWorkflowDataShapes(workflow, { runData });
+
+      expect(shapes.get('Webhook')?.sources).toEqual(['sample payload of webhook "Webhook"']);
+      expect(shapes.get('Fetch')).toEqual({ shape: shapeOfValue({ orderId: 1 }), sources: ['pinned data of "Fetch"'] });
+      // IF passes items through
+      expect(shapes.get('Check')?.shape).toEqual(shapeOfValue({ orderId: 1 }));
+    });
+
+    it('should leave nodes with unknown output out', () => {
+      const workflow = {
+        nodes: [node('Webhook', 'n8n-nodes-base.webhook'), node('Code', 'n8n-nodes-base.code'), node('Check', 'n8n-nodes-base.if')],
+        connections: chain('Webhook', 'Code', 'Check')
+      };
+
+      const shapes = inferWorkflowDataShapes(workflow);
+
+      expect(shapes.has('Code')).toBe(false);
+      expect(shapes.has('Check')).toBe(false);
+    });
+
+    it('should apply Set node assignments', () => {
+      const workflow = {
+        nodes: [
+          node('Start', 'n8n-nodes-base.manualTrigger'),
+          node('Set', 'n8n-nodes-base.set', {
+            assignments: { assignments: [
+              { name: 'customer.email', value: 'a@example.com', type: 'string' },
+              { name: 'total', value: 10, type: 'number' }
+            ] },
+            includeOtherFields: false
+          }, { typeVersion: 3.4 })
+        ],
+        connections: chain('Start', 'Set')
+      };
+
+      const set = inferWorkflowDataShapes(workflow).get('Set');
+
+      expect(resolveShapePath(set!.shape, ['customer', 'email'])).toEqual({ status: 'found' });
+      expect(resolveShapePath(set!.shape, ['email'])).toEqual(expect.objectContaining({ status: 'missing' }));
+    });
+
+    it('should keep input fields of Set 3.0-3.2 nodes that include all fields', () => {
+      const setNode = (typeVersion: number, parameters: Record<string, unknown>) => ({
+        nodes: [
+          node('Webhook', 'n8n-nodes-base.webhook'),
+          node('Set', 'n8n-nodes-base.set', {
+            fields: { values: [{ name: 'total', stringValue: '10' }] },
+            ...parameters
+          }, { typeVersion })
+        ],
+        connections: chain('Webhook', 'Set')
+      });
+
+      for (const parameters of [{ include: 'all' }, {}]) {
+        const set = inferWorkflowDataShapes(setNode(3.2, parameters)).get('Set');
+        expect(resolveShapePath(set!.shape, ['body'])).toEqual({ status: 'found' });
+      }
+      const none = inferWorkflowDataShapes(setNode(3.1, { include: 'none' })).get('Set');
+      expect(resolveShapePath(none!.shape, ['body'])).toEqual(expect.objectContaining({ status: 'missing' }));
+    });
+  });
+
+  describe('findUnresolvedFieldReferences', () => {
+    it('should flag a renamed upstream field and suggest the new name', () => {
+      const workflow = {
+        nodes: [
+          node('Webhook', 'n8n-nodes-base.webhook'),
+          node('Set', 'n8n-nodes-base.set', {
+            assignments: { assignments: [{ name: 'customerEmail', value: '={{ $json.body.email }}', type: 'string' }] }
+          }, { typeVersion: 3.4 }),
+          node('Check', 'n8n-nodes-base.if', {
+            conditions: { conditions: [{ leftValue: '={{ $json.customer_email }}', rightValue: '', operator: { type: 'string', operation: 'exists' } }] }
+          }, { typeVersion: 2 })
+        ],
+        connections: chain('Webhook', 'Set', 'Check')
+      };
+
+      const refs = findUnresolvedFieldReferences(workflow);
+
+      expect(refs).toEqual([expect.objectContaining({
+        nodeName: 'Check',
+        parameter: 'conditions.conditions[0].leftValue',
+        expression: '$json.customer_email',
+        missingPath: ['customer_email'],
+        availableFields: ['customerEmail'],
+        suggestion: 'customerEmail',
+        sources: ['sample payload of webhook "Webhook"', 'fields of Set node "Set"']
+      })]);
+    });
+
+    it('should check $() and $node references against the referenced node', () => {
+      const workflow = {
+        nodes: [
+          node('Trigger', 'n8n-nodes-base.manualTrigger'),
+          node('Orders', 'n8n-nodes-base.httpRequest'),
+          node('Reply', 'n8n-nodes-base.httpRequest', {
+            url: "=https://example.com/{{ $('Orders').first().json.customer.email }}/{{ $node[\"Orders\"].json.id }}/{{ $('Orders').item.json.customer.name.toUpperCase() }}"
+          })
+        ],
+        connections: chain('Trigger', 'Orders', 'Reply'),
+        pinData: { Orders: [{ json: { id: 1, customer: { name: 'Ann', mail: 'ann@example.com' } } }] }
+      };
+
+      const refs = findUnresolvedFieldReferences(workflow);
+
+      expect(refs).toEqual([expect.objectContaining({
+        sourceNode: 'Orders',
+        expression: "$('Orders').first().json.customer.email",
+        missingPath: ['customer', 'email'],
+        suggestion: 'mail'
+      })]);
+    });
+
+    it('should use execution data and ignore literal (non-expression) strings', () => {
+      const workflow = {
+        nodes: [
+          node('Trigger', 'n8n-nodes-base.manualTrigger'),
+          node('Orders', 'n8n-nodes-base.httpRequest'),
+          node('Notify', 'n8n-nodes-base.slack', { text: '=Order {{ $json.orderId }}', note: '{{ $json.orderId }}' })
+        ],
+        connections: chain('Trigger', 'Orders', 'Notify')
+      };
+      const runData = { Orders: [{ data: { main: [[{ json: { id: 7 } }]] } }] };
+
+      expect(findUnresolvedFieldReferences(workflow)).toEqual([]);
+      expect(findUnresolvedFieldReferences(workflow, { runData })).toEqual([
+        expect.objectContaining({ parameter: 'text', sources: ['last execution of "Orders"'] })
+      ]);
+    });
+  });
+});
@@ -0,0 +1,150 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  buildDependencyGraph,
+  fetchAllWorkflows,
+  getWorkflowImpact,
+  isCallableWorkflow,
+  toMermaid
+} from '@/services/workflow-dependency-graph';
+
+function node(name: string, type: string, parameters: Record<string, unknown> = {}) {
+  return { id: name, name, type, typeVersion: 1, position: [0, 0] as [number, number], parameters };
+}
+
+function workflow(id: string, name: string, nodes: any[], extra: Record<string, unknown> = {}) {
+  return { id, name, nodes, connections: {}, active: false, ...extra } as any;
+}
+
+const trigger = node('Start', 'n8n-nodes-base.executeWorkflowTrigger');
+
+const workflows = [
+  workflow('orders', 'Orders', [
+    node('Webhook', 'n8n-nodes-base.webhook'),
+    node('Enrich', 'n8n-nodes-base.executeWorkflow', { workflowId: { __rl: true, value: 'enrich', mode: 'list' } }),
+    node('Dynamic', 'n8n-nodes-base.executeWorkflow', { workflowId: '={{ $json.flow }}' })
+  ], { active: true, settings: { errorWorkflow: 'alerts' } }),
+  workflow('agent', 'Support Agent', [
+    node('Lookup Tool', '@n8n/n8n-nodes-langchain.toolWorkflow', { workflowId: 'enrich' })
+  ]),
+  workflow('enrich', 'Enrich Customer', [
+    trigger,
+    node('Geo', 'n8n-nodes-base.executeWorkflow', { workflowId: 'geo' })
+  ]),
+  workflow('geo', 'Geo Lookup', [trigger, node('Gone', 'n8n-nodes-base.executeWorkflow', { workflowId: 'deleted' })]),
+  workflow('unused', 'Unused Helper', [trigger]),
+  workflow('alerts', 'Alerts', [node('Error Trigger', 'n8n-nodes-base.errorTrigger')])
+];
+
+describe('workflow-dependency-graph', () => {
+  describe('buildDependencyGraph', () => {
+    it('should collect execute workflow, tool and error workflow links', () => {
+      const graph = buildDependencyGraph(workflows);
+
+      expect(graph.edges).toEqual(expect.arrayContaining([
+        { from: 'orders', to: 'enrich', kind: 'execute_workflow', nodeName: 'Enrich' },
+        { from: 'agent', to: 'enrich', kind: 'ai_tool', nodeName: 'Lookup Tool' },
+        { from: 'orders', to: 'alerts', kind: 'error_workflow' }
+      ]));
+      const enrich = graph.workflows.find(w => w.id === 'enrich')!;
+      expect(enrich.callers).toEqual(['orders', 'agent']);
+      expect(enrich.callees).toEqual(['geo']);
+      expect(enrich.isSubWorkflow).toBe(true);
+    });
+
+    it('should report orphans, missing targets and runtime-selected calls', () => {
+      const graph = buildDependencyGraph(workflows);
+
+      expect(graph.orphans).toEqual(['unused']);
+      expect(graph.missing).toEqual(['deleted']);
+      expect(graph.workflows.find(w => w.id === 'deleted')).toMatchObject({ missing: true, callers: ['geo'] });
+      expect(graph.unresolved).toEqual([
+        { workflowId: 'orders', workflowName: 'Orders', nodeName: 'Dynamic', reason: 'expression' }
+      ]);
+    });
+  });
+
+  describe('getWorkflowImpact', () => {
+    it('should compute transitive dependents and dependencies with depth', () => {
+      const graph = buildDependencyGraph(workflows);
+
+      const impact = getWorkflowImpact(graph, 'geo')!;
+
+      expect(impact.callers).toEqual([{ id: 'enrich', name: 'Enrich Customer' }]);
+      expect(impact.dependents).toEqual([
+        { id: 'enrich', name: 'Enrich Customer', depth: 1 },
+        { id: 'orders', name: 'Orders', depth: 2 },
+        { id: 'agent', name: 'Support Agent', depth: 2 }
+      ]);
+      expect(impact.dependencies).toEqual([{ id: 'deleted', name: '(missing deleted)', depth: 1 }]);
+    });
+
+    it('should handle cycles and unknown workflows', () => {
+      const graph = buildDependencyGraph([
+        workflow('a', 'A', [trigger, node('Call B', 'n8n-nodes-base.executeWorkflow', { workflowId: 'b' })]),
+        workflow('b', 'B', [trigger, node('Call A', 'n8n-nodes-base.executeWorkflow', { workflowId: 'a' })])
+      ]);
+
+      expect(getWorkflowImpact(graph, 'a')!.dependents).toEqual([{ id: 'b', name: 'B', depth: 1 }]);
+      expect(getWorkflowImpact(graph, 'nope')).toBeNull();
+    });
+  });
+
+  describe('toMermaid', () => {
+    it('should render nodes, edge kinds and classes', () => {
+      const mermaid = toMermaid(buildDependencyGraph(workflows));
+
+      expect(mermaid.split('\n')[0]).toBe('flowchart LR');
+      expect(mermaid).toContain('["Orders (orders)"]:::active');
+      expect(mermaid).toContain('["Unused Helper (unused)"]:::orphan');
+      expect(mermaid).toContain(':::missing');
+      expect(mermaid).toMatch(/w\d+ -->\|"Enrich"\| w\d+/);
+      expect(mermaid).toMatch(/w\d+ -\.->\|"tool: Lookup Tool"\| w\d+/);
+      expect(mermaid).toMatch(/w\d+ -\.->\|on error\| w\d+/);
+    });
+
+    it('should limit the chart to the given workflows and escape labels', () => {
+      const graph = buildDependencyGraph([workflow('x', 'Say "hi" | bye', [])]);
+
+      expect(toMermaid(graph, ['x'])).toContain('["Say #quot;hi#quot; #124; bye (x)"]');
+      expect(toMermaid(buildDependencyGraph(workflows), ['geo'])).not.toContain('Orders');
+    });
+  });
+
+  describe('fetchAllWorkflows', () => {
+    it('should follow cursors and fetch workflows listed without nodes', async () => {
+      const client = {
+        listWorkflows: vi.fn()
+          .mockResolvedValueOnce({ data: [workflows[0]], nextCursor: 'next' })
+          .mockResolvedValueOnce({ data: [{ id: 'geo', name: 'Geo Lookup' }], nextCursor: null }),
+        getWorkflow: vi.fn().mockResolvedValue(workflows[3])
+      };
+
+      const result = await fetchAllWorkflows(client as any);
+
+      expect(result.map(w => w.id)).toEqual(['orders', 'geo']);
+      expect(client.listWorkflows).toHaveBeenLastCalledWith({ limit: 100, cursor: 'next', excludePinnedData: true });
+      expect(client.getWorkflow).toHaveBeenCalledWith('geo');
+      expect(result[1].nodes).toHaveLength(2);
+    });
+
+    it('should refuse to fetch more workflows one by one than allowed', async () => {
+      const client = {
+        listWorkflows: vi.fn().mockResolvedValue({ data: [{ id: 'a', name: 'A' }, { id: 'b', name: 'B' }], nextCursor: null }),
+        getWorkflow: vi.fn()
+      };
+
+      await expect(fetchAllWorkflows(client as any, {}, { maxDetailFetches: 1 }))
+        .rejects.toThrow('2 workflows were listed without their nodes');
+      expect(client.getWorkflow).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('isCallableWorkflow', () => {
+    it('should need a trigger other workflows can start', () => {
+      expect(isCallableWorkflow(workflows[2])).toBe(true);
+      expect(isCallableWorkflow(workflow('alerts', 'Alerts', [node('On Error', 'n8n-nodes-base.errorTrigger')]))).toBe(true);
+      expect(isCallableWorkflow(workflows[0])).toBe(false);
+      expect(isCallableWorkflow(workflow('off', 'Off', [{ ...trigger, disabled: true }]))).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,175 @@
+import { describe, it, expect } from 'vitest';
+import { mergeWorkflows, isStaleRevision, hasExpectedRevision } from '@/services/workflow-merge';
+
+describe('workflow-merge', () => {
+  const createWorkflow = (): any => ({
+    name: 'Orders',
+    nodes: [
+      { id: 'a', name: 'Webhook', type: 'n8n-nodes-base.webhook', typeVersion: 2, position: [0, 0], parameters: { path: 'orders' } },
+      { id: 'b', name: 'HTTP', type: 'n8n-nodes-base.httpRequest', typeVersion: 4, position: [200, 0], parameters: { url: 'https://a.example.com', options: {} } },
+      { id: 'c', name: 'Set', type: 'n8n-nodes-base.set', typeVersion: 3, position: [400, 0], parameters: {} }
+    ],
+    connections: {
+      Webhook: { main: [[{ node: 'HTTP', type: 'main', index: 0 }]] },
+      HTTP: { main: [[{ node: 'Set', type: 'main', index: 0 }]] }
+    },
+    settings: { executionOrder: 'v1' }
+  });
+
+  const clone = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+  const findNode = (workflow: any, id: string) => workflow.nodes.find((n: any) => n.id === id);
+
+  describe('revision checks', () => {
+    it('should detect stale revisions by versionId or updatedAt', () => {
+      expect(isStaleRevision({ versionId: 'v2' }, { versionId: 'v1' })).toBe(true);
+      expect(isStaleRevision({ versionId: 'v1' }, { versionId: 'v1' })).toBe(false);
+      expect(isStaleRevision({ updatedAt: '2025-01-02' }, { updatedAt: '2025-01-01' })).toBe(true);
+      expect(isStaleRevision({ versionId: 'v1' }, {})).toBe(false);
+    });
+
+    it('should require at least one revision field', () => {
+      expect(hasExpectedRevision({})).toBe(false);
+      expect(hasExpectedRevision({ updatedAt: '2025-01-01' })).toBe(true);
+    });
+  });
+
+  describe('mergeWorkflows', () => {
+    it('should combine parameter changes to different paths of the same node', () => {
+      const base = createWorkflow();
+      const ours = clone(base);
+      findNode(ours, 'b').parameters.url = 'https://b.example.com';
+      const theirs = clone(base);
+      findNode(theirs, 'b').parameters.options = { timeout: 5000 };
+      findNode(theirs, 'b').position = [250, 0];
+
+      const result = mergeWorkflows(base, ours, theirs);
+
+      expect(result.hasConflicts).toBe(false);
+      expect(findNode(result.merged, 'b')).toEqual(expect.objectContaining({
+        position: [250, 0],
+        parameters: { url: 'https://b.example.com', options: { timeout: 5000 } }
+      }));
+    });
+
+    it('should report parameter-level conflicts with base, ours and theirs', () => {
+      const base = createWorkflow();
+      const ours = clone(base);
+      findNode(ours, 'b').parameters.url = 'https://ours.example.com';
+      const theirs = clone(base);
+      findNode(theirs, 'b').parameters.url = 'https://theirs.example.com';
+
+      const result = mergeWorkflows(base, ours, theirs);
+
+      expect(result.conflicts).toEqual([{
+        scope: 'parameter',
+        type: 'both_modified',
+        node: { id: 'b', name: 'HTTP' },
+        path: 'parameters.url',
+        base: 'https://a.example.com',
+        ours: 'https://ours.example.com',
+        theirs: 'https://theirs.example.com',
+        message: expect.any(String)
+      }]);
+    });
+
+    it('should keep nodes added on either side together with their connections', () => {
+      const base = createWorkflow();
+      const ours = clone(base);
+      ours.nodes.push({ id: 'd', name: 'Slack', type: 'n8n-nodes-base.slack', typeVersion: 2, position: [600, 0], parameters: {} });
+      ours.connections.Set = { main: [[{ node: 'Slack', type: 'main', index: 0 }]] };
+      const theirs = clone(base);
+      theirs.nodes.push({ id: 'e', name: 'Email', type: 'n8n-nodes-base.emailSend', typeVersion: 2, position: [600, 200], parameters: {} });
+      theirs.connections.HTTP.main[0].push({ node: 'Email', type: 'main', index: 0 });
+
+      const result = mergeWorkflows(base, ours, theirs);
+
+      expect(result.hasConflicts).toBe(false);
+      expect(result.merged.nodes.map(n => n.id)).toEqual(['a', 'b', 'c', 'e', 'd']);
+      expect(result.merged.connections).toEqual({
+        Webhook: { main: [[{ node: 'HTTP', type: 'main', index: 0 }]] },
+        HTTP: { main: [[{ node: 'Set', type: 'main', index: 0 }, { node: 'Email', type: 'main', index: 0 }]] },
+        Set: { main: [[{ node: 'Slack', type: 'main', index: 0 }]] }
+      });
+    });
+
+    it('should follow a rename on one side in connections added on the other', () => {
+      const base = createWorkflow();
+      const ours = clone(base);
+      ours.nodes.push({ id: 'd', name: 'Slack', type: 'n8n-nodes-base.slack', typeVersion: 2, position: [600, 0], parameters: {} });
+      ours.connections.Set = { main: [[{ node: 'Slack', type: 'main', index: 0 }]] };
+      const theirs = clone(base);
+      findNode(theirs, 'c').name = 'Format';
+      theirs.connections.HTTP.main[0][0].node = 'Format';
+
+      const result = mergeWorkflows(base, ours, theirs);
+
+      expect(result.hasConflicts).toBe(false);
+      expect(result.merged.connections.HTTP.main[0]).toEqual([{ node: 'Format', type: 'main', index: 0 }]);
+      expect(result.merged.connections.Format).toEqual({ main: [[{ node: 'Slack', type: 'main', index: 0 }]] });
+      expect(result.merged.connections.Set).toBeUndefined();
+    });
+
+    it('should report nodes modified on one side and deleted on the other', () => {
+      const base = createWorkflow();
+      const ours = clone(base);
+      findNode(ours, 'c').parameters = { mode: 'raw' };
+      const theirs = clone(base);
+      theirs.nodes = theirs.nodes.filter((n: any) => n.id !== 'c');
+      delete theirs.connections.HTTP;
+
+      const result = mergeWorkflows(base, ours, theirs);
+
+      expect(result.conflicts).toEqual([
+        expect.objectContaining({ scope: 'node', type: 'modified_deleted', node: { id: 'c', name: 'Set' } })
+      ]);
+    });
+
+    it('should drop a node deleted on one side and untouched on the other', () => {
+      const base = createWorkflow();
+      const ours = clone(base);
+      ours.nodes = ours.nodes.filter((n: any) => n.id !== 'c');
+      delete ours.connections.HTTP;
+      const theirs = clone(base);
+      theirs.settings.timezone = 'UTC';
+
+      const result = mergeWorkflows(base, ours, theirs);
+
+      expect(result.hasConflicts).toBe(false);
+      expect(result.merged.nodes.map(n => n.id)).toEqual(['a', 'b']);
+      expect(result.merged.connections).toEqual({ Webhook: base.connections.Webhook });
+      expect(result.merged.settings).toEqual({ executionOrder: 'v1', timezone: 'UTC' });
+    });
+
+    it('should report conflicting renames and name collisions', () => {
+      const base = { ...createWorkflow(), connections: {} };
+      const ours = clone(base);
+      findNode(ours, 'b').name = 'Fetch';
+      findNode(ours, 'c').name = 'Output';
+      const theirs = clone(base);
+      findNode(theirs, 'b').name = 'Get';
+      theirs.nodes.push({ id: 'x', name: 'Output', type: 'n8n-nodes-base.noOp', typeVersion: 1, position: [0, 200], parameters: {} });
+
+      const result = mergeWorkflows(base, ours, theirs);
+
+      expect(result.conflicts.map(c => c.type).sort()).toEqual(['both_modified', 'name_collision']);
+      expect(result.conflicts.find(c => c.type === 'both_modified')).toEqual(
+        expect.objectContaining({ scope: 'node', path: 'name', ours: 'Fetch', theirs: 'Get' })
+      );
+    });
+
+    it('should report new connections to nodes deleted on the other side', () => {
+      const base = createWorkflow();
+      const ours = clone(base);
+      ours.connections.Webhook.main[0].push({ node: 'Set', type: 'main', index: 0 });
+      const theirs = clone(base);
+      theirs.nodes = theirs.nodes.filter((n: any) => n.id !== 'c');
+      delete theirs.connections.HTTP;
+
+      const result = mergeWorkflows(base, ours, theirs);
+
+      expect(result.conflicts).toEqual([
+        expect.objectContaining({ scope: 'connection', type: 'dangling_connection' })
+      ]);
+    });
+  });
+});
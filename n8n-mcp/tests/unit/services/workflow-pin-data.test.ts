@@ -0,0 +1,137 @@
+import { describe, it, expect } from 'vitest';
+import {
+  checkPinTarget,
+  findUnsavedPinData,
+  normalizePinItems,
+  pinItemsFromExecution,
+  samplePinItems,
+  summarizePinData
+} from '@/services/workflow-pin-data';
+
+function node(name: string, type: string, parameters: Record<string, unknown> = {}, typeVersion = 1) {
+  return { id: name, name, type, typeVersion, position: [0, 0], parameters } as any;
+}
+
+const workflow = {
+  nodes: [
+    node('Webhook', 'n8n-nodes-base.webhook'),
+    node('Enrich', 'n8n-nodes-base.set', {
+      assignments: { assignments: [{ name: 'customer.tier', value: 'gold', type: 'string' }, { name: 'score', value: 3, type: 'number' }] }
+    }, 3.4),
+    node('API', 'n8n-nodes-base.httpRequest'),
+    node('Note', 'n8n-nodes-base.stickyNote')
+  ],
+  connections: {
+    Webhook: { main: [[{ node: 'Enrich', type: 'main', index: 0 }]] },
+    Enrich: { main: [[{ node: 'API', type: 'main', index: 0 }]] }
+  },
+  pinData: {
+    API: [{ json: { ok: true } }],
+    Removed: [{ json: {} }, { json: {} }]
+  }
+} as any;
+
+describe('workflow-pin-data', () => {
+  describe('normalizePinItems', () => {
+    it('should wrap plain objects and keep n8n items', () => {
+      const result = normalizePinItems([{ id: 1 }, { json: { id: 2 }, pairedItem: { item: 0 } }]);
+
+      expect(result.errors).toEqual([]);
+      expect(result.items).toEqual([{ json: { id: 1 } }, { json: { id: 2 } }]);
+    });
+
+    it('should treat a single object as one item', () => {
+      expect(normalizePinItems({ id: 1 }).items).toEqual([{ json: { id: 1 } }]);
+    });
+
+    it('should reject items outside the n8n item format', () => {
+      const result = normalizePinItems([1, [{ id: 1 }], { json: 'text' }, { json: { id: 1 }, id: 1 }]);
+
+      expect(result.errors).toEqual([
+        'items[0] must be an object, got number',
+        'items[1] must be an object, got array',
+        'items[2].json must be an object, got string',
+        'items[3] mixes n8n item keys with data fields (id) - put the data inside json'
+      ]);
+      expect(normalizePinItems('text').errors).toEqual(['Pinned data must be an array of items, got string']);
+    });
+
+    it('should drop binary data with a warning', () => {
+      const result = normalizePinItems([{ json: { id: 1 }, binary: { data: { mimeType: 'image/png' } } }]);
+
+      expect(result.items).toEqual([{ json: { id: 1 } }]);
+      expect(result.warnings[0]).toContain('Binary data of 1 item(s) was dropped');
+    });
+  });
+
+  describe('pinItemsFromExecution', () => {
+    const execution = {
+      id: 'exec-1',
+      data: {
+        resultData: {
+          runData: {
+            API: [
+              { data: { main: [[{ json: { page: 1 } }]] } },
+              { data: { main: [[{ json: { page: 2 } }], [{ json: { failed: true } }]] } }
+            ],
+            Broken: [{ error: { message: 'boom' } }]
+          }
+        }
+      }
+    } as any;
+
+    it('should copy the last run by default', () => {
+      expect(pinItemsFromExecution(execution, 'API').items).toEqual([{ json: { page: 2 } }]);
+      expect(pinItemsFromExecution(execution, 'API', 0).items).toEqual([{ json: { page: 1 } }]);
+      expect(pinItemsFromExecution(execution, 'API', 1, 1).items).toEqual([{ json: { failed: true } }]);
+    });
+
+    it('should explain why nothing can be copied', () => {
+      expect(() => pinItemsFromExecution(execution, 'Webhook')).toThrow('Node "Webhook" has no run data in execution exec-1');
+      expect(() => pinItemsFromExecution(execution, 'Broken')).toThrow('failed in execution exec-1');
+      expect(() => pinItemsFromExecution(execution, 'API', 5)).toThrow('runIndex 5 does not exist');
+    });
+  });
+
+  describe('samplePinItems', () => {
+    it('should synthesize items from the inferred output shape', () => {
+      const result = samplePinItems(workflow, 'Enrich', 2);
+
+      expect(result.items).toHaveLength(2);
+      expect(result.items[0].json).toEqual({ customer: { tier: '' }, score: 0 });
+      expect(samplePinItems(workflow, 'Webhook').items[0].json).toMatchObject({ headers: {}, body: null, webhookUrl: '' });
+      expect(result.warnings[0]).toContain('replace the placeholder values');
+    });
+
+    it('should not sample a node from its own pinned data', () => {
+      expect(() => samplePinItems(workflow, 'API')).toThrow('The output shape of node "API" is unknown');
+    });
+  });
+
+  describe('checkPinTarget', () => {
+    it('should only allow executable nodes of the workflow', () => {
+      expect(checkPinTarget(workflow, 'API')).toBeUndefined();
+      expect(checkPinTarget(workflow, 'Nope')).toBe('Node "Nope" not found in workflow');
+      expect(checkPinTarget(workflow, 'Note')).toContain('cannot have pinned data');
+    });
+  });
+
+  describe('summarizePinData', () => {
+    it('should list pinned nodes and flag pins of removed nodes', () => {
+      expect(summarizePinData(workflow)).toEqual([
+        { nodeName: 'API', itemCount: 1, fields: ['ok'], inWorkflow: true },
+        { nodeName: 'Removed', itemCount: 2, fields: [], inWorkflow: false }
+      ]);
+    });
+  });
+
+  describe('findUnsavedPinData', () => {
+    it('should list nodes whose pinned data the saved workflow does not match', () => {
+      const sent = { API: [{ json: {} }], Webhook: [{ json: {} }, { json: {} }] };
+      expect(findUnsavedPinData(sent, sent)).toEqual([]);
+      expect(findUnsavedPinData(sent, undefined)).toEqual(['API', 'Webhook']);
+      expect(findUnsavedPinData(sent, { Webhook: [{ json: {} }], Old: [] })).toEqual(['API', 'Old', 'Webhook']);
+      expect(findUnsavedPinData({}, undefined)).toEqual([]);
+    });
+  });
+});
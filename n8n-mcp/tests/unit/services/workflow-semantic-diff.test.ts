@@ -0,0 +1,274 @@
+import { describe, it, expect } from 'vitest';
+import {
+  diffValues,
+  diffWorkflows,
+  renderDiffMarkdown,
+  createJsonPatch,
+  applyJsonPatch,
+  toDiffOperations
+} from '@/services/workflow-semantic-diff';
+import { WorkflowDiffEngine } from '@/services/workflow-diff-engine';
+
+describe('workflow-semantic-diff', () => {
+  const createWorkflow = (): any => ({
+    id: 'wf-1',
+    name: 'Orders',
+    nodes: [
+      {
+        id: 'webhook-1',
+        name: 'Webhook',
+        type: 'n8n-nodes-base.webhook',
+        typeVersion: 2,
+        position: [0, 0] as [number, number],
+        parameters: { path: 'orders', httpMethod: 'POST' }
+      },
+      {
+        id: 'http-1',
+        name: 'Fetch Customer',
+        type: 'n8n-nodes-base.httpRequest',
+        typeVersion: 4.2,
+        position: [200, 0] as [number, number],
+        parameters: { url: 'https://api.example.com/customers', options: { timeout: 10000 } }
+      },
+      {
+        id: 'set-1',
+        name: 'Format',
+        type: 'n8n-nodes-base.set',
+        typeVersion: 3.4,
+        position: [400, 0] as [number, number],
+        parameters: {}
+      }
+    ],
+    connections: {
+      Webhook: { main: [[{ node: 'Fetch Customer', type: 'main', index: 0 }]] },
+      'Fetch Customer': { main: [[{ node: 'Format', type: 'main', index: 0 }]] }
+    },
+    settings: { executionOrder: 'v1' }
+  });
+
+  const clone = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+  describe('diffValues', () => {
+    it('should report nested changes with dot-notation paths', () => {
+      const changes = diffValues(
+        { url: 'a', options: { timeout: 1, retry: true } },
+        { url: 'b', options: { timeout: 1 }, method: 'GET' }
+      );
+
+      expect(changes).toEqual(expect.arrayContaining([
+        { path: 'url', kind: 'changed', before: 'a', after: 'b' },
+        { path: 'options.retry', kind: 'removed', before: true },
+        { path: 'method', kind: 'added', after: 'GET' }
+      ]));
+      expect(changes).toHaveLength(3);
+    });
+
+    it('should treat arrays as atomic values', () => {
+      const changes = diffValues({ list: [1, 2] }, { list: [1, 3] });
+      expect(changes).toEqual([{ path: 'list', kind: 'changed', before: [1, 2], after: [1, 3] }]);
+    });
+  });
+
+  describe('diffWorkflows', () => {
+    it('should report no changes for identical workflows', () => {
+      const diff = diffWorkflows(createWorkflow(), createWorkflow());
+      expect(diff.hasChanges).toBe(false);
+      expect(diff.summary.modifiedNodes).toBe(0);
+    });
+
+    it('should detect added, removed and modified nodes', () => {
+      const before = createWorkflow();
+      const after = clone(before);
+      after.nodes = after.nodes.filter((n: any) => n.id !== 'set-1');
+      after.nodes[1].parameters.url = 'https://api.example.com/v2/customers';
+      after.nodes.push({
+        id: 'slack-1',
+        name: 'Notify',
+        type: 'n8n-nodes-base.slack',
+        typeVersion: 2.2,
+        position: [400, 200],
+        parameters: {}
+      });
+
+      const diff = diffWorkflows(before, after);
+
+      expect(diff.addedNodes).toEqual([{ id: 'slack-1', name: 'Notify', type: 'n8n-nodes-base.slack' }]);
+      expect(diff.removedNodes).toEqual([{ id: 'set-1', name: 'Format', type: 'n8n-nodes-base.set' }]);
+      expect(diff.modifiedNodes).toHaveLength(1);
+      expect(diff.modifiedNodes[0].changes).toEqual([
+        {
+          path: 'parameters.url',
+          kind: 'changed',
+          before: 'https://api.example.com/customers',
+          after: 'https://api.example.com/v2/customers'
+        }
+      ]);
+    });
+
+    it('should detect renamed nodes by id without reporting connection churn', () => {
+      const before = createWorkflow();
+      const after = clone(before);
+      after.nodes[1].name = 'Get Customer';
+      after.connections = {
+        Webhook: { main: [[{ node: 'Get Customer', type: 'main', index: 0 }]] },
+        'Get Customer': { main: [[{ node: 'Format', type: 'main', index: 0 }]] }
+      };
+
+      const diff = diffWorkflows(before, after);
+
+      expect(diff.renamedNodes).toEqual([{ id: 'http-1', from: 'Fetch Customer', to: 'Get Customer' }]);
+      expect(diff.addedConnections).toEqual([]);
+      expect(diff.removedConnections).toEqual([]);
+    });
+
+    it('should detect connection, settings and name changes', () => {
+      const before = createWorkflow();
+      const after = clone(before);
+      after.name = 'Orders v2';
+      after.connections = {
+        Webhook: { main: [[{ node: 'Fetch Customer', type: 'main', index: 0 }, { node: 'Format', type: 'main', index: 0 }]] }
+      };
+      after.settings = { executionOrder: 'v1', timezone: 'Europe/Berlin' };
+
+      const diff = diffWorkflows(before, after);
+
+      expect(diff.nameChange).toEqual({ before: 'Orders', after: 'Orders v2' });
+      expect(diff.addedConnections).toEqual([
+        expect.objectContaining({ source: 'Webhook', target: 'Format', sourceOutput: 'main' })
+      ]);
+      expect(diff.removedConnections).toEqual([
+        expect.objectContaining({ source: 'Fetch Customer', target: 'Format' })
+      ]);
+      expect(diff.settingsChanges).toEqual([{ path: 'timezone', kind: 'added', after: 'Europe/Berlin' }]);
+    });
+  });
+
+  describe('renderDiffMarkdown', () => {
+    it('should render sections for each kind of change', () => {
+      const before = createWorkflow();
+      const after = clone(before);
+      after.nodes[1].name = 'Get Customer';
+      after.nodes[1].parameters.options.timeout = 30000;
+      after.connections = {
+        Webhook: { main: [[{ node: 'Get Customer', type: 'main', index: 0 }]] }
+      };
+
+      const markdown = renderDiffMarkdown(diffWorkflows(before, after), { before: 'v1', after: 'live' });
+
+      expect(markdown).toContain('v1');
+      expect(markdown).toContain('live');
+      expect(markdown).toContain('Fetch Customer');
+      expect(markdown).toContain('Get Customer');
+      expect(markdown).toContain('parameters.options.timeout');
+    });
+
+    it('should say when there are no changes', () => {
+      const markdown = renderDiffMarkdown(diffWorkflows(createWorkflow(), createWorkflow()));
+      expect(markdown.toLowerCase()).toContain('no changes');
+    });
+  });
+
+  describe('JSON Patch', () => {
+    it('should produce a patch that transforms before into after', () => {
+      const before = createWorkflow();
+      const after = clone(before);
+      after.nodes.splice(0, 1);
+      after.nodes[0].parameters.options = {};
+      after.settings = {};
+      after.connections['Fetch Customer'].main[0].push({ node: 'Webhook', type: 'main', index: 0 });
+
+      const patch = createJsonPatch(before, after);
+
+      expect(patch.length).toBeGreaterThan(0);
+      expect(applyJsonPatch(before, patch)).toEqual(after);
+      // Source document is not mutated
+      expect(before).toEqual(createWorkflow());
+    });
+
+    it('should escape keys per RFC 6901', () => {
+      const patch = createJsonPatch({ 'a/b': 1, 'c~d': 1 }, { 'a/b': 2, 'c~d': 2 });
+      expect(patch.map(op => op.path).sort()).toEqual(['/a~1b', '/c~0d']);
+    });
+
+    it('should return an empty patch for equal documents', () => {
+      expect(createJsonPatch(createWorkflow(), createWorkflow())).toEqual([]);
+    });
+  });
+
+  describe('toDiffOperations', () => {
+    const replay = async (before: any, after: any) => {
+      const operations = toDiffOperations(diffWorkflows(before, after), after);
+      const engine = new WorkflowDiffEngine();
+      const result = await engine.applyDiff(clone(before), { id: before.id, operations });
+      expect(result.errors).toBeUndefined();
+      expect(result.success).toBe(true);
+      return { operations, workflow: result.workflow };
+    };
+
+    it('should replay node, connection and settings changes', async () => {
+      const before = createWorkflow();
+      const after = clone(before);
+      after.nodes = after.nodes.filter((n: any) => n.id !== 'set-1');
+      after.nodes[1].parameters.url = 'https://api.example.com/v2/customers';
+      delete after.nodes[1].parameters.options.timeout;
+      after.nodes[0].position = [0, 100];
+      after.nodes.push({
+        id: 'slack-1',
+        name: 'Notify',
+        type: 'n8n-nodes-base.slack',
+        typeVersion: 2.2,
+        position: [400, 200],
+        parameters: {}
+      });
+      after.connections = {
+        Webhook: { main: [[{ node: 'Fetch Customer', type: 'main', index: 0 }]] },
+        'Fetch Customer': { main: [[{ node: 'Notify', type: 'main', index: 0 }]] }
+      };
+      after.settings = { executionOrder: 'v1', timezone: 'UTC' };
+
+      const { workflow } = await replay(before, after);
+
+      expect(diffWorkflows(workflow, after).hasChanges).toBe(false);
+    });
+
+    it('should replace the settings when keys are removed', async () => {
+      const before = createWorkflow();
+      before.settings = { executionOrder: 'v1', timezone: 'UTC', saveManualExecutions: true };
+      const after = clone(before);
+      delete after.settings.timezone;
+      after.settings.saveManualExecutions = false;
+
+      const { operations, workflow } = await replay(before, after);
+
+      expect(operations).toEqual([
+        { type: 'updateSettings', settings: { executionOrder: 'v1', saveManualExecutions: false }, replace: true }
+      ]);
+      expect(workflow.settings).toEqual(after.settings);
+    });
+
+    it('should express renames as updateNode name changes', async () => {
+      const before = createWorkflow();
+      const after = clone(before);
+      after.nodes[2].name = 'Format Output';
+      after.connections['Fetch Customer'].main[0][0].node = 'Format Output';
+
+      const { operations, workflow } = await replay(before, after);
+
+      expect(operations).toEqual([
+        { type: 'updateNode', nodeId: 'set-1', updates: { name: 'Format Output' } }
+      ]);
+      expect(diffWorkflows(workflow, after).hasChanges).toBe(false);
+    });
+
+    it('should fall back to replaceConnections when a removed link shares a source and target with a kept one', () => {
+      const before = createWorkflow();
+      before.connections.Webhook.main[0].push({ node: 'Fetch Customer', type: 'main', index: 1 });
+      const after = clone(before);
+      after.connections.Webhook.main[0].pop();
+
+      const operations = toDiffOperations(diffWorkflows(before, after), after);
+
+      expect(operations).toEqual([{ type: 'replaceConnections', connections: after.connections }]);
+    });
+  });
+});
@@ -0,0 +1,328 @@
+import { describe, it, expect } from 'vitest';
+import { simulateWorkflow } from '@/services/workflow-simulator';
+
+describe('workflow-simulator', () => {
+  const node = (name: string, type: string, parameters: any = {}, extra: any = {}) => ({
+    id: name.toLowerCase(),
+    name,
+    type: `n8n-nodes-base.${type}`,
+    typeVersion: 1,
+    position: [0, 0] as [number, number],
+    parameters,
+    ...extra
+  });
+
+  const connect = (...links: Array<[string, string, number?, number?]>) => {
+    const connections: Record<string, { main: any[][] }> = {};
+    for (const [from, to, output = 0, input = 0] of links) {
+      connections[from] ??= { main: [] };
+      while (connections[from].main.length <= output) connections[from].main.push([]);
+      connections[from].main[output].push({ node: to, type: 'main', index: input });
+    }
+    return connections;
+  };
+
+  const condition = (leftValue: string, operation: string, rightValue: unknown, type = 'number') => ({
+    leftValue,
+    rightValue,
+    operator: { type, operation }
+  });
+
+  const outputOf = (result: any, name: string, output = 0, run = -1) => {
+    const runs = result.nodes[name].runs;
+    return runs[run < 0 ? runs.length + run : run].outputs[output];
+  };
+
+  describe('routing', () => {
+    it('should route items through IF and Switch and report the branches taken', () => {
+      const workflow = {
+        nodes: [
+          node('Start', 'manualTrigger'),
+          node('Is Big', 'if', {
+            conditions: { options: { caseSensitive: true }, conditions: [condition('={{ $json.amount }}', 'gt', 100)], combinator: 'and' }
+          }, { typeVersion: 2 }),
+          node('Route', 'switch', {
+            rules: {
+              values: [
+                { conditions: { conditions: [condition('={{ $json.region }}', 'equals', 'eu', 'string')] }, renameOutput: true, outputKey: 'EU' },
+                { conditions: { conditions: [condition('={{ $json.region }}', 'equals', 'us', 'string')] } }
+              ]
+            },
+            options: { fallbackOutput: 'extra' }
+          }, { typeVersion: 3 }),
+          node('Small', 'noOp')
+        ],
+        connections: connect(['Start', 'Is Big'], ['Is Big', 'Route', 0], ['Is Big', 'Small', 1])
+      };
+
+      const result = simulateWorkflow(workflow, {
+        inputItems: [
+          { amount: 500, region: 'eu' },
+          { amount: 5, region: 'eu' },
+          { json: { amount: 200, region: 'apac' } }
+        ]
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.startNode).toBe('Start');
+      expect(outputOf(result, 'Is Big', 0)).toHaveLength(2);
+      expect(outputOf(result, 'Small')).toEqual([{ amount: 5, region: 'eu' }]);
+      expect(outputOf(result, 'Route', 0)).toEqual([{ amount: 500, region: 'eu' }]);
+      expect(outputOf(result, 'Route', 1)).toEqual([]);
+      expect(outputOf(result, 'Route', 2)).toEqual([{ amount: 200, region: 'apac' }]);
+      expect(result.branches).toEqual([
+        { node: 'Is Big', run: 0, output: 0, label: 'true', itemCount: 2 },
+        { node: 'Is Big', run: 0, output: 1, label: 'false', itemCount: 1 },
+        { node: 'Route', run: 0, output: 0, label: 'EU', itemCount: 1 },
+        { node: 'Route', run: 0, output: 2, label: 'fallback', itemCount: 1 }
+      ]);
+      expect(result.executionOrder).toEqual(['Start', 'Is Big', 'Route', 'Small']);
+      expect(result.notExecuted).toEqual([]);
+    });
+
+    it('should fail on strict type mismatches unless loose type validation is enabled', () => {
+      const workflow = (loose: boolean) => ({
+        nodes: [
+          node('Start', 'manualTrigger'),
+          node('Check', 'filter', {
+            conditions: { conditions: [condition('={{ $json.amount }}', 'gt', 10)] },
+            looseTypeValidation: loose
+          }, { typeVersion: 2 })
+        ],
+        connections: connect(['Start', 'Check'])
+      });
+
+      const strict = simulateWorkflow(workflow(false), { inputItems: [{ amount: '50' }] });
+      expect(strict.success).toBe(false);
+      expect(strict.error).toEqual({ node: 'Check', message: "Wrong type: '50' is a string but was expecting a number (condition 1)" });
+
+      const loose = simulateWorkflow(workflow(true), { inputItems: [{ amount: '50' }, { amount: 2 }] });
+      expect(outputOf(loose, 'Check')).toEqual([{ amount: '50' }]);
+    });
+
+    it('should evaluate IF v1 conditions', () => {
+      const workflow = {
+        nodes: [
+          node('Start', 'manualTrigger'),
+          node('Check', 'if', {
+            conditions: { string: [{ value1: '={{ $json.name }}', operation: 'startsWith', value2: 'A' }] }
+          })
+        ],
+        connections: connect(['Start', 'Check'])
+      };
+
+      const result = simulateWorkflow(workflow, { inputItems: [{ name: 'Ada' }, { name: 'Bob' }] });
+
+      expect(outputOf(result, 'Check', 0)).toEqual([{ name: 'Ada' }]);
+      expect(outputOf(result, 'Check', 1)).toEqual([{ name: 'Bob' }]);
+    });
+  });
+
+  describe('transformations', () => {
+    it('should set fields, merge by field and resolve $() paired items', () => {
+      const workflow = {
+        nodes: [
+          node('Start', 'manualTrigger'),
+          node('Customers', 'httpRequest'),
+          node('Label', 'set', {
+            assignments: {
+              assignments: [
+                { name: 'label', value: '=Order {{ $json.id }} for {{ $("Start").item.json.customer }}', type: 'string' },
+                { name: 'meta.total', value: '={{ $json.qty * 2 }}', type: 'number' }
+              ]
+            },
+            includeOtherFields: true
+          }, { typeVersion: 3.4 }),
+          node('Join', 'merge', {
+            mode: 'combine',
+            combineBy: 'combineByFields',
+            fieldsToMatchString: 'customer'
+          }, { typeVersion: 3 })
+        ],
+        connections: connect(['Start', 'Label'], ['Start', 'Customers'], ['Label', 'Join', 0, 0], ['Customers', 'Join', 0, 1])
+      };
+
+      const result = simulateWorkflow(workflow, {
+        inputItems: [{ id: 1, qty: 2, customer: 'c1' }, { id: 2, qty: 3, customer: 'c2' }],
+        fixtures: { Customers: [{ customer: 'c1', email: 'c1@example.com' }] }
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.nodes.Customers.stubbed).toBe('fixture');
+      expect(outputOf(result, 'Label')).toEqual([
+        { id: 1, qty: 2, customer: 'c1', label: 'Order 1 for c1', meta: { total: 4 } },
+        { id: 2, qty: 3, customer: 'c2', label: 'Order 2 for c2', meta: { total: 6 } }
+      ]);
+      expect(outputOf(result, 'Join')).toEqual([
+        { id: 1, qty: 2, customer: 'c1', label: 'Order 1 for c1', meta: { total: 4 }, email: 'c1@example.com' }
+      ]);
+      expect(result.nodes.Join.runs[0].inputItemCounts).toEqual([2, 1]);
+    });
+
+    it('should sort, limit and aggregate items', () => {
+      const workflow = {
+        nodes: [
+          node('Start', 'manualTrigger'),
+          node('Sort', 'sort', { sortFieldsUi: { sortField: [{ fieldName: 'score', order: 'descending' }] } }),
+          node('Top', 'limit', { maxItems: 2 }),
+          node('Collect', 'aggregate', { fieldsToAggregate: { fieldToAggregate: [{ fieldToAggregate: 'name' }] } })
+        ],
+        connections: connect(['Start', 'Sort'], ['Sort', 'Top'], ['Top', 'Collect'])
+      };
+
+      const result = simulateWorkflow(workflow, {
+        inputItems: [{ name: 'a', score: 1 }, { name: 'b', score: 3 }, { name: 'c', score: 2 }]
+      });
+
+      expect(outputOf(result, 'Top').map((item: any) => item.name)).toEqual(['b', 'c']);
+      expect(outputOf(result, 'Collect')).toEqual([{ name: ['b', 'c'] }]);
+    });
+
+    it('should loop with SplitInBatches and emit all processed items on done', () => {
+      const workflow = {
+        nodes: [
+          node('Start', 'manualTrigger'),
+          node('Loop', 'splitInBatches', { batchSize: 2, options: {} }, { typeVersion: 3 }),
+          node('Mark', 'set', {
+            assignments: { assignments: [{ name: 'batch', value: '={{ $runIndex }}', type: 'number' }] },
+            includeOtherFields: true
+          }, { typeVersion: 3.4 }),
+          node('Done', 'noOp')
+        ],
+        connections: connect(['Start', 'Loop'], ['Loop', 'Done', 0], ['Loop', 'Mark', 1], ['Mark', 'Loop'])
+      };
+
+      const result = simulateWorkflow(workflow, { inputItems: [{ n: 1 }, { n: 2 }, { n: 3 }] });
+
+      expect(result.success).toBe(true);
+      expect(result.nodes.Loop.runs).toHaveLength(3);
+      expect(outputOf(result, 'Done')).toEqual([
+        { n: 1, batch: 0 },
+        { n: 2, batch: 0 },
+        { n: 3, batch: 1 }
+      ]);
+      expect(result.branches.map(b => b.label)).toEqual(['loop', 'loop', 'done']);
+    });
+  });
+
+  describe('Code and stubs', () => {
+    it('should run Code nodes in both modes and capture console output', () => {
+      const workflow = {
+        nodes: [
+          node('Start', 'manualTrigger'),
+          node('All', 'code', {
+            jsCode: 'console.log("count", $input.all().length);\nreturn $input.all().map(item => ({ json: { ...item.json, double: item.json.n * 2 } }));'
+          }, { typeVersion: 2 }),
+          node('Each', 'code', {
+            mode: 'runOnceForEachItem',
+            jsCode: 'const value = await Promise.resolve($json.double + 1);\nreturn { json: { value, first: $("Start").item.json.n } };'
+          }, { typeVersion: 2 })
+        ],
+        connections: connect(['Start', 'All'], ['All', 'Each'])
+      };
+
+      const result = simulateWorkflow(workflow, { inputItems: [{ n: 1 }, { n: 2 }] });
+
+      expect(result.success).toBe(true);
+      expect(result.nodes.All.logs).toEqual(['count 2']);
+      expect(outputOf(result, 'Each')).toEqual([{ value: 3, first: 1 }, { value: 5, first: 2 }]);
+      expect(outputOf(result, 'Start')).toEqual([{ n: 1 }, { n: 2 }]);
+    });
+
+    it('should stop runaway Code nodes and report errors without access to the host', () => {
+      const workflow = (jsCode: string) => ({
+        nodes: [node('Start', 'manualTrigger'), node('Code', 'code', { jsCode }, { typeVersion: 2 })],
+        connections: connect(['Start', 'Code'])
+      });
+
+      const loop = simulateWorkflow(workflow('while (true) {}'), { timeoutMs: 50 });
+      expect(loop.success).toBe(false);
+      expect(loop.error?.node).toBe('Code');
+      expect(loop.error?.message).toMatch(/timed out/);
+
+      const host = simulateWorkflow(workflow('return [{ json: { type: typeof process + "/" + typeof require } }];'));
+      expect(outputOf(host, 'Code')).toEqual([{ type: 'undefined/undefined' }]);
+    });
+
+    it('should not hand workflow code any object of the server realm', () => {
+      const escape = "constructor('return typeof process')()";
+      const workflow = {
+        nodes: [
+          node('Start', 'manualTrigger'),
+          node('Set', 'set', {
+            assignments: {
+              assignments: [
+                { name: 'viaJson', value: `={{ $json.constructor.${escape} }}`, type: 'string' },
+                { name: 'viaFunction', value: `={{ $input.all.${escape} }}`, type: 'string' },
+                { name: 'viaGlobal', value: `={{ this.constructor.${escape} }}`, type: 'string' }
+              ]
+            }
+          }, { typeVersion: 3.4 }),
+          node('Code', 'code', {
+            jsCode: `return [{ json: { viaConsole: console.log.${escape}, viaItems: $input.all.${escape}, viaGlobal: globalThis.constructor.${escape} } }];`
+          }, { typeVersion: 2 })
+        ],
+        connections: connect(['Start', 'Set'], ['Set', 'Code'])
+      };
+
+      const result = simulateWorkflow(workflow);
+
+      expect(result.error).toBeUndefined();
+      expect(outputOf(result, 'Set')).toEqual([{ viaJson: 'undefined', viaFunction: 'undefined', viaGlobal: 'undefined' }]);
+      expect(outputOf(result, 'Code')).toEqual([{ viaConsole: 'undefined', viaItems: 'undefined', viaGlobal: 'undefined' }]);
+    });
+
+    it('should include promise callbacks in the timeout', () => {
+      const workflow = {
+        nodes: [
+          node('Start', 'manualTrigger'),
+          node('Set', 'set', {
+            assignments: { assignments: [{ name: 'x', value: '={{ Promise.resolve().then(() => { while (true) {} }) && 1 }}', type: 'number' }] }
+          }, { typeVersion: 3.4 })
+        ],
+        connections: connect(['Start', 'Set'])
+      };
+
+      const result = simulateWorkflow(workflow, { timeoutMs: 50 });
+
+      expect(result.success).toBe(false);
+      expect(result.error?.message).toMatch(/timed out/);
+    });
+
+    it('should stub external nodes, route errors to error outputs and warn', () => {
+      const workflow = {
+        nodes: [
+          node('Start', 'manualTrigger'),
+          node('Slack', 'slack'),
+          node('Fail', 'stopAndError', { errorMessage: '=Bad item {{ $json.id }}' }, { onError: 'continueErrorOutput' }),
+          node('Handle', 'noOp')
+        ],
+        connections: connect(['Start', 'Slack'], ['Slack', 'Fail'], ['Fail', 'Handle', 1])
+      };
+
+      const result = simulateWorkflow(workflow, { inputItems: [{ id: 7 }] });
+
+      expect(result.success).toBe(true);
+      expect(result.nodes.Slack.stubbed).toBe('passthrough');
+      expect(result.warnings[0]).toContain('Node "Slack" (n8n-nodes-base.slack) is not simulated');
+      expect(result.nodes.Fail.error).toBe('Bad item 7');
+      expect(outputOf(result, 'Handle')).toEqual([{ id: 7, error: 'Bad item 7' }]);
+      expect(result.branches).toEqual([{ node: 'Fail', run: 0, output: 1, label: 'error', itemCount: 1 }]);
+    });
+
+    it('should report unknown start nodes and runaway loops', () => {
+      const workflow = {
+        nodes: [node('A', 'noOp'), node('B', 'noOp')],
+        connections: connect(['A', 'B'], ['B', 'A'])
+      };
+
+      expect(simulateWorkflow(workflow, { startNode: 'Missing' }).error).toEqual({
+        node: 'workflow',
+        message: 'Start node "Missing" not found in workflow'
+      });
+      const result = simulateWorkflow(workflow, { startNode: 'A', maxNodeRuns: 10 });
+      expect(result.success).toBe(false);
+      expect(result.error?.message).toContain('Stopped after 10 node runs');
+    });
+  });
+});
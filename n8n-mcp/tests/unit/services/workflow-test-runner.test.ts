@@ -0,0 +1,210 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  findWorkflowTestFiles,
+  parseWorkflowTestSuite,
+  runWorkflowTestFiles,
+  runWorkflowTestSuite,
+  summarizeWorkflowTests,
+  toJUnitXml
+} from '@/services/workflow-test-runner';
+
+describe('workflow-test-runner', () => {
+  const workflow = {
+    name: 'Order Routing',
+    nodes: [
+      { id: '1', name: 'Webhook', type: 'n8n-nodes-base.webhook', typeVersion: 2, position: [0, 0], parameters: {} },
+      { id: '2', name: 'Fetch Customer', type: 'n8n-nodes-base.httpRequest', typeVersion: 4, position: [200, 0], parameters: {} },
+      {
+        id: '3', name: 'Is Big', type: 'n8n-nodes-base.if', typeVersion: 2, position: [400, 0],
+        parameters: {
+          conditions: {
+            options: { caseSensitive: true },
+            conditions: [{ leftValue: '={{ $json.amount }}', rightValue: 100, operator: { type: 'number', operation: 'gt' } }],
+            combinator: 'and'
+          }
+        }
+      },
+      { id: '4', name: 'Priority', type: 'n8n-nodes-base.noOp', typeVersion: 1, position: [600, 0], parameters: {} },
+      { id: '5', name: 'Regular', type: 'n8n-nodes-base.noOp', typeVersion: 1, position: [600, 200], parameters: {} }
+    ],
+    connections: {
+      Webhook: { main: [[{ node: 'Fetch Customer', type: 'main', index: 0 }]] },
+      'Fetch Customer': { main: [[{ node: 'Is Big', type: 'main', index: 0 }]] },
+      'Is Big': { main: [[{ node: 'Priority', type: 'main', index: 0 }], [{ node: 'Regular', type: 'main', index: 0 }]] }
+    }
+  };
+
+  describe('runWorkflowTestSuite', () => {
+    it('should pass when assertions match the simulated items', () => {
+      const result = runWorkflowTestSuite({
+        workflow,
+        tests: [{
+          name: 'big order',
+          mocks: { 'Fetch Customer': [{ amount: 500, tier: 'gold' }] },
+          path: ['Webhook', 'Is Big', 'Priority'],
+          expect: [
+            { node: 'Is Big', branch: 'true', count: 1 },
+            { node: 'Priority', contains: [{ tier: 'gold' }], every: { amount: 500 } },
+            { node: 'Regular', executed: false }
+          ]
+        }]
+      });
+
+      expect(result.name).toBe('Order Routing');
+      expect(result.tests[0].failures).toEqual([]);
+      expect(result.tests[0].passed).toBe(true);
+    });
+
+    it('should report every failed assertion', () => {
+      const result = runWorkflowTestSuite({
+        workflow,
+        tests: [{
+          name: 'wrong expectations',
+          mocks: { 'Fetch Customer': [{ amount: 5 }] },
+          path: ['Webhook', 'Priority'],
+          expect: [
+            { node: 'Priority', executed: true },
+            { node: 'Is Big', branch: 'false', items: [{ amount: 6 }] },
+            { node: 'Is Big', branch: 'maybe', count: 1 },
+            { node: 'Missing', count: 0 }
+          ]
+        }]
+      });
+
+      const failures = result.tests[0].failures;
+      expect(result.tests[0].passed).toBe(false);
+      expect(failures).toHaveLength(5);
+      expect(failures[0]).toContain('Expected path Webhook -> Priority');
+      expect(failures[1]).toBe('Node "Priority" was not executed');
+      expect(failures[2]).toContain('item 0 is {"amount":5}');
+      expect(failures[3]).toContain('has no branch "maybe" - available: true, false');
+      expect(failures[4]).toBe('Node "Missing" does not exist in the workflow');
+    });
+
+    it('should check the expected error of a failing run', () => {
+      const failing = {
+        ...workflow,
+        nodes: [
+          workflow.nodes[0],
+          { id: '9', name: 'Stop', type: 'n8n-nodes-base.stopAndError', typeVersion: 1, position: [200, 0], parameters: { errorMessage: 'Amount must be positive' } }
+        ],
+        connections: { Webhook: { main: [[{ node: 'Stop', type: 'main', index: 0 }]] } }
+      };
+
+      const result = runWorkflowTestSuite({
+        workflow: failing,
+        tests: [
+          { name: 'expected', input: [{ amount: -1 }], error: 'must be positive' },
+          { name: 'unexpected', input: [{ amount: -1 }] }
+        ]
+      });
+
+      expect(result.tests[0].passed).toBe(true);
+      expect(result.tests[1].failures[0]).toBe('Run failed at "Stop": Amount must be positive');
+    });
+
+    it('should require a base directory for workflow references', () => {
+      expect(() => runWorkflowTestSuite({ workflow: './flow.json', tests: [{ name: 't' }] }))
+        .toThrow(/can't be resolved/);
+    });
+  });
+
+  describe('parseWorkflowTestSuite', () => {
+    it('should parse YAML suites', () => {
+      const suite = parseWorkflowTestSuite([
+        'workflow: Order Routing',
+        'tests:',
+        '  - name: small',
+        '    expect:',
+        '      - node: Is Big',
+        '        branch: "false"',
+        '        count: 1'
+      ].join('\n'), 'yaml');
+
+      expect(suite.workflow).toBe('Order Routing');
+      expect(suite.tests[0].expect?.[0]).toEqual({ node: 'Is Big', branch: 'false', count: 1 });
+    });
+
+    it('should reject invalid suites with the offending path', () => {
+      expect(() => parseWorkflowTestSuite('{"workflow": "x", "tests": [{"name": "t", "expect": [{"count": 1}]}]}', 'json'))
+        .toThrow(/Invalid test suite - tests\.0\.expect\.0\.node/);
+      expect(() => parseWorkflowTestSuite('{"workflow": "x", "tests": [], "extra": 1}', 'json'))
+        .toThrow(/Invalid test suite/);
+    });
+  });
+
+  describe('files', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'workflow-tests-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should discover test files and resolve workflows by path and name', () => {
+      fs.writeFileSync(path.join(dir, 'routing.json'), JSON.stringify([workflow, { ...workflow, name: 'Copy' }]));
+      fs.mkdirSync(path.join(dir, 'sub'));
+      fs.writeFileSync(path.join(dir, 'sub', 'single.json'), JSON.stringify(workflow));
+      fs.writeFileSync(path.join(dir, 'by-name.test.yaml'), [
+        'workflow: Order Routing',
+        'tests:',
+        '  - name: routes big orders',
+        '    mocks:',
+        '      Fetch Customer: [{amount: 200}]',
+        '    expect: [{node: Priority, count: 1}]'
+      ].join('\n'));
+      fs.writeFileSync(path.join(dir, 'sub', 'by-path.test.json'), JSON.stringify({
+        workflow: './single.json',
+        tests: [{ name: 'routes small orders', mocks: { 'Fetch Customer': [{ amount: 1 }] }, expect: [{ node: 'Priority', count: 1 }] }]
+      }));
+      fs.writeFileSync(path.join(dir, 'ambiguous.test.json'), JSON.stringify({ workflow: './routing.json', tests: [{ name: 't' }] }));
+
+      expect(findWorkflowTestFiles([dir]).map(f => path.relative(dir, f))).toEqual([
+        'ambiguous.test.json',
+        'by-name.test.yaml',
+        path.join('sub', 'by-path.test.json')
+      ]);
+
+      const report = runWorkflowTestFiles([dir]);
+
+      expect(report).toMatchObject({ total: 2, passed: 1, failed: 1, errors: 1 });
+      expect(report.suites[0].error).toContain('contains 2 workflows');
+      expect(report.suites[1]).toMatchObject({ name: 'by-name', workflowName: 'Order Routing' });
+      expect(report.suites[2].tests[0].failures[0]).toContain('expected 1 item(s), got 0');
+    });
+  });
+
+  describe('toJUnitXml', () => {
+    it('should report failures, load errors and escape text', () => {
+      const suite = runWorkflowTestSuite({
+        name: 'Routing <v2>',
+        workflow,
+        tests: [
+          { name: 'passes', mocks: { 'Fetch Customer': [{ amount: 1 }] }, expect: [{ node: 'Webhook', executed: true }] },
+          { name: 'fails & reports', expect: [{ node: 'Priority', executed: true }] }
+        ]
+      });
+      const report = summarizeWorkflowTests(
+        [suite, { name: 'broken', file: 'broken.test.yaml', durationMs: 0, tests: [], error: 'Invalid test suite - tests: Required' }],
+        12
+      );
+
+      const xml = toJUnitXml(report);
+
+      expect(xml).toContain('<testsuites name="n8n workflow tests" tests="3" failures="1" errors="1" time="0.012">');
+      expect(xml).toContain('<testsuite name="Routing &lt;v2&gt;" tests="2" failures="1" errors="0"');
+      expect(xml).toMatch(/<testcase name="passes" classname="Routing &lt;v2&gt;" time="[\d.]+"\/>/);
+      expect(xml).toContain('<testcase name="fails &amp; reports"');
+      expect(xml).toContain('<failure message="Node &quot;Priority&quot; was not executed" type="AssertionError">');
+      expect(xml).toContain('<system-out>Node &quot;Fetch Customer&quot; (n8n-nodes-base.httpRequest) is not simulated');
+      expect(xml).toContain('file="broken.test.yaml"');
+      expect(xml).toContain('<error message="Invalid test suite - tests: Required" type="SuiteError">');
+    });
+  });
+});
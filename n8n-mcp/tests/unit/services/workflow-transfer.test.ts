@@ -0,0 +1,271 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  exportWorkflow,
+  importWorkflows,
+  parseWorkflowTransfer,
+  WorkflowTransferError,
+  WORKFLOW_BUNDLE_FORMAT
+} from '@/services/workflow-transfer';
+import { parseYaml } from '@/utils/simple-yaml';
+
+vi.mock('@/utils/logger');
+
+/**
+ * In-memory stand-in for the n8n API client
+ */
+function createFakeClient(seed: { workflows?: any[]; credentials?: any[]; tags?: any[] } = {}) {
+  const workflows = new Map<string, any>((seed.workflows ?? []).map(workflow => [workflow.id, workflow]));
+  const tags = [...(seed.tags ?? [])];
+  let nextId = 100;
+
+  const client = {
+    getWorkflow: vi.fn(async (id: string) => {
+      const workflow = workflows.get(id);
+      if (!workflow) throw new Error(`Workflow ${id} not found`);
+      return structuredClone(workflow);
+    }),
+    listWorkflows: vi.fn(async () => ({ data: [...workflows.values()], nextCursor: null })),
+    createWorkflow: vi.fn(async (workflow: any) => {
+      const created = { ...structuredClone(workflow), id: String(nextId++) };
+      workflows.set(created.id, created);
+      return created;
+    }),
+    updateWorkflow: vi.fn(async (id: string, workflow: any) => {
+      const updated = { ...workflows.get(id), ...structuredClone(workflow), id };
+      workflows.set(id, updated);
+      return updated;
+    }),
+    listCredentials: vi.fn(async () => ({ data: seed.credentials ?? [], nextCursor: null })),
+    listTags: vi.fn(async () => ({ data: tags, nextCursor: null })),
+    createTag: vi.fn(async (tag: any) => {
+      const created = { id: `tag-${nextId++}`, name: tag.name };
+      tags.push(created);
+      return created;
+    }),
+    updateWorkflowTags: vi.fn(async () => [])
+  };
+  return { client: client as any, workflows, mock: client };
+}
+
+function executeWorkflowNode(name: string, workflowId: unknown) {
+  return {
+    id: name,
+    name,
+    type: 'n8n-nodes-base.executeWorkflow',
+    typeVersion: 1.2,
+    position: [0, 0],
+    parameters: { workflowId }
+  };
+}
+
+const parent = {
+  id: '1',
+  name: 'Orders',
+  tags: [{ id: 't1', name: 'prod' }],
+  nodes: [
+    {
+      id: 'w',
+      name: 'Webhook',
+      type: 'n8n-nodes-base.webhook',
+      typeVersion: 2,
+      position: [0, 0],
+      webhookId: 'old-hook',
+      parameters: { path: 'old-hook' }
+    },
+    {
+      id: 'h',
+      name: 'Call API',
+      type: 'n8n-nodes-base.httpRequest',
+      typeVersion: 4,
+      position: [200, 0],
+      parameters: { headerValue: 'Bearer abc123secret', apiKey: 'sk-abcdef1234567890' },
+      credentials: { slackApi: { id: 'c1', name: 'Slack Dev' } }
+    },
+    executeWorkflowNode('Run Child', { __rl: true, value: '2', mode: 'list', cachedResultName: 'Child' })
+  ],
+  connections: {},
+  settings: { executionOrder: 'v1' }
+};
+
+const child = {
+  id: '2',
+  name: 'Child',
+  tags: [{ id: 't2', name: 'shared' }],
+  nodes: [executeWorkflowNode('Dynamic', '={{ $json.target }}')],
+  connections: {}
+};
+
+describe('workflow-transfer', () => {
+  describe('exportWorkflow', () => {
+    it('should export a single workflow as n8n JSON with secrets stripped', async () => {
+      const { client } = createFakeClient({ workflows: [parent, child] });
+
+      const result = await exportWorkflow(client, '1');
+      const exported = JSON.parse(result.content);
+
+      expect(result.workflows).toEqual([{ id: '1', name: 'Orders' }]);
+      expect(exported.id).toBeUndefined();
+      expect(exported.tags).toEqual(['prod']);
+      expect(result.secretsStripped).toBe(2);
+      expect(result.content).not.toContain('abc123secret');
+      expect(result.content).not.toContain('sk-abcdef1234567890');
+      expect(exported.nodes[1].parameters.headerValue).toBe('Bearer YOUR_TOKEN_HERE');
+    });
+
+    it('should keep secrets when stripping is disabled', async () => {
+      const { client } = createFakeClient({ workflows: [parent] });
+
+      const result = await exportWorkflow(client, '1', { stripSecrets: false });
+
+      expect(result.secretsStripped).toBe(0);
+      expect(result.content).toContain('sk-abcdef1234567890');
+    });
+
+    it('should export YAML that parses back to the workflow', async () => {
+      const { client } = createFakeClient({ workflows: [parent] });
+
+      const result = await exportWorkflow(client, '1', { format: 'yaml' });
+
+      expect(parseYaml(result.content)).toEqual(JSON.parse((await exportWorkflow(client, '1')).content));
+    });
+
+    it('should bundle sub-workflows, credential placeholders and tags', async () => {
+      const { client } = createFakeClient({ workflows: [parent, child] });
+
+      const result = await exportWorkflow(client, '1', { format: 'bundle' });
+      const bundle = JSON.parse(result.content);
+
+      expect(bundle.format).toBe(WORKFLOW_BUNDLE_FORMAT);
+      expect(bundle.rootWorkflowId).toBe('1');
+      expect(bundle.workflows.map((workflow: any) => workflow.name)).toEqual(['Orders', 'Child']);
+      expect(bundle.credentials).toEqual([{ id: 'c1', name: 'Slack Dev', type: 'slackApi' }]);
+      expect(bundle.tags).toEqual(['prod', 'shared']);
+      expect(result.warnings).toEqual([expect.stringContaining('selects its sub-workflow dynamically (expression)')]);
+    });
+
+    it('should warn about sub-workflows that cannot be fetched', async () => {
+      const { client } = createFakeClient({ workflows: [parent] });
+
+      const result = await exportWorkflow(client, '1', { format: 'bundle' });
+
+      expect(result.workflows).toHaveLength(1);
+      expect(result.warnings[0]).toContain('Sub-workflow 2 could not be fetched');
+    });
+  });
+
+  describe('parseWorkflowTransfer', () => {
+    it('should wrap a plain workflow into a bundle', () => {
+      const bundle = parseWorkflowTransfer('name: Test\nnodes: []\ntags:\n  - a\n');
+
+      expect(bundle.workflows).toEqual([{ id: '', name: 'Test', nodes: [], connections: {}, tags: ['a'] }]);
+      expect(bundle.tags).toEqual(['a']);
+    });
+
+    it('should reject content that is not a workflow', () => {
+      expect(() => parseWorkflowTransfer('{"foo": 1}')).toThrow(WorkflowTransferError);
+      expect(() => parseWorkflowTransfer({ format: WORKFLOW_BUNDLE_FORMAT, version: 99, workflows: [] })).toThrow(/version 99/);
+    });
+  });
+
+  describe('importWorkflows', () => {
+    let bundleContent: string;
+
+    beforeEach(async () => {
+      const { client } = createFakeClient({ workflows: [parent, child] });
+      bundleContent = (await exportWorkflow(client, '1', { format: 'bundle' })).content;
+    });
+
+    it('should create sub-workflows first and remap references, credentials and webhooks', async () => {
+      const target = createFakeClient({
+        credentials: [{ id: 'prod-1', name: 'Slack Prod', type: 'slackApi' }],
+        tags: [{ id: 'tp', name: 'PROD' }]
+      });
+
+      const result = await importWorkflows(target.client, bundleContent, { matchCredentialsByType: true });
+
+      expect(result.workflows.map(workflow => [workflow.name, workflow.action])).toEqual([
+        ['Child', 'created'],
+        ['Orders', 'created']
+      ]);
+      const childId = result.workflows[0].id!;
+      const imported = target.workflows.get(result.workflows[1].id!);
+
+      const call = imported.nodes.find((node: any) => node.name === 'Run Child');
+      expect(call.parameters.workflowId).toMatchObject({ __rl: true, value: childId, cachedResultName: 'Child' });
+
+      const http = imported.nodes.find((node: any) => node.name === 'Call API');
+      expect(http.credentials).toEqual({ slackApi: { id: 'prod-1', name: 'Slack Prod' } });
+      expect(result.credentials[0].status).toBe('matched_by_type');
+      expect(result.warnings).toContainEqual(expect.stringContaining('was bound to "Slack Prod", the only credential of that type'));
+
+      const webhook = imported.nodes.find((node: any) => node.name === 'Webhook');
+      expect(webhook.webhookId).not.toBe('old-hook');
+      expect(webhook.parameters.path).toBe(webhook.webhookId);
+      expect(result.workflows[1].webhookIdsRegenerated).toBe(1);
+
+      expect(result.tags).toEqual({ assigned: ['prod', 'shared'], created: ['shared'] });
+      expect(target.mock.updateWorkflowTags).toHaveBeenCalledWith(result.workflows[1].id, ['tp']);
+    });
+
+    it('should not bind a differently named credential unless matching by type is enabled', async () => {
+      const target = createFakeClient({ credentials: [{ id: 'prod-1', name: 'Slack Prod', type: 'slackApi' }] });
+
+      const result = await importWorkflows(target.client, bundleContent);
+      const imported = target.workflows.get(result.workflows[1].id!);
+
+      expect(result.credentials[0]).toMatchObject({ status: 'missing', targetId: undefined });
+      expect(imported.nodes.find((node: any) => node.name === 'Call API').credentials).toBeUndefined();
+      expect(result.warnings).toContainEqual(expect.stringContaining('its only slackApi credential is "Slack Prod"'));
+    });
+
+    it('should drop credential references that have no match', async () => {
+      const target = createFakeClient({ credentials: [] });
+
+      const result = await importWorkflows(target.client, bundleContent);
+      const imported = target.workflows.get(result.workflows[1].id!);
+
+      expect(result.credentials[0].status).toBe('missing');
+      expect(imported.nodes.find((node: any) => node.name === 'Call API').credentials).toBeUndefined();
+      expect(result.warnings).toEqual(expect.arrayContaining([expect.stringContaining('No slackApi credential named "Slack Dev"')]));
+    });
+
+    it('should update workflows with the same name and keep their webhook IDs on upsert', async () => {
+      const target = createFakeClient({
+        workflows: [{ ...parent, id: '50', nodes: [{ ...parent.nodes[0], webhookId: 'prod-hook' }] }]
+      });
+
+      const result = await importWorkflows(target.client, bundleContent, { mode: 'upsert' });
+      const updated = target.workflows.get('50');
+
+      expect(result.workflows.find(workflow => workflow.name === 'Orders')).toMatchObject({ id: '50', action: 'updated', webhookIdsRegenerated: 0 });
+      expect(updated.nodes.find((node: any) => node.name === 'Webhook').webhookId).toBe('prod-hook');
+    });
+
+    it('should fix up workflows that call each other after creating both', async () => {
+      const a = { id: 'a', name: 'A', nodes: [executeWorkflowNode('Call B', 'b')], connections: {} };
+      const b = { id: 'b', name: 'B', nodes: [executeWorkflowNode('Call A', 'a')], connections: {} };
+      const source = createFakeClient({ workflows: [a, b] });
+      const content = (await exportWorkflow(source.client, 'a', { format: 'bundle' })).content;
+      const target = createFakeClient();
+
+      const result = await importWorkflows(target.client, content);
+      const [first, second] = result.workflows;
+
+      expect(target.workflows.get(first.id!).nodes[0].parameters.workflowId).toBe(second.id);
+      expect(target.workflows.get(second.id!).nodes[0].parameters.workflowId).toBe(first.id);
+    });
+
+    it('should not write anything in a dry run', async () => {
+      const target = createFakeClient({ credentials: [{ id: 'x', name: 'Slack Dev', type: 'slackApi' }] });
+
+      const result = await importWorkflows(target.client, bundleContent, { dryRun: true });
+
+      expect(result.dryRun).toBe(true);
+      expect(result.credentials[0]).toMatchObject({ status: 'matched', targetId: 'x' });
+      expect(result.tags.created).toEqual(['prod', 'shared']);
+      expect(target.mock.createWorkflow).not.toHaveBeenCalled();
+      expect(target.mock.createTag).not.toHaveBeenCalled();
+      expect(target.mock.updateWorkflowTags).not.toHaveBeenCalled();
+    });
+  });
+});
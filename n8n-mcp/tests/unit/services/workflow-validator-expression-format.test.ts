@@ -484,5 +484,73 @@ describe('WorkflowValidator - Expression Format Validation', () => {
       // This proves that expression validation doesn't interfere with other checks
       expect(result.warnings.some(w => w.message.includes('trigger'))).toBe(true);
     });
+
+    it('should resolve node references in expressions against the workflow graph', async () => {
+      const workflow = {
+        nodes: [
+          { id: '1', name: 'Webhook', type: 'n8n-nodes-base.webhook', position: [0, 0] as [number, number], parameters: { path: 'orders' }, typeVersion: 1 },
+          {
+            id: '2',
+            name: 'Fetch',
+            type: 'n8n-nodes-base.httpRequest',
+            position: [200, 0] as [number, number],
+            parameters: { url: "=https://api.example.com/{{ $('Webhook').item.json.body.id }}/{{ $('Reply').first().json.id }}" },
+            typeVersion: 4
+          },
+          {
+            id: '3',
+            name: 'Reply',
+            type: 'n8n-nodes-base.httpRequest',
+            position: [400, 0] as [number, number],
+            parameters: { url: "=https://api.example.com/{{ $('Fetch').item.json.id }}/{{ $('Gone').item.json.id }}" },
+            typeVersion: 4
+          }
+        ],
+        connections: {
+          Webhook: { main: [[{ node: 'Fetch', type: 'main', index: 0 }]] },
+          Fetch: { main: [[{ node: 'Reply', type: 'main', index: 0 }]] }
+        }
+      };
+
+      const result = await validator.validateWorkflow(workflow);
+
+      const upstreamWarnings = result.warnings.filter(w => w.message.includes('is not upstream'));
+      expect(upstreamWarnings).toEqual([expect.objectContaining({ nodeName: 'Fetch' })]);
+      expect(upstreamWarnings[0].message).toContain('Node "Reply" is not upstream of "Fetch"');
+
+      const missing = result.errors.filter(e => e.message.includes('not found in workflow'));
+      expect(missing).toEqual([expect.objectContaining({ nodeName: 'Reply' })]);
+      expect(missing[0].message).toContain('Referenced node "Gone"');
+    });
+
+    it('should warn about fields that do not exist in pinned data', async () => {
+      const workflow = {
+        nodes: [
+          { id: '1', name: 'Webhook', type: 'n8n-nodes-base.webhook', position: [0, 0] as [number, number], parameters: { path: 'orders' }, typeVersion: 1 },
+          {
+            id: '2',
+            name: 'Fetch',
+            type: 'n8n-nodes-base.httpRequest',
+            position: [200, 0] as [number, number],
+            parameters: { url: '=https://api.example.com/customers/{{ $json.body.customer.email }}' },
+            typeVersion: 4
+          }
+        ],
+        connections: {
+          Webhook: { main: [[{ node: 'Fetch', type: 'main', index: 0 }]] }
+        },
+        pinData: {
+          Webhook: [{ json: { headers: {}, body: { customer: { mail: 'ann@example.com' } } } }]
+        }
+      };
+
+      const result = await validator.validateWorkflow(workflow);
+
+      const shapeWarnings = result.warnings.filter(w => w.code === 'UNRESOLVED_FIELD_REFERENCE');
+      expect(shapeWarnings).toHaveLength(1);
+      expect(shapeWarnings[0]).toEqual(expect.objectContaining({ nodeName: 'Fetch' }));
+      expect(shapeWarnings[0].message).toContain('field "email" in $json.body.customer.email (url) does not exist');
+      expect(shapeWarnings[0].message).toContain('Did you mean "mail"?');
+    });
   });
-});
\ No newline at end of file
+});
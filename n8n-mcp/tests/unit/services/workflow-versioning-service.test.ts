@@ -416,6 +416,35 @@ describe('WorkflowVersioningService', () => {
     });
   });
 
+  describe('recordRevision', () => {
+    it('should store the revision snapshot', async () => {
+      vi.spyOn(mockRepository, 'saveWorkflowRevision').mockReturnValue(undefined);
+      const workflow = { ...createMockWorkflow('workflow-1', 'Test Workflow'), versionId: 'v1' };
+
+      await service.recordRevision('workflow-1', workflow);
+
+      expect(mockRepository.saveWorkflowRevision).toHaveBeenCalledWith('workflow-1', workflow, 20);
+    });
+
+    it('should skip workflows without a revision identifier', async () => {
+      vi.spyOn(mockRepository, 'saveWorkflowRevision').mockReturnValue(undefined);
+
+      await service.recordRevision('workflow-1', { id: 'workflow-1', nodes: [] });
+
+      expect(mockRepository.saveWorkflowRevision).not.toHaveBeenCalled();
+    });
+
+    it('should find a recorded revision by versionId', async () => {
+      const snapshot = { ...createMockWorkflow('workflow-1', 'Test Workflow'), versionId: 'v1' };
+      vi.spyOn(mockRepository, 'getWorkflowRevision').mockReturnValue(snapshot);
+
+      const result = await service.findRecordedRevision('workflow-1', { versionId: 'v1' });
+
+      expect(result).toBe(snapshot);
+      expect(mockRepository.getWorkflowRevision).toHaveBeenCalledWith('workflow-1', { versionId: 'v1' });
+    });
+  });
+
   describe('truncateAllVersions', () => {
     it('should refuse to truncate without confirmation', async () => {
       const result = await service.truncateAllVersions(false);
@@ -574,6 +603,95 @@ describe('WorkflowVersioningService', () => {
     });
   });
 
+  describe('compareVersionWith', () => {
+    const httpNode = (url: string) => ({
+      id: 'node-1', name: 'HTTP', type: 'n8n-nodes-base.httpRequest', typeVersion: 4, position: [0, 0] as [number, number], parameters: { url }
+    });
+
+    it('should compare a version with another version', async () => {
+      const v1 = createMockVersion(1);
+      v1.workflowSnapshot.nodes = [httpNode('https://a.example.com')];
+      const v2 = createMockVersion(2);
+      v2.workflowSnapshot.nodes = [httpNode('https://b.example.com')];
+
+      vi.spyOn(mockRepository, 'getWorkflowVersion')
+        .mockReturnValueOnce(v1)
+        .mockReturnValueOnce(v2);
+
+      const result = await service.compareVersionWith(1, { compareToVersionId: 2, format: 'all' });
+
+      expect(result.base.label).toBe('v1');
+      expect(result.target.label).toBe('v2');
+      expect(result.hasChanges).toBe(true);
+      expect(result.summary.modifiedNodes).toBe(1);
+      expect(result.markdown).toContain('parameters.url');
+      expect(result.diff?.modifiedNodes[0].changes[0].path).toBe('parameters.url');
+      expect(result.jsonPatch).toEqual([
+        { op: 'replace', path: '/nodes/0/parameters/url', value: 'https://b.example.com' }
+      ]);
+      expect(result.operations).toEqual([
+        { type: 'updateNode', nodeId: 'node-1', updates: { 'parameters.url': 'https://b.example.com' } }
+      ]);
+    });
+
+    it('should only include the requested format', async () => {
+      vi.spyOn(mockRepository, 'getWorkflowVersion')
+        .mockReturnValueOnce(createMockVersion(1))
+        .mockReturnValueOnce(createMockVersion(2));
+
+      const result = await service.compareVersionWith(1, { compareToVersionId: 2 });
+
+      expect(result.hasChanges).toBe(false);
+      expect(result.markdown).toBeDefined();
+      expect(result.diff).toBeUndefined();
+      expect(result.jsonPatch).toBeUndefined();
+      expect(result.operations).toBeUndefined();
+    });
+
+    it('should compare with the live workflow and support reverse direction', async () => {
+      const v1 = createMockVersion(1);
+      v1.workflowSnapshot.nodes = [httpNode('https://old.example.com')];
+      const live = createMockWorkflow('workflow-1', 'Test Workflow', [httpNode('https://new.example.com')]);
+
+      vi.spyOn(mockRepository, 'getWorkflowVersion').mockReturnValue(v1);
+      vi.spyOn(mockApiClient, 'getWorkflow').mockResolvedValue(live);
+
+      const result = await service.compareVersionWith(1, { compareToLive: true, reverse: true, format: 'operations' });
+
+      expect(mockApiClient.getWorkflow).toHaveBeenCalledWith('workflow-1');
+      expect(result.base.label).toBe('live');
+      expect(result.target.label).toBe('v1');
+      expect(result.operations).toEqual([
+        { type: 'updateNode', nodeId: 'node-1', updates: { 'parameters.url': 'https://old.example.com' } }
+      ]);
+    });
+
+    it('should throw when comparing with live without an API client', async () => {
+      const serviceWithoutApi = new WorkflowVersioningService(mockRepository);
+      vi.spyOn(mockRepository, 'getWorkflowVersion').mockReturnValue(createMockVersion(1));
+
+      await expect(serviceWithoutApi.compareVersionWith(1, { compareToLive: true }))
+        .rejects.toThrow('API client not configured');
+    });
+
+    it('should throw when versions belong to different workflows', async () => {
+      const other = { ...createMockVersion(2), workflowId: 'workflow-2' };
+      vi.spyOn(mockRepository, 'getWorkflowVersion')
+        .mockReturnValueOnce(createMockVersion(1))
+        .mockReturnValueOnce(other);
+
+      await expect(service.compareVersionWith(1, { compareToVersionId: 2 }))
+        .rejects.toThrow('belong to different workflows');
+    });
+
+    it('should throw when a version does not exist', async () => {
+      vi.spyOn(mockRepository, 'getWorkflowVersion').mockReturnValue(null);
+
+      await expect(service.compareVersionWith(99, { compareToVersionId: 1 }))
+        .rejects.toThrow('Version 99 not found');
+    });
+  });
+
   describe('formatBytes', () => {
     it('should format bytes to human-readable string', () => {
       // Access private method through any cast
@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import { generateHeuristicMetadata, serviceForNode } from '../../../src/templates/heuristic-metadata';
+import { MetadataGenerator, TemplateMetadataSchema } from '../../../src/templates/metadata-generator';
+import { HeuristicProvider } from '../../../src/llm';
+
+describe('heuristic template metadata', () => {
+  it('should name external services and skip core nodes', () => {
+    expect(serviceForNode('n8n-nodes-base.slack')).toBe('Slack');
+    expect(serviceForNode('n8n-nodes-base.googleSheetsTrigger')).toBe('Google Sheets');
+    expect(serviceForNode('@n8n/n8n-nodes-langchain.lmChatOpenAi')).toBe('OpenAI');
+    expect(serviceForNode('n8n-nodes-base.microsoftToDo')).toBe('Microsoft To Do');
+    expect(serviceForNode('n8n-nodes-base.httpRequest')).toBeNull();
+    expect(serviceForNode('@n8n/n8n-nodes-langchain.agent')).toBeNull();
+  });
+
+  it('should derive simple metadata for a small notification workflow', () => {
+    const metadata = generateHeuristicMetadata({
+      templateId: 1,
+      name: 'Daily Slack report',
+      nodes: ['n8n-nodes-base.scheduleTrigger', 'n8n-nodes-base.postgres', 'n8n-nodes-base.slack']
+    });
+
+    expect(metadata).toEqual({
+      categories: ['Communication', 'Data Management', 'Scheduling'],
+      complexity: 'simple',
+      use_cases: ['Team notifications and messaging', 'Data synchronization between tools', 'Scheduled recurring tasks'],
+      estimated_setup_minutes: 30,
+      required_services: ['PostgreSQL', 'Slack'],
+      key_features: ['Scheduled execution', 'PostgreSQL, Slack integration'],
+      target_audience: ['operations teams', 'data analysts']
+    });
+  });
+
+  it('should rate AI workflows with branching as complex', () => {
+    const metadata = generateHeuristicMetadata({
+      templateId: 2,
+      name: 'Support agent',
+      nodes: [
+        'n8n-nodes-base.webhook',
+        '@n8n/n8n-nodes-langchain.agent',
+        '@n8n/n8n-nodes-langchain.lmChatOpenAi',
+        'n8n-nodes-base.if',
+        'n8n-nodes-base.gmail'
+      ]
+    });
+
+    expect(metadata.complexity).toBe('complex');
+    expect(metadata.categories).toEqual(['AI', 'Communication', 'Webhooks']);
+    expect(metadata.key_features).toEqual(['Webhook trigger', 'AI agent', 'Conditional branching', 'OpenAI, Gmail integration']);
+    expect(() => TemplateMetadataSchema.parse(metadata)).not.toThrow();
+  });
+
+  it('should fall back to automation for core-only workflows', () => {
+    const metadata = generateHeuristicMetadata({ templateId: 3, name: 'Transform', nodes: ['n8n-nodes-base.set', 'n8n-nodes-base.code'] });
+
+    expect(metadata.categories).toEqual(['Automation']);
+    expect(metadata.required_services).toEqual([]);
+    expect(metadata.complexity).toBe('medium');
+  });
+
+  it('should generate metadata offline through the heuristic provider', async () => {
+    const generator = new MetadataGenerator(new HeuristicProvider());
+    const results = await generator.generateBatch([
+      { templateId: 10, name: 'A', nodes: ['n8n-nodes-base.telegram'] },
+      { templateId: 11, name: 'B', nodes: ['n8n-nodes-base.github'] }
+    ]);
+
+    expect(results.get(10)?.metadata.required_services).toEqual(['Telegram']);
+    expect(results.get(11)?.metadata.required_services).toEqual(['GitHub']);
+    expect(results.get(11)?.error).toBeUndefined();
+  });
+});
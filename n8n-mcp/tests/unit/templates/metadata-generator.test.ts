@@ -379,8 +379,8 @@ describe('MetadataGenerator', () => {
         }
       };
       
-      // Override the client property using Object.defineProperty
-      Object.defineProperty(generator, 'client', {
+      // Override the provider's client property using Object.defineProperty
+      Object.defineProperty(generator['provider'], 'client', {
         value: mockClient,
         writable: true
       });
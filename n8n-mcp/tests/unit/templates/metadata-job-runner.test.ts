@@ -0,0 +1,193 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+import { createDatabaseAdapter, DatabaseAdapter } from '../../../src/database/database-adapter';
+import { MetadataJobRepository } from '../../../src/templates/metadata-job-repository';
+import { MetadataJobRunner } from '../../../src/templates/metadata-job-runner';
+import { TemplateRepository } from '../../../src/templates/template-repository';
+import { HeuristicProvider, LLMProvider, StructuredOutputRequest } from '../../../src/llm';
+
+vi.mock('../../../src/utils/logger', () => ({
+  logger: { info: vi.fn(), error: vi.fn(), warn: vi.fn(), debug: vi.fn() }
+}));
+
+const NO_BACKOFF = { baseDelayMs: 0, maxDelayMs: 0, jitterFactor: 0 };
+
+function seedTemplate(db: DatabaseAdapter, id: number, nodes: string[], metadata?: object): void {
+  db.prepare(`
+    INSERT INTO templates (id, workflow_id, name, description, nodes_used, views, created_at, url, metadata_json, metadata_generated_at)
+    VALUES (?, ?, ?, '', ?, 0, '2024-01-01', '', ?, ?)
+  `).run(id, id, `Template ${id}`, JSON.stringify(nodes),
+    metadata ? JSON.stringify(metadata) : null, metadata ? '2024-01-01' : null);
+}
+
+function getMetadata(db: DatabaseAdapter, id: number): any {
+  const row = db.prepare('SELECT metadata_json FROM templates WHERE id = ?').get(id) as { metadata_json: string | null };
+  return row.metadata_json ? JSON.parse(row.metadata_json) : null;
+}
+
+/**
+ * Heuristic provider that fails the given number of times per template
+ * and reports OpenAI-like usage
+ */
+class FlakyProvider implements LLMProvider {
+  readonly id = 'openai' as const;
+  readonly model = 'gpt-4o-mini';
+  calls = new Map<string, number>();
+  private tokens = 0;
+  private heuristic = new HeuristicProvider();
+
+  constructor(private failures: Record<number, number>) {}
+
+  detectCapabilities() {
+    return this.heuristic.detectCapabilities();
+  }
+
+  testConnection() {
+    return this.heuristic.testConnection();
+  }
+
+  async generateJson<T = unknown>(request: StructuredOutputRequest<T>): Promise<unknown> {
+    const templateId = Number(request.prompt.match(/Template (\d+)/)![1]);
+    const calls = (this.calls.get(String(templateId)) ?? 0) + 1;
+    this.calls.set(String(templateId), calls);
+    this.tokens += 1000;
+    if (calls <= (this.failures[templateId] ?? 0)) {
+      throw new Error(`Rate limit reached (call ${calls})`);
+    }
+    return this.heuristic.generateJson(request);
+  }
+
+  getUsage() {
+    return { requests: this.tokens / 1000, promptTokens: this.tokens, completionTokens: this.tokens / 2 };
+  }
+}
+
+describe('metadata jobs', () => {
+  let db: DatabaseAdapter;
+  let jobs: MetadataJobRepository;
+
+  beforeEach(async () => {
+    db = await createDatabaseAdapter(':memory:');
+    db.exec(fs.readFileSync(path.join(__dirname, '../../../src/database/schema.sql'), 'utf-8'));
+    jobs = new MetadataJobRepository(db);
+    // Creates templates_fts and its triggers before templates are inserted
+    new TemplateRepository(db);
+
+    seedTemplate(db, 1, ['n8n-nodes-base.slack']);
+    seedTemplate(db, 2, ['n8n-nodes-base.github']);
+    seedTemplate(db, 3, ['n8n-nodes-base.telegram']);
+    seedTemplate(db, 4, ['n8n-nodes-base.gmail'], { categories: ['existing'] });
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  describe('MetadataJobRepository', () => {
+    it('should queue only templates without metadata, once', () => {
+      expect(jobs.enqueueMissing()).toBe(3);
+      expect(jobs.enqueueMissing()).toBe(0);
+      expect(jobs.getStats()).toEqual({ total: 3, pending: 3, running: 0, completed: 0, failed: 0 });
+    });
+
+    it('should respect the limit and requeue completed jobs whose metadata is missing', () => {
+      expect(jobs.enqueueMissing(2)).toBe(2);
+      jobs.claimNext();
+      jobs.markCompleted(1, 'heuristic', 'heuristic');
+
+      expect(jobs.enqueueMissing()).toBe(2);
+      expect(jobs.getJob(1)).toMatchObject({ status: 'pending', attempts: 0 });
+    });
+
+    it('should recover jobs left running by an interrupted run', () => {
+      jobs.enqueueMissing();
+      expect(jobs.claimNext()).toMatchObject({ template_id: 1, status: 'running', attempts: 1 });
+
+      expect(jobs.recoverInterrupted()).toBe(1);
+      expect(jobs.getJob(1)).toMatchObject({ status: 'pending', attempts: 1 });
+    });
+
+    it('should only claim jobs whose retry is due', () => {
+      jobs.enqueue([1]);
+      jobs.claimNext(1000);
+      jobs.markFailed(1, 'boom', 5000);
+
+      expect(jobs.claimNext(4999)).toBeNull();
+      expect(jobs.getNextRetryAt()).toBe(5000);
+      expect(jobs.claimNext(5000)).toMatchObject({ template_id: 1, attempts: 2 });
+    });
+  });
+
+  describe('MetadataJobRunner', () => {
+    it('should generate and store metadata for queued templates', async () => {
+      jobs.enqueueMissing();
+      const progress = vi.fn();
+      const runner = new MetadataJobRunner(db, new HeuristicProvider(), { concurrency: 2, progressCallback: progress });
+
+      const result = await runner.run();
+
+      expect(result).toMatchObject({ total: 3, completed: 3, failed: 0, remaining: 0, costUsd: 0, stopped: false });
+      expect(getMetadata(db, 2).required_services).toEqual(['GitHub']);
+      expect(getMetadata(db, 4)).toEqual({ categories: ['existing'] });
+      expect(jobs.getJob(2)).toMatchObject({ status: 'completed', provider: 'heuristic' });
+      expect(progress).toHaveBeenCalledTimes(3);
+    });
+
+    it('should retry failures with backoff and give up after maxAttempts', async () => {
+      jobs.enqueueMissing();
+      const provider = new FlakyProvider({ 1: 1, 3: 5 });
+      const runner = new MetadataJobRunner(db, provider, { maxAttempts: 3, retry: NO_BACKOFF });
+
+      const result = await runner.run();
+
+      expect(result).toMatchObject({ completed: 2, failed: 1, retried: 3, remaining: 0 });
+      expect(provider.calls.get('1')).toBe(2);
+      expect(provider.calls.get('3')).toBe(3);
+      expect(jobs.getJob(3)).toMatchObject({ status: 'failed', attempts: 3, last_error: 'Rate limit reached (call 3)' });
+      expect(getMetadata(db, 3)).toBeNull();
+    });
+
+    it('should resume with only the missing templates', async () => {
+      jobs.enqueueMissing();
+      await new MetadataJobRunner(db, new FlakyProvider({ 3: 5 }), { maxAttempts: 1 }).run();
+      expect(jobs.getStats()).toMatchObject({ completed: 2, failed: 1 });
+
+      // Failed jobs stay failed until retried explicitly
+      expect(jobs.enqueueMissing()).toBe(0);
+      expect(jobs.retryFailed()).toBe(1);
+
+      const provider = new FlakyProvider({});
+      const result = await new MetadataJobRunner(db, provider).run();
+      expect(result).toMatchObject({ total: 1, completed: 1 });
+      expect([...provider.calls.keys()]).toEqual(['3']);
+    });
+
+    it('should report the cost of the run and project the remaining jobs', async () => {
+      jobs.enqueueMissing();
+      const provider = new FlakyProvider({});
+      const runner = new MetadataJobRunner(db, provider, { concurrency: 1 });
+      const progress: number[] = [];
+      runner['progressCallback'] = p => progress.push(p.estimatedTotalCostUsd!);
+
+      expect(runner.estimateCost(1000)).toBeCloseTo(0.315, 5);
+      const result = await runner.run();
+
+      // 1000 prompt + 500 completion tokens per template at gpt-4o-mini prices
+      expect(result.costUsd).toBeCloseTo(3 * 0.00045, 8);
+      expect(progress.every(value => Math.abs(value - 3 * 0.00045) < 1e-8)).toBe(true);
+    });
+
+    it('should stop claiming jobs when stopped', async () => {
+      jobs.enqueueMissing();
+      const runner = new MetadataJobRunner(db, new HeuristicProvider(), {
+        concurrency: 1,
+        progressCallback: () => runner.stop()
+      });
+
+      const result = await runner.run();
+
+      expect(result).toMatchObject({ completed: 1, remaining: 2, stopped: true });
+    });
+  });
+});
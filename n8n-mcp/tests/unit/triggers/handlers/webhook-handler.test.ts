@@ -5,7 +5,7 @@ import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { WebhookHandler } from '../../../../src/triggers/handlers/webhook-handler';
 import { N8nApiClient } from '../../../../src/services/n8n-api-client';
 import { InstanceContext } from '../../../../src/types/instance-context';
-import { Workflow, WebhookRequest } from '../../../../src/types/n8n-api';
+import { Workflow, WebhookRequest, WebhookHttpMethod } from '../../../../src/types/n8n-api';
 import { DetectedTrigger } from '../../../../src/triggers/types';
 
 // Mock getN8nApiConfig
@@ -93,7 +93,7 @@ describe('WebhookHandler', () => {
     it('should have correct capabilities', () => {
       expect(handler.capabilities.requiresActiveWorkflow).toBe(true);
       expect(handler.capabilities.canPassInputData).toBe(true);
-      expect(handler.capabilities.supportedMethods).toEqual(['GET', 'POST', 'PUT', 'DELETE']);
+      expect(handler.capabilities.supportedMethods).toEqual(['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'HEAD']);
     });
   });
 
@@ -134,7 +134,7 @@ describe('WebhookHandler', () => {
       const input = {
         workflowId: 'workflow-123',
         triggerType: 'webhook',
-        httpMethod: 'PATCH',
+        httpMethod: 'OPTIONS',
       };
 
       expect(() => handler.validate(input)).toThrow();
@@ -436,7 +436,7 @@ describe('WebhookHandler', () => {
 
     it('should support all HTTP methods', async () => {
       const workflow = createWorkflow();
-      const methods: Array<'GET' | 'POST' | 'PUT' | 'DELETE'> = ['GET', 'POST', 'PUT', 'DELETE'];
+      const methods: WebhookHttpMethod[] = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'HEAD'];
 
       for (const method of methods) {
         vi.mocked(mockClient.triggerWebhook).mockResolvedValue({
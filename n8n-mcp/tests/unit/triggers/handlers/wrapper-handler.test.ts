@@ -0,0 +1,208 @@
+/**
+ * Unit tests for wrapper-based trigger handlers (schedule, manual, executeWorkflow)
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { ScheduleHandler } from '../../../../src/triggers/handlers/schedule-handler';
+import { removeWrapperWorkflowWhenFinished } from '../../../../src/triggers/handlers/wrapper-handler';
+import { ExecuteWorkflowHandler } from '../../../../src/triggers/handlers/execute-workflow-handler';
+import { N8nApiClient } from '../../../../src/services/n8n-api-client';
+import { Workflow } from '../../../../src/types/n8n-api';
+import { DetectedTrigger } from '../../../../src/triggers/types';
+
+// Mock getN8nApiConfig
+vi.mock('../../../../src/config/n8n-api', () => ({
+  getN8nApiConfig: vi.fn(() => ({
+    baseUrl: 'https://test.n8n.com/api/v1',
+    apiKey: 'test-api-key',
+  })),
+}));
+
+// Mock SSRFProtection
+vi.mock('../../../../src/utils/ssrf-protection', () => ({
+  SSRFProtection: {
+    validateWebhookUrl: vi.fn(async () => ({ valid: true, reason: '' })),
+  },
+}));
+
+// Create mock client
+const createMockClient = (): N8nApiClient => ({
+  createWorkflow: vi.fn().mockResolvedValue({ id: 'wrapper-1' }),
+  activateWorkflow: vi.fn().mockResolvedValue({ id: 'wrapper-1', active: true }),
+  deactivateWorkflow: vi.fn().mockResolvedValue({ id: 'wrapper-1', active: false }),
+  listExecutions: vi.fn().mockResolvedValue({ data: [], nextCursor: null }),
+  getExecution: vi.fn(),
+  deleteWorkflow: vi.fn().mockResolvedValue({ id: 'wrapper-1' }),
+  triggerWebhook: vi.fn().mockResolvedValue({ status: 200, statusText: 'OK', data: [{ ok: true }] }),
+} as unknown as N8nApiClient);
+
+// Create test workflow
+const createWorkflow = (): Workflow => ({
+  id: 'workflow-123',
+  name: 'Nightly Report',
+  active: false,
+  nodes: [
+    {
+      id: 'schedule-node',
+      name: 'Schedule Trigger',
+      type: 'n8n-nodes-base.scheduleTrigger',
+      typeVersion: 1.2,
+      position: [0, 0],
+      parameters: {},
+    },
+  ],
+  connections: {},
+  settings: {},
+} as Workflow);
+
+const createTrigger = (workflow: Workflow): DetectedTrigger => ({
+  type: 'schedule',
+  node: workflow.nodes[0],
+});
+
+describe('Wrapper trigger handlers', () => {
+  let mockClient: N8nApiClient;
+
+  beforeEach(() => {
+    mockClient = createMockClient();
+  });
+
+  describe('ScheduleHandler', () => {
+    it('should not require an active workflow', () => {
+      const handler = new ScheduleHandler(mockClient);
+
+      expect(handler.triggerType).toBe('schedule');
+      expect(handler.capabilities.requiresActiveWorkflow).toBe(false);
+    });
+
+    it('should validate keepWrapper in the input', () => {
+      const handler = new ScheduleHandler(mockClient);
+
+      expect(handler.validate({ workflowId: 'w', triggerType: 'schedule', keepWrapper: true }).keepWrapper).toBe(true);
+      expect(() => handler.validate({ workflowId: 'w', triggerType: 'manual' })).toThrow();
+    });
+
+    it('should create, activate, call and delete the wrapper workflow', async () => {
+      const handler = new ScheduleHandler(mockClient);
+      const workflow = createWorkflow();
+
+      const response = await handler.execute(
+        { workflowId: 'workflow-123', triggerType: 'schedule', data: { runDate: '2026-01-01' } },
+        workflow,
+        createTrigger(workflow)
+      );
+
+      expect(response.success).toBe(true);
+      expect(response.data).toEqual({ status: 200, statusText: 'OK', data: [{ ok: true }] });
+      expect(mockClient.createWorkflow).toHaveBeenCalledWith(
+        expect.objectContaining({ name: '[n8n-mcp test] Nightly Report' })
+      );
+      expect(mockClient.activateWorkflow).toHaveBeenCalledWith('wrapper-1');
+
+      const request = vi.mocked(mockClient.triggerWebhook).mock.calls[0][0];
+      expect(request.httpMethod).toBe('POST');
+      expect(request.data).toEqual({ runDate: '2026-01-01' });
+      expect(request.webhookUrl).toMatch(/^https:\/\/test\.n8n\.com\/webhook\/n8n-mcp-test-[0-9a-f-]{36}$/);
+
+      expect(mockClient.deactivateWorkflow).toHaveBeenCalledWith('wrapper-1');
+      expect(mockClient.deleteWorkflow).toHaveBeenCalledWith('wrapper-1');
+      expect(response.metadata).toMatchObject({ wrapperWorkflowId: 'wrapper-1', wrapperDeactivated: true, wrapperRemoved: true });
+    });
+
+    it('should keep the wrapper deactivated when asked to', async () => {
+      const handler = new ScheduleHandler(mockClient);
+      const workflow = createWorkflow();
+
+      const response = await handler.execute(
+        { workflowId: 'workflow-123', triggerType: 'schedule', keepWrapper: true },
+        workflow,
+        createTrigger(workflow)
+      );
+
+      expect(mockClient.deactivateWorkflow).toHaveBeenCalledWith('wrapper-1');
+      expect(mockClient.deleteWorkflow).not.toHaveBeenCalled();
+      expect(response.metadata).toMatchObject({ wrapperDeactivated: true, wrapperRemoved: false });
+    });
+
+    it('should delete the wrapper once a run that was not waited for has finished', async () => {
+      vi.mocked(mockClient.listExecutions).mockResolvedValue({
+        data: [{ id: 'exec-1', finished: true, stoppedAt: '2026-01-01T00:00:01Z', startedAt: '2026-01-01T00:00:00Z' }],
+      } as any);
+      vi.mocked(mockClient.getExecution).mockResolvedValue({ id: 'exec-1', finished: true } as any);
+      const handler = new ScheduleHandler(mockClient);
+      const workflow = createWorkflow();
+
+      const response = await handler.execute(
+        { workflowId: 'workflow-123', triggerType: 'schedule', waitForResponse: false },
+        workflow,
+        createTrigger(workflow)
+      );
+
+      expect(mockClient.deactivateWorkflow).toHaveBeenCalledWith('wrapper-1');
+      expect(response.metadata).toMatchObject({ wrapperDeactivated: true, wrapperRemoved: false, wrapperRemovalScheduled: true });
+      await vi.waitFor(() => expect(mockClient.deleteWorkflow).toHaveBeenCalledWith('wrapper-1'));
+      expect(mockClient.listExecutions).toHaveBeenCalledWith(expect.objectContaining({ workflowId: 'wrapper-1' }));
+    });
+
+    it('should leave a wrapper whose run does not finish in time', async () => {
+      vi.mocked(mockClient.listExecutions).mockResolvedValue({
+        data: [{ id: 'exec-1', finished: false, startedAt: '2026-01-01T00:00:00Z' }],
+      } as any);
+      vi.mocked(mockClient.getExecution).mockResolvedValue({ id: 'exec-1', finished: false } as any);
+
+      await expect(removeWrapperWorkflowWhenFinished(mockClient, 'wrapper-1', 0)).resolves.toBe(false);
+      expect(mockClient.deleteWorkflow).not.toHaveBeenCalled();
+    });
+
+    it('should delete the wrapper when the webhook call fails', async () => {
+      vi.mocked(mockClient.triggerWebhook).mockRejectedValue(new Error('Workflow execution failed'));
+      const handler = new ScheduleHandler(mockClient);
+      const workflow = createWorkflow();
+
+      const response = await handler.execute(
+        { workflowId: 'workflow-123', triggerType: 'schedule' },
+        workflow,
+        createTrigger(workflow)
+      );
+
+      expect(response.success).toBe(false);
+      expect(response.error).toBe('Workflow execution failed');
+      expect(response.metadata).toMatchObject({ wrapperWorkflowId: 'wrapper-1', wrapperRemoved: true });
+    });
+
+    it('should report a failed cleanup without failing the trigger', async () => {
+      vi.mocked(mockClient.deleteWorkflow).mockRejectedValue(new Error('Forbidden'));
+      const handler = new ScheduleHandler(mockClient);
+      const workflow = createWorkflow();
+
+      const response = await handler.execute(
+        { workflowId: 'workflow-123', triggerType: 'schedule' },
+        workflow,
+        createTrigger(workflow)
+      );
+
+      expect(response.success).toBe(true);
+      expect(response.metadata.wrapperRemoved).toBe(false);
+    });
+  });
+
+  describe('ExecuteWorkflowHandler', () => {
+    it('should call the sub-workflow from the wrapper', async () => {
+      const handler = new ExecuteWorkflowHandler(mockClient);
+      const workflow = createWorkflow();
+
+      const response = await handler.execute(
+        { workflowId: 'workflow-123', triggerType: 'executeWorkflow', data: { customerId: 42 } },
+        workflow,
+        { type: 'executeWorkflow', node: workflow.nodes[0] }
+      );
+
+      expect(response.success).toBe(true);
+      const wrapper = vi.mocked(mockClient.createWorkflow).mock.calls[0][0];
+      expect(wrapper.nodes!.find(n => n.name === 'Execute Workflow')?.parameters.workflowId).toEqual({
+        __rl: true,
+        value: 'workflow-123',
+        mode: 'id',
+      });
+    });
+  });
+});
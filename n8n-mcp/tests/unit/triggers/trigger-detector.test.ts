@@ -119,26 +119,58 @@ describe('Trigger Detector', () => {
       });
     });
 
-    describe('non-triggerable workflows', () => {
-      it('should return not detected for schedule trigger', () => {
+    describe('wrapper trigger detection', () => {
+      it('should detect schedule trigger', () => {
         const workflow = createWorkflowWithTrigger('n8n-nodes-base.scheduleTrigger', {
           rule: { interval: [{ field: 'hours', value: 1 }] },
         });
 
         const result = detectTriggerFromWorkflow(workflow);
 
-        expect(result.detected).toBe(false);
-        // Fallback reason may be undefined for non-input triggers
+        expect(result.detected).toBe(true);
+        expect(result.trigger?.type).toBe('schedule');
+        expect(result.trigger?.node.name).toBe('Trigger');
+      });
+
+      it('should detect legacy cron and interval nodes as schedule triggers', () => {
+        expect(detectTriggerFromWorkflow(createWorkflowWithTrigger('n8n-nodes-base.cron')).trigger?.type).toBe('schedule');
+        expect(detectTriggerFromWorkflow(createWorkflowWithTrigger('n8n-nodes-base.interval')).trigger?.type).toBe('schedule');
+      });
+
+      it('should detect manual trigger and legacy start node', () => {
+        expect(detectTriggerFromWorkflow(createWorkflowWithTrigger('n8n-nodes-base.manualTrigger')).trigger?.type).toBe('manual');
+        expect(detectTriggerFromWorkflow(createWorkflowWithTrigger('n8n-nodes-base.start')).trigger?.type).toBe('manual');
       });
 
-      it('should return not detected for manual trigger', () => {
-        const workflow = createWorkflowWithTrigger('n8n-nodes-base.manualTrigger', {});
+      it('should detect execute workflow trigger', () => {
+        const workflow = createWorkflowWithTrigger('n8n-nodes-base.executeWorkflowTrigger', {
+          inputSource: 'passthrough',
+        });
 
         const result = detectTriggerFromWorkflow(workflow);
 
-        expect(result.detected).toBe(false);
+        expect(result.detected).toBe(true);
+        expect(result.trigger?.type).toBe('executeWorkflow');
       });
 
+      it('should prefer webhook over schedule trigger', () => {
+        const workflow = createWorkflowWithTrigger('n8n-nodes-base.scheduleTrigger');
+        workflow.nodes.push({
+          id: 'webhook-node',
+          name: 'Webhook',
+          type: 'n8n-nodes-base.webhook',
+          typeVersion: 2,
+          position: [0, 200],
+          parameters: { path: 'hook' },
+        });
+
+        const result = detectTriggerFromWorkflow(workflow);
+
+        expect(result.trigger?.type).toBe('webhook');
+      });
+    });
+
+    describe('non-triggerable workflows', () => {
       it('should return not detected for email trigger', () => {
         const workflow = createWorkflowWithTrigger('n8n-nodes-base.emailReadImap', {
           mailbox: 'INBOX',
@@ -148,6 +180,15 @@ describe('Trigger Detector', () => {
 
         expect(result.detected).toBe(false);
       });
+
+      it('should explain which triggers are supported for app triggers', () => {
+        const workflow = createWorkflowWithTrigger('n8n-nodes-base.slackTrigger', {});
+
+        const result = detectTriggerFromWorkflow(workflow);
+
+        expect(result.detected).toBe(false);
+        expect(result.reason).toContain('execute workflow, schedule, and manual triggers');
+      });
     });
 
     describe('workflows without triggers', () => {
@@ -28,7 +28,10 @@ describe('TriggerRegistry', () => {
       expect(registeredTypes).toContain('webhook');
       expect(registeredTypes).toContain('form');
       expect(registeredTypes).toContain('chat');
-      expect(registeredTypes.length).toBe(3);
+      expect(registeredTypes).toContain('schedule');
+      expect(registeredTypes).toContain('manual');
+      expect(registeredTypes).toContain('executeWorkflow');
+      expect(registeredTypes.length).toBe(6);
     });
 
     it('should not register duplicate handlers on multiple init calls', async () => {
@@ -59,6 +62,12 @@ describe('TriggerRegistry', () => {
       expect(TriggerRegistry.hasHandler('chat')).toBe(true);
     });
 
+    it('should return true for wrapper-based handlers', () => {
+      expect(TriggerRegistry.hasHandler('schedule')).toBe(true);
+      expect(TriggerRegistry.hasHandler('manual')).toBe(true);
+      expect(TriggerRegistry.hasHandler('executeWorkflow')).toBe(true);
+    });
+
     it('should return false for unknown trigger type', () => {
       expect(TriggerRegistry.hasHandler('unknown' as any)).toBe(false);
     });
@@ -128,6 +137,16 @@ describe('TriggerRegistry', () => {
       expect(handler?.capabilities.requiresActiveWorkflow).toBe(true);
       expect(handler?.capabilities.canPassInputData).toBe(true);
     });
+
+    it('wrapper-based handlers should not require active workflow', () => {
+      for (const type of ['schedule', 'manual', 'executeWorkflow'] as const) {
+        const handler = TriggerRegistry.getHandler(type, mockClient);
+
+        expect(handler?.triggerType).toBe(type);
+        expect(handler?.capabilities.requiresActiveWorkflow).toBe(false);
+        expect(handler?.capabilities.canPassInputData).toBe(true);
+      }
+    });
   });
 
   describe('ensureRegistryInitialized', () => {
@@ -137,7 +156,7 @@ describe('TriggerRegistry', () => {
       await ensureRegistryInitialized();
 
       const types = TriggerRegistry.getRegisteredTypes();
-      expect(types.length).toBe(3);
+      expect(types.length).toBe(6);
     });
 
     it('should handle concurrent initialization calls', async () => {
@@ -150,7 +169,7 @@ describe('TriggerRegistry', () => {
       await Promise.all(promises);
 
       const types = TriggerRegistry.getRegisteredTypes();
-      expect(types.length).toBe(3);
+      expect(types.length).toBe(6);
     });
   });
 });
@@ -0,0 +1,105 @@
+/**
+ * Unit tests for wrapper workflow builders
+ */
+import { describe, it, expect } from 'vitest';
+import {
+  buildExecuteWorkflowWrapper,
+  buildTriggerReplacementWorkflow,
+  wrapperWebhookPath,
+} from '../../../src/triggers/wrapper-workflow';
+import type { Workflow, WorkflowNode } from '../../../src/types/n8n-api';
+
+const node = (name: string, type: string, position: [number, number] = [0, 0]): WorkflowNode => ({
+  id: `${name}-id`,
+  name,
+  type,
+  typeVersion: 1,
+  position,
+  parameters: {},
+});
+
+const createWorkflow = (): Workflow => ({
+  id: 'workflow-123',
+  name: 'Nightly Report',
+  active: false,
+  nodes: [
+    node('Schedule Trigger', 'n8n-nodes-base.scheduleTrigger', [100, 200]),
+    node('Webhook', 'n8n-nodes-base.webhook'),
+    node('Build Report', 'n8n-nodes-base.set'),
+  ],
+  connections: {
+    'Schedule Trigger': { main: [[{ node: 'Build Report', type: 'main', index: 0 }]] },
+    Webhook: { main: [[{ node: 'Build Report', type: 'main', index: 0 }]] },
+  },
+  settings: { timezone: 'Europe/Berlin' },
+} as Workflow);
+
+describe('Wrapper workflows', () => {
+  describe('buildTriggerReplacementWorkflow', () => {
+    it('should replace the trigger with a Code node fed by a webhook', () => {
+      const workflow = createWorkflow();
+
+      const wrapper = buildTriggerReplacementWorkflow(workflow, workflow.nodes[0], 'schedule', { webhookId: 'abc' });
+
+      expect(wrapper.name).toBe('[n8n-mcp test] Nightly Report');
+      expect(wrapper.settings).toEqual({ timezone: 'Europe/Berlin' });
+      expect(wrapper.nodes!.map(n => n.name)).toEqual(['n8n-mcp Test Webhook', 'Schedule Trigger', 'Build Report']);
+
+      const [webhook, replacement] = wrapper.nodes!;
+      expect(webhook).toMatchObject({
+        type: 'n8n-nodes-base.webhook',
+        webhookId: 'abc',
+        position: [-120, 200],
+        parameters: { httpMethod: 'POST', path: 'n8n-mcp-test-abc', responseMode: 'lastNode', responseData: 'allEntries' },
+      });
+      expect(replacement).toMatchObject({ type: 'n8n-nodes-base.code', position: [100, 200] });
+      expect(replacement.parameters.jsCode).toContain("'Day of week'");
+    });
+
+    it('should remove other triggers and their connections', () => {
+      const workflow = createWorkflow();
+
+      const wrapper = buildTriggerReplacementWorkflow(workflow, workflow.nodes[0], 'manual', { webhookId: 'abc' });
+
+      expect(wrapper.nodes!.some(n => n.name === 'Webhook')).toBe(false);
+      expect(wrapper.connections).toEqual({
+        'Schedule Trigger': { main: [[{ node: 'Build Report', type: 'main', index: 0 }]] },
+        'n8n-mcp Test Webhook': { main: [[{ node: 'Schedule Trigger', type: 'main', index: 0 }]] },
+      });
+      expect(wrapper.nodes![1].parameters.jsCode).toBe('return [{ json: $input.first().json.body ?? {} }];');
+    });
+
+    it('should respond immediately when not waiting for the response', () => {
+      const workflow = createWorkflow();
+
+      const wrapper = buildTriggerReplacementWorkflow(workflow, workflow.nodes[0], 'manual', {
+        webhookId: 'abc',
+        waitForResponse: false,
+      });
+
+      expect(wrapper.nodes![0].parameters.responseMode).toBe('onReceived');
+      expect(wrapper.nodes![0].parameters.responseData).toBeUndefined();
+    });
+  });
+
+  describe('buildExecuteWorkflowWrapper', () => {
+    it('should call the workflow by ID from a webhook', () => {
+      const wrapper = buildExecuteWorkflowWrapper(createWorkflow(), { webhookId: 'abc' });
+
+      expect(wrapper.nodes!.map(n => n.name)).toEqual(['n8n-mcp Test Webhook', 'Input', 'Execute Workflow']);
+      expect(wrapper.nodes![2].parameters).toEqual({
+        source: 'database',
+        workflowId: { __rl: true, value: 'workflow-123', mode: 'id' },
+        options: { waitForSubWorkflow: true },
+      });
+      expect(wrapper.connections).toEqual({
+        'n8n-mcp Test Webhook': { main: [[{ node: 'Input', type: 'main', index: 0 }]] },
+        Input: { main: [[{ node: 'Execute Workflow', type: 'main', index: 0 }]] },
+      });
+    });
+  });
+
+  it('should build unique webhook paths', () => {
+    expect(wrapperWebhookPath('abc')).toBe('n8n-mcp-test-abc');
+  });
+});
@@ -0,0 +1,133 @@
+/**
+ * Unit tests for Prometheus metrics
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  MetricsRegistry,
+  metricsRegistry,
+  recordToolCall,
+  recordN8nApiRequest,
+  databaseOperation,
+  timeDatabaseQuery
+} from '../../../src/utils/prometheus-metrics';
+import { cacheMetrics } from '../../../src/utils/cache-utils';
+
+describe('prometheus-metrics', () => {
+  describe('MetricsRegistry', () => {
+    it('should render counters with HELP and TYPE lines', () => {
+      const registry = new MetricsRegistry();
+      const counter = registry.counter('test_requests_total', 'Test requests', ['route']);
+
+      counter.inc({ route: '/a' });
+      counter.inc({ route: '/a' }, 2);
+      counter.inc({ route: 'say "hi"\n' });
+
+      expect(registry.render()).toBe(
+        '# HELP test_requests_total Test requests\n' +
+        '# TYPE test_requests_total counter\n' +
+        'test_requests_total{route="/a"} 3\n' +
+        'test_requests_total{route="say \\"hi\\"\\n"} 1\n'
+      );
+    });
+
+    it('should render cumulative histogram buckets', () => {
+      const registry = new MetricsRegistry();
+      const histogram = registry.histogram('test_duration_seconds', 'Test latency', [], [0.1, 1]);
+
+      histogram.observe({}, 0.05);
+      histogram.observe({}, 0.5);
+      histogram.observe({}, 5);
+
+      const lines = registry.render().split('\n');
+      expect(lines).toContain('test_duration_seconds_bucket{le="0.1"} 1');
+      expect(lines).toContain('test_duration_seconds_bucket{le="1"} 2');
+      expect(lines).toContain('test_duration_seconds_bucket{le="+Inf"} 3');
+      expect(lines).toContain('test_duration_seconds_sum 5.55');
+      expect(lines).toContain('test_duration_seconds_count 3');
+    });
+
+    it('should replace collectors registered under the same name', () => {
+      const registry = new MetricsRegistry();
+      registry.collect('test_sessions', 'Sessions', 'gauge', () => [{ labels: {}, value: 1 }]);
+      registry.collect('test_sessions', 'Sessions', 'gauge', () => [{ labels: {}, value: 2 }]);
+
+      expect(registry.render()).toContain('test_sessions 2\n');
+      expect(registry.render()).not.toContain('test_sessions 1\n');
+    });
+
+    it('should reject duplicate counter names', () => {
+      const registry = new MetricsRegistry();
+      registry.counter('test_total', 'Test');
+
+      expect(() => registry.counter('test_total', 'Test')).toThrow('already registered');
+    });
+
+    it('should cap the number of series per metric', () => {
+      const registry = new MetricsRegistry();
+      const counter = registry.counter('test_total', 'Test', ['id']);
+
+      for (let i = 0; i < 1005; i++) {
+        counter.inc({ id: String(i) });
+      }
+
+      expect(registry.render().split('\n').filter(line => line.startsWith('test_total{'))).toHaveLength(1000);
+    });
+  });
+
+  describe('recorded metrics', () => {
+    beforeEach(() => {
+      metricsRegistry.reset();
+    });
+
+    it('should count tool calls and errors by type', () => {
+      recordToolCall('search_nodes', 120);
+      recordToolCall('n8n_get_workflow', 30, 'NOT_FOUND');
+
+      const output = metricsRegistry.render();
+      expect(output).toContain('n8n_mcp_tool_calls_total{tool="search_nodes",status="success"} 1');
+      expect(output).toContain('n8n_mcp_tool_calls_total{tool="n8n_get_workflow",status="error"} 1');
+      expect(output).toContain('n8n_mcp_tool_errors_total{tool="n8n_get_workflow",error_type="NOT_FOUND"} 1');
+      expect(output).toContain('n8n_mcp_tool_call_duration_seconds_bucket{tool="search_nodes",le="0.25"} 1');
+    });
+
+    it('should record n8n API latency per instance', () => {
+      recordN8nApiRequest('n8n.example.com', 'get', '200', 250);
+
+      expect(metricsRegistry.render()).toContain(
+        'n8n_mcp_n8n_api_request_duration_seconds_count{instance="n8n.example.com",method="GET",status="200"} 1'
+      );
+    });
+
+    it('should time database queries by operation, also when they throw', () => {
+      expect(timeDatabaseQuery('select', () => 42)).toBe(42);
+      expect(() => timeDatabaseQuery('insert', () => { throw new Error('constraint failed'); })).toThrow();
+
+      const output = metricsRegistry.render();
+      expect(output).toContain('n8n_mcp_db_query_duration_seconds_count{operation="select"} 1');
+      expect(output).toContain('n8n_mcp_db_query_duration_seconds_count{operation="insert"} 1');
+    });
+
+    it('should read cache statistics at scrape time', () => {
+      cacheMetrics.reset();
+      cacheMetrics.recordHit();
+      cacheMetrics.recordMiss();
+
+      const output = metricsRegistry.render();
+      expect(output).toContain('n8n_mcp_cache_hits_total 1');
+      expect(output).toContain('n8n_mcp_cache_misses_total 1');
+      expect(output).toContain('n8n_mcp_cache_hit_ratio 0.5');
+    });
+  });
+
+  describe('databaseOperation', () => {
+    it('should classify statements by their leading keyword', () => {
+      expect(databaseOperation('  SELECT * FROM nodes')).toBe('select');
+      expect(databaseOperation('WITH x AS (SELECT 1) SELECT * FROM x')).toBe('select');
+      expect(databaseOperation('INSERT OR REPLACE INTO nodes VALUES (?)')).toBe('insert');
+      expect(databaseOperation('UPDATE nodes SET x = ?')).toBe('update');
+      expect(databaseOperation('DELETE FROM nodes')).toBe('delete');
+      expect(databaseOperation('CREATE TABLE t (id INTEGER)')).toBe('other');
+    });
+  });
+});
@@ -0,0 +1,40 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { isHttpMode, setHttpMode } from '@/utils/server-mode';
+import { isSimulationEnabled } from '@/services/workflow-simulator';
+import { N8NMCPEngine } from '@/mcp-engine';
+
+describe('server-mode', () => {
+  afterEach(() => {
+    setHttpMode(false);
+    vi.unstubAllEnvs();
+  });
+
+  it('should not be in HTTP mode by default', () => {
+    vi.stubEnv('MCP_MODE', 'stdio');
+
+    expect(isHttpMode()).toBe(false);
+    expect(isSimulationEnabled()).toBe(true);
+  });
+
+  it('should be in HTTP mode with MCP_MODE=http', () => {
+    vi.stubEnv('MCP_MODE', 'http');
+
+    expect(isHttpMode()).toBe(true);
+  });
+
+  it('should switch to HTTP mode when N8NMCPEngine is created without MCP_MODE', async () => {
+    vi.stubEnv('MCP_MODE', '');
+    vi.stubEnv('AUTH_TOKEN', 'test-token-that-is-at-least-32-characters-long');
+
+    const engine = new N8NMCPEngine({ logLevel: 'error' });
+    try {
+      expect(isHttpMode()).toBe(true);
+      expect(isSimulationEnabled()).toBe(false);
+
+      vi.stubEnv('ENABLE_HTTP_SIMULATION', 'true');
+      expect(isSimulationEnabled()).toBe(true);
+    } finally {
+      await engine.shutdown();
+    }
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest';
+import { parseYaml, stringifyYaml, YamlParseError } from '@/utils/simple-yaml';
+
+describe('simple-yaml', () => {
+  it('should parse nested mappings, sequences and scalars', () => {
+    const result = parseYaml(`
+# suite
+name: Orders
+count: 3
+ratio: 0.5
+enabled: true
+missing: null
+tests:
+  - name: "quoted: value"
+    input:
+      - amount: 500
+        tags: [a, 'b c', 3]
+    mocks: {Fetch: [{tier: gold}]}
+  - name: second
+`);
+
+    expect(result).toEqual({
+      name: 'Orders',
+      count: 3,
+      ratio: 0.5,
+      enabled: true,
+      missing: null,
+      tests: [
+        {
+          name: 'quoted: value',
+          input: [{ amount: 500, tags: ['a', 'b c', 3] }],
+          mocks: { Fetch: [{ tier: 'gold' }] }
+        },
+        { name: 'second' }
+      ]
+    });
+  });
+
+  it('should parse literal and folded block scalars', () => {
+    const result = parseYaml('code: |\n  line 1\n  line 2\ntext: >-\n  folded\n  words\n\n  paragraph\n') as any;
+
+    expect(result.code).toBe('line 1\nline 2\n');
+    expect(result.text).toBe('folded words\nparagraph');
+  });
+
+  it('should keep comments inside quotes and strip trailing comments', () => {
+    const result = parseYaml('a: "x # y"  # note\nb: plain # note\n');
+
+    expect(result).toEqual({ a: 'x # y', b: 'plain' });
+  });
+
+  it('should reject unsupported features with the line number', () => {
+    expect(() => parseYaml('a: &anchor 1\nb: *anchor\n')).toThrow(YamlParseError);
+    expect(() => parseYaml('a: 1\n---\nb: 2\n')).toThrow(/line 2/);
+    expect(() => parseYaml('a:\n\tb: 1\n')).toThrow(/tab/i);
+  });
+});
+
+describe('stringifyYaml', () => {
+  it('should round-trip workflow-like data', () => {
+    const workflow = {
+      name: 'Orders: sync',
+      active: false,
+      nodes: [
+        {
+          id: 'a1',
+          name: 'Code',
+          type: 'n8n-nodes-base.code',
+          typeVersion: 2,
+          position: [250, -300],
+          parameters: {
+            jsCode: 'const items = $input.all();\n\nreturn items; # done\n',
+            note: 'no trailing newline\n  indented line',
+            flags: { 'with space': true, 'weird: key': 'true', empty: '' }
+          }
+        }
+      ],
+      connections: { Code: { main: [[{ node: 'Next', type: 'main', index: 0 }]] } },
+      settings: {},
+      tags: [],
+      values: ['null', '42', '- dash', '#hash', 'trailing ', '"quoted"', 1.5, null, [], [[1, 2]]]
+    };
+
+    expect(parseYaml(stringifyYaml(workflow))).toEqual(workflow);
+  });
+
+  it('should write multi-line strings as literal block scalars', () => {
+    const yaml = stringifyYaml({ code: 'line 1\nline 2\n', text: 'a\nb' });
+
+    expect(yaml).toBe('code: |\n  line 1\n  line 2\ntext: |-\n  a\n  b\n');
+  });
+
+  it('should quote strings made only of newlines', () => {
+    const data = { a: '\n', b: '\n\nx', c: '\nx\n' };
+    const yaml = stringifyYaml(data);
+
+    expect(yaml).toContain('a: "\\n"\n');
+    expect(parseYaml(yaml)).toEqual(data);
+  });
+});